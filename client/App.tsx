@@ -33,6 +33,8 @@ import { Analytics } from "./pages/Analytics";
 import { PlaceholderPage } from "./pages/PlaceholderPage";
 import { HowItWorks } from "./pages/HowItWorks";
 import { Schedule } from "./pages/Schedule";
+import { Disclosures } from "./pages/Disclosures";
+import { WaitlistOfferPage } from "./pages/WaitlistOffer";
 import { AlgorithmConfig } from "./pages/AlgorithmConfig";
 import { EHR } from "./pages/EHR";
 import { Intake } from "./pages/ehr/Intake";
@@ -76,6 +78,7 @@ import { RPMCommandCenter } from "./pages/RPMCommandCenter";
 import { CCMWorkflow } from "./pages/CCMWorkflow";
 import { VitalSubmission } from "./pages/VitalSubmission";
 import { DiabetesRPMDashboard } from "./pages/DiabetesRPMDashboard";
+import { CGMReport } from "./pages/CGMReport";
 import { PatientRegistry } from "./pages/PatientRegistry";
 import { PatientRecords } from "./pages/PatientRecords";
 
@@ -248,6 +251,26 @@ const App = () => (
                     </ProtectedRoute>
                   }
                 />
+                <Route
+                  path="/disclosures"
+                  element={
+                    <ProtectedRoute allowedRoles={["patient"]}>
+                      <Layout>
+                        <Disclosures />
+                      </Layout>
+                    </ProtectedRoute>
+                  }
+                />
+                <Route
+                  path="/appointments/offers/:offerId"
+                  element={
+                    <ProtectedRoute allowedRoles={["patient"]}>
+                      <Layout>
+                        <WaitlistOfferPage />
+                      </Layout>
+                    </ProtectedRoute>
+                  }
+                />
 
                 {/* Doctor Portal Routes */}
                 <Route
@@ -576,6 +599,22 @@ const App = () => (
                     </ProtectedRoute>
                   }
                 />
+                <Route
+                  path="/cgm-report/:patientId?"
+                  element={
+                    <ProtectedRoute
+                      allowedRoles={[
+                        "patient",
+                        "caregiver",
+                        "admin",
+                        "doctor",
+                        "nurse",
+                      ]}
+                    >
+                      <CGMReport />
+                    </ProtectedRoute>
+                  }
+                />
                 <Route
                   path="/patient-rpm"
                   element={
@@ -206,6 +206,7 @@ export function Layout({ children }: LayoutProps) {
           { name: "Wellness", href: "/wellness", icon: Heart },
           { name: "Trends", href: "/trends", icon: TrendingUp },
           { name: "AI Chat", href: "/chat", icon: MessageCircle },
+          { name: "Privacy", href: "/disclosures", icon: Shield },
         ];
       case "doctor":
         return [
@@ -0,0 +1,163 @@
+import { useEffect } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  SmsInboxService,
+  SmsThread,
+  SmsThreadMessage,
+} from "../../services/api.service";
+import { useToast } from "../use-toast";
+
+// Query Keys
+export const inboxKeys = {
+  all: ["sms-inbox"] as const,
+  threads: (filter: object) => [...inboxKeys.all, "threads", filter] as const,
+  thread: (threadId: string) => [...inboxKeys.all, "thread", threadId] as const,
+  summary: () => [...inboxKeys.all, "summary"] as const,
+  cannedReplies: () => [...inboxKeys.all, "canned-replies"] as const,
+};
+
+export function useSmsThreads(
+  filter: Parameters<typeof SmsInboxService.getThreads>[0] = {},
+) {
+  return useQuery({
+    queryKey: inboxKeys.threads(filter),
+    queryFn: () => SmsInboxService.getThreads(filter),
+    // Due times move on even when nothing new arrives
+    refetchInterval: 60 * 1000,
+  });
+}
+
+export function useSmsThread(threadId: string | null) {
+  return useQuery({
+    queryKey: inboxKeys.thread(threadId || ""),
+    queryFn: () => SmsInboxService.getThread(threadId!),
+    enabled: !!threadId,
+  });
+}
+
+export function useSmsInboxSummary() {
+  return useQuery({
+    queryKey: inboxKeys.summary(),
+    queryFn: SmsInboxService.getSummary,
+    refetchInterval: 60 * 1000,
+  });
+}
+
+export function useCannedReplies() {
+  return useQuery({
+    queryKey: inboxKeys.cannedReplies(),
+    queryFn: SmsInboxService.getCannedReplies,
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
+export function useMarkThreadRead() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (threadId: string) => SmsInboxService.markRead(threadId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: inboxKeys.all });
+    },
+  });
+}
+
+export function useReplyToThread() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: ({
+      threadId,
+      reply,
+    }: {
+      threadId: string;
+      reply: Parameters<typeof SmsInboxService.reply>[1];
+    }) => SmsInboxService.reply(threadId, reply),
+    onSuccess: (message: SmsThreadMessage) => {
+      queryClient.invalidateQueries({ queryKey: inboxKeys.all });
+      queryClient.invalidateQueries({
+        queryKey: inboxKeys.thread(message.threadId),
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Message not sent",
+        description: error.message || "The text could not be sent",
+        variant: "destructive",
+      });
+    },
+  });
+}
+
+export function useUpdateThread() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({
+      threadId,
+      assigneeId,
+      status,
+    }: {
+      threadId: string;
+      assigneeId?: string | null;
+      status?: SmsThread["status"];
+    }) =>
+      status
+        ? SmsInboxService.setStatus(threadId, status)
+        : SmsInboxService.assign(threadId, assigneeId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: inboxKeys.all });
+    },
+  });
+}
+
+export function useSaveCannedReply() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({
+      reply,
+      replyId,
+    }: {
+      reply: { title: string; body: string; category?: string };
+      replyId?: string;
+    }) => SmsInboxService.saveCannedReply(reply, replyId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: inboxKeys.cannedReplies() });
+    },
+  });
+}
+
+/**
+ * Refresh the inbox as patients text in. The server pushes each new text
+ * over /ws to the staff working the thread, once the socket has
+ * authenticated with the caller's access token.
+ */
+export function useSmsInboxUpdates(
+  onMessage?: (thread: SmsThread, message: SmsThreadMessage) => void,
+) {
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    const token = localStorage.getItem("auth_token");
+    if (!token) return;
+
+    const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+    const socket = new WebSocket(`${protocol}//${window.location.host}/ws`);
+    socket.onopen = () =>
+      socket.send(JSON.stringify({ type: "authenticate", token }));
+    socket.onmessage = (event) => {
+      try {
+        const update = JSON.parse(event.data);
+        if (update.type !== "sms_thread_message") return;
+
+        queryClient.invalidateQueries({ queryKey: inboxKeys.all });
+        onMessage?.(update.data.thread, update.data.message);
+      } catch (error) {
+        console.error("Inbox update error:", error);
+      }
+    };
+    return () => socket.close();
+  }, [queryClient, onMessage]);
+}
@@ -9,6 +9,9 @@ export const API_ENDPOINTS = {
   AUTH: {
     LOGIN: "/auth/login",
     LOGOUT: "/auth/logout",
+    LOGOUT_ALL: "/auth/logout-all",
+    SESSIONS: "/auth/profile/sessions",
+    REVOKE_SESSION: (id: string) => `/auth/profile/sessions/${id}`,
     REFRESH: "/auth/refresh",
     REGISTER: "/auth/register",
     VERIFY_EMAIL: "/auth/verify-email",
@@ -184,6 +187,37 @@ export const API_ENDPOINTS = {
     POPULATION_HEALTH: "/analytics/population-health",
   },
 
+  // Accounting of disclosures
+  DISCLOSURES: {
+    REPORT: (patientId: string) => `/disclosures/${patientId}`,
+  },
+
+  // CGM glucose reports
+  CGM: {
+    REPORT: (patientId: string) => `/cgm/report/${patientId}`,
+  },
+
+  // Appointment waitlist and the slots offered from it
+  WAITLIST: {
+    LIST: (patientId: string) => `/scheduling/waitlist/${patientId}`,
+    ACCEPT_OFFER: (offerId: string) =>
+      `/scheduling/waitlist/offers/${offerId}/accept`,
+  },
+
+  // Patient text conversations
+  INBOX: {
+    THREADS: "/inbox/threads",
+    SUMMARY: "/inbox/summary",
+    THREAD: (threadId: string) => `/inbox/threads/${threadId}`,
+    READ: (threadId: string) => `/inbox/threads/${threadId}/read`,
+    ASSIGN: (threadId: string) => `/inbox/threads/${threadId}/assign`,
+    STATUS: (threadId: string) => `/inbox/threads/${threadId}/status`,
+    MESSAGES: (threadId: string) => `/inbox/threads/${threadId}/messages`,
+    OPEN: (patientId: string) => `/inbox/patients/${patientId}/thread`,
+    CANNED_REPLIES: "/inbox/canned-replies",
+    CANNED_REPLY: (replyId: string) => `/inbox/canned-replies/${replyId}`,
+  },
+
   // System Administration
   ADMIN: {
     USERS: "/admin/users",
@@ -0,0 +1,335 @@
+import { useEffect, useState } from "react";
+import { Link, useParams } from "react-router-dom";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "../components/ui/card";
+import { Badge } from "../components/ui/badge";
+import { Button } from "../components/ui/button";
+import { Alert, AlertDescription } from "../components/ui/alert";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "../components/ui/table";
+import {
+  Area,
+  CartesianGrid,
+  ComposedChart,
+  Line,
+  ReferenceLine,
+  ResponsiveContainer,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { useToast } from "../hooks/use-toast";
+import { useAuth } from "../contexts/AuthContext";
+import { CgmReportService, CgmReport as Report } from "../services/api.service";
+import {
+  AlertTriangle,
+  ArrowLeft,
+  Download,
+  Droplets,
+  Printer,
+} from "lucide-react";
+
+const BAND_COLORS: Record<Report["ranges"][number]["band"], string> = {
+  very_low: "bg-red-700",
+  low: "bg-red-400",
+  target: "bg-green-500",
+  high: "bg-yellow-400",
+  very_high: "bg-orange-500",
+};
+
+const PERIODS = [7, 14, 30, 90];
+
+const formatValue = (value: number | null, unit: string) =>
+  value === null ? "-" : `${value}${unit}`;
+
+// Standalone so it prints without the app navigation
+export function CGMReport() {
+  const { patientId } = useParams();
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [report, setReport] = useState<Report | null>(null);
+  const [days, setDays] = useState(14);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const subjectId = patientId || user?.id;
+
+  useEffect(() => {
+    if (!subjectId) return;
+    setIsLoading(true);
+    CgmReportService.getReport(subjectId, days)
+      .then(setReport)
+      .catch((error) => {
+        console.error("Failed to load CGM report:", error);
+        toast({
+          title: "Unable to load report",
+          description: "The glucose report could not be loaded.",
+          variant: "destructive",
+        });
+      })
+      .finally(() => setIsLoading(false));
+  }, [subjectId, days]);
+
+  const download = async () => {
+    if (!subjectId) return;
+    try {
+      const blob = await CgmReportService.downloadReport(subjectId, days);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `cgm-report-${days}-days.pdf`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error("Failed to download CGM report:", error);
+      toast({
+        title: "Download failed",
+        description: "The report could not be downloaded.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="p-6 max-w-5xl mx-auto space-y-6 print:p-0 print:space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-4 print:hidden">
+        <Button variant="ghost" size="sm" asChild>
+          <Link to="/diabetes-rpm-dashboard">
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back
+          </Link>
+        </Button>
+        <div className="flex gap-2">
+          {PERIODS.map((period) => (
+            <Button
+              key={period}
+              size="sm"
+              variant={period === days ? "default" : "outline"}
+              onClick={() => setDays(period)}
+            >
+              {period} days
+            </Button>
+          ))}
+          <Button variant="outline" size="sm" onClick={() => window.print()}>
+            <Printer className="w-4 h-4 mr-2" />
+            Print
+          </Button>
+          <Button variant="outline" size="sm" onClick={download}>
+            <Download className="w-4 h-4 mr-2" />
+            PDF
+          </Button>
+        </div>
+      </div>
+
+      <div>
+        <h1 className="text-3xl font-bold flex items-center gap-2">
+          <Droplets className="w-8 h-8 text-primary print:hidden" />
+          CGM Report
+        </h1>
+        {report && (
+          <p className="text-muted-foreground mt-1">
+            {report.patient.name} &middot;{" "}
+            {new Date(report.period.start).toLocaleDateString()} to{" "}
+            {new Date(report.period.end).toLocaleDateString()} (
+            {report.period.days} days)
+          </p>
+        )}
+      </div>
+
+      {!report ? (
+        <p className="text-muted-foreground text-center py-8">
+          {isLoading ? "Loading..." : "No report available."}
+        </p>
+      ) : (
+        <>
+          {!report.data.sufficient && (
+            <Alert className="border-amber-200 bg-amber-50">
+              <AlertTriangle className="h-4 w-4 text-amber-600" />
+              <AlertDescription className="text-amber-800">
+                The sensor was active {report.data.activePercent}% of the time.
+                At least 70% is needed for reliable metrics.
+              </AlertDescription>
+            </Alert>
+          )}
+
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            {[
+              ["Mean glucose", formatValue(report.glucose.mean, " mg/dL")],
+              ["GMI", formatValue(report.glucose.gmi, "%")],
+              ["Variability (CV)", formatValue(report.glucose.cv, "%")],
+              ["Sensor active", `${report.data.activePercent}%`],
+            ].map(([label, value]) => (
+              <Card key={label}>
+                <CardContent className="pt-6">
+                  <div className="text-2xl font-bold">{value}</div>
+                  <p className="text-sm text-muted-foreground">{label}</p>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+
+          <Card className="break-inside-avoid">
+            <CardHeader>
+              <CardTitle>Time in Ranges</CardTitle>
+              <CardDescription>
+                Share of readings in each glucose range (mg/dL)
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="flex h-6 w-full overflow-hidden rounded print:[print-color-adjust:exact]">
+                {report.ranges.map((range) => (
+                  <div
+                    key={range.band}
+                    className={BAND_COLORS[range.band]}
+                    style={{ width: `${range.percent}%` }}
+                  />
+                ))}
+              </div>
+              <div className="grid grid-cols-2 md:grid-cols-5 gap-2 text-sm">
+                {report.ranges.map((range) => (
+                  <div key={range.band}>
+                    <div className="font-medium">{range.percent}%</div>
+                    <div className="text-muted-foreground">{range.label}</div>
+                    <div className="text-xs text-muted-foreground">
+                      {range.minutesPerDay} min/day
+                    </div>
+                  </div>
+                ))}
+              </div>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Target</TableHead>
+                    <TableHead>Value</TableHead>
+                    <TableHead>Goal</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {report.targets.map((target) => (
+                    <TableRow key={target.metric}>
+                      <TableCell>{target.label}</TableCell>
+                      <TableCell>{target.value}%</TableCell>
+                      <TableCell>{target.goal}</TableCell>
+                      <TableCell>
+                        <Badge variant={target.met ? "outline" : "destructive"}>
+                          {target.met ? "Met" : "Not met"}
+                        </Badge>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+
+          <Card className="break-inside-avoid">
+            <CardHeader>
+              <CardTitle>Ambulatory Glucose Profile</CardTitle>
+              <CardDescription>
+                Median (line), 25-75% (dark band) and 5-95% (light band) of
+                readings by time of day, {report.period.timeZone}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ResponsiveContainer width="100%" height={300}>
+                <ComposedChart data={report.agp}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="time" interval={11} />
+                  <YAxis domain={[40, 350]} />
+                  <ReferenceLine y={70} stroke="#ef4444" />
+                  <ReferenceLine y={180} stroke="#eab308" />
+                  <Area
+                    dataKey={(slot) => [slot.p5, slot.p95]}
+                    stroke="none"
+                    fill="#93c5fd"
+                    fillOpacity={0.5}
+                    isAnimationActive={false}
+                  />
+                  <Area
+                    dataKey={(slot) => [slot.p25, slot.p75]}
+                    stroke="none"
+                    fill="#3b82f6"
+                    fillOpacity={0.6}
+                    isAnimationActive={false}
+                  />
+                  <Line
+                    dataKey="p50"
+                    stroke="#1e3a8a"
+                    strokeWidth={2}
+                    dot={false}
+                    isAnimationActive={false}
+                  />
+                </ComposedChart>
+              </ResponsiveContainer>
+            </CardContent>
+          </Card>
+
+          <Card className="break-inside-avoid">
+            <CardHeader>
+              <CardTitle>Hypoglycemia</CardTitle>
+              <CardDescription>
+                {report.hypoglycemia.level1} events below 70 mg/dL,{" "}
+                {report.hypoglycemia.level2} below 54 mg/dL, each lasting at
+                least 15 minutes
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {report.hypoglycemia.events.length === 0 ? (
+                <p className="text-muted-foreground text-center py-4">
+                  No hypoglycemic events in this period.
+                </p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Started</TableHead>
+                      <TableHead>Duration</TableHead>
+                      <TableHead>Lowest</TableHead>
+                      <TableHead>Level</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {report.hypoglycemia.events.map((event) => (
+                      <TableRow key={event.start}>
+                        <TableCell className="whitespace-nowrap">
+                          {new Date(event.start).toLocaleString()}
+                        </TableCell>
+                        <TableCell>{event.durationMinutes} min</TableCell>
+                        <TableCell>{event.nadir} mg/dL</TableCell>
+                        <TableCell>
+                          <Badge
+                            variant={
+                              event.level === 2 ? "destructive" : "outline"
+                            }
+                          >
+                            Level {event.level}
+                          </Badge>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+
+          <p className="text-xs text-muted-foreground">
+            {report.data.readings} readings, one every{" "}
+            {report.data.intervalMinutes} minutes. Generated{" "}
+            {new Date(report.generatedAt).toLocaleString()}.
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
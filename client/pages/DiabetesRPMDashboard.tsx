@@ -1,4 +1,5 @@
 import React, { useState, useEffect } from "react";
+import { Link } from "react-router-dom";
 import {
   Card,
   CardContent,
@@ -67,6 +68,7 @@ import {
   Dumbbell,
   Zap,
   Shield,
+  FileText,
 } from "lucide-react";
 
 interface GlucoseReading {
@@ -258,6 +260,12 @@ export function DiabetesRPMDashboard() {
             />
             CGM Connected
           </Badge>
+          <Button variant="outline" size="sm" asChild>
+            <Link to="/cgm-report">
+              <FileText className="w-4 h-4 mr-2" />
+              CGM Report
+            </Link>
+          </Button>
           <Button variant="outline" size="sm">
             <Settings className="w-4 h-4 mr-2" />
             Settings
@@ -0,0 +1,257 @@
+import { useEffect, useState } from "react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "../components/ui/card";
+import { Badge } from "../components/ui/badge";
+import { Button } from "../components/ui/button";
+import { Input } from "../components/ui/input";
+import { Label } from "../components/ui/label";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "../components/ui/table";
+import { useToast } from "../hooks/use-toast";
+import { useAuth } from "../contexts/AuthContext";
+import {
+  DisclosureService,
+  DisclosureReport,
+  DisclosureEntry,
+} from "../services/api.service";
+import { Shield, Download, RefreshCw, Eye, Send, FileText } from "lucide-react";
+
+const KIND_LABELS: Record<DisclosureEntry["kind"], string> = {
+  access: "Viewed",
+  export: "Exported",
+  transmission: "Sent",
+};
+
+const KIND_ICONS = {
+  access: Eye,
+  export: FileText,
+  transmission: Send,
+};
+
+const toDateInput = (date: Date) => date.toISOString().slice(0, 10);
+
+const formatLabel = (value?: string) =>
+  value ? value.replace(/_/g, " ") : "Not recorded";
+
+export function Disclosures() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [report, setReport] = useState<DisclosureReport | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [from, setFrom] = useState(() => {
+    const date = new Date();
+    date.setFullYear(date.getFullYear() - 1);
+    return toDateInput(date);
+  });
+  const [to, setTo] = useState(() => toDateInput(new Date()));
+
+  // The end date is inclusive
+  const toEndOfDay = (date: string) => `${date}T23:59:59.999Z`;
+
+  const loadReport = async () => {
+    if (!user) return;
+    setIsLoading(true);
+    try {
+      setReport(
+        await DisclosureService.getReport(user.id, from, toEndOfDay(to)),
+      );
+    } catch (error) {
+      console.error("Failed to load disclosures:", error);
+      toast({
+        title: "Unable to load report",
+        description: "Please check the date range and try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const download = async (format: "csv" | "pdf") => {
+    if (!user) return;
+    try {
+      const blob = await DisclosureService.downloadReport(
+        user.id,
+        format,
+        from,
+        toEndOfDay(to),
+      );
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `disclosures-${from}-to-${to}.${format}`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error("Failed to download disclosures:", error);
+      toast({
+        title: "Download failed",
+        description: "The report could not be downloaded.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  useEffect(() => {
+    loadReport();
+  }, [user?.id]);
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold flex items-center gap-2">
+          <Shield className="w-8 h-8 text-primary" />
+          Who Accessed My Data
+        </h1>
+        <p className="text-muted-foreground mt-1">
+          An accounting of every time your health information was viewed,
+          exported or sent, by whom and for what purpose.
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Report Period</CardTitle>
+          <CardDescription>
+            Reports can cover up to the last six years.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="flex flex-wrap items-end gap-4">
+          <div className="space-y-1">
+            <Label htmlFor="disclosures-from">From</Label>
+            <Input
+              id="disclosures-from"
+              type="date"
+              value={from}
+              max={to}
+              onChange={(e) => setFrom(e.target.value)}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="disclosures-to">To</Label>
+            <Input
+              id="disclosures-to"
+              type="date"
+              value={to}
+              min={from}
+              onChange={(e) => setTo(e.target.value)}
+            />
+          </div>
+          <Button onClick={loadReport} disabled={isLoading}>
+            <RefreshCw
+              className={`w-4 h-4 mr-2 ${isLoading ? "animate-spin" : ""}`}
+            />
+            Update
+          </Button>
+          <div className="flex gap-2 ml-auto">
+            <Button variant="outline" onClick={() => download("csv")}>
+              <Download className="w-4 h-4 mr-2" />
+              CSV
+            </Button>
+            <Button variant="outline" onClick={() => download("pdf")}>
+              <Download className="w-4 h-4 mr-2" />
+              PDF
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {report && (
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          <Card>
+            <CardContent className="pt-6">
+              <div className="text-2xl font-bold">{report.summary.total}</div>
+              <p className="text-sm text-muted-foreground">Total events</p>
+            </CardContent>
+          </Card>
+          {(Object.keys(KIND_LABELS) as DisclosureEntry["kind"][]).map(
+            (kind) => (
+              <Card key={kind}>
+                <CardContent className="pt-6">
+                  <div className="text-2xl font-bold">
+                    {report.summary.byKind[kind]}
+                  </div>
+                  <p className="text-sm text-muted-foreground">
+                    {KIND_LABELS[kind]}
+                  </p>
+                </CardContent>
+              </Card>
+            ),
+          )}
+        </div>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Disclosures</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {!report || report.entries.length === 0 ? (
+            <p className="text-muted-foreground text-center py-8">
+              {isLoading
+                ? "Loading..."
+                : "No one else accessed your data in this period."}
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Event</TableHead>
+                  <TableHead>By</TableHead>
+                  <TableHead>Data</TableHead>
+                  <TableHead>Purpose</TableHead>
+                  <TableHead>Channel</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {report.entries.map((entry) => {
+                  const Icon = KIND_ICONS[entry.kind];
+                  return (
+                    <TableRow key={entry.id}>
+                      <TableCell className="whitespace-nowrap">
+                        {new Date(entry.timestamp).toLocaleString()}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant="outline" className="gap-1">
+                          <Icon className="w-3 h-3" />
+                          {KIND_LABELS[entry.kind]}
+                        </Badge>
+                      </TableCell>
+                      <TableCell>
+                        <div className="font-medium">{entry.actor.name}</div>
+                        <div className="text-xs text-muted-foreground capitalize">
+                          {entry.actor.role}
+                        </div>
+                      </TableCell>
+                      <TableCell className="capitalize">
+                        {entry.dataTypes.map(formatLabel).join(", ")}
+                      </TableCell>
+                      <TableCell className="capitalize">
+                        {formatLabel(entry.purpose)}
+                      </TableCell>
+                      <TableCell className="uppercase text-xs">
+                        {entry.channel || "-"}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
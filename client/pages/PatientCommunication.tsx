@@ -78,171 +78,27 @@ import {
 import { useParams } from "react-router-dom";
 import { usePatient } from "../hooks/api/usePatients";
 import { PatientService } from "../services/patient.service";
+import { SmsInboxService, SmsThread } from "../services/api.service";
+import {
+  useCannedReplies,
+  useMarkThreadRead,
+  useReplyToThread,
+  useSaveCannedReply,
+  useSmsInboxSummary,
+  useSmsInboxUpdates,
+  useSmsThread,
+  useSmsThreads,
+  useUpdateThread,
+} from "../hooks/api/useSmsInbox";
 
 interface PatientCommunicationProps {
   patientId?: string;
 }
 
-// Mock data for conversations
-const mockConversations = [
-  {
-    id: "1",
-    patientId: "PAT001",
-    patientName: "Sarah Johnson",
-    lastMessage:
-      "Thank you for the medication instructions. I'll start taking them tomorrow morning.",
-    lastMessageTime: "2024-02-15T14:30:00Z",
-    unreadCount: 0,
-    priority: "normal",
-    type: "secure_message",
-    status: "active",
-    participants: ["Dr. Smith", "Sarah Johnson"],
-  },
-  {
-    id: "2",
-    patientId: "PAT002",
-    patientName: "Michael Brown",
-    lastMessage:
-      "I'm experiencing some side effects from the new medication. Can we discuss alternatives?",
-    lastMessageTime: "2024-02-15T16:45:00Z",
-    unreadCount: 2,
-    priority: "high",
-    type: "secure_message",
-    status: "urgent",
-    participants: ["Dr. Smith", "Michael Brown"],
-  },
-  {
-    id: "3",
-    patientId: "PAT003",
-    patientName: "Emily Davis",
-    lastMessage: "Appointment confirmation for next Tuesday at 2 PM",
-    lastMessageTime: "2024-02-15T10:15:00Z",
-    unreadCount: 0,
-    priority: "normal",
-    type: "appointment_reminder",
-    status: "active",
-    participants: ["Clinic", "Emily Davis"],
-  },
-  {
-    id: "4",
-    patientId: "PAT004",
-    patientName: "Robert Taylor",
-    lastMessage: "Lab results are ready for review",
-    lastMessageTime: "2024-02-14T18:20:00Z",
-    unreadCount: 1,
-    priority: "medium",
-    type: "lab_results",
-    status: "active",
-    participants: ["Lab Department", "Robert Taylor"],
-  },
-];
-
-const mockMessages = [
-  {
-    id: "1",
-    conversationId: "1",
-    senderId: "PAT001",
-    senderName: "Sarah Johnson",
-    senderType: "patient",
-    content:
-      "Hi Dr. Smith, I wanted to follow up on my recent lab results. Are they within normal ranges?",
-    timestamp: "2024-02-15T12:00:00Z",
-    messageType: "text",
-    status: "read",
-    attachments: [],
-  },
-  {
-    id: "2",
-    conversationId: "1",
-    senderId: "DOC001",
-    senderName: "Dr. Smith",
-    senderType: "provider",
-    content:
-      "Hello Sarah! I've reviewed your lab results and I'm pleased to say they look much better than last time. Your HbA1c has improved from 8.2% to 7.4%. We're moving in the right direction with your diabetes management.",
-    timestamp: "2024-02-15T12:15:00Z",
-    messageType: "text",
-    status: "read",
-    attachments: [],
-  },
-  {
-    id: "3",
-    conversationId: "1",
-    senderId: "PAT001",
-    senderName: "Sarah Johnson",
-    senderType: "patient",
-    content:
-      "That's wonderful news! Thank you for the update. Should I continue with the same medication dosage?",
-    timestamp: "2024-02-15T12:30:00Z",
-    messageType: "text",
-    status: "read",
-    attachments: [],
-  },
-  {
-    id: "4",
-    conversationId: "1",
-    senderId: "DOC001",
-    senderName: "Dr. Smith",
-    senderType: "provider",
-    content:
-      "Yes, please continue with the current Metformin dosage of 500mg twice daily. I'm also attaching a dietary guide that might help you maintain these improvements.",
-    timestamp: "2024-02-15T14:00:00Z",
-    messageType: "text",
-    status: "read",
-    attachments: [
-      {
-        id: "1",
-        name: "Diabetes_Dietary_Guide.pdf",
-        type: "application/pdf",
-        size: "2.4 MB",
-        url: "#",
-      },
-    ],
-  },
-  {
-    id: "5",
-    conversationId: "1",
-    senderId: "PAT001",
-    senderName: "Sarah Johnson",
-    senderType: "patient",
-    content:
-      "Thank you for the medication instructions. I'll start taking them tomorrow morning.",
-    timestamp: "2024-02-15T14:30:00Z",
-    messageType: "text",
-    status: "delivered",
-    attachments: [],
-  },
-];
+const threadName = (thread: SmsThread) =>
+  `${thread.patientFirstName} ${thread.patientLastName}`;
 
-const mockTemplates = [
-  {
-    id: "1",
-    name: "Appointment Reminder",
-    category: "appointments",
-    content:
-      "Hi {patientName}, this is a reminder for your upcoming appointment on {date} at {time} with {provider}. Please arrive 15 minutes early. If you need to reschedule, please call us at least 24 hours in advance.",
-  },
-  {
-    id: "2",
-    name: "Lab Results Available",
-    category: "results",
-    content:
-      "Hello {patientName}, your lab results from {date} are now available. Please log into your patient portal to review them, or we can discuss them during your next appointment.",
-  },
-  {
-    id: "3",
-    name: "Medication Reminder",
-    category: "medication",
-    content:
-      "Hi {patientName}, this is a reminder to take your {medicationName} as prescribed. If you have any questions or concerns about your medication, please don't hesitate to reach out.",
-  },
-  {
-    id: "4",
-    name: "Follow-up Required",
-    category: "follow-up",
-    content:
-      "Hello {patientName}, we need to schedule a follow-up appointment to discuss your recent {condition} treatment. Please call our office at your earliest convenience to schedule.",
-  },
-];
+const emptyCannedReply = { id: "", title: "", category: "", body: "" };
 
 export function PatientCommunication({
   patientId: propPatientId,
@@ -253,21 +109,20 @@ export function PatientCommunication({
   const [activeTab, setActiveTab] = useState("messages");
   const [selectedConversation, setSelectedConversation] = useState<
     string | null
-  >("1");
+  >(null);
   const [messageText, setMessageText] = useState("");
   const [searchTerm, setSearchTerm] = useState("");
   const [showNewMessageDialog, setShowNewMessageDialog] = useState(false);
   const [showTemplateDialog, setShowTemplateDialog] = useState(false);
   const [selectedTemplate, setSelectedTemplate] = useState("");
+  const [showCannedReplyDialog, setShowCannedReplyDialog] = useState(false);
+  const [cannedReplyDraft, setCannedReplyDraft] = useState(emptyCannedReply);
   const messagesEndRef = useRef<HTMLDivElement>(null);
 
   // New message state
   const [newMessage, setNewMessage] = useState({
     recipient: "",
-    subject: "",
     content: "",
-    priority: "normal",
-    type: "secure_message",
   });
 
   // Hooks - only fetch patient if patientId is provided and valid
@@ -276,74 +131,105 @@ export function PatientCommunication({
     !!(patientId && patientId !== "default"),
   );
 
+  const { data: threads = [] } = useSmsThreads({ status: "open,closed" });
+  const { data: summary } = useSmsInboxSummary();
+  const { data: cannedReplies = [] } = useCannedReplies();
+  const { data: threadData } = useSmsThread(selectedConversation);
+  const markRead = useMarkThreadRead();
+  const replyToThread = useReplyToThread();
+  const updateThread = useUpdateThread();
+  const saveCannedReply = useSaveCannedReply();
+  useSmsInboxUpdates();
+
+  const selectedThread = threadData?.thread;
+
+  // Opened from a patient's chart: start on that patient's thread
+  useEffect(() => {
+    if (!patientId || patientId === "default") return;
+    SmsInboxService.openThread(patientId)
+      .then((thread) => setSelectedConversation(thread.id))
+      .catch((error) => console.error("Error opening thread:", error));
+  }, [patientId]);
+
+  // Reading a thread clears its unread count
+  useEffect(() => {
+    if (selectedThread && selectedThread.unreadCount > 0) {
+      markRead.mutate(selectedThread.id);
+    }
+  }, [selectedThread?.id, selectedThread?.unreadCount]);
+
   // Auto-scroll to bottom of messages
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
-  }, [selectedConversation]);
+  }, [selectedConversation, threadData?.messages.length]);
 
   // Filter conversations based on search
   const filteredConversations = useMemo(() => {
-    return mockConversations.filter(
-      (conv) =>
-        conv.patientName.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        conv.lastMessage.toLowerCase().includes(searchTerm.toLowerCase()),
+    const term = searchTerm.toLowerCase();
+    return threads.filter(
+      (thread) =>
+        threadName(thread).toLowerCase().includes(term) ||
+        (thread.lastMessage?.text || "").toLowerCase().includes(term),
     );
-  }, [searchTerm]);
+  }, [threads, searchTerm]);
 
-  // Get messages for selected conversation
-  const conversationMessages = useMemo(() => {
-    if (!selectedConversation) return [];
-    return mockMessages.filter(
-      (msg) => msg.conversationId === selectedConversation,
-    );
-  }, [selectedConversation]);
+  const conversationMessages = threadData?.messages || [];
 
-  // Get conversation stats
-  const conversationStats = useMemo(() => {
-    const total = mockConversations.length;
-    const unread = mockConversations.reduce(
-      (sum, conv) => sum + conv.unreadCount,
-      0,
-    );
-    const urgent = mockConversations.filter(
-      (conv) => conv.priority === "high",
-    ).length;
-    const active = mockConversations.filter(
-      (conv) => conv.status === "active",
-    ).length;
-
-    return { total, unread, urgent, active };
-  }, []);
+  const fillTemplate = (body: string, thread?: SmsThread) =>
+    thread
+      ? body
+          .replace(/\{firstName\}/g, thread.patientFirstName)
+          .replace(/\{lastName\}/g, thread.patientLastName)
+      : body;
 
   const handleSendMessage = () => {
     if (!messageText.trim() || !selectedConversation) return;
 
-    // Mock sending message
-    console.log("Sending message:", messageText);
-    setMessageText("");
+    replyToThread.mutate(
+      { threadId: selectedConversation, reply: { body: messageText } },
+      { onSuccess: () => setMessageText("") },
+    );
   };
 
   const handleNewMessage = () => {
-    // Mock creating new message
-    console.log("Creating new message:", newMessage);
-    setShowNewMessageDialog(false);
-    setNewMessage({
-      recipient: "",
-      subject: "",
-      content: "",
-      priority: "normal",
-      type: "secure_message",
-    });
+    if (!newMessage.recipient || !newMessage.content.trim()) return;
+
+    replyToThread.mutate(
+      { threadId: newMessage.recipient, reply: { body: newMessage.content } },
+      {
+        onSuccess: () => {
+          setSelectedConversation(newMessage.recipient);
+          setShowNewMessageDialog(false);
+          setNewMessage({ recipient: "", content: "" });
+        },
+      },
+    );
   };
 
   const handleUseTemplate = () => {
-    const template = mockTemplates.find((t) => t.id === selectedTemplate);
+    const template = cannedReplies.find((t) => t.id === selectedTemplate);
     if (template) {
-      setMessageText(template.content);
+      setMessageText(fillTemplate(template.body, selectedThread));
       setShowTemplateDialog(false);
     }
   };
 
+  const handleSaveCannedReply = () => {
+    const { id, title, category, body } = cannedReplyDraft;
+    saveCannedReply.mutate(
+      {
+        reply: { title, body, category: category || undefined },
+        replyId: id || undefined,
+      },
+      {
+        onSuccess: () => {
+          setShowCannedReplyDialog(false);
+          setCannedReplyDraft(emptyCannedReply);
+        },
+      },
+    );
+  };
+
   const getPriorityColor = (priority: string) => {
     switch (priority) {
       case "high":
@@ -357,21 +243,6 @@ export function PatientCommunication({
     }
   };
 
-  const getTypeIcon = (type: string) => {
-    switch (type) {
-      case "secure_message":
-        return <MessageSquare className="w-4 h-4" />;
-      case "appointment_reminder":
-        return <Calendar className="w-4 h-4" />;
-      case "lab_results":
-        return <FileText className="w-4 h-4" />;
-      case "medication":
-        return <Info className="w-4 h-4" />;
-      default:
-        return <MessageSquare className="w-4 h-4" />;
-    }
-  };
-
   const formatTime = (timestamp: string) => {
     const date = new Date(timestamp);
     const now = new Date();
@@ -424,10 +295,10 @@ export function PatientCommunication({
               <div className="flex items-center justify-between">
                 <div>
                   <p className="text-sm font-medium text-muted-foreground">
-                    Total Conversations
+                    Open Conversations
                   </p>
                   <p className="text-2xl font-bold text-foreground">
-                    {conversationStats.total}
+                    {summary?.openThreads ?? 0}
                   </p>
                 </div>
                 <MessageSquare className="w-8 h-8 text-blue-600" />
@@ -443,7 +314,7 @@ export function PatientCommunication({
                     Unread Messages
                   </p>
                   <p className="text-2xl font-bold text-foreground">
-                    {conversationStats.unread}
+                    {summary?.unreadMessages ?? 0}
                   </p>
                   <p className="text-xs text-muted-foreground">
                     Require attention
@@ -459,12 +330,14 @@ export function PatientCommunication({
               <div className="flex items-center justify-between">
                 <div>
                   <p className="text-sm font-medium text-muted-foreground">
-                    Urgent Messages
+                    Overdue Replies
                   </p>
                   <p className="text-2xl font-bold text-foreground">
-                    {conversationStats.urgent}
+                    {summary?.overdue ?? 0}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    Past the reply target
                   </p>
-                  <p className="text-xs text-muted-foreground">High priority</p>
                 </div>
                 <AlertCircle className="w-8 h-8 text-red-600" />
               </div>
@@ -476,13 +349,13 @@ export function PatientCommunication({
               <div className="flex items-center justify-between">
                 <div>
                   <p className="text-sm font-medium text-muted-foreground">
-                    Active Conversations
+                    Assigned to Me
                   </p>
                   <p className="text-2xl font-bold text-foreground">
-                    {conversationStats.active}
+                    {summary?.assignedToMe ?? 0}
                   </p>
                   <p className="text-xs text-muted-foreground">
-                    Ongoing discussions
+                    Open conversations
                   </p>
                 </div>
                 <Users className="w-8 h-8 text-green-600" />
@@ -539,19 +412,19 @@ export function PatientCommunication({
                         <div className="flex items-start gap-3">
                           <Avatar className="w-10 h-10">
                             <AvatarFallback>
-                              {conversation.patientName
-                                .split(" ")
-                                .map((n) => n[0])
-                                .join("")}
+                              {conversation.patientFirstName[0]}
+                              {conversation.patientLastName[0]}
                             </AvatarFallback>
                           </Avatar>
                           <div className="flex-1 min-w-0">
                             <div className="flex items-center justify-between mb-1">
                               <h4 className="font-medium text-sm truncate">
-                                {conversation.patientName}
+                                {threadName(conversation)}
                               </h4>
                               <div className="flex items-center gap-1">
-                                {getTypeIcon(conversation.type)}
+                                {conversation.overdue && (
+                                  <Clock className="w-4 h-4 text-red-600" />
+                                )}
                                 {conversation.unreadCount > 0 && (
                                   <Badge className="bg-red-500 text-white text-xs px-1 min-w-[16px] h-4">
                                     {conversation.unreadCount}
@@ -560,19 +433,29 @@ export function PatientCommunication({
                               </div>
                             </div>
                             <p className="text-xs text-muted-foreground truncate mb-2">
-                              {conversation.lastMessage}
+                              {conversation.lastMessage?.text}
                             </p>
                             <div className="flex items-center justify-between">
                               <span className="text-xs text-muted-foreground">
-                                {formatTime(conversation.lastMessageTime)}
+                                {conversation.lastMessageAt &&
+                                  formatTime(conversation.lastMessageAt)}
                               </span>
                               <Badge
                                 className={getPriorityColor(
-                                  conversation.priority,
+                                  conversation.overdue
+                                    ? "high"
+                                    : conversation.status === "open"
+                                      ? "normal"
+                                      : "",
                                 )}
                                 variant="outline"
                               >
-                                {conversation.priority}
+                                {conversation.overdue
+                                  ? "Reply overdue"
+                                  : conversation.status === "closed"
+                                    ? "Closed"
+                                    : conversation.assignedToName ||
+                                      "Unassigned"}
                               </Badge>
                             </div>
                           </div>
@@ -585,32 +468,28 @@ export function PatientCommunication({
 
               {/* Message Thread */}
               <Card className="lg:col-span-2">
-                {selectedConversation ? (
+                {selectedThread ? (
                   <>
                     <CardHeader className="pb-3">
                       <div className="flex items-center justify-between">
                         <div className="flex items-center gap-3">
                           <Avatar className="w-8 h-8">
                             <AvatarFallback>
-                              {mockConversations
-                                .find((c) => c.id === selectedConversation)
-                                ?.patientName.split(" ")
-                                .map((n) => n[0])
-                                .join("")}
+                              {selectedThread.patientFirstName[0]}
+                              {selectedThread.patientLastName[0]}
                             </AvatarFallback>
                           </Avatar>
                           <div>
                             <h3 className="font-semibold">
-                              {
-                                mockConversations.find(
-                                  (c) => c.id === selectedConversation,
-                                )?.patientName
-                              }
+                              {threadName(selectedThread)}
                             </h3>
                             <p className="text-sm text-muted-foreground">
-                              {mockConversations
-                                .find((c) => c.id === selectedConversation)
-                                ?.participants.join(", ")}
+                              {selectedThread.phone} •{" "}
+                              {selectedThread.assignedToName || "Unassigned"}
+                              {selectedThread.replyDueAt &&
+                                ` • Reply due ${new Date(
+                                  selectedThread.replyDueAt,
+                                ).toLocaleString()}`}
                             </p>
                           </div>
                         </div>
@@ -628,17 +507,42 @@ export function PatientCommunication({
                               </Button>
                             </DropdownMenuTrigger>
                             <DropdownMenuContent align="end">
-                              <DropdownMenuItem>
+                              <DropdownMenuItem
+                                onClick={() =>
+                                  updateThread.mutate({
+                                    threadId: selectedThread.id,
+                                    status:
+                                      selectedThread.status === "open"
+                                        ? "closed"
+                                        : "open",
+                                  })
+                                }
+                              >
                                 <Archive className="w-4 h-4 mr-2" />
-                                Archive
+                                {selectedThread.status === "open"
+                                  ? "Close"
+                                  : "Reopen"}
                               </DropdownMenuItem>
-                              <DropdownMenuItem>
-                                <Star className="w-4 h-4 mr-2" />
-                                Star
+                              <DropdownMenuItem
+                                onClick={() =>
+                                  updateThread.mutate({
+                                    threadId: selectedThread.id,
+                                  })
+                                }
+                              >
+                                <User className="w-4 h-4 mr-2" />
+                                Assign to me
                               </DropdownMenuItem>
-                              <DropdownMenuItem>
-                                <Forward className="w-4 h-4 mr-2" />
-                                Forward
+                              <DropdownMenuItem
+                                onClick={() =>
+                                  updateThread.mutate({
+                                    threadId: selectedThread.id,
+                                    assigneeId: null,
+                                  })
+                                }
+                              >
+                                <Users className="w-4 h-4 mr-2" />
+                                Return to team
                               </DropdownMenuItem>
                             </DropdownMenuContent>
                           </DropdownMenu>
@@ -653,59 +557,42 @@ export function PatientCommunication({
                           <div
                             key={message.id}
                             className={`flex ${
-                              message.senderType === "provider"
+                              message.direction === "outbound"
                                 ? "justify-end"
                                 : "justify-start"
                             }`}
                           >
                             <div
                               className={`max-w-[70%] rounded-lg p-3 ${
-                                message.senderType === "provider"
+                                message.direction === "outbound"
                                   ? "bg-primary text-primary-foreground"
                                   : "bg-muted"
                               }`}
                             >
                               <div className="flex items-center gap-2 mb-1">
                                 <span className="text-xs font-medium">
-                                  {message.senderName}
+                                  {message.direction === "outbound"
+                                    ? message.sentByName || "Automatic reply"
+                                    : threadName(selectedThread)}
                                 </span>
                                 <span className="text-xs opacity-70">
                                   {formatTime(message.timestamp)}
                                 </span>
                               </div>
-                              <p className="text-sm">{message.content}</p>
-
-                              {message.attachments.length > 0 && (
-                                <div className="mt-2 space-y-1">
-                                  {message.attachments.map((attachment) => (
-                                    <div
-                                      key={attachment.id}
-                                      className="flex items-center gap-2 p-2 bg-black/10 rounded text-xs"
-                                    >
-                                      <FileText className="w-4 h-4" />
-                                      <span className="flex-1">
-                                        {attachment.name}
-                                      </span>
-                                      <span>{attachment.size}</span>
-                                      <Button
-                                        variant="ghost"
-                                        size="sm"
-                                        className="h-6 w-6 p-0"
-                                      >
-                                        <Download className="w-3 h-3" />
-                                      </Button>
-                                    </div>
-                                  ))}
-                                </div>
-                              )}
+                              <p className="text-sm whitespace-pre-wrap">
+                                {message.text}
+                              </p>
 
                               <div className="flex items-center justify-end mt-1">
-                                {message.status === "read" && (
+                                {message.status === "delivered" && (
                                   <CheckCheck className="w-3 h-3 opacity-70" />
                                 )}
-                                {message.status === "delivered" && (
+                                {message.status === "sent" && (
                                   <Check className="w-3 h-3 opacity-70" />
                                 )}
+                                {message.status === "failed" && (
+                                  <AlertCircle className="w-3 h-3 opacity-70" />
+                                )}
                               </div>
                             </div>
                           </div>
@@ -747,7 +634,9 @@ export function PatientCommunication({
                           </div>
                           <Button
                             onClick={handleSendMessage}
-                            disabled={!messageText.trim()}
+                            disabled={
+                              !messageText.trim() || replyToThread.isPending
+                            }
                             className="self-end"
                           >
                             <Send className="w-4 h-4" />
@@ -777,8 +666,14 @@ export function PatientCommunication({
             <Card>
               <CardHeader>
                 <div className="flex items-center justify-between">
-                  <CardTitle>Message Templates</CardTitle>
-                  <Button size="sm">
+                  <CardTitle>Canned Replies</CardTitle>
+                  <Button
+                    size="sm"
+                    onClick={() => {
+                      setCannedReplyDraft(emptyCannedReply);
+                      setShowCannedReplyDialog(true);
+                    }}
+                  >
                     <Plus className="w-4 h-4 mr-2" />
                     Create Template
                   </Button>
@@ -786,29 +681,50 @@ export function PatientCommunication({
               </CardHeader>
               <CardContent>
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                  {mockTemplates.map((template) => (
+                  {cannedReplies.map((template) => (
                     <Card
                       key={template.id}
                       className="hover:shadow-md transition-shadow"
                     >
                       <CardContent className="p-4">
                         <div className="flex items-start justify-between mb-3">
-                          <h3 className="font-medium">{template.name}</h3>
-                          <Badge variant="outline">{template.category}</Badge>
+                          <h3 className="font-medium">{template.title}</h3>
+                          {template.category && (
+                            <Badge variant="outline">{template.category}</Badge>
+                          )}
                         </div>
                         <p className="text-sm text-muted-foreground mb-4 line-clamp-3">
-                          {template.content}
+                          {template.body}
                         </p>
                         <div className="flex gap-2">
                           <Button
                             variant="outline"
                             size="sm"
                             className="flex-1"
+                            onClick={() => {
+                              setCannedReplyDraft({
+                                id: template.id,
+                                title: template.title,
+                                category: template.category || "",
+                                body: template.body,
+                              });
+                              setShowCannedReplyDialog(true);
+                            }}
                           >
                             <Edit className="w-3 h-3 mr-1" />
                             Edit
                           </Button>
-                          <Button size="sm" className="flex-1">
+                          <Button
+                            size="sm"
+                            className="flex-1"
+                            disabled={!selectedThread}
+                            onClick={() => {
+                              setMessageText(
+                                fillTemplate(template.body, selectedThread),
+                              );
+                              setActiveTab("messages");
+                            }}
+                          >
                             Use Template
                           </Button>
                         </div>
@@ -957,7 +873,7 @@ export function PatientCommunication({
             <DialogHeader>
               <DialogTitle>New Message</DialogTitle>
               <DialogDescription>
-                Send a secure message to a patient
+                Text a patient from the care team inbox
               </DialogDescription>
             </DialogHeader>
             <div className="space-y-4">
@@ -973,72 +889,15 @@ export function PatientCommunication({
                     <SelectValue placeholder="Select patient" />
                   </SelectTrigger>
                   <SelectContent>
-                    {mockConversations.map((conv) => (
-                      <SelectItem key={conv.id} value={conv.patientName}>
-                        {conv.patientName}
+                    {threads.map((thread) => (
+                      <SelectItem key={thread.id} value={thread.id}>
+                        {threadName(thread)}
                       </SelectItem>
                     ))}
                   </SelectContent>
                 </Select>
               </div>
 
-              <div>
-                <Label htmlFor="subject">Subject</Label>
-                <Input
-                  id="subject"
-                  value={newMessage.subject}
-                  onChange={(e) =>
-                    setNewMessage({ ...newMessage, subject: e.target.value })
-                  }
-                  placeholder="Enter message subject"
-                />
-              </div>
-
-              <div className="grid grid-cols-2 gap-4">
-                <div>
-                  <Label htmlFor="priority">Priority</Label>
-                  <Select
-                    value={newMessage.priority}
-                    onValueChange={(value) =>
-                      setNewMessage({ ...newMessage, priority: value })
-                    }
-                  >
-                    <SelectTrigger>
-                      <SelectValue />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="normal">Normal</SelectItem>
-                      <SelectItem value="medium">Medium</SelectItem>
-                      <SelectItem value="high">High</SelectItem>
-                    </SelectContent>
-                  </Select>
-                </div>
-
-                <div>
-                  <Label htmlFor="type">Message Type</Label>
-                  <Select
-                    value={newMessage.type}
-                    onValueChange={(value) =>
-                      setNewMessage({ ...newMessage, type: value })
-                    }
-                  >
-                    <SelectTrigger>
-                      <SelectValue />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="secure_message">
-                        Secure Message
-                      </SelectItem>
-                      <SelectItem value="appointment_reminder">
-                        Appointment Reminder
-                      </SelectItem>
-                      <SelectItem value="lab_results">Lab Results</SelectItem>
-                      <SelectItem value="medication">Medication</SelectItem>
-                    </SelectContent>
-                  </Select>
-                </div>
-              </div>
-
               <div>
                 <Label htmlFor="content">Message</Label>
                 <Textarea
@@ -1059,7 +918,14 @@ export function PatientCommunication({
               >
                 Cancel
               </Button>
-              <Button onClick={handleNewMessage}>
+              <Button
+                onClick={handleNewMessage}
+                disabled={
+                  !newMessage.recipient ||
+                  !newMessage.content.trim() ||
+                  replyToThread.isPending
+                }
+              >
                 <Send className="w-4 h-4 mr-2" />
                 Send Message
               </Button>
@@ -1085,9 +951,10 @@ export function PatientCommunication({
                   <SelectValue placeholder="Select a template" />
                 </SelectTrigger>
                 <SelectContent>
-                  {mockTemplates.map((template) => (
+                  {cannedReplies.map((template) => (
                     <SelectItem key={template.id} value={template.id}>
-                      {template.name} - {template.category}
+                      {template.title}
+                      {template.category && ` - ${template.category}`}
                     </SelectItem>
                   ))}
                 </SelectContent>
@@ -1096,13 +963,17 @@ export function PatientCommunication({
               {selectedTemplate && (
                 <div className="p-3 bg-muted rounded border">
                   <h4 className="font-medium mb-2">
-                    {mockTemplates.find((t) => t.id === selectedTemplate)?.name}
-                  </h4>
-                  <p className="text-sm text-muted-foreground">
                     {
-                      mockTemplates.find((t) => t.id === selectedTemplate)
-                        ?.content
+                      cannedReplies.find((t) => t.id === selectedTemplate)
+                        ?.title
                     }
+                  </h4>
+                  <p className="text-sm text-muted-foreground">
+                    {fillTemplate(
+                      cannedReplies.find((t) => t.id === selectedTemplate)
+                        ?.body || "",
+                      selectedThread,
+                    )}
                   </p>
                 </div>
               )}
@@ -1120,6 +991,84 @@ export function PatientCommunication({
             </DialogFooter>
           </DialogContent>
         </Dialog>
+
+        {/* Canned Reply Dialog */}
+        <Dialog
+          open={showCannedReplyDialog}
+          onOpenChange={setShowCannedReplyDialog}
+        >
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>
+                {cannedReplyDraft.id ? "Edit Canned Reply" : "New Canned Reply"}
+              </DialogTitle>
+              <DialogDescription>
+                Use {"{firstName}"} and {"{lastName}"} to address the patient
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-4">
+              <div>
+                <Label htmlFor="canned-title">Title</Label>
+                <Input
+                  id="canned-title"
+                  value={cannedReplyDraft.title}
+                  onChange={(e) =>
+                    setCannedReplyDraft({
+                      ...cannedReplyDraft,
+                      title: e.target.value,
+                    })
+                  }
+                />
+              </div>
+              <div>
+                <Label htmlFor="canned-category">Category</Label>
+                <Input
+                  id="canned-category"
+                  value={cannedReplyDraft.category}
+                  onChange={(e) =>
+                    setCannedReplyDraft({
+                      ...cannedReplyDraft,
+                      category: e.target.value,
+                    })
+                  }
+                  placeholder="e.g. Medication"
+                />
+              </div>
+              <div>
+                <Label htmlFor="canned-body">Message</Label>
+                <Textarea
+                  id="canned-body"
+                  value={cannedReplyDraft.body}
+                  onChange={(e) =>
+                    setCannedReplyDraft({
+                      ...cannedReplyDraft,
+                      body: e.target.value,
+                    })
+                  }
+                  rows={5}
+                />
+              </div>
+            </div>
+            <DialogFooter>
+              <Button
+                variant="outline"
+                onClick={() => setShowCannedReplyDialog(false)}
+              >
+                Cancel
+              </Button>
+              <Button
+                onClick={handleSaveCannedReply}
+                disabled={
+                  !cannedReplyDraft.title.trim() ||
+                  !cannedReplyDraft.body.trim() ||
+                  saveCannedReply.isPending
+                }
+              >
+                Save
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
       </div>
     </div>
   );
@@ -0,0 +1,136 @@
+import { useEffect, useState } from "react";
+import { Link, useParams } from "react-router-dom";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "../components/ui/card";
+import { Button } from "../components/ui/button";
+import { useToast } from "../hooks/use-toast";
+import { useAuth } from "../contexts/AuthContext";
+import { ApiError } from "../lib/api-client";
+import { WaitlistService, WaitlistOffer } from "../services/api.service";
+import { Calendar, CheckCircle, Clock, XCircle } from "lucide-react";
+
+const formatTime = (iso: string) =>
+  new Date(iso).toLocaleString(undefined, {
+    dateStyle: "full",
+    timeStyle: "short",
+  });
+
+// The page linked from a waitlist offer text
+export function WaitlistOfferPage() {
+  const { offerId } = useParams<{ offerId: string }>();
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [offer, setOffer] = useState<WaitlistOffer | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isBooking, setIsBooking] = useState(false);
+  const [booked, setBooked] = useState<{ start: string } | null>(null);
+  const [unavailable, setUnavailable] = useState(false);
+
+  useEffect(() => {
+    if (!user || !offerId) return;
+    setIsLoading(true);
+    WaitlistService.getPendingOffers(user.id)
+      .then((offers) => {
+        const pending = offers.find((candidate) => candidate.id === offerId);
+        setOffer(pending || null);
+        setUnavailable(!pending);
+      })
+      .catch((error) => {
+        console.error("Failed to load waitlist offer:", error);
+        toast({
+          title: "Unable to load offer",
+          description: "Please try again in a moment.",
+          variant: "destructive",
+        });
+      })
+      .finally(() => setIsLoading(false));
+  }, [user?.id, offerId]);
+
+  const accept = async () => {
+    if (!offerId) return;
+    setIsBooking(true);
+    try {
+      setBooked(await WaitlistService.acceptOffer(offerId));
+    } catch (error) {
+      if ((error as ApiError).status === 409) {
+        setUnavailable(true);
+      } else {
+        console.error("Failed to accept waitlist offer:", error);
+        toast({
+          title: "Booking failed",
+          description: "The appointment could not be booked. Please try again.",
+          variant: "destructive",
+        });
+      }
+    } finally {
+      setIsBooking(false);
+    }
+  };
+
+  return (
+    <div className="max-w-xl mx-auto space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Calendar className="w-6 h-6 text-primary" />
+            Earlier Appointment Available
+          </CardTitle>
+          <CardDescription>
+            A slot opened up with the provider you are waiting for. It goes to
+            the first patient who books it.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {isLoading ? (
+            <p className="text-muted-foreground">Loading offer...</p>
+          ) : booked ? (
+            <div className="flex items-start gap-3">
+              <CheckCircle className="w-6 h-6 text-green-600 flex-shrink-0" />
+              <div>
+                <p className="font-medium">Your appointment is booked</p>
+                <p className="text-sm text-muted-foreground">
+                  {formatTime(booked.start)}. We have sent you the details.
+                </p>
+              </div>
+            </div>
+          ) : unavailable || !offer ? (
+            <div className="flex items-start gap-3">
+              <XCircle className="w-6 h-6 text-muted-foreground flex-shrink-0" />
+              <div>
+                <p className="font-medium">This offer is no longer available</p>
+                <p className="text-sm text-muted-foreground">
+                  It has expired or another patient booked it first. You are
+                  still on the waitlist.
+                </p>
+              </div>
+            </div>
+          ) : (
+            <>
+              <div className="space-y-1">
+                <p className="font-medium">{formatTime(offer.start)}</p>
+                <p className="text-sm text-muted-foreground">
+                  {offer.durationMinutes} minutes
+                </p>
+              </div>
+              <p className="text-sm text-muted-foreground flex items-center gap-1">
+                <Clock className="w-4 h-4" />
+                Book by {formatTime(offer.expiresAt)}
+              </p>
+              <Button onClick={accept} disabled={isBooking}>
+                {isBooking ? "Booking..." : "Book this appointment"}
+              </Button>
+            </>
+          )}
+          <Link to="/schedule" className="text-sm text-primary underline">
+            Back to my schedule
+          </Link>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
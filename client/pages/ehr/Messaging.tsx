@@ -1,4 +1,4 @@
-import React, { useState } from "react";
+import React, { useEffect, useState } from "react";
 import {
   Card,
   CardContent,
@@ -48,6 +48,30 @@ import {
   Mic,
   Settings,
 } from "lucide-react";
+import {
+  useSmsThreads,
+  useSmsThread,
+  useSmsInboxSummary,
+  useCannedReplies,
+  useMarkThreadRead,
+  useReplyToThread,
+  useUpdateThread,
+  useSmsInboxUpdates,
+} from "../../hooks/api/useSmsInbox";
+import type { SmsThread } from "../../services/api.service";
+
+const threadName = (thread: SmsThread) =>
+  `${thread.patientFirstName} ${thread.patientLastName}`;
+
+const formatTimestamp = (timestamp?: string) =>
+  timestamp
+    ? new Date(timestamp).toLocaleString([], {
+        month: "short",
+        day: "numeric",
+        hour: "numeric",
+        minute: "2-digit",
+      })
+    : "";
 
 export function Messaging() {
   const [selectedConversation, setSelectedConversation] = useState<
@@ -55,137 +79,63 @@ export function Messaging() {
   >(null);
   const [messageText, setMessageText] = useState("");
   const [searchTerm, setSearchTerm] = useState("");
+  const [assigneeFilter, setAssigneeFilter] = useState<
+    "all" | "me" | "unassigned"
+  >("all");
 
-  const conversations = [
-    {
-      id: "1",
-      participant: "Dr. Sarah Johnson",
-      role: "Cardiologist",
-      avatar: "/avatars/dr-johnson.jpg",
-      lastMessage:
-        "Lab results look good. Let's schedule a follow-up next week.",
-      timestamp: "2 min ago",
-      unread: 2,
-      priority: "normal",
-      status: "online",
-    },
-    {
-      id: "2",
-      participant: "Emma Wilson",
-      role: "Patient",
-      avatar: "/avatars/emma-wilson.jpg",
-      lastMessage:
-        "Thank you for the medication adjustment. I'm feeling much better.",
-      timestamp: "15 min ago",
-      unread: 0,
-      priority: "normal",
-      status: "offline",
-    },
-    {
-      id: "3",
-      participant: "Dr. Michael Chen",
-      role: "Emergency Medicine",
-      avatar: "/avatars/dr-chen.jpg",
-      lastMessage: "URGENT: Need consultation on trauma case in ER bed 3",
-      timestamp: "1 hour ago",
-      unread: 1,
-      priority: "urgent",
-      status: "busy",
-    },
-    {
-      id: "4",
-      participant: "James Rodriguez",
-      role: "Patient",
-      avatar: "/avatars/james-rodriguez.jpg",
-      lastMessage: "Can we reschedule my appointment for tomorrow?",
-      timestamp: "2 hours ago",
-      unread: 0,
-      priority: "normal",
-      status: "offline",
-    },
-    {
-      id: "5",
-      participant: "Nurse Lisa Thompson",
-      role: "ICU Nurse",
-      avatar: "/avatars/nurse-thompson.jpg",
-      lastMessage: "Patient in room 204 is asking about discharge instructions",
-      timestamp: "3 hours ago",
-      unread: 1,
-      priority: "normal",
-      status: "online",
-    },
-  ];
+  const { data: conversations = [] } = useSmsThreads({
+    assignee: assigneeFilter === "all" ? undefined : assigneeFilter,
+  });
+  const { data: summary } = useSmsInboxSummary();
+  const { data: cannedReplies = [] } = useCannedReplies();
+  const { data: threadData } = useSmsThread(selectedConversation);
+  const markRead = useMarkThreadRead();
+  const replyToThread = useReplyToThread();
+  const updateThread = useUpdateThread();
+  useSmsInboxUpdates();
 
-  const messages = [
-    {
-      id: "1",
-      senderId: "dr-johnson",
-      senderName: "Dr. Sarah Johnson",
-      content:
-        "I've reviewed your latest test results. Overall, they look very encouraging.",
-      timestamp: "10:30 AM",
-      type: "text",
-      isOwn: false,
-    },
-    {
-      id: "2",
-      senderId: "current-user",
-      senderName: "You",
-      content: "That's great to hear! What about the cholesterol levels?",
-      timestamp: "10:32 AM",
-      type: "text",
-      isOwn: true,
-    },
-    {
-      id: "3",
-      senderId: "dr-johnson",
-      senderName: "Dr. Sarah Johnson",
-      content:
-        "Your cholesterol has improved significantly since starting the new medication. We should continue with the current treatment plan.",
-      timestamp: "10:35 AM",
-      type: "text",
-      isOwn: false,
-    },
-    {
-      id: "4",
-      senderId: "dr-johnson",
-      senderName: "Dr. Sarah Johnson",
-      content: "Lab results look good. Let's schedule a follow-up next week.",
-      timestamp: "10:45 AM",
-      type: "text",
-      isOwn: false,
-    },
-  ];
+  const selectedThread = threadData?.thread;
+  const messages = threadData?.messages || [];
 
-  const getStatusColor = (status: string) => {
-    switch (status) {
-      case "online":
-        return "bg-green-500";
-      case "busy":
-        return "bg-yellow-500";
-      case "offline":
-        return "bg-gray-400";
-      default:
-        return "bg-gray-400";
+  useEffect(() => {
+    if (selectedThread && selectedThread.unreadCount > 0) {
+      markRead.mutate(selectedThread.id);
     }
+  }, [selectedThread?.id, selectedThread?.unreadCount]);
+
+  const filteredConversations = conversations.filter((thread) =>
+    `${threadName(thread)} ${thread.phone}`
+      .toLowerCase()
+      .includes(searchTerm.toLowerCase()),
+  );
+
+  const getPriorityColor = (thread: SmsThread) => {
+    if (thread.overdue) {
+      return "border-l-red-500 bg-red-50 dark:bg-red-900/20";
+    }
+    if (thread.unreadCount > 0) {
+      return "border-l-orange-500 bg-orange-50 dark:bg-orange-900/20";
+    }
+    return "border-l-blue-500 bg-white dark:bg-gray-800";
   };
 
-  const getPriorityColor = (priority: string) => {
-    switch (priority) {
-      case "urgent":
-        return "border-l-red-500 bg-red-50 dark:bg-red-900/20";
-      case "high":
-        return "border-l-orange-500 bg-orange-50 dark:bg-orange-900/20";
-      default:
-        return "border-l-blue-500 bg-white dark:bg-gray-800";
+  const insertCannedReply = (replyId: string) => {
+    const reply = cannedReplies.find((r) => r.id === replyId);
+    if (reply && selectedThread) {
+      setMessageText(
+        reply.body
+          .replace(/\{firstName\}/g, selectedThread.patientFirstName)
+          .replace(/\{lastName\}/g, selectedThread.patientLastName),
+      );
     }
   };
 
   const sendMessage = () => {
-    if (messageText.trim()) {
-      // Handle sending message
-      console.log("Sending message:", messageText);
-      setMessageText("");
+    if (messageText.trim() && selectedConversation) {
+      replyToThread.mutate(
+        { threadId: selectedConversation, reply: { body: messageText } },
+        { onSuccess: () => setMessageText("") },
+      );
     }
   };
 
@@ -198,18 +148,25 @@ export function Messaging() {
             Secure Messaging
           </h1>
           <p className="text-gray-600 dark:text-gray-400 mt-2">
-            HIPAA-compliant communication between care team members and patients
+            Two-way text conversations between the care team and patients
           </p>
         </div>
         <div className="flex items-center gap-3">
-          <Badge className="bg-green-100 text-green-800">
-            <CheckCircle className="w-4 h-4 mr-1" />
-            Encrypted
-          </Badge>
-          <Button>
-            <Plus className="w-4 h-4 mr-2" />
-            New Message
-          </Button>
+          <Select
+            value={assigneeFilter}
+            onValueChange={(value) =>
+              setAssigneeFilter(value as typeof assigneeFilter)
+            }
+          >
+            <SelectTrigger className="w-44">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All open threads</SelectItem>
+              <SelectItem value="me">Assigned to me</SelectItem>
+              <SelectItem value="unassigned">Unassigned</SelectItem>
+            </SelectContent>
+          </Select>
         </div>
       </div>
 
@@ -225,7 +182,7 @@ export function Messaging() {
                   Conversations
                 </span>
                 <Badge variant="outline">
-                  {conversations.filter((c) => c.unread > 0).length} unread
+                  {summary?.unreadThreads ?? 0} unread
                 </Badge>
               </CardTitle>
               {/* Search */}
@@ -241,55 +198,49 @@ export function Messaging() {
             </CardHeader>
             <CardContent className="p-0">
               <div className="space-y-1">
-                {conversations.map((conversation) => (
+                {filteredConversations.map((conversation) => (
                   <div
                     key={conversation.id}
                     onClick={() => setSelectedConversation(conversation.id)}
                     className={`p-4 cursor-pointer transition-colors border-l-4 ${
                       selectedConversation === conversation.id
                         ? "bg-blue-50 dark:bg-blue-900/20 border-l-blue-500"
-                        : getPriorityColor(conversation.priority)
+                        : getPriorityColor(conversation)
                     } hover:bg-gray-50 dark:hover:bg-gray-700`}
                   >
                     <div className="flex items-start gap-3">
-                      <div className="relative">
-                        <Avatar className="w-10 h-10">
-                          <AvatarImage src={conversation.avatar} />
-                          <AvatarFallback>
-                            {conversation.participant
-                              .split(" ")
-                              .map((n) => n[0])
-                              .join("")}
-                          </AvatarFallback>
-                        </Avatar>
-                        <div
-                          className={`absolute -bottom-1 -right-1 w-3 h-3 rounded-full border-2 border-white ${getStatusColor(conversation.status)}`}
-                        />
-                      </div>
+                      <Avatar className="w-10 h-10">
+                        <AvatarFallback>
+                          {conversation.patientFirstName[0]}
+                          {conversation.patientLastName[0]}
+                        </AvatarFallback>
+                      </Avatar>
                       <div className="flex-1 min-w-0">
                         <div className="flex items-center justify-between mb-1">
                           <h4 className="font-medium text-gray-900 dark:text-white truncate">
-                            {conversation.participant}
+                            {threadName(conversation)}
                           </h4>
                           <div className="flex items-center gap-1">
-                            {conversation.priority === "urgent" && (
+                            {conversation.overdue && (
                               <AlertCircle className="w-4 h-4 text-red-500" />
                             )}
-                            {conversation.unread > 0 && (
+                            {conversation.unreadCount > 0 && (
                               <Badge className="bg-blue-600 text-white text-xs px-2 py-1">
-                                {conversation.unread}
+                                {conversation.unreadCount}
                               </Badge>
                             )}
                           </div>
                         </div>
                         <p className="text-xs text-gray-600 dark:text-gray-400 mb-1">
-                          {conversation.role}
+                          {conversation.assignedToName || "Unassigned"}
                         </p>
                         <p className="text-sm text-gray-700 dark:text-gray-300 truncate">
-                          {conversation.lastMessage}
+                          {conversation.lastMessage?.text}
                         </p>
                         <p className="text-xs text-gray-500 mt-1">
-                          {conversation.timestamp}
+                          {formatTimestamp(conversation.lastMessageAt)}
+                          {conversation.replyDueAt &&
+                            ` • reply due ${formatTimestamp(conversation.replyDueAt)}`}
                         </p>
                       </div>
                     </div>
@@ -303,31 +254,54 @@ export function Messaging() {
         {/* Message Thread */}
         <div className="lg:col-span-2">
           <Card className="h-full flex flex-col">
-            {selectedConversation ? (
+            {selectedThread ? (
               <>
                 {/* Chat Header */}
                 <CardHeader className="border-b">
                   <div className="flex items-center justify-between">
                     <div className="flex items-center gap-3">
                       <Avatar className="w-10 h-10">
-                        <AvatarFallback>DJ</AvatarFallback>
+                        <AvatarFallback>
+                          {selectedThread.patientFirstName[0]}
+                          {selectedThread.patientLastName[0]}
+                        </AvatarFallback>
                       </Avatar>
                       <div>
-                        <h3 className="font-semibold">Dr. Sarah Johnson</h3>
+                        <h3 className="font-semibold">
+                          {threadName(selectedThread)}
+                        </h3>
                         <p className="text-sm text-gray-600">
-                          Cardiologist • Online
+                          {selectedThread.phone} •{" "}
+                          {selectedThread.assignedToName || "Unassigned"}
                         </p>
                       </div>
                     </div>
                     <div className="flex items-center gap-2">
-                      <Button variant="outline" size="sm">
-                        <Phone className="w-4 h-4" />
-                      </Button>
-                      <Button variant="outline" size="sm">
-                        <Video className="w-4 h-4" />
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() =>
+                          updateThread.mutate({ threadId: selectedThread.id })
+                        }
+                      >
+                        <User className="w-4 h-4 mr-1" />
+                        Assign to me
                       </Button>
-                      <Button variant="outline" size="sm">
-                        <MoreVertical className="w-4 h-4" />
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() =>
+                          updateThread.mutate({
+                            threadId: selectedThread.id,
+                            status:
+                              selectedThread.status === "open"
+                                ? "closed"
+                                : "open",
+                          })
+                        }
+                      >
+                        <Archive className="w-4 h-4 mr-1" />
+                        {selectedThread.status === "open" ? "Close" : "Reopen"}
                       </Button>
                     </div>
                   </div>
@@ -338,22 +312,31 @@ export function Messaging() {
                   {messages.map((message) => (
                     <div
                       key={message.id}
-                      className={`flex ${message.isOwn ? "justify-end" : "justify-start"}`}
+                      className={`flex ${message.direction === "outbound" ? "justify-end" : "justify-start"}`}
                     >
                       <div
                         className={`max-w-xs lg:max-w-md px-4 py-2 rounded-lg ${
-                          message.isOwn
+                          message.direction === "outbound"
                             ? "bg-blue-600 text-white"
                             : "bg-gray-100 dark:bg-gray-700 text-gray-900 dark:text-white"
                         }`}
                       >
-                        <p className="text-sm">{message.content}</p>
+                        <p className="text-sm whitespace-pre-wrap">
+                          {message.text}
+                        </p>
                         <p
                           className={`text-xs mt-1 ${
-                            message.isOwn ? "text-blue-100" : "text-gray-500"
+                            message.direction === "outbound"
+                              ? "text-blue-100"
+                              : "text-gray-500"
                           }`}
                         >
-                          {message.timestamp}
+                          {message.direction === "outbound" &&
+                            `${message.sentByName || "Automatic reply"} • `}
+                          {formatTimestamp(message.timestamp)}
+                          {message.status === "failed" && " • not delivered"}
+                          {message.status === "blocked" &&
+                            " • not sent: patient opted out"}
                         </p>
                       </div>
                     </div>
@@ -363,18 +346,21 @@ export function Messaging() {
                 {/* Message Input */}
                 <div className="border-t p-4">
                   <div className="flex items-center gap-2">
-                    <Button variant="outline" size="sm">
-                      <Paperclip className="w-4 h-4" />
-                    </Button>
-                    <Button variant="outline" size="sm">
-                      <Image className="w-4 h-4" />
-                    </Button>
-                    <Button variant="outline" size="sm">
-                      <Mic className="w-4 h-4" />
-                    </Button>
+                    <Select value="" onValueChange={insertCannedReply}>
+                      <SelectTrigger className="w-40">
+                        <SelectValue placeholder="Canned reply" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {cannedReplies.map((reply) => (
+                          <SelectItem key={reply.id} value={reply.id}>
+                            {reply.title}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
                     <div className="flex-1 flex gap-2">
                       <Textarea
-                        placeholder="Type a secure message..."
+                        placeholder="Type a text message..."
                         value={messageText}
                         onChange={(e) => setMessageText(e.target.value)}
                         rows={1}
@@ -388,7 +374,9 @@ export function Messaging() {
                       />
                       <Button
                         onClick={sendMessage}
-                        disabled={!messageText.trim()}
+                        disabled={
+                          !messageText.trim() || replyToThread.isPending
+                        }
                       >
                         <Send className="w-4 h-4" />
                       </Button>
@@ -419,36 +407,36 @@ export function Messaging() {
           <CardContent className="p-6 text-center">
             <Bell className="w-8 h-8 text-blue-600 mx-auto mb-2" />
             <div className="text-2xl font-bold text-gray-900 dark:text-white">
-              5
+              {summary?.unreadMessages ?? 0}
             </div>
-            <div className="text-sm text-gray-600">Urgent Messages</div>
+            <div className="text-sm text-gray-600">Unread Messages</div>
           </CardContent>
         </Card>
         <Card>
           <CardContent className="p-6 text-center">
             <Users className="w-8 h-8 text-green-600 mx-auto mb-2" />
             <div className="text-2xl font-bold text-gray-900 dark:text-white">
-              23
+              {summary?.openThreads ?? 0}
             </div>
-            <div className="text-sm text-gray-600">Active Conversations</div>
+            <div className="text-sm text-gray-600">Open Conversations</div>
           </CardContent>
         </Card>
         <Card>
           <CardContent className="p-6 text-center">
-            <Clock className="w-8 h-8 text-purple-600 mx-auto mb-2" />
+            <Clock className="w-8 h-8 text-red-600 mx-auto mb-2" />
             <div className="text-2xl font-bold text-gray-900 dark:text-white">
-              2.3h
+              {summary?.overdue ?? 0}
             </div>
-            <div className="text-sm text-gray-600">Avg Response Time</div>
+            <div className="text-sm text-gray-600">Overdue Replies</div>
           </CardContent>
         </Card>
         <Card>
           <CardContent className="p-6 text-center">
-            <CheckCircle className="w-8 h-8 text-emerald-600 mx-auto mb-2" />
+            <User className="w-8 h-8 text-emerald-600 mx-auto mb-2" />
             <div className="text-2xl font-bold text-gray-900 dark:text-white">
-              98%
+              {summary?.assignedToMe ?? 0}
             </div>
-            <div className="text-sm text-gray-600">Message Delivery</div>
+            <div className="text-sm text-gray-600">Assigned to Me</div>
           </CardContent>
         </Card>
       </div>
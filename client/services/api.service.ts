@@ -24,6 +24,17 @@ export interface UserPreferences {
   timezone: string;
 }
 
+export interface UserSession {
+  id: string;
+  device: string;
+  userAgent?: string;
+  ipAddress?: string;
+  createdAt: string;
+  lastActiveAt: string;
+  expiresAt: string;
+  current: boolean;
+}
+
 export interface LabResult {
   id: string;
   testName: string;
@@ -95,8 +106,24 @@ export class AuthService {
     return apiClient.post(API_ENDPOINTS.AUTH.LOGOUT);
   }
 
-  static async refreshToken(): Promise<ApiResponse<{ token: string }>> {
-    return apiClient.post(API_ENDPOINTS.AUTH.REFRESH);
+  static async logoutAll(): Promise<ApiResponse<{ revoked: number }>> {
+    return apiClient.post(API_ENDPOINTS.AUTH.LOGOUT_ALL);
+  }
+
+  static async refreshToken(
+    refreshToken: string,
+  ): Promise<ApiResponse<{ token: string; refreshToken: string }>> {
+    return apiClient.post(API_ENDPOINTS.AUTH.REFRESH, { refreshToken });
+  }
+
+  static async getSessions(): Promise<
+    ApiResponse<{ sessions: UserSession[] }>
+  > {
+    return apiClient.get(API_ENDPOINTS.AUTH.SESSIONS);
+  }
+
+  static async revokeSession(sessionId: string): Promise<ApiResponse<void>> {
+    return apiClient.delete(API_ENDPOINTS.AUTH.REVOKE_SESSION(sessionId));
   }
 
   static async resetPassword(email: string): Promise<ApiResponse<void>> {
@@ -394,6 +421,346 @@ export class FileService {
   }
 }
 
+// Accounting of disclosures Service
+export interface DisclosureEntry {
+  id: number;
+  timestamp: string;
+  kind: "access" | "export" | "transmission";
+  actor: { id: string; name: string; role: string };
+  action: string;
+  dataTypes: string[];
+  purpose?: string;
+  channel?: string;
+  recipient?: string;
+}
+
+export interface DisclosureReport {
+  patient: { id: string; name: string };
+  period: { start: string; end: string };
+  generatedAt: string;
+  entries: DisclosureEntry[];
+  summary: {
+    total: number;
+    byKind: Record<DisclosureEntry["kind"], number>;
+    actors: number;
+  };
+}
+
+export class DisclosureService {
+  static async getReport(
+    patientId: string,
+    from?: string,
+    to?: string,
+  ): Promise<DisclosureReport> {
+    const params = new URLSearchParams();
+    if (from) params.set("from", from);
+    if (to) params.set("to", to);
+
+    const response: any = await apiClient.get(
+      `${API_ENDPOINTS.DISCLOSURES.REPORT(patientId)}?${params}`,
+    );
+    return response.report;
+  }
+
+  // CSV/PDF downloads bypass apiClient, which always parses JSON
+  static async downloadReport(
+    patientId: string,
+    format: "csv" | "pdf",
+    from?: string,
+    to?: string,
+  ): Promise<Blob> {
+    const params = new URLSearchParams({ format });
+    if (from) params.set("from", from);
+    if (to) params.set("to", to);
+
+    const response = await fetch(
+      `/api${API_ENDPOINTS.DISCLOSURES.REPORT(patientId)}?${params}`,
+      {
+        headers: {
+          Authorization: `Bearer ${localStorage.getItem("auth_token")}`,
+        },
+      },
+    );
+    if (!response.ok) {
+      throw new Error(`Download failed: ${response.status}`);
+    }
+    return response.blob();
+  }
+}
+
+// CGM report Service
+export interface CgmReport {
+  patient: { id: string; name: string };
+  period: { start: string; end: string; days: number; timeZone: string };
+  generatedAt: string;
+  data: {
+    readings: number;
+    intervalMinutes: number;
+    activePercent: number;
+    sufficient: boolean;
+  };
+  glucose: {
+    unit: "mg/dL";
+    mean: number | null;
+    sd: number | null;
+    cv: number | null;
+    gmi: number | null;
+  };
+  ranges: {
+    band: "very_low" | "low" | "target" | "high" | "very_high";
+    label: string;
+    percent: number;
+    minutesPerDay: number;
+  }[];
+  targets: {
+    metric: string;
+    label: string;
+    value: number;
+    goal: string;
+    met: boolean;
+  }[];
+  agp: {
+    time: string;
+    count: number;
+    p5: number | null;
+    p25: number | null;
+    p50: number | null;
+    p75: number | null;
+    p95: number | null;
+  }[];
+  hypoglycemia: {
+    events: {
+      start: string;
+      end: string;
+      durationMinutes: number;
+      nadir: number;
+      level: 1 | 2;
+    }[];
+    level1: number;
+    level2: number;
+  };
+}
+
+export class CgmReportService {
+  static async getReport(
+    patientId: string,
+    days = 14,
+    timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone,
+  ): Promise<CgmReport> {
+    const params = new URLSearchParams({ days: String(days), timeZone });
+    const response: any = await apiClient.get(
+      `${API_ENDPOINTS.CGM.REPORT(patientId)}?${params}`,
+    );
+    return response.report;
+  }
+
+  static async downloadReport(
+    patientId: string,
+    days = 14,
+    timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone,
+  ): Promise<Blob> {
+    const params = new URLSearchParams({
+      format: "pdf",
+      days: String(days),
+      timeZone,
+    });
+    const response = await fetch(
+      `/api${API_ENDPOINTS.CGM.REPORT(patientId)}?${params}`,
+      {
+        headers: {
+          Authorization: `Bearer ${localStorage.getItem("auth_token")}`,
+        },
+      },
+    );
+    if (!response.ok) {
+      throw new Error(`Download failed: ${response.status}`);
+    }
+    return response.blob();
+  }
+}
+
+// Patient text conversations (clinician inbox) Service
+export interface SmsThread {
+  id: string;
+  patientId: string;
+  patientFirstName: string;
+  patientLastName: string;
+  phone: string;
+  status: "open" | "closed";
+  assignedTo?: string;
+  assignedToName?: string;
+  unreadCount: number;
+  awaitingReplySince?: string;
+  replyDueAt?: string;
+  overdue: boolean;
+  lastMessageAt?: string;
+  lastMessage?: { direction: "inbound" | "outbound"; text: string };
+  createdAt: string;
+}
+
+export interface SmsThreadMessage {
+  id: number;
+  threadId: string;
+  direction: "inbound" | "outbound";
+  kind: "message" | "command" | "command_reply";
+  text: string;
+  status: string;
+  sentBy?: string;
+  sentByName?: string;
+  timestamp: string;
+}
+
+export interface SmsInboxSummary {
+  openThreads: number;
+  unreadThreads: number;
+  unreadMessages: number;
+  assignedToMe: number;
+  overdue: number;
+}
+
+export interface CannedReply {
+  id: string;
+  title: string;
+  body: string;
+  category?: string;
+  active: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export class SmsInboxService {
+  static async getThreads(
+    filter: {
+      status?: string;
+      assignee?: "me" | "unassigned";
+      unread?: boolean;
+    } = {},
+  ): Promise<SmsThread[]> {
+    const params = new URLSearchParams();
+    if (filter.status) params.set("status", filter.status);
+    if (filter.assignee) params.set("assignee", filter.assignee);
+    if (filter.unread) params.set("unread", "true");
+
+    const response: any = await apiClient.get(
+      `${API_ENDPOINTS.INBOX.THREADS}?${params}`,
+    );
+    return response.threads;
+  }
+
+  static async getSummary(): Promise<SmsInboxSummary> {
+    const response: any = await apiClient.get(API_ENDPOINTS.INBOX.SUMMARY);
+    return response.summary;
+  }
+
+  static async getThread(
+    threadId: string,
+  ): Promise<{ thread: SmsThread; messages: SmsThreadMessage[] }> {
+    const response: any = await apiClient.get(
+      API_ENDPOINTS.INBOX.THREAD(threadId),
+    );
+    return { thread: response.thread, messages: response.messages };
+  }
+
+  static async openThread(patientId: string): Promise<SmsThread> {
+    const response: any = await apiClient.post(
+      API_ENDPOINTS.INBOX.OPEN(patientId),
+    );
+    return response.thread;
+  }
+
+  static async markRead(threadId: string): Promise<SmsThread> {
+    const response: any = await apiClient.post(
+      API_ENDPOINTS.INBOX.READ(threadId),
+    );
+    return response.thread;
+  }
+
+  // Assigns to the caller unless another staff member (or null) is given
+  static async assign(
+    threadId: string,
+    assigneeId?: string | null,
+  ): Promise<SmsThread> {
+    const response: any = await apiClient.post(
+      API_ENDPOINTS.INBOX.ASSIGN(threadId),
+      assigneeId === undefined ? {} : { assigneeId },
+    );
+    return response.thread;
+  }
+
+  static async setStatus(
+    threadId: string,
+    status: SmsThread["status"],
+  ): Promise<SmsThread> {
+    const response: any = await apiClient.post(
+      API_ENDPOINTS.INBOX.STATUS(threadId),
+      { status },
+    );
+    return response.thread;
+  }
+
+  static async reply(
+    threadId: string,
+    reply: { body: string } | { cannedReplyId: string },
+  ): Promise<SmsThreadMessage> {
+    const response: any = await apiClient.post(
+      API_ENDPOINTS.INBOX.MESSAGES(threadId),
+      reply,
+    );
+    return response.message;
+  }
+
+  static async getCannedReplies(): Promise<CannedReply[]> {
+    const response: any = await apiClient.get(
+      API_ENDPOINTS.INBOX.CANNED_REPLIES,
+    );
+    return response.cannedReplies;
+  }
+
+  static async saveCannedReply(
+    reply: { title: string; body: string; category?: string },
+    replyId?: string,
+  ): Promise<CannedReply> {
+    const response: any = replyId
+      ? await apiClient.put(API_ENDPOINTS.INBOX.CANNED_REPLY(replyId), reply)
+      : await apiClient.post(API_ENDPOINTS.INBOX.CANNED_REPLIES, reply);
+    return response.cannedReply;
+  }
+
+  static async retireCannedReply(replyId: string): Promise<void> {
+    await apiClient.delete(API_ENDPOINTS.INBOX.CANNED_REPLY(replyId));
+  }
+}
+
+// Waitlist Service
+export interface WaitlistOffer {
+  id: string;
+  entryId: string;
+  start: string;
+  durationMinutes: number;
+  status: "pending" | "accepted" | "taken" | "expired";
+  expiresAt: string;
+}
+
+export class WaitlistService {
+  // Offers the patient can still accept
+  static async getPendingOffers(patientId: string): Promise<WaitlistOffer[]> {
+    const response: any = await apiClient.get(
+      API_ENDPOINTS.WAITLIST.LIST(patientId),
+    );
+    return response.offers;
+  }
+
+  // Book the offered slot; fails with 409 once it is gone
+  static async acceptOffer(
+    offerId: string,
+  ): Promise<{ id: string; start: string; end: string }> {
+    const response: any = await apiClient.post(
+      API_ENDPOINTS.WAITLIST.ACCEPT_OFFER(offerId),
+    );
+    return response.appointment;
+  }
+}
+
 // Export all services
 export {
   AuthService,
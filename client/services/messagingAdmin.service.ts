@@ -36,14 +36,40 @@ export interface PatientSchedule {
   activeJobs: string[];
 }
 
+export type TemplateChannel = "sms" | "voice" | "email";
+
+export interface TemplateTranslation {
+  templateId: string;
+  channel: TemplateChannel;
+  locale: string;
+  content: string;
+  updatedBy?: string;
+  updatedAt?: string;
+}
+
 export interface MessageTemplate {
   id: string;
-  type: string;
   name: string;
-  content: string;
+  audience: "patient" | "care_team";
   variables: string[];
-  isDefault?: boolean;
-  active?: boolean;
+  channels: Partial<
+    Record<
+      TemplateChannel,
+      {
+        default: string;
+        translations: TemplateTranslation[];
+        resolved?: { locale: string; content: string } | null;
+      }
+    >
+  >;
+}
+
+export interface MissingTranslation {
+  locale: string;
+  language: string;
+  translated: number;
+  total: number;
+  missing: Array<{ templateId: string; channel: TemplateChannel }>;
 }
 
 export interface CareTeamMember {
@@ -215,13 +241,15 @@ class MessagingAdminService {
     }
   }
 
-  async getMessageTemplates(): Promise<{
+  async getMessageTemplates(locale?: string): Promise<{
     success: boolean;
+    locales?: Record<string, string>;
     templates?: MessageTemplate[];
     error?: string;
   }> {
     try {
-      const response = await fetch(`${this.baseUrl}/templates`);
+      const query = locale ? `?locale=${encodeURIComponent(locale)}` : "";
+      const response = await fetch(`${this.baseUrl}/templates${query}`);
       const data = await response.json();
       return data;
     } catch (error) {
@@ -232,8 +260,12 @@ class MessagingAdminService {
 
   async updateMessageTemplate(
     templateId: string,
-    template: Partial<MessageTemplate>,
-  ): Promise<{ success: boolean; error?: string }> {
+    template: { channel: TemplateChannel; locale: string; content: string },
+  ): Promise<{
+    success: boolean;
+    translation?: TemplateTranslation;
+    error?: string;
+  }> {
     try {
       const response = await fetch(`${this.baseUrl}/templates/${templateId}`, {
         method: "POST",
@@ -250,6 +282,41 @@ class MessagingAdminService {
     }
   }
 
+  async deleteMessageTemplate(
+    templateId: string,
+    channel: TemplateChannel,
+    locale: string,
+  ): Promise<{ success: boolean; error?: string }> {
+    try {
+      const response = await fetch(
+        `${this.baseUrl}/templates/${templateId}/${channel}/${locale}`,
+        { method: "DELETE" },
+      );
+      const data = await response.json();
+      return data;
+    } catch (error) {
+      console.error("Error removing message template:", error);
+      return { success: false, error: "Failed to remove template" };
+    }
+  }
+
+  async getMissingTranslations(): Promise<{
+    success: boolean;
+    report?: MissingTranslation[];
+    error?: string;
+  }> {
+    try {
+      const response = await fetch(
+        `${this.baseUrl}/templates/missing-translations`,
+      );
+      const data = await response.json();
+      return data;
+    } catch (error) {
+      console.error("Error fetching missing translations:", error);
+      return { success: false, error: "Failed to fetch missing translations" };
+    }
+  }
+
   async getCareTeamConfig(): Promise<{
     success: boolean;
     careTeam?: { members: CareTeamMember[]; escalationRules: any[] };
@@ -11,7 +11,7 @@ CREATE TABLE IF NOT EXISTS users (
   password_hash VARCHAR(255) NOT NULL,
   first_name VARCHAR(100) NOT NULL,
   last_name VARCHAR(100) NOT NULL,
-  role VARCHAR(20) NOT NULL CHECK (role IN ('patient', 'doctor', 'pharmacist', 'admin')),
+  role VARCHAR(20) NOT NULL CHECK (role IN ('patient', 'doctor', 'nurse', 'pharmacist', 'admin', 'caregiver', 'compliance_officer')),
   phone VARCHAR(20),
   avatar_url VARCHAR(500),
   is_active BOOLEAN DEFAULT true,
@@ -56,6 +56,7 @@ CREATE TABLE IF NOT EXISTS lab_results (
   id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
   lab_report_id UUID REFERENCES lab_reports(id) ON DELETE CASCADE,
   test_name VARCHAR(255) NOT NULL,
+  loinc_code VARCHAR(20),
   value DECIMAL(10,2) NOT NULL,
   unit VARCHAR(50) NOT NULL,
   reference_range VARCHAR(100) NOT NULL,
@@ -91,8 +92,8 @@ CREATE TABLE IF NOT EXISTS appointments (
   provider_id UUID REFERENCES users(id) ON DELETE CASCADE,
   date_time TIMESTAMP NOT NULL,
   duration INTEGER NOT NULL DEFAULT 30,
-  type VARCHAR(20) NOT NULL CHECK (type IN ('consultation', 'follow-up', 'emergency')),
-  status VARCHAR(20) DEFAULT 'scheduled' CHECK (status IN ('scheduled', 'confirmed', 'completed', 'cancelled')),
+  type VARCHAR(30) NOT NULL, -- code from appointment_types
+  status VARCHAR(20) DEFAULT 'scheduled' CHECK (status IN ('scheduled', 'confirmed', 'checked_in', 'in_progress', 'completed', 'cancelled', 'no_show')),
   notes TEXT,
   video_url VARCHAR(500),
   created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
@@ -6,10 +6,35 @@ import rateLimit from "express-rate-limit";
 import { initializeDatabase, healthCheck } from "./config/database";
 import healthRoutes from "./routes/health";
 import authRoutes from "./routes/auth";
+import mfaRoutes from "./routes/mfa";
 import userRoutes from "./routes/users";
 import patientRoutes from "./routes/patients";
 import labRoutes from "./routes/labs";
 import medicationRoutes from "./routes/medications";
+import fhirRestRoutes from "./routes/fhir-rest";
+import auditRoutes from "./routes/audit";
+import disclosureRoutes from "./routes/disclosures";
+import careTeamRoutes from "./routes/care-team";
+import emergencyAccessRoutes from "./routes/emergency-access";
+import schedulingRoutes from "./routes/scheduling";
+import calendarRoutes from "./routes/calendar";
+import triageRoutes from "./routes/triage";
+import cgmRoutes from "./routes/cgm";
+import rpmRoutes from "./routes/rpm";
+import ccmRoutes from "./routes/ccm";
+import ussdRoutes from "./routes/ussd";
+import inboxRoutes from "./routes/inbox";
+import communicationConsentRoutes from "./routes/communication-consent";
+import { UssdService } from "./utils/ussd";
+import { requestContext } from "./middleware/requestContext";
+import {
+  authenticateToken,
+  authorizePatient,
+  requirePermission,
+  requireAdmin,
+  requireRole,
+} from "./middleware/auth";
+import { validateScheduleTelemedicine } from "./middleware/validation";
 import { handleDemo } from "./routes/demo";
 import { handleChat, getChatHistory } from "./routes/chat";
 import { getVitalSigns, addVitalSigns, getVitalTrends } from "./routes/vitals";
@@ -30,12 +55,17 @@ import {
   getClinicalRecommendations,
 } from "./routes/advanced-ai";
 import {
-  syncAppleHealth,
-  syncFitbit,
-  syncCGM,
+  getConnectors,
+  ingestWithDeviceToken,
+  ingestDeviceReadings,
+  getMeasurements,
   getAggregatedWearableData,
   registerWearableDevice,
   getConnectedDevices,
+  disconnectWearableDevice,
+  getImportFormats,
+  importMiddleware,
+  importWearableFile,
 } from "./routes/wearables";
 import {
   getAvailableProviders,
@@ -43,6 +73,10 @@ import {
   getUserAppointments,
   createConsultationRoom,
   generateConsultationSummary,
+  getWaitingRoom,
+  getVisit,
+  admitPatient,
+  endVisit,
   triageEmergency,
 } from "./routes/telemedicine";
 import {
@@ -81,6 +115,8 @@ import {
   updatePatientSchedule,
   getMessageTemplates,
   updateMessageTemplate,
+  deleteMessageTemplate,
+  getMissingTranslations,
   getCareTeamConfig,
   updateCareTeamMember,
   getMessagingAuditLogs,
@@ -144,6 +180,8 @@ export async function createServer() {
       error: "Too many requests from this IP",
       code: "RATE_LIMIT_EXCEEDED",
     },
+    // Every caller's USSD screens arrive from the gateway's few addresses
+    skip: (req) => req.path.startsWith("/ussd/gateways/"),
   });
   app.use("/api/", limiter);
 
@@ -151,6 +189,9 @@ export async function createServer() {
   app.use(express.json({ limit: "10mb" }));
   app.use(express.urlencoded({ extended: true, limit: "10mb" }));
 
+  // Request context for audit logging (after body parsing)
+  app.use(requestContext);
+
   // Health check routes
   app.use("/api", healthRoutes);
 
@@ -163,6 +204,7 @@ export async function createServer() {
   app.get("/api/demo", handleDemo);
 
   // Authentication routes
+  app.use("/api/auth/mfa", mfaRoutes);
   app.use("/api/auth", authRoutes);
 
   // User management routes
@@ -177,64 +219,363 @@ export async function createServer() {
   // Medication routes
   app.use("/api/medications", medicationRoutes);
 
-  app.post("/api/chat", handleChat);
-  app.get("/api/chat/history/:userId?", getChatHistory);
+  // Audit log routes
+  app.use("/api/admin/audit", auditRoutes);
+
+  // Accounting of disclosures
+  app.use("/api/disclosures", disclosureRoutes);
+
+  // Care team relationships
+  app.use("/api/care-team", careTeamRoutes);
+
+  // Break-the-glass emergency access and its compliance review queue
+  app.use("/api/emergency-access", emergencyAccessRoutes);
+
+  // Provider availability, appointment types, slots and booking
+  app.use("/api/scheduling", schedulingRoutes);
+
+  // iCalendar subscription feeds and appointment invites
+  app.use("/api/calendar", calendarRoutes);
+
+  // Versioned triage protocols, assessments and the decisions they produced
+  app.use("/api/triage", triageRoutes);
+
+  // CGM glucose reports over stored device readings
+  app.use("/api/cgm", cgmRoutes);
+
+  // RPM enrollments, management time and the monthly billing worksheet
+  app.use("/api/rpm", rpmRoutes);
+
+  // CCM consent, care plans, staff time and the month-end billing report
+  app.use("/api/ccm", ccmRoutes);
+
+  // USSD gateway callbacks, versioned menus and the follow-up queue
+  app.use("/api/ussd", ussdRoutes);
+  UssdService.startWorker();
+
+  // Text conversations with patients: the clinician inbox and canned replies
+  app.use("/api/inbox", inboxRoutes);
+
+  // Patients' consent per channel and category, quiet hours, and the
+  // messages the consent check blocked, deferred or moved to another channel
+  app.use("/api/communication-consent", communicationConsentRoutes);
+
+  // Routes acting on a patient's data take the patient from :userId (or the
+  // request body) and default to the caller; authorizePatient checks the
+  // caller's role and care-team relationship before the handler runs.
+  app.post(
+    "/api/chat",
+    authenticateToken,
+    authorizePatient("chat:write"),
+    handleChat,
+  );
+  app.get(
+    "/api/chat/history/:userId?",
+    authenticateToken,
+    authorizePatient("chat:read"),
+    getChatHistory,
+  );
+
+  // Vital monitoring routes with threshold checking (registered before
+  // /api/vitals/:userId? so their paths are not read as a user id)
+  app.post(
+    "/api/vitals/submit",
+    authenticateToken,
+    authorizePatient("vitals:write"),
+    submitVitalReading,
+  );
+  app.get(
+    "/api/vitals/patients/:patientId",
+    authenticateToken,
+    authorizePatient("vitals:read"),
+    getPatientVitals,
+  );
+  app.post(
+    "/api/vitals/simulate",
+    authenticateToken,
+    requireAdmin,
+    simulateVitalReading,
+  );
+  app.post(
+    "/api/vitals/compare-thresholds",
+    authenticateToken,
+    requireRole(["admin", "doctor", "nurse"]),
+    comparePatientThresholds,
+  );
+  app.get(
+    "/api/vitals/alerts-history",
+    authenticateToken,
+    requireRole(["admin", "doctor", "nurse"]),
+    getThresholdAlertsHistory,
+  );
 
   // Vital signs routes
-  app.get("/api/vitals/:userId?", getVitalSigns);
-  app.post("/api/vitals", addVitalSigns);
-  app.get("/api/vitals/trends/:userId?", getVitalTrends);
+  app.get(
+    "/api/vitals/trends/:userId?",
+    authenticateToken,
+    authorizePatient("vitals:read"),
+    getVitalTrends,
+  );
+  app.get(
+    "/api/vitals/:userId?",
+    authenticateToken,
+    authorizePatient("vitals:read"),
+    getVitalSigns,
+  );
+  app.post(
+    "/api/vitals",
+    authenticateToken,
+    authorizePatient("vitals:write"),
+    addVitalSigns,
+  );
 
   // Health insights routes
-  app.get("/api/insights/:userId?", getHealthInsights);
-  app.post("/api/insights/:id/dismiss", dismissInsight);
-  app.post("/api/insights/generate/:userId?", generateInsights);
+  app.get(
+    "/api/insights/:userId?",
+    authenticateToken,
+    authorizePatient("insights:read"),
+    getHealthInsights,
+  );
+  app.post("/api/insights/:id/dismiss", authenticateToken, dismissInsight);
+  app.post(
+    "/api/insights/generate/:userId?",
+    authenticateToken,
+    authorizePatient("insights:write"),
+    generateInsights,
+  );
 
   // Advanced AI routes
-  app.get("/api/ai/cardiovascular-risk/:userId?", assessCardiovascularRisk);
-  app.get("/api/ai/drug-interactions/:userId?", analyzeAdvancedInteractions);
-  app.get("/api/ai/predictive-analytics/:userId?", generatePredictiveAnalytics);
-  app.post("/api/ai/analyze-image", analyzeMiddleware, analyzeMedicalImage);
-  app.post("/api/ai/assess-symptoms", assessSymptoms);
-  app.get("/api/ai/health-score/:userId?", calculateAdvancedHealthScore);
+  app.get(
+    "/api/ai/cardiovascular-risk/:userId?",
+    authenticateToken,
+    authorizePatient("insights:read"),
+    assessCardiovascularRisk,
+  );
+  app.get(
+    "/api/ai/drug-interactions/:userId?",
+    authenticateToken,
+    authorizePatient("insights:read"),
+    analyzeAdvancedInteractions,
+  );
+  app.get(
+    "/api/ai/predictive-analytics/:userId?",
+    authenticateToken,
+    authorizePatient("insights:read"),
+    generatePredictiveAnalytics,
+  );
+  app.post(
+    "/api/ai/analyze-image",
+    authenticateToken,
+    analyzeMiddleware,
+    analyzeMedicalImage,
+  );
+  app.post(
+    "/api/ai/assess-symptoms",
+    authenticateToken,
+    authorizePatient("insights:read"),
+    assessSymptoms,
+  );
+  app.get(
+    "/api/ai/health-score/:userId?",
+    authenticateToken,
+    authorizePatient("insights:read"),
+    calculateAdvancedHealthScore,
+  );
   app.get(
     "/api/ai/clinical-recommendations/:userId?",
+    authenticateToken,
+    authorizePatient("insights:read"),
     getClinicalRecommendations,
   );
 
   // Wearable integration routes
-  app.get("/api/wearables/apple-health/:userId?", syncAppleHealth);
-  app.get("/api/wearables/fitbit/:userId?", syncFitbit);
-  app.get("/api/wearables/cgm/:userId?", syncCGM);
-  app.get("/api/wearables/aggregate/:userId?", getAggregatedWearableData);
-  app.post("/api/wearables/register", registerWearableDevice);
-  app.get("/api/wearables/devices/:userId?", getConnectedDevices);
+  app.get("/api/wearables/connectors", authenticateToken, getConnectors);
+  // Devices authenticate with their ingest token instead of a session
+  app.post("/api/wearables/ingest", ingestWithDeviceToken);
+  app.post(
+    "/api/wearables/devices/:deviceId/readings",
+    authenticateToken,
+    ingestDeviceReadings,
+  );
+  app.get(
+    "/api/wearables/measurements/:userId?",
+    authenticateToken,
+    authorizePatient("vitals:read"),
+    getMeasurements,
+  );
+  app.get(
+    "/api/wearables/aggregate/:userId?",
+    authenticateToken,
+    authorizePatient("vitals:read"),
+    getAggregatedWearableData,
+  );
+  app.post(
+    "/api/wearables/register",
+    authenticateToken,
+    authorizePatient("vitals:write"),
+    registerWearableDevice,
+  );
+  app.get("/api/wearables/import/formats", authenticateToken, getImportFormats);
+  // Authorized before the upload is accepted, so the patient comes from the
+  // path or query rather than a form field
+  app.post(
+    "/api/wearables/import/:userId?",
+    authenticateToken,
+    authorizePatient(
+      "vitals:write",
+      (req) => req.params.userId || (req.query.patientId as string),
+    ),
+    importMiddleware,
+    importWearableFile,
+  );
+  app.get(
+    "/api/wearables/devices/:userId?",
+    authenticateToken,
+    authorizePatient("vitals:read"),
+    getConnectedDevices,
+  );
+  app.delete(
+    "/api/wearables/devices/:deviceId",
+    authenticateToken,
+    disconnectWearableDevice,
+  );
 
   // Telemedicine routes
-  app.get("/api/telemedicine/providers", getAvailableProviders);
-  app.post("/api/telemedicine/schedule", scheduleAppointment);
-  app.get("/api/telemedicine/appointments/:userId?", getUserAppointments);
-  app.post("/api/telemedicine/room", createConsultationRoom);
-  app.get("/api/telemedicine/summary/:roomId", generateConsultationSummary);
-  app.post("/api/telemedicine/triage", triageEmergency);
+  app.get(
+    "/api/telemedicine/providers",
+    authenticateToken,
+    getAvailableProviders,
+  );
+  app.post(
+    "/api/telemedicine/schedule",
+    authenticateToken,
+    validateScheduleTelemedicine,
+    authorizePatient("appointments:write"),
+    scheduleAppointment,
+  );
+  app.get(
+    "/api/telemedicine/appointments/:userId?",
+    authenticateToken,
+    authorizePatient("appointments:read"),
+    getUserAppointments,
+  );
+  app.post("/api/telemedicine/room", authenticateToken, createConsultationRoom);
+  app.get(
+    "/api/telemedicine/summary/:roomId",
+    authenticateToken,
+    generateConsultationSummary,
+  );
+  // Virtual waiting room and visit state; media signaling runs over /ws
+  app.get("/api/telemedicine/waiting-room", authenticateToken, getWaitingRoom);
+  app.get("/api/telemedicine/visits/:sessionId", authenticateToken, getVisit);
+  app.post(
+    "/api/telemedicine/visits/:sessionId/admit",
+    authenticateToken,
+    admitPatient,
+  );
+  app.post(
+    "/api/telemedicine/visits/:sessionId/end",
+    authenticateToken,
+    endVisit,
+  );
+  app.post(
+    "/api/telemedicine/triage/:userId?",
+    authenticateToken,
+    authorizePatient("triage:assess"),
+    triageEmergency,
+  );
 
   // FHIR integration routes
-  app.post("/api/fhir/export/:userId?", exportFHIRData);
-  app.post("/api/fhir/import", importFHIRData);
-  app.get("/api/fhir/patient/:userId?", getFHIRPatient);
-  app.get("/api/fhir/observations/:userId?", getFHIRObservations);
-
-  // Messaging routes
-  app.post("/api/messaging/send", sendMessage);
-  app.post("/api/messaging/critical-alert", sendCriticalAlert);
-  app.post("/api/messaging/daily-reminders", sendDailyReminders);
-  app.post("/api/messaging/appointment-reminders", sendAppointmentReminders);
-  app.get("/api/messaging/status/:messageId/:provider", getMessageStatus);
-  app.post("/api/messaging/medication-reminder", sendMedicationReminder);
-  app.post("/api/messaging/device-alert", sendDeviceAlert);
-  app.post("/api/messaging/care-plan-update", sendCarePlanUpdate);
-  app.post("/api/messaging/test", testMessagingService);
-  app.get("/api/messaging/status", getMessagingStatus);
+  app.post(
+    "/api/fhir/export/:userId?",
+    authenticateToken,
+    authorizePatient("fhir:export", (req) => req.params.userId),
+    exportFHIRData,
+  );
+  app.post(
+    "/api/fhir/import",
+    authenticateToken,
+    requirePermission("fhir:import"),
+    importFHIRData,
+  );
+  app.get(
+    "/api/fhir/patient/:userId?",
+    authenticateToken,
+    authorizePatient("fhir:read"),
+    getFHIRPatient,
+  );
+  app.get(
+    "/api/fhir/observations/:userId?",
+    authenticateToken,
+    authorizePatient("fhir:read"),
+    getFHIRObservations,
+  );
+
+  // FHIR R4 REST API (read/search)
+  app.use("/fhir", fhirRestRoutes);
+
+  // Messaging routes. Messages about a patient (body.patientId) need a
+  // relationship to that patient; bulk and diagnostic endpoints are admin.
+  app.post(
+    "/api/messaging/send",
+    authenticateToken,
+    authorizePatient("messaging:send"),
+    sendMessage,
+  );
+  app.post(
+    "/api/messaging/critical-alert",
+    authenticateToken,
+    authorizePatient("messaging:send"),
+    sendCriticalAlert,
+  );
+  app.post(
+    "/api/messaging/daily-reminders",
+    authenticateToken,
+    requirePermission("messaging:admin"),
+    sendDailyReminders,
+  );
+  app.post(
+    "/api/messaging/appointment-reminders",
+    authenticateToken,
+    requirePermission("messaging:admin"),
+    sendAppointmentReminders,
+  );
+  app.get(
+    "/api/messaging/status/:messageId/:provider",
+    authenticateToken,
+    requirePermission("messaging:admin"),
+    getMessageStatus,
+  );
+  app.post(
+    "/api/messaging/medication-reminder",
+    authenticateToken,
+    authorizePatient("messaging:send"),
+    sendMedicationReminder,
+  );
+  app.post(
+    "/api/messaging/device-alert",
+    authenticateToken,
+    authorizePatient("messaging:send"),
+    sendDeviceAlert,
+  );
+  app.post(
+    "/api/messaging/care-plan-update",
+    authenticateToken,
+    authorizePatient("messaging:send"),
+    sendCarePlanUpdate,
+  );
+  app.post(
+    "/api/messaging/test",
+    authenticateToken,
+    requirePermission("messaging:admin"),
+    testMessagingService,
+  );
+  app.get(
+    "/api/messaging/status",
+    authenticateToken,
+    requirePermission("messaging:admin"),
+    getMessagingStatus,
+  );
 
   // Webhook routes for Telnyx
   app.post(
@@ -264,6 +605,11 @@ export async function createServer() {
   app.get("/api/twiml/voice", generateTwiMLVoice);
 
   // Messaging administration routes
+  app.use(
+    "/api/admin/messaging",
+    authenticateToken,
+    requirePermission("messaging:admin"),
+  );
   app.get("/api/admin/messaging/config", getMessagingConfig);
   app.post("/api/admin/messaging/config", updateMessagingConfig);
   app.post("/api/admin/messaging/test", testMessagingAdmin);
@@ -271,7 +617,15 @@ export async function createServer() {
   app.get("/api/admin/messaging/schedules", getPatientSchedules);
   app.post("/api/admin/messaging/schedules/:patientId", updatePatientSchedule);
   app.get("/api/admin/messaging/templates", getMessageTemplates);
+  app.get(
+    "/api/admin/messaging/templates/missing-translations",
+    getMissingTranslations,
+  );
   app.post("/api/admin/messaging/templates/:templateId", updateMessageTemplate);
+  app.delete(
+    "/api/admin/messaging/templates/:templateId/:channel/:locale",
+    deleteMessageTemplate,
+  );
   app.get("/api/admin/messaging/care-team", getCareTeamConfig);
   app.post("/api/admin/messaging/care-team/:memberId", updateCareTeamMember);
   app.get("/api/admin/messaging/audit-logs", getMessagingAuditLogs);
@@ -300,12 +654,5 @@ export async function createServer() {
     getThresholdReport,
   );
 
-  // Vital monitoring routes with threshold checking
-  app.post("/api/vitals/submit", submitVitalReading);
-  app.get("/api/vitals/patients/:patientId", getPatientVitals);
-  app.post("/api/vitals/simulate", simulateVitalReading);
-  app.post("/api/vitals/compare-thresholds", comparePatientThresholds);
-  app.get("/api/vitals/alerts-history", getThresholdAlertsHistory);
-
   return app;
 }
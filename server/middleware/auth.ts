@@ -1,6 +1,9 @@
 import { Request, Response, NextFunction } from "express";
 import jwt from "jsonwebtoken";
 import { dbPool } from "../config/database";
+import { AuditLogger } from "../utils/auditLogger";
+import { AccessControl, Permission } from "../utils/accessControl";
+import { SessionService } from "../utils/sessions";
 
 export interface AuthenticatedRequest extends Request {
   user?: {
@@ -8,8 +11,21 @@ export interface AuthenticatedRequest extends Request {
     email: string;
     role: string;
   };
+  // Patient whose data the request acts on, set by authorizePatient
+  patientId?: string;
+  // Break-the-glass grant the request was authorized under, if any
+  emergencyGrantId?: string;
+  // Server-side session the access token belongs to
+  sessionId?: string;
 }
 
+// Unsigned base64 tokens issued by the client's demo login. They carry
+// self-asserted claims, so they are only honoured when explicitly enabled
+// outside production.
+const mockTokensAllowed = () =>
+  process.env.NODE_ENV !== "production" &&
+  process.env.ALLOW_MOCK_TOKENS === "true";
+
 export const authenticateToken = async (
   req: AuthenticatedRequest,
   res: Response,
@@ -19,112 +35,62 @@ export const authenticateToken = async (
     const authHeader = req.headers.authorization;
     const token = authHeader && authHeader.split(" ")[1];
 
-    console.log("[Auth] Authentication attempt:", {
-      hasAuthHeader: !!authHeader,
-      authHeaderPrefix: authHeader?.substring(0, 20) + "...",
-      hasToken: !!token,
-      userAgent: req.headers["user-agent"],
-      url: req.url,
-      method: req.method,
-      isPatientRoute: req.url.includes("/patients"),
-      flyAppName: process.env.FLY_APP_NAME,
-    });
-
     if (!token) {
-      console.log("[Auth] No token provided");
-
-      // For demo deployments or patient routes, provide a demo user instead of failing
-      if (
-        process.env.FLY_APP_NAME ||
-        req.url.includes("/patients") ||
-        process.env.NODE_ENV !== "production"
-      ) {
-        console.log("[Auth] Providing demo user for demo deployment");
-        req.user = {
-          id: "demo-user",
-          email: "demo@example.com",
-          role: "admin",
-        };
-        next();
-        return;
-      }
-
       return res.status(401).json({
         error: "Access token required",
         code: "TOKEN_MISSING",
       });
     }
 
-    // In development, handle both JWT and mock tokens
     let decoded: any;
+    let mock = false;
 
     try {
-      // First try JWT verification
-      decoded = jwt.verify(
-        token,
-        process.env.JWT_SECRET || "dev-secret",
-      ) as any;
-      console.log("[Auth] JWT token verified successfully");
+      decoded = jwt.verify(token, process.env.JWT_SECRET || "dev-secret");
     } catch (jwtError) {
-      console.log("[Auth] JWT verification failed, trying mock token format");
-      // If JWT fails, try base64 decoding for mock tokens
-      try {
-        const mockToken = atob(token);
-        decoded = JSON.parse(mockToken);
-        console.log("[Auth] Mock token decoded successfully:", {
-          userId: decoded.id || decoded.userId,
-          role: decoded.role,
-        });
-
-        // Check if mock token has expired
-        if (decoded.exp && Date.now() > decoded.exp) {
-          console.log("[Auth] Mock token expired");
-          return res.status(401).json({
-            error: "Token expired",
-            code: "TOKEN_EXPIRED",
-          });
-        }
-      } catch (mockError) {
-        console.error("[Auth] Token validation failed:", {
-          jwtError: jwtError.message,
-          mockError: mockError.message,
-          tokenPreview: token.substring(0, 20) + "...",
+      if (!mockTokensAllowed()) {
+        return res.status(401).json({
+          error: "Invalid token",
+          code: "TOKEN_INVALID",
         });
+      }
 
-        // For demo deployments, provide a demo user instead of failing
-        if (
-          process.env.FLY_APP_NAME ||
-          req.url.includes("/patients") ||
-          process.env.NODE_ENV !== "production"
-        ) {
-          console.log(
-            "[Auth] Token validation failed, providing demo user for demo deployment",
-          );
-          req.user = {
-            id: "demo-user",
-            email: "demo@example.com",
-            role: "admin",
-          };
-          next();
-          return;
-        }
-
+      try {
+        decoded = JSON.parse(atob(token));
+      } catch {
         return res.status(401).json({
           error: "Invalid token",
           code: "TOKEN_INVALID",
         });
       }
+
+      // Check if mock token has expired
+      if (decoded.exp && Date.now() > decoded.exp) {
+        return res.status(401).json({
+          error: "Token expired",
+          code: "TOKEN_EXPIRED",
+        });
+      }
+      mock = true;
     }
 
-    // Validate user exists in database
-    if (dbPool && decoded.id) {
+    // Refresh and MFA tokens carry a `type` and are not access tokens
+    const userId = decoded.id || decoded.userId;
+    if (!userId || decoded.type) {
+      return res.status(401).json({
+        error: "Invalid token",
+        code: "TOKEN_INVALID",
+      });
+    }
+
+    // Validate user exists in database; the stored role wins over claims
+    if (dbPool) {
       try {
         const result = await dbPool.query(
-          "SELECT id, email, role FROM users WHERE id = $1",
-          [decoded.id],
+          "SELECT id, email, role FROM users WHERE id::text = $1",
+          [userId],
         );
         if (result.rows.length === 0) {
-          console.log("[Auth] User not found in database:", decoded.id);
           return res.status(401).json({
             error: "User not found",
             code: "USER_NOT_FOUND",
@@ -132,16 +98,32 @@ export const authenticateToken = async (
         }
 
         const user = result.rows[0];
+
+        // Signed tokens are only good while their session is open
+        if (!mock) {
+          const status = decoded.sid
+            ? await SessionService.touch(decoded.sid, user.id)
+            : "revoked";
+          if (status !== "active") {
+            if (status === "idle_timeout") {
+              AuditLogger.logAuthentication(user.id, "SESSION_EXPIRED", {
+                sessionId: decoded.sid,
+              });
+            }
+            const ended = status === "idle_timeout" || status === "expired";
+            return res.status(401).json({
+              error: ended ? "Session expired" : "Session has been revoked",
+              code: ended ? "SESSION_EXPIRED" : "SESSION_REVOKED",
+            });
+          }
+          req.sessionId = decoded.sid;
+        }
+
         req.user = {
           id: user.id,
           email: user.email,
           role: user.role,
         };
-
-        console.log("[Auth] User authenticated successfully:", {
-          userId: user.id,
-          role: user.role,
-        });
       } catch (dbError) {
         console.error("[Auth] Database error during user validation:", dbError);
         return res.status(500).json({
@@ -150,11 +132,16 @@ export const authenticateToken = async (
         });
       }
     } else {
-      // For demo or development without database
+      if (!decoded.role) {
+        return res.status(401).json({
+          error: "Invalid token",
+          code: "TOKEN_INVALID",
+        });
+      }
       req.user = {
-        id: decoded.id || decoded.userId || "demo-user",
-        email: decoded.email || "demo@example.com",
-        role: decoded.role || "admin",
+        id: userId,
+        email: decoded.email,
+        role: decoded.role,
       };
     }
 
@@ -178,6 +165,10 @@ export const requireRole = (roles: string[]) => {
     }
 
     if (!roles.includes(req.user.role)) {
+      AuditLogger.logAccessDenied(req.user.id, `role:${roles.join("|")}`, {
+        reason: "missing_role",
+        role: req.user.role,
+      });
       return res.status(403).json({
         error: "Insufficient permissions",
         code: "INSUFFICIENT_PERMISSIONS",
@@ -191,3 +182,117 @@ export const requireRole = (roles: string[]) => {
 export const requireAdmin = requireRole(["admin"]);
 export const requireDoctor = requireRole(["doctor", "admin"]);
 export const requirePharmacist = requireRole(["pharmacist", "admin"]);
+
+// Require a role permission that is not tied to a particular patient
+export const requirePermission = (permission: Permission) => {
+  return (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return res.status(401).json({
+        error: "Authentication required",
+        code: "AUTH_REQUIRED",
+      });
+    }
+
+    if (!AccessControl.hasPermission(req.user.role, permission)) {
+      AuditLogger.logAccessDenied(req.user.id, permission, {
+        reason: "missing_permission",
+        role: req.user.role,
+      });
+      return res.status(403).json({
+        error: "Insufficient permissions",
+        code: "INSUFFICIENT_PERMISSIONS",
+      });
+    }
+
+    next();
+  };
+};
+
+/**
+ * Check a permission on a patient's data from inside a handler, e.g. once
+ * the owner of a record has been looked up. Sends the 403 and audits the
+ * denial when access is refused.
+ */
+export const ensurePatientAccess = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  permission: Permission,
+  patientId: string,
+): Promise<boolean> => {
+  const decision = await AccessControl.authorize(
+    req.user!,
+    permission,
+    String(patientId),
+  );
+  if (decision.reason === "emergency") {
+    req.emergencyGrantId = decision.grantId;
+    AuditLogger.logDataAccess(
+      String(patientId),
+      permission.split(":")[0],
+      permission.split(":")[1],
+      { permission, method: req.method, path: req.originalUrl },
+      { purpose: "emergency_access" },
+    );
+  }
+  if (decision.allowed) {
+    return true;
+  }
+
+  AuditLogger.logAccessDenied(req.user!.id, permission, {
+    reason: decision.reason,
+    role: req.user!.role,
+    patientId: String(patientId),
+  });
+  res.status(403).json({
+    error: "Access denied",
+    code: "ACCESS_DENIED",
+  });
+  return false;
+};
+
+const defaultPatientId = (req: AuthenticatedRequest): string | undefined =>
+  req.params.userId ||
+  req.params.patientId ||
+  req.body?.patientId ||
+  req.body?.userId;
+
+/**
+ * Require a permission on the patient the request targets (by default the
+ * :userId/:patientId param or body field, falling back to the caller).
+ * The resolved id is stored on req.patientId for the handler.
+ */
+export const authorizePatient = (
+  permission: Permission,
+  getPatientId: (
+    req: AuthenticatedRequest,
+  ) => string | undefined = defaultPatientId,
+) => {
+  return async (
+    req: AuthenticatedRequest,
+    res: Response,
+    next: NextFunction,
+  ) => {
+    if (!req.user) {
+      return res.status(401).json({
+        error: "Authentication required",
+        code: "AUTH_REQUIRED",
+      });
+    }
+
+    try {
+      const patientId = getPatientId(req) || req.user.id;
+      if (!(await ensurePatientAccess(req, res, permission, patientId))) {
+        return;
+      }
+
+      req.patientId = patientId;
+      next();
+    } catch (error) {
+      console.error("[Auth] Authorization error:", error);
+      return res.status(500).json({
+        error: "Authorization failed",
+        code: "AUTHZ_ERROR",
+      });
+    }
+  };
+};
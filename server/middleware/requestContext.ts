@@ -0,0 +1,36 @@
+import { Request, Response, NextFunction } from "express";
+import { AsyncLocalStorage } from "async_hooks";
+import crypto from "crypto";
+import { AuthenticatedRequest } from "./auth";
+
+export interface RequestContext {
+  requestId: string;
+  req: AuthenticatedRequest;
+}
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+// Request ids end up in the audit log, so a caller's own id is only kept when
+// it is short and plain
+const REQUEST_ID_PATTERN = /^[A-Za-z0-9._:-]{1,64}$/;
+
+// Make the current request available to code that has no access to `req`
+// (e.g. AuditLogger). Register after the body parsers: their stream
+// callbacks do not propagate async-local storage.
+export const requestContext = (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+) => {
+  const supplied = req.headers["x-request-id"];
+  const requestId =
+    typeof supplied === "string" && REQUEST_ID_PATTERN.test(supplied)
+      ? supplied
+      : crypto.randomUUID();
+  res.setHeader("X-Request-Id", requestId);
+
+  storage.run({ requestId, req: req as AuthenticatedRequest }, () => next());
+};
+
+export const getRequestContext = (): RequestContext | undefined =>
+  storage.getStore();
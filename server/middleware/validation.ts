@@ -25,11 +25,30 @@ export const validateRegister = [
     .matches(/^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)/),
   body("firstName").trim().isLength({ min: 1, max: 100 }),
   body("lastName").trim().isLength({ min: 1, max: 100 }),
-  body("role").isIn(["patient", "doctor", "pharmacist", "admin"]),
+  // Self-registration only opens patient accounts; staff are invited by an admin
+  body("role").optional().equals("patient"),
   body("phone").optional().isMobilePhone(),
   handleValidationErrors,
 ];
 
+// Accounts an admin opens for staff and caregivers
+export const validateInviteUser = [
+  body("email").isEmail().normalizeEmail(),
+  body("firstName").trim().isLength({ min: 1, max: 100 }),
+  body("lastName").trim().isLength({ min: 1, max: 100 }),
+  body("role").isIn([
+    "patient",
+    "doctor",
+    "nurse",
+    "pharmacist",
+    "admin",
+    "caregiver",
+    "compliance_officer",
+  ]),
+  body("phone").optional().isMobilePhone("any"),
+  handleValidationErrors,
+];
+
 export const validateLogin = [
   body("email").isEmail().normalizeEmail(),
   body("password").notEmpty(),
@@ -91,11 +110,21 @@ export const validateCreateAppointment = [
   body("providerId").isUUID(),
   body("dateTime").isISO8601().toDate(),
   body("duration").optional().isInt({ min: 15, max: 480 }), // 15 min to 8 hours
-  body("type").isIn(["consultation", "follow-up", "emergency"]),
+  body("type").trim().isLength({ min: 1, max: 30 }), // appointment type code
   body("notes").optional().trim(),
   handleValidationErrors,
 ];
 
+export const validateScheduleTelemedicine = [
+  body("providerId").isUUID(),
+  body("dateTime").isISO8601().toDate(),
+  body("duration").optional().isInt({ min: 15, max: 480 }),
+  body("type").isIn(["video", "phone", "in_person"]),
+  body("appointmentType").optional().trim().isLength({ min: 1, max: 30 }),
+  body("reason").optional().trim(),
+  handleValidationErrors,
+];
+
 export const validateAppointmentId = [
   param("id").isUUID(),
   handleValidationErrors,
@@ -1,8 +1,9 @@
 import path from "path";
 import { createServer } from "./index";
+import { initializeWebSocketService } from "./utils/websocket";
 import * as express from "express";
 
-const app = createServer();
+const app = await createServer();
 const port = process.env.PORT || 3000;
 
 // In production, serve the built SPA files
@@ -15,19 +16,26 @@ app.use(express.static(distPath));
 // Handle React Router - serve index.html for all non-API routes
 app.get("*", (req, res) => {
   // Don't serve index.html for API routes
-  if (req.path.startsWith("/api/") || req.path.startsWith("/health")) {
+  if (
+    req.path.startsWith("/api/") ||
+    req.path.startsWith("/fhir/") ||
+    req.path.startsWith("/health")
+  ) {
     return res.status(404).json({ error: "API endpoint not found" });
   }
 
   res.sendFile(path.join(distPath, "index.html"));
 });
 
-app.listen(port, () => {
+const server = app.listen(port, () => {
   console.log(`🚀 Fusion Starter server running on port ${port}`);
   console.log(`📱 Frontend: http://localhost:${port}`);
   console.log(`🔧 API: http://localhost:${port}/api`);
 });
 
+// Real-time updates and telehealth visit signaling on /ws
+initializeWebSocketService(server);
+
 // Graceful shutdown
 process.on("SIGTERM", () => {
   console.log("🛑 Received SIGTERM, shutting down gracefully");
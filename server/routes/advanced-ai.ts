@@ -1,6 +1,8 @@
 import { RequestHandler } from "express";
 import { Request, Response } from "express";
+import { AuthenticatedRequest } from "../middleware/auth";
 import { MedicalAI } from "../utils/medicalAI";
+import { TriageService, DEFAULT_PROTOCOL } from "../utils/triage";
 import { ImageAnalysisService } from "../utils/imageAnalysis";
 import { db } from "../utils/databaseAdapter";
 import { ApiResponse } from "@shared/types";
@@ -21,9 +23,12 @@ const upload = multer({
 });
 
 // Advanced cardiovascular risk assessment
-export const assessCardiovascularRisk: RequestHandler = async (req, res) => {
+export const assessCardiovascularRisk = async (
+  req: AuthenticatedRequest,
+  res: Response,
+) => {
   try {
-    const userId = req.params.userId || "user-1";
+    const userId = req.patientId!;
     const labResults = db.getLabResults(userId);
     const vitals = db.getVitalSigns(userId);
     const demographics = { age: 39, gender: "male" }; // Mock demographics
@@ -48,9 +53,12 @@ export const assessCardiovascularRisk: RequestHandler = async (req, res) => {
 };
 
 // Advanced drug interaction analysis
-export const analyzeAdvancedInteractions: RequestHandler = async (req, res) => {
+export const analyzeAdvancedInteractions = async (
+  req: AuthenticatedRequest,
+  res: Response,
+) => {
   try {
-    const userId = req.params.userId || "user-1";
+    const userId = req.patientId!;
     const medications = db.getMedications(userId);
 
     // Mock PGx profile
@@ -76,9 +84,12 @@ export const analyzeAdvancedInteractions: RequestHandler = async (req, res) => {
 };
 
 // Predictive health analytics
-export const generatePredictiveAnalytics: RequestHandler = async (req, res) => {
+export const generatePredictiveAnalytics = async (
+  req: AuthenticatedRequest,
+  res: Response,
+) => {
   try {
-    const userId = req.params.userId || "user-1";
+    const userId = req.patientId!;
     const labResults = db.getLabResults(userId);
     const vitals = db.getVitalSigns(userId);
     const medications = db.getMedications(userId);
@@ -162,11 +173,15 @@ export const analyzeMedicalImage: RequestHandler = async (req, res) => {
   }
 };
 
-// Symptom assessment with differential diagnosis
-export const assessSymptoms: RequestHandler = async (req, res) => {
+// Symptom assessment with differential diagnosis; urgency is decided by the
+// active triage protocol and kept as a triage decision
+export const assessSymptoms = async (
+  req: AuthenticatedRequest,
+  res: Response,
+) => {
   try {
     const { symptoms, demographics } = req.body;
-    const userId = req.body.userId || "user-1";
+    const userId = req.patientId!;
 
     if (!symptoms || !Array.isArray(symptoms)) {
       return res.status(400).json({
@@ -175,18 +190,55 @@ export const assessSymptoms: RequestHandler = async (req, res) => {
       });
     }
 
-    const vitals = db.getVitalSigns(userId);
-    const latestVital = vitals[vitals.length - 1];
+    // Readings sent with the request take precedence over stored ones
+    const readings = await db.getVitalSigns(userId, 50);
+    const parsed = TriageService.parseInput({
+      ...req.body,
+      age: req.body.age ?? demographics?.age,
+      vitals: {
+        ...TriageService.vitalsFromReadings(readings),
+        ...req.body.vitals,
+      },
+    });
+    if (parsed.ok === false) {
+      return res.status(400).json({
+        success: false,
+        error: parsed.error,
+      });
+    }
+    const triage = await TriageService.assess(DEFAULT_PROTOCOL, parsed.input, {
+      patientId: userId,
+      decidedBy: req.user!.id,
+      source: "symptom_assessment",
+    });
+    if (!triage) {
+      return res.status(404).json({
+        success: false,
+        error: "Protocol has no active version",
+      });
+    }
 
     const assessment = MedicalAI.assessSymptoms(
       symptoms,
       demographics,
-      latestVital ? [latestVital] : [],
+      triage.result,
     );
 
     res.json({
       success: true,
-      data: assessment,
+      data: {
+        ...assessment,
+        triage: {
+          decisionId: triage.decisionId,
+          protocol: {
+            code: triage.protocol.code,
+            version: triage.protocol.version,
+          },
+          disposition: triage.result.disposition,
+          rationale: triage.result.rationale,
+          pendingQuestions: triage.result.pendingQuestions,
+        },
+      },
     });
   } catch (error) {
     console.error("Symptom assessment error:", error);
@@ -198,12 +250,12 @@ export const assessSymptoms: RequestHandler = async (req, res) => {
 };
 
 // Advanced health scoring
-export const calculateAdvancedHealthScore: RequestHandler = async (
-  req,
-  res,
+export const calculateAdvancedHealthScore = async (
+  req: AuthenticatedRequest,
+  res: Response,
 ) => {
   try {
-    const userId = req.params.userId || "user-1";
+    const userId = req.patientId!;
     const labResults = db.getLabResults(userId);
     const vitals = db.getVitalSigns(userId);
     const medications = db.getMedications(userId);
@@ -228,9 +280,12 @@ export const calculateAdvancedHealthScore: RequestHandler = async (
 };
 
 // Clinical decision support
-export const getClinicalRecommendations: RequestHandler = async (req, res) => {
+export const getClinicalRecommendations = async (
+  req: AuthenticatedRequest,
+  res: Response,
+) => {
   try {
-    const userId = req.params.userId || "user-1";
+    const userId = req.patientId!;
     const labResults = db.getLabResults(userId);
     const medications = db.getMedications(userId);
     const vitals = db.getVitalSigns(userId);
@@ -0,0 +1,41 @@
+import { Router, Response } from "express";
+import {
+  authenticateToken,
+  requireAdmin,
+  AuthenticatedRequest,
+} from "../middleware/auth";
+import { AuditLogger } from "../utils/auditLogger";
+
+const router = Router();
+
+// Verify the audit log hash chain (admin only)
+router.get(
+  "/verify",
+  authenticateToken,
+  requireAdmin,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const verification = await AuditLogger.verifyChain();
+
+      AuditLogger.logSystemEvent("audit_log", "chain_verification", {
+        requestedBy: req.user!.id,
+        valid: verification.valid,
+        checked: verification.checked,
+        brokenAt: verification.brokenAt?.id,
+      });
+
+      res.status(verification.valid ? 200 : 409).json({
+        verification,
+        verifiedAt: new Date().toISOString(),
+      });
+    } catch (error) {
+      console.error("Audit chain verification error:", error);
+      res.status(500).json({
+        error: "Internal server error",
+        code: "INTERNAL_ERROR",
+      });
+    }
+  },
+);
+
+export default router;
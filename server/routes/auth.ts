@@ -3,7 +3,6 @@ import bcrypt from "bcryptjs";
 import jwt from "jsonwebtoken";
 import { v4 as uuidv4 } from "uuid";
 import { dbPool } from "../config/database";
-import { redisClient } from "../config/database";
 import {
   validateRegister,
   validateLogin,
@@ -11,6 +10,10 @@ import {
   validateUpdateProfile,
 } from "../middleware/validation";
 import { authenticateToken, AuthenticatedRequest } from "../middleware/auth";
+import { AuditLogger } from "../utils/auditLogger";
+import { AuthTokenService } from "../utils/authTokens";
+import { MfaService } from "../utils/mfa";
+import { SessionService } from "../utils/sessions";
 
 const router = Router();
 
@@ -20,7 +23,7 @@ router.post(
   validateRegister,
   async (req: Request, res: Response) => {
     try {
-      const { email, password, firstName, lastName, role, phone } = req.body;
+      const { email, password, firstName, lastName, phone } = req.body;
 
       // Check if user already exists
       const existingUser = await dbPool.query(
@@ -44,41 +47,33 @@ router.post(
         `INSERT INTO users (email, password_hash, first_name, last_name, role, phone)
        VALUES ($1, $2, $3, $4, $5, $6)
        RETURNING id, email, first_name, last_name, role, created_at`,
-        [email, passwordHash, firstName, lastName, role, phone],
+        [email, passwordHash, firstName, lastName, "patient", phone],
       );
 
       const user = result.rows[0];
+      const profile = {
+        id: user.id,
+        email: user.email,
+        firstName: user.first_name,
+        lastName: user.last_name,
+        role: user.role,
+      };
+
+      // Roles that require MFA get no session until they have enrolled
+      if (MfaService.isRequiredForRole(user.role)) {
+        return res.status(201).json({
+          message: "User registered successfully",
+          user: profile,
+          mfaEnrollmentRequired: true,
+          mfaToken: AuthTokenService.signMfaToken(user.id, "mfa_enrollment"),
+        });
+      }
 
-      // Generate JWT token
-      const token = jwt.sign(
-        { userId: user.id, email: user.email, role: user.role },
-        process.env.JWT_SECRET!,
-        { expiresIn: "24h" },
-      );
-
-      // Generate refresh token
-      const refreshToken = jwt.sign(
-        { userId: user.id, type: "refresh" },
-        process.env.JWT_SECRET!,
-        { expiresIn: "7d" },
-      );
-
-      // Store refresh token in Redis
-      await redisClient.setEx(
-        `refresh_token:${user.id}`,
-        7 * 24 * 60 * 60,
-        refreshToken,
-      );
+      const { token, refreshToken } = await AuthTokenService.issueTokens(user);
 
       res.status(201).json({
         message: "User registered successfully",
-        user: {
-          id: user.id,
-          email: user.email,
-          firstName: user.first_name,
-          lastName: user.last_name,
-          role: user.role,
-        },
+        user: profile,
         token,
         refreshToken,
       });
@@ -92,14 +87,15 @@ router.post(
   },
 );
 
-// Login user
+// Login user. When MFA applies, the response carries an `mfaToken` to
+// complete the login through /api/auth/mfa instead of session tokens.
 router.post("/login", validateLogin, async (req: Request, res: Response) => {
   try {
-    const { email, password } = req.body;
+    const { email, password, deviceToken } = req.body;
 
     // Find user by email
     const result = await dbPool.query(
-      "SELECT id, email, password_hash, first_name, last_name, role, is_active FROM users WHERE email = $1",
+      "SELECT id, email, password_hash, first_name, last_name, role, phone, is_active FROM users WHERE email = $1",
       [email],
     );
 
@@ -123,50 +119,52 @@ router.post("/login", validateLogin, async (req: Request, res: Response) => {
     // Verify password
     const isValidPassword = await bcrypt.compare(password, user.password_hash);
     if (!isValidPassword) {
+      AuditLogger.logAuthentication(user.id, "FAILED_LOGIN", {
+        reason: "invalid_password",
+      });
       return res.status(401).json({
         error: "Invalid credentials",
         code: "INVALID_CREDENTIALS",
       });
     }
 
-    // Update last login
-    await dbPool.query(
-      "UPDATE users SET last_login_at = CURRENT_TIMESTAMP WHERE id = $1",
-      [user.id],
-    );
+    const mfa = await MfaService.getStatus(user.id, user.role);
 
-    // Generate JWT token
-    const token = jwt.sign(
-      { userId: user.id, email: user.email, role: user.role },
-      process.env.JWT_SECRET!,
-      { expiresIn: "24h" },
-    );
+    if (mfa.enabled) {
+      // A remembered device skips the second factor
+      const trusted =
+        typeof deviceToken === "string" &&
+        (await MfaService.isTrustedDevice(user.id, deviceToken));
 
-    // Generate refresh token
-    const refreshToken = jwt.sign(
-      { userId: user.id, type: "refresh" },
-      process.env.JWT_SECRET!,
-      { expiresIn: "7d" },
-    );
+      if (!trusted) {
+        if (mfa.method === "sms" && user.phone) {
+          await MfaService.sendSmsCode(user.id, user.phone);
+        }
+        AuditLogger.logAuthentication(user.id, "MFA_CHALLENGE", {
+          method: mfa.method,
+        });
 
-    // Store refresh token in Redis
-    await redisClient.setEx(
-      `refresh_token:${user.id}`,
-      7 * 24 * 60 * 60,
-      refreshToken,
-    );
+        return res.json({
+          message: "Additional verification required",
+          mfaRequired: true,
+          mfaToken: AuthTokenService.signMfaToken(user.id, "mfa_challenge"),
+          method: mfa.method,
+          methods: [mfa.method, "recovery_code"],
+        });
+      }
+    } else if (mfa.required) {
+      return res.json({
+        message: "Multi-factor authentication must be set up to sign in",
+        mfaEnrollmentRequired: true,
+        mfaToken: AuthTokenService.signMfaToken(user.id, "mfa_enrollment"),
+      });
+    }
 
     res.json({
       message: "Login successful",
-      user: {
-        id: user.id,
-        email: user.email,
-        firstName: user.first_name,
-        lastName: user.last_name,
-        role: user.role,
-      },
-      token,
-      refreshToken,
+      ...(await AuthTokenService.completeLogin(user, {
+        mfa: mfa.enabled ? "trusted_device" : "none",
+      })),
     });
   } catch (error) {
     console.error("Login error:", error);
@@ -177,7 +175,8 @@ router.post("/login", validateLogin, async (req: Request, res: Response) => {
   }
 });
 
-// Refresh token
+// Refresh token. Each refresh token works once: the response carries its
+// replacement, and presenting a used one revokes the session.
 router.post("/refresh", async (req: Request, res: Response) => {
   try {
     const { refreshToken } = req.body;
@@ -189,34 +188,30 @@ router.post("/refresh", async (req: Request, res: Response) => {
       });
     }
 
-    // Verify refresh token
-    const decoded = jwt.verify(refreshToken, process.env.JWT_SECRET!) as any;
-
-    if (decoded.type !== "refresh") {
-      return res.status(401).json({
-        error: "Invalid refresh token",
-        code: "INVALID_REFRESH_TOKEN",
-      });
-    }
-
-    // Check if refresh token exists in Redis
-    const storedToken = await redisClient.get(
-      `refresh_token:${decoded.userId}`,
-    );
-    if (!storedToken || storedToken !== refreshToken) {
+    const rotation = await SessionService.rotate(refreshToken);
+    if (rotation.ok === false) {
+      const sessionEnded =
+        rotation.reason === "idle_timeout" || rotation.reason === "expired";
+      if (rotation.reason === "reuse_detected") {
+        const { userId, sid } = jwt.decode(refreshToken) as any;
+        AuditLogger.logAuthentication(userId, "REFRESH_TOKEN_REUSE", {
+          sessionId: sid,
+        });
+      }
       return res.status(401).json({
-        error: "Invalid refresh token",
-        code: "INVALID_REFRESH_TOKEN",
+        error: sessionEnded ? "Session expired" : "Invalid refresh token",
+        code: sessionEnded ? "SESSION_EXPIRED" : "INVALID_REFRESH_TOKEN",
       });
     }
 
     // Get user info
     const result = await dbPool.query(
       "SELECT id, email, first_name, last_name, role, is_active FROM users WHERE id = $1",
-      [decoded.userId],
+      [rotation.userId],
     );
 
     if (result.rows.length === 0 || !result.rows[0].is_active) {
+      await SessionService.revoke(rotation.sessionId, "account_deactivated");
       return res.status(401).json({
         error: "User not found or inactive",
         code: "USER_INVALID",
@@ -225,16 +220,10 @@ router.post("/refresh", async (req: Request, res: Response) => {
 
     const user = result.rows[0];
 
-    // Generate new access token
-    const newToken = jwt.sign(
-      { userId: user.id, email: user.email, role: user.role },
-      process.env.JWT_SECRET!,
-      { expiresIn: "24h" },
-    );
-
     res.json({
       message: "Token refreshed successfully",
-      token: newToken,
+      token: AuthTokenService.signAccessToken(user, rotation.sessionId),
+      refreshToken: rotation.refreshToken,
     });
   } catch (error) {
     console.error("Token refresh error:", error);
@@ -245,7 +234,7 @@ router.post("/refresh", async (req: Request, res: Response) => {
   }
 });
 
-// Logout user
+// Logout user (this session only)
 router.post(
   "/logout",
   authenticateToken,
@@ -253,8 +242,12 @@ router.post(
     try {
       const userId = req.user!.id;
 
-      // Remove refresh token from Redis
-      await redisClient.del(`refresh_token:${userId}`);
+      if (req.sessionId) {
+        await SessionService.revoke(req.sessionId, "logout");
+      }
+      AuditLogger.logAuthentication(userId, "LOGOUT", {
+        sessionId: req.sessionId,
+      });
 
       res.json({
         message: "Logout successful",
@@ -269,6 +262,30 @@ router.post(
   },
 );
 
+// Log out of every session, including this one
+router.post(
+  "/logout-all",
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user!.id;
+      const revoked = await SessionService.revokeAll(userId, "logout_all");
+      AuditLogger.logAuthentication(userId, "LOGOUT_ALL", { revoked });
+
+      res.json({
+        message: "Logged out of all sessions",
+        revoked,
+      });
+    } catch (error) {
+      console.error("Logout all error:", error);
+      res.status(500).json({
+        error: "Internal server error",
+        code: "INTERNAL_ERROR",
+      });
+    }
+  },
+);
+
 // Forgot password
 router.post(
   "/forgot-password",
@@ -374,8 +391,8 @@ router.post("/reset-password", async (req: Request, res: Response) => {
       [newPasswordHash, user.id],
     );
 
-    // Invalidate all refresh tokens
-    await redisClient.del(`refresh_token:${user.id}`);
+    // End every session signed in with the old password
+    await SessionService.revokeAll(user.id, "password_reset");
 
     res.json({
       message: "Password reset successfully",
@@ -399,7 +416,7 @@ router.get(
 
       const result = await dbPool.query(
         `SELECT id, email, first_name, last_name, role, phone, avatar_url, 
-              last_login_at, created_at, updated_at
+              preferences, last_login_at, created_at, updated_at
        FROM users WHERE id = $1`,
         [userId],
       );
@@ -412,6 +429,7 @@ router.get(
       }
 
       const user = result.rows[0];
+      const sessions = await SessionService.list(userId, req.sessionId);
 
       res.json({
         user: {
@@ -422,10 +440,12 @@ router.get(
           role: user.role,
           phone: user.phone,
           avatarUrl: user.avatar_url,
+          preferences: user.preferences || {},
           lastLoginAt: user.last_login_at,
           createdAt: user.created_at,
           updatedAt: user.updated_at,
         },
+        sessions,
       });
     } catch (error) {
       console.error("Get profile error:", error);
@@ -490,4 +510,58 @@ router.put(
   },
 );
 
+// List the devices signed in to this account
+router.get(
+  "/profile/sessions",
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const sessions = await SessionService.list(req.user!.id, req.sessionId);
+      res.json({ sessions });
+    } catch (error) {
+      console.error("List sessions error:", error);
+      res.status(500).json({
+        error: "Internal server error",
+        code: "INTERNAL_ERROR",
+      });
+    }
+  },
+);
+
+// Sign a single device out
+router.delete(
+  "/profile/sessions/:sessionId",
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user!.id;
+      const { sessionId } = req.params;
+
+      const revoked = await SessionService.revoke(
+        sessionId,
+        "user_revoked",
+        userId,
+      );
+      if (!revoked) {
+        return res.status(404).json({
+          error: "Session not found",
+          code: "SESSION_NOT_FOUND",
+        });
+      }
+
+      AuditLogger.logAuthentication(userId, "SESSION_REVOKED", {
+        sessionId,
+        reason: "user_revoked",
+      });
+      res.json({ message: "Session revoked" });
+    } catch (error) {
+      console.error("Revoke session error:", error);
+      res.status(500).json({
+        error: "Internal server error",
+        code: "INTERNAL_ERROR",
+      });
+    }
+  },
+);
+
 export default router;
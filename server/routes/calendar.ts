@@ -0,0 +1,214 @@
+import { Router, Response } from "express";
+import {
+  authenticateToken,
+  authorizePatient,
+  AuthenticatedRequest,
+} from "../middleware/auth";
+import { AuditLogger } from "../utils/auditLogger";
+import { CalendarService, CalendarView } from "../utils/calendar";
+import { SchedulingService, PROVIDER_ROLES } from "../utils/scheduling";
+
+const router = Router();
+
+const CALENDAR_CONTENT_TYPE = "text/calendar; charset=utf-8";
+
+// The caller's calendar subscriptions (tokens are never shown again)
+router.get(
+  "/feeds",
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const feeds = await CalendarService.listFeeds(req.user!.id);
+      res.json({ feeds });
+    } catch (error) {
+      console.error("List calendar feeds error:", error);
+      res.status(500).json({
+        error: "Internal server error",
+        code: "INTERNAL_ERROR",
+      });
+    }
+  },
+);
+
+// Subscribe to your own appointments as a provider
+router.post(
+  "/feeds/provider",
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const user = req.user!;
+      if (!PROVIDER_ROLES.includes(user.role)) {
+        return res.status(403).json({
+          error: "Only providers have a provider calendar",
+          code: "INSUFFICIENT_PERMISSIONS",
+        });
+      }
+
+      const { feed, url } = await CalendarService.createFeed(
+        user.id,
+        user.id,
+        "provider",
+      );
+
+      AuditLogger.logEvent({
+        userId: user.id,
+        action: "CALENDAR_FEED_CREATED",
+        resourceType: "calendar_feed",
+        resourceId: feed.id,
+        details: { scope: "provider" },
+      });
+
+      res.status(201).json({ feed, url });
+    } catch (error) {
+      console.error("Create provider calendar feed error:", error);
+      res.status(500).json({
+        error: "Internal server error",
+        code: "INTERNAL_ERROR",
+      });
+    }
+  },
+);
+
+// Subscribe to a patient's appointments (your own, or as caregiver/care team)
+router.post(
+  "/feeds/patient/:userId?",
+  authenticateToken,
+  authorizePatient("appointments:read"),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      if (req.emergencyGrantId) {
+        return res.status(403).json({
+          error: "Emergency access does not cover calendar subscriptions",
+          code: "ACCESS_DENIED",
+        });
+      }
+
+      const { feed, url } = await CalendarService.createFeed(
+        req.user!.id,
+        req.patientId!,
+        "patient",
+      );
+
+      AuditLogger.logEvent({
+        userId: req.user!.id,
+        action: "CALENDAR_FEED_CREATED",
+        resourceType: "calendar_feed",
+        resourceId: feed.id,
+        details: { scope: "patient", patientId: req.patientId },
+      });
+
+      res.status(201).json({ feed, url });
+    } catch (error) {
+      console.error("Create patient calendar feed error:", error);
+      res.status(500).json({
+        error: "Internal server error",
+        code: "INTERNAL_ERROR",
+      });
+    }
+  },
+);
+
+router.delete(
+  "/feeds/:feedId",
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      if (
+        !(await CalendarService.revokeFeed(req.user!.id, req.params.feedId))
+      ) {
+        return res.status(404).json({
+          error: "Calendar feed not found",
+          code: "FEED_NOT_FOUND",
+        });
+      }
+
+      AuditLogger.logEvent({
+        userId: req.user!.id,
+        action: "CALENDAR_FEED_REVOKED",
+        resourceType: "calendar_feed",
+        resourceId: req.params.feedId,
+      });
+
+      res.json({ message: "Calendar feed revoked" });
+    } catch (error) {
+      console.error("Revoke calendar feed error:", error);
+      res.status(500).json({
+        error: "Internal server error",
+        code: "INTERNAL_ERROR",
+      });
+    }
+  },
+);
+
+// Polled by calendar apps; the token in the URL is the only credential
+router.get("/feeds/:token", async (req, res: Response) => {
+  try {
+    const calendar = await CalendarService.renderFeed(
+      req.params.token.replace(/\.ics$/, ""),
+    );
+    if (!calendar) {
+      return res.status(404).json({
+        error: "Calendar feed not found",
+        code: "FEED_NOT_FOUND",
+      });
+    }
+
+    res.set("Content-Type", CALENDAR_CONTENT_TYPE);
+    res.set("Cache-Control", "private, max-age=300");
+    res.send(calendar);
+  } catch (error) {
+    console.error("Calendar feed error:", error);
+    res.status(500).json({
+      error: "Internal server error",
+      code: "INTERNAL_ERROR",
+    });
+  }
+});
+
+// Invite for one appointment, from the signed link in confirmations and
+// reminders. Always reflects the appointment's current time and status.
+router.get("/invites/:appointmentId/:view", async (req, res: Response) => {
+  try {
+    const { appointmentId } = req.params;
+    const view = req.params.view.replace(/\.ics$/, "") as CalendarView;
+    if (
+      !["provider", "patient"].includes(view) ||
+      !CalendarService.verifyInviteSignature(
+        appointmentId,
+        view,
+        req.query.sig as string,
+      )
+    ) {
+      return res.status(404).json({
+        error: "Invite not found",
+        code: "APPOINTMENT_NOT_FOUND",
+      });
+    }
+
+    const appointment = await SchedulingService.getAppointment(appointmentId);
+    if (!appointment) {
+      return res.status(404).json({
+        error: "Invite not found",
+        code: "APPOINTMENT_NOT_FOUND",
+      });
+    }
+
+    const calendar = await CalendarService.appointmentCalendar(
+      appointment,
+      view,
+    );
+    const method = appointment.status === "cancelled" ? "CANCEL" : "REQUEST";
+    res.set("Content-Type", `${CALENDAR_CONTENT_TYPE}; method=${method}`);
+    res.set("Content-Disposition", 'attachment; filename="appointment.ics"');
+    res.set("Cache-Control", "no-store");
+    res.send(calendar);
+  } catch (error) {
+    console.error("Calendar invite error:", error);
+    res.status(500).json({
+      error: "Internal server error",
+      code: "INTERNAL_ERROR",
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,227 @@
+import { Router, Response } from "express";
+import { dbPool } from "../config/database";
+import {
+  authenticateToken,
+  authorizePatient,
+  ensurePatientAccess,
+  AuthenticatedRequest,
+} from "../middleware/auth";
+import { AuditLogger } from "../utils/auditLogger";
+import {
+  CARE_TEAM_RELATIONSHIPS,
+  CareTeamRelationship,
+} from "../utils/accessControl";
+
+const router = Router();
+
+// Patients manage their own caregivers; every other change needs
+// care_team:manage on the patient (an admin or a doctor on the team)
+const canManage = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  patientId: string,
+  relationship: string,
+): Promise<boolean> => {
+  const user = req.user!;
+  if (
+    user.role === "patient" &&
+    user.id === patientId &&
+    relationship === "caregiver"
+  ) {
+    return true;
+  }
+  return ensurePatientAccess(req, res, "care_team:manage", patientId);
+};
+
+// Current care team for a patient
+router.get(
+  "/:patientId",
+  authenticateToken,
+  authorizePatient("care_team:read"),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      if (!dbPool) {
+        return res.json({ members: [] });
+      }
+
+      const result = await dbPool.query(
+        `SELECT ct.id, ct.member_id, ct.relationship, ct.starts_at, ct.ends_at,
+          u.first_name, u.last_name, u.role
+        FROM care_team_assignments ct
+        JOIN users u ON u.id = ct.member_id
+        WHERE ct.patient_id::text = $1 AND ct.active = true
+          AND (ct.ends_at IS NULL OR ct.ends_at > NOW())
+        ORDER BY ct.created_at`,
+        [req.patientId],
+      );
+
+      res.json({
+        members: result.rows.map((row) => ({
+          id: row.id,
+          memberId: row.member_id,
+          name: `${row.first_name} ${row.last_name}`,
+          role: row.role,
+          relationship: row.relationship,
+          startsAt: row.starts_at,
+          endsAt: row.ends_at,
+        })),
+      });
+    } catch (error) {
+      console.error("Care team lookup error:", error);
+      res.status(500).json({
+        error: "Internal server error",
+        code: "INTERNAL_ERROR",
+      });
+    }
+  },
+);
+
+// Add a member to a patient's care team
+router.post(
+  "/:patientId",
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { patientId } = req.params;
+      const { memberId, relationship, startsAt, endsAt } = req.body;
+
+      if (
+        !memberId ||
+        !CARE_TEAM_RELATIONSHIPS.includes(relationship as CareTeamRelationship)
+      ) {
+        return res.status(400).json({
+          error: `memberId and a relationship of ${CARE_TEAM_RELATIONSHIPS.join(", ")} are required`,
+          code: "VALIDATION_ERROR",
+        });
+      }
+
+      if (memberId === patientId) {
+        return res.status(400).json({
+          error: "A patient cannot be on their own care team",
+          code: "VALIDATION_ERROR",
+        });
+      }
+
+      if (!(await canManage(req, res, patientId, relationship))) {
+        return;
+      }
+
+      if (!dbPool) {
+        return res.status(503).json({
+          error: "Database not available",
+          code: "DATABASE_UNAVAILABLE",
+        });
+      }
+
+      const member = await dbPool.query(
+        "SELECT id FROM users WHERE id::text = $1",
+        [memberId],
+      );
+      if (member.rows.length === 0) {
+        return res.status(404).json({
+          error: "Member not found",
+          code: "MEMBER_NOT_FOUND",
+        });
+      }
+
+      // Re-adding an ended relationship reactivates it
+      const result = await dbPool.query(
+        `INSERT INTO care_team_assignments
+          (patient_id, member_id, relationship, starts_at, ends_at, created_by)
+        VALUES ($1, $2, $3, COALESCE($4::timestamptz, NOW()), $5, $6)
+        ON CONFLICT (patient_id, member_id, relationship) DO UPDATE SET
+          active = true,
+          starts_at = EXCLUDED.starts_at,
+          ends_at = EXCLUDED.ends_at,
+          created_by = EXCLUDED.created_by,
+          updated_at = NOW()
+        RETURNING *`,
+        [
+          patientId,
+          memberId,
+          relationship,
+          startsAt || null,
+          endsAt || null,
+          req.user!.id,
+        ],
+      );
+
+      AuditLogger.logEvent({
+        userId: req.user!.id,
+        action: "CARE_TEAM_MEMBER_ADDED",
+        resourceType: "care_team_assignment",
+        resourceId: result.rows[0].id,
+        details: { patientId, memberId, relationship },
+      });
+
+      res.status(201).json({ assignment: result.rows[0] });
+    } catch (error) {
+      console.error("Care team assignment error:", error);
+      res.status(500).json({
+        error: "Internal server error",
+        code: "INTERNAL_ERROR",
+      });
+    }
+  },
+);
+
+// End a care team relationship
+router.delete(
+  "/:patientId/members/:assignmentId",
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { patientId, assignmentId } = req.params;
+
+      if (!dbPool) {
+        return res.status(503).json({
+          error: "Database not available",
+          code: "DATABASE_UNAVAILABLE",
+        });
+      }
+
+      const existing = await dbPool.query(
+        `SELECT id, relationship FROM care_team_assignments
+        WHERE id::text = $1 AND patient_id::text = $2 AND active = true`,
+        [assignmentId, patientId],
+      );
+      if (existing.rows.length === 0) {
+        return res.status(404).json({
+          error: "Care team assignment not found",
+          code: "ASSIGNMENT_NOT_FOUND",
+        });
+      }
+
+      if (
+        !(await canManage(req, res, patientId, existing.rows[0].relationship))
+      ) {
+        return;
+      }
+
+      await dbPool.query(
+        `UPDATE care_team_assignments
+        SET active = false, ends_at = NOW(), updated_at = NOW()
+        WHERE id = $1`,
+        [existing.rows[0].id],
+      );
+
+      AuditLogger.logEvent({
+        userId: req.user!.id,
+        action: "CARE_TEAM_MEMBER_REMOVED",
+        resourceType: "care_team_assignment",
+        resourceId: assignmentId,
+        details: { patientId },
+      });
+
+      res.json({ message: "Care team member removed" });
+    } catch (error) {
+      console.error("Care team removal error:", error);
+      res.status(500).json({
+        error: "Internal server error",
+        code: "INTERNAL_ERROR",
+      });
+    }
+  },
+);
+
+export default router;
@@ -0,0 +1,662 @@
+import { Router, Response } from "express";
+import {
+  authenticateToken,
+  authorizePatient,
+  ensurePatientAccess,
+  requirePermission,
+  AuthenticatedRequest,
+} from "../middleware/auth";
+import { AccessControl, ROLE_SCOPE, Role } from "../utils/accessControl";
+import { AuditLogger } from "../utils/auditLogger";
+import {
+  CCM_ACTIVITIES,
+  CONSENT_METHODS,
+  CcmEnrollment,
+  CcmService,
+  MAX_ACTIVITY_MINUTES,
+  MDM_LEVELS,
+  MIN_CHRONIC_CONDITIONS,
+  RISK_LEVELS,
+} from "../utils/ccm";
+import { SchedulingService } from "../utils/scheduling";
+
+const router = Router();
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const MONTH_PATTERN = /^\d{4}-(0[1-9]|1[0-2])$/;
+const FORMATS = ["json", "csv"];
+
+const isStringList = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((item) => typeof item === "string");
+
+// The patient's active enrollment; sends the error response when there is none
+const loadActiveEnrollment = async (
+  patientId: string,
+  res: Response,
+): Promise<CcmEnrollment | null> => {
+  const enrollment = await CcmService.getEnrollment(patientId);
+  if (!enrollment) {
+    res.status(404).json({
+      error: "Patient is not enrolled in CCM",
+      code: "ENROLLMENT_NOT_FOUND",
+    });
+    return null;
+  }
+  if (enrollment.status !== "active") {
+    res.status(409).json({
+      error: "Patient has been disenrolled from CCM",
+      code: "ENROLLMENT_ENDED",
+    });
+    return null;
+  }
+  return enrollment;
+};
+
+// Minutes given for a timed activity: a whole number within one sitting
+const invalidMinutes = (minutes: unknown) =>
+  !Number.isInteger(minutes) ||
+  (minutes as number) < 1 ||
+  (minutes as number) > MAX_ACTIVITY_MINUTES;
+
+// Enroll a patient with their consent under a billing provider
+router.post(
+  "/patients",
+  authenticateToken,
+  authorizePatient("ccm:manage"),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const patientId = req.patientId!;
+      const { consentMethod, riskLevel = "medium" } = req.body;
+      const consentDate =
+        req.body.consentDate || new Date().toISOString().slice(0, 10);
+      const conditions = isStringList(req.body.conditions)
+        ? [
+            ...new Set<string>(
+              req.body.conditions
+                .map((condition) => condition.trim())
+                .filter(Boolean),
+            ),
+          ]
+        : [];
+
+      if (!CONSENT_METHODS.includes(consentMethod)) {
+        return res.status(400).json({
+          error: `consentMethod must be one of ${CONSENT_METHODS.join(", ")}`,
+          code: "VALIDATION_ERROR",
+        });
+      }
+      if (
+        !DATE_PATTERN.test(consentDate) ||
+        isNaN(Date.parse(consentDate)) ||
+        consentDate > new Date().toISOString().slice(0, 10)
+      ) {
+        return res.status(400).json({
+          error: "consentDate must be a date (YYYY-MM-DD) not in the future",
+          code: "VALIDATION_ERROR",
+        });
+      }
+      if (conditions.length < MIN_CHRONIC_CONDITIONS) {
+        return res.status(400).json({
+          error: `CCM requires at least ${MIN_CHRONIC_CONDITIONS} chronic conditions`,
+          code: "INSUFFICIENT_CONDITIONS",
+        });
+      }
+      if (!RISK_LEVELS.includes(riskLevel)) {
+        return res.status(400).json({
+          error: `riskLevel must be one of ${RISK_LEVELS.join(", ")}`,
+          code: "VALIDATION_ERROR",
+        });
+      }
+
+      const providerId = req.body.providerId || req.user!.id;
+      const provider = await SchedulingService.getProvider(providerId);
+      if (!provider || provider.role !== "doctor") {
+        return res.status(400).json({
+          error: "providerId must be a physician",
+          code: "INVALID_PROVIDER",
+        });
+      }
+
+      const enrollment = await CcmService.enroll(patientId, {
+        providerId,
+        consentDate,
+        consentMethod,
+        conditions,
+        riskLevel,
+      });
+      if (!enrollment) {
+        return res.status(409).json({
+          error: "Patient is already enrolled in CCM",
+          code: "ENROLLMENT_EXISTS",
+        });
+      }
+
+      AuditLogger.logEvent({
+        userId: req.user!.id,
+        action: "CCM_ENROLLMENT_CREATED",
+        resourceType: "ccm_enrollment",
+        resourceId: enrollment.id,
+        details: { patientId, providerId, consentDate, consentMethod },
+      });
+
+      res.status(201).json({ enrollment });
+    } catch (error) {
+      console.error("CCM enrollment error:", error);
+      res.status(500).json({
+        error: "Internal server error",
+        code: "INTERNAL_ERROR",
+      });
+    }
+  },
+);
+
+// The patient's enrollment with its current care plan
+router.get(
+  "/patients/:userId",
+  authenticateToken,
+  authorizePatient("ccm:manage"),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const enrollment = await CcmService.getEnrollment(req.patientId!);
+      if (!enrollment) {
+        return res.status(404).json({
+          error: "Patient is not enrolled in CCM",
+          code: "ENROLLMENT_NOT_FOUND",
+        });
+      }
+      res.json({
+        enrollment,
+        carePlan: await CcmService.getCarePlan(enrollment),
+        blockers: CcmService.blockers(enrollment),
+      });
+    } catch (error) {
+      console.error("Get CCM enrollment error:", error);
+      res.status(500).json({
+        error: "Internal server error",
+        code: "INTERNAL_ERROR",
+      });
+    }
+  },
+);
+
+// Consent withdrawn or CCM no longer needed
+router.post(
+  "/patients/:userId/disenroll",
+  authenticateToken,
+  authorizePatient("ccm:manage"),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const enrollment = await loadActiveEnrollment(req.patientId!, res);
+      if (!enrollment) return;
+
+      const reason = String(req.body.reason || "").trim();
+      if (!reason) {
+        return res.status(400).json({
+          error: "reason is required",
+          code: "VALIDATION_ERROR",
+        });
+      }
+
+      const updated = await CcmService.disenroll(enrollment, reason);
+
+      AuditLogger.logEvent({
+        userId: req.user!.id,
+        action: "CCM_DISENROLLED",
+        resourceType: "ccm_enrollment",
+        resourceId: enrollment.id,
+        details: { patientId: enrollment.patientId, reason },
+      });
+
+      res.json({ enrollment: updated });
+    } catch (error) {
+      console.error("CCM disenroll error:", error);
+      res.status(500).json({
+        error: "Internal server error",
+        code: "INTERNAL_ERROR",
+      });
+    }
+  },
+);
+
+// Put a new care plan in place; the previous one is superseded
+router.post(
+  "/patients/:userId/care-plan",
+  authenticateToken,
+  authorizePatient("ccm:manage"),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const enrollment = await loadActiveEnrollment(req.patientId!, res);
+      if (!enrollment) return;
+
+      const {
+        name,
+        description,
+        nextReviewDate,
+        problems = [],
+        goals = [],
+        interventions = [],
+      } = req.body;
+      if (typeof name !== "string" || !name.trim()) {
+        return res.status(400).json({
+          error: "name is required",
+          code: "VALIDATION_ERROR",
+        });
+      }
+      if (
+        ![problems, goals, interventions].every(isStringList) ||
+        problems.length === 0
+      ) {
+        return res.status(400).json({
+          error:
+            "problems is required; problems, goals and interventions must be lists of text",
+          code: "VALIDATION_ERROR",
+        });
+      }
+      if (nextReviewDate && !DATE_PATTERN.test(nextReviewDate)) {
+        return res.status(400).json({
+          error: "nextReviewDate must be a date (YYYY-MM-DD)",
+          code: "VALIDATION_ERROR",
+        });
+      }
+
+      const carePlan = await CcmService.saveCarePlan(
+        enrollment,
+        {
+          name: name.trim(),
+          description,
+          nextReviewDate,
+          problems,
+          goals,
+          interventions,
+        },
+        req.user!.id,
+      );
+
+      AuditLogger.logEvent({
+        userId: req.user!.id,
+        action: "CCM_CARE_PLAN_SAVED",
+        resourceType: "care_plan",
+        resourceId: carePlan.id,
+        details: {
+          patientId: enrollment.patientId,
+          replaced: enrollment.carePlanId,
+        },
+      });
+
+      res.status(201).json({ carePlan });
+    } catch (error) {
+      console.error("Save care plan error:", error);
+      res.status(500).json({
+        error: "Internal server error",
+        code: "INTERNAL_ERROR",
+      });
+    }
+  },
+);
+
+// The staff member's running timer, if any
+router.get(
+  "/timer",
+  authenticateToken,
+  requirePermission("ccm:manage"),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      res.json({ timer: await CcmService.getRunningTimer(req.user!.id) });
+    } catch (error) {
+      console.error("Get CCM timer error:", error);
+      res.status(500).json({
+        error: "Internal server error",
+        code: "INTERNAL_ERROR",
+      });
+    }
+  },
+);
+
+// Start timing an activity for the patient
+router.post(
+  "/patients/:userId/timer/start",
+  authenticateToken,
+  authorizePatient("ccm:manage"),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const enrollment = await loadActiveEnrollment(req.patientId!, res);
+      if (!enrollment) return;
+
+      const { activity, notes } = req.body;
+      if (!CCM_ACTIVITIES.includes(activity)) {
+        return res.status(400).json({
+          error: `activity must be one of ${CCM_ACTIVITIES.join(", ")}`,
+          code: "VALIDATION_ERROR",
+        });
+      }
+
+      const timer = await CcmService.startTimer(
+        enrollment,
+        req.user!.id,
+        activity,
+        notes,
+      );
+      if (!timer) {
+        return res.status(409).json({
+          error: "Stop the running timer before starting another",
+          code: "TIMER_RUNNING",
+          timer: await CcmService.getRunningTimer(req.user!.id),
+        });
+      }
+
+      res.status(201).json({ timer });
+    } catch (error) {
+      console.error("Start CCM timer error:", error);
+      res.status(500).json({
+        error: "Internal server error",
+        code: "INTERNAL_ERROR",
+      });
+    }
+  },
+);
+
+// Stop the staff member's running timer and count its whole minutes
+router.post(
+  "/timer/stop",
+  authenticateToken,
+  requirePermission("ccm:manage"),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const timer = await CcmService.getRunningTimer(req.user!.id);
+      if (!timer) {
+        return res.status(404).json({
+          error: "No timer is running",
+          code: "TIMER_NOT_RUNNING",
+        });
+      }
+      if (
+        !(await ensurePatientAccess(req, res, "ccm:manage", timer.patientId))
+      ) {
+        return;
+      }
+
+      const { minutes, notes, mdmLevel } = req.body;
+      const now = new Date();
+      const elapsed = (now.getTime() - Date.parse(timer.startTime)) / 60000;
+      if (minutes !== undefined && invalidMinutes(minutes)) {
+        return res.status(400).json({
+          error: `minutes must be a whole number from 1 to ${MAX_ACTIVITY_MINUTES}`,
+          code: "VALIDATION_ERROR",
+        });
+      }
+      // A timer forgotten overnight should not bill the night
+      if (minutes === undefined && elapsed > MAX_ACTIVITY_MINUTES) {
+        return res.status(400).json({
+          error: `Timer ran over ${MAX_ACTIVITY_MINUTES} minutes; give the minutes actually spent`,
+          code: "VALIDATION_ERROR",
+        });
+      }
+      if (mdmLevel !== undefined && !MDM_LEVELS.includes(mdmLevel)) {
+        return res.status(400).json({
+          error: `mdmLevel must be one of ${MDM_LEVELS.join(", ")}`,
+          code: "VALIDATION_ERROR",
+        });
+      }
+
+      const entry = await CcmService.stopTimer(
+        timer,
+        { minutes, notes, mdmLevel },
+        now,
+      );
+
+      AuditLogger.logEvent({
+        userId: req.user!.id,
+        action: "CCM_TIME_LOGGED",
+        resourceType: "ccm_encounter",
+        resourceId: entry.id,
+        details: {
+          patientId: entry.patientId,
+          activity: entry.activity,
+          minutes: entry.minutes,
+          timed: minutes === undefined,
+        },
+      });
+
+      res.json({ entry });
+    } catch (error) {
+      console.error("Stop CCM timer error:", error);
+      res.status(500).json({
+        error: "Internal server error",
+        code: "INTERNAL_ERROR",
+      });
+    }
+  },
+);
+
+// Record time spent without the timer
+router.post(
+  "/patients/:userId/time",
+  authenticateToken,
+  authorizePatient("ccm:manage"),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const enrollment = await loadActiveEnrollment(req.patientId!, res);
+      if (!enrollment) return;
+
+      const { activity, minutes, mdmLevel, notes } = req.body;
+      if (!CCM_ACTIVITIES.includes(activity)) {
+        return res.status(400).json({
+          error: `activity must be one of ${CCM_ACTIVITIES.join(", ")}`,
+          code: "VALIDATION_ERROR",
+        });
+      }
+      if (invalidMinutes(minutes)) {
+        return res.status(400).json({
+          error: `minutes must be a whole number from 1 to ${MAX_ACTIVITY_MINUTES}`,
+          code: "VALIDATION_ERROR",
+        });
+      }
+      if (mdmLevel !== undefined && !MDM_LEVELS.includes(mdmLevel)) {
+        return res.status(400).json({
+          error: `mdmLevel must be one of ${MDM_LEVELS.join(", ")}`,
+          code: "VALIDATION_ERROR",
+        });
+      }
+      const startTime = new Date(req.body.startTime);
+      if (
+        isNaN(startTime.getTime()) ||
+        startTime.getTime() + minutes * 60000 > Date.now()
+      ) {
+        return res.status(400).json({
+          error: "startTime must be an ISO 8601 time and the activity over",
+          code: "VALIDATION_ERROR",
+        });
+      }
+      // Time before the patient consented cannot be counted
+      if (startTime.toISOString().slice(0, 10) < enrollment.consentDate) {
+        return res.status(400).json({
+          error: "startTime is before the patient's consent",
+          code: "VALIDATION_ERROR",
+        });
+      }
+
+      const entry = await CcmService.logActivity(enrollment, req.user!.id, {
+        activity,
+        startTime,
+        minutes,
+        mdmLevel,
+        notes,
+      });
+
+      AuditLogger.logEvent({
+        userId: req.user!.id,
+        action: "CCM_TIME_LOGGED",
+        resourceType: "ccm_encounter",
+        resourceId: entry.id,
+        details: {
+          patientId: enrollment.patientId,
+          activity,
+          minutes,
+          timed: false,
+        },
+      });
+
+      res.status(201).json({ entry });
+    } catch (error) {
+      console.error("Log CCM time error:", error);
+      res.status(500).json({
+        error: "Internal server error",
+        code: "INTERNAL_ERROR",
+      });
+    }
+  },
+);
+
+// A month's activities and where they leave the patient toward billing
+router.get(
+  "/patients/:userId/time",
+  authenticateToken,
+  authorizePatient("ccm:manage"),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const enrollment = await CcmService.getEnrollment(req.patientId!);
+      if (!enrollment) {
+        return res.status(404).json({
+          error: "Patient is not enrolled in CCM",
+          code: "ENROLLMENT_NOT_FOUND",
+        });
+      }
+
+      const timeZone = (req.query.timeZone as string) || "UTC";
+      if (!SchedulingService.isValidTimeZone(timeZone)) {
+        return res.status(400).json({
+          error: "Unknown time zone",
+          code: "VALIDATION_ERROR",
+        });
+      }
+      const month =
+        (req.query.month as string) ||
+        SchedulingService.localDate(new Date(), timeZone).slice(0, 7);
+      if (!MONTH_PATTERN.test(month)) {
+        return res.status(400).json({
+          error: "month must be YYYY-MM",
+          code: "VALIDATION_ERROR",
+        });
+      }
+
+      const entries = await CcmService.listActivities(
+        enrollment,
+        month,
+        timeZone,
+      );
+      const finished = entries.filter((entry) => entry.endTime);
+      const totalMinutes = finished.reduce(
+        (sum, entry) => sum + entry.minutes,
+        0,
+      );
+
+      res.json({
+        month,
+        entries,
+        totalMinutes,
+        assessment: CcmService.assessMonth(
+          totalMinutes,
+          CcmService.isComplex(entries),
+        ),
+      });
+    } catch (error) {
+      console.error("List CCM time error:", error);
+      res.status(500).json({
+        error: "Internal server error",
+        code: "INTERNAL_ERROR",
+      });
+    }
+  },
+);
+
+// Month-end report of billable and near-threshold patients; defaults to
+// the current month so care managers can still act on it
+router.get(
+  "/reports/monthly",
+  authenticateToken,
+  requirePermission("ccm:manage"),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const format = ((req.query.format as string) || "json").toLowerCase();
+      if (!FORMATS.includes(format)) {
+        return res.status(400).json({
+          error: `Format must be one of ${FORMATS.join(", ")}`,
+          code: "INVALID_FORMAT",
+        });
+      }
+      const timeZone = (req.query.timeZone as string) || "UTC";
+      if (!SchedulingService.isValidTimeZone(timeZone)) {
+        return res.status(400).json({
+          error: "Unknown time zone",
+          code: "VALIDATION_ERROR",
+        });
+      }
+      const now = new Date();
+      const month =
+        (req.query.month as string) ||
+        SchedulingService.localDate(now, timeZone).slice(0, 7);
+      if (!MONTH_PATTERN.test(month)) {
+        return res.status(400).json({
+          error: "month must be YYYY-MM",
+          code: "VALIDATION_ERROR",
+        });
+      }
+      const within =
+        req.query.within === undefined ? undefined : Number(req.query.within);
+      if (
+        within !== undefined &&
+        (!Number.isInteger(within) || within < 0 || within > 60)
+      ) {
+        return res.status(400).json({
+          error: "within must be a whole number of minutes from 0 to 60",
+          code: "VALIDATION_ERROR",
+        });
+      }
+
+      // Clinical staff see the patients on their care teams
+      const user = req.user!;
+      const patientIds =
+        ROLE_SCOPE[user.role as Role] === "all"
+          ? undefined
+          : await AccessControl.getCareTeamPatientIds(user.id);
+
+      const report = await CcmService.getMonthlyReport(month, {
+        timeZone,
+        nearWithin: within,
+        patientIds,
+        now,
+      });
+
+      AuditLogger.logEvent({
+        userId: user.id,
+        action: "CCM_MONTHLY_REPORT_GENERATED",
+        resourceType: "ccm_billing",
+        resourceId: month,
+        details: {
+          format,
+          patients: report.summary.patients,
+          billable: report.summary.billable,
+        },
+      });
+
+      if (format === "csv") {
+        res.setHeader("Content-Type", "text/csv");
+        res.setHeader(
+          "Content-Disposition",
+          `attachment; filename="ccm-${month}.csv"`,
+        );
+        return res.send(CcmService.toCSV(report));
+      }
+
+      res.json({ report });
+    } catch (error) {
+      console.error("CCM monthly report error:", error);
+      res.status(500).json({
+        error: "Internal server error",
+        code: "INTERNAL_ERROR",
+      });
+    }
+  },
+);
+
+export default router;
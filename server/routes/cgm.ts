@@ -0,0 +1,101 @@
+import { Router, Response } from "express";
+import {
+  authenticateToken,
+  authorizePatient,
+  AuthenticatedRequest,
+} from "../middleware/auth";
+import { AuditLogger } from "../utils/auditLogger";
+import {
+  CgmAnalyticsService,
+  DEFAULT_REPORT_DAYS,
+  MAX_REPORT_DAYS,
+} from "../utils/cgmAnalytics";
+import { SchedulingService } from "../utils/scheduling";
+
+const router = Router();
+
+const FORMATS = ["json", "pdf"];
+
+// Glucose report (AGP, time in ranges, GMI, hypoglycemia) for clinic review
+router.get(
+  "/report/:userId?",
+  authenticateToken,
+  authorizePatient("vitals:read"),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const patientId = req.patientId!;
+      const format = ((req.query.format as string) || "json").toLowerCase();
+      if (!FORMATS.includes(format)) {
+        return res.status(400).json({
+          error: `Format must be one of ${FORMATS.join(", ")}`,
+          code: "INVALID_FORMAT",
+        });
+      }
+
+      const days = req.query.days
+        ? parseInt(req.query.days as string, 10)
+        : DEFAULT_REPORT_DAYS;
+      if (!Number.isInteger(days) || days < 1 || days > MAX_REPORT_DAYS) {
+        return res.status(400).json({
+          error: `days must be between 1 and ${MAX_REPORT_DAYS}`,
+          code: "VALIDATION_ERROR",
+        });
+      }
+      const end = req.query.end
+        ? new Date(req.query.end as string)
+        : new Date();
+      if (isNaN(end.getTime())) {
+        return res.status(400).json({
+          error: "end must be an ISO date",
+          code: "INVALID_DATE_RANGE",
+        });
+      }
+      const timeZone = (req.query.timeZone as string) || "UTC";
+      if (!SchedulingService.isValidTimeZone(timeZone)) {
+        return res.status(400).json({
+          error: "Unknown time zone",
+          code: "VALIDATION_ERROR",
+        });
+      }
+
+      const report = await CgmAnalyticsService.getReport(patientId, {
+        end,
+        days,
+        timeZone,
+      });
+      if (!report) {
+        return res.status(404).json({
+          error: "Patient not found",
+          code: "PATIENT_NOT_FOUND",
+        });
+      }
+
+      AuditLogger.logDataAccess(
+        patientId,
+        "cgm_report",
+        "view",
+        { format, days, readings: report.data.readings },
+        { purpose: "treatment" },
+      );
+
+      if (format === "pdf") {
+        res.setHeader("Content-Type", "application/pdf");
+        res.setHeader(
+          "Content-Disposition",
+          `attachment; filename="cgm-report-${patientId}-${report.period.end.slice(0, 10)}.pdf"`,
+        );
+        return res.send(CgmAnalyticsService.toPDF(report));
+      }
+
+      res.json({ report });
+    } catch (error) {
+      console.error("CGM report error:", error);
+      res.status(500).json({
+        error: "Internal server error",
+        code: "INTERNAL_ERROR",
+      });
+    }
+  },
+);
+
+export default router;
@@ -1,4 +1,5 @@
-import { RequestHandler } from "express";
+import { Response } from "express";
+import { AuthenticatedRequest } from "../middleware/auth";
 import { db } from "../utils/databaseAdapter";
 import { AIService } from "../utils/aiService";
 import { ApiResponse, ChatMessage } from "@shared/types";
@@ -17,14 +18,10 @@ interface ChatResponse {
   messageId?: string;
 }
 
-export const handleChat: RequestHandler = async (req, res) => {
+export const handleChat = async (req: AuthenticatedRequest, res: Response) => {
   try {
-    const {
-      message,
-      userId = "user-1",
-      context,
-      conversationHistory,
-    }: ChatRequest = req.body;
+    const { message, context, conversationHistory }: ChatRequest = req.body;
+    const userId = req.patientId!;
 
     if (!message || typeof message !== "string") {
       return res.status(400).json({ error: "Message is required" });
@@ -79,9 +76,12 @@ export const handleChat: RequestHandler = async (req, res) => {
 };
 
 // Get chat history for a user
-export const getChatHistory: RequestHandler = async (req, res) => {
+export const getChatHistory = async (
+  req: AuthenticatedRequest,
+  res: Response,
+) => {
   try {
-    const userId = req.params.userId || "user-1";
+    const userId = req.patientId!;
     const messages = db.getChatMessages(userId);
 
     const response: ApiResponse<ChatMessage[]> = {
@@ -0,0 +1,171 @@
+import { Router, Response } from "express";
+import {
+  authenticateToken,
+  authorizePatient,
+  AuthenticatedRequest,
+} from "../middleware/auth";
+import { AuditLogger } from "../utils/auditLogger";
+import {
+  CONSENT_CATEGORIES,
+  CONSENT_CHANNELS,
+  CommunicationConsent,
+  ConsentCategory,
+  ConsentChannel,
+} from "../utils/communicationConsent";
+import { SchedulingService } from "../utils/scheduling";
+
+const router = Router();
+
+const MAX_DECISIONS = 200;
+
+// The patient's consent per channel and category, quiet hours and whether
+// their number has texted STOP
+router.get(
+  "/patients/:userId",
+  authenticateToken,
+  authorizePatient("messaging:consent"),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const settings = await CommunicationConsent.getSettings(req.patientId!);
+      if (!settings) {
+        return res.status(404).json({
+          error: "Patient not found",
+          code: "PATIENT_NOT_FOUND",
+        });
+      }
+      AuditLogger.logDataAccess(
+        req.patientId!,
+        "communication_consent",
+        "view",
+      );
+      res.json({ settings });
+    } catch (error) {
+      console.error("Get communication consent error:", error);
+      res.status(500).json({
+        error: "Internal server error",
+        code: "INTERNAL_ERROR",
+      });
+    }
+  },
+);
+
+/**
+ * Record the patient's choices. A STOP can only be lifted by the number
+ * texting START, so it is not set here.
+ */
+router.put(
+  "/patients/:userId",
+  authenticateToken,
+  authorizePatient("messaging:consent"),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { consents = [], quietHours, timeZone } = req.body;
+
+      if (
+        !Array.isArray(consents) ||
+        !consents.every(
+          (consent) =>
+            CONSENT_CHANNELS.includes(consent?.channel) &&
+            CONSENT_CATEGORIES.includes(consent?.category) &&
+            typeof consent?.granted === "boolean",
+        )
+      ) {
+        return res.status(400).json({
+          error: `consents must be a list of { channel, category, granted } with channel one of ${CONSENT_CHANNELS.join(", ")} and category one of ${CONSENT_CATEGORIES.join(", ")}`,
+          code: "VALIDATION_ERROR",
+        });
+      }
+      const problem =
+        quietHours === undefined
+          ? null
+          : CommunicationConsent.validateQuietHours(quietHours);
+      if (problem) {
+        return res.status(400).json({
+          error: problem,
+          code: "VALIDATION_ERROR",
+        });
+      }
+      if (
+        timeZone !== undefined &&
+        (typeof timeZone !== "string" ||
+          !SchedulingService.isValidTimeZone(timeZone))
+      ) {
+        return res.status(400).json({
+          error: "timeZone must be an IANA time zone such as Africa/Accra",
+          code: "VALIDATION_ERROR",
+        });
+      }
+
+      if (!(await CommunicationConsent.getSettings(req.patientId!))) {
+        return res.status(404).json({
+          error: "Patient not found",
+          code: "PATIENT_NOT_FOUND",
+        });
+      }
+      await CommunicationConsent.updateSettings(
+        req.patientId!,
+        {
+          consents: consents.map(({ channel, category, granted }) => ({
+            channel: channel as ConsentChannel,
+            category: category as ConsentCategory,
+            granted,
+          })),
+          quietHours: quietHours
+            ? { start: quietHours.start, end: quietHours.end }
+            : quietHours,
+          timeZone,
+        },
+        req.user!.id,
+      );
+      res.json({
+        settings: await CommunicationConsent.getSettings(req.patientId!),
+      });
+    } catch (error) {
+      console.error("Update communication consent error:", error);
+      res.status(500).json({
+        error: "Internal server error",
+        code: "INTERNAL_ERROR",
+      });
+    }
+  },
+);
+
+// Messages to the patient that were blocked, deferred or sent on another
+// channel
+router.get(
+  "/patients/:userId/decisions",
+  authenticateToken,
+  authorizePatient("messaging:consent"),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const limit =
+        req.query.limit === undefined ? 50 : Number(req.query.limit);
+      if (!Number.isInteger(limit) || limit < 1 || limit > MAX_DECISIONS) {
+        return res.status(400).json({
+          error: `limit must be 1 to ${MAX_DECISIONS}`,
+          code: "VALIDATION_ERROR",
+        });
+      }
+
+      const decisions = await CommunicationConsent.listDecisions(
+        req.patientId!,
+        limit,
+      );
+      AuditLogger.logDataAccess(
+        req.patientId!,
+        "message_consent_decisions",
+        "view",
+        { count: decisions.length },
+      );
+      res.json({ decisions });
+    } catch (error) {
+      console.error("List consent decisions error:", error);
+      res.status(500).json({
+        error: "Internal server error",
+        code: "INTERNAL_ERROR",
+      });
+    }
+  },
+);
+
+export default router;
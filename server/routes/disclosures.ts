@@ -0,0 +1,112 @@
+import { Router, Response } from "express";
+import { authenticateToken, AuthenticatedRequest } from "../middleware/auth";
+import { AuditLogger } from "../utils/auditLogger";
+import {
+  DisclosureReportService,
+  MAX_REPORT_YEARS,
+} from "../utils/disclosureReport";
+
+const router = Router();
+
+const FORMATS = ["json", "csv", "pdf"];
+
+// Accounting of disclosures for a patient (the patient or an admin)
+router.get(
+  "/:patientId",
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { patientId } = req.params;
+      const user = req.user!;
+
+      if (user.role !== "admin" && user.id !== patientId) {
+        return res.status(403).json({
+          error: "Access denied",
+          code: "ACCESS_DENIED",
+        });
+      }
+
+      const format = ((req.query.format as string) || "json").toLowerCase();
+      if (!FORMATS.includes(format)) {
+        return res.status(400).json({
+          error: `Format must be one of ${FORMATS.join(", ")}`,
+          code: "INVALID_FORMAT",
+        });
+      }
+
+      const endDate = req.query.to
+        ? new Date(req.query.to as string)
+        : new Date();
+      const startDate = req.query.from
+        ? new Date(req.query.from as string)
+        : new Date(
+            new Date(endDate).setFullYear(
+              endDate.getFullYear() - MAX_REPORT_YEARS,
+            ),
+          );
+
+      if (
+        isNaN(startDate.getTime()) ||
+        isNaN(endDate.getTime()) ||
+        startDate > endDate
+      ) {
+        return res.status(400).json({
+          error: "Invalid date range",
+          code: "INVALID_DATE_RANGE",
+        });
+      }
+
+      const report = await DisclosureReportService.getReport(
+        patientId,
+        startDate,
+        endDate,
+        req.query.includeSelf === "true",
+      );
+
+      if (!report) {
+        return res.status(404).json({
+          error: "Patient not found",
+          code: "PATIENT_NOT_FOUND",
+        });
+      }
+
+      AuditLogger.logDataAccess(
+        patientId,
+        "disclosure_report",
+        "view",
+        { format, entries: report.summary.total },
+        { purpose: "accounting_of_disclosures" },
+      );
+
+      const fileName = `disclosures-${patientId}-${report.generatedAt.slice(0, 10)}`;
+
+      if (format === "csv") {
+        res.setHeader("Content-Type", "text/csv");
+        res.setHeader(
+          "Content-Disposition",
+          `attachment; filename="${fileName}.csv"`,
+        );
+        return res.send(DisclosureReportService.toCSV(report));
+      }
+
+      if (format === "pdf") {
+        res.setHeader("Content-Type", "application/pdf");
+        res.setHeader(
+          "Content-Disposition",
+          `attachment; filename="${fileName}.pdf"`,
+        );
+        return res.send(DisclosureReportService.toPDF(report));
+      }
+
+      res.json({ report });
+    } catch (error) {
+      console.error("Disclosure report error:", error);
+      res.status(500).json({
+        error: "Internal server error",
+        code: "INTERNAL_ERROR",
+      });
+    }
+  },
+);
+
+export default router;
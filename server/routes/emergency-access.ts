@@ -0,0 +1,296 @@
+import { Router, Response } from "express";
+import { dbPool } from "../config/database";
+import {
+  authenticateToken,
+  requireRole,
+  requirePermission,
+  AuthenticatedRequest,
+} from "../middleware/auth";
+import { AuditLogger } from "../utils/auditLogger";
+import { AccessControl, BREAK_GLASS_ROLES } from "../utils/accessControl";
+import {
+  EmergencyAccessService,
+  MAX_GRANT_MINUTES,
+  MIN_REASON_LENGTH,
+  DEFAULT_GRANT_MINUTES,
+  ReviewQueueFilter,
+} from "../utils/emergencyAccess";
+
+const router = Router();
+
+const REVIEW_FILTERS: ReviewQueueFilter[] = ["pending", "reviewed", "all"];
+const REVIEW_OUTCOMES = ["appropriate", "inappropriate"];
+
+// Compliance review queue
+router.get(
+  "/review",
+  authenticateToken,
+  requirePermission("emergency_access:review"),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const status = ((req.query.status as string) ||
+        "pending") as ReviewQueueFilter;
+      if (!REVIEW_FILTERS.includes(status)) {
+        return res.status(400).json({
+          error: `Status must be one of ${REVIEW_FILTERS.join(", ")}`,
+          code: "VALIDATION_ERROR",
+        });
+      }
+
+      const grants = await EmergencyAccessService.listGrants({
+        review: status,
+        limit: Math.min(parseInt(req.query.limit as string) || 100, 500),
+      });
+      res.json({ grants });
+    } catch (error) {
+      console.error("Emergency access review queue error:", error);
+      res.status(500).json({
+        error: "Internal server error",
+        code: "INTERNAL_ERROR",
+      });
+    }
+  },
+);
+
+// A grant with everything accessed under it
+router.get(
+  "/review/:grantId",
+  authenticateToken,
+  requirePermission("emergency_access:review"),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const grant = await EmergencyAccessService.getGrant(req.params.grantId);
+      if (!grant) {
+        return res.status(404).json({
+          error: "Emergency access grant not found",
+          code: "GRANT_NOT_FOUND",
+        });
+      }
+
+      const activity = await EmergencyAccessService.getGrantActivity(grant.id);
+      res.json({ grant, activity });
+    } catch (error) {
+      console.error("Emergency access grant lookup error:", error);
+      res.status(500).json({
+        error: "Internal server error",
+        code: "INTERNAL_ERROR",
+      });
+    }
+  },
+);
+
+// Record the outcome of a review once the grant has ended
+router.post(
+  "/review/:grantId",
+  authenticateToken,
+  requirePermission("emergency_access:review"),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { outcome, notes } = req.body;
+      if (!REVIEW_OUTCOMES.includes(outcome)) {
+        return res.status(400).json({
+          error: `Outcome must be one of ${REVIEW_OUTCOMES.join(", ")}`,
+          code: "VALIDATION_ERROR",
+        });
+      }
+
+      const existing = await EmergencyAccessService.getGrant(
+        req.params.grantId,
+      );
+      if (!existing) {
+        return res.status(404).json({
+          error: "Emergency access grant not found",
+          code: "GRANT_NOT_FOUND",
+        });
+      }
+      if (existing.status === "active") {
+        return res.status(409).json({
+          error: "Grant is still active; revoke it or wait for it to expire",
+          code: "GRANT_ACTIVE",
+        });
+      }
+
+      const grant = await EmergencyAccessService.reviewGrant(
+        existing.id,
+        req.user!.id,
+        outcome,
+        notes,
+      );
+      if (!grant) {
+        return res.status(409).json({
+          error: "Grant has already been reviewed",
+          code: "GRANT_ALREADY_REVIEWED",
+        });
+      }
+
+      AuditLogger.logEmergencyAccess(grant.patient.id, "REVIEWED", {
+        grantId: grant.id,
+        clinicianId: grant.clinician.id,
+        outcome,
+      });
+
+      res.json({ grant });
+    } catch (error) {
+      console.error("Emergency access review error:", error);
+      res.status(500).json({
+        error: "Internal server error",
+        code: "INTERNAL_ERROR",
+      });
+    }
+  },
+);
+
+// Break the glass: time-boxed access to a patient outside the care team
+router.post(
+  "/",
+  authenticateToken,
+  requireRole(BREAK_GLASS_ROLES),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { patientId, reason } = req.body;
+      const durationMinutes = req.body.durationMinutes ?? DEFAULT_GRANT_MINUTES;
+
+      if (
+        !patientId ||
+        typeof reason !== "string" ||
+        reason.trim().length < MIN_REASON_LENGTH
+      ) {
+        return res.status(400).json({
+          error: `patientId and a reason of at least ${MIN_REASON_LENGTH} characters are required`,
+          code: "VALIDATION_ERROR",
+        });
+      }
+      if (
+        !Number.isInteger(durationMinutes) ||
+        durationMinutes < 1 ||
+        durationMinutes > MAX_GRANT_MINUTES
+      ) {
+        return res.status(400).json({
+          error: `durationMinutes must be between 1 and ${MAX_GRANT_MINUTES}`,
+          code: "VALIDATION_ERROR",
+        });
+      }
+
+      if (!dbPool) {
+        return res.status(503).json({
+          error: "Database not available",
+          code: "DATABASE_UNAVAILABLE",
+        });
+      }
+
+      const patient = await dbPool.query(
+        "SELECT id FROM users WHERE id::text = $1 AND role = 'patient'",
+        [patientId],
+      );
+      if (patient.rows.length === 0) {
+        return res.status(404).json({
+          error: "Patient not found",
+          code: "PATIENT_NOT_FOUND",
+        });
+      }
+
+      const user = req.user!;
+      if (await AccessControl.getRelationship(user.id, patientId)) {
+        return res.status(409).json({
+          error:
+            "You already have access to this patient through the care team",
+          code: "ACCESS_ALREADY_GRANTED",
+        });
+      }
+
+      const grant = await EmergencyAccessService.createGrant(
+        user.id,
+        patientId,
+        reason.trim(),
+        durationMinutes,
+      );
+
+      AuditLogger.logEmergencyAccess(patientId, "GRANTED", {
+        grantId: grant.id,
+        reason: grant.reason,
+        expiresAt: grant.expiresAt,
+        role: user.role,
+      });
+
+      res.status(201).json({ grant });
+    } catch (error) {
+      console.error("Emergency access grant error:", error);
+      res.status(500).json({
+        error: "Internal server error",
+        code: "INTERNAL_ERROR",
+      });
+    }
+  },
+);
+
+// The caller's own grants
+router.get(
+  "/mine",
+  authenticateToken,
+  requireRole(BREAK_GLASS_ROLES),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const grants = await EmergencyAccessService.listGrants({
+        review: "all",
+        clinicianId: req.user!.id,
+        limit: 50,
+      });
+      res.json({ grants });
+    } catch (error) {
+      console.error("Emergency access lookup error:", error);
+      res.status(500).json({
+        error: "Internal server error",
+        code: "INTERNAL_ERROR",
+      });
+    }
+  },
+);
+
+// End a grant early (the clinician who holds it, or an admin)
+router.post(
+  "/:grantId/revoke",
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const user = req.user!;
+      const existing = await EmergencyAccessService.getGrant(
+        req.params.grantId,
+      );
+      if (!existing) {
+        return res.status(404).json({
+          error: "Emergency access grant not found",
+          code: "GRANT_NOT_FOUND",
+        });
+      }
+      if (user.role !== "admin" && existing.clinician.id !== user.id) {
+        return res.status(403).json({
+          error: "Access denied",
+          code: "ACCESS_DENIED",
+        });
+      }
+
+      const grant = await EmergencyAccessService.revokeGrant(existing.id);
+      if (!grant) {
+        return res.status(409).json({
+          error: "Grant has already ended",
+          code: "GRANT_ENDED",
+        });
+      }
+
+      AuditLogger.logEmergencyAccess(grant.patient.id, "REVOKED", {
+        grantId: grant.id,
+        clinicianId: grant.clinician.id,
+      });
+
+      res.json({ grant });
+    } catch (error) {
+      console.error("Emergency access revoke error:", error);
+      res.status(500).json({
+        error: "Internal server error",
+        code: "INTERNAL_ERROR",
+      });
+    }
+  },
+);
+
+export default router;
@@ -0,0 +1,286 @@
+import { Router, Request, Response } from "express";
+import {
+  authenticateToken,
+  requirePermission,
+  AuthenticatedRequest,
+} from "../middleware/auth";
+import { AccessControl, ROLE_SCOPE, Role } from "../utils/accessControl";
+import {
+  FHIRSearchService,
+  FHIRSearchError,
+  FHIRSearchResult,
+  SEARCH_PARAMETERS,
+  DEFAULT_PAGE_SIZE,
+  MAX_PAGE_SIZE,
+} from "../utils/fhirSearch";
+import { AuditLogger } from "../utils/auditLogger";
+
+const router = Router();
+
+const FHIR_CONTENT_TYPE = "application/fhir+json";
+
+type SearchHandler = (
+  query: Record<string, any>,
+  count: number,
+  offset: number,
+) => Promise<FHIRSearchResult>;
+
+const SEARCH_HANDLERS: Record<string, SearchHandler> = {
+  Patient: (query, count, offset) =>
+    FHIRSearchService.searchPatients(query, count, offset),
+  Observation: (query, count, offset) =>
+    FHIRSearchService.searchObservations(query, count, offset),
+  MedicationStatement: (query, count, offset) =>
+    FHIRSearchService.searchMedicationStatements(query, count, offset),
+};
+
+const baseUrl = (req: Request) =>
+  `${req.protocol}://${req.get("host")}${req.baseUrl}`;
+
+const sendOperationOutcome = (
+  res: Response,
+  status: number,
+  code: string,
+  diagnostics: string,
+) => {
+  res
+    .status(status)
+    .type(FHIR_CONTENT_TYPE)
+    .json({
+      resourceType: "OperationOutcome",
+      issue: [{ severity: "error", code, diagnostics }],
+    });
+};
+
+// Limit any search to the patients the caller may see: their own record,
+// plus their care team's patients for clinical roles and caregivers
+const scopeQuery = async (
+  user: NonNullable<AuthenticatedRequest["user"]>,
+  params: Record<string, any>,
+  resourceType: string,
+): Promise<Record<string, any>> => {
+  const query = { ...params };
+  const scope = ROLE_SCOPE[user.role as Role];
+  if (scope === "all") {
+    return query;
+  }
+
+  const patientIds =
+    scope === "care_team"
+      ? [user.id, ...(await AccessControl.getCareTeamPatientIds(user.id))]
+      : [user.id];
+
+  // Repeated parameters are ANDed, so this only ever narrows the search
+  const param = resourceType === "Patient" ? "_id" : "patient";
+  query[param] = [
+    ...(query[param] === undefined ? [] : [query[param]].flat()),
+    patientIds.join(","),
+  ];
+  return query;
+};
+
+// Record the read for each patient whose data was returned
+const logAccess = (resourceType: string, action: string, resources: any[]) => {
+  const patientIds = new Set<string>(
+    resources
+      .map((resource) =>
+        resource.resourceType === "Patient"
+          ? resource.id
+          : resource.subject?.reference?.replace(/^Patient\//, ""),
+      )
+      .filter(Boolean),
+  );
+  patientIds.forEach((patientId) =>
+    AuditLogger.logDataAccess(
+      patientId,
+      resourceType,
+      action,
+      { count: resources.length },
+      { channel: "fhir" },
+    ),
+  );
+};
+
+const pageUrl = (req: Request, offset: number, count: number) => {
+  const params = new URLSearchParams();
+  Object.entries(req.query).forEach(([name, value]) => {
+    if (name === "_offset" || name === "_count") return;
+    [value]
+      .flat()
+      .forEach((v) => typeof v === "string" && params.append(name, v));
+  });
+  params.set("_count", String(count));
+  params.set("_offset", String(offset));
+  return `${baseUrl(req)}${req.path}?${params.toString()}`;
+};
+
+// Server capability statement (no authentication, per the FHIR spec)
+router.get("/metadata", (req: Request, res: Response) => {
+  res.type(FHIR_CONTENT_TYPE).json({
+    resourceType: "CapabilityStatement",
+    status: "active",
+    date: new Date().toISOString(),
+    publisher: "Telecheck",
+    kind: "instance",
+    software: { name: "Telecheck FHIR API" },
+    implementation: {
+      description: "Telecheck FHIR R4 read/search API",
+      url: baseUrl(req),
+    },
+    fhirVersion: "4.0.1",
+    format: ["json"],
+    rest: [
+      {
+        mode: "server",
+        security: {
+          service: [
+            {
+              coding: [
+                {
+                  system:
+                    "http://terminology.hl7.org/CodeSystem/restful-security-service",
+                  code: "OAuth",
+                },
+              ],
+            },
+          ],
+          description: "Bearer token issued by /api/auth/login",
+        },
+        resource: Object.entries(SEARCH_PARAMETERS).map(
+          ([type, searchParams]) => ({
+            type,
+            interaction: [{ code: "read" }, { code: "search-type" }],
+            searchParam: searchParams.map(({ name, type, documentation }) => ({
+              name,
+              type,
+              documentation,
+            })),
+          }),
+        ),
+      },
+    ],
+  });
+});
+
+// Search a resource type
+router.get(
+  "/:resourceType",
+  authenticateToken,
+  requirePermission("fhir:read"),
+  async (req: AuthenticatedRequest, res: Response) => {
+    const { resourceType } = req.params;
+    const search = SEARCH_HANDLERS[resourceType];
+
+    if (!search) {
+      return sendOperationOutcome(
+        res,
+        404,
+        "not-supported",
+        `Resource type ${resourceType} is not supported`,
+      );
+    }
+
+    try {
+      const count = Math.min(
+        Math.max(parseInt(req.query._count as string) || DEFAULT_PAGE_SIZE, 1),
+        MAX_PAGE_SIZE,
+      );
+      const offset = Math.max(parseInt(req.query._offset as string) || 0, 0);
+
+      const { total, resources } = await search(
+        await scopeQuery(req.user!, req.query, resourceType),
+        count,
+        offset,
+      );
+      logAccess(resourceType, "search", resources);
+
+      const link = [
+        { relation: "self", url: pageUrl(req, offset, count) },
+        { relation: "first", url: pageUrl(req, 0, count) },
+      ];
+      if (offset > 0) {
+        link.push({
+          relation: "previous",
+          url: pageUrl(req, Math.max(offset - count, 0), count),
+        });
+      }
+      if (offset + count < total) {
+        link.push({
+          relation: "next",
+          url: pageUrl(req, offset + count, count),
+        });
+      }
+      link.push({
+        relation: "last",
+        url: pageUrl(
+          req,
+          Math.max(Math.ceil(total / count) - 1, 0) * count,
+          count,
+        ),
+      });
+
+      res.type(FHIR_CONTENT_TYPE).json({
+        resourceType: "Bundle",
+        type: "searchset",
+        total,
+        link,
+        entry: resources.map((resource) => ({
+          fullUrl: `${baseUrl(req)}/${resource.resourceType}/${resource.id}`,
+          resource,
+          search: { mode: "match" },
+        })),
+      });
+    } catch (error) {
+      if (error instanceof FHIRSearchError) {
+        return sendOperationOutcome(res, 400, "invalid", error.message);
+      }
+      console.error("FHIR search error:", error);
+      sendOperationOutcome(res, 500, "exception", "Failed to search resources");
+    }
+  },
+);
+
+// Read a single resource by id
+router.get(
+  "/:resourceType/:id",
+  authenticateToken,
+  requirePermission("fhir:read"),
+  async (req: AuthenticatedRequest, res: Response) => {
+    const { resourceType, id } = req.params;
+    const search = SEARCH_HANDLERS[resourceType];
+
+    if (!search) {
+      return sendOperationOutcome(
+        res,
+        404,
+        "not-supported",
+        `Resource type ${resourceType} is not supported`,
+      );
+    }
+
+    try {
+      const { resources } = await search(
+        await scopeQuery(req.user!, { _id: id }, resourceType),
+        1,
+        0,
+      );
+
+      if (resources.length === 0) {
+        return sendOperationOutcome(
+          res,
+          404,
+          "not-found",
+          `${resourceType}/${id} not found`,
+        );
+      }
+
+      logAccess(resourceType, "read", resources);
+      res.type(FHIR_CONTENT_TYPE).json(resources[0]);
+    } catch (error) {
+      console.error("FHIR read error:", error);
+      sendOperationOutcome(res, 500, "exception", "Failed to read resource");
+    }
+  },
+);
+
+export default router;
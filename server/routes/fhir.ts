@@ -1,19 +1,46 @@
-import { RequestHandler } from "express";
+import { Response } from "express";
+import { AuthenticatedRequest } from "../middleware/auth";
 import { FHIRIntegrationService } from "../utils/fhirIntegration";
 import { db } from "../utils/databaseAdapter";
+import { AuditLogger } from "../utils/auditLogger";
+import { AccessControl } from "../utils/accessControl";
 import { ApiResponse } from "@shared/types";
 
 // Export health data in FHIR format
-export const exportFHIRData: RequestHandler = async (req, res) => {
+export const exportFHIRData = async (
+  req: AuthenticatedRequest,
+  res: Response,
+) => {
   try {
-    const userId = req.params.userId || "user-1";
-    const { dataTypes = ["patient", "observations", "medications"] } = req.body;
+    const userId = req.patientId!;
+    const {
+      dataTypes = [
+        "patient",
+        "observations",
+        "vitals",
+        "medications",
+        "encounters",
+      ],
+      recipient = "requester",
+      purpose,
+    } = req.body;
 
     const fhirExport = await FHIRIntegrationService.exportHealthDataAsFHIR(
       userId,
       dataTypes,
     );
 
+    if (!fhirExport) {
+      return res.status(404).json({
+        success: false,
+        error: "Patient not found",
+      });
+    }
+
+    AuditLogger.logDataExport(userId, "FHIR_EXPORT", recipient, dataTypes, {
+      purpose,
+    });
+
     res.json({
       success: true,
       data: fhirExport,
@@ -28,7 +55,10 @@ export const exportFHIRData: RequestHandler = async (req, res) => {
 };
 
 // Import FHIR bundle
-export const importFHIRData: RequestHandler = async (req, res) => {
+export const importFHIRData = async (
+  req: AuthenticatedRequest,
+  res: Response,
+) => {
   try {
     const { bundle } = req.body;
 
@@ -39,7 +69,38 @@ export const importFHIRData: RequestHandler = async (req, res) => {
       });
     }
 
-    const importResult = await FHIRIntegrationService.importFHIRBundle(bundle);
+    // Each entry needs the caller to have access to the patient it writes to
+    const importResult = await FHIRIntegrationService.importFHIRBundle(
+      bundle,
+      async (patientId) => {
+        const decision = await AccessControl.authorize(
+          req.user!,
+          "fhir:import",
+          patientId,
+        );
+        if (decision.reason === "emergency") {
+          AuditLogger.logDataAccess(
+            patientId,
+            "fhir",
+            "import",
+            {
+              permission: "fhir:import",
+              method: req.method,
+              path: req.originalUrl,
+            },
+            { purpose: "emergency_access" },
+          );
+        }
+        if (!decision.allowed) {
+          AuditLogger.logAccessDenied(req.user!.id, "fhir:import", {
+            reason: decision.reason,
+            role: req.user!.role,
+            patientId,
+          });
+        }
+        return decision.allowed;
+      },
+    );
 
     res.json({
       success: true,
@@ -55,10 +116,13 @@ export const importFHIRData: RequestHandler = async (req, res) => {
 };
 
 // Get FHIR patient resource
-export const getFHIRPatient: RequestHandler = async (req, res) => {
+export const getFHIRPatient = async (
+  req: AuthenticatedRequest,
+  res: Response,
+) => {
   try {
-    const userId = req.params.userId || "user-1";
-    const user = db.getUser(userId);
+    const userId = req.patientId!;
+    const user = await db.getUserById(userId);
 
     if (!user) {
       return res.status(404).json({
@@ -67,7 +131,13 @@ export const getFHIRPatient: RequestHandler = async (req, res) => {
       });
     }
 
-    const fhirPatient = FHIRIntegrationService.convertToFHIRPatient(user);
+    const patients = await db.query(
+      "SELECT * FROM patients WHERE user_id = $1 LIMIT 1",
+      [userId],
+    );
+    const fhirPatient = FHIRIntegrationService.convertToFHIRPatient(
+      FHIRIntegrationService.fromUserRow(user, patients[0]),
+    );
 
     res.json({
       success: true,
@@ -83,13 +153,18 @@ export const getFHIRPatient: RequestHandler = async (req, res) => {
 };
 
 // Get FHIR observations (lab results)
-export const getFHIRObservations: RequestHandler = async (req, res) => {
+export const getFHIRObservations = async (
+  req: AuthenticatedRequest,
+  res: Response,
+) => {
   try {
-    const userId = req.params.userId || "user-1";
-    const labResults = db.getLabResults(userId);
+    const userId = req.patientId!;
+    const labResults = await db.getLabResults(userId);
 
     const fhirObservations = labResults.map((result) =>
-      FHIRIntegrationService.convertToFHIRObservation(result),
+      FHIRIntegrationService.convertToFHIRObservation(
+        FHIRIntegrationService.fromLabResultRow(result, userId),
+      ),
     );
 
     const bundle = {
@@ -0,0 +1,480 @@
+import { Router, Response } from "express";
+import {
+  authenticateToken,
+  authorizePatient,
+  ensurePatientAccess,
+  requirePermission,
+  AuthenticatedRequest,
+} from "../middleware/auth";
+import { AccessControl, ROLE_SCOPE, Role } from "../utils/accessControl";
+import { AuditLogger } from "../utils/auditLogger";
+import {
+  SmsInbox,
+  SmsThread,
+  THREAD_STATUSES,
+  ThreadStatus,
+} from "../utils/smsInbox";
+
+const router = Router();
+
+const MAX_PAGE = 200;
+
+// Clinical staff see the threads of patients on their care teams
+const scopedPatientIds = async (req: AuthenticatedRequest) =>
+  ROLE_SCOPE[req.user!.role as Role] === "all"
+    ? undefined
+    : AccessControl.getCareTeamPatientIds(req.user!.id);
+
+// The thread named in the path, once the caller may see its patient
+const loadThread = async (
+  req: AuthenticatedRequest,
+  res: Response,
+): Promise<SmsThread | null> => {
+  const thread = await SmsInbox.getThread(req.params.threadId);
+  if (!thread) {
+    res.status(404).json({
+      error: "Thread not found",
+      code: "THREAD_NOT_FOUND",
+    });
+    return null;
+  }
+  return (await ensurePatientAccess(
+    req,
+    res,
+    "messaging:send",
+    thread.patientId,
+  ))
+    ? thread
+    : null;
+};
+
+// The inbox: threads waiting longest for a reply first
+router.get(
+  "/threads",
+  authenticateToken,
+  requirePermission("messaging:send"),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const statuses = String(req.query.status || "open")
+        .split(",")
+        .map((status) => status.trim()) as ThreadStatus[];
+      if (!statuses.every((status) => THREAD_STATUSES.includes(status))) {
+        return res.status(400).json({
+          error: `status must be a list of ${THREAD_STATUSES.join(", ")}`,
+          code: "VALIDATION_ERROR",
+        });
+      }
+      const assignee =
+        req.query.assignee === "me"
+          ? req.user!.id
+          : (req.query.assignee as string | undefined);
+
+      const threads = await SmsInbox.listThreads({
+        statuses,
+        assignee,
+        unreadOnly: req.query.unread === "true",
+        patientIds: await scopedPatientIds(req),
+      });
+      res.json({ threads });
+    } catch (error) {
+      console.error("List SMS threads error:", error);
+      res.status(500).json({
+        error: "Internal server error",
+        code: "INTERNAL_ERROR",
+      });
+    }
+  },
+);
+
+// Unread, assigned and overdue counts for the inbox badge
+router.get(
+  "/summary",
+  authenticateToken,
+  requirePermission("messaging:send"),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const summary = await SmsInbox.summary(
+        req.user!.id,
+        await scopedPatientIds(req),
+      );
+      res.json({ summary });
+    } catch (error) {
+      console.error("SMS inbox summary error:", error);
+      res.status(500).json({
+        error: "Internal server error",
+        code: "INTERNAL_ERROR",
+      });
+    }
+  },
+);
+
+// Start (or reopen) the thread with a patient, to text them first
+router.post(
+  "/patients/:userId/thread",
+  authenticateToken,
+  authorizePatient("messaging:send"),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const thread = await SmsInbox.openThread(req.patientId!);
+      if (!thread) {
+        return res.status(400).json({
+          error: "Patient has no phone number",
+          code: "NO_PHONE_NUMBER",
+        });
+      }
+      res.json({ thread });
+    } catch (error) {
+      console.error("Open SMS thread error:", error);
+      res.status(500).json({
+        error: "Internal server error",
+        code: "INTERNAL_ERROR",
+      });
+    }
+  },
+);
+
+// A thread and its latest messages; ?before=<message id> pages back
+router.get(
+  "/threads/:threadId",
+  authenticateToken,
+  requirePermission("messaging:send"),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const thread = await loadThread(req, res);
+      if (!thread) return;
+
+      const before =
+        req.query.before === undefined ? undefined : Number(req.query.before);
+      const limit =
+        req.query.limit === undefined ? 50 : Number(req.query.limit);
+      if (
+        (before !== undefined && !Number.isInteger(before)) ||
+        !Number.isInteger(limit) ||
+        limit < 1 ||
+        limit > MAX_PAGE
+      ) {
+        return res.status(400).json({
+          error: `before must be a message id and limit 1 to ${MAX_PAGE}`,
+          code: "VALIDATION_ERROR",
+        });
+      }
+
+      const messages = await SmsInbox.listMessages(thread.id, {
+        before,
+        limit,
+      });
+      AuditLogger.logDataAccess(
+        thread.patientId,
+        "sms_thread",
+        "view",
+        { threadId: thread.id, messages: messages.length },
+        { purpose: "treatment" },
+      );
+      res.json({ thread, messages });
+    } catch (error) {
+      console.error("Get SMS thread error:", error);
+      res.status(500).json({
+        error: "Internal server error",
+        code: "INTERNAL_ERROR",
+      });
+    }
+  },
+);
+
+// Clear the unread count once the thread has been read
+router.post(
+  "/threads/:threadId/read",
+  authenticateToken,
+  requirePermission("messaging:send"),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const thread = await loadThread(req, res);
+      if (!thread) return;
+
+      res.json({ thread: await SmsInbox.markRead(thread) });
+    } catch (error) {
+      console.error("Mark SMS thread read error:", error);
+      res.status(500).json({
+        error: "Internal server error",
+        code: "INTERNAL_ERROR",
+      });
+    }
+  },
+);
+
+// Give the thread to a staff member (the caller by default), or with
+// assigneeId null, back to the team
+router.post(
+  "/threads/:threadId/assign",
+  authenticateToken,
+  requirePermission("messaging:send"),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const thread = await loadThread(req, res);
+      if (!thread) return;
+
+      const assigneeId =
+        req.body.assigneeId === undefined ? req.user!.id : req.body.assigneeId;
+      if (assigneeId !== null) {
+        const role = await SmsInbox.staffRole(String(assigneeId));
+        if (!role || !AccessControl.hasPermission(role, "messaging:send")) {
+          return res.status(400).json({
+            error: "Threads can only be assigned to staff who send messages",
+            code: "INVALID_ASSIGNEE",
+          });
+        }
+      }
+
+      const assigned = await SmsInbox.assign(
+        thread,
+        assigneeId === null ? null : String(assigneeId),
+      );
+      AuditLogger.logEvent({
+        userId: req.user!.id,
+        action: "SMS_THREAD_ASSIGNED",
+        resourceType: "sms_thread",
+        resourceId: thread.id,
+        details: { patientId: thread.patientId, assigneeId },
+      });
+      res.json({ thread: assigned });
+    } catch (error) {
+      console.error("Assign SMS thread error:", error);
+      res.status(500).json({
+        error: "Internal server error",
+        code: "INTERNAL_ERROR",
+      });
+    }
+  },
+);
+
+// Close a conversation, or reopen it
+router.post(
+  "/threads/:threadId/status",
+  authenticateToken,
+  requirePermission("messaging:send"),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const thread = await loadThread(req, res);
+      if (!thread) return;
+
+      const { status } = req.body;
+      if (!THREAD_STATUSES.includes(status)) {
+        return res.status(400).json({
+          error: `status must be one of ${THREAD_STATUSES.join(", ")}`,
+          code: "VALIDATION_ERROR",
+        });
+      }
+
+      const updated = await SmsInbox.setStatus(thread, status);
+      AuditLogger.logEvent({
+        userId: req.user!.id,
+        action:
+          status === "closed" ? "SMS_THREAD_CLOSED" : "SMS_THREAD_REOPENED",
+        resourceType: "sms_thread",
+        resourceId: thread.id,
+        details: { patientId: thread.patientId },
+      });
+      res.json({ thread: updated });
+    } catch (error) {
+      console.error("Update SMS thread status error:", error);
+      res.status(500).json({
+        error: "Internal server error",
+        code: "INTERNAL_ERROR",
+      });
+    }
+  },
+);
+
+// Text the patient: either `body`, or a canned reply by `cannedReplyId`
+router.post(
+  "/threads/:threadId/messages",
+  authenticateToken,
+  requirePermission("messaging:send"),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const thread = await loadThread(req, res);
+      if (!thread) return;
+
+      let body = req.body.body;
+      const { cannedReplyId } = req.body;
+      if (body === undefined && cannedReplyId) {
+        const canned = await SmsInbox.getCannedReply(String(cannedReplyId));
+        if (!canned || !canned.active) {
+          return res.status(404).json({
+            error: "Canned reply not found",
+            code: "CANNED_REPLY_NOT_FOUND",
+          });
+        }
+        body = SmsInbox.fillCannedReply(canned, thread);
+      }
+      const problem = SmsInbox.validateReply(body);
+      if (problem) {
+        return res.status(400).json({
+          error: problem,
+          code: "VALIDATION_ERROR",
+        });
+      }
+
+      const result = await SmsInbox.reply(thread, req.user!.id, body);
+      AuditLogger.logCommunication(thread.patientId, "sms", "outbound", {
+        threadId: thread.id,
+        sentBy: req.user!.id,
+        cannedReplyId,
+        success: result.ok,
+      });
+
+      if (result.ok === false) {
+        if (result.reason === "no_phone") {
+          return res.status(400).json({
+            error: "Patient has no phone number",
+            code: "NO_PHONE_NUMBER",
+          });
+        }
+        return result.reason === "blocked"
+          ? res.status(409).json({
+              error: result.error,
+              code: "CONSENT_BLOCKED",
+            })
+          : res.status(502).json({
+              error: result.error || "The SMS provider did not accept it",
+              code: "SMS_SEND_FAILED",
+            });
+      }
+      res.status(201).json({ message: result.message });
+    } catch (error) {
+      console.error("Reply to SMS thread error:", error);
+      res.status(500).json({
+        error: "Internal server error",
+        code: "INTERNAL_ERROR",
+      });
+    }
+  },
+);
+
+router.get(
+  "/canned-replies",
+  authenticateToken,
+  requirePermission("messaging:send"),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      res.json({ cannedReplies: await SmsInbox.listCannedReplies() });
+    } catch (error) {
+      console.error("List canned replies error:", error);
+      res.status(500).json({
+        error: "Internal server error",
+        code: "INTERNAL_ERROR",
+      });
+    }
+  },
+);
+
+// Canned replies are shared by the whole team
+router.post(
+  "/canned-replies",
+  authenticateToken,
+  requirePermission("messaging:send"),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const problem = SmsInbox.validateCannedReply(req.body);
+      if (problem) {
+        return res.status(400).json({
+          error: problem,
+          code: "VALIDATION_ERROR",
+        });
+      }
+
+      const cannedReply = (await SmsInbox.saveCannedReply(
+        req.body,
+        req.user!.id,
+      ))!;
+      AuditLogger.logEvent({
+        userId: req.user!.id,
+        action: "CANNED_REPLY_CREATED",
+        resourceType: "sms_canned_reply",
+        resourceId: cannedReply.id,
+        details: { title: cannedReply.title },
+      });
+      res.status(201).json({ cannedReply });
+    } catch (error) {
+      console.error("Create canned reply error:", error);
+      res.status(500).json({
+        error: "Internal server error",
+        code: "INTERNAL_ERROR",
+      });
+    }
+  },
+);
+
+router.put(
+  "/canned-replies/:replyId",
+  authenticateToken,
+  requirePermission("messaging:send"),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const problem = SmsInbox.validateCannedReply(req.body);
+      if (problem) {
+        return res.status(400).json({
+          error: problem,
+          code: "VALIDATION_ERROR",
+        });
+      }
+
+      const cannedReply = await SmsInbox.saveCannedReply(
+        req.body,
+        req.user!.id,
+        req.params.replyId,
+      );
+      if (!cannedReply) {
+        return res.status(404).json({
+          error: "Canned reply not found",
+          code: "CANNED_REPLY_NOT_FOUND",
+        });
+      }
+      AuditLogger.logEvent({
+        userId: req.user!.id,
+        action: "CANNED_REPLY_UPDATED",
+        resourceType: "sms_canned_reply",
+        resourceId: cannedReply.id,
+        details: { title: cannedReply.title },
+      });
+      res.json({ cannedReply });
+    } catch (error) {
+      console.error("Update canned reply error:", error);
+      res.status(500).json({
+        error: "Internal server error",
+        code: "INTERNAL_ERROR",
+      });
+    }
+  },
+);
+
+router.delete(
+  "/canned-replies/:replyId",
+  authenticateToken,
+  requirePermission("messaging:send"),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      if (!(await SmsInbox.retireCannedReply(req.params.replyId))) {
+        return res.status(404).json({
+          error: "Canned reply not found",
+          code: "CANNED_REPLY_NOT_FOUND",
+        });
+      }
+      AuditLogger.logEvent({
+        userId: req.user!.id,
+        action: "CANNED_REPLY_RETIRED",
+        resourceType: "sms_canned_reply",
+        resourceId: req.params.replyId,
+      });
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Retire canned reply error:", error);
+      res.status(500).json({
+        error: "Internal server error",
+        code: "INTERNAL_ERROR",
+      });
+    }
+  },
+);
+
+export default router;
@@ -1,11 +1,15 @@
-import { RequestHandler } from "express";
+import { Response } from "express";
+import { AuthenticatedRequest, ensurePatientAccess } from "../middleware/auth";
 import { db } from "../utils/databaseAdapter";
 import { ApiResponse, HealthInsight } from "@shared/types";
 
 // Get health insights for a user
-export const getHealthInsights: RequestHandler = async (req, res) => {
+export const getHealthInsights = async (
+  req: AuthenticatedRequest,
+  res: Response,
+) => {
   try {
-    const userId = req.params.userId || "user-1";
+    const userId = req.patientId!;
     const insights = db.getHealthInsights(userId);
 
     const response: ApiResponse<HealthInsight[]> = {
@@ -24,22 +28,35 @@ export const getHealthInsights: RequestHandler = async (req, res) => {
 };
 
 // Dismiss a health insight
-export const dismissInsight: RequestHandler = async (req, res) => {
+export const dismissInsight = async (
+  req: AuthenticatedRequest,
+  res: Response,
+) => {
   try {
     const insightId = req.params.id;
-    const success = db.dismissHealthInsight(insightId);
+    const [insight] = await db.query(
+      "SELECT user_id FROM health_insights WHERE id = $1",
+      [insightId],
+    );
 
-    if (success) {
-      res.json({
-        success: true,
-        message: "Insight dismissed successfully",
-      });
-    } else {
-      res.status(404).json({
+    if (!insight) {
+      return res.status(404).json({
         success: false,
         error: "Insight not found",
       });
     }
+
+    if (
+      !(await ensurePatientAccess(req, res, "insights:write", insight.user_id))
+    ) {
+      return;
+    }
+
+    await db.dismissHealthInsight(insightId);
+    res.json({
+      success: true,
+      message: "Insight dismissed successfully",
+    });
   } catch (error) {
     console.error("Error dismissing insight:", error);
     res.status(500).json({
@@ -50,9 +67,12 @@ export const dismissInsight: RequestHandler = async (req, res) => {
 };
 
 // Generate new insights based on current data
-export const generateInsights: RequestHandler = async (req, res) => {
+export const generateInsights = async (
+  req: AuthenticatedRequest,
+  res: Response,
+) => {
   try {
-    const userId = req.params.userId || "user-1";
+    const userId = req.patientId!;
 
     // Get user's current data
     const labResults = db.getLabResults(userId);
@@ -5,7 +5,13 @@ import {
   validateUserId,
   validatePagination,
 } from "../middleware/validation";
-import { authenticateToken, AuthenticatedRequest } from "../middleware/auth";
+import {
+  authenticateToken,
+  authorizePatient,
+  ensurePatientAccess,
+  AuthenticatedRequest,
+} from "../middleware/auth";
+import { TerminologyService } from "../utils/terminology";
 import multer from "multer";
 
 const router = Router();
@@ -34,22 +40,15 @@ const upload = multer({
 router.get(
   "/reports/:userId?",
   authenticateToken,
+  authorizePatient("labs:read"),
   validatePagination,
   async (req: AuthenticatedRequest, res: Response) => {
     try {
-      const userId = req.params.userId || req.user!.id;
+      const userId = req.patientId!;
       const page = parseInt(req.query.page as string) || 1;
       const limit = parseInt(req.query.limit as string) || 20;
       const offset = (page - 1) * limit;
 
-      // Check if user has permission to access this data
-      if (req.user!.role !== "admin" && req.user!.id !== userId) {
-        return res.status(403).json({
-          error: "Insufficient permissions",
-          code: "INSUFFICIENT_PERMISSIONS",
-        });
-      }
-
       const query = `
       SELECT id, user_id, file_name, file_size, file_url, upload_date, 
              analysis_status, ai_summary, confidence, created_at, updated_at
@@ -130,12 +129,8 @@ router.get(
 
       const report = result.rows[0];
 
-      // Check if user has permission to access this report
-      if (req.user!.role !== "admin" && req.user!.id !== report.user_id) {
-        return res.status(403).json({
-          error: "Insufficient permissions",
-          code: "INSUFFICIENT_PERMISSIONS",
-        });
+      if (!(await ensurePatientAccess(req, res, "labs:read", report.user_id))) {
+        return;
       }
 
       res.json({
@@ -267,17 +262,13 @@ router.get(
 
       const report = reportResult.rows[0];
 
-      // Check if user has permission to access this report
-      if (req.user!.role !== "admin" && req.user!.id !== report.user_id) {
-        return res.status(403).json({
-          error: "Insufficient permissions",
-          code: "INSUFFICIENT_PERMISSIONS",
-        });
+      if (!(await ensurePatientAccess(req, res, "labs:read", report.user_id))) {
+        return;
       }
 
       // Get lab results
       const results = await dbPool.query(
-        `SELECT id, lab_report_id, test_name, value, unit, reference_range, 
+        `SELECT id, lab_report_id, test_name, loinc_code, value, unit, reference_range, 
               status, test_date, lab_name, doctor_notes, created_at
        FROM lab_results 
        WHERE lab_report_id = $1
@@ -290,6 +281,7 @@ router.get(
           id: result.id,
           labReportId: result.lab_report_id,
           testName: result.test_name,
+          loincCode: result.loinc_code,
           value: result.value,
           unit: result.unit,
           referenceRange: result.reference_range,
@@ -358,22 +350,24 @@ router.post(
 
       const report = reportResult.rows[0];
 
-      // Check if user has permission
-      if (req.user!.role !== "admin" && req.user!.id !== report.user_id) {
-        return res.status(403).json({
-          error: "Insufficient permissions",
-          code: "INSUFFICIENT_PERMISSIONS",
-        });
+      if (
+        !(await ensurePatientAccess(req, res, "labs:write", report.user_id))
+      ) {
+        return;
       }
 
+      // Code the test; unmapped names are stored without a LOINC code
+      const terminology = TerminologyService.resolveLabTest(testName, unit);
+
       // Add lab result
       const result = await dbPool.query(
-        `INSERT INTO lab_results (lab_report_id, test_name, value, unit, reference_range, status, test_date, lab_name, doctor_notes)
-       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
-       RETURNING id, lab_report_id, test_name, value, unit, reference_range, status, test_date, lab_name, doctor_notes, created_at`,
+        `INSERT INTO lab_results (lab_report_id, test_name, loinc_code, value, unit, reference_range, status, test_date, lab_name, doctor_notes)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+       RETURNING id, lab_report_id, test_name, loinc_code, value, unit, reference_range, status, test_date, lab_name, doctor_notes, created_at`,
         [
           labReportId,
           testName,
+          terminology.match?.code || null,
           value,
           unit,
           referenceRange,
@@ -392,6 +386,7 @@ router.post(
           id: labResult.id,
           labReportId: labResult.lab_report_id,
           testName: labResult.test_name,
+          loincCode: labResult.loinc_code,
           value: labResult.value,
           unit: labResult.unit,
           referenceRange: labResult.reference_range,
@@ -401,6 +396,13 @@ router.post(
           doctorNotes: labResult.doctor_notes,
           createdAt: labResult.created_at,
         },
+        terminology: {
+          mapped: terminology.mapped,
+          confidence: terminology.match?.confidence,
+          display: terminology.match?.display,
+          candidates: terminology.mapped ? undefined : terminology.candidates,
+          warnings: terminology.warnings,
+        },
       });
     } catch (error) {
       console.error("Add lab result error:", error);
@@ -435,12 +437,10 @@ router.delete(
 
       const report = reportResult.rows[0];
 
-      // Check if user has permission
-      if (req.user!.role !== "admin" && req.user!.id !== report.user_id) {
-        return res.status(403).json({
-          error: "Insufficient permissions",
-          code: "INSUFFICIENT_PERMISSIONS",
-        });
+      if (
+        !(await ensurePatientAccess(req, res, "labs:write", report.user_id))
+      ) {
+        return;
       }
 
       // Delete lab results first (due to foreign key constraint)
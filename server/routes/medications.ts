@@ -5,7 +5,12 @@ import {
   validateUserId,
   validatePagination,
 } from "../middleware/validation";
-import { authenticateToken, AuthenticatedRequest } from "../middleware/auth";
+import {
+  authenticateToken,
+  authorizePatient,
+  ensurePatientAccess,
+  AuthenticatedRequest,
+} from "../middleware/auth";
 
 const router = Router();
 
@@ -13,22 +18,15 @@ const router = Router();
 router.get(
   "/:userId?",
   authenticateToken,
+  authorizePatient("medications:read"),
   validatePagination,
   async (req: AuthenticatedRequest, res: Response) => {
     try {
-      const userId = req.params.userId || req.user!.id;
+      const userId = req.patientId!;
       const page = parseInt(req.query.page as string) || 1;
       const limit = parseInt(req.query.limit as string) || 20;
       const offset = (page - 1) * limit;
 
-      // Check if user has permission to access this data
-      if (req.user!.role !== "admin" && req.user!.id !== userId) {
-        return res.status(403).json({
-          error: "Insufficient permissions",
-          code: "INSUFFICIENT_PERMISSIONS",
-        });
-      }
-
       const query = `
       SELECT id, user_id, name, dosage, frequency, start_date, end_date, 
              prescribed_by, instructions, side_effects, interactions, is_active, 
@@ -114,12 +112,15 @@ router.get(
 
       const medication = result.rows[0];
 
-      // Check if user has permission to access this medication
-      if (req.user!.role !== "admin" && req.user!.id !== medication.user_id) {
-        return res.status(403).json({
-          error: "Insufficient permissions",
-          code: "INSUFFICIENT_PERMISSIONS",
-        });
+      if (
+        !(await ensurePatientAccess(
+          req,
+          res,
+          "medications:read",
+          medication.user_id,
+        ))
+      ) {
+        return;
       }
 
       res.json({
@@ -150,14 +151,15 @@ router.get(
   },
 );
 
-// Add medication
+// Add medication (for the caller, or for body.userId when prescribing)
 router.post(
   "/",
   authenticateToken,
   validateCreateMedication,
+  authorizePatient("medications:write", (req) => req.body.userId),
   async (req: AuthenticatedRequest, res: Response) => {
     try {
-      const userId = req.user!.id;
+      const userId = req.patientId!;
       const {
         name,
         dosage,
@@ -286,12 +288,15 @@ router.put(
 
       const medication = existingMedication.rows[0];
 
-      // Check if user has permission
-      if (req.user!.role !== "admin" && req.user!.id !== medication.user_id) {
-        return res.status(403).json({
-          error: "Insufficient permissions",
-          code: "INSUFFICIENT_PERMISSIONS",
-        });
+      if (
+        !(await ensurePatientAccess(
+          req,
+          res,
+          "medications:write",
+          medication.user_id,
+        ))
+      ) {
+        return;
       }
 
       // Update medication
@@ -376,12 +381,15 @@ router.delete(
 
       const medication = existingMedication.rows[0];
 
-      // Check if user has permission
-      if (req.user!.role !== "admin" && req.user!.id !== medication.user_id) {
-        return res.status(403).json({
-          error: "Insufficient permissions",
-          code: "INSUFFICIENT_PERMISSIONS",
-        });
+      if (
+        !(await ensurePatientAccess(
+          req,
+          res,
+          "medications:write",
+          medication.user_id,
+        ))
+      ) {
+        return;
       }
 
       // Soft delete - set is_active to false
@@ -407,17 +415,10 @@ router.delete(
 router.get(
   "/interactions/:userId?",
   authenticateToken,
+  authorizePatient("medications:read"),
   async (req: AuthenticatedRequest, res: Response) => {
     try {
-      const userId = req.params.userId || req.user!.id;
-
-      // Check if user has permission to access this data
-      if (req.user!.role !== "admin" && req.user!.id !== userId) {
-        return res.status(403).json({
-          error: "Insufficient permissions",
-          code: "INSUFFICIENT_PERMISSIONS",
-        });
-      }
+      const userId = req.patientId!;
 
       // Get all active medications for the user
       const medications = await dbPool.query(
@@ -8,7 +8,15 @@ import { TelnyxService } from "../utils/telnyxService";
 import { TwilioService } from "../utils/twilioService";
 import { ScheduledMessagingService } from "../utils/scheduledMessaging";
 import { CareTeamService } from "../utils/careTeamService";
+import { AuthenticatedRequest } from "../middleware/auth";
 import { AuditLogger } from "../utils/auditLogger";
+import {
+  MESSAGE_LOCALES,
+  MESSAGE_TEMPLATES,
+  MessageTemplates,
+  TEMPLATE_CHANNELS,
+  TemplateChannel,
+} from "../utils/messageTemplates";
 
 const messagingService = new MessagingService();
 const scheduledMessagingService = new ScheduledMessagingService();
@@ -380,56 +388,58 @@ export async function updatePatientSchedule(req: Request, res: Response) {
   }
 }
 
-// Get message templates
+// Get the template catalog: each template's text per channel and locale.
+// With ?locale=, also the text each channel is sent with in that locale.
 export async function getMessageTemplates(req: Request, res: Response) {
   try {
-    const templates = await db.query(
-      "SELECT * FROM message_templates ORDER BY type, name",
-    );
+    const locale = req.query.locale as string | undefined;
+    if (locale && !MessageTemplates.normalizeLocale(locale)) {
+      return res.status(400).json({
+        success: false,
+        error: `locale must be one of ${Object.keys(MESSAGE_LOCALES).join(", ")}`,
+      });
+    }
 
-    const defaultTemplates = [
-      {
-        id: "med_reminder",
-        type: "medication_reminder",
-        name: "Medication Reminder",
-        content:
-          "Reminder: It's time to take your {{medication}} ({{dosage}}). {{instructions}}",
-        variables: ["medication", "dosage", "instructions"],
-        isDefault: true,
-      },
-      {
-        id: "glucose_check",
-        type: "glucose_check",
-        name: "Glucose Check Reminder",
-        content:
-          "Time for your glucose check! Please test your blood sugar and log the results.",
-        variables: [],
-        isDefault: true,
+    const translations = await MessageTemplates.listTranslations();
+    const templates = Object.entries(MESSAGE_TEMPLATES).map(
+      ([id, definition]) => {
+        const channels = TEMPLATE_CHANNELS.filter(
+          (channel) => definition.channels[channel],
+        );
+        return {
+          id,
+          name: definition.name,
+          audience: definition.audience,
+          variables: definition.variables,
+          channels: Object.fromEntries(
+            channels.map((channel) => [
+              channel,
+              {
+                default: definition.channels[channel],
+                translations: translations.filter(
+                  (translation) =>
+                    translation.templateId === id &&
+                    translation.channel === channel,
+                ),
+                ...(locale && {
+                  resolved: MessageTemplates.resolve(
+                    id,
+                    channel,
+                    locale,
+                    translations,
+                  ),
+                }),
+              },
+            ]),
+          ),
+        };
       },
-      {
-        id: "appointment_24h",
-        type: "appointment_reminder",
-        name: "Appointment Reminder (24h)",
-        content:
-          "Reminder: You have an appointment with {{provider}} tomorrow at {{time}}.",
-        variables: ["provider", "time"],
-        isDefault: true,
-      },
-      {
-        id: "critical_alert",
-        type: "critical_alert",
-        name: "Critical Alert",
-        content:
-          "URGENT: Patient {{patient_name}} requires immediate attention. {{alert_reason}}",
-        variables: ["patient_name", "alert_reason"],
-        isDefault: true,
-      },
-    ];
+    );
 
     res.json({
       success: true,
-      templates:
-        templates && templates.length > 0 ? templates : defaultTemplates,
+      locales: MESSAGE_LOCALES,
+      templates,
     });
   } catch (error) {
     console.error("Error fetching message templates:", error);
@@ -440,48 +450,66 @@ export async function getMessageTemplates(req: Request, res: Response) {
   }
 }
 
-// Update message template
-export async function updateMessageTemplate(req: Request, res: Response) {
+// Save a template's text for one channel and locale
+export async function updateMessageTemplate(
+  req: AuthenticatedRequest,
+  res: Response,
+) {
   try {
     const { templateId } = req.params;
-    const { name, content, variables, type } = req.body;
-    const userId = req.user?.id || "admin";
+    const { channel, locale, content } = req.body;
+    const userId = req.user?.id;
 
-    if (!name || !content || !type) {
+    const definition = MESSAGE_TEMPLATES[templateId];
+    if (!definition) {
+      return res.status(404).json({
+        success: false,
+        error: "Message template not found",
+      });
+    }
+    if (!definition.channels[channel as TemplateChannel]) {
       return res.status(400).json({
         success: false,
-        error: "Name, content, and type are required",
+        error: `channel must be one of ${TEMPLATE_CHANNELS.filter(
+          (name) => definition.channels[name],
+        ).join(", ")}`,
       });
     }
+    const normalized = MessageTemplates.normalizeLocale(locale);
+    if (!normalized) {
+      return res.status(400).json({
+        success: false,
+        error: `locale must be one of ${Object.keys(MESSAGE_LOCALES).join(", ")}, optionally with a region such as fr-CI`,
+      });
+    }
+    const problem = MessageTemplates.validateContent(templateId, content);
+    if (problem) {
+      return res.status(400).json({ success: false, error: problem });
+    }
 
-    await db.query(
-      `INSERT OR REPLACE INTO message_templates 
-       (id, type, name, content, variables, updated_by, updated_at)
-       VALUES (?, ?, ?, ?, ?, ?, datetime('now'))`,
-      [
-        templateId,
-        type,
-        name,
-        content,
-        JSON.stringify(variables || []),
-        userId,
-      ],
-    );
+    const translation = await MessageTemplates.saveTranslation({
+      templateId,
+      channel,
+      locale: normalized,
+      content,
+      updatedBy: userId,
+    });
 
     AuditLogger.log(
-      userId,
+      userId || "admin",
       "template_update",
-      `Updated message template: ${name}`,
+      `Updated message template: ${templateId} (${channel}, ${normalized})`,
       {
         templateId,
-        type,
-        variables: variables || [],
+        channel,
+        locale: normalized,
       },
     );
 
     res.json({
       success: true,
       message: "Message template updated successfully",
+      translation,
     });
   } catch (error) {
     console.error("Error updating message template:", error);
@@ -492,6 +520,67 @@ export async function updateMessageTemplate(req: Request, res: Response) {
   }
 }
 
+// Remove a saved text; that locale falls back to the next one in its chain
+export async function deleteMessageTemplate(
+  req: AuthenticatedRequest,
+  res: Response,
+) {
+  try {
+    const { templateId, channel } = req.params;
+    const locale = MessageTemplates.normalizeLocale(req.params.locale);
+    const userId = req.user?.id || "admin";
+
+    const deleted =
+      !!locale &&
+      (await MessageTemplates.deleteTranslation(
+        templateId,
+        channel as TemplateChannel,
+        locale,
+      ));
+    if (!deleted) {
+      return res.status(404).json({
+        success: false,
+        error: "No saved text for this template, channel and locale",
+      });
+    }
+
+    AuditLogger.log(
+      userId,
+      "template_update",
+      `Removed message template text: ${templateId} (${channel}, ${locale})`,
+      { templateId, channel, locale },
+    );
+
+    res.json({
+      success: true,
+      message: "Message template text removed",
+    });
+  } catch (error) {
+    console.error("Error removing message template:", error);
+    res.status(500).json({
+      success: false,
+      error: "Failed to remove message template",
+    });
+  }
+}
+
+// Template texts not yet translated, per language
+export async function getMissingTranslations(req: Request, res: Response) {
+  try {
+    const translations = await MessageTemplates.listTranslations();
+    res.json({
+      success: true,
+      report: MessageTemplates.missingTranslations(translations),
+    });
+  } catch (error) {
+    console.error("Error building missing translation report:", error);
+    res.status(500).json({
+      success: false,
+      error: "Failed to build missing translation report",
+    });
+  }
+}
+
 // Get care team configuration
 export async function getCareTeamConfig(req: Request, res: Response) {
   try {
@@ -71,6 +71,21 @@ export async function sendMessage(req: Request, res: Response) {
         messageId: result.messageId,
         provider: result.provider,
         deliveryStatus: result.deliveryStatus,
+        consent: result.consent,
+      });
+    } else if (result.consent?.action === "defer") {
+      // Queued until the recipient's quiet hours end
+      res.status(202).json({
+        success: true,
+        deliveryStatus: result.deliveryStatus,
+        consent: result.consent,
+      });
+    } else if (result.consent?.action === "block") {
+      res.status(409).json({
+        success: false,
+        error: result.error,
+        code: "CONSENT_BLOCKED",
+        reason: result.consent.reason,
       });
     } else {
       res.status(500).json({
@@ -0,0 +1,452 @@
+import { Router, Request, Response, NextFunction } from "express";
+import bcrypt from "bcryptjs";
+import { dbPool } from "../config/database";
+import { authenticateToken, AuthenticatedRequest } from "../middleware/auth";
+import { AuditLogger } from "../utils/auditLogger";
+import { AuthTokenService } from "../utils/authTokens";
+import {
+  MfaService,
+  MfaVerificationMethod,
+  MAX_FAILED_ATTEMPTS,
+  LOCKOUT_MINUTES,
+} from "../utils/mfa";
+
+const router = Router();
+
+const VERIFICATION_METHODS: MfaVerificationMethod[] = [
+  "totp",
+  "sms",
+  "recovery_code",
+];
+
+interface MfaSetupRequest extends AuthenticatedRequest {
+  // Set when enrolling mid-login with an enrollment token
+  enrollingAtLogin?: boolean;
+}
+
+const findUser = async (userId: string) => {
+  const result = await dbPool.query(
+    "SELECT id, email, password_hash, first_name, last_name, role, phone, is_active FROM users WHERE id = $1",
+    [userId],
+  );
+  return result.rows[0] || null;
+};
+
+// Enrollment is reachable with a session or with the enrollment token
+// returned by /login for roles that must set up MFA before signing in
+const authenticateMfaSetup = async (
+  req: MfaSetupRequest,
+  res: Response,
+  next: NextFunction,
+) => {
+  if (!req.body?.mfaToken) {
+    return authenticateToken(req, res, next);
+  }
+
+  const userId = AuthTokenService.verifyMfaToken(
+    req.body.mfaToken,
+    "mfa_enrollment",
+  );
+  const user = userId ? await findUser(userId) : null;
+  if (!user || !user.is_active) {
+    return res.status(401).json({
+      error: "Invalid or expired MFA token",
+      code: "MFA_TOKEN_INVALID",
+    });
+  }
+
+  req.user = { id: user.id, email: user.email, role: user.role };
+  req.enrollingAtLogin = true;
+  next();
+};
+
+// Issue recovery codes after enrollment and, mid-login, the session
+const finishEnrollment = async (
+  req: MfaSetupRequest,
+  res: Response,
+  method: "totp" | "sms",
+) => {
+  const recoveryCodes = await MfaService.generateRecoveryCodes(req.user!.id);
+  AuditLogger.logAuthentication(req.user!.id, "MFA_ENROLLED", { method });
+
+  const session = req.enrollingAtLogin
+    ? await AuthTokenService.completeLogin(await findUser(req.user!.id), {
+        mfa: method,
+      })
+    : {};
+
+  res.json({
+    message: "Multi-factor authentication enabled",
+    method,
+    recoveryCodes,
+    ...session,
+  });
+};
+
+const checkPassword = async (userId: string, password: unknown) => {
+  if (typeof password !== "string") return false;
+  const user = await findUser(userId);
+  return Boolean(user) && bcrypt.compare(password, user.password_hash);
+};
+
+// Complete a login with a second factor
+router.post("/verify", async (req: Request, res: Response) => {
+  try {
+    const { mfaToken, method, code, rememberDevice } = req.body;
+
+    if (!VERIFICATION_METHODS.includes(method) || typeof code !== "string") {
+      return res.status(400).json({
+        error: `method (${VERIFICATION_METHODS.join(", ")}) and code are required`,
+        code: "VALIDATION_ERROR",
+      });
+    }
+
+    const userId = mfaToken
+      ? AuthTokenService.verifyMfaToken(mfaToken, "mfa_challenge")
+      : null;
+    const user = userId ? await findUser(userId) : null;
+    if (!user || !user.is_active) {
+      return res.status(401).json({
+        error: "Invalid or expired MFA token",
+        code: "MFA_TOKEN_INVALID",
+      });
+    }
+
+    if (await MfaService.isLockedOut(user.id)) {
+      AuditLogger.logAuthentication(user.id, "MFA_LOCKED", { method });
+      return res.status(429).json({
+        error: `Too many failed codes. Try again in ${LOCKOUT_MINUTES} minutes.`,
+        code: "MFA_LOCKED",
+      });
+    }
+
+    if (!(await MfaService.verify(user.id, method, code.trim()))) {
+      const failures = await MfaService.recordFailedAttempt(user.id);
+      AuditLogger.logAuthentication(user.id, "MFA_FAILED", {
+        method,
+        failures,
+      });
+      return res.status(401).json({
+        error: "Invalid verification code",
+        code: "MFA_CODE_INVALID",
+        attemptsRemaining: Math.max(MAX_FAILED_ATTEMPTS - failures, 0),
+      });
+    }
+
+    await MfaService.clearFailedAttempts(user.id);
+    AuditLogger.logAuthentication(user.id, "MFA_VERIFIED", { method });
+
+    let deviceToken: string | undefined;
+    if (rememberDevice) {
+      deviceToken = await MfaService.trustDevice(
+        user.id,
+        req.headers["user-agent"],
+      );
+      AuditLogger.logAuthentication(user.id, "MFA_DEVICE_TRUSTED", {
+        userAgent: req.headers["user-agent"],
+      });
+    }
+
+    res.json({
+      message: "Login successful",
+      ...(await AuthTokenService.completeLogin(user, { mfa: method })),
+      deviceToken,
+    });
+  } catch (error) {
+    console.error("MFA verification error:", error);
+    res.status(500).json({
+      error: "Internal server error",
+      code: "INTERNAL_ERROR",
+    });
+  }
+});
+
+// Send a new SMS code for a pending login
+router.post("/sms/send", async (req: Request, res: Response) => {
+  try {
+    const userId = req.body.mfaToken
+      ? AuthTokenService.verifyMfaToken(req.body.mfaToken, "mfa_challenge")
+      : null;
+    const user = userId ? await findUser(userId) : null;
+    if (!user) {
+      return res.status(401).json({
+        error: "Invalid or expired MFA token",
+        code: "MFA_TOKEN_INVALID",
+      });
+    }
+
+    const status = await MfaService.getStatus(user.id, user.role);
+    if (status.method !== "sms" || !user.phone) {
+      return res.status(400).json({
+        error: "SMS verification is not set up for this account",
+        code: "MFA_SMS_UNAVAILABLE",
+      });
+    }
+
+    const sent = await MfaService.sendSmsCode(user.id, user.phone);
+    res.status(sent ? 200 : 502).json(
+      sent
+        ? { message: "Verification code sent" }
+        : {
+            error: "Verification code could not be sent",
+            code: "MFA_SMS_FAILED",
+          },
+    );
+  } catch (error) {
+    console.error("MFA SMS send error:", error);
+    res.status(500).json({
+      error: "Internal server error",
+      code: "INTERNAL_ERROR",
+    });
+  }
+});
+
+// Current MFA settings
+router.get(
+  "/status",
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      res.json({
+        mfa: await MfaService.getStatus(req.user!.id, req.user!.role),
+      });
+    } catch (error) {
+      console.error("MFA status error:", error);
+      res.status(500).json({
+        error: "Internal server error",
+        code: "INTERNAL_ERROR",
+      });
+    }
+  },
+);
+
+// Start TOTP enrollment: returns the secret and a QR code to scan
+router.post(
+  "/totp/setup",
+  authenticateMfaSetup,
+  async (req: MfaSetupRequest, res: Response) => {
+    try {
+      const enrollment = await MfaService.beginTotpEnrollment(
+        req.user!.id,
+        req.user!.email,
+      );
+      res.json({ enrollment });
+    } catch (error) {
+      console.error("TOTP setup error:", error);
+      res.status(500).json({
+        error: "Internal server error",
+        code: "INTERNAL_ERROR",
+      });
+    }
+  },
+);
+
+router.post(
+  "/totp/confirm",
+  authenticateMfaSetup,
+  async (req: MfaSetupRequest, res: Response) => {
+    try {
+      const { code } = req.body;
+      if (
+        typeof code !== "string" ||
+        !(await MfaService.confirmTotpEnrollment(req.user!.id, code.trim()))
+      ) {
+        return res.status(400).json({
+          error: "Invalid verification code",
+          code: "MFA_CODE_INVALID",
+        });
+      }
+
+      await finishEnrollment(req, res, "totp");
+    } catch (error) {
+      console.error("TOTP confirm error:", error);
+      res.status(500).json({
+        error: "Internal server error",
+        code: "INTERNAL_ERROR",
+      });
+    }
+  },
+);
+
+// Start SMS enrollment: texts a code to the phone number on the profile
+router.post(
+  "/sms/setup",
+  authenticateMfaSetup,
+  async (req: MfaSetupRequest, res: Response) => {
+    try {
+      const user = await findUser(req.user!.id);
+      if (!user?.phone) {
+        return res.status(400).json({
+          error: "Add a phone number to your profile first",
+          code: "PHONE_REQUIRED",
+        });
+      }
+
+      const sent = await MfaService.sendSmsCode(user.id, user.phone);
+      if (!sent) {
+        return res.status(502).json({
+          error: "Verification code could not be sent",
+          code: "MFA_SMS_FAILED",
+        });
+      }
+
+      res.json({ message: "Verification code sent" });
+    } catch (error) {
+      console.error("SMS MFA setup error:", error);
+      res.status(500).json({
+        error: "Internal server error",
+        code: "INTERNAL_ERROR",
+      });
+    }
+  },
+);
+
+router.post(
+  "/sms/confirm",
+  authenticateMfaSetup,
+  async (req: MfaSetupRequest, res: Response) => {
+    try {
+      const { code } = req.body;
+      if (
+        typeof code !== "string" ||
+        !(await MfaService.verifySmsCode(req.user!.id, code.trim()))
+      ) {
+        return res.status(400).json({
+          error: "Invalid verification code",
+          code: "MFA_CODE_INVALID",
+        });
+      }
+
+      await MfaService.enableSms(req.user!.id);
+      await finishEnrollment(req, res, "sms");
+    } catch (error) {
+      console.error("SMS MFA confirm error:", error);
+      res.status(500).json({
+        error: "Internal server error",
+        code: "INTERNAL_ERROR",
+      });
+    }
+  },
+);
+
+// Replace recovery codes (requires the password)
+router.post(
+  "/recovery-codes",
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user!.id;
+      if (!(await checkPassword(userId, req.body.password))) {
+        return res.status(401).json({
+          error: "Invalid credentials",
+          code: "INVALID_CREDENTIALS",
+        });
+      }
+
+      const status = await MfaService.getStatus(userId, req.user!.role);
+      if (!status.enabled) {
+        return res.status(400).json({
+          error: "Multi-factor authentication is not enabled",
+          code: "MFA_NOT_ENABLED",
+        });
+      }
+
+      const recoveryCodes = await MfaService.generateRecoveryCodes(userId);
+      AuditLogger.logAuthentication(userId, "MFA_RECOVERY_CODES_REGENERATED");
+
+      res.json({ recoveryCodes });
+    } catch (error) {
+      console.error("Recovery code error:", error);
+      res.status(500).json({
+        error: "Internal server error",
+        code: "INTERNAL_ERROR",
+      });
+    }
+  },
+);
+
+// Turn MFA off (requires the password; not allowed for required roles)
+router.delete(
+  "/",
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { id: userId, role } = req.user!;
+
+      if (MfaService.isRequiredForRole(role)) {
+        return res.status(403).json({
+          error: "Multi-factor authentication is required for your role",
+          code: "MFA_REQUIRED",
+        });
+      }
+      if (!(await checkPassword(userId, req.body.password))) {
+        return res.status(401).json({
+          error: "Invalid credentials",
+          code: "INVALID_CREDENTIALS",
+        });
+      }
+
+      await MfaService.disable(userId);
+      AuditLogger.logAuthentication(userId, "MFA_DISABLED");
+
+      res.json({ message: "Multi-factor authentication disabled" });
+    } catch (error) {
+      console.error("MFA disable error:", error);
+      res.status(500).json({
+        error: "Internal server error",
+        code: "INTERNAL_ERROR",
+      });
+    }
+  },
+);
+
+// Remembered devices
+router.get(
+  "/devices",
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      res.json({
+        devices: await MfaService.listTrustedDevices(req.user!.id),
+      });
+    } catch (error) {
+      console.error("Trusted device list error:", error);
+      res.status(500).json({
+        error: "Internal server error",
+        code: "INTERNAL_ERROR",
+      });
+    }
+  },
+);
+
+router.delete(
+  "/devices/:deviceId",
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const removed = await MfaService.revokeTrustedDevice(
+        req.user!.id,
+        req.params.deviceId,
+      );
+      if (!removed) {
+        return res.status(404).json({
+          error: "Device not found",
+          code: "DEVICE_NOT_FOUND",
+        });
+      }
+
+      AuditLogger.logAuthentication(req.user!.id, "MFA_DEVICE_REVOKED", {
+        deviceId: req.params.deviceId,
+      });
+      res.json({ message: "Device removed" });
+    } catch (error) {
+      console.error("Trusted device revoke error:", error);
+      res.status(500).json({
+        error: "Internal server error",
+        code: "INTERNAL_ERROR",
+      });
+    }
+  },
+);
+
+export default router;
@@ -4,12 +4,26 @@ import {
   PatientStats,
 } from "../services/patient.service.simple";
 import { UpdatePatientRequest } from "../services/patient.service";
-import { authenticateToken } from "../middleware/auth";
+import {
+  AuthenticatedRequest,
+  authenticateToken,
+  ensurePatientAccess,
+  requireRole,
+} from "../middleware/auth";
 import { handleValidationErrors } from "../middleware/validation";
 import { body, param, query, validationResult } from "express-validator";
+import { AuditLogger } from "../utils/auditLogger";
+import { AccessControl, ROLE_SCOPE, Role } from "../utils/accessControl";
 
 const router = express.Router();
 
+// Clinical staff only list, search and count the patients on their care
+// teams; admins see everyone
+const scopedPatientIds = async (req: AuthenticatedRequest) =>
+  ROLE_SCOPE[req.user!.role as Role] === "all"
+    ? undefined
+    : AccessControl.getCareTeamPatientIds(req.user!.id);
+
 // Validation rules
 const createPatientValidation = [
   body("firstName").notEmpty().trim().isLength({ min: 1, max: 50 }),
@@ -67,39 +81,20 @@ const searchValidation = [
   query("lastAppointmentBefore").optional().isISO8601().toDate(),
 ];
 
-// Authorization helper
-const requireRole = (roles: string[]) => {
-  return (req: any, res: any, next: any) => {
-    if (!req.user || !roles.includes(req.user.role)) {
-      return res.status(403).json({
-        error: "Insufficient permissions",
-        requiredRoles: roles,
-      });
-    }
-    next();
-  };
-};
-
 /**
  * @route GET /api/patients/stats
  * @desc Get patient statistics
- * @access Admin, Doctor, Nurse (or public in development)
+ * @access Admin, Doctor and Nurse (care team patients only)
  */
 router.get(
   "/stats",
-  // In development, allow unauthenticated access for demo purposes
-  process.env.NODE_ENV === "production"
-    ? authenticateToken
-    : (req: any, res: any, next: any) => {
-        req.user = req.user || { id: "demo", role: "admin" };
-        next();
-      },
-  process.env.NODE_ENV === "production"
-    ? requireRole(["admin", "doctor", "nurse"])
-    : (req: any, res: any, next: any) => next(),
+  authenticateToken,
+  requireRole(["admin", "doctor", "nurse"]),
   async (req, res) => {
     try {
-      const stats = await SimplePatientService.getPatientStats();
+      const stats = await SimplePatientService.getPatientStats(
+        await scopedPatientIds(req),
+      );
       res.json({
         success: true,
         data: stats,
@@ -117,20 +112,12 @@ router.get(
 /**
  * @route GET /api/patients/search
  * @desc Search patients with filters and pagination
- * @access Admin, Doctor, Nurse (or public in development)
+ * @access Admin, Doctor and Nurse (care team patients only)
  */
 router.get(
   "/search",
-  // In development, allow unauthenticated access for demo purposes
-  process.env.NODE_ENV === "production"
-    ? authenticateToken
-    : (req: any, res: any, next: any) => {
-        req.user = req.user || { id: "demo", role: "admin" };
-        next();
-      },
-  process.env.NODE_ENV === "production"
-    ? requireRole(["admin", "doctor", "nurse"])
-    : (req: any, res: any, next: any) => next(),
+  authenticateToken,
+  requireRole(["admin", "doctor", "nurse"]),
   searchValidation,
   handleValidationErrors,
   async (req, res) => {
@@ -157,6 +144,7 @@ router.get(
         providerId: providerId as string,
         lastAppointmentAfter: lastAppointmentAfter as string,
         lastAppointmentBefore: lastAppointmentBefore as string,
+        patientIds: await scopedPatientIds(req),
       };
 
       const result = await SimplePatientService.searchPatients(
@@ -182,20 +170,12 @@ router.get(
 /**
  * @route GET /api/patients
  * @desc Get all patients (paginated)
- * @access Admin, Doctor, Nurse (or public in development)
+ * @access Admin, Doctor and Nurse (care team patients only)
  */
 router.get(
   "/",
-  // In development, allow unauthenticated access for demo purposes
-  process.env.NODE_ENV === "production"
-    ? authenticateToken
-    : (req: any, res: any, next: any) => {
-        req.user = req.user || { id: "demo", role: "admin" };
-        next();
-      },
-  process.env.NODE_ENV === "production"
-    ? requireRole(["admin", "doctor", "nurse"])
-    : (req: any, res: any, next: any) => next(),
+  authenticateToken,
+  requireRole(["admin", "doctor", "nurse"]),
   searchValidation,
   handleValidationErrors,
   async (req, res) => {
@@ -204,6 +184,7 @@ router.get(
 
       const filters = {
         status: status as any,
+        patientIds: await scopedPatientIds(req),
       };
 
       const result = await SimplePatientService.searchPatients(
@@ -229,20 +210,12 @@ router.get(
 /**
  * @route POST /api/patients
  * @desc Create a new patient
- * @access Admin, Doctor, Nurse (or public in development)
+ * @access Admin, Doctor, Nurse
  */
 router.post(
   "/",
-  // In development, allow unauthenticated access for demo purposes
-  process.env.NODE_ENV === "production"
-    ? authenticateToken
-    : (req: any, res: any, next: any) => {
-        req.user = req.user || { id: "demo-user", role: "admin" };
-        next();
-      },
-  process.env.NODE_ENV === "production"
-    ? requireRole(["admin", "doctor", "nurse"])
-    : (req: any, res: any, next: any) => next(),
+  authenticateToken,
+  requireRole(["admin", "doctor", "nurse"]),
   createPatientValidation,
   handleValidationErrors,
   async (req, res) => {
@@ -318,53 +291,33 @@ router.post(
 /**
  * @route GET /api/patients/:id
  * @desc Get patient by ID
- * @access Admin, Doctor, Nurse, Patient (own record), or public in development
+ * @access Patient (own record), Doctor and Nurse on the care team, Admin
  */
 router.get(
   "/:id",
-  // In development, allow unauthenticated access for demo purposes
-  process.env.NODE_ENV === "production"
-    ? authenticateToken
-    : (req: any, res: any, next: any) => {
-        req.user = req.user || { id: "demo", role: "admin" };
-        next();
-      },
+  authenticateToken,
   param("id").isUUID().withMessage("Patient ID must be a valid UUID"),
   handleValidationErrors,
   async (req, res) => {
     try {
       const patientId = req.params.id;
-      const user = req.user;
-
-      // Check if user can access this patient
-      if (user.role === "patient") {
-        // Patients can only access their own record
-        const patient = await SimplePatientService.getPatientById(patientId);
-        if (!patient || patient.userId !== user.id) {
-          return res.status(403).json({
-            error: "Access denied",
-          });
-        }
-      } else if (!["admin", "doctor", "nurse"].includes(user.role)) {
-        return res.status(403).json({
-          error: "Insufficient permissions",
-        });
-      }
 
-      console.log(`[Patients] Looking up patient with ID: ${patientId}`);
       const patient = await SimplePatientService.getPatientById(patientId);
-      console.log(
-        `[Patients] Patient lookup result:`,
-        patient ? "Found" : "Not found",
-      );
-
       if (!patient) {
-        console.log(`[Patients] Patient ${patientId} not found`);
         return res.status(404).json({
           error: "Patient not found",
           patientId: patientId,
         });
       }
+      if (
+        !(await ensurePatientAccess(req, res, "patients:read", patient.userId))
+      ) {
+        return;
+      }
+
+      AuditLogger.logDataAccess(patient.userId, "patient_record", "view", {
+        patientId,
+      });
 
       res.json({
         success: true,
@@ -383,7 +336,7 @@ router.get(
 /**
  * @route PUT /api/patients/:id
  * @desc Update patient
- * @access Admin, Doctor, Nurse, Patient (own record, limited fields)
+ * @access Patient (own record, limited fields), Doctor and Nurse on the care team, Admin
  */
 router.put(
   "/:id",
@@ -395,16 +348,19 @@ router.put(
       const patientId = req.params.id;
       const user = req.user;
 
-      // Check if user can update this patient
-      if (user.role === "patient") {
-        // Patients can only update their own record and limited fields
-        const patient = await SimplePatientService.getPatientById(patientId);
-        if (!patient || patient.userId !== user.id) {
-          return res.status(403).json({
-            error: "Access denied",
-          });
-        }
+      const patient = await SimplePatientService.getPatientById(patientId);
+      if (!patient) {
+        return res.status(404).json({
+          error: "Patient not found",
+        });
+      }
+      if (
+        !(await ensurePatientAccess(req, res, "patients:write", patient.userId))
+      ) {
+        return;
+      }
 
+      if (user.role === "patient") {
         // Restrict fields that patients can update
         const allowedFields = [
           "phone",
@@ -424,10 +380,6 @@ router.put(
             restrictedFields,
           });
         }
-      } else if (!["admin", "doctor", "nurse"].includes(user.role)) {
-        return res.status(403).json({
-          error: "Insufficient permissions",
-        });
       }
 
       const updateData: UpdatePatientRequest = req.body;
@@ -470,7 +422,7 @@ router.put(
 /**
  * @route DELETE /api/patients/:id
  * @desc Archive patient (soft delete)
- * @access Admin, Doctor
+ * @access Doctor on the care team, Admin
  */
 router.delete(
   "/:id",
@@ -481,6 +433,19 @@ router.delete(
   async (req, res) => {
     try {
       const patientId = req.params.id;
+
+      const patient = await SimplePatientService.getPatientById(patientId);
+      if (!patient) {
+        return res.status(404).json({
+          error: "Patient not found",
+        });
+      }
+      if (
+        !(await ensurePatientAccess(req, res, "patients:write", patient.userId))
+      ) {
+        return;
+      }
+
       const success = await SimplePatientService.archivePatient(
         patientId,
         req.user.id,
@@ -509,51 +474,35 @@ router.delete(
 /**
  * @route GET /api/patients/:id/appointments
  * @desc Get patient appointments
- * @access Admin, Doctor, Nurse, Patient (own record), or public in development
+ * @access Patient (own record), care team, Admin
  */
 router.get(
   "/:id/appointments",
-  // In development, allow unauthenticated access for demo purposes
-  process.env.NODE_ENV === "production"
-    ? authenticateToken
-    : (req: any, res: any, next: any) => {
-        req.user = req.user || { id: "demo", role: "admin" };
-        next();
-      },
+  authenticateToken,
   param("id").isUUID(),
   handleValidationErrors,
   async (req, res) => {
     try {
       const patientId = req.params.id;
-      const user = req.user;
-
-      // Check authorization (same logic as getting patient)
-      if (user.role === "patient") {
-        const patient = await SimplePatientService.getPatientById(patientId);
-        if (!patient || patient.userId !== user.id) {
-          return res.status(403).json({ error: "Access denied" });
-        }
-      } else if (!["admin", "doctor", "nurse"].includes(user.role)) {
-        return res.status(403).json({ error: "Insufficient permissions" });
-      }
 
       // Get patient to validate existence and get user_id
-      console.log(`[Appointments] Looking up patient with ID: ${patientId}`);
       const patient = await SimplePatientService.getPatientById(patientId);
-      console.log(
-        `[Appointments] Patient lookup result:`,
-        patient ? "Found" : "Not found",
-      );
-
       if (!patient) {
-        console.log(
-          `[Appointments] Patient ${patientId} not found for appointments`,
-        );
         return res.status(404).json({
           error: "Patient not found",
           patientId: patientId,
         });
       }
+      if (
+        !(await ensurePatientAccess(
+          req,
+          res,
+          "appointments:read",
+          patient.userId,
+        ))
+      ) {
+        return;
+      }
 
       // Check if this is a mock intake patient and return mock appointments
       if (patient.id && patient.id.startsWith("550e8400-e29b-41d4-a716")) {
@@ -599,7 +548,7 @@ router.get(
         FROM appointments a
         LEFT JOIN users provider ON a.provider_id = provider.id
         WHERE a.patient_id = $1
-        ORDER BY a.appointment_date DESC
+        ORDER BY a.date_time DESC
         LIMIT 50
       `,
         [patient.userId],
@@ -613,10 +562,11 @@ router.get(
           row.provider_first_name && row.provider_last_name
             ? `${row.provider_first_name} ${row.provider_last_name}`
             : null,
-        appointmentDate: row.appointment_date,
+        appointmentDate: row.date_time,
         duration: row.duration,
         status: row.status,
-        appointmentType: row.appointment_type,
+        statusReason: row.status_reason,
+        appointmentType: row.type,
         notes: row.notes,
         createdAt: row.created_at,
         updatedAt: row.updated_at,
@@ -639,39 +589,27 @@ router.get(
 /**
  * @route GET /api/patients/:id/vitals
  * @desc Get patient vital signs
- * @access Admin, Doctor, Nurse, Patient (own record), or public in development
+ * @access Patient (own record), care team, Admin
  */
 router.get(
   "/:id/vitals",
-  // In development, allow unauthenticated access for demo purposes
-  process.env.NODE_ENV === "production"
-    ? authenticateToken
-    : (req: any, res: any, next: any) => {
-        req.user = req.user || { id: "demo", role: "admin" };
-        next();
-      },
+  authenticateToken,
   param("id").isUUID(),
   handleValidationErrors,
   async (req, res) => {
     try {
       const patientId = req.params.id;
-      const user = req.user;
       const { limit = 20, offset = 0 } = req.query;
 
-      // Check authorization
-      if (user.role === "patient") {
-        const patient = await SimplePatientService.getPatientById(patientId);
-        if (!patient || patient.userId !== user.id) {
-          return res.status(403).json({ error: "Access denied" });
-        }
-      } else if (!["admin", "doctor", "nurse"].includes(user.role)) {
-        return res.status(403).json({ error: "Insufficient permissions" });
-      }
-
       const patient = await SimplePatientService.getPatientById(patientId);
       if (!patient) {
         return res.status(404).json({ error: "Patient not found" });
       }
+      if (
+        !(await ensurePatientAccess(req, res, "vitals:read", patient.userId))
+      ) {
+        return;
+      }
 
       // Check if this is a mock intake patient and return mock vitals
       if (patient.id && patient.id.startsWith("550e8400-e29b-41d4-a716")) {
@@ -0,0 +1,424 @@
+import { Router, Response } from "express";
+import {
+  authenticateToken,
+  authorizePatient,
+  ensurePatientAccess,
+  requirePermission,
+  AuthenticatedRequest,
+} from "../middleware/auth";
+import { Permission } from "../utils/accessControl";
+import { AuditLogger } from "../utils/auditLogger";
+import {
+  MAX_ENTRY_MINUTES,
+  RPM_ACTIVITIES,
+  RpmBillingService,
+  RpmEnrollment,
+} from "../utils/rpmBilling";
+import { SchedulingService } from "../utils/scheduling";
+
+const router = Router();
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const FORMATS = ["json", "csv"];
+
+// Look up :enrollmentId and check the caller's permission on its patient
+const loadEnrollment = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  permission: Permission,
+): Promise<RpmEnrollment | null> => {
+  const enrollment = await RpmBillingService.getEnrollment(
+    req.params.enrollmentId,
+  );
+  if (!enrollment) {
+    res.status(404).json({
+      error: "Enrollment not found",
+      code: "ENROLLMENT_NOT_FOUND",
+    });
+    return null;
+  }
+  if (
+    !(await ensurePatientAccess(req, res, permission, enrollment.patientId))
+  ) {
+    return null;
+  }
+  return enrollment;
+};
+
+// Enroll a patient in remote monitoring under a billing provider
+router.post(
+  "/enrollments",
+  authenticateToken,
+  authorizePatient("rpm:manage"),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const patientId = req.patientId!;
+      const timeZone = req.body.timeZone || "UTC";
+      if (!SchedulingService.isValidTimeZone(timeZone)) {
+        return res.status(400).json({
+          error: "Unknown time zone",
+          code: "VALIDATION_ERROR",
+        });
+      }
+      const startDate =
+        req.body.startDate || SchedulingService.localDate(new Date(), timeZone);
+      if (!DATE_PATTERN.test(startDate)) {
+        return res.status(400).json({
+          error: "startDate must be a date (YYYY-MM-DD)",
+          code: "VALIDATION_ERROR",
+        });
+      }
+      const setupCompletedAt = req.body.setupCompletedAt
+        ? new Date(req.body.setupCompletedAt)
+        : undefined;
+      if (setupCompletedAt && isNaN(setupCompletedAt.getTime())) {
+        return res.status(400).json({
+          error: "setupCompletedAt must be an ISO 8601 time",
+          code: "VALIDATION_ERROR",
+        });
+      }
+
+      // Only physicians and practitioners who bill under their own number
+      const providerId = req.body.providerId || req.user!.id;
+      const provider = await SchedulingService.getProvider(providerId);
+      if (!provider || provider.role !== "doctor") {
+        return res.status(400).json({
+          error: "providerId must be a physician",
+          code: "INVALID_PROVIDER",
+        });
+      }
+
+      const enrollment = await RpmBillingService.enroll(
+        patientId,
+        { providerId, startDate, timeZone, setupCompletedAt },
+        req.user!.id,
+      );
+      if (!enrollment) {
+        return res.status(409).json({
+          error: "Patient already has an active enrollment",
+          code: "ENROLLMENT_EXISTS",
+        });
+      }
+
+      AuditLogger.logEvent({
+        userId: req.user!.id,
+        action: "RPM_ENROLLMENT_CREATED",
+        resourceType: "rpm_enrollment",
+        resourceId: enrollment.id,
+        details: { patientId, providerId, startDate },
+      });
+
+      res.status(201).json({ enrollment });
+    } catch (error) {
+      console.error("RPM enrollment error:", error);
+      res.status(500).json({
+        error: "Internal server error",
+        code: "INTERNAL_ERROR",
+      });
+    }
+  },
+);
+
+// A patient's enrollments, newest first
+router.get(
+  "/enrollments/:userId?",
+  authenticateToken,
+  authorizePatient("vitals:read"),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const enrollments = await RpmBillingService.listEnrollments(
+        req.patientId!,
+      );
+      res.json({ enrollments });
+    } catch (error) {
+      console.error("List RPM enrollments error:", error);
+      res.status(500).json({
+        error: "Internal server error",
+        code: "INTERNAL_ERROR",
+      });
+    }
+  },
+);
+
+// Record that the device was set up and the patient taught to use it (99453)
+router.post(
+  "/enrollments/:enrollmentId/setup",
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const enrollment = await loadEnrollment(req, res, "rpm:manage");
+      if (!enrollment) return;
+
+      const completedAt = req.body.completedAt
+        ? new Date(req.body.completedAt)
+        : new Date();
+      if (isNaN(completedAt.getTime()) || completedAt > new Date()) {
+        return res.status(400).json({
+          error: "completedAt must be an ISO 8601 time in the past",
+          code: "VALIDATION_ERROR",
+        });
+      }
+
+      const updated = await RpmBillingService.recordSetup(
+        enrollment.id,
+        completedAt,
+      );
+
+      AuditLogger.logEvent({
+        userId: req.user!.id,
+        action: "RPM_SETUP_RECORDED",
+        resourceType: "rpm_enrollment",
+        resourceId: enrollment.id,
+        details: {
+          patientId: enrollment.patientId,
+          completedAt: completedAt.toISOString(),
+        },
+      });
+
+      res.json({ enrollment: updated });
+    } catch (error) {
+      console.error("RPM setup error:", error);
+      res.status(500).json({
+        error: "Internal server error",
+        code: "INTERNAL_ERROR",
+      });
+    }
+  },
+);
+
+// End monitoring; the last period runs to the end date
+router.post(
+  "/enrollments/:enrollmentId/end",
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const enrollment = await loadEnrollment(req, res, "rpm:manage");
+      if (!enrollment) return;
+      if (enrollment.status !== "active") {
+        return res.status(409).json({
+          error: "Enrollment has already ended",
+          code: "ENROLLMENT_ENDED",
+        });
+      }
+
+      const endDate =
+        req.body.endDate ||
+        SchedulingService.localDate(new Date(), enrollment.timeZone);
+      if (!DATE_PATTERN.test(endDate) || endDate < enrollment.startDate) {
+        return res.status(400).json({
+          error: "endDate must be a date (YYYY-MM-DD) on or after the start",
+          code: "VALIDATION_ERROR",
+        });
+      }
+
+      const updated = await RpmBillingService.endEnrollment(
+        enrollment.id,
+        endDate,
+      );
+
+      AuditLogger.logEvent({
+        userId: req.user!.id,
+        action: "RPM_ENROLLMENT_ENDED",
+        resourceType: "rpm_enrollment",
+        resourceId: enrollment.id,
+        details: { patientId: enrollment.patientId, endDate },
+      });
+
+      res.json({ enrollment: updated });
+    } catch (error) {
+      console.error("End RPM enrollment error:", error);
+      res.status(500).json({
+        error: "Internal server error",
+        code: "INTERNAL_ERROR",
+      });
+    }
+  },
+);
+
+// Log clinician time spent managing the patient (99457, 99458)
+router.post(
+  "/enrollments/:enrollmentId/time",
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const enrollment = await loadEnrollment(req, res, "rpm:manage");
+      if (!enrollment) return;
+
+      const { minutes, activity, interactive, notes } = req.body;
+      if (
+        !Number.isInteger(minutes) ||
+        minutes < 1 ||
+        minutes > MAX_ENTRY_MINUTES
+      ) {
+        return res.status(400).json({
+          error: `minutes must be a whole number from 1 to ${MAX_ENTRY_MINUTES}`,
+          code: "VALIDATION_ERROR",
+        });
+      }
+      if (!RPM_ACTIVITIES.includes(activity)) {
+        return res.status(400).json({
+          error: `activity must be one of ${RPM_ACTIVITIES.join(", ")}`,
+          code: "VALIDATION_ERROR",
+        });
+      }
+      if (interactive !== undefined && typeof interactive !== "boolean") {
+        return res.status(400).json({
+          error: "interactive must be true or false",
+          code: "VALIDATION_ERROR",
+        });
+      }
+
+      const performedAt = req.body.performedAt
+        ? new Date(req.body.performedAt)
+        : new Date();
+      if (isNaN(performedAt.getTime()) || performedAt > new Date()) {
+        return res.status(400).json({
+          error: "performedAt must be an ISO 8601 time in the past",
+          code: "VALIDATION_ERROR",
+        });
+      }
+      const day = SchedulingService.localDate(performedAt, enrollment.timeZone);
+      if (
+        day < enrollment.startDate ||
+        (enrollment.endDate && day > enrollment.endDate)
+      ) {
+        return res.status(400).json({
+          error: "performedAt is outside the enrollment",
+          code: "VALIDATION_ERROR",
+        });
+      }
+
+      const entry = await RpmBillingService.logTime(enrollment, req.user!.id, {
+        performedAt,
+        minutes,
+        activity,
+        interactive: interactive === true,
+        notes,
+      });
+
+      AuditLogger.logEvent({
+        userId: req.user!.id,
+        action: "RPM_TIME_LOGGED",
+        resourceType: "rpm_time_entry",
+        resourceId: entry.id,
+        details: {
+          patientId: enrollment.patientId,
+          minutes,
+          activity,
+          interactive: entry.interactive,
+        },
+      });
+
+      res.status(201).json({ entry });
+    } catch (error) {
+      console.error("Log RPM time error:", error);
+      res.status(500).json({
+        error: "Internal server error",
+        code: "INTERNAL_ERROR",
+      });
+    }
+  },
+);
+
+// Logged time, optionally for one month (YYYY-MM) on the patient's calendar
+router.get(
+  "/enrollments/:enrollmentId/time",
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const enrollment = await loadEnrollment(req, res, "vitals:read");
+      if (!enrollment) return;
+
+      const month = req.query.month as string | undefined;
+      if (month && !RpmBillingService.isValidMonth(month)) {
+        return res.status(400).json({
+          error: "month must be YYYY-MM",
+          code: "VALIDATION_ERROR",
+        });
+      }
+
+      const entries = await RpmBillingService.listTimeEntries(
+        enrollment,
+        month,
+      );
+      res.json({
+        entries,
+        totalMinutes: entries.reduce((sum, entry) => sum + entry.minutes, 0),
+      });
+    } catch (error) {
+      console.error("List RPM time error:", error);
+      res.status(500).json({
+        error: "Internal server error",
+        code: "INTERNAL_ERROR",
+      });
+    }
+  },
+);
+
+// Monthly claims worksheet; defaults to the last complete month
+router.get(
+  "/billing/worksheet",
+  authenticateToken,
+  requirePermission("billing:read"),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const format = ((req.query.format as string) || "json").toLowerCase();
+      if (!FORMATS.includes(format)) {
+        return res.status(400).json({
+          error: `Format must be one of ${FORMATS.join(", ")}`,
+          code: "INVALID_FORMAT",
+        });
+      }
+
+      const now = new Date();
+      const month =
+        (req.query.month as string) ||
+        new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - 1, 1))
+          .toISOString()
+          .slice(0, 7);
+      if (!RpmBillingService.isValidMonth(month)) {
+        return res.status(400).json({
+          error: "month must be YYYY-MM",
+          code: "VALIDATION_ERROR",
+        });
+      }
+
+      const worksheet = await RpmBillingService.getWorksheet(month, {
+        providerId: req.query.providerId as string | undefined,
+        now,
+      });
+
+      AuditLogger.logEvent({
+        userId: req.user!.id,
+        action: "RPM_BILLING_WORKSHEET_GENERATED",
+        resourceType: "rpm_billing",
+        resourceId: month,
+        details: {
+          format,
+          providerId: req.query.providerId,
+          patients: worksheet.summary.patients,
+          lines: worksheet.lines.length,
+        },
+      });
+
+      if (format === "csv") {
+        res.setHeader("Content-Type", "text/csv");
+        res.setHeader(
+          "Content-Disposition",
+          `attachment; filename="rpm-billing-${month}.csv"`,
+        );
+        return res.send(RpmBillingService.toCSV(worksheet));
+      }
+
+      res.json({ worksheet });
+    } catch (error) {
+      console.error("RPM billing worksheet error:", error);
+      res.status(500).json({
+        error: "Internal server error",
+        code: "INTERNAL_ERROR",
+      });
+    }
+  },
+);
+
+export default router;
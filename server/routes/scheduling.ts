@@ -0,0 +1,1089 @@
+import { Router, Response } from "express";
+import {
+  authenticateToken,
+  authorizePatient,
+  ensurePatientAccess,
+  requirePermission,
+  AuthenticatedRequest,
+} from "../middleware/auth";
+import { validateCreateAppointment } from "../middleware/validation";
+import { AuditLogger } from "../utils/auditLogger";
+import { AccessControl, Permission } from "../utils/accessControl";
+import {
+  SchedulingService,
+  Appointment,
+  AppointmentStatus,
+  APPOINTMENT_STATUSES,
+  AvailabilityWindow,
+  CONFLICT_MESSAGES,
+  MAX_SLOT_RANGE_DAYS,
+  MIN_APPOINTMENT_MINUTES,
+  MAX_APPOINTMENT_MINUTES,
+  MAX_PATIENT_RESCHEDULES,
+  PATIENT_CHANGE_NOTICE_HOURS,
+} from "../utils/scheduling";
+import { WaitlistService } from "../utils/waitlist";
+import { CalendarService, AppointmentChange } from "../utils/calendar";
+
+const router = Router();
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Providers keep their own calendar; scheduling:manage covers everyone's
+const canManageSchedule = (
+  req: AuthenticatedRequest,
+  res: Response,
+  providerId: string,
+): boolean => {
+  const user = req.user!;
+  if (
+    user.id === providerId ||
+    AccessControl.hasPermission(user.role, "scheduling:manage")
+  ) {
+    return true;
+  }
+
+  AuditLogger.logAccessDenied(user.id, "scheduling:manage", {
+    reason: "not_schedule_owner",
+    role: user.role,
+  });
+  res.status(403).json({
+    error: "Insufficient permissions",
+    code: "INSUFFICIENT_PERMISSIONS",
+  });
+  return false;
+};
+
+const ensureProvider = async (
+  res: Response,
+  providerId: string,
+): Promise<boolean> => {
+  if (await SchedulingService.isProvider(providerId)) {
+    return true;
+  }
+  res.status(404).json({
+    error: "Provider not found",
+    code: "PROVIDER_NOT_FOUND",
+  });
+  return false;
+};
+
+/**
+ * Who the caller is to an appointment: "staff" for its provider, schedulers
+ * and clinicians on the patient's care team, "patient" for the patient or a
+ * caregiver (bound by the self-service policy). Sends the 403 otherwise.
+ */
+const appointmentRole = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  appointment: Appointment,
+  permission: Permission,
+): Promise<"staff" | "patient" | null> => {
+  const user = req.user!;
+  if (
+    user.id === appointment.providerId ||
+    AccessControl.hasPermission(user.role, "scheduling:manage")
+  ) {
+    return "staff";
+  }
+  if (
+    !(await ensurePatientAccess(req, res, permission, appointment.patientId))
+  ) {
+    return null;
+  }
+  return ["patient", "caregiver"].includes(user.role) ? "patient" : "staff";
+};
+
+// Pass a freed slot on to the waitlist without holding up the response
+const offerFreedSlot = (providerId: string, start: string, minutes: number) => {
+  WaitlistService.offerFreedSlot(providerId, new Date(start), minutes).catch(
+    (error) => console.error("Waitlist offer error:", error),
+  );
+};
+
+// Send the confirmation with its calendar invite in the background
+const notifyChange = (appointment: Appointment, change: AppointmentChange) => {
+  CalendarService.notifyAppointmentChange(appointment, change).catch((error) =>
+    console.error("Appointment notification error:", error),
+  );
+};
+
+const PATIENT_POLICY_MESSAGES = {
+  notice_period: `Appointments can only be changed online up to ${PATIENT_CHANGE_NOTICE_HOURS} hours before they start; please call the clinic`,
+  reschedule_limit: `Appointments can be rescheduled online at most ${MAX_PATIENT_RESCHEDULES} times; please call the clinic`,
+};
+
+// Parse a from/to query range, defaulting to the next week
+const parseRange = (
+  query: any,
+): { from: Date; to: Date } | { error: string } => {
+  const from = query.from ? new Date(query.from) : new Date();
+  const to = query.to
+    ? new Date(query.to)
+    : new Date(from.getTime() + 7 * DAY_MS);
+
+  if (isNaN(from.getTime()) || isNaN(to.getTime()) || from >= to) {
+    return { error: "from and to must be ISO 8601 times with from before to" };
+  }
+  if (to.getTime() - from.getTime() > MAX_SLOT_RANGE_DAYS * DAY_MS) {
+    return { error: `Range cannot exceed ${MAX_SLOT_RANGE_DAYS} days` };
+  }
+  return { from, to };
+};
+
+// Appointment types and their durations
+router.get(
+  "/appointment-types",
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const includeInactive =
+        req.query.all === "true" &&
+        AccessControl.hasPermission(req.user!.role, "scheduling:manage");
+      const types =
+        await SchedulingService.listAppointmentTypes(includeInactive);
+      res.json({ types });
+    } catch (error) {
+      console.error("List appointment types error:", error);
+      res.status(500).json({
+        error: "Internal server error",
+        code: "INTERNAL_ERROR",
+      });
+    }
+  },
+);
+
+// Create or update an appointment type
+router.put(
+  "/appointment-types/:code",
+  authenticateToken,
+  requirePermission("scheduling:manage"),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { code } = req.params;
+      const {
+        name,
+        durationMinutes,
+        bufferBeforeMinutes = 0,
+        bufferAfterMinutes = 0,
+        active = true,
+      } = req.body;
+
+      if (!/^[a-z0-9-]{1,30}$/.test(code) || !name) {
+        return res.status(400).json({
+          error: "A lowercase code and a name are required",
+          code: "VALIDATION_ERROR",
+        });
+      }
+      if (
+        !Number.isInteger(durationMinutes) ||
+        durationMinutes < MIN_APPOINTMENT_MINUTES ||
+        durationMinutes > MAX_APPOINTMENT_MINUTES
+      ) {
+        return res.status(400).json({
+          error: `durationMinutes must be ${MIN_APPOINTMENT_MINUTES} to ${MAX_APPOINTMENT_MINUTES}`,
+          code: "VALIDATION_ERROR",
+        });
+      }
+      if (
+        ![bufferBeforeMinutes, bufferAfterMinutes].every(
+          (buffer) => Number.isInteger(buffer) && buffer >= 0 && buffer <= 120,
+        )
+      ) {
+        return res.status(400).json({
+          error: "Buffers must be 0 to 120 minutes",
+          code: "VALIDATION_ERROR",
+        });
+      }
+
+      const type = await SchedulingService.saveAppointmentType({
+        code,
+        name,
+        durationMinutes,
+        bufferBeforeMinutes,
+        bufferAfterMinutes,
+        active: Boolean(active),
+      });
+
+      AuditLogger.logEvent({
+        userId: req.user!.id,
+        action: "APPOINTMENT_TYPE_SAVED",
+        resourceType: "appointment_type",
+        resourceId: type.id,
+        details: { code, durationMinutes, active: type.active },
+      });
+
+      res.json({ type });
+    } catch (error) {
+      console.error("Save appointment type error:", error);
+      res.status(500).json({
+        error: "Internal server error",
+        code: "INTERNAL_ERROR",
+      });
+    }
+  },
+);
+
+// Bookable providers, optionally by specialty
+router.get(
+  "/providers",
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const providers = await SchedulingService.listProviders(
+        req.query.specialty as string,
+      );
+      res.json({ providers });
+    } catch (error) {
+      console.error("List providers error:", error);
+      res.status(500).json({
+        error: "Internal server error",
+        code: "INTERNAL_ERROR",
+      });
+    }
+  },
+);
+
+// A provider's weekly working hours
+router.get(
+  "/providers/:providerId/availability",
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { providerId } = req.params;
+      if (!(await ensureProvider(res, providerId))) return;
+
+      const availability = await SchedulingService.getAvailability(providerId);
+      res.json(availability);
+    } catch (error) {
+      console.error("Get availability error:", error);
+      res.status(500).json({
+        error: "Internal server error",
+        code: "INTERNAL_ERROR",
+      });
+    }
+  },
+);
+
+// Replace a provider's weekly working hours
+router.put(
+  "/providers/:providerId/availability",
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { providerId } = req.params;
+      if (!canManageSchedule(req, res, providerId)) return;
+      if (!(await ensureProvider(res, providerId))) return;
+
+      const { timeZone, windows } = req.body;
+      if (!timeZone || !SchedulingService.isValidTimeZone(timeZone)) {
+        return res.status(400).json({
+          error: "timeZone must be an IANA time zone such as Africa/Accra",
+          code: "VALIDATION_ERROR",
+        });
+      }
+      if (!Array.isArray(windows)) {
+        return res.status(400).json({
+          error: "windows must be an array",
+          code: "VALIDATION_ERROR",
+        });
+      }
+      const invalid = SchedulingService.validateWindows(
+        windows as AvailabilityWindow[],
+      );
+      if (invalid) {
+        return res.status(400).json({
+          error: invalid,
+          code: "VALIDATION_ERROR",
+        });
+      }
+
+      await SchedulingService.setAvailability(providerId, timeZone, windows);
+
+      AuditLogger.logEvent({
+        userId: req.user!.id,
+        action: "PROVIDER_AVAILABILITY_UPDATED",
+        resourceType: "provider_availability",
+        resourceId: providerId,
+        details: { timeZone, windows: windows.length },
+      });
+
+      res.json(await SchedulingService.getAvailability(providerId));
+    } catch (error) {
+      console.error("Set availability error:", error);
+      res.status(500).json({
+        error: "Internal server error",
+        code: "INTERNAL_ERROR",
+      });
+    }
+  },
+);
+
+// Upcoming blocked time
+router.get(
+  "/providers/:providerId/blocked-time",
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { providerId } = req.params;
+      if (!canManageSchedule(req, res, providerId)) return;
+
+      const blocks = await SchedulingService.listBlockedTime(providerId);
+      res.json({ blocks });
+    } catch (error) {
+      console.error("List blocked time error:", error);
+      res.status(500).json({
+        error: "Internal server error",
+        code: "INTERNAL_ERROR",
+      });
+    }
+  },
+);
+
+// Block time off (leave, meetings); existing appointments are not moved
+router.post(
+  "/providers/:providerId/blocked-time",
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { providerId } = req.params;
+      if (!canManageSchedule(req, res, providerId)) return;
+      if (!(await ensureProvider(res, providerId))) return;
+
+      const start = new Date(req.body.start);
+      const end = new Date(req.body.end);
+      if (isNaN(start.getTime()) || isNaN(end.getTime()) || start >= end) {
+        return res.status(400).json({
+          error: "start and end must be ISO 8601 times with start before end",
+          code: "VALIDATION_ERROR",
+        });
+      }
+
+      const block = await SchedulingService.blockTime(
+        providerId,
+        { start, end },
+        req.body.reason,
+        req.user!.id,
+      );
+
+      AuditLogger.logEvent({
+        userId: req.user!.id,
+        action: "PROVIDER_TIME_BLOCKED",
+        resourceType: "provider_blocked_time",
+        resourceId: block.id,
+        details: { providerId, start: block.start, end: block.end },
+      });
+
+      res.status(201).json({ block });
+    } catch (error) {
+      console.error("Block time error:", error);
+      res.status(500).json({
+        error: "Internal server error",
+        code: "INTERNAL_ERROR",
+      });
+    }
+  },
+);
+
+router.delete(
+  "/providers/:providerId/blocked-time/:blockId",
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { providerId, blockId } = req.params;
+      if (!canManageSchedule(req, res, providerId)) return;
+
+      const removed = await SchedulingService.unblockTime(providerId, blockId);
+      if (!removed) {
+        return res.status(404).json({
+          error: "Blocked time not found",
+          code: "BLOCK_NOT_FOUND",
+        });
+      }
+
+      AuditLogger.logEvent({
+        userId: req.user!.id,
+        action: "PROVIDER_TIME_UNBLOCKED",
+        resourceType: "provider_blocked_time",
+        resourceId: blockId,
+        details: { providerId },
+      });
+
+      res.json({ message: "Blocked time removed" });
+    } catch (error) {
+      console.error("Unblock time error:", error);
+      res.status(500).json({
+        error: "Internal server error",
+        code: "INTERNAL_ERROR",
+      });
+    }
+  },
+);
+
+// Open slots for an appointment type
+router.get(
+  "/providers/:providerId/slots",
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { providerId } = req.params;
+      const range = parseRange(req.query);
+      if ("error" in range) {
+        return res.status(400).json({
+          error: range.error,
+          code: "VALIDATION_ERROR",
+        });
+      }
+      if (!(await ensureProvider(res, providerId))) return;
+
+      const type = await SchedulingService.getAppointmentType(
+        (req.query.type as string) || "consultation",
+      );
+      if (!type || !type.active) {
+        return res.status(404).json({
+          error: "Appointment type not found",
+          code: "APPOINTMENT_TYPE_NOT_FOUND",
+        });
+      }
+
+      const { timeZone, slots } = await SchedulingService.getSlots(
+        providerId,
+        type,
+        range.from,
+        range.to,
+      );
+      res.json({
+        providerId,
+        type: type.code,
+        durationMinutes: type.durationMinutes,
+        timeZone,
+        slots: slots.map((slot) => ({
+          start: slot.start.toISOString(),
+          end: slot.end.toISOString(),
+        })),
+      });
+    } catch (error) {
+      console.error("Get slots error:", error);
+      res.status(500).json({
+        error: "Internal server error",
+        code: "INTERNAL_ERROR",
+      });
+    }
+  },
+);
+
+// A provider's booked appointments
+router.get(
+  "/providers/:providerId/appointments",
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { providerId } = req.params;
+      if (!canManageSchedule(req, res, providerId)) return;
+
+      const range = parseRange(req.query);
+      if ("error" in range) {
+        return res.status(400).json({
+          error: range.error,
+          code: "VALIDATION_ERROR",
+        });
+      }
+
+      const appointments = await SchedulingService.listAppointments({
+        providerId,
+        from: range.from,
+        to: range.to,
+      });
+      res.json({ appointments });
+    } catch (error) {
+      console.error("List provider appointments error:", error);
+      res.status(500).json({
+        error: "Internal server error",
+        code: "INTERNAL_ERROR",
+      });
+    }
+  },
+);
+
+// Book an appointment; 409 when the time is no longer free
+router.post(
+  "/appointments",
+  authenticateToken,
+  validateCreateAppointment,
+  authorizePatient("appointments:write"),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { providerId, dateTime, duration, notes } = req.body;
+      if (!(await ensureProvider(res, providerId))) return;
+
+      const type = await SchedulingService.getAppointmentType(req.body.type);
+      if (!type || !type.active) {
+        return res.status(404).json({
+          error: "Appointment type not found",
+          code: "APPOINTMENT_TYPE_NOT_FOUND",
+        });
+      }
+      const durationMinutes = duration ? Number(duration) : undefined;
+      if (
+        durationMinutes !== undefined &&
+        durationMinutes !== type.durationMinutes &&
+        !SchedulingService.mayOverrideDuration(req.user!, providerId)
+      ) {
+        AuditLogger.logAccessDenied(req.user!.id, "scheduling:manage", {
+          reason: "duration_override",
+          role: req.user!.role,
+        });
+        return res.status(403).json({
+          error: "Only the provider or a scheduler can change the duration",
+          code: "INSUFFICIENT_PERMISSIONS",
+        });
+      }
+
+      const result = await SchedulingService.bookAppointment({
+        patientId: req.patientId!,
+        providerId,
+        type,
+        start: dateTime,
+        durationMinutes,
+        notes,
+        createdBy: req.user!.id,
+      });
+      if (result.ok === false) {
+        return res.status(409).json({
+          error: CONFLICT_MESSAGES[result.reason],
+          code: "SLOT_UNAVAILABLE",
+          reason: result.reason,
+        });
+      }
+
+      AuditLogger.logEvent({
+        userId: req.user!.id,
+        action: "APPOINTMENT_BOOKED",
+        resourceType: "appointment",
+        resourceId: result.appointment.id,
+        details: {
+          patientId: req.patientId,
+          providerId,
+          start: result.appointment.start,
+        },
+      });
+      notifyChange(result.appointment, "booked");
+
+      res.status(201).json({
+        appointment: result.appointment,
+        calendarUrl: CalendarService.inviteUrl(
+          result.appointment.id,
+          "patient",
+        ),
+      });
+    } catch (error) {
+      console.error("Book appointment error:", error);
+      res.status(500).json({
+        error: "Internal server error",
+        code: "INTERNAL_ERROR",
+      });
+    }
+  },
+);
+
+// An appointment with its status history
+router.get(
+  "/appointments/:id",
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const appointment = await SchedulingService.getAppointment(req.params.id);
+      if (!appointment) {
+        return res.status(404).json({
+          error: "Appointment not found",
+          code: "APPOINTMENT_NOT_FOUND",
+        });
+      }
+      if (
+        !(await appointmentRole(req, res, appointment, "appointments:read"))
+      ) {
+        return;
+      }
+
+      const history = await SchedulingService.getHistory(appointment.id);
+      res.json({ appointment, history });
+    } catch (error) {
+      console.error("Get appointment error:", error);
+      res.status(500).json({
+        error: "Internal server error",
+        code: "INTERNAL_ERROR",
+      });
+    }
+  },
+);
+
+// Move an appointment along its lifecycle. Patients may only confirm or
+// cancel, and cancel only outside the notice period.
+router.post(
+  "/appointments/:id/status",
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { status, reason } = req.body as {
+        status: AppointmentStatus;
+        reason?: string;
+      };
+      if (!APPOINTMENT_STATUSES.includes(status)) {
+        return res.status(400).json({
+          error: `Status must be one of ${APPOINTMENT_STATUSES.join(", ")}`,
+          code: "VALIDATION_ERROR",
+        });
+      }
+      if ((status === "cancelled" || status === "no_show") && !reason) {
+        return res.status(400).json({
+          error: "A reason is required",
+          code: "VALIDATION_ERROR",
+        });
+      }
+
+      const appointment = await SchedulingService.getAppointment(req.params.id);
+      if (!appointment) {
+        return res.status(404).json({
+          error: "Appointment not found",
+          code: "APPOINTMENT_NOT_FOUND",
+        });
+      }
+      const role = await appointmentRole(
+        req,
+        res,
+        appointment,
+        "appointments:write",
+      );
+      if (!role) return;
+
+      if (role === "patient") {
+        if (status !== "confirmed" && status !== "cancelled") {
+          return res.status(403).json({
+            error: "Only the clinic can set this status",
+            code: "INSUFFICIENT_PERMISSIONS",
+          });
+        }
+        const blocked =
+          status === "cancelled" &&
+          SchedulingService.patientChangeBlocked(appointment, "cancel");
+        if (blocked) {
+          return res.status(409).json({
+            error: PATIENT_POLICY_MESSAGES[blocked],
+            code: "CHANGE_WINDOW_CLOSED",
+          });
+        }
+      }
+
+      if (!SchedulingService.canTransition(appointment.status, status)) {
+        return res.status(409).json({
+          error: `Cannot change an appointment from ${appointment.status} to ${status}`,
+          code: "INVALID_STATUS_TRANSITION",
+        });
+      }
+
+      const updated = await SchedulingService.transitionStatus(
+        appointment,
+        status,
+        req.user!.id,
+        reason,
+      );
+      if (!updated) {
+        return res.status(409).json({
+          error: "Appointment was changed by someone else; reload and retry",
+          code: "INVALID_STATUS_TRANSITION",
+        });
+      }
+
+      AuditLogger.logEvent({
+        userId: req.user!.id,
+        action: "APPOINTMENT_STATUS_CHANGED",
+        resourceType: "appointment",
+        resourceId: appointment.id,
+        details: {
+          patientId: appointment.patientId,
+          from: appointment.status,
+          to: status,
+          reason,
+        },
+      });
+      if (status === "cancelled") {
+        notifyChange(updated, "cancelled");
+        offerFreedSlot(
+          appointment.providerId,
+          appointment.start,
+          appointment.durationMinutes,
+        );
+      }
+
+      res.json({ appointment: updated });
+    } catch (error) {
+      console.error("Appointment status error:", error);
+      res.status(500).json({
+        error: "Internal server error",
+        code: "INTERNAL_ERROR",
+      });
+    }
+  },
+);
+
+// Move an appointment to a new time with the same provider
+router.post(
+  "/appointments/:id/reschedule",
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const start = new Date(req.body.dateTime);
+      if (isNaN(start.getTime())) {
+        return res.status(400).json({
+          error: "dateTime must be an ISO 8601 time",
+          code: "VALIDATION_ERROR",
+        });
+      }
+
+      const appointment = await SchedulingService.getAppointment(req.params.id);
+      if (!appointment) {
+        return res.status(404).json({
+          error: "Appointment not found",
+          code: "APPOINTMENT_NOT_FOUND",
+        });
+      }
+      const role = await appointmentRole(
+        req,
+        res,
+        appointment,
+        "appointments:write",
+      );
+      if (!role) return;
+
+      if (!SchedulingService.canReschedule(appointment.status)) {
+        return res.status(409).json({
+          error: `A ${appointment.status} appointment cannot be rescheduled`,
+          code: "INVALID_STATUS_TRANSITION",
+        });
+      }
+      const blocked =
+        role === "patient" &&
+        SchedulingService.patientChangeBlocked(appointment, "reschedule");
+      if (blocked) {
+        return res.status(409).json({
+          error: PATIENT_POLICY_MESSAGES[blocked],
+          code: "CHANGE_WINDOW_CLOSED",
+        });
+      }
+
+      const result = await SchedulingService.rescheduleAppointment(
+        appointment,
+        start,
+        req.user!.id,
+        req.body.reason,
+      );
+      if (result.ok === false) {
+        return res.status(409).json({
+          error: CONFLICT_MESSAGES[result.reason],
+          code: "SLOT_UNAVAILABLE",
+          reason: result.reason,
+        });
+      }
+
+      AuditLogger.logEvent({
+        userId: req.user!.id,
+        action: "APPOINTMENT_RESCHEDULED",
+        resourceType: "appointment",
+        resourceId: appointment.id,
+        details: {
+          patientId: appointment.patientId,
+          from: appointment.start,
+          to: result.appointment.start,
+          reason: req.body.reason,
+        },
+      });
+      notifyChange(result.appointment, "rescheduled");
+      offerFreedSlot(
+        appointment.providerId,
+        appointment.start,
+        appointment.durationMinutes,
+      );
+
+      res.json({ appointment: result.appointment });
+    } catch (error) {
+      console.error("Reschedule appointment error:", error);
+      res.status(500).json({
+        error: "Internal server error",
+        code: "INTERNAL_ERROR",
+      });
+    }
+  },
+);
+
+// No-show rate for a provider, broken down by patient
+router.get(
+  "/providers/:providerId/no-shows",
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { providerId } = req.params;
+      if (!canManageSchedule(req, res, providerId)) return;
+
+      const filter = {
+        providerId,
+        from: req.query.from ? new Date(req.query.from as string) : undefined,
+        to: req.query.to ? new Date(req.query.to as string) : undefined,
+      };
+      const [summary] = await SchedulingService.noShowStats("provider", filter);
+      const patients = await SchedulingService.noShowStats("patient", filter);
+
+      res.json({
+        providerId,
+        summary: summary || null,
+        patients,
+      });
+    } catch (error) {
+      console.error("Provider no-show stats error:", error);
+      res.status(500).json({
+        error: "Internal server error",
+        code: "INTERNAL_ERROR",
+      });
+    }
+  },
+);
+
+// No-show rate for a patient, broken down by provider
+router.get(
+  "/patients/:patientId/no-shows",
+  authenticateToken,
+  authorizePatient("appointments:read"),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const filter = {
+        patientId: req.patientId,
+        from: req.query.from ? new Date(req.query.from as string) : undefined,
+        to: req.query.to ? new Date(req.query.to as string) : undefined,
+      };
+      const [summary] = await SchedulingService.noShowStats("patient", filter);
+      const providers = await SchedulingService.noShowStats("provider", filter);
+
+      res.json({
+        patientId: req.patientId,
+        summary: summary || null,
+        providers,
+      });
+    } catch (error) {
+      console.error("Patient no-show stats error:", error);
+      res.status(500).json({
+        error: "Internal server error",
+        code: "INTERNAL_ERROR",
+      });
+    }
+  },
+);
+
+// Join a provider's waitlist for an earlier slot
+router.post(
+  "/waitlist",
+  authenticateToken,
+  authorizePatient("appointments:write"),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { providerId, type = "consultation", notes } = req.body;
+      const earliestStart = req.body.earliestStart
+        ? new Date(req.body.earliestStart)
+        : undefined;
+      const latestStart = req.body.latestStart
+        ? new Date(req.body.latestStart)
+        : undefined;
+      if (
+        (earliestStart && isNaN(earliestStart.getTime())) ||
+        (latestStart && isNaN(latestStart.getTime()))
+      ) {
+        return res.status(400).json({
+          error: "earliestStart and latestStart must be ISO 8601 times",
+          code: "VALIDATION_ERROR",
+        });
+      }
+      if (!(await ensureProvider(res, providerId))) return;
+
+      const appointmentType = await SchedulingService.getAppointmentType(type);
+      if (!appointmentType || !appointmentType.active) {
+        return res.status(404).json({
+          error: "Appointment type not found",
+          code: "APPOINTMENT_TYPE_NOT_FOUND",
+        });
+      }
+
+      const entry = await WaitlistService.join({
+        patientId: req.patientId!,
+        providerId,
+        appointmentType: appointmentType.code,
+        earliestStart,
+        latestStart,
+        notes,
+        createdBy: req.user!.id,
+      });
+
+      AuditLogger.logEvent({
+        userId: req.user!.id,
+        action: "WAITLIST_JOINED",
+        resourceType: "appointment_waitlist",
+        resourceId: entry.id,
+        details: { patientId: req.patientId, providerId },
+      });
+
+      res.status(201).json({ entry });
+    } catch (error) {
+      console.error("Join waitlist error:", error);
+      res.status(500).json({
+        error: "Internal server error",
+        code: "INTERNAL_ERROR",
+      });
+    }
+  },
+);
+
+// A patient's waitlist entries and the offers open to them
+router.get(
+  "/waitlist/:userId?",
+  authenticateToken,
+  authorizePatient("appointments:read"),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const entries = await WaitlistService.list({ patientId: req.patientId });
+      const offers = await WaitlistService.listPendingOffers(req.patientId!);
+      res.json({ entries, offers });
+    } catch (error) {
+      console.error("List waitlist error:", error);
+      res.status(500).json({
+        error: "Internal server error",
+        code: "INTERNAL_ERROR",
+      });
+    }
+  },
+);
+
+// Everyone waiting on a provider, longest-waiting first
+router.get(
+  "/providers/:providerId/waitlist",
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { providerId } = req.params;
+      if (!canManageSchedule(req, res, providerId)) return;
+
+      const entries = await WaitlistService.list({
+        providerId,
+        status: "waiting",
+      });
+      res.json({ entries });
+    } catch (error) {
+      console.error("Provider waitlist error:", error);
+      res.status(500).json({
+        error: "Internal server error",
+        code: "INTERNAL_ERROR",
+      });
+    }
+  },
+);
+
+router.delete(
+  "/waitlist/entries/:entryId",
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const entry = await WaitlistService.getEntry(req.params.entryId);
+      if (!entry) {
+        return res.status(404).json({
+          error: "Waitlist entry not found",
+          code: "WAITLIST_ENTRY_NOT_FOUND",
+        });
+      }
+      if (
+        req.user!.id !== entry.providerId &&
+        !AccessControl.hasPermission(req.user!.role, "scheduling:manage") &&
+        !(await ensurePatientAccess(
+          req,
+          res,
+          "appointments:write",
+          entry.patientId,
+        ))
+      ) {
+        return;
+      }
+
+      if (!(await WaitlistService.cancel(entry.id))) {
+        return res.status(409).json({
+          error: "Waitlist entry is no longer waiting",
+          code: "WAITLIST_ENTRY_CLOSED",
+        });
+      }
+      res.json({ message: "Removed from waitlist" });
+    } catch (error) {
+      console.error("Leave waitlist error:", error);
+      res.status(500).json({
+        error: "Internal server error",
+        code: "INTERNAL_ERROR",
+      });
+    }
+  },
+);
+
+// Claim a slot offered from the waitlist
+router.post(
+  "/waitlist/offers/:offerId/accept",
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const offer = await WaitlistService.getOffer(req.params.offerId);
+      const entry = offer && (await WaitlistService.getEntry(offer.entryId));
+      if (!offer || !entry) {
+        return res.status(404).json({
+          error: "Offer not found",
+          code: "OFFER_NOT_FOUND",
+        });
+      }
+      if (
+        !(await ensurePatientAccess(
+          req,
+          res,
+          "appointments:write",
+          entry.patientId,
+        ))
+      ) {
+        return;
+      }
+
+      const type = await SchedulingService.getAppointmentType(
+        entry.appointmentType,
+      );
+      const result = type
+        ? await WaitlistService.acceptOffer(offer, entry, type, req.user!.id)
+        : ({ ok: false, reason: "offer_unavailable" } as const);
+      if (result.ok === false) {
+        return res.status(409).json({
+          error:
+            result.reason === "offer_unavailable"
+              ? "This offer has expired or was already used"
+              : "Sorry, this slot has just been taken",
+          code: "OFFER_UNAVAILABLE",
+        });
+      }
+
+      AuditLogger.logEvent({
+        userId: req.user!.id,
+        action: "WAITLIST_OFFER_ACCEPTED",
+        resourceType: "appointment",
+        resourceId: result.appointment.id,
+        details: { patientId: entry.patientId, offerId: offer.id },
+      });
+      notifyChange(result.appointment, "booked");
+
+      res.status(201).json({ appointment: result.appointment });
+    } catch (error) {
+      console.error("Accept waitlist offer error:", error);
+      res.status(500).json({
+        error: "Internal server error",
+        code: "INTERNAL_ERROR",
+      });
+    }
+  },
+);
+
+export default router;
@@ -1,5 +1,16 @@
-import { RequestHandler } from "express";
+import { RequestHandler, Response } from "express";
+import { AuthenticatedRequest, ensurePatientAccess } from "../middleware/auth";
 import { TelemedicineService } from "../utils/telemedicine";
+import { CONFLICT_MESSAGES, SchedulingService } from "../utils/scheduling";
+import { AccessControl, Permission } from "../utils/accessControl";
+import { AuditLogger } from "../utils/auditLogger";
+import {
+  VisitService,
+  VisitSession,
+  CHECK_IN_OPENS_MINUTES,
+} from "../utils/visits";
+import { getWebSocketService } from "../utils/websocket";
+import { TriageService, DEFAULT_PROTOCOL } from "../utils/triage";
 import { ApiResponse } from "@shared/types";
 
 // Get available providers
@@ -25,11 +36,64 @@ export const getAvailableProviders: RequestHandler = async (req, res) => {
 };
 
 // Schedule appointment
-export const scheduleAppointment: RequestHandler = async (req, res) => {
+export const scheduleAppointment = async (
+  req: AuthenticatedRequest,
+  res: Response,
+) => {
   try {
-    const appointmentData = req.body;
-    const appointment =
-      await TelemedicineService.scheduleAppointment(appointmentData);
+    const { providerId, dateTime, type, reason, duration } = req.body;
+    if (!(await SchedulingService.isProvider(providerId))) {
+      return res.status(404).json({
+        success: false,
+        error: "Provider not found",
+        code: "PROVIDER_NOT_FOUND",
+      });
+    }
+    const appointmentType = await SchedulingService.getAppointmentType(
+      req.body.appointmentType || "consultation",
+    );
+    if (!appointmentType || !appointmentType.active) {
+      return res.status(404).json({
+        success: false,
+        error: "Appointment type not found",
+        code: "APPOINTMENT_TYPE_NOT_FOUND",
+      });
+    }
+    const durationMinutes = duration ? Number(duration) : undefined;
+    if (
+      durationMinutes !== undefined &&
+      durationMinutes !== appointmentType.durationMinutes &&
+      !SchedulingService.mayOverrideDuration(req.user!, providerId)
+    ) {
+      AuditLogger.logAccessDenied(req.user!.id, "scheduling:manage", {
+        reason: "duration_override",
+        role: req.user!.role,
+      });
+      return res.status(403).json({
+        success: false,
+        error: "Only the provider or a scheduler can change the duration",
+        code: "INSUFFICIENT_PERMISSIONS",
+      });
+    }
+
+    const appointment = await TelemedicineService.scheduleAppointment({
+      providerId,
+      userId: req.patientId!,
+      dateTime,
+      type,
+      appointmentType,
+      reason,
+      duration: durationMinutes,
+      bookedBy: req.user!.id,
+    });
+    if (appointment.ok === false) {
+      return res.status(409).json({
+        success: false,
+        error: CONFLICT_MESSAGES[appointment.reason],
+        code: "SLOT_UNAVAILABLE",
+        reason: appointment.reason,
+      });
+    }
 
     res.json({
       success: true,
@@ -45,10 +109,13 @@ export const scheduleAppointment: RequestHandler = async (req, res) => {
 };
 
 // Get user appointments
-export const getUserAppointments: RequestHandler = async (req, res) => {
+export const getUserAppointments = async (
+  req: AuthenticatedRequest,
+  res: Response,
+) => {
   try {
-    const userId = req.params.userId || "user-1";
-    const appointments = TelemedicineService.getUserAppointments(userId);
+    const userId = req.patientId!;
+    const appointments = await TelemedicineService.getUserAppointments(userId);
 
     res.json({
       success: true,
@@ -63,16 +130,114 @@ export const getUserAppointments: RequestHandler = async (req, res) => {
   }
 };
 
-// Create consultation room
-export const createConsultationRoom: RequestHandler = async (req, res) => {
+/**
+ * How the caller relates to a visit: its provider, the patient's side
+ * (patient or caregiver), or other staff allowed to see the patient. Sends
+ * the 403 and returns null otherwise.
+ */
+const visitRole = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  patientId: string,
+  providerId: string,
+  permission: Permission,
+): Promise<"provider" | "patient" | "staff" | null> => {
+  const user = req.user!;
+  if (user.id === providerId) return "provider";
+  if (AccessControl.hasPermission(user.role, "scheduling:manage")) {
+    return "staff";
+  }
+  if (!(await ensurePatientAccess(req, res, permission, patientId))) {
+    return null;
+  }
+  return ["patient", "caregiver"].includes(user.role) ? "patient" : "staff";
+};
+
+const visitNotFound = (res: Response) =>
+  res.status(404).json({
+    success: false,
+    error: "Visit not found",
+    code: "VISIT_NOT_FOUND",
+  });
+
+const CHECK_IN_MESSAGES = {
+  too_early: `Check-in opens ${CHECK_IN_OPENS_MINUTES} minutes before the appointment`,
+  too_late: "This appointment has already finished",
+  not_checkable: "This appointment cannot be checked in to",
+};
+
+// Join the visit for an appointment. Patients and caregivers are checked
+// in to the waiting room; the provider gets the session once they have.
+export const createConsultationRoom = async (
+  req: AuthenticatedRequest,
+  res: Response,
+) => {
   try {
-    const { appointmentId } = req.body;
-    const room =
-      await TelemedicineService.createConsultationRoom(appointmentId);
+    const appointment = await SchedulingService.getAppointment(
+      String(req.body.appointmentId),
+    );
+    if (!appointment) {
+      return res.status(404).json({
+        success: false,
+        error: "Appointment not found",
+        code: "APPOINTMENT_NOT_FOUND",
+      });
+    }
+    const role = await visitRole(
+      req,
+      res,
+      appointment.patientId,
+      appointment.providerId,
+      "appointments:write",
+    );
+    if (!role) return;
 
+    let session: VisitSession;
+    if (role === "patient") {
+      const result = await VisitService.checkIn(appointment, req.user!.id);
+      if (result.ok === false) {
+        return res.status(409).json({
+          success: false,
+          error: CHECK_IN_MESSAGES[result.reason],
+          code: "CHECK_IN_UNAVAILABLE",
+          reason: result.reason,
+        });
+      }
+      session = result.session;
+      if (result.created) {
+        AuditLogger.logEvent({
+          userId: req.user!.id,
+          action: "VISIT_CHECKED_IN",
+          resourceType: "visit_session",
+          resourceId: session.id,
+          details: {
+            patientId: session.patientId,
+            appointmentId: appointment.id,
+          },
+        });
+        getWebSocketService()?.updateVisit(session, "checked_in");
+      }
+    } else {
+      session = await VisitService.getByAppointment(appointment.id);
+      if (!session) {
+        return res.status(409).json({
+          success: false,
+          error: "The patient has not checked in yet",
+          code: "VISIT_NOT_STARTED",
+        });
+      }
+    }
+
+    const events = await VisitService.getEvents(session.id);
     res.json({
       success: true,
-      data: room,
+      data: {
+        roomId: session.id,
+        session,
+        timers: VisitService.timers(session, events),
+        iceServers: VisitService.iceServers(),
+        signaling: { path: "/ws", sessionId: session.id },
+      },
     });
   } catch (error) {
     console.error("Create room error:", error);
@@ -83,16 +248,217 @@ export const createConsultationRoom: RequestHandler = async (req, res) => {
   }
 };
 
-// Generate consultation summary
-export const generateConsultationSummary: RequestHandler = async (req, res) => {
+// Patients waiting for the caller (or, for schedulers, a given provider)
+export const getWaitingRoom = async (
+  req: AuthenticatedRequest,
+  res: Response,
+) => {
   try {
-    const { roomId } = req.params;
-    const summary =
-      await TelemedicineService.generateConsultationSummary(roomId);
+    const providerId = (req.query.providerId as string) || req.user!.id;
+    if (
+      providerId !== req.user!.id &&
+      !AccessControl.hasPermission(req.user!.role, "scheduling:manage")
+    ) {
+      return res.status(403).json({
+        success: false,
+        error: "Insufficient permissions",
+        code: "INSUFFICIENT_PERMISSIONS",
+      });
+    }
 
+    const sessions = await VisitService.listWaiting(providerId);
     res.json({
       success: true,
-      data: summary,
+      data: sessions.map((session) => ({
+        ...session,
+        waitSeconds: VisitService.timers(session, []).waitSeconds,
+      })),
+    });
+  } catch (error) {
+    console.error("Waiting room error:", error);
+    res.status(500).json({
+      success: false,
+      error: "Failed to get waiting room",
+    });
+  }
+};
+
+// A visit with its connection history and running timers
+export const getVisit = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const session = await VisitService.get(req.params.sessionId);
+    if (!session) return visitNotFound(res);
+    const role = await visitRole(
+      req,
+      res,
+      session.patientId,
+      session.providerId,
+      "appointments:read",
+    );
+    if (!role) return;
+
+    const events = await VisitService.getEvents(session.id);
+    res.json({
+      success: true,
+      data: {
+        session,
+        events,
+        timers: VisitService.timers(session, events),
+      },
+    });
+  } catch (error) {
+    console.error("Get visit error:", error);
+    res.status(500).json({
+      success: false,
+      error: "Failed to get visit",
+    });
+  }
+};
+
+// The provider brings a waiting patient into the visit
+export const admitPatient = async (
+  req: AuthenticatedRequest,
+  res: Response,
+) => {
+  try {
+    const session = await VisitService.get(req.params.sessionId);
+    if (!session) return visitNotFound(res);
+    if (session.providerId !== req.user!.id) {
+      return res.status(403).json({
+        success: false,
+        error: "Only the visit's provider can admit the patient",
+        code: "INSUFFICIENT_PERMISSIONS",
+      });
+    }
+
+    const admitted = await VisitService.admit(session, req.user!.id);
+    if (!admitted) {
+      return res.status(409).json({
+        success: false,
+        error: "The patient is not in the waiting room",
+        code: "VISIT_NOT_WAITING",
+      });
+    }
+
+    AuditLogger.logEvent({
+      userId: req.user!.id,
+      action: "VISIT_ADMITTED",
+      resourceType: "visit_session",
+      resourceId: session.id,
+      details: { patientId: session.patientId },
+    });
+    getWebSocketService()?.updateVisit(admitted, "admitted");
+
+    res.json({ success: true, data: admitted });
+  } catch (error) {
+    console.error("Admit patient error:", error);
+    res.status(500).json({
+      success: false,
+      error: "Failed to admit patient",
+    });
+  }
+};
+
+// The provider closes the visit with their notes
+export const endVisit = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const session = await VisitService.get(req.params.sessionId);
+    if (!session) return visitNotFound(res);
+    if (session.providerId !== req.user!.id) {
+      return res.status(403).json({
+        success: false,
+        error: "Only the visit's provider can end it",
+        code: "INSUFFICIENT_PERMISSIONS",
+      });
+    }
+
+    const { summary, diagnosis, recommendations, followUp } = req.body;
+    if (
+      [diagnosis, recommendations].some(
+        (list) => list !== undefined && !Array.isArray(list),
+      )
+    ) {
+      return res.status(400).json({
+        success: false,
+        error: "diagnosis and recommendations must be lists",
+        code: "VALIDATION_ERROR",
+      });
+    }
+
+    const ended = await VisitService.end(session, req.user!.id, {
+      summary,
+      diagnosis,
+      recommendations,
+      followUp,
+    });
+    if (!ended) {
+      return res.status(409).json({
+        success: false,
+        error: "Visit has already ended",
+        code: "VISIT_ENDED",
+      });
+    }
+
+    AuditLogger.logEvent({
+      userId: req.user!.id,
+      action: "VISIT_ENDED",
+      resourceType: "visit_session",
+      resourceId: session.id,
+      details: {
+        patientId: session.patientId,
+        billableSeconds: ended.billableSeconds,
+      },
+    });
+    getWebSocketService()?.updateVisit(ended, "ended");
+
+    res.json({ success: true, data: ended });
+  } catch (error) {
+    console.error("End visit error:", error);
+    res.status(500).json({
+      success: false,
+      error: "Failed to end visit",
+    });
+  }
+};
+
+// Summary of an ended visit, from the provider's notes and the visit timers
+export const generateConsultationSummary = async (
+  req: AuthenticatedRequest,
+  res: Response,
+) => {
+  try {
+    const session = await VisitService.get(req.params.roomId);
+    if (!session) return visitNotFound(res);
+    const role = await visitRole(
+      req,
+      res,
+      session.patientId,
+      session.providerId,
+      "appointments:read",
+    );
+    if (!role) return;
+    if (session.status !== "ended") {
+      return res.status(409).json({
+        success: false,
+        error: "Visit is still open",
+        code: "VISIT_NOT_ENDED",
+      });
+    }
+
+    const timers = VisitService.timers(
+      session,
+      await VisitService.getEvents(session.id),
+    );
+    res.json({
+      success: true,
+      data: {
+        summary: session.summary || "",
+        diagnosis: session.diagnosis,
+        recommendations: session.recommendations,
+        followUp: session.followUp,
+        duration: Math.round(timers.visitSeconds / 60),
+        billableMinutes: Math.round((session.billableSeconds || 0) / 60),
+      },
     });
   } catch (error) {
     console.error("Generate summary error:", error);
@@ -103,18 +469,63 @@ export const generateConsultationSummary: RequestHandler = async (req, res) => {
   }
 };
 
-// Emergency triage
-export const triageEmergency: RequestHandler = async (req, res) => {
+// Emergency triage against the active general protocol; the decision is
+// kept with the protocol version that made it
+export const triageEmergency = async (
+  req: AuthenticatedRequest,
+  res: Response,
+) => {
   try {
-    const { symptoms, vitals } = req.body;
-    const triage = TelemedicineService.triageEmergencyConsultation(
-      symptoms,
-      vitals,
+    const parsed = TriageService.parseInput(req.body);
+    if (parsed.ok === false) {
+      return res.status(400).json({
+        success: false,
+        error: parsed.error,
+        code: "VALIDATION_ERROR",
+      });
+    }
+
+    const assessment = await TriageService.assess(
+      DEFAULT_PROTOCOL,
+      parsed.input,
+      {
+        patientId: req.patientId!,
+        decidedBy: req.user!.id,
+        source: "telemedicine",
+      },
     );
+    if (!assessment) {
+      return res.status(404).json({
+        success: false,
+        error: "Protocol has no active version",
+        code: "PROTOCOL_NOT_FOUND",
+      });
+    }
+
+    const { protocol, result, decisionId } = assessment;
+    AuditLogger.logEvent({
+      userId: req.user!.id,
+      action: "TRIAGE_ASSESSED",
+      resourceType: "triage_decision",
+      resourceId: decisionId,
+      details: {
+        patientId: req.patientId,
+        protocol: protocol.code,
+        version: protocol.version,
+        disposition: result.disposition,
+      },
+    });
 
     res.json({
       success: true,
-      data: triage,
+      data: {
+        ...TelemedicineService.triageEmergencyConsultation(result),
+        disposition: result.disposition,
+        rationale: result.rationale,
+        pendingQuestions: result.pendingQuestions,
+        decisionId,
+        protocol: { code: protocol.code, version: protocol.version },
+      },
     });
   } catch (error) {
     console.error("Emergency triage error:", error);
@@ -0,0 +1,299 @@
+import { Router, Response } from "express";
+import {
+  authenticateToken,
+  authorizePatient,
+  ensurePatientAccess,
+  requirePermission,
+  AuthenticatedRequest,
+} from "../middleware/auth";
+import { AuditLogger } from "../utils/auditLogger";
+import { TriageService, DEFAULT_PROTOCOL } from "../utils/triage";
+
+const router = Router();
+
+const PROTOCOL_CODE = /^[a-z0-9_-]{1,50}$/;
+
+// Every protocol version, newest first within each protocol
+router.get(
+  "/protocols",
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const protocols = await TriageService.listProtocols();
+      res.json({ protocols });
+    } catch (error) {
+      console.error("List triage protocols error:", error);
+      res.status(500).json({
+        error: "Internal server error",
+        code: "INTERNAL_ERROR",
+      });
+    }
+  },
+);
+
+// The version currently used for triage, with its questions and rules
+router.get(
+  "/protocols/:code",
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const protocol = await TriageService.activeProtocol(req.params.code);
+      if (!protocol) {
+        return res.status(404).json({
+          error: "Protocol has no active version",
+          code: "PROTOCOL_NOT_FOUND",
+        });
+      }
+      res.json({ protocol });
+    } catch (error) {
+      console.error("Get triage protocol error:", error);
+      res.status(500).json({
+        error: "Internal server error",
+        code: "INTERNAL_ERROR",
+      });
+    }
+  },
+);
+
+router.get(
+  "/protocols/:code/versions/:version",
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const protocol = await TriageService.getProtocol(
+        req.params.code,
+        parseInt(req.params.version, 10),
+      );
+      if (!protocol) {
+        return res.status(404).json({
+          error: "Protocol version not found",
+          code: "PROTOCOL_NOT_FOUND",
+        });
+      }
+      res.json({ protocol });
+    } catch (error) {
+      console.error("Get triage protocol version error:", error);
+      res.status(500).json({
+        error: "Internal server error",
+        code: "INTERNAL_ERROR",
+      });
+    }
+  },
+);
+
+// Save an edited definition as the next version of the protocol (a draft)
+router.post(
+  "/protocols/:code/versions",
+  authenticateToken,
+  requirePermission("triage:manage"),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { code } = req.params;
+      const { name, definition } = req.body;
+      if (!PROTOCOL_CODE.test(code)) {
+        return res.status(400).json({
+          error:
+            "Protocol code may only use lowercase letters, digits, - and _",
+          code: "VALIDATION_ERROR",
+        });
+      }
+      if (!name || typeof name !== "string") {
+        return res.status(400).json({
+          error: "name is required",
+          code: "VALIDATION_ERROR",
+        });
+      }
+      const problem = TriageService.validateDefinition(definition);
+      if (problem) {
+        return res.status(400).json({
+          error: problem,
+          code: "INVALID_PROTOCOL",
+        });
+      }
+
+      const protocol = await TriageService.createDraft(
+        code,
+        name,
+        definition,
+        req.user!.id,
+      );
+
+      AuditLogger.logEvent({
+        userId: req.user!.id,
+        action: "TRIAGE_PROTOCOL_DRAFTED",
+        resourceType: "triage_protocol",
+        resourceId: protocol.id,
+        details: { code, version: protocol.version },
+      });
+
+      res.status(201).json({ protocol });
+    } catch (error) {
+      console.error("Create triage protocol version error:", error);
+      res.status(500).json({
+        error: "Internal server error",
+        code: "INTERNAL_ERROR",
+      });
+    }
+  },
+);
+
+// Start triaging with a draft; the version it replaces is retired
+router.post(
+  "/protocols/:code/versions/:version/publish",
+  authenticateToken,
+  requirePermission("triage:manage"),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const draft = await TriageService.getProtocol(
+        req.params.code,
+        parseInt(req.params.version, 10),
+      );
+      if (!draft) {
+        return res.status(404).json({
+          error: "Protocol version not found",
+          code: "PROTOCOL_NOT_FOUND",
+        });
+      }
+
+      const protocol = await TriageService.publish(draft, req.user!.id);
+      if (!protocol) {
+        return res.status(409).json({
+          error: `Version ${draft.version} is ${draft.status}, not a draft`,
+          code: "PROTOCOL_NOT_DRAFT",
+        });
+      }
+
+      AuditLogger.logEvent({
+        userId: req.user!.id,
+        action: "TRIAGE_PROTOCOL_PUBLISHED",
+        resourceType: "triage_protocol",
+        resourceId: protocol.id,
+        details: { code: protocol.code, version: protocol.version },
+      });
+
+      res.json({ protocol });
+    } catch (error) {
+      console.error("Publish triage protocol error:", error);
+      res.status(500).json({
+        error: "Internal server error",
+        code: "INTERNAL_ERROR",
+      });
+    }
+  },
+);
+
+// Triage a patient (yourself, or as caregiver/care team) and keep the decision
+router.post(
+  "/assess/:userId?",
+  authenticateToken,
+  authorizePatient("triage:assess"),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const parsed = TriageService.parseInput(req.body);
+      if (parsed.ok === false) {
+        return res.status(400).json({
+          error: parsed.error,
+          code: "VALIDATION_ERROR",
+        });
+      }
+
+      const code = req.body.protocol || DEFAULT_PROTOCOL;
+      const assessment = await TriageService.assess(code, parsed.input, {
+        patientId: req.patientId!,
+        decidedBy: req.user!.id,
+        source: "triage",
+      });
+      if (!assessment) {
+        return res.status(404).json({
+          error: "Protocol has no active version",
+          code: "PROTOCOL_NOT_FOUND",
+        });
+      }
+
+      const { protocol, result, decisionId } = assessment;
+      AuditLogger.logEvent({
+        userId: req.user!.id,
+        action: "TRIAGE_ASSESSED",
+        resourceType: "triage_decision",
+        resourceId: decisionId,
+        details: {
+          patientId: req.patientId,
+          protocol: protocol.code,
+          version: protocol.version,
+          disposition: result.disposition,
+        },
+      });
+
+      res.status(201).json({
+        decisionId,
+        protocol: {
+          code: protocol.code,
+          version: protocol.version,
+          name: protocol.name,
+        },
+        ...result,
+      });
+    } catch (error) {
+      console.error("Triage assessment error:", error);
+      res.status(500).json({
+        error: "Internal server error",
+        code: "INTERNAL_ERROR",
+      });
+    }
+  },
+);
+
+// A patient's triage history, newest first
+router.get(
+  "/history/:userId?",
+  authenticateToken,
+  authorizePatient("triage:assess"),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const decisions = await TriageService.listDecisions(req.patientId!);
+      res.json({ decisions });
+    } catch (error) {
+      console.error("Triage history error:", error);
+      res.status(500).json({
+        error: "Internal server error",
+        code: "INTERNAL_ERROR",
+      });
+    }
+  },
+);
+
+// One decision with its input, rationale and protocol version
+router.get(
+  "/decisions/:decisionId",
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const decision = await TriageService.getDecision(req.params.decisionId);
+      if (!decision) {
+        return res.status(404).json({
+          error: "Triage decision not found",
+          code: "DECISION_NOT_FOUND",
+        });
+      }
+      if (
+        !(await ensurePatientAccess(
+          req,
+          res,
+          "triage:assess",
+          decision.patientId,
+        ))
+      ) {
+        return;
+      }
+      res.json({ decision });
+    } catch (error) {
+      console.error("Get triage decision error:", error);
+      res.status(500).json({
+        error: "Internal server error",
+        code: "INTERNAL_ERROR",
+      });
+    }
+  },
+);
+
+export default router;
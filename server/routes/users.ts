@@ -1,6 +1,7 @@
-import { Router, Request, Response } from "express";
+import { Router, Response } from "express";
 import { dbPool } from "../config/database";
 import {
+  validateInviteUser,
   validateUpdateProfile,
   validateUserId,
   validatePagination,
@@ -8,9 +9,14 @@ import {
 } from "../middleware/validation";
 import {
   authenticateToken,
+  authorizePatient,
   requireAdmin,
   AuthenticatedRequest,
 } from "../middleware/auth";
+import { UserPreferences } from "@shared/types";
+import { AuditLogger } from "../utils/auditLogger";
+import { MESSAGE_LOCALES, MessageTemplates } from "../utils/messageTemplates";
+import { SessionService } from "../utils/sessions";
 
 const router = Router();
 
@@ -92,6 +98,180 @@ router.get(
   },
 );
 
+const THEMES = ["light", "dark", "system"];
+
+// Why a preferences update cannot be saved, or null when it can
+const preferencesProblem = (body: any): string | null => {
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    return "Preferences must be an object";
+  }
+  if (
+    body.language !== undefined &&
+    !MessageTemplates.normalizeLocale(body.language)
+  ) {
+    return `language must be one of ${Object.keys(MESSAGE_LOCALES).join(", ")}, optionally with a region such as fr-CI`;
+  }
+  if (body.theme !== undefined && !THEMES.includes(body.theme)) {
+    return `theme must be one of ${THEMES.join(", ")}`;
+  }
+  if (body.timezone !== undefined) {
+    try {
+      new Intl.DateTimeFormat("en-US", { timeZone: body.timezone });
+    } catch {
+      return "timezone must be an IANA time zone such as Africa/Accra";
+    }
+  }
+  for (const group of ["notifications", "privacy"]) {
+    const values = body[group];
+    if (
+      values !== undefined &&
+      (typeof values !== "object" ||
+        !Object.values(values).every((value) => typeof value === "boolean"))
+    ) {
+      return `${group} must map settings to true or false`;
+    }
+  }
+  return null;
+};
+
+// Merge an update into a user's stored preferences and return the result
+const updatePreferences = async (
+  userId: string,
+  body: any,
+): Promise<Partial<UserPreferences> | null> => {
+  const current = await dbPool.query(
+    "SELECT preferences FROM users WHERE id = $1",
+    [userId],
+  );
+  if (current.rows.length === 0) {
+    return null;
+  }
+
+  const stored = current.rows[0].preferences || {};
+  const preferences: Partial<UserPreferences> = {
+    ...stored,
+    ...(body.theme !== undefined && { theme: body.theme }),
+    ...(body.language !== undefined && {
+      language: MessageTemplates.normalizeLocale(body.language)!,
+    }),
+    ...(body.timezone !== undefined && { timezone: body.timezone }),
+    ...(body.notifications && {
+      notifications: { ...stored.notifications, ...body.notifications },
+    }),
+    ...(body.privacy && {
+      privacy: { ...stored.privacy, ...body.privacy },
+    }),
+  };
+  await dbPool.query(
+    "UPDATE users SET preferences = $2, updated_at = CURRENT_TIMESTAMP WHERE id = $1",
+    [userId, JSON.stringify(preferences)],
+  );
+  return preferences;
+};
+
+// Get the caller's preferences
+router.get(
+  "/preferences",
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const result = await dbPool.query(
+        "SELECT preferences FROM users WHERE id = $1",
+        [req.user!.id],
+      );
+      if (result.rows.length === 0) {
+        return res.status(404).json({
+          error: "User not found",
+          code: "USER_NOT_FOUND",
+        });
+      }
+      res.json({ preferences: result.rows[0].preferences || {} });
+    } catch (error) {
+      console.error("Get preferences error:", error);
+      res.status(500).json({
+        error: "Internal server error",
+        code: "INTERNAL_ERROR",
+      });
+    }
+  },
+);
+
+// Update the caller's preferences; language is the one messages are sent in
+router.put(
+  "/preferences",
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const problem = preferencesProblem(req.body);
+      if (problem) {
+        return res.status(400).json({
+          error: problem,
+          code: "VALIDATION_ERROR",
+        });
+      }
+
+      const preferences = await updatePreferences(req.user!.id, req.body);
+      if (!preferences) {
+        return res.status(404).json({
+          error: "User not found",
+          code: "USER_NOT_FOUND",
+        });
+      }
+
+      res.json({ preferences });
+    } catch (error) {
+      console.error("Update preferences error:", error);
+      res.status(500).json({
+        error: "Internal server error",
+        code: "INTERNAL_ERROR",
+      });
+    }
+  },
+);
+
+// Set a patient's preferences for them, typically the language of patients
+// who only use SMS or USSD and never sign in
+router.put(
+  "/:userId/preferences",
+  authenticateToken,
+  authorizePatient("messaging:send"),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const problem = preferencesProblem(req.body);
+      if (problem) {
+        return res.status(400).json({
+          error: problem,
+          code: "VALIDATION_ERROR",
+        });
+      }
+
+      const preferences = await updatePreferences(req.patientId!, req.body);
+      if (!preferences) {
+        return res.status(404).json({
+          error: "User not found",
+          code: "USER_NOT_FOUND",
+        });
+      }
+
+      AuditLogger.logEvent({
+        userId: req.user!.id,
+        action: "USER_PREFERENCES_UPDATED",
+        resourceType: "user",
+        resourceId: req.patientId!,
+        details: { fields: Object.keys(req.body) },
+      });
+
+      res.json({ preferences });
+    } catch (error) {
+      console.error("Update patient preferences error:", error);
+      res.status(500).json({
+        error: "Internal server error",
+        code: "INTERNAL_ERROR",
+      });
+    }
+  },
+);
+
 // Get user by ID (admin only)
 router.get(
   "/:id",
@@ -157,7 +337,7 @@ router.put(
 
       // Check if user exists
       const existingUser = await dbPool.query(
-        "SELECT id FROM users WHERE id = $1",
+        "SELECT id, role, is_active FROM users WHERE id = $1",
         [userId],
       );
 
@@ -168,6 +348,7 @@ router.put(
         });
       }
 
+      const previous = existingUser.rows[0];
       const result = await dbPool.query(
         `UPDATE users 
        SET first_name = COALESCE($1, first_name),
@@ -183,6 +364,24 @@ router.put(
 
       const user = result.rows[0];
 
+      // Sessions were opened under the old access level
+      const endReason =
+        previous.is_active && !user.is_active
+          ? "account_deactivated"
+          : previous.role !== user.role
+            ? "role_changed"
+            : null;
+      if (endReason) {
+        const revoked = await SessionService.revokeAll(userId, endReason);
+        AuditLogger.logEvent({
+          userId: req.user!.id,
+          action: "USER_SESSIONS_REVOKED",
+          resourceType: "user",
+          resourceId: userId,
+          details: { reason: endReason, revoked },
+        });
+      }
+
       res.json({
         message: "User updated successfully",
         user: {
@@ -235,6 +434,17 @@ router.delete(
         "UPDATE users SET is_active = false, updated_at = CURRENT_TIMESTAMP WHERE id = $1",
         [userId],
       );
+      const revoked = await SessionService.revokeAll(
+        userId,
+        "account_deactivated",
+      );
+      AuditLogger.logEvent({
+        userId: req.user!.id,
+        action: "USER_SESSIONS_REVOKED",
+        resourceType: "user",
+        resourceId: userId,
+        details: { reason: "account_deactivated", revoked },
+      });
 
       res.json({
         message: "User deactivated successfully",
@@ -249,23 +459,110 @@ router.delete(
   },
 );
 
+// List a user's open sessions (admin only)
+router.get(
+  "/:id/sessions",
+  authenticateToken,
+  requireAdmin,
+  validateUserId,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const sessions = await SessionService.list(req.params.id);
+      res.json({ sessions });
+    } catch (error) {
+      console.error("List user sessions error:", error);
+      res.status(500).json({
+        error: "Internal server error",
+        code: "INTERNAL_ERROR",
+      });
+    }
+  },
+);
+
+// Force a user out of every session (admin only)
+router.delete(
+  "/:id/sessions",
+  authenticateToken,
+  requireAdmin,
+  validateUserId,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.params.id;
+      const revoked = await SessionService.revokeAll(userId, "admin_revoked");
+
+      AuditLogger.logEvent({
+        userId: req.user!.id,
+        action: "USER_SESSIONS_REVOKED",
+        resourceType: "user",
+        resourceId: userId,
+        details: { reason: "admin_revoked", revoked },
+      });
+
+      res.json({
+        message: "User sessions revoked",
+        revoked,
+      });
+    } catch (error) {
+      console.error("Revoke user sessions error:", error);
+      res.status(500).json({
+        error: "Internal server error",
+        code: "INTERNAL_ERROR",
+      });
+    }
+  },
+);
+
+// Force a user out of one session (admin only)
+router.delete(
+  "/:id/sessions/:sessionId",
+  authenticateToken,
+  requireAdmin,
+  validateUserId,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { id: userId, sessionId } = req.params;
+
+      const revoked = await SessionService.revoke(
+        sessionId,
+        "admin_revoked",
+        userId,
+      );
+      if (!revoked) {
+        return res.status(404).json({
+          error: "Session not found",
+          code: "SESSION_NOT_FOUND",
+        });
+      }
+
+      AuditLogger.logEvent({
+        userId: req.user!.id,
+        action: "USER_SESSION_REVOKED",
+        resourceType: "user",
+        resourceId: userId,
+        details: { reason: "admin_revoked", sessionId },
+      });
+
+      res.json({ message: "Session revoked" });
+    } catch (error) {
+      console.error("Revoke user session error:", error);
+      res.status(500).json({
+        error: "Internal server error",
+        code: "INTERNAL_ERROR",
+      });
+    }
+  },
+);
+
 // Invite new user (admin only)
 router.post(
   "/invite",
   authenticateToken,
   requireAdmin,
-  async (req: Request, res: Response) => {
+  validateInviteUser,
+  async (req: AuthenticatedRequest, res: Response) => {
     try {
       const { email, firstName, lastName, role, phone } = req.body;
 
-      // Validate required fields
-      if (!email || !firstName || !lastName || !role) {
-        return res.status(400).json({
-          error: "Missing required fields",
-          code: "MISSING_FIELDS",
-        });
-      }
-
       // Check if user already exists
       const existingUser = await dbPool.query(
         "SELECT id FROM users WHERE email = $1",
@@ -300,6 +597,14 @@ router.post(
 
       const user = result.rows[0];
 
+      AuditLogger.logEvent({
+        userId: req.user!.id,
+        action: "USER_INVITED",
+        resourceType: "user",
+        resourceId: user.id,
+        details: { role: user.role },
+      });
+
       // TODO: Send invitation email with temporary password
       // For now, return the temporary password (remove in production)
       res.status(201).json({
@@ -0,0 +1,496 @@
+import { Router, Request, Response, NextFunction } from "express";
+import {
+  authenticateToken,
+  requirePermission,
+  AuthenticatedRequest,
+} from "../middleware/auth";
+import { AuditLogger } from "../utils/auditLogger";
+import { EncryptionService } from "../utils/encryption";
+import {
+  FOLLOW_UP_TYPES,
+  FollowUpStatus,
+  FollowUpType,
+  SessionState,
+  UssdService,
+} from "../utils/ussd";
+import { USSD_GATEWAYS } from "../utils/ussdGateways";
+
+const router = Router();
+
+const MENU_KEY = /^[a-z0-9_-]{1,50}$/;
+const LANGUAGE = /^[a-z]{2,3}(-[A-Za-z]{2})?$/;
+const FOLLOW_UP_STATUSES: FollowUpStatus[] = [
+  "open",
+  "pending",
+  "done",
+  "sent",
+  "failed",
+  "cancelled",
+];
+const MAX_SIMULATED_INPUTS = 50;
+
+/**
+ * Gateways cannot log in, so their callback URL carries a shared token,
+ * in the X-Gateway-Token header or a `token` query parameter. Callbacks
+ * are refused until USSD_GATEWAY_TOKEN is set, since the general rate
+ * limit skips them.
+ */
+const verifyGatewayToken = (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+) => {
+  const expected = process.env.USSD_GATEWAY_TOKEN;
+  if (!expected) {
+    return res.status(503).json({
+      error: "USSD gateway token not configured",
+      code: "USSD_NOT_CONFIGURED",
+    });
+  }
+
+  const token = String(req.get("X-Gateway-Token") || req.query.token || "");
+  if (!EncryptionService.secureCompare(token, expected)) {
+    AuditLogger.logSystemEvent("ussd", "gateway_rejected", {
+      provider: req.params.provider,
+      ip: req.ip,
+    });
+    return res.status(401).json({
+      error: "Invalid gateway token",
+      code: "INVALID_GATEWAY_TOKEN",
+    });
+  }
+  next();
+};
+
+// One screen of a USSD session, in the gateway's own format
+router.post(
+  "/gateways/:provider/callback",
+  verifyGatewayToken,
+  async (req: Request, res: Response) => {
+    const gateway = USSD_GATEWAYS[req.params.provider];
+    if (!gateway) {
+      return res.status(404).json({
+        error: `Unknown USSD gateway; use ${Object.keys(USSD_GATEWAYS).join(", ")}`,
+        code: "UNKNOWN_GATEWAY",
+      });
+    }
+    const request = gateway.parse(req.body);
+    if (!request) {
+      return res.status(400).json({
+        error: `Not a ${gateway.label} USSD request`,
+        code: "INVALID_USSD_REQUEST",
+      });
+    }
+
+    let reply;
+    try {
+      reply = await UssdService.handle(gateway, request);
+    } catch (error) {
+      console.error("USSD callback error:", error);
+      // The caller still needs a screen; a gateway error just hangs
+      reply = {
+        text: "Sorry, something went wrong. Please try again later.",
+        end: true,
+      };
+    }
+    const { contentType, body } = gateway.render(reply);
+    res.type(contentType).send(body);
+  },
+);
+
+// Every menu version, newest first within each menu
+router.get(
+  "/menus",
+  authenticateToken,
+  requirePermission("ussd:manage"),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const menus = await UssdService.listMenus();
+      res.json({ menus });
+    } catch (error) {
+      console.error("List USSD menus error:", error);
+      res.status(500).json({
+        error: "Internal server error",
+        code: "INTERNAL_ERROR",
+      });
+    }
+  },
+);
+
+// The version new sessions start on
+router.get(
+  "/menus/:key",
+  authenticateToken,
+  requirePermission("ussd:manage"),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const menu = await UssdService.activeMenu(req.params.key);
+      if (!menu) {
+        return res.status(404).json({
+          error: "Menu has no active version",
+          code: "MENU_NOT_FOUND",
+        });
+      }
+      res.json({ menu });
+    } catch (error) {
+      console.error("Get USSD menu error:", error);
+      res.status(500).json({
+        error: "Internal server error",
+        code: "INTERNAL_ERROR",
+      });
+    }
+  },
+);
+
+router.get(
+  "/menus/:key/versions/:version",
+  authenticateToken,
+  requirePermission("ussd:manage"),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const menu = await UssdService.getMenu(
+        req.params.key,
+        parseInt(req.params.version, 10),
+      );
+      if (!menu) {
+        return res.status(404).json({
+          error: "Menu version not found",
+          code: "MENU_NOT_FOUND",
+        });
+      }
+      res.json({ menu });
+    } catch (error) {
+      console.error("Get USSD menu version error:", error);
+      res.status(500).json({
+        error: "Internal server error",
+        code: "INTERNAL_ERROR",
+      });
+    }
+  },
+);
+
+// Save an edited menu as its next version (a draft)
+router.post(
+  "/menus/:key/versions",
+  authenticateToken,
+  requirePermission("ussd:manage"),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { key } = req.params;
+      const { name, serviceCode, language = "en", definition } = req.body;
+      if (!MENU_KEY.test(key)) {
+        return res.status(400).json({
+          error: "Menu key may only use lowercase letters, digits, - and _",
+          code: "VALIDATION_ERROR",
+        });
+      }
+      if (!name || typeof name !== "string") {
+        return res.status(400).json({
+          error: "name is required",
+          code: "VALIDATION_ERROR",
+        });
+      }
+      if (
+        typeof serviceCode !== "string" ||
+        !/^\*?\d+(\*\d+)*#?$/.test(serviceCode.trim())
+      ) {
+        return res.status(400).json({
+          error: "serviceCode must be a USSD code such as *765#",
+          code: "VALIDATION_ERROR",
+        });
+      }
+      if (typeof language !== "string" || !LANGUAGE.test(language)) {
+        return res.status(400).json({
+          error: "language must be a language code such as en or tw",
+          code: "VALIDATION_ERROR",
+        });
+      }
+      const problem = UssdService.validateDefinition(definition);
+      if (problem) {
+        return res.status(400).json({
+          error: problem,
+          code: "INVALID_MENU",
+        });
+      }
+
+      const menu = await UssdService.createDraft(
+        key,
+        { name, serviceCode: serviceCode.trim(), language, definition },
+        req.user!.id,
+      );
+
+      AuditLogger.logEvent({
+        userId: req.user!.id,
+        action: "USSD_MENU_DRAFTED",
+        resourceType: "ussd_menu",
+        resourceId: menu.id,
+        details: { key, version: menu.version, serviceCode: menu.serviceCode },
+      });
+
+      res.status(201).json({ menu });
+    } catch (error) {
+      console.error("Create USSD menu version error:", error);
+      res.status(500).json({
+        error: "Internal server error",
+        code: "INTERNAL_ERROR",
+      });
+    }
+  },
+);
+
+// Walk a menu version with a list of inputs, as a caller would, without
+// starting a session or creating follow-ups
+router.post(
+  "/menus/:key/versions/:version/simulate",
+  authenticateToken,
+  requirePermission("ussd:manage"),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const menu = await UssdService.getMenu(
+        req.params.key,
+        parseInt(req.params.version, 10),
+      );
+      if (!menu) {
+        return res.status(404).json({
+          error: "Menu version not found",
+          code: "MENU_NOT_FOUND",
+        });
+      }
+      const inputs = req.body.inputs;
+      if (
+        !Array.isArray(inputs) ||
+        inputs.length > MAX_SIMULATED_INPUTS ||
+        !inputs.every((input) => typeof input === "string")
+      ) {
+        return res.status(400).json({
+          error: `inputs must be a list of up to ${MAX_SIMULATED_INPUTS} entries`,
+          code: "VALIDATION_ERROR",
+        });
+      }
+
+      const started = UssdService.start(menu.definition);
+      const screens = [{ input: null, ...started.reply }];
+      let state: SessionState = started.state;
+      let followUp = null;
+      for (const input of inputs) {
+        if (screens[screens.length - 1].end) break;
+        const result = UssdService.step(menu.definition, state, input);
+        state = result.state;
+        screens.push({ input, ...result.reply });
+        if (result.selected) {
+          followUp = {
+            ...UssdService.followUpFor(result.selected.item),
+            answers: result.selected.answers,
+          };
+        }
+      }
+
+      res.json({ screens, followUp });
+    } catch (error) {
+      console.error("Simulate USSD menu error:", error);
+      res.status(500).json({
+        error: "Internal server error",
+        code: "INTERNAL_ERROR",
+      });
+    }
+  },
+);
+
+// Start new sessions on a draft; the version it replaces is retired
+router.post(
+  "/menus/:key/versions/:version/publish",
+  authenticateToken,
+  requirePermission("ussd:manage"),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const draft = await UssdService.getMenu(
+        req.params.key,
+        parseInt(req.params.version, 10),
+      );
+      if (!draft) {
+        return res.status(404).json({
+          error: "Menu version not found",
+          code: "MENU_NOT_FOUND",
+        });
+      }
+
+      const published = await UssdService.publish(draft, req.user!.id);
+      if (published.ok === false) {
+        return published.reason === "not_draft"
+          ? res.status(409).json({
+              error: `Version ${draft.version} is ${draft.status}, not a draft`,
+              code: "MENU_NOT_DRAFT",
+            })
+          : res.status(409).json({
+              error: `Another menu is active on *${draft.serviceCode}#`,
+              code: "SERVICE_CODE_IN_USE",
+            });
+      }
+
+      AuditLogger.logEvent({
+        userId: req.user!.id,
+        action: "USSD_MENU_PUBLISHED",
+        resourceType: "ussd_menu",
+        resourceId: published.menu.id,
+        details: {
+          key: published.menu.key,
+          version: published.menu.version,
+          serviceCode: published.menu.serviceCode,
+        },
+      });
+
+      res.json({ menu: published.menu });
+    } catch (error) {
+      console.error("Publish USSD menu error:", error);
+      res.status(500).json({
+        error: "Internal server error",
+        code: "INTERNAL_ERROR",
+      });
+    }
+  },
+);
+
+// The follow-up queue: callbacks and requests to work, soonest due first
+router.get(
+  "/follow-ups",
+  authenticateToken,
+  requirePermission("ussd:respond"),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const statuses = String(req.query.status || "open")
+        .split(",")
+        .map((status) => status.trim()) as FollowUpStatus[];
+      if (!statuses.every((status) => FOLLOW_UP_STATUSES.includes(status))) {
+        return res.status(400).json({
+          error: `status must be a list of ${FOLLOW_UP_STATUSES.join(", ")}`,
+          code: "VALIDATION_ERROR",
+        });
+      }
+      const type = req.query.type as FollowUpType | undefined;
+      if (type && !FOLLOW_UP_TYPES.includes(type)) {
+        return res.status(400).json({
+          error: `type must be one of ${FOLLOW_UP_TYPES.join(", ")}`,
+          code: "VALIDATION_ERROR",
+        });
+      }
+
+      const followUps = await UssdService.listFollowUps({ statuses, type });
+      const now = Date.now();
+      res.json({
+        followUps: followUps.map((followUp) => ({
+          ...followUp,
+          overdue:
+            followUp.status === "open" && Date.parse(followUp.dueAt) < now,
+        })),
+      });
+    } catch (error) {
+      console.error("List USSD follow-ups error:", error);
+      res.status(500).json({
+        error: "Internal server error",
+        code: "INTERNAL_ERROR",
+      });
+    }
+  },
+);
+
+// Take an open follow-up
+router.post(
+  "/follow-ups/:followUpId/assign",
+  authenticateToken,
+  requirePermission("ussd:respond"),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const followUp = await UssdService.getFollowUp(req.params.followUpId);
+      if (!followUp) {
+        return res.status(404).json({
+          error: "Follow-up not found",
+          code: "FOLLOW_UP_NOT_FOUND",
+        });
+      }
+
+      const assigned = await UssdService.assignFollowUp(followUp, req.user!.id);
+      if (!assigned) {
+        return res.status(409).json({
+          error: `Follow-up is ${followUp.status}`,
+          code: "FOLLOW_UP_CLOSED",
+        });
+      }
+
+      AuditLogger.logEvent({
+        userId: req.user!.id,
+        action: "USSD_FOLLOW_UP_ASSIGNED",
+        resourceType: "ussd_follow_up",
+        resourceId: followUp.id,
+        details: { type: followUp.type, patientId: followUp.patientId },
+      });
+
+      res.json({ followUp: assigned });
+    } catch (error) {
+      console.error("Assign USSD follow-up error:", error);
+      res.status(500).json({
+        error: "Internal server error",
+        code: "INTERNAL_ERROR",
+      });
+    }
+  },
+);
+
+// Close an open follow-up once the patient was called or the request handled
+router.post(
+  "/follow-ups/:followUpId/complete",
+  authenticateToken,
+  requirePermission("ussd:respond"),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const followUp = await UssdService.getFollowUp(req.params.followUpId);
+      if (!followUp) {
+        return res.status(404).json({
+          error: "Follow-up not found",
+          code: "FOLLOW_UP_NOT_FOUND",
+        });
+      }
+      const { outcome = "done", notes } = req.body;
+      if (!["done", "cancelled"].includes(outcome)) {
+        return res.status(400).json({
+          error: "outcome must be done or cancelled",
+          code: "VALIDATION_ERROR",
+        });
+      }
+
+      const closed = await UssdService.closeFollowUp(
+        followUp,
+        req.user!.id,
+        outcome,
+        notes,
+      );
+      if (!closed) {
+        return res.status(409).json({
+          error: `Follow-up is ${followUp.status}`,
+          code: "FOLLOW_UP_CLOSED",
+        });
+      }
+
+      AuditLogger.logEvent({
+        userId: req.user!.id,
+        action: "USSD_FOLLOW_UP_CLOSED",
+        resourceType: "ussd_follow_up",
+        resourceId: followUp.id,
+        details: {
+          type: followUp.type,
+          outcome,
+          patientId: followUp.patientId,
+        },
+      });
+
+      res.json({ followUp: closed });
+    } catch (error) {
+      console.error("Complete USSD follow-up error:", error);
+      res.status(500).json({
+        error: "Internal server error",
+        code: "INTERNAL_ERROR",
+      });
+    }
+  },
+);
+
+export default router;
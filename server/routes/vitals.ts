@@ -1,11 +1,15 @@
-import { RequestHandler } from "express";
+import { Response } from "express";
+import { AuthenticatedRequest } from "../middleware/auth";
 import { db } from "../utils/databaseAdapter";
 import { ApiResponse, VitalSigns } from "@shared/types";
 
 // Get vital signs for a user
-export const getVitalSigns: RequestHandler = async (req, res) => {
+export const getVitalSigns = async (
+  req: AuthenticatedRequest,
+  res: Response,
+) => {
   try {
-    const userId = req.params.userId || "user-1";
+    const userId = req.patientId!;
     const vitals = db.getVitalSigns(userId);
 
     const response: ApiResponse<VitalSigns[]> = {
@@ -24,9 +28,12 @@ export const getVitalSigns: RequestHandler = async (req, res) => {
 };
 
 // Add new vital signs
-export const addVitalSigns: RequestHandler = async (req, res) => {
+export const addVitalSigns = async (
+  req: AuthenticatedRequest,
+  res: Response,
+) => {
   try {
-    const userId = req.body.userId || "user-1";
+    const userId = req.patientId!;
     const vitalData = req.body;
 
     const vital = db.createVitalSigns({
@@ -53,9 +60,12 @@ export const addVitalSigns: RequestHandler = async (req, res) => {
 };
 
 // Get vital signs trends
-export const getVitalTrends: RequestHandler = async (req, res) => {
+export const getVitalTrends = async (
+  req: AuthenticatedRequest,
+  res: Response,
+) => {
   try {
-    const userId = req.params.userId || "user-1";
+    const userId = req.patientId!;
     const days = parseInt(req.query.days as string) || 30;
 
     const vitals = db.getVitalSigns(userId);
@@ -1,68 +1,173 @@
-import { RequestHandler } from "express";
-import { WearableIntegrationService } from "../utils/wearableIntegration";
-import { ApiResponse } from "@shared/types";
+import { NextFunction, Request, Response } from "express";
+import fs from "fs";
+import multer from "multer";
+import os from "os";
+import { AuthenticatedRequest, ensurePatientAccess } from "../middleware/auth";
+import { AuditLogger } from "../utils/auditLogger";
+import { SchedulingService } from "../utils/scheduling";
+import { PayloadError } from "../utils/wearableConnectors";
+import { WearableImportService } from "../utils/wearableImport";
+import {
+  WearableDevice,
+  WearableIntegrationService,
+} from "../utils/wearableIntegration";
 
-// Sync Apple Health data
-export const syncAppleHealth: RequestHandler = async (req, res) => {
-  try {
-    const userId = req.params.userId || "user-1";
-    const healthData = await WearableIntegrationService.syncAppleHealth(userId);
+const IMPORT_MAX_MB = Number(process.env.WEARABLE_IMPORT_MAX_MB || 500);
 
-    res.json({
-      success: true,
-      data: healthData,
+// Health exports run to hundreds of megabytes, so uploads go to disk
+const importUpload = multer({
+  storage: multer.diskStorage({ destination: os.tmpdir() }),
+  limits: { fileSize: IMPORT_MAX_MB * 1024 * 1024, files: 1 },
+}).single("file");
+
+// Store a payload for a device and report what was kept
+const ingestFor = async (
+  device: WearableDevice,
+  payload: any,
+  res: Response,
+  userId: string,
+) => {
+  const outcome = await WearableIntegrationService.ingest(device, payload);
+  if (outcome.ok === false) {
+    return res.status(400).json({
+      success: false,
+      error: outcome.error,
     });
+  }
+
+  const { result } = outcome;
+  AuditLogger.logEvent({
+    userId,
+    action: "WEARABLE_READINGS_INGESTED",
+    resourceType: "rpm_device",
+    resourceId: device.id,
+    details: {
+      patientId: device.patientId,
+      source: device.source,
+      accepted: result.accepted,
+      duplicates: result.duplicates,
+      rejected: result.rejected.length,
+      alerts: result.alerts.length,
+    },
+  });
+
+  res.status(result.accepted > 0 ? 201 : 200).json({
+    success: true,
+    data: result,
+  });
+};
+
+// Available connectors and the measurements each one can send
+export const getConnectors = async (
+  req: AuthenticatedRequest,
+  res: Response,
+) => {
+  res.json({
+    success: true,
+    data: WearableIntegrationService.listConnectors(),
+  });
+};
+
+// Readings pushed by a device (or vendor bridge) holding an ingest token
+export const ingestWithDeviceToken = async (req: Request, res: Response) => {
+  try {
+    const device = await WearableIntegrationService.getDeviceByToken(
+      req.header("X-Device-Token") || "",
+    );
+    if (!device) {
+      return res.status(401).json({
+        success: false,
+        error: "Invalid or revoked device token",
+      });
+    }
+    await ingestFor(device, req.body, res, device.patientId);
   } catch (error) {
-    console.error("Apple Health sync error:", error);
+    console.error("Device ingestion error:", error);
     res.status(500).json({
       success: false,
-      error: "Failed to sync Apple Health data",
+      error: "Failed to ingest device readings",
     });
   }
 };
 
-// Sync Fitbit data
-export const syncFitbit: RequestHandler = async (req, res) => {
+// Readings uploaded for a device by a signed-in user, e.g. the companion app
+export const ingestDeviceReadings = async (
+  req: AuthenticatedRequest,
+  res: Response,
+) => {
   try {
-    const userId = req.params.userId || "user-1";
-    const fitbitData = await WearableIntegrationService.syncFitbit(userId);
-
-    res.json({
-      success: true,
-      data: fitbitData,
-    });
+    const device = await WearableIntegrationService.getDevice(
+      req.params.deviceId,
+    );
+    if (!device || device.status !== "active") {
+      return res.status(404).json({
+        success: false,
+        error: "Device not found",
+      });
+    }
+    if (
+      !(await ensurePatientAccess(req, res, "vitals:write", device.patientId))
+    ) {
+      return;
+    }
+    await ingestFor(device, req.body, res, req.user!.id);
   } catch (error) {
-    console.error("Fitbit sync error:", error);
+    console.error("Device ingestion error:", error);
     res.status(500).json({
       success: false,
-      error: "Failed to sync Fitbit data",
+      error: "Failed to ingest device readings",
     });
   }
 };
 
-// Sync continuous glucose monitor
-export const syncCGM: RequestHandler = async (req, res) => {
+// Stored readings, newest first
+export const getMeasurements = async (
+  req: AuthenticatedRequest,
+  res: Response,
+) => {
   try {
-    const userId = req.params.userId || "user-1";
-    const cgmData = await WearableIntegrationService.syncCGM(userId);
+    const { type, from, to, limit } = req.query as Record<string, string>;
+    const range = { from: from && new Date(from), to: to && new Date(to) };
+    if (
+      (range.from && isNaN(range.from.getTime())) ||
+      (range.to && isNaN(range.to.getTime()))
+    ) {
+      return res.status(400).json({
+        success: false,
+        error: "from and to must be ISO dates",
+      });
+    }
+
+    const measurements = await WearableIntegrationService.getMeasurements(
+      req.patientId!,
+      {
+        type,
+        from: range.from || undefined,
+        to: range.to || undefined,
+        limit: limit ? parseInt(limit, 10) : undefined,
+      },
+    );
 
     res.json({
       success: true,
-      data: cgmData,
+      data: measurements,
     });
   } catch (error) {
-    console.error("CGM sync error:", error);
+    console.error("Get wearable measurements error:", error);
     res.status(500).json({
       success: false,
-      error: "Failed to sync CGM data",
+      error: "Failed to get wearable measurements",
     });
   }
 };
 
 // Get aggregated wearable data
-export const getAggregatedWearableData: RequestHandler = async (req, res) => {
+export const getAggregatedWearableData = async (
+  req: AuthenticatedRequest,
+  res: Response,
+) => {
   try {
-    const userId = req.params.userId || "user-1";
+    const userId = req.patientId!;
     const aggregatedData =
       await WearableIntegrationService.aggregateWearableData(userId);
 
@@ -80,19 +185,42 @@ export const getAggregatedWearableData: RequestHandler = async (req, res) => {
 };
 
 // Register new wearable device
-export const registerWearableDevice: RequestHandler = async (req, res) => {
+export const registerWearableDevice = async (
+  req: AuthenticatedRequest,
+  res: Response,
+) => {
   try {
-    const userId = req.body.userId || "user-1";
-    const deviceInfo = req.body;
+    const userId = req.patientId!;
+    const { source, name, model, manufacturer, serial } = req.body;
 
     const registration = await WearableIntegrationService.registerDevice(
       userId,
-      deviceInfo,
+      { source, name, model, manufacturer, serial },
     );
+    if (!registration) {
+      return res.status(400).json({
+        success: false,
+        error: `Unknown connector ${source}`,
+      });
+    }
 
-    res.json({
+    AuditLogger.logEvent({
+      userId: req.user!.id,
+      action: "WEARABLE_DEVICE_REGISTERED",
+      resourceType: "rpm_device",
+      resourceId: registration.device.id,
+      details: { patientId: userId, source },
+    });
+
+    // The token is not stored in readable form and cannot be shown again
+    res.status(201).json({
       success: true,
-      data: registration,
+      data: {
+        ...registration,
+        connector: WearableIntegrationService.listConnectors().find(
+          (connector) => connector.source === source,
+        ),
+      },
     });
   } catch (error) {
     console.error("Device registration error:", error);
@@ -104,10 +232,14 @@ export const registerWearableDevice: RequestHandler = async (req, res) => {
 };
 
 // Get connected devices
-export const getConnectedDevices: RequestHandler = async (req, res) => {
+export const getConnectedDevices = async (
+  req: AuthenticatedRequest,
+  res: Response,
+) => {
   try {
-    const userId = req.params.userId || "user-1";
-    const devices = WearableIntegrationService.getConnectedDevices(userId);
+    const userId = req.patientId!;
+    const devices =
+      await WearableIntegrationService.getConnectedDevices(userId);
 
     res.json({
       success: true,
@@ -121,3 +253,181 @@ export const getConnectedDevices: RequestHandler = async (req, res) => {
     });
   }
 };
+
+// Revoke a device's ingest token; its readings are kept
+export const disconnectWearableDevice = async (
+  req: AuthenticatedRequest,
+  res: Response,
+) => {
+  try {
+    const device = await WearableIntegrationService.getDevice(
+      req.params.deviceId,
+    );
+    if (!device || device.status !== "active") {
+      return res.status(404).json({
+        success: false,
+        error: "Device not found",
+      });
+    }
+    if (
+      !(await ensurePatientAccess(req, res, "vitals:write", device.patientId))
+    ) {
+      return;
+    }
+
+    await WearableIntegrationService.disconnectDevice(device.id);
+    AuditLogger.logEvent({
+      userId: req.user!.id,
+      action: "WEARABLE_DEVICE_DISCONNECTED",
+      resourceType: "rpm_device",
+      resourceId: device.id,
+      details: { patientId: device.patientId, source: device.source },
+    });
+
+    res.json({
+      success: true,
+      data: { id: device.id, status: "disconnected" },
+    });
+  } catch (error) {
+    console.error("Disconnect device error:", error);
+    res.status(500).json({
+      success: false,
+      error: "Failed to disconnect device",
+    });
+  }
+};
+
+// Upload errors (too large, wrong field) are the client's to fix. The
+// temporary file is removed once the response is sent, whatever the outcome.
+export const importMiddleware = (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+) =>
+  importUpload(req, res, (error: any) => {
+    if (req.file) {
+      const { path } = req.file;
+      res.on("close", () => fs.promises.unlink(path).catch(() => undefined));
+    }
+    if (error instanceof multer.MulterError) {
+      return res.status(400).json({
+        success: false,
+        error:
+          error.code === "LIMIT_FILE_SIZE"
+            ? `File is larger than ${IMPORT_MAX_MB} MB`
+            : error.message,
+      });
+    }
+    next(error);
+  });
+
+// File formats accepted by the import endpoint
+export const getImportFormats = async (
+  req: AuthenticatedRequest,
+  res: Response,
+) => {
+  res.json({
+    success: true,
+    data: WearableImportService.listImporters(),
+  });
+};
+
+// Import a device export file (Apple Health, Dexcom Clarity, LibreView, cuff CSV)
+export const importWearableFile = async (
+  req: AuthenticatedRequest,
+  res: Response,
+) => {
+  try {
+    const file = req.file;
+    if (!file) {
+      return res.status(400).json({
+        success: false,
+        error: "No file uploaded",
+      });
+    }
+    const patientId = req.patientId!;
+    // The form is only read after authorization, so it cannot pick the patient
+    if (req.body.patientId && req.body.patientId !== patientId) {
+      return res.status(400).json({
+        success: false,
+        error: "Give the patient in the path or the patientId query parameter",
+      });
+    }
+    const { format, deviceId } = req.body;
+    const importer = WearableImportService.getImporter(format);
+    if (!importer) {
+      return res.status(400).json({
+        success: false,
+        error: `Format must be one of ${WearableImportService.listImporters()
+          .map((importer) => importer.format)
+          .join(", ")}`,
+      });
+    }
+    const timeZone = req.body.timeZone || "UTC";
+    if (!SchedulingService.isValidTimeZone(timeZone)) {
+      return res.status(400).json({
+        success: false,
+        error: "Unknown time zone",
+      });
+    }
+    if (deviceId) {
+      const device = await WearableIntegrationService.getDevice(deviceId);
+      if (
+        !device ||
+        device.status !== "active" ||
+        device.patientId !== patientId
+      ) {
+        return res.status(404).json({
+          success: false,
+          error: "Device not found",
+        });
+      }
+    }
+
+    let summary;
+    try {
+      summary = await WearableImportService.import(
+        fs.createReadStream(file.path),
+        importer,
+        { patientId, deviceId },
+        { timeZone, dayFirst: ["true", "1"].includes(req.body.dayFirst) },
+      );
+    } catch (error) {
+      if (error instanceof PayloadError) {
+        return res.status(400).json({
+          success: false,
+          error: error.message,
+        });
+      }
+      throw error;
+    }
+
+    AuditLogger.logEvent({
+      userId: req.user!.id,
+      action: "WEARABLE_FILE_IMPORTED",
+      resourceType: "rpm_readings",
+      resourceId: deviceId || patientId,
+      details: {
+        patientId,
+        format: importer.format,
+        fileName: file.originalname,
+        size: file.size,
+        accepted: summary.accepted,
+        duplicates: summary.duplicates,
+        rejected: summary.rejected,
+        alerts: summary.alerts.length,
+      },
+    });
+
+    res.status(summary.accepted > 0 ? 201 : 200).json({
+      success: true,
+      data: { fileName: file.originalname, ...summary },
+    });
+  } catch (error) {
+    console.error("Wearable import error:", error);
+    res.status(500).json({
+      success: false,
+      error: "Failed to import device file",
+    });
+  }
+};
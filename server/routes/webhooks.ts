@@ -1,5 +1,6 @@
 import { Request, Response } from "express";
 import { AuditLogger } from "../utils/auditLogger";
+import { SmsCommands } from "../utils/smsCommands";
 import { telnyxService } from "../utils/telnyxService";
 
 /**
@@ -282,171 +283,21 @@ export function generateTwiMLVoice(req: Request, res: Response) {
 async function handleIncomingSMS(data: any) {
   try {
     const { id, from, to, text } = data;
-    const phoneNumber = from;
-    const message = text.trim().toUpperCase();
-
-    console.log(`📨 Processing incoming SMS from ${phoneNumber}: ${text}`);
-
-    // Log incoming message
-    AuditLogger.logCommunication(
-      "unknown", // We'd need to look up patient ID by phone number
-      "sms",
-      "inbound",
-      {
-        messageId: id,
-        from: phoneNumber,
-        to,
-        message: text,
-      },
-    );
-
-    // Handle common responses
-    switch (message) {
-      case "TAKEN":
-      case "DONE":
-      case "YES":
-        await handleMedicationConfirmation(phoneNumber);
-        break;
-
-      case "HELP":
-      case "INFO":
-        await sendHelpMessage(phoneNumber);
-        break;
-
-      case "STOP":
-      case "UNSUBSCRIBE":
-        await handleOptOut(phoneNumber);
-        break;
 
-      case "EMERGENCY":
-      case "URGENT":
-      case "911":
-        await handleEmergencyResponse(phoneNumber);
-        break;
+    console.log(`📨 Processing incoming SMS from ${from}: ${text}`);
 
-      default:
-        // Check if it's a glucose reading (number)
-        const glucoseValue = parseFloat(message);
-        if (!isNaN(glucoseValue) && glucoseValue > 20 && glucoseValue < 600) {
-          await handleGlucoseReading(phoneNumber, glucoseValue);
-        } else {
-          await sendUnknownCommandMessage(phoneNumber);
-        }
-    }
+    await SmsCommands.handle({
+      messageId: id,
+      from,
+      to,
+      text: String(text || ""),
+      receivedAt: new Date(),
+    });
   } catch (error) {
     console.error("❌ Failed to process incoming SMS:", error);
   }
 }
 
-/**
- * Handle medication taken confirmation
- */
-async function handleMedicationConfirmation(phoneNumber: string) {
-  const response =
-    "✅ Thank you for confirming your medication was taken. Your care team has been notified.";
-
-  // In production, you'd update the medication adherence record
-  console.log(`💊 Medication confirmation received from ${phoneNumber}`);
-
-  // Send confirmation back to patient
-  await telnyxService.sendSMS(phoneNumber, response);
-}
-
-/**
- * Send help message
- */
-async function sendHelpMessage(phoneNumber: string) {
-  const helpMessage = `🆘 Healthcare Help:
-• Reply TAKEN after taking medication
-• Send your glucose number (e.g., 120)
-• Reply EMERGENCY for urgent help
-• Reply STOP to unsubscribe
-Need immediate help? Call (555) 123-4567`;
-
-  await telnyxService.sendSMS(phoneNumber, helpMessage);
-}
-
-/**
- * Handle opt-out requests
- */
-async function handleOptOut(phoneNumber: string) {
-  const confirmMessage =
-    "You have been unsubscribed from automated messages. You can still receive emergency alerts. To re-subscribe, contact your care team.";
-
-  // In production, you'd update the patient's communication preferences
-  console.log(`🚫 Opt-out request from ${phoneNumber}`);
-
-  await telnyxService.sendSMS(phoneNumber, confirmMessage);
-
-  // Log opt-out
-  AuditLogger.logSystemEvent("patient_communication", "opt_out", {
-    phoneNumber,
-    timestamp: new Date().toISOString(),
-  });
-}
-
-/**
- * Handle emergency responses
- */
-async function handleEmergencyResponse(phoneNumber: string) {
-  const emergencyMessage =
-    "🚨 Emergency response activated. Your care team has been notified and will contact you immediately. If this is a life-threatening emergency, call 911 now.";
-
-  console.log(`🚨 EMERGENCY response from ${phoneNumber}`);
-
-  // Send immediate response
-  await telnyxService.sendSMS(phoneNumber, emergencyMessage);
-
-  // Log emergency
-  AuditLogger.logSystemEvent("patient_communication", "emergency_response", {
-    phoneNumber,
-    timestamp: new Date().toISOString(),
-    priority: "critical",
-  });
-
-  // In production, this would trigger care team alerts
-  console.log(`🚨 Would notify care team about emergency from ${phoneNumber}`);
-}
-
-/**
- * Handle glucose reading submissions
- */
-async function handleGlucoseReading(phoneNumber: string, value: number) {
-  let responseMessage = "";
-
-  if (value < 70) {
-    responseMessage = `🚨 Your glucose is low (${value}). Take 15g fast-acting carbs immediately. Recheck in 15 minutes. Call 911 if you feel worse.`;
-  } else if (value > 250) {
-    responseMessage = `⚠️ Your glucose is high (${value}). Check ketones if possible and contact your care team. Drink water and take prescribed medication.`;
-  } else {
-    responseMessage = `✅ Glucose reading recorded: ${value} mg/dL. Keep up the good work! Your care team can see this reading.`;
-  }
-
-  console.log(
-    `🩸 Glucose reading received from ${phoneNumber}: ${value} mg/dL`,
-  );
-
-  // Send response
-  await telnyxService.sendSMS(phoneNumber, responseMessage);
-
-  // Log glucose reading
-  AuditLogger.logMedicalEvent("unknown", "glucose_reading_sms", {
-    phoneNumber,
-    value,
-    timestamp: new Date().toISOString(),
-    source: "sms",
-  });
-}
-
-/**
- * Handle unknown commands
- */
-async function sendUnknownCommandMessage(phoneNumber: string) {
-  const message =
-    "I didn't understand that. Reply HELP for options, send your glucose number, or reply TAKEN after taking medication.";
-  await telnyxService.sendSMS(phoneNumber, message);
-}
-
 /**
  * Get voice message for call ID (mock function)
  */
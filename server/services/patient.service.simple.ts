@@ -113,8 +113,25 @@ export class SimplePatientService {
   /**
    * Get patient statistics - simplified version that works with existing users table
    */
-  static async getPatientStats(): Promise<PatientStats> {
+  static async getPatientStats(patientIds?: string[]): Promise<PatientStats> {
     try {
+      // Counts over the given patients only, e.g. a clinician's care team
+      if (patientIds) {
+        const scopedResult = await database.query(
+          "SELECT COUNT(*) as total FROM users WHERE id::text = ANY($1)",
+          [patientIds],
+        );
+        const scoped = Number(scopedResult[0]?.total || 0);
+        return {
+          total_patients: scoped,
+          active_patients: Math.floor(scoped * 0.9),
+          inactive_patients: Math.floor(scoped * 0.1),
+          new_this_month: Math.floor(scoped * 0.05),
+          pediatric_patients: Math.floor(scoped * 0.15),
+          senior_patients: Math.floor(scoped * 0.25),
+        };
+      }
+
       // Get total count of users (treating users as patients for now)
       const totalResult = await database.query(
         "SELECT COUNT(*) as total FROM users",
@@ -234,35 +251,46 @@ export class SimplePatientService {
     limit: number = 20,
   ): Promise<any> {
     try {
-      let whereClause = "";
+      const conditions: string[] = [];
       let params: any[] = [];
       let paramIndex = 1;
 
+      // Only the given patients, e.g. a clinician's care team
+      if (filters.patientIds) {
+        if (filters.patientIds.length === 0) {
+          return { patients: [], total: 0, page, limit, totalPages: 0 };
+        }
+        conditions.push(`id::text = ANY($${paramIndex})`);
+        params.push(filters.patientIds);
+        paramIndex += 1;
+      }
+
       // Simple text search
       if (filters.query) {
-        whereClause = `WHERE (first_name LIKE ? OR last_name LIKE ? OR email LIKE ?)`;
-        const searchTerm = `%${filters.query}%`;
-        params.push(searchTerm, searchTerm, searchTerm);
-        paramIndex += 3;
+        conditions.push(
+          `(first_name ILIKE $${paramIndex} OR last_name ILIKE $${paramIndex} OR email ILIKE $${paramIndex})`,
+        );
+        params.push(`%${filters.query}%`);
+        paramIndex += 1;
       }
+      const whereClause = conditions.length
+        ? `WHERE ${conditions.join(" AND ")}`
+        : "";
 
       // Get total count
       const countQuery = `SELECT COUNT(*) as total FROM users ${whereClause}`;
       const countResult = await database.query(countQuery, params);
-      const total = countResult[0]?.total || 0;
+      const total = Number(countResult[0]?.total || 0);
 
       // If no users found, create sample patients for demonstration
-      if (total === 0) {
+      if (total === 0 && !filters.patientIds) {
         console.log(
           "No users found, creating sample patients for demonstration",
         );
         await SimplePatientService.createSamplePatients();
 
         // Re-run the search after creating sample patients
-        const newCountResult = await database.query(
-          countQuery,
-          params.slice(0, -2),
-        ); // Remove limit/offset
+        const newCountResult = await database.query(countQuery, params);
         const newTotal = newCountResult[0]?.total || 0;
 
         if (newTotal > 0) {
@@ -287,7 +315,7 @@ export class SimplePatientService {
         SELECT * FROM users 
         ${whereClause}
         ORDER BY last_name, first_name
-        LIMIT ? OFFSET ?
+        LIMIT $${paramIndex} OFFSET $${paramIndex + 1}
       `;
       params.push(limit, offset);
 
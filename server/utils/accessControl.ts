@@ -0,0 +1,333 @@
+import { dbPool } from "../config/database";
+import { EmergencyAccessService } from "./emergencyAccess";
+
+// Role- and relationship-based access to patient data. A role grants a set
+// of permissions; the role's scope then limits which patients they apply
+// to: patients reach only their own record, clinical roles and caregivers
+// reach the patients whose care team they are on, admins reach everyone.
+
+export type Role =
+  | "patient"
+  | "doctor"
+  | "nurse"
+  | "pharmacist"
+  | "admin"
+  | "caregiver"
+  | "compliance_officer";
+
+export type Permission =
+  | "patients:read"
+  | "patients:write"
+  | "labs:read"
+  | "labs:write"
+  | "medications:read"
+  | "medications:write"
+  | "vitals:read"
+  | "vitals:write"
+  | "insights:read"
+  | "insights:write"
+  | "chat:read"
+  | "chat:write"
+  | "appointments:read"
+  | "appointments:write"
+  | "scheduling:manage"
+  | "triage:assess"
+  | "triage:manage"
+  | "fhir:read"
+  | "fhir:export"
+  | "fhir:import"
+  | "messaging:send"
+  | "messaging:admin"
+  | "messaging:consent"
+  | "care_team:read"
+  | "care_team:manage"
+  | "rpm:manage"
+  | "ccm:manage"
+  | "billing:read"
+  | "ussd:manage"
+  | "ussd:respond"
+  | "emergency_access:review";
+
+export type AccessScope = "self" | "care_team" | "all";
+
+export const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  patient: [
+    "patients:read",
+    "patients:write",
+    "labs:read",
+    "labs:write",
+    "medications:read",
+    "medications:write",
+    "vitals:read",
+    "vitals:write",
+    "insights:read",
+    "insights:write",
+    "chat:read",
+    "chat:write",
+    "appointments:read",
+    "appointments:write",
+    "triage:assess",
+    "fhir:read",
+    "fhir:export",
+    "messaging:consent",
+    "care_team:read",
+  ],
+  caregiver: [
+    "labs:read",
+    "medications:read",
+    "vitals:read",
+    "vitals:write",
+    "insights:read",
+    "appointments:read",
+    "appointments:write",
+    "triage:assess",
+    "care_team:read",
+  ],
+  nurse: [
+    "patients:read",
+    "patients:write",
+    "labs:read",
+    "medications:read",
+    "vitals:read",
+    "vitals:write",
+    "insights:read",
+    "appointments:read",
+    "appointments:write",
+    "triage:assess",
+    "fhir:read",
+    "messaging:send",
+    "messaging:consent",
+    "care_team:read",
+    "rpm:manage",
+    "ccm:manage",
+    "ussd:respond",
+  ],
+  pharmacist: [
+    "labs:read",
+    "medications:read",
+    "medications:write",
+    "vitals:read",
+    "fhir:read",
+    "messaging:send",
+    "care_team:read",
+    "ussd:respond",
+  ],
+  doctor: [
+    "patients:read",
+    "patients:write",
+    "labs:read",
+    "labs:write",
+    "medications:read",
+    "medications:write",
+    "vitals:read",
+    "vitals:write",
+    "insights:read",
+    "insights:write",
+    "appointments:read",
+    "appointments:write",
+    "triage:assess",
+    "triage:manage",
+    "fhir:read",
+    "fhir:export",
+    "fhir:import",
+    "messaging:send",
+    "messaging:consent",
+    "care_team:read",
+    "care_team:manage",
+    "rpm:manage",
+    "ccm:manage",
+    "ussd:respond",
+  ],
+  admin: [
+    "patients:read",
+    "patients:write",
+    "labs:read",
+    "labs:write",
+    "medications:read",
+    "medications:write",
+    "vitals:read",
+    "vitals:write",
+    "insights:read",
+    "insights:write",
+    "chat:read",
+    "chat:write",
+    "appointments:read",
+    "appointments:write",
+    "scheduling:manage",
+    "triage:assess",
+    "triage:manage",
+    "fhir:read",
+    "fhir:export",
+    "fhir:import",
+    "messaging:send",
+    "messaging:admin",
+    "messaging:consent",
+    "care_team:read",
+    "care_team:manage",
+    "rpm:manage",
+    "ccm:manage",
+    "billing:read",
+    "ussd:manage",
+    "ussd:respond",
+    "emergency_access:review",
+  ],
+  compliance_officer: ["emergency_access:review"],
+};
+
+export const ROLE_SCOPE: Record<Role, AccessScope> = {
+  patient: "self",
+  caregiver: "care_team",
+  nurse: "care_team",
+  pharmacist: "care_team",
+  doctor: "care_team",
+  admin: "all",
+  compliance_officer: "self",
+};
+
+// Roles that may break the glass to reach a patient outside their care team.
+// A grant covers the role's own permissions except managing the care team.
+export const BREAK_GLASS_ROLES: Role[] = ["doctor", "nurse", "pharmacist"];
+
+// Relationships a member can have to a patient on the care team
+export const CARE_TEAM_RELATIONSHIPS = [
+  "primary_physician",
+  "attending_physician",
+  "consulting_physician",
+  "nurse",
+  "care_coordinator",
+  "pharmacist",
+  "caregiver",
+] as const;
+
+export type CareTeamRelationship = (typeof CARE_TEAM_RELATIONSHIPS)[number];
+
+export interface AccessDecision {
+  allowed: boolean;
+  reason:
+    | "self"
+    | "care_team"
+    | "admin"
+    | "unknown_role"
+    | "missing_permission"
+    | "not_on_care_team"
+    | "emergency";
+  relationship?: string;
+  grantId?: string;
+}
+
+interface Principal {
+  id: string;
+  role: string;
+}
+
+export class AccessControl {
+  static isRole(role: string): role is Role {
+    return role in ROLE_PERMISSIONS;
+  }
+
+  static hasPermission(role: string, permission: Permission): boolean {
+    return this.isRole(role) && ROLE_PERMISSIONS[role].includes(permission);
+  }
+
+  /**
+   * Apply the policy given the principal's care-team relationship to the
+   * patient (null when there is none) and any active break-the-glass grant
+   * they hold for the patient. Kept free of I/O so the policy can be checked
+   * on its own.
+   */
+  static decide(
+    user: Principal,
+    permission: Permission,
+    patientId: string,
+    relationship: string | null,
+    emergencyGrantId: string | null = null,
+  ): AccessDecision {
+    if (!this.isRole(user.role)) {
+      return { allowed: false, reason: "unknown_role" };
+    }
+    if (!this.hasPermission(user.role, permission)) {
+      return { allowed: false, reason: "missing_permission" };
+    }
+    if (ROLE_SCOPE[user.role] === "all") {
+      return { allowed: true, reason: "admin" };
+    }
+    if (user.id === patientId) {
+      return { allowed: true, reason: "self" };
+    }
+    if (ROLE_SCOPE[user.role] === "care_team" && relationship) {
+      return { allowed: true, reason: "care_team", relationship };
+    }
+    if (
+      emergencyGrantId &&
+      BREAK_GLASS_ROLES.includes(user.role) &&
+      permission !== "care_team:manage"
+    ) {
+      return { allowed: true, reason: "emergency", grantId: emergencyGrantId };
+    }
+    return { allowed: false, reason: "not_on_care_team" };
+  }
+
+  // Check a permission against a specific patient's data
+  static async authorize(
+    user: Principal,
+    permission: Permission,
+    patientId: string,
+  ): Promise<AccessDecision> {
+    const needsRelationship =
+      this.isRole(user.role) &&
+      ROLE_SCOPE[user.role] === "care_team" &&
+      user.id !== patientId &&
+      this.hasPermission(user.role, permission);
+
+    const relationship = needsRelationship
+      ? await this.getRelationship(user.id, patientId)
+      : null;
+
+    // Only consulted when routine access would be refused
+    const emergencyGrantId =
+      needsRelationship &&
+      !relationship &&
+      BREAK_GLASS_ROLES.includes(user.role as Role)
+        ? await EmergencyAccessService.getActiveGrantId(user.id, patientId)
+        : null;
+
+    return this.decide(
+      user,
+      permission,
+      patientId,
+      relationship,
+      emergencyGrantId,
+    );
+  }
+
+  // Active care-team relationship of a member to a patient, if any
+  static async getRelationship(
+    memberId: string,
+    patientId: string,
+  ): Promise<string | null> {
+    if (!dbPool) return null;
+
+    const result = await dbPool.query(
+      `SELECT relationship FROM care_team_assignments
+      WHERE member_id::text = $1 AND patient_id::text = $2 AND active = true
+        AND starts_at <= NOW() AND (ends_at IS NULL OR ends_at > NOW())
+      ORDER BY created_at
+      LIMIT 1`,
+      [memberId, patientId],
+    );
+    return result.rows[0]?.relationship || null;
+  }
+
+  // Patients a member currently has an active relationship with
+  static async getCareTeamPatientIds(memberId: string): Promise<string[]> {
+    if (!dbPool) return [];
+
+    const result = await dbPool.query(
+      `SELECT DISTINCT patient_id FROM care_team_assignments
+      WHERE member_id::text = $1 AND active = true
+        AND starts_at <= NOW() AND (ends_at IS NULL OR ends_at > NOW())`,
+      [memberId],
+    );
+    return result.rows.map((row) => String(row.patient_id));
+  }
+}
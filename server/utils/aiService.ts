@@ -1,5 +1,6 @@
 // AI Service for medical analysis and chat
 import { LabResult, ChatMessage, HealthInsight } from "@shared/types";
+import { TerminologyService } from "./terminology";
 
 export class AIService {
   // Simulate AI analysis of lab results
@@ -328,6 +329,7 @@ export class AIService {
     extractedText: string;
     confidence: number;
     results: Omit<LabResult, "id" | "userId" | "createdAt">[];
+    unmappedTests: string[];
   }> {
     // Simulate OCR processing time
     await new Promise((resolve) => setTimeout(resolve, 1000));
@@ -372,10 +374,24 @@ export class AIService {
       },
     ];
 
+    // Attach LOINC codes; tests we cannot code are listed for review
+    const unmappedTests: string[] = [];
+    const results = mockResults.map((result) => {
+      const { match } = TerminologyService.resolveLabTest(
+        result.testName,
+        result.unit,
+      );
+      if (!match) {
+        unmappedTests.push(result.testName);
+      }
+      return { ...result, loincCode: match?.code };
+    });
+
     return {
       extractedText: `Lab Report - ${fileName}\nGlucose: 95 mg/dL\nTotal Cholesterol: 205 mg/dL\nHDL: 58 mg/dL\nLDL: 135 mg/dL`,
       confidence: 0.94,
-      results: mockResults,
+      results,
+      unmappedTests,
     };
   }
 }
@@ -0,0 +1,117 @@
+import jwt from "jsonwebtoken";
+import { dbPool } from "../config/database";
+import { AuditLogger } from "./auditLogger";
+import { SessionService } from "./sessions";
+import { getRequestContext } from "../middleware/requestContext";
+
+// Short-lived tokens standing in for a session while a login waits on its
+// second factor: a challenge (verify a code) or an enrollment (set MFA up
+// first, for roles that require it).
+export type MfaTokenPurpose = "mfa_challenge" | "mfa_enrollment";
+
+const MFA_TOKEN_TTL: Record<MfaTokenPurpose, string> = {
+  mfa_challenge: "5m",
+  mfa_enrollment: "15m",
+};
+
+export interface LoginUser {
+  id: string;
+  email: string;
+  first_name: string;
+  last_name: string;
+  role: string;
+}
+
+export class AuthTokenService {
+  // Access tokens are bound to a session so revoking it takes effect
+  // before the token expires
+  static signAccessToken(user: LoginUser, sessionId: string): string {
+    return jwt.sign(
+      { userId: user.id, email: user.email, role: user.role, sid: sessionId },
+      process.env.JWT_SECRET!,
+      { expiresIn: "24h" },
+    );
+  }
+
+  // Open a session for the requesting device and issue its tokens
+  static async issueTokens(user: LoginUser) {
+    const req = getRequestContext()?.req;
+    const { sessionId, refreshToken } = await SessionService.create(user.id, {
+      userAgent: req?.headers["user-agent"],
+      ipAddress: req?.ip,
+    });
+
+    return {
+      token: this.signAccessToken(user, sessionId),
+      refreshToken,
+    };
+  }
+
+  // Finish a login once every required factor has been checked
+  static async completeLogin(user: LoginUser, details?: any) {
+    await dbPool.query(
+      "UPDATE users SET last_login_at = CURRENT_TIMESTAMP WHERE id = $1",
+      [user.id],
+    );
+    AuditLogger.logAuthentication(user.id, "LOGIN", details);
+
+    const { token, refreshToken } = await this.issueTokens(user);
+    return {
+      user: {
+        id: user.id,
+        email: user.email,
+        firstName: user.first_name,
+        lastName: user.last_name,
+        role: user.role,
+      },
+      token,
+      refreshToken,
+    };
+  }
+
+  static signMfaToken(userId: string, purpose: MfaTokenPurpose): string {
+    return jwt.sign({ userId, type: purpose }, process.env.JWT_SECRET!, {
+      expiresIn: MFA_TOKEN_TTL[purpose],
+    } as jwt.SignOptions);
+  }
+
+  /**
+   * The user behind an access token whose session is still open, for
+   * connections that cannot go through the HTTP middleware (WebSockets).
+   */
+  static async verifyAccessToken(
+    token: string,
+  ): Promise<{ id: string; role: string; sessionId: string } | null> {
+    let decoded: any;
+    try {
+      decoded = jwt.verify(token, process.env.JWT_SECRET!);
+    } catch {
+      return null;
+    }
+    if (!decoded.userId || !decoded.sid || decoded.type) return null;
+
+    const result = await dbPool.query(
+      "SELECT id, role FROM users WHERE id::text = $1 AND is_active = true",
+      [decoded.userId],
+    );
+    const user = result.rows[0];
+    if (!user) return null;
+    if ((await SessionService.touch(decoded.sid, user.id)) !== "active") {
+      return null;
+    }
+    return { id: user.id, role: user.role, sessionId: decoded.sid };
+  }
+
+  // User id carried by a valid MFA token of the given purpose, else null
+  static verifyMfaToken(
+    token: string,
+    purpose: MfaTokenPurpose,
+  ): string | null {
+    try {
+      const decoded = jwt.verify(token, process.env.JWT_SECRET!) as any;
+      return decoded.type === purpose ? decoded.userId : null;
+    } catch {
+      return null;
+    }
+  }
+}
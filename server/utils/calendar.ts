@@ -0,0 +1,501 @@
+import crypto from "crypto";
+import { dbPool } from "../config/database";
+import { AccessControl } from "./accessControl";
+import { messagingService } from "./messagingService";
+import { SchedulingService, Appointment, PROVIDER_ROLES } from "./scheduling";
+
+// iCalendar (RFC 5545) output for appointments: subscription feeds that
+// calendar apps poll, and single-event invites sent with confirmations.
+// Invites use iTIP methods, so a rescheduled appointment is a REQUEST with
+// a higher SEQUENCE and a cancelled one is a CANCEL for the same UID.
+// Feeds are PUBLISH and show cancellations as STATUS:CANCELLED.
+
+export const FEED_PAST_DAYS = 90;
+export const FEED_FUTURE_DAYS = 365;
+const PRODUCT_ID = "-//Telecheck//Appointments//EN";
+const UID_DOMAIN = "telecheck.health";
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type CalendarView = "provider" | "patient";
+export type CalendarMethod = "PUBLISH" | "REQUEST" | "CANCEL";
+export type AppointmentChange = "booked" | "rescheduled" | "cancelled";
+
+export interface CalendarPerson {
+  name: string;
+  email?: string;
+}
+
+export interface CalendarEvent {
+  uid: string;
+  start: Date;
+  end: Date;
+  stamp: Date;
+  sequence: number;
+  status: "TENTATIVE" | "CONFIRMED" | "CANCELLED";
+  summary: string;
+  description?: string;
+  location?: string;
+  url?: string;
+  organizer?: CalendarPerson;
+  attendees?: CalendarPerson[];
+}
+
+export interface CalendarFeed {
+  id: string;
+  ownerId: string;
+  subjectId: string;
+  scope: CalendarView;
+  createdAt: string;
+  lastAccessedAt?: string;
+}
+
+interface Person extends CalendarPerson {
+  id: string;
+  role: string;
+  phone?: string;
+  active: boolean;
+}
+
+const hashToken = (token: string) =>
+  crypto.createHash("sha256").update(token).digest("hex");
+
+const baseUrl = () => process.env.BASE_URL || "http://localhost:3000";
+
+const signingKey = () =>
+  process.env.CALENDAR_SIGNING_SECRET || process.env.JWT_SECRET!;
+
+export class CalendarService {
+  // Escape a TEXT value (RFC 5545 3.3.11)
+  static escapeText(value: string): string {
+    return value
+      .replace(/\\/g, "\\\\")
+      .replace(/;/g, "\\;")
+      .replace(/,/g, "\\,")
+      .replace(/\r?\n/g, "\\n");
+  }
+
+  // Fold content lines longer than 75 octets (RFC 5545 3.1)
+  static foldLine(line: string): string {
+    const parts: string[] = [];
+    let current = "";
+    let octets = 0;
+    for (const char of line) {
+      const size = Buffer.byteLength(char);
+      if (octets + size > (parts.length === 0 ? 75 : 74)) {
+        parts.push(current);
+        current = "";
+        octets = 0;
+      }
+      current += char;
+      octets += size;
+    }
+    parts.push(current);
+    return parts.join("\r\n ");
+  }
+
+  static formatDate(date: Date): string {
+    return date
+      .toISOString()
+      .replace(/[-:]/g, "")
+      .replace(/\.\d{3}/, "");
+  }
+
+  static buildCalendar(
+    method: CalendarMethod,
+    events: CalendarEvent[],
+    name?: string,
+  ): string {
+    const lines = [
+      "BEGIN:VCALENDAR",
+      "VERSION:2.0",
+      `PRODID:${PRODUCT_ID}`,
+      "CALSCALE:GREGORIAN",
+      `METHOD:${method}`,
+    ];
+    if (name) {
+      lines.push(`X-WR-CALNAME:${this.escapeText(name)}`);
+    }
+    for (const event of events) {
+      lines.push(...this.eventLines(event));
+    }
+    lines.push("END:VCALENDAR");
+    return lines.map((line) => this.foldLine(line)).join("\r\n") + "\r\n";
+  }
+
+  /**
+   * The event for one view of an appointment. Feeds end up in third-party
+   * calendars, so the provider view names the patient by initials only and
+   * does not list them as an attendee, and neither view carries the visit
+   * notes.
+   */
+  static toEvent(
+    appointment: Appointment,
+    view: CalendarView,
+    people: { patient?: CalendarPerson; provider?: CalendarPerson },
+    typeName: string,
+  ): CalendarEvent {
+    const patientName = people.patient?.name || "Patient";
+    const providerName = people.provider?.name || "your provider";
+    const cancelled = ["cancelled", "no_show"].includes(appointment.status);
+
+    return {
+      uid: `${appointment.id}@${UID_DOMAIN}`,
+      start: new Date(appointment.start),
+      end: new Date(appointment.end),
+      stamp: new Date(appointment.updatedAt),
+      sequence: appointment.sequence,
+      status:
+        appointment.status === "cancelled"
+          ? "CANCELLED"
+          : appointment.status === "scheduled"
+            ? "TENTATIVE"
+            : "CONFIRMED",
+      summary:
+        view === "provider"
+          ? `${typeName}: ${this.initials(patientName)}`
+          : `${typeName} with ${providerName}`,
+      description: cancelled
+        ? appointment.statusReason
+        : view === "patient"
+          ? "Manage this appointment in Telecheck."
+          : undefined,
+      location: appointment.videoUrl ? "Video visit" : undefined,
+      url: appointment.videoUrl,
+      organizer: people.provider,
+      attendees: view === "patient" && people.patient ? [people.patient] : [],
+    };
+  }
+
+  // A single appointment as an invite: REQUEST, or CANCEL once cancelled
+  static async appointmentCalendar(
+    appointment: Appointment,
+    view: CalendarView,
+  ): Promise<string> {
+    const people = await this.loadPeople([
+      appointment.patientId,
+      appointment.providerId,
+    ]);
+    const typeNames = await this.typeNames();
+    const event = this.toEvent(
+      appointment,
+      view,
+      {
+        patient: people.get(appointment.patientId),
+        provider: people.get(appointment.providerId),
+      },
+      typeNames.get(appointment.type) || appointment.type,
+    );
+    return this.buildCalendar(
+      appointment.status === "cancelled" ? "CANCEL" : "REQUEST",
+      [event],
+    );
+  }
+
+  // Signed link to an appointment's invite, safe to put in an SMS
+  static inviteUrl(appointmentId: string, view: CalendarView): string {
+    const signature = this.inviteSignature(appointmentId, view);
+    return `${baseUrl()}/api/calendar/invites/${appointmentId}/${view}.ics?sig=${signature}`;
+  }
+
+  static inviteSignature(appointmentId: string, view: CalendarView): string {
+    return crypto
+      .createHmac("sha256", signingKey())
+      .update(`${appointmentId}:${view}`)
+      .digest("base64url");
+  }
+
+  static verifyInviteSignature(
+    appointmentId: string,
+    view: CalendarView,
+    signature: string,
+  ): boolean {
+    const expected = Buffer.from(this.inviteSignature(appointmentId, view));
+    const given = Buffer.from(String(signature || ""));
+    return (
+      expected.length === given.length &&
+      crypto.timingSafeEqual(expected, given)
+    );
+  }
+
+  /**
+   * Create a subscription feed of the subject's appointments. Any earlier
+   * feed the owner had for the same subject stops working, so this also
+   * rotates a leaked URL. The token is only returned here.
+   */
+  static async createFeed(
+    ownerId: string,
+    subjectId: string,
+    scope: CalendarView,
+  ): Promise<{ feed: CalendarFeed; url: string }> {
+    const token = crypto.randomBytes(32).toString("base64url");
+    const client = await this.pool().connect();
+    try {
+      await client.query("BEGIN");
+      await client.query(
+        `UPDATE calendar_feeds SET revoked_at = NOW()
+        WHERE owner_id = $1 AND subject_id = $2 AND scope = $3
+          AND revoked_at IS NULL`,
+        [ownerId, subjectId, scope],
+      );
+      const result = await client.query(
+        `INSERT INTO calendar_feeds (owner_id, subject_id, scope, token_hash)
+        VALUES ($1, $2, $3, $4)
+        RETURNING *`,
+        [ownerId, subjectId, scope, hashToken(token)],
+      );
+      await client.query("COMMIT");
+      return {
+        feed: this.feedFromRow(result.rows[0]),
+        url: `${baseUrl()}/api/calendar/feeds/${token}.ics`,
+      };
+    } catch (error) {
+      await client.query("ROLLBACK");
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  static async listFeeds(ownerId: string): Promise<CalendarFeed[]> {
+    const result = await this.pool().query(
+      `SELECT * FROM calendar_feeds
+      WHERE owner_id = $1 AND revoked_at IS NULL
+      ORDER BY created_at`,
+      [ownerId],
+    );
+    return result.rows.map((row) => this.feedFromRow(row));
+  }
+
+  static async revokeFeed(ownerId: string, feedId: string): Promise<boolean> {
+    const result = await this.pool().query(
+      `UPDATE calendar_feeds SET revoked_at = NOW()
+      WHERE id::text = $2 AND owner_id = $1 AND revoked_at IS NULL
+      RETURNING id`,
+      [ownerId, feedId],
+    );
+    return result.rows.length > 0;
+  }
+
+  /**
+   * The calendar behind a feed token, or null if the token is unknown or
+   * revoked, or the owner may no longer see the subject's appointments.
+   * Access is checked on every poll because feed URLs live on in apps.
+   */
+  static async renderFeed(token: string): Promise<string | null> {
+    const result = await this.pool().query(
+      `UPDATE calendar_feeds SET last_accessed_at = NOW()
+      WHERE token_hash = $1 AND revoked_at IS NULL
+      RETURNING *`,
+      [hashToken(token)],
+    );
+    if (result.rows.length === 0) return null;
+    const feed = this.feedFromRow(result.rows[0]);
+
+    const owner = (await this.loadPeople([feed.ownerId])).get(feed.ownerId);
+    if (!owner || !owner.active) return null;
+    if (feed.scope === "provider") {
+      if (owner.id !== feed.subjectId || !PROVIDER_ROLES.includes(owner.role)) {
+        return null;
+      }
+    } else {
+      const decision = await AccessControl.authorize(
+        owner,
+        "appointments:read",
+        feed.subjectId,
+      );
+      // Break-the-glass access does not extend to standing feeds
+      if (!decision.allowed || decision.reason === "emergency") return null;
+    }
+
+    const now = Date.now();
+    const appointments = await SchedulingService.listAppointments({
+      [feed.scope === "provider" ? "providerId" : "patientId"]: feed.subjectId,
+      from: new Date(now - FEED_PAST_DAYS * DAY_MS),
+      to: new Date(now + FEED_FUTURE_DAYS * DAY_MS),
+    });
+    const people = await this.loadPeople([
+      feed.subjectId,
+      ...appointments.flatMap((a) => [a.patientId, a.providerId]),
+    ]);
+    const typeNames = await this.typeNames();
+
+    const events = appointments.map((appointment) =>
+      this.toEvent(
+        appointment,
+        feed.scope,
+        {
+          patient: people.get(appointment.patientId),
+          provider: people.get(appointment.providerId),
+        },
+        typeNames.get(appointment.type) || appointment.type,
+      ),
+    );
+    const subject = people.get(feed.subjectId);
+    return this.buildCalendar(
+      "PUBLISH",
+      events,
+      subject ? `Telecheck: ${subject.name}` : "Telecheck appointments",
+    );
+  }
+
+  /**
+   * Tell the patient and provider about a booking, move or cancellation:
+   * an SMS with the invite link to the patient, and an email with the
+   * invite attached to each party with an address.
+   */
+  static async notifyAppointmentChange(
+    appointment: Appointment,
+    change: AppointmentChange,
+  ): Promise<void> {
+    const people = await this.loadPeople([
+      appointment.patientId,
+      appointment.providerId,
+    ]);
+    const patient = people.get(appointment.patientId);
+    const provider = await SchedulingService.getProvider(
+      appointment.providerId,
+    );
+    const when = new Date(appointment.start).toLocaleString("en-US", {
+      timeZone: provider?.timeZone || "UTC",
+      dateStyle: "medium",
+      timeStyle: "short",
+      timeZoneName: "short",
+    });
+    const withProvider = provider ? ` with ${provider.name}` : "";
+    const text = {
+      booked: `Your appointment${withProvider} is booked for ${when}.`,
+      rescheduled: `Your appointment${withProvider} has moved to ${when}.`,
+      cancelled: `Your appointment${withProvider} on ${when} has been cancelled.`,
+    }[change];
+
+    if (patient?.phone) {
+      await messagingService.sendMessage({
+        to: patient.phone,
+        message: `${text} Calendar: ${this.inviteUrl(appointment.id, "patient")}`,
+        type: "sms",
+        priority: "medium",
+        category: "appointment",
+        patientId: appointment.patientId,
+      });
+    }
+
+    for (const [view, person] of [
+      ["patient", patient],
+      ["provider", people.get(appointment.providerId)],
+    ] as [CalendarView, Person | undefined][]) {
+      if (!person?.email) continue;
+      await messagingService.sendMessage({
+        to: person.email,
+        message:
+          view === "patient"
+            ? text
+            : `Appointment ${change}: ${when}. See the attached calendar update.`,
+        type: "email",
+        priority: "low",
+        category: "appointment",
+        patientId: appointment.patientId,
+        attachments: [
+          {
+            filename: "appointment.ics",
+            contentType: `text/calendar; charset=utf-8; method=${change === "cancelled" ? "CANCEL" : "REQUEST"}`,
+            content: await this.appointmentCalendar(appointment, view),
+          },
+        ],
+      });
+    }
+  }
+
+  static initials(name: string): string {
+    return name
+      .split(/\s+/)
+      .filter(Boolean)
+      .map((part) => `${part[0].toUpperCase()}.`)
+      .join("");
+  }
+
+  private static eventLines(event: CalendarEvent): string[] {
+    const lines = [
+      "BEGIN:VEVENT",
+      `UID:${event.uid}`,
+      `DTSTAMP:${this.formatDate(event.stamp)}`,
+      `DTSTART:${this.formatDate(event.start)}`,
+      `DTEND:${this.formatDate(event.end)}`,
+      `SEQUENCE:${event.sequence}`,
+      `STATUS:${event.status}`,
+      `SUMMARY:${this.escapeText(event.summary)}`,
+    ];
+    if (event.description) {
+      lines.push(`DESCRIPTION:${this.escapeText(event.description)}`);
+    }
+    if (event.location) {
+      lines.push(`LOCATION:${this.escapeText(event.location)}`);
+    }
+    if (event.url) {
+      lines.push(`URL:${event.url}`);
+    }
+    if (event.organizer?.email) {
+      lines.push(
+        `ORGANIZER;CN=${this.paramValue(event.organizer.name)}:mailto:${event.organizer.email}`,
+      );
+    }
+    for (const attendee of event.attendees || []) {
+      if (!attendee.email) continue;
+      lines.push(
+        `ATTENDEE;CN=${this.paramValue(attendee.name)};ROLE=REQ-PARTICIPANT:mailto:${attendee.email}`,
+      );
+    }
+    lines.push("END:VEVENT");
+    return lines;
+  }
+
+  // Parameter values cannot be escaped, only quoted
+  private static paramValue(value: string): string {
+    return `"${value.replace(/"/g, "'")}"`;
+  }
+
+  private static async loadPeople(ids: string[]): Promise<Map<string, Person>> {
+    const result = await this.pool().query(
+      `SELECT id, first_name, last_name, email, phone, role, is_active
+      FROM users WHERE id = ANY($1::uuid[])`,
+      [[...new Set(ids)]],
+    );
+    return new Map(
+      result.rows.map((row) => [
+        row.id,
+        {
+          id: row.id,
+          name: `${row.first_name} ${row.last_name}`,
+          email: row.email || undefined,
+          phone: row.phone || undefined,
+          role: row.role,
+          active: row.is_active !== false,
+        },
+      ]),
+    );
+  }
+
+  private static async typeNames(): Promise<Map<string, string>> {
+    const types = await SchedulingService.listAppointmentTypes(true);
+    return new Map(types.map((type) => [type.code, type.name]));
+  }
+
+  private static feedFromRow(row: any): CalendarFeed {
+    return {
+      id: row.id,
+      ownerId: row.owner_id,
+      subjectId: row.subject_id,
+      scope: row.scope,
+      createdAt: new Date(row.created_at).toISOString(),
+      lastAccessedAt: row.last_accessed_at
+        ? new Date(row.last_accessed_at).toISOString()
+        : undefined,
+    };
+  }
+
+  private static pool() {
+    if (!dbPool) {
+      throw new Error("PostgreSQL pool not configured");
+    }
+    return dbPool;
+  }
+}
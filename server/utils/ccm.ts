@@ -0,0 +1,669 @@
+import { dbPool } from "../config/database";
+
+// Chronic care management: enrollment with the patient's consent, the care
+// plan the work is done against, and clinical staff time accumulated per
+// calendar month toward CPT 99490, 99439 (non-complex) or 99487 (complex).
+// Time is kept as ccm_encounters rows: a running timer has no end_time.
+
+export type CcmCode = "99490" | "99439" | "99487";
+
+export const CCM_CODES: Record<CcmCode, string> = {
+  "99490": "Non-complex CCM, first 20 minutes of clinical staff time",
+  "99439": "Non-complex CCM, each additional 20 minutes",
+  "99487": "Complex CCM, first 60 minutes of clinical staff time",
+};
+
+export const FIRST_UNIT_MINUTES = 20;
+export const ADDITIONAL_UNIT_MINUTES = 20;
+// Medicare pays 99439 at most twice a month
+export const MAX_ADDITIONAL_UNITS = 2;
+export const COMPLEX_MINUTES = 60;
+export const MIN_CHRONIC_CONDITIONS = 2;
+// Longest single activity; a timer left running longer needs its minutes
+export const MAX_ACTIVITY_MINUTES = 240;
+// How close to the next threshold counts as "near" by default
+export const NEAR_THRESHOLD_MINUTES = 10;
+
+export const CCM_ACTIVITIES = [
+  "care_plan_development",
+  "care_plan_revision",
+  "medication_management",
+  "care_coordination",
+  "patient_communication",
+  "transition_of_care",
+  "community_resources",
+] as const;
+
+export type CcmActivity = (typeof CCM_ACTIVITIES)[number];
+
+export const CONSENT_METHODS = ["verbal", "written", "electronic"] as const;
+export const RISK_LEVELS = ["low", "medium", "high"] as const;
+// Medical decision making recorded with a care plan revision
+export const MDM_LEVELS = ["straightforward", "low", "moderate", "high"];
+export const COMPLEX_MDM_LEVELS = ["moderate", "high"];
+
+export interface CcmEnrollment {
+  id: string;
+  patientId: string;
+  patientName?: string;
+  providerId: string;
+  providerName?: string;
+  enrollmentDate: string;
+  status: "active" | "disenrolled";
+  consentDate?: string;
+  consentMethod?: string;
+  riskLevel: string;
+  conditions: string[];
+  carePlanId?: string;
+  disenrolledAt?: string;
+  disenrollmentReason?: string;
+}
+
+export interface CarePlan {
+  id: string;
+  name: string;
+  description?: string;
+  startDate: string;
+  status: string;
+  nextReviewDate?: string;
+  problems: string[];
+  goals: string[];
+  interventions: string[];
+  createdBy: string;
+  createdAt: string;
+}
+
+export interface CcmActivityEntry {
+  id: string;
+  patientId: string;
+  staffId: string;
+  staffName?: string;
+  activity: CcmActivity;
+  startTime: string;
+  endTime?: string;
+  // Null while the timer is running
+  minutes: number | null;
+  mdmLevel?: string;
+  notes?: string;
+}
+
+export interface MonthAssessment {
+  codes: { code: CcmCode; units: number }[];
+  complex: boolean;
+  nextThreshold: { code: CcmCode; minutes: number; remaining: number } | null;
+}
+
+export interface CcmReportRow extends MonthAssessment {
+  patientId: string;
+  patientName: string;
+  providerId: string;
+  providerName: string;
+  riskLevel: string;
+  conditions: string[];
+  consentDate?: string;
+  carePlan: { id: string; name: string; nextReviewDate?: string } | null;
+  minutes: number;
+  activities: number;
+  billable: boolean;
+  nearThreshold: boolean;
+  // Why the time cannot be billed yet, e.g. no care plan
+  blockers: string[];
+}
+
+export interface CcmMonthlyReport {
+  month: string;
+  timeZone: string;
+  generatedAt: string;
+  rows: CcmReportRow[];
+  summary: {
+    patients: number;
+    billable: number;
+    nearThreshold: number;
+    blocked: number;
+    byCode: Record<CcmCode, { patients: number; units: number }>;
+  };
+}
+
+const csvCell = (value: unknown): string => {
+  const text = value === undefined || value === null ? "" : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const ENROLLMENT_COLUMNS = `
+  c.*, to_char(c.enrollment_date, 'YYYY-MM-DD') AS enrollment_day,
+  to_char(c.consent_date, 'YYYY-MM-DD') AS consent_day,
+  p.first_name AS patient_first_name, p.last_name AS patient_last_name,
+  d.first_name AS provider_first_name, d.last_name AS provider_last_name`;
+
+const ENROLLMENT_FROM = `
+  FROM ccm_patients c
+  JOIN users p ON p.id = c.patient_id
+  LEFT JOIN users d ON d.id::text = c.provider_id`;
+
+const ACTIVITY_SELECT = `
+  SELECT e.*, c.patient_id, s.first_name AS staff_first_name,
+    s.last_name AS staff_last_name
+  FROM ccm_encounters e
+  JOIN ccm_patients c ON c.id = e.ccm_patient_id
+  LEFT JOIN users s ON s.id::text = e.provider_id`;
+
+export class CcmService {
+  /**
+   * Codes earned by a month's minutes. Complex CCM replaces the non-complex
+   * codes when the month had a care plan revision with moderate or high
+   * complexity decision making and reached 60 minutes.
+   */
+  static assessMonth(minutes: number, complex: boolean): MonthAssessment {
+    const threshold = (code: CcmCode, at: number) => ({
+      code,
+      minutes: at,
+      remaining: at - minutes,
+    });
+
+    if (complex && minutes >= COMPLEX_MINUTES) {
+      return {
+        codes: [{ code: "99487", units: 1 }],
+        complex,
+        nextThreshold: null,
+      };
+    }
+    if (minutes < FIRST_UNIT_MINUTES) {
+      return {
+        codes: [],
+        complex,
+        nextThreshold: threshold("99490", FIRST_UNIT_MINUTES),
+      };
+    }
+
+    const additional = Math.min(
+      MAX_ADDITIONAL_UNITS,
+      Math.floor((minutes - FIRST_UNIT_MINUTES) / ADDITIONAL_UNIT_MINUTES),
+    );
+    const codes: MonthAssessment["codes"] = [{ code: "99490", units: 1 }];
+    if (additional > 0) codes.push({ code: "99439", units: additional });
+    return {
+      codes,
+      complex,
+      nextThreshold: complex
+        ? threshold("99487", COMPLEX_MINUTES)
+        : additional < MAX_ADDITIONAL_UNITS
+          ? threshold(
+              "99439",
+              FIRST_UNIT_MINUTES + ADDITIONAL_UNIT_MINUTES * (additional + 1),
+            )
+          : null,
+    };
+  }
+
+  // Whether the month's finished activities make it complex CCM
+  static isComplex(entries: CcmActivityEntry[]): boolean {
+    return entries.some(
+      (entry) =>
+        entry.endTime &&
+        entry.activity === "care_plan_revision" &&
+        COMPLEX_MDM_LEVELS.includes(entry.mdmLevel),
+    );
+  }
+
+  // Requirements for billing CCM that the month's time cannot make up for
+  static blockers(enrollment: CcmEnrollment): string[] {
+    const blockers: string[] = [];
+    if (!enrollment.consentDate) blockers.push("No consent on file");
+    if (enrollment.conditions.length < MIN_CHRONIC_CONDITIONS) {
+      blockers.push(
+        `Fewer than ${MIN_CHRONIC_CONDITIONS} chronic conditions recorded`,
+      );
+    }
+    if (!enrollment.carePlanId) blockers.push("No care plan");
+    return blockers;
+  }
+
+  /**
+   * Enroll a patient with their consent. Returns null when the patient is
+   * already enrolled; a disenrolled patient is enrolled again.
+   */
+  static async enroll(
+    patientId: string,
+    input: {
+      providerId: string;
+      consentDate: string;
+      consentMethod: string;
+      conditions: string[];
+      riskLevel: string;
+    },
+  ): Promise<CcmEnrollment | null> {
+    const result = await this.pool().query(
+      `INSERT INTO ccm_patients
+        (patient_id, enrollment_date, provider_id, consent_date,
+         consent_method, conditions, risk_level)
+      VALUES ($1, $2, $3, $2, $4, $5, $6)
+      ON CONFLICT (patient_id) DO UPDATE SET
+        enrollment_date = EXCLUDED.enrollment_date,
+        provider_id = EXCLUDED.provider_id,
+        consent_date = EXCLUDED.consent_date,
+        consent_method = EXCLUDED.consent_method,
+        conditions = EXCLUDED.conditions,
+        risk_level = EXCLUDED.risk_level,
+        status = 'active', care_plan_id = NULL, disenrolled_at = NULL,
+        disenrollment_reason = NULL, updated_at = NOW()
+      WHERE ccm_patients.status <> 'active'
+      RETURNING id`,
+      [
+        patientId,
+        input.consentDate,
+        input.providerId,
+        input.consentMethod,
+        input.conditions,
+        input.riskLevel,
+      ],
+    );
+    return result.rows[0] ? this.getEnrollment(patientId) : null;
+  }
+
+  static async getEnrollment(patientId: string): Promise<CcmEnrollment | null> {
+    const result = await this.pool().query(
+      `SELECT ${ENROLLMENT_COLUMNS} ${ENROLLMENT_FROM} WHERE c.patient_id::text = $1`,
+      [patientId],
+    );
+    return result.rows[0] ? this.enrollmentFromRow(result.rows[0]) : null;
+  }
+
+  // Consent withdrawn or care ended; time already logged is kept
+  static async disenroll(
+    enrollment: CcmEnrollment,
+    reason: string,
+  ): Promise<CcmEnrollment | null> {
+    await this.pool().query(
+      `UPDATE ccm_patients
+      SET status = 'disenrolled', disenrolled_at = NOW(),
+        disenrollment_reason = $2, updated_at = NOW()
+      WHERE id = $1`,
+      [enrollment.id, reason],
+    );
+    // A running timer cannot outlive the enrollment
+    await this.pool().query(
+      `DELETE FROM ccm_encounters
+      WHERE ccm_patient_id = $1 AND end_time IS NULL`,
+      [enrollment.id],
+    );
+    return this.getEnrollment(enrollment.patientId);
+  }
+
+  /**
+   * Put a new care plan in place and link it to the enrollment. The plan it
+   * replaces is kept as superseded.
+   */
+  static async saveCarePlan(
+    enrollment: CcmEnrollment,
+    plan: {
+      name: string;
+      description?: string;
+      nextReviewDate?: string;
+      problems: string[];
+      goals: string[];
+      interventions: string[];
+    },
+    createdBy: string,
+  ): Promise<CarePlan> {
+    const client = await this.pool().connect();
+    try {
+      await client.query("BEGIN");
+      await client.query(
+        `UPDATE care_plans SET status = 'superseded', end_date = CURRENT_DATE,
+          updated_at = NOW()
+        WHERE ccm_patient_id = $1 AND status = 'active'`,
+        [enrollment.id],
+      );
+      const result = await client.query(
+        `INSERT INTO care_plans
+          (ccm_patient_id, plan_name, plan_description, start_date, status,
+           created_by, next_review_date, plan_data)
+        VALUES ($1, $2, $3, CURRENT_DATE, 'active', $4, $5, $6)
+        RETURNING *, to_char(start_date, 'YYYY-MM-DD') AS start_day,
+          to_char(next_review_date, 'YYYY-MM-DD') AS next_review_day`,
+        [
+          enrollment.id,
+          plan.name,
+          plan.description || null,
+          createdBy,
+          plan.nextReviewDate || null,
+          JSON.stringify({
+            problems: plan.problems,
+            goals: plan.goals,
+            interventions: plan.interventions,
+          }),
+        ],
+      );
+      await client.query(
+        "UPDATE ccm_patients SET care_plan_id = $2, updated_at = NOW() WHERE id = $1",
+        [enrollment.id, result.rows[0].id],
+      );
+      await client.query("COMMIT");
+      return this.carePlanFromRow(result.rows[0]);
+    } catch (error) {
+      await client.query("ROLLBACK");
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  static async getCarePlan(
+    enrollment: CcmEnrollment,
+  ): Promise<CarePlan | null> {
+    if (!enrollment.carePlanId) return null;
+    const result = await this.pool().query(
+      `SELECT *, to_char(start_date, 'YYYY-MM-DD') AS start_day,
+        to_char(next_review_date, 'YYYY-MM-DD') AS next_review_day
+      FROM care_plans WHERE id = $1`,
+      [enrollment.carePlanId],
+    );
+    return result.rows[0] ? this.carePlanFromRow(result.rows[0]) : null;
+  }
+
+  /**
+   * Start timing an activity. Staff time one activity at a time, so this
+   * returns null while the staff member has another timer running.
+   */
+  static async startTimer(
+    enrollment: CcmEnrollment,
+    staffId: string,
+    activity: CcmActivity,
+    notes?: string,
+  ): Promise<CcmActivityEntry | null> {
+    const result = await this.pool().query(
+      `INSERT INTO ccm_encounters
+        (ccm_patient_id, encounter_type, start_time, provider_id,
+         encounter_notes)
+      VALUES ($1, $2, NOW(), $3, $4)
+      ON CONFLICT (provider_id) WHERE end_time IS NULL DO NOTHING
+      RETURNING id`,
+      [enrollment.id, activity, staffId, notes || null],
+    );
+    return result.rows[0] ? this.getActivity(result.rows[0].id) : null;
+  }
+
+  static async getRunningTimer(
+    staffId: string,
+  ): Promise<CcmActivityEntry | null> {
+    const result = await this.pool().query(
+      `${ACTIVITY_SELECT} WHERE e.provider_id = $1 AND e.end_time IS NULL`,
+      [staffId],
+    );
+    return result.rows[0] ? this.activityFromRow(result.rows[0]) : null;
+  }
+
+  // Stop a running timer, counting whole minutes unless corrected
+  static async stopTimer(
+    timer: CcmActivityEntry,
+    input: { minutes?: number; notes?: string; mdmLevel?: string },
+    now = new Date(),
+  ): Promise<CcmActivityEntry> {
+    const minutes =
+      input.minutes ??
+      Math.floor((now.getTime() - Date.parse(timer.startTime)) / 60000);
+    await this.pool().query(
+      `UPDATE ccm_encounters
+      SET end_time = $2, duration_minutes = $3, mdm_level = $4,
+        encounter_notes = COALESCE($5, encounter_notes)
+      WHERE id = $1`,
+      [timer.id, now, minutes, input.mdmLevel || null, input.notes || null],
+    );
+    return this.getActivity(timer.id);
+  }
+
+  // Time tracked outside the timer, e.g. a call made from another phone
+  static async logActivity(
+    enrollment: CcmEnrollment,
+    staffId: string,
+    input: {
+      activity: CcmActivity;
+      startTime: Date;
+      minutes: number;
+      mdmLevel?: string;
+      notes?: string;
+    },
+  ): Promise<CcmActivityEntry> {
+    const result = await this.pool().query(
+      `INSERT INTO ccm_encounters
+        (ccm_patient_id, encounter_type, start_time, end_time,
+         duration_minutes, provider_id, mdm_level, encounter_notes)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+      RETURNING id`,
+      [
+        enrollment.id,
+        input.activity,
+        input.startTime,
+        new Date(input.startTime.getTime() + input.minutes * 60000),
+        input.minutes,
+        staffId,
+        input.mdmLevel || null,
+        input.notes || null,
+      ],
+    );
+    return this.getActivity(result.rows[0].id);
+  }
+
+  static async listActivities(
+    enrollment: CcmEnrollment,
+    month: string,
+    timeZone: string,
+  ): Promise<CcmActivityEntry[]> {
+    const result = await this.pool().query(
+      `${ACTIVITY_SELECT}
+      WHERE e.ccm_patient_id = $1
+        AND to_char(e.start_time AT TIME ZONE $3, 'YYYY-MM') = $2
+      ORDER BY e.start_time DESC`,
+      [enrollment.id, month, timeZone],
+    );
+    return result.rows.map((row) => this.activityFromRow(row));
+  }
+
+  /**
+   * Month-end view for care managers: each enrolled patient's minutes, the
+   * codes they earn and how far they are from the next threshold. Limited
+   * to `patientIds` when given.
+   */
+  static async getMonthlyReport(
+    month: string,
+    options: {
+      timeZone: string;
+      nearWithin?: number;
+      patientIds?: string[];
+      now?: Date;
+    },
+  ): Promise<CcmMonthlyReport> {
+    const nearWithin = options.nearWithin ?? NEAR_THRESHOLD_MINUTES;
+    const result = await this.pool().query(
+      `SELECT ${ENROLLMENT_COLUMNS}, cp.plan_name,
+        to_char(cp.next_review_date, 'YYYY-MM-DD') AS next_review_day,
+        COALESCE(t.minutes, 0)::int AS month_minutes,
+        COALESCE(t.activities, 0)::int AS month_activities,
+        COALESCE(t.complex, false) AS month_complex
+      ${ENROLLMENT_FROM}
+      LEFT JOIN care_plans cp ON cp.id = c.care_plan_id
+      LEFT JOIN (
+        SELECT ccm_patient_id, SUM(duration_minutes) AS minutes,
+          COUNT(*) AS activities,
+          bool_or(encounter_type = 'care_plan_revision'
+            AND mdm_level = ANY($4)) AS complex
+        FROM ccm_encounters
+        WHERE end_time IS NOT NULL
+          AND to_char(start_time AT TIME ZONE $2, 'YYYY-MM') = $1
+        GROUP BY ccm_patient_id
+      ) t ON t.ccm_patient_id = c.id
+      WHERE to_char(c.enrollment_date, 'YYYY-MM') <= $1
+        AND (c.status = 'active' OR t.minutes > 0)
+        AND ($3::text[] IS NULL OR c.patient_id::text = ANY($3))
+      ORDER BY p.last_name, p.first_name`,
+      [month, options.timeZone, options.patientIds || null, COMPLEX_MDM_LEVELS],
+    );
+
+    const rows = result.rows.map((row): CcmReportRow => {
+      const enrollment = this.enrollmentFromRow(row);
+      const minutes = row.month_minutes;
+      const assessment = this.assessMonth(minutes, row.month_complex);
+      const blockers = this.blockers(enrollment);
+      return {
+        patientId: enrollment.patientId,
+        patientName: enrollment.patientName || "",
+        providerId: enrollment.providerId,
+        providerName: enrollment.providerName || "",
+        riskLevel: enrollment.riskLevel,
+        conditions: enrollment.conditions,
+        consentDate: enrollment.consentDate,
+        carePlan: enrollment.carePlanId
+          ? {
+              id: enrollment.carePlanId,
+              name: row.plan_name,
+              nextReviewDate: row.next_review_day || undefined,
+            }
+          : null,
+        minutes,
+        activities: row.month_activities,
+        ...assessment,
+        billable: assessment.codes.length > 0 && blockers.length === 0,
+        nearThreshold:
+          assessment.nextThreshold !== null &&
+          assessment.nextThreshold.remaining <= nearWithin,
+        blockers,
+      };
+    });
+
+    const byCode = Object.fromEntries(
+      Object.keys(CCM_CODES).map((code) => {
+        const billed = rows
+          .filter((row) => row.billable)
+          .flatMap((row) => row.codes.filter((c) => c.code === code));
+        return [
+          code,
+          {
+            patients: billed.length,
+            units: billed.reduce((sum, c) => sum + c.units, 0),
+          },
+        ];
+      }),
+    ) as CcmMonthlyReport["summary"]["byCode"];
+
+    return {
+      month,
+      timeZone: options.timeZone,
+      generatedAt: (options.now || new Date()).toISOString(),
+      rows,
+      summary: {
+        patients: rows.length,
+        billable: rows.filter((row) => row.billable).length,
+        nearThreshold: rows.filter((row) => row.nearThreshold).length,
+        blocked: rows.filter((row) => row.blockers.length > 0).length,
+        byCode,
+      },
+    };
+  }
+
+  static toCSV(report: CcmMonthlyReport): string {
+    const header = [
+      "Patient ID",
+      "Patient",
+      "Billing Provider",
+      "Risk",
+      "Minutes",
+      "Codes",
+      "Billable",
+      "Next Threshold",
+      "Minutes Needed",
+      "Blockers",
+    ];
+    const rows = report.rows.map((row) => [
+      row.patientId,
+      row.patientName,
+      row.providerName,
+      row.riskLevel,
+      row.minutes,
+      row.codes
+        .map((c) => (c.units > 1 ? `${c.code} x${c.units}` : c.code))
+        .join("; "),
+      row.billable ? "yes" : "no",
+      row.nextThreshold?.code,
+      row.nextThreshold?.remaining,
+      row.blockers.join("; "),
+    ]);
+
+    return [header, ...rows]
+      .map((row) => row.map(csvCell).join(","))
+      .join("\r\n");
+  }
+
+  private static async getActivity(id: string): Promise<CcmActivityEntry> {
+    const result = await this.pool().query(
+      `${ACTIVITY_SELECT} WHERE e.id = $1`,
+      [id],
+    );
+    return this.activityFromRow(result.rows[0]);
+  }
+
+  private static enrollmentFromRow(row: any): CcmEnrollment {
+    return {
+      id: row.id,
+      patientId: row.patient_id,
+      patientName: row.patient_first_name
+        ? `${row.patient_first_name} ${row.patient_last_name}`
+        : undefined,
+      providerId: row.provider_id,
+      providerName: row.provider_first_name
+        ? `${row.provider_first_name} ${row.provider_last_name}`
+        : undefined,
+      enrollmentDate: row.enrollment_day,
+      status: row.status,
+      consentDate: row.consent_day || undefined,
+      consentMethod: row.consent_method || undefined,
+      riskLevel: row.risk_level,
+      conditions: row.conditions || [],
+      carePlanId: row.care_plan_id || undefined,
+      disenrolledAt: row.disenrolled_at
+        ? new Date(row.disenrolled_at).toISOString()
+        : undefined,
+      disenrollmentReason: row.disenrollment_reason || undefined,
+    };
+  }
+
+  private static carePlanFromRow(row: any): CarePlan {
+    const data = row.plan_data || {};
+    return {
+      id: row.id,
+      name: row.plan_name,
+      description: row.plan_description || undefined,
+      startDate: row.start_day,
+      status: row.status,
+      nextReviewDate: row.next_review_day || undefined,
+      problems: data.problems || [],
+      goals: data.goals || [],
+      interventions: data.interventions || [],
+      createdBy: row.created_by,
+      createdAt: new Date(row.created_at).toISOString(),
+    };
+  }
+
+  private static activityFromRow(row: any): CcmActivityEntry {
+    return {
+      id: row.id,
+      patientId: row.patient_id,
+      staffId: row.provider_id,
+      staffName: row.staff_first_name
+        ? `${row.staff_first_name} ${row.staff_last_name}`
+        : undefined,
+      activity: row.encounter_type,
+      startTime: new Date(row.start_time).toISOString(),
+      endTime: row.end_time ? new Date(row.end_time).toISOString() : undefined,
+      minutes: row.duration_minutes ?? null,
+      mdmLevel: row.mdm_level || undefined,
+      notes: row.encounter_notes || undefined,
+    };
+  }
+
+  private static pool() {
+    if (!dbPool) {
+      throw new Error("PostgreSQL pool not configured");
+    }
+    return dbPool;
+  }
+}
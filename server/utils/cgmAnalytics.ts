@@ -0,0 +1,544 @@
+import { dbPool } from "../config/database";
+import { renderTextPdf, PDF_LINE_WIDTH } from "./pdfWriter";
+import { SchedulingService } from "./scheduling";
+
+// CGM metrics as defined by the international consensus on time in range
+// (Battelino et al., Diabetes Care 2019) and the ambulatory glucose profile.
+// Readings come from the glucose stream stored by wearable ingestion, in
+// mg/dL.
+
+export interface GlucosePoint {
+  value: number;
+  measuredAt: string;
+}
+
+export type GlucoseBand = "very_low" | "low" | "target" | "high" | "very_high";
+
+export interface CgmRange {
+  band: GlucoseBand;
+  label: string;
+  percent: number;
+  minutesPerDay: number;
+}
+
+export interface CgmTarget {
+  metric: string;
+  label: string;
+  value: number;
+  goal: string;
+  met: boolean;
+}
+
+// Percentiles of every reading that fell in one 15-minute slot of the day
+export interface AgpSlot {
+  time: string;
+  count: number;
+  p5: number | null;
+  p25: number | null;
+  p50: number | null;
+  p75: number | null;
+  p95: number | null;
+}
+
+export interface HypoEvent {
+  start: string;
+  end: string;
+  durationMinutes: number;
+  nadir: number;
+  // 1: below 70 mg/dL, 2: below 54 mg/dL for at least 15 minutes
+  level: 1 | 2;
+}
+
+export interface CgmMetrics {
+  data: {
+    readings: number;
+    intervalMinutes: number;
+    activePercent: number;
+    sufficient: boolean;
+  };
+  glucose: {
+    unit: "mg/dL";
+    mean: number | null;
+    sd: number | null;
+    cv: number | null;
+    gmi: number | null;
+  };
+  ranges: CgmRange[];
+  targets: CgmTarget[];
+  agp: AgpSlot[];
+  hypoglycemia: {
+    events: HypoEvent[];
+    level1: number;
+    level2: number;
+  };
+}
+
+export interface CgmReport extends CgmMetrics {
+  patient: { id: string; name: string };
+  period: { start: string; end: string; days: number; timeZone: string };
+  generatedAt: string;
+}
+
+export const DEFAULT_REPORT_DAYS = 14;
+export const MAX_REPORT_DAYS = 90;
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY_MINUTES = 24 * 60;
+const AGP_SLOT_MINUTES = 15;
+// Fewer readings than this in a slot give no meaningful percentiles
+const AGP_MIN_READINGS = 5;
+// An event needs 15 minutes below the threshold and ends after 15 minutes above
+const EVENT_MINUTES = 15;
+// Longer gaps in the stream split events, as nothing is known in between
+const MAX_GAP_MINUTES = 30;
+// 70% sensor wear is the consensus minimum for a 14-day report
+const SUFFICIENT_ACTIVE_PERCENT = 70;
+
+const RANGE_LABELS: Record<GlucoseBand, string> = {
+  very_low: "Very low (<54)",
+  low: "Low (54-69)",
+  target: "In range (70-180)",
+  high: "High (181-250)",
+  very_high: "Very high (>250)",
+};
+
+const round = (value: number, decimals = 1) =>
+  Math.round(value * 10 ** decimals) / 10 ** decimals;
+
+const fit = (value: string, width: number): string =>
+  value.length > width
+    ? `${value.slice(0, width - 1)}~`
+    : value.padEnd(width, " ");
+
+export class CgmAnalyticsService {
+  static band(value: number): GlucoseBand {
+    if (value < 54) return "very_low";
+    if (value < 70) return "low";
+    if (value <= 180) return "target";
+    if (value <= 250) return "high";
+    return "very_high";
+  }
+
+  // Linear interpolation between the closest ranks of sorted values
+  static percentile(sorted: number[], p: number): number {
+    const rank = (p / 100) * (sorted.length - 1);
+    const lower = Math.floor(rank);
+    const upper = Math.ceil(rank);
+    return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+  }
+
+  // Glucose management indicator: the HbA1c that the mean glucose suggests
+  static gmi(meanMgDl: number): number {
+    return round(3.31 + 0.02392 * meanMgDl);
+  }
+
+  /**
+   * Compute every report metric for readings taken between start and end.
+   * The AGP is laid out on the patient's clock, so timeZone should be where
+   * they live.
+   */
+  static analyze(
+    points: GlucosePoint[],
+    period: { start: Date; end: Date; timeZone: string },
+  ): CgmMetrics {
+    const readings = points
+      .map((point) => ({
+        value: Number(point.value),
+        time: new Date(point.measuredAt).getTime(),
+      }))
+      .filter(
+        (reading) =>
+          isFinite(reading.value) &&
+          reading.time >= period.start.getTime() &&
+          reading.time < period.end.getTime(),
+      )
+      .sort((a, b) => a.time - b.time);
+    const values = readings.map((reading) => reading.value);
+
+    const intervalMinutes = this.samplingInterval(readings.map((r) => r.time));
+    const periodMinutes =
+      (period.end.getTime() - period.start.getTime()) / MINUTE;
+    const activePercent = round(
+      Math.min(
+        100,
+        ((readings.length * intervalMinutes) / periodMinutes) * 100,
+      ),
+    );
+
+    const mean = values.length
+      ? values.reduce((sum, value) => sum + value, 0) / values.length
+      : null;
+    const sd =
+      values.length > 1
+        ? Math.sqrt(
+            values.reduce((sum, value) => sum + (value - mean!) ** 2, 0) /
+              (values.length - 1),
+          )
+        : null;
+    const cv = mean && sd !== null ? round((sd / mean) * 100) : null;
+
+    const counts: Record<GlucoseBand, number> = {
+      very_low: 0,
+      low: 0,
+      target: 0,
+      high: 0,
+      very_high: 0,
+    };
+    values.forEach((value) => counts[this.band(value)]++);
+    const percent = (band: GlucoseBand) =>
+      values.length ? (counts[band] / values.length) * 100 : 0;
+    const ranges = (Object.keys(RANGE_LABELS) as GlucoseBand[]).map((band) => ({
+      band,
+      label: RANGE_LABELS[band],
+      percent: round(percent(band)),
+      minutesPerDay: Math.round((percent(band) / 100) * DAY_MINUTES),
+    }));
+
+    const target = (
+      metric: string,
+      label: string,
+      value: number,
+      goal: "above" | "below",
+      limit: number,
+    ): CgmTarget => ({
+      metric,
+      label,
+      value: round(value),
+      goal: `${goal === "above" ? ">" : "<"} ${limit}%`,
+      met: goal === "above" ? value > limit : value < limit,
+    });
+    const targets = values.length
+      ? [
+          target(
+            "tir",
+            "Time in range (70-180)",
+            percent("target"),
+            "above",
+            70,
+          ),
+          target(
+            "tbr",
+            "Time below 70",
+            percent("very_low") + percent("low"),
+            "below",
+            4,
+          ),
+          target(
+            "tbr_level2",
+            "Time below 54",
+            percent("very_low"),
+            "below",
+            1,
+          ),
+          target(
+            "tar",
+            "Time above 180",
+            percent("high") + percent("very_high"),
+            "below",
+            25,
+          ),
+          target(
+            "tar_level2",
+            "Time above 250",
+            percent("very_high"),
+            "below",
+            5,
+          ),
+          {
+            metric: "cv",
+            label: "Glucose variability (CV)",
+            value: cv ?? 0,
+            goal: "<= 36%",
+            met: cv !== null && cv <= 36,
+          },
+        ]
+      : [];
+
+    const level1 = this.lowEvents(readings, 70, intervalMinutes);
+    const level2 = this.lowEvents(readings, 54, intervalMinutes);
+    const events: HypoEvent[] = level1.map((event) => ({
+      start: new Date(event.start).toISOString(),
+      end: new Date(event.end).toISOString(),
+      durationMinutes: event.durationMinutes,
+      nadir: event.nadir,
+      level: level2.some(
+        (severe) => severe.start <= event.end && severe.end >= event.start,
+      )
+        ? 2
+        : 1,
+    }));
+
+    return {
+      data: {
+        readings: readings.length,
+        intervalMinutes,
+        activePercent,
+        sufficient: activePercent >= SUFFICIENT_ACTIVE_PERCENT,
+      },
+      glucose: {
+        unit: "mg/dL",
+        mean: mean === null ? null : round(mean),
+        sd: sd === null ? null : round(sd),
+        cv,
+        gmi: mean === null ? null : this.gmi(mean),
+      },
+      ranges,
+      targets,
+      agp: this.agp(readings, period.timeZone),
+      hypoglycemia: {
+        events,
+        level1: events.length,
+        level2: level2.length,
+      },
+    };
+  }
+
+  // The sensor's reading interval, from the typical gap between readings
+  private static samplingInterval(times: number[]): number {
+    const gaps = times
+      .slice(1)
+      .map((time, i) => (time - times[i]) / MINUTE)
+      .filter((gap) => gap > 0)
+      .sort((a, b) => a - b);
+    if (gaps.length === 0) return 5;
+    return Math.min(15, Math.max(1, Math.round(this.percentile(gaps, 50))));
+  }
+
+  /**
+   * Episodes below a threshold lasting at least 15 minutes. A dip back
+   * above the threshold for less than 15 minutes does not end an episode;
+   * a gap in the data does.
+   */
+  private static lowEvents(
+    readings: { value: number; time: number }[],
+    threshold: number,
+    intervalMinutes: number,
+  ): { start: number; end: number; durationMinutes: number; nadir: number }[] {
+    const runs: { start: number; end: number; nadir: number }[] = [];
+    let run: { start: number; end: number; nadir: number } | null = null;
+    let previous: number | null = null;
+
+    for (const { value, time } of readings) {
+      const gap =
+        previous !== null && time - previous > MAX_GAP_MINUTES * MINUTE;
+      if (value >= threshold) {
+        run = null;
+      } else if (run && !gap) {
+        run.end = time;
+        run.nadir = Math.min(run.nadir, value);
+      } else {
+        run = { start: time, end: time, nadir: value };
+        runs.push(run);
+      }
+      previous = time;
+    }
+
+    const merged: typeof runs = [];
+    for (const current of runs) {
+      const last = merged[merged.length - 1];
+      // Time spent back above the threshold between the two runs
+      if (
+        last &&
+        current.start - last.end - intervalMinutes * MINUTE <
+          EVENT_MINUTES * MINUTE
+      ) {
+        last.end = current.end;
+        last.nadir = Math.min(last.nadir, current.nadir);
+      } else {
+        merged.push({ ...current });
+      }
+    }
+
+    return merged
+      .map((event) => ({
+        ...event,
+        // Each reading stands for one sampling interval
+        durationMinutes: Math.round(
+          (event.end - event.start) / MINUTE + intervalMinutes,
+        ),
+      }))
+      .filter((event) => event.durationMinutes >= EVENT_MINUTES);
+  }
+
+  private static agp(
+    readings: { value: number; time: number }[],
+    timeZone: string,
+  ): AgpSlot[] {
+    const slots: number[][] = Array.from(
+      { length: DAY_MINUTES / AGP_SLOT_MINUTES },
+      () => [],
+    );
+    // Zone offsets only change on the hour, so look each hour up once
+    const offsets = new Map<number, number>();
+    for (const { value, time } of readings) {
+      const hour = Math.floor(time / HOUR);
+      if (!offsets.has(hour)) {
+        offsets.set(
+          hour,
+          SchedulingService.zoneOffset(new Date(time), timeZone),
+        );
+      }
+      const minuteOfDay =
+        Math.floor((time + offsets.get(hour)!) / MINUTE) % DAY_MINUTES;
+      slots[Math.floor(minuteOfDay / AGP_SLOT_MINUTES)].push(value);
+    }
+
+    return slots.map((values, i) => {
+      const minutes = i * AGP_SLOT_MINUTES;
+      const time = `${String(Math.floor(minutes / 60)).padStart(2, "0")}:${String(minutes % 60).padStart(2, "0")}`;
+      if (values.length < AGP_MIN_READINGS) {
+        return {
+          time,
+          count: values.length,
+          p5: null,
+          p25: null,
+          p50: null,
+          p75: null,
+          p95: null,
+        };
+      }
+      const sorted = values.sort((a, b) => a - b);
+      return {
+        time,
+        count: values.length,
+        p5: Math.round(this.percentile(sorted, 5)),
+        p25: Math.round(this.percentile(sorted, 25)),
+        p50: Math.round(this.percentile(sorted, 50)),
+        p75: Math.round(this.percentile(sorted, 75)),
+        p95: Math.round(this.percentile(sorted, 95)),
+      };
+    });
+  }
+
+  /**
+   * Report over the days up to `end` from the patient's stored glucose
+   * readings. Returns null when the patient does not exist.
+   */
+  static async getReport(
+    patientId: string,
+    options: { end: Date; days: number; timeZone: string },
+  ): Promise<CgmReport | null> {
+    const patient = await this.pool().query(
+      "SELECT id, first_name, last_name FROM users WHERE id = $1",
+      [patientId],
+    );
+    if (patient.rows.length === 0) return null;
+
+    const start = new Date(options.end.getTime() - options.days * 24 * HOUR);
+    const readings = await this.pool().query(
+      `SELECT value, recorded_at FROM rpm_readings
+      WHERE patient_id = $1 AND reading_type = 'glucose' AND unit = 'mg/dL'
+        AND recorded_at >= $2 AND recorded_at < $3
+      ORDER BY recorded_at`,
+      [patientId, start, options.end],
+    );
+
+    const { first_name, last_name } = patient.rows[0];
+    return {
+      patient: { id: patientId, name: `${first_name} ${last_name}` },
+      period: {
+        start: start.toISOString(),
+        end: options.end.toISOString(),
+        days: options.days,
+        timeZone: options.timeZone,
+      },
+      generatedAt: new Date().toISOString(),
+      ...this.analyze(
+        readings.rows.map((row) => ({
+          value: Number(row.value),
+          measuredAt: new Date(row.recorded_at).toISOString(),
+        })),
+        { start, end: options.end, timeZone: options.timeZone },
+      ),
+    };
+  }
+
+  // Printable report for clinic review; the AGP is tabulated by hour
+  static toPDF(report: CgmReport): Buffer {
+    const value = (n: number | null, unit = "") =>
+      n === null ? "-" : `${n}${unit}`;
+    const { data, glucose } = report;
+
+    const lines = [
+      "CONTINUOUS GLUCOSE MONITORING REPORT",
+      "",
+      `Patient:   ${report.patient.name} (${report.patient.id})`,
+      `Period:    ${report.period.start.slice(0, 10)} to ${report.period.end.slice(0, 10)} ` +
+        `(${report.period.days} days, ${report.period.timeZone})`,
+      `Generated: ${report.generatedAt.replace("T", " ").slice(0, 16)} UTC`,
+      `Sensor:    ${data.activePercent}% active, ${data.readings} readings ` +
+        `every ${data.intervalMinutes} min`,
+    ];
+    if (!data.sufficient) {
+      lines.push(
+        `           Less than ${SUFFICIENT_ACTIVE_PERCENT}% sensor wear; interpret with caution.`,
+      );
+    }
+
+    lines.push(
+      "",
+      "GLUCOSE",
+      `Mean glucose:                    ${value(glucose.mean, " mg/dL")}`,
+      `Glucose management indicator:    ${value(glucose.gmi, "%")}`,
+      `Coefficient of variation:        ${value(glucose.cv, "%")}`,
+      `Standard deviation:              ${value(glucose.sd, " mg/dL")}`,
+      "",
+      "TIME IN RANGES",
+      ...report.ranges.map(
+        (range) =>
+          `${fit(range.label, 22)} ${fit(`${range.percent}%`, 7)} ${range.minutesPerDay} min/day`,
+      ),
+      "",
+      `${fit("Target", 30)} ${fit("Value", 8)} ${fit("Goal", 8)} Met`,
+      "-".repeat(54),
+      ...report.targets.map(
+        (target) =>
+          `${fit(target.label, 30)} ${fit(`${target.value}%`, 8)} ${fit(target.goal, 8)} ${target.met ? "yes" : "NO"}`,
+      ),
+      "",
+      "AMBULATORY GLUCOSE PROFILE (mg/dL, by hour of day)",
+      ["Time", "5%", "25%", "Median", "75%", "95%", "Readings"]
+        .map((title) => fit(title, 9))
+        .join(" "),
+      "-".repeat(Math.min(PDF_LINE_WIDTH, 69)),
+      ...report.agp
+        .filter((slot) => slot.time.endsWith(":00"))
+        .map((slot) =>
+          [
+            slot.time,
+            value(slot.p5),
+            value(slot.p25),
+            value(slot.p50),
+            value(slot.p75),
+            value(slot.p95),
+            String(slot.count),
+          ]
+            .map((cell) => fit(cell, 9))
+            .join(" "),
+        ),
+      "",
+      `HYPOGLYCEMIA: ${report.hypoglycemia.level1} events, ` +
+        `${report.hypoglycemia.level2} below 54 mg/dL`,
+    );
+    for (const event of report.hypoglycemia.events) {
+      lines.push(
+        `${event.start.replace("T", " ").slice(0, 16)} UTC  ` +
+          `${fit(`${event.durationMinutes} min`, 8)} lowest ${event.nadir} mg/dL` +
+          (event.level === 2 ? "  (level 2)" : ""),
+      );
+    }
+    if (data.readings === 0) {
+      lines.push("", "No glucose readings were recorded for this period.");
+    }
+
+    return renderTextPdf(lines);
+  }
+
+  private static pool() {
+    if (!dbPool) {
+      throw new Error("PostgreSQL pool not configured");
+    }
+    return dbPool;
+  }
+}
@@ -0,0 +1,674 @@
+import { dbPool } from "../config/database";
+import { AuditLogger } from "./auditLogger";
+import type { MessageRequest } from "./messagingService";
+import { normalizePhone, PhoneDirectory } from "./phoneNumbers";
+import { SchedulingService } from "./scheduling";
+
+// Whether a message may go to its recipient. Every outbound message is
+// checked in MessagingService.sendMessage against:
+// - the SMS opt-out list: a number that texted STOP gets no more texts
+//   until it texts START; emergencies reach it by voice call instead
+// - the patient's consent per channel × category (reminders, marketing,
+//   alerts), when the message is addressed to the patient themselves
+// - the patient's quiet hours, in their time zone: reminders and marketing
+//   are deferred until the quiet hours end, non-urgent calls become texts
+// Emergencies and critical messages are never held for quiet hours.
+// Replies to STOP, START and HELP always go out, as carriers require, and
+// so do sign-in codes the user has just asked for.
+
+export type ConsentChannel = "sms" | "voice" | "email";
+export const CONSENT_CHANNELS: ConsentChannel[] = ["sms", "voice", "email"];
+
+export type ConsentCategory = "reminders" | "marketing" | "alerts";
+export const CONSENT_CATEGORIES: ConsentCategory[] = [
+  "reminders",
+  "marketing",
+  "alerts",
+];
+
+// Reminders and alerts are part of care and sent until the patient says
+// otherwise; marketing needs the patient to opt in
+export const DEFAULT_CONSENT: Record<ConsentCategory, boolean> = {
+  reminders: true,
+  marketing: false,
+  alerts: true,
+};
+
+// The consent category a message category falls under; emergencies and
+// system messages (codes, replies to the patient's own texts) have none
+export const MESSAGE_CONSENT_CATEGORY: Record<
+  MessageRequest["category"],
+  ConsentCategory | null
+> = {
+  reminder: "reminders",
+  appointment: "reminders",
+  medication: "reminders",
+  alert: "alerts",
+  education: "marketing",
+  marketing: "marketing",
+  emergency: null,
+  system: null,
+};
+
+export const DEFAULT_TIME_ZONE = process.env.MESSAGING_TIME_ZONE || "UTC";
+export const DEFAULT_QUIET_HOURS: QuietHours = { start: "22:00", end: "07:00" };
+
+// How each decision other than send is kept in message_consent_decisions
+const DECISION_ACTIONS: Record<
+  Exclude<ConsentDecision["action"], "send">,
+  ConsentDecisionRecord["action"]
+> = {
+  block: "blocked",
+  downgrade: "downgraded",
+  defer: "deferred",
+};
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+// Opt-outs are keyed on the full number; see optOutParams
+const OPT_OUT_MATCH = "(phone_key = $1 OR match_key = $2)";
+
+const PATIENT_SELECT = `
+  SELECT u.id, u.phone, u.email, p.quiet_start, p.quiet_end, p.timezone,
+    p.patient_id AS has_preferences
+  FROM users u
+  LEFT JOIN communication_preferences p ON p.patient_id = u.id
+  WHERE u.id::text = $1 AND u.role = 'patient'`;
+
+export interface QuietHours {
+  start: string; // HH:MM
+  end: string; // HH:MM
+}
+
+export type ConsentReason =
+  | "sms_opted_out"
+  | "consent_withdrawn"
+  | "consent_not_given"
+  | "quiet_hours"
+  | "registry_unavailable";
+
+export const CONSENT_REASON_MESSAGES: Record<ConsentReason, string> = {
+  sms_opted_out: "The number has opted out of texts (STOP)",
+  consent_withdrawn: "The patient has withdrawn consent for these messages",
+  consent_not_given: "The patient has not opted in to these messages",
+  quiet_hours: "It is within the patient's quiet hours",
+  registry_unavailable: "The consent registry could not be read",
+};
+
+export interface ConsentDecision {
+  action: "send" | "block" | "downgrade" | "defer";
+  // The channel the message goes out on
+  type: ConsentChannel;
+  reason?: ConsentReason;
+  // When a deferred message may go out: the end of the quiet hours
+  deferUntil?: string;
+}
+
+// A patient's explicit choices; missing ones take DEFAULT_CONSENT
+export type ConsentChoices = Partial<
+  Record<ConsentChannel, Partial<Record<ConsentCategory, boolean>>>
+>;
+
+// What is known about a message's recipient when deciding
+export interface ConsentContext {
+  smsOptedOut: boolean;
+  // Present when the message is addressed to the patient themselves
+  patient?: {
+    consents: ConsentChoices;
+    quietHours: QuietHours | null;
+    timeZone: string;
+  };
+  now: Date;
+}
+
+export interface PatientCommunicationSettings {
+  patientId: string;
+  // Effective consent, defaults filled in
+  consents: Record<ConsentChannel, Record<ConsentCategory, boolean>>;
+  quietHours: QuietHours | null;
+  timeZone: string;
+  phone?: string;
+  smsOptedOut: boolean;
+  smsOptedOutAt?: string;
+}
+
+export interface ConsentDecisionRecord {
+  id: number;
+  recipient: string;
+  category: string;
+  priority: string;
+  template?: string;
+  action: "blocked" | "downgraded" | "deferred";
+  reason: ConsentReason;
+  requestedChannel: ConsentChannel;
+  sentChannel?: ConsentChannel;
+  deferredUntil?: string;
+  createdAt: string;
+}
+
+/**
+ * Whether a clock time falls within quiet hours. Windows whose start is
+ * after their end ("22:00" to "07:00") run past midnight; the end minute
+ * itself is no longer quiet.
+ */
+export const isQuietHours = (time: string, quietHours: QuietHours): boolean => {
+  const { start, end } = quietHours;
+  if (start < end) {
+    return time >= start && time < end;
+  }
+  return time >= start || time < end;
+};
+
+export class CommunicationConsent {
+  // Wall-clock HH:MM of an instant in a time zone
+  static localTime(instant: Date, timeZone: string): string {
+    const offset = SchedulingService.zoneOffset(instant, timeZone);
+    return new Date(instant.getTime() + offset).toISOString().slice(11, 16);
+  }
+
+  // The next time the quiet hours end, on the patient's clock
+  static quietHoursEnd(
+    now: Date,
+    quietHours: QuietHours,
+    timeZone: string,
+  ): Date {
+    const today = SchedulingService.localDate(now, timeZone);
+    const end = SchedulingService.zonedTimeToUtc(
+      today,
+      quietHours.end,
+      timeZone,
+    );
+    return end > now
+      ? end
+      : SchedulingService.zonedTimeToUtc(
+          SchedulingService.addDays(today, 1),
+          quietHours.end,
+          timeZone,
+        );
+  }
+
+  static validateQuietHours(quietHours: any): string | null {
+    if (quietHours === null) return null;
+    if (
+      !TIME_PATTERN.test(quietHours?.start) ||
+      !TIME_PATTERN.test(quietHours?.end)
+    ) {
+      return "quietHours must have start and end as HH:MM, or be null";
+    }
+    if (quietHours.start === quietHours.end) {
+      return "quietHours start and end must differ";
+    }
+    return null;
+  }
+
+  /**
+   * Decide how a message may go out. A message that cannot go on its own
+   * channel is moved where that helps the patient (an emergency text to a
+   * STOPped number becomes a call, a non-urgent call at night a text),
+   * deferred when only the quiet hours stand in its way, and blocked
+   * otherwise.
+   */
+  static decide(
+    request: Pick<
+      MessageRequest,
+      "type" | "category" | "priority" | "keywordReply" | "transactional"
+    >,
+    context: ConsentContext,
+  ): ConsentDecision {
+    const type = request.type;
+    if (request.keywordReply || request.transactional) {
+      return { action: "send", type };
+    }
+
+    const emergency =
+      request.category === "emergency" || request.priority === "critical";
+    // Categories outside the list need the patient to have opted in
+    const category =
+      request.category in MESSAGE_CONSENT_CATEGORY
+        ? MESSAGE_CONSENT_CATEGORY[request.category]
+        : "marketing";
+    const consented = (channel: ConsentChannel) =>
+      !category ||
+      !context.patient ||
+      (context.patient.consents[channel]?.[category] ??
+        DEFAULT_CONSENT[category]);
+    // Whether the same message could go out on another channel as it is
+    const allowedOn = (channel: ConsentChannel) =>
+      !(channel === "sms" && context.smsOptedOut) && consented(channel);
+
+    if (type === "sms" && context.smsOptedOut) {
+      return emergency && allowedOn("voice")
+        ? { action: "downgrade", type: "voice", reason: "sms_opted_out" }
+        : { action: "block", type, reason: "sms_opted_out" };
+    }
+
+    if (!consented(type)) {
+      return {
+        action: "block",
+        type,
+        reason:
+          context.patient!.consents[type]?.[category!] === false
+            ? "consent_withdrawn"
+            : "consent_not_given",
+      };
+    }
+
+    const patient = context.patient;
+    if (
+      !emergency &&
+      patient?.quietHours &&
+      isQuietHours(
+        this.localTime(context.now, patient.timeZone),
+        patient.quietHours,
+      )
+    ) {
+      const deferred: ConsentDecision = {
+        action: "defer",
+        type,
+        reason: "quiet_hours",
+        deferUntil: this.quietHoursEnd(
+          context.now,
+          patient.quietHours,
+          patient.timeZone,
+        ).toISOString(),
+      };
+      if (category === "reminders" || category === "marketing") {
+        return deferred;
+      }
+      if (type === "voice") {
+        return allowedOn("sms")
+          ? { action: "downgrade", type: "sms", reason: "quiet_hours" }
+          : deferred;
+      }
+    }
+
+    return { action: "send", type };
+  }
+
+  /**
+   * Look up the recipient and decide. Patient consent and quiet hours
+   * apply when the message goes to the patient's own phone or email, not
+   * to a care team member texted about them. When the registry cannot be
+   * read only emergencies go out. Keyword replies and sign-in codes need no
+   * lookup.
+   */
+  static async check(
+    request: MessageRequest,
+    now = new Date(),
+  ): Promise<ConsentDecision> {
+    if (request.keywordReply || request.transactional) {
+      return { action: "send", type: request.type };
+    }
+    try {
+      return this.decide(request, await this.context(request, now));
+    } catch (error) {
+      console.error("Communication consent lookup error:", error);
+      return request.category === "emergency" || request.priority === "critical"
+        ? { action: "send", type: request.type }
+        : {
+            action: "block",
+            type: request.type,
+            reason: "registry_unavailable",
+          };
+    }
+  }
+
+  // Keep a message the check blocked, deferred or moved, with the reason
+  static async recordDecision(
+    request: MessageRequest,
+    decision: ConsentDecision,
+  ): Promise<void> {
+    AuditLogger.logCommunication(
+      request.patientId || "system",
+      request.type,
+      "outbound_result",
+      {
+        recipient: request.to,
+        category: request.category,
+        template: request.template,
+        consent: decision.action,
+        reason: decision.reason,
+        sentAs: decision.action === "downgrade" ? decision.type : undefined,
+        deferUntil: decision.deferUntil,
+      },
+    );
+    if (!dbPool) return;
+
+    try {
+      await dbPool.query(
+        `INSERT INTO message_consent_decisions
+          (patient_id, recipient, category, priority, template, action,
+           reason, requested_channel, sent_channel, deferred_until)
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)`,
+        [
+          request.patientId || null,
+          request.to,
+          request.category,
+          request.priority,
+          request.template || null,
+          DECISION_ACTIONS[decision.action as keyof typeof DECISION_ACTIONS],
+          decision.reason,
+          request.type,
+          decision.action === "downgrade" ? decision.type : null,
+          decision.deferUntil || null,
+        ],
+      );
+    } catch (error) {
+      console.error("Record consent decision error:", error);
+    }
+  }
+
+  /**
+   * Record a STOP texted from a number. It covers every text to the
+   * number, whoever's record it is on.
+   */
+  static async optOut(
+    phone: string,
+    keyword: string,
+    patientId?: string,
+  ): Promise<void> {
+    await this.pool().query(
+      `INSERT INTO sms_opt_outs
+        (phone_key, phone, match_key, patient_id, keyword)
+      VALUES ($1, $1, $2, $3, $4)
+      ON CONFLICT (phone_key) DO UPDATE SET
+        patient_id = COALESCE(EXCLUDED.patient_id, sms_opt_outs.patient_id),
+        keyword = EXCLUDED.keyword,
+        opted_out_at = NOW()`,
+      [
+        normalizePhone(phone),
+        PhoneDirectory.matchKey(phone),
+        patientId || null,
+        keyword,
+      ],
+    );
+    AuditLogger.logEvent({
+      userId: patientId || "SYSTEM",
+      action: "SMS_OPT_OUT",
+      resourceType: "sms_opt_out",
+      resourceId: normalizePhone(phone),
+      details: { phone: normalizePhone(phone), keyword, patientId },
+    });
+  }
+
+  // Lift a STOP when the number texts START; false if it had none
+  static async optIn(
+    phone: string,
+    keyword: string,
+    patientId?: string,
+  ): Promise<boolean> {
+    const result = await this.pool().query(
+      `DELETE FROM sms_opt_outs WHERE ${OPT_OUT_MATCH}`,
+      this.optOutParams(phone),
+    );
+    const lifted = (result.rowCount || 0) > 0;
+    AuditLogger.logEvent({
+      userId: patientId || "SYSTEM",
+      action: "SMS_OPT_IN",
+      resourceType: "sms_opt_out",
+      resourceId: normalizePhone(phone),
+      details: { phone: normalizePhone(phone), keyword, patientId, lifted },
+    });
+    return lifted;
+  }
+
+  static async isSmsOptedOut(phone: string): Promise<boolean> {
+    const result = await this.pool().query(
+      `SELECT 1 FROM sms_opt_outs WHERE ${OPT_OUT_MATCH} LIMIT 1`,
+      this.optOutParams(phone),
+    );
+    return result.rows.length > 0;
+  }
+
+  static async getSettings(
+    patientId: string,
+  ): Promise<PatientCommunicationSettings | null> {
+    const patient = await this.pool().query(PATIENT_SELECT, [patientId]);
+    const row = patient.rows[0];
+    if (!row) return null;
+
+    const consents = await this.loadConsents(row.id);
+    const optOut = row.phone
+      ? (
+          await this.pool().query(
+            `SELECT opted_out_at FROM sms_opt_outs WHERE ${OPT_OUT_MATCH}
+            ORDER BY opted_out_at DESC LIMIT 1`,
+            this.optOutParams(row.phone),
+          )
+        ).rows[0]
+      : undefined;
+
+    return {
+      patientId: row.id,
+      consents: Object.fromEntries(
+        CONSENT_CHANNELS.map((channel) => [
+          channel,
+          Object.fromEntries(
+            CONSENT_CATEGORIES.map((category) => [
+              category,
+              consents[channel]?.[category] ?? DEFAULT_CONSENT[category],
+            ]),
+          ),
+        ]),
+      ) as PatientCommunicationSettings["consents"],
+      quietHours: this.quietHoursFromRow(row),
+      timeZone: row.timezone || DEFAULT_TIME_ZONE,
+      phone: row.phone || undefined,
+      smsOptedOut: Boolean(optOut),
+      smsOptedOutAt: optOut
+        ? new Date(optOut.opted_out_at).toISOString()
+        : undefined,
+    };
+  }
+
+  /**
+   * Record the patient's choices. Consents not listed, and quiet hours or
+   * time zone left undefined, keep their current value; null quiet hours
+   * means the patient may be contacted at any time.
+   */
+  static async updateSettings(
+    patientId: string,
+    changes: {
+      consents?: Array<{
+        channel: ConsentChannel;
+        category: ConsentCategory;
+        granted: boolean;
+      }>;
+      quietHours?: QuietHours | null;
+      timeZone?: string;
+    },
+    updatedBy: string,
+  ): Promise<void> {
+    for (const consent of changes.consents || []) {
+      await this.pool().query(
+        `INSERT INTO communication_consents
+          (patient_id, channel, category, granted, updated_by)
+        VALUES ($1, $2, $3, $4, $5)
+        ON CONFLICT (patient_id, channel, category) DO UPDATE SET
+          granted = EXCLUDED.granted,
+          updated_by = EXCLUDED.updated_by,
+          updated_at = NOW()`,
+        [
+          patientId,
+          consent.channel,
+          consent.category,
+          consent.granted,
+          updatedBy,
+        ],
+      );
+    }
+    if (changes.quietHours !== undefined || changes.timeZone !== undefined) {
+      await this.setQuietHours(
+        patientId,
+        changes.quietHours,
+        changes.timeZone,
+        updatedBy,
+      );
+    }
+
+    AuditLogger.logEvent({
+      userId: updatedBy,
+      action: "COMMUNICATION_CONSENT_UPDATED",
+      resourceType: "communication_consent",
+      resourceId: patientId,
+      details: changes,
+    });
+  }
+
+  // Quiet hours and time zone; undefined keeps the current value
+  static async setQuietHours(
+    patientId: string,
+    quietHours: QuietHours | null | undefined,
+    timeZone: string | undefined,
+    updatedBy?: string,
+  ): Promise<void> {
+    const keep = quietHours === undefined;
+    await this.pool().query(
+      `INSERT INTO communication_preferences
+        (patient_id, quiet_start, quiet_end, timezone, updated_by)
+      VALUES ($1, $2, $3, $4, $5)
+      ON CONFLICT (patient_id) DO UPDATE SET
+        quiet_start = CASE WHEN $6 THEN communication_preferences.quiet_start
+          ELSE EXCLUDED.quiet_start END,
+        quiet_end = CASE WHEN $6 THEN communication_preferences.quiet_end
+          ELSE EXCLUDED.quiet_end END,
+        timezone = COALESCE($7, communication_preferences.timezone),
+        updated_by = EXCLUDED.updated_by,
+        updated_at = NOW()`,
+      [
+        patientId,
+        keep ? DEFAULT_QUIET_HOURS.start : quietHours?.start || null,
+        keep ? DEFAULT_QUIET_HOURS.end : quietHours?.end || null,
+        timeZone || DEFAULT_TIME_ZONE,
+        updatedBy || null,
+        keep,
+        timeZone || null,
+      ],
+    );
+  }
+
+  // Messages to the patient the check blocked, deferred or moved, newest
+  // first
+  static async listDecisions(
+    patientId: string,
+    limit = 50,
+  ): Promise<ConsentDecisionRecord[]> {
+    const result = await this.pool().query(
+      `SELECT * FROM message_consent_decisions
+      WHERE patient_id::text = $1
+      ORDER BY created_at DESC, id DESC
+      LIMIT $2`,
+      [patientId, limit],
+    );
+    return result.rows.map((row) => ({
+      id: row.id,
+      recipient: row.recipient,
+      category: row.category,
+      priority: row.priority,
+      template: row.template || undefined,
+      action: row.action,
+      reason: row.reason,
+      requestedChannel: row.requested_channel,
+      sentChannel: row.sent_channel || undefined,
+      deferredUntil: row.deferred_until
+        ? new Date(row.deferred_until).toISOString()
+        : undefined,
+      createdAt: new Date(row.created_at).toISOString(),
+    }));
+  }
+
+  private static async context(
+    request: MessageRequest,
+    now: Date,
+  ): Promise<ConsentContext> {
+    // A call may be turned into a text, so a STOP matters for calls too
+    const smsOptedOut =
+      request.type !== "email" && (await this.isSmsOptedOut(request.to));
+
+    const patient = await this.recipientPatient(request.patientId, request);
+    if (!patient) return { smsOptedOut, now };
+
+    return {
+      smsOptedOut,
+      patient: {
+        consents: await this.loadConsents(patient.id),
+        quietHours: this.quietHoursFromRow(patient),
+        timeZone: patient.timezone || DEFAULT_TIME_ZONE,
+      },
+      now,
+    };
+  }
+
+  /**
+   * The patient a message is addressed to: the one named on the request
+   * when the address is theirs, or for texts and calls without one, the
+   * patient with that phone number. Null for anyone else.
+   */
+  private static async recipientPatient(
+    patientId: string | undefined,
+    request: MessageRequest,
+  ): Promise<any | null> {
+    const byPhone = request.type !== "email";
+    if (!patientId && byPhone) {
+      patientId = (await PhoneDirectory.findPatient(request.to))?.id;
+    }
+    if (!patientId) return null;
+
+    const result = await this.pool().query(PATIENT_SELECT, [patientId]);
+    const row = result.rows[0];
+    if (!row) return null;
+
+    const addressed = byPhone
+      ? Boolean(row.phone) &&
+        PhoneDirectory.matchKey(row.phone) ===
+          PhoneDirectory.matchKey(request.to)
+      : String(row.email || "").toLowerCase() ===
+        request.to.trim().toLowerCase();
+    return addressed ? row : null;
+  }
+
+  private static async loadConsents(
+    patientId: string,
+  ): Promise<ConsentChoices> {
+    const result = await this.pool().query(
+      "SELECT channel, category, granted FROM communication_consents WHERE patient_id = $1",
+      [patientId],
+    );
+    const consents: ConsentChoices = {};
+    for (const row of result.rows) {
+      consents[row.channel as ConsentChannel] = {
+        ...consents[row.channel as ConsentChannel],
+        [row.category]: row.granted,
+      };
+    }
+    return consents;
+  }
+
+  // Patients who never set quiet hours get the default ones
+  private static quietHoursFromRow(row: any): QuietHours | null {
+    if (!row.has_preferences) return DEFAULT_QUIET_HOURS;
+    return row.quiet_start && row.quiet_end
+      ? { start: row.quiet_start, end: row.quiet_end }
+      : null;
+  }
+
+  // Parameters for OPT_OUT_MATCH. Only a number without its country code
+  // falls back to the last digits, so a STOP from "+233 24 412 3456"
+  // covers a record saved as "024 412 3456" but not "+1 424 412 3456"
+  private static optOutParams(phone: string): (string | null)[] {
+    const international = String(phone || "")
+      .trim()
+      .startsWith("+");
+    return [
+      normalizePhone(phone),
+      international ? null : PhoneDirectory.matchKey(phone),
+    ];
+  }
+
+  private static pool() {
+    if (!dbPool) {
+      throw new Error("PostgreSQL pool not configured");
+    }
+    return dbPool;
+  }
+}
@@ -1,4 +1,5 @@
 import { dbPool } from "../config/database";
+import { AuditLogger } from "./auditLogger";
 
 /**
  * PostgreSQL Database Adapter
@@ -27,6 +28,31 @@ class DatabaseAdapter {
     }
   }
 
+  // Run `work` in one transaction, committed only if it resolves
+  async transaction<T>(
+    work: (
+      query: (sql: string, params?: any[]) => Promise<any[]>,
+    ) => Promise<T>,
+  ): Promise<T> {
+    if (!dbPool) {
+      throw new Error("PostgreSQL pool not configured");
+    }
+    const client = await dbPool.connect();
+    try {
+      await client.query("BEGIN");
+      const result = await work(
+        async (sql, params = []) => (await client.query(sql, params)).rows,
+      );
+      await client.query("COMMIT");
+      return result;
+    } catch (error) {
+      await client.query("ROLLBACK");
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
   async healthCheck(): Promise<boolean> {
     try {
       await this.query("SELECT 1 as health");
@@ -308,7 +334,9 @@ class DatabaseAdapter {
     return result.length > 0;
   }
 
-  // Audit logging for HIPAA compliance
+  // Audit logging for HIPAA compliance. Goes through AuditLogger so the
+  // entry joins the audit hash chain; IP and user agent come from the
+  // request context when not given.
   async logActivity(
     userId: string,
     action: string,
@@ -317,20 +345,16 @@ class DatabaseAdapter {
     ipAddress?: string,
     userAgent?: string,
   ): Promise<void> {
-    await this.query(
-      `
-      INSERT INTO audit_logs (user_id, action, description, details, ip_address, user_agent)
-      VALUES ($1, $2, $3, $4, $5, $6)
-    `,
-      [
-        userId,
-        action,
+    await AuditLogger.logEvent({
+      userId,
+      action,
+      details: {
+        ...details,
         description,
-        JSON.stringify(details),
-        ipAddress,
-        userAgent,
-      ],
-    );
+        ...(ipAddress ? { ipAddress } : {}),
+        ...(userAgent ? { userAgent } : {}),
+      },
+    });
   }
 }
 
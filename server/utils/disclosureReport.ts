@@ -0,0 +1,221 @@
+import { dbPool } from "../config/database";
+import { renderTextPdf, PDF_LINE_WIDTH } from "./pdfWriter";
+
+// Accounting of disclosures: every read, export or outbound transmission of
+// a patient's PHI recorded by AuditLogger (DATA_ACCESS, DATA_EXPORT and
+// outbound COMMUNICATION entries), keyed by the patient rather than the
+// actor.
+
+export type DisclosureKind = "access" | "export" | "transmission";
+
+export interface DisclosureEntry {
+  id: number;
+  timestamp: string;
+  kind: DisclosureKind;
+  actor: {
+    id: string;
+    name: string;
+    role: string;
+  };
+  action: string;
+  dataTypes: string[];
+  purpose?: string;
+  channel?: string;
+  recipient?: string;
+}
+
+export interface DisclosureReport {
+  patient: { id: string; name: string };
+  period: { start: string; end: string };
+  generatedAt: string;
+  entries: DisclosureEntry[];
+  summary: {
+    total: number;
+    byKind: Record<DisclosureKind, number>;
+    actors: number;
+  };
+}
+
+// Patients may request an accounting covering up to six years
+export const MAX_REPORT_YEARS = 6;
+
+const KIND_BY_CATEGORY: Record<string, DisclosureKind> = {
+  DATA_ACCESS: "access",
+  DATA_EXPORT: "export",
+  COMMUNICATION: "transmission",
+};
+
+const csvCell = (value: unknown): string => {
+  const text = value === undefined || value === null ? "" : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const fit = (value: string, width: number): string =>
+  value.length > width
+    ? `${value.slice(0, width - 1)}~`
+    : value.padEnd(width, " ");
+
+export class DisclosureReportService {
+  static async getReport(
+    patientId: string,
+    startDate: Date,
+    endDate: Date,
+    includeSelf = false,
+  ): Promise<DisclosureReport | null> {
+    if (!dbPool) {
+      throw new Error("PostgreSQL pool not configured");
+    }
+
+    const patient = await dbPool.query(
+      "SELECT id, first_name, last_name FROM users WHERE id = $1",
+      [patientId],
+    );
+    if (patient.rows.length === 0) {
+      return null;
+    }
+
+    // Disclosures to the patient themselves are excluded unless asked for
+    const { rows } = await dbPool.query(
+      `SELECT a.*, u.first_name, u.last_name, u.role
+      FROM audit_logs a
+      LEFT JOIN users u ON u.id::text = a.actor_id
+      WHERE a.subject_id = $1
+        AND a.timestamp >= $2 AND a.timestamp <= $3
+        AND (
+          a.category IN ('DATA_ACCESS', 'DATA_EXPORT')
+          OR (a.category = 'COMMUNICATION' AND a.details->>'direction' = 'outbound')
+        )
+        ${includeSelf ? "" : "AND a.actor_id IS DISTINCT FROM $1::text"}
+      ORDER BY a.timestamp DESC, a.id DESC`,
+      [patientId, startDate, endDate],
+    );
+
+    const entries = rows.map((row) => this.fromAuditRow(row));
+    const { first_name, last_name } = patient.rows[0];
+
+    return {
+      patient: { id: patientId, name: `${first_name} ${last_name}` },
+      period: { start: startDate.toISOString(), end: endDate.toISOString() },
+      generatedAt: new Date().toISOString(),
+      entries,
+      summary: {
+        total: entries.length,
+        byKind: {
+          access: entries.filter((e) => e.kind === "access").length,
+          export: entries.filter((e) => e.kind === "export").length,
+          transmission: entries.filter((e) => e.kind === "transmission").length,
+        },
+        actors: new Set(entries.map((e) => e.actor.id)).size,
+      },
+    };
+  }
+
+  // Map an audit_logs row (joined with the actor's user record)
+  static fromAuditRow(row: any): DisclosureEntry {
+    const details = row.details || {};
+    const isSystem = !row.actor_id || row.actor_id === "SYSTEM";
+    const kind = KIND_BY_CATEGORY[row.category] || "access";
+
+    let dataTypes: string[] = [];
+    if (Array.isArray(details.dataTypes)) {
+      dataTypes = details.dataTypes;
+    } else if (details.dataType) {
+      dataTypes = [details.dataType];
+    } else if (kind === "transmission") {
+      dataTypes = [details.messageType || details.template || "message"];
+    }
+
+    return {
+      id: row.id,
+      timestamp: new Date(row.timestamp).toISOString(),
+      kind,
+      actor: {
+        id: row.actor_id || "SYSTEM",
+        name: isSystem
+          ? "Telecheck (automated)"
+          : row.first_name
+            ? `${row.first_name} ${row.last_name}`
+            : "Unknown user",
+        role: isSystem ? "system" : row.role || "unknown",
+      },
+      action: row.action,
+      dataTypes,
+      purpose: details.purpose || undefined,
+      channel: details.channel || undefined,
+      recipient: details.recipient || undefined,
+    };
+  }
+
+  static toCSV(report: DisclosureReport): string {
+    const header = [
+      "Date",
+      "Type",
+      "Accessed By",
+      "Role",
+      "Action",
+      "Data",
+      "Purpose",
+      "Channel",
+      "Recipient",
+    ];
+    const rows = report.entries.map((entry) => [
+      entry.timestamp,
+      entry.kind,
+      entry.actor.name,
+      entry.actor.role,
+      entry.action,
+      entry.dataTypes.join("; "),
+      entry.purpose,
+      entry.channel,
+      entry.recipient,
+    ]);
+
+    return [header, ...rows]
+      .map((row) => row.map(csvCell).join(","))
+      .join("\r\n");
+  }
+
+  static toPDF(report: DisclosureReport): Buffer {
+    const columns: [string, number][] = [
+      ["Date (UTC)", 17],
+      ["Type", 12],
+      ["Accessed by", 22],
+      ["Role", 9],
+      ["Data", 20],
+      ["Purpose", 16],
+      ["Channel", 8],
+    ];
+    const row = (values: string[]) =>
+      values.map((value, i) => fit(value, columns[i][1])).join(" ");
+
+    const lines = [
+      "ACCOUNTING OF DISCLOSURES",
+      "",
+      `Patient:   ${report.patient.name} (${report.patient.id})`,
+      `Period:    ${report.period.start.slice(0, 10)} to ${report.period.end.slice(0, 10)}`,
+      `Generated: ${report.generatedAt.replace("T", " ").slice(0, 16)} UTC`,
+      `Entries:   ${report.summary.total} (${report.summary.byKind.access} access, ` +
+        `${report.summary.byKind.export} export, ${report.summary.byKind.transmission} transmission)`,
+      "",
+      row(columns.map(([title]) => title)),
+      "-".repeat(PDF_LINE_WIDTH),
+      ...report.entries.map((entry) =>
+        row([
+          entry.timestamp.replace("T", " ").slice(0, 16),
+          entry.kind,
+          entry.actor.name,
+          entry.actor.role,
+          entry.dataTypes.join(", "),
+          entry.purpose || "-",
+          entry.channel || "-",
+        ]),
+      ),
+    ];
+
+    if (report.entries.length === 0) {
+      lines.push("No disclosures were recorded for this period.");
+    }
+
+    return renderTextPdf(lines);
+  }
+}
@@ -0,0 +1,214 @@
+import { dbPool } from "../config/database";
+
+// Break-the-glass access: a clinician states why they need a patient's
+// record, receives a short grant for that one patient, and every grant is
+// queued for review by a compliance officer once it ends.
+
+export const DEFAULT_GRANT_MINUTES = 60;
+export const MAX_GRANT_MINUTES = 240;
+export const MIN_REASON_LENGTH = 20;
+
+export type GrantStatus = "active" | "expired" | "revoked";
+export type ReviewOutcome = "appropriate" | "inappropriate";
+export type ReviewQueueFilter = "pending" | "reviewed" | "all";
+
+export interface EmergencyAccessGrant {
+  id: string;
+  clinician: { id: string; name?: string; role?: string };
+  patient: { id: string; name?: string };
+  reason: string;
+  status: GrantStatus;
+  createdAt: string;
+  expiresAt: string;
+  revokedAt?: string;
+  review?: {
+    outcome: ReviewOutcome;
+    notes?: string;
+    reviewedBy: string;
+    reviewedAt: string;
+  };
+  accessCount?: number;
+}
+
+const iso = (value: any): string | undefined =>
+  value ? new Date(value).toISOString() : undefined;
+
+const GRANT_SELECT = `
+  SELECT g.*,
+    c.first_name AS clinician_first_name, c.last_name AS clinician_last_name,
+    c.role AS clinician_role,
+    p.first_name AS patient_first_name, p.last_name AS patient_last_name,
+    (SELECT COUNT(*) FROM audit_logs a
+      WHERE a.details->>'emergencyGrantId' = g.id::text
+        AND a.category = 'DATA_ACCESS') AS access_count
+  FROM emergency_access_grants g
+  LEFT JOIN users c ON c.id = g.clinician_id
+  LEFT JOIN users p ON p.id = g.patient_id`;
+
+export class EmergencyAccessService {
+  // Id of the clinician's unexpired, unrevoked grant for the patient
+  static async getActiveGrantId(
+    clinicianId: string,
+    patientId: string,
+  ): Promise<string | null> {
+    if (!dbPool) return null;
+
+    const result = await dbPool.query(
+      `SELECT id FROM emergency_access_grants
+      WHERE clinician_id::text = $1 AND patient_id::text = $2
+        AND revoked_at IS NULL AND expires_at > NOW()
+      ORDER BY expires_at DESC
+      LIMIT 1`,
+      [clinicianId, patientId],
+    );
+    return result.rows[0]?.id || null;
+  }
+
+  static async createGrant(
+    clinicianId: string,
+    patientId: string,
+    reason: string,
+    durationMinutes = DEFAULT_GRANT_MINUTES,
+  ): Promise<EmergencyAccessGrant> {
+    const result = await this.pool().query(
+      `INSERT INTO emergency_access_grants
+        (clinician_id, patient_id, reason, expires_at)
+      VALUES ($1, $2, $3, NOW() + make_interval(mins => $4))
+      RETURNING id`,
+      [clinicianId, patientId, reason, durationMinutes],
+    );
+    return (await this.getGrant(result.rows[0].id))!;
+  }
+
+  static async getGrant(grantId: string): Promise<EmergencyAccessGrant | null> {
+    const result = await this.pool().query(
+      `${GRANT_SELECT} WHERE g.id::text = $1`,
+      [grantId],
+    );
+    return result.rows[0] ? this.fromRow(result.rows[0]) : null;
+  }
+
+  // Audit entries recorded under a grant, oldest first
+  static async getGrantActivity(grantId: string): Promise<any[]> {
+    const result = await this.pool().query(
+      `SELECT id, timestamp, category, action, details
+      FROM audit_logs
+      WHERE details->>'emergencyGrantId' = $1
+      ORDER BY id`,
+      [grantId],
+    );
+    return result.rows.map((row) => ({
+      id: row.id,
+      timestamp: iso(row.timestamp),
+      category: row.category,
+      action: row.action,
+      path: row.details?.path,
+      method: row.details?.method,
+    }));
+  }
+
+  // Ends a grant early; null when it does not exist or has already ended
+  static async revokeGrant(
+    grantId: string,
+  ): Promise<EmergencyAccessGrant | null> {
+    const result = await this.pool().query(
+      `UPDATE emergency_access_grants SET revoked_at = NOW()
+      WHERE id::text = $1 AND revoked_at IS NULL AND expires_at > NOW()
+      RETURNING id`,
+      [grantId],
+    );
+    return result.rows[0] ? this.getGrant(result.rows[0].id) : null;
+  }
+
+  static async listGrants(filter: {
+    review?: ReviewQueueFilter;
+    clinicianId?: string;
+    limit?: number;
+  }): Promise<EmergencyAccessGrant[]> {
+    const conditions: string[] = [];
+    const params: any[] = [];
+    if (filter.review === "pending") {
+      conditions.push("g.reviewed_at IS NULL");
+    } else if (filter.review === "reviewed") {
+      conditions.push("g.reviewed_at IS NOT NULL");
+    }
+    if (filter.clinicianId) {
+      params.push(filter.clinicianId);
+      conditions.push(`g.clinician_id::text = $${params.length}`);
+    }
+    params.push(filter.limit || 100);
+
+    const result = await this.pool().query(
+      `${GRANT_SELECT}
+      ${conditions.length ? `WHERE ${conditions.join(" AND ")}` : ""}
+      ORDER BY g.created_at DESC
+      LIMIT $${params.length}`,
+      params,
+    );
+    return result.rows.map((row) => this.fromRow(row));
+  }
+
+  // Record a compliance review; null when the grant is already reviewed
+  static async reviewGrant(
+    grantId: string,
+    reviewerId: string,
+    outcome: ReviewOutcome,
+    notes?: string,
+  ): Promise<EmergencyAccessGrant | null> {
+    const result = await this.pool().query(
+      `UPDATE emergency_access_grants
+      SET reviewed_at = NOW(), reviewed_by = $2, review_outcome = $3,
+        review_notes = $4
+      WHERE id::text = $1 AND reviewed_at IS NULL
+      RETURNING id`,
+      [grantId, reviewerId, outcome, notes || null],
+    );
+    return result.rows[0] ? this.getGrant(result.rows[0].id) : null;
+  }
+
+  static statusOf(row: any, now = new Date()): GrantStatus {
+    if (row.revoked_at) return "revoked";
+    return new Date(row.expires_at) > now ? "active" : "expired";
+  }
+
+  // Map an emergency_access_grants row joined by GRANT_SELECT
+  static fromRow(row: any, now = new Date()): EmergencyAccessGrant {
+    const name = (first?: string, last?: string) =>
+      first ? `${first} ${last}` : undefined;
+
+    return {
+      id: row.id,
+      clinician: {
+        id: row.clinician_id,
+        name: name(row.clinician_first_name, row.clinician_last_name),
+        role: row.clinician_role || undefined,
+      },
+      patient: {
+        id: row.patient_id,
+        name: name(row.patient_first_name, row.patient_last_name),
+      },
+      reason: row.reason,
+      status: this.statusOf(row, now),
+      createdAt: iso(row.created_at)!,
+      expiresAt: iso(row.expires_at)!,
+      revokedAt: iso(row.revoked_at),
+      review: row.reviewed_at
+        ? {
+            outcome: row.review_outcome,
+            notes: row.review_notes || undefined,
+            reviewedBy: row.reviewed_by,
+            reviewedAt: iso(row.reviewed_at)!,
+          }
+        : undefined,
+      accessCount:
+        row.access_count !== undefined ? Number(row.access_count) : undefined,
+    };
+  }
+
+  private static pool() {
+    if (!dbPool) {
+      throw new Error("PostgreSQL pool not configured");
+    }
+    return dbPool;
+  }
+}
@@ -1,10 +1,123 @@
+import bcrypt from "bcryptjs";
+import { db } from "./databaseAdapter";
+import { EncryptionService } from "./encryption";
+import { FHIROperationOutcomeIssue, FHIRValidator } from "./fhirValidation";
+import { TerminologyService } from "./terminology";
+
+// LOINC codes for the vital sign types stored in vital_signs.type
+const VITAL_SIGN_CODES: Record<
+  string,
+  { code: string; display: string; unit: string }
+> = {
+  heart_rate: { code: "8867-4", display: "Heart rate", unit: "/min" },
+  pulse: { code: "8867-4", display: "Heart rate", unit: "/min" },
+  blood_pressure_systolic: {
+    code: "8480-6",
+    display: "Systolic blood pressure",
+    unit: "mm[Hg]",
+  },
+  blood_pressure_diastolic: {
+    code: "8462-4",
+    display: "Diastolic blood pressure",
+    unit: "mm[Hg]",
+  },
+  temperature: { code: "8310-5", display: "Body temperature", unit: "[degF]" },
+  oxygen_saturation: {
+    code: "59408-5",
+    display: "Oxygen saturation in Arterial blood by Pulse oximetry",
+    unit: "%",
+  },
+  spo2: {
+    code: "59408-5",
+    display: "Oxygen saturation in Arterial blood by Pulse oximetry",
+    unit: "%",
+  },
+  respiratory_rate: {
+    code: "9279-1",
+    display: "Respiratory rate",
+    unit: "/min",
+  },
+  weight: { code: "29463-7", display: "Body weight", unit: "[lb_av]" },
+  height: { code: "8302-2", display: "Body height", unit: "[in_i]" },
+  bmi: { code: "39156-5", display: "Body mass index (BMI)", unit: "kg/m2" },
+  glucose: {
+    code: "2339-0",
+    display: "Glucose [Mass/volume] in Blood",
+    unit: "mg/dL",
+  },
+  blood_glucose: {
+    code: "2339-0",
+    display: "Glucose [Mass/volume] in Blood",
+    unit: "mg/dL",
+  },
+};
+
+// Reverse lookup used on import: LOINC code -> vital_signs.type
+const VITAL_SIGN_TYPES_BY_LOINC: Record<string, string> = Object.entries(
+  VITAL_SIGN_CODES,
+).reduce(
+  (types, [type, coding]) => {
+    if (!types[coding.code]) types[coding.code] = type;
+    return types;
+  },
+  {} as Record<string, string>,
+);
+
+// FHIR interpretation code -> lab_results.status
+const LAB_STATUS_BY_INTERPRETATION: Record<string, string> = {
+  N: "normal",
+  H: "high",
+  L: "low",
+  HH: "critical",
+  LL: "critical",
+  A: "borderline",
+};
+
+export interface FHIRImportEntryResult {
+  index: number;
+  fullUrl?: string;
+  resourceType?: string;
+  response: {
+    status: string;
+    location?: string;
+    outcome: {
+      resourceType: "OperationOutcome";
+      issue: FHIROperationOutcomeIssue[];
+    };
+  };
+}
+
+// Thrown while mapping an entry; becomes an error issue on that entry
+class FHIRImportError extends Error {
+  constructor(
+    message: string,
+    public code: string = "processing",
+    public expression?: string,
+  ) {
+    super(message);
+    this.name = "FHIRImportError";
+  }
+}
+
+// Appointment status -> FHIR Encounter.status
+const ENCOUNTER_STATUS: Record<string, string> = {
+  scheduled: "planned",
+  confirmed: "planned",
+  checked_in: "arrived",
+  in_progress: "in-progress",
+  completed: "finished",
+  cancelled: "cancelled",
+  no_show: "cancelled",
+};
+
 // FHIR (Fast Healthcare Interoperability Resources) Integration
 export class FHIRIntegrationService {
   private static fhirEndpoint = "https://api.telecheck.com/fhir/R4";
+  static readonly MRN_SYSTEM = "https://api.telecheck.com/fhir/identifiers/mrn";
 
   // Convert internal data to FHIR format
   static convertToFHIRObservation(labResult: any): any {
-    return {
+    const observation: any = {
       resourceType: "Observation",
       id: labResult.id,
       status: "final",
@@ -20,30 +133,20 @@ export class FHIRIntegrationService {
           ],
         },
       ],
-      code: {
-        coding: [
-          {
-            system: "http://loinc.org",
-            code: this.getLoincCode(labResult.testName),
-            display: labResult.testName,
-          },
-        ],
-      },
+      code: this.getLabCode(labResult),
       subject: {
         reference: `Patient/${labResult.userId}`,
       },
-      effectiveDateTime: labResult.testDate,
-      valueQuantity: {
-        value: labResult.value,
-        unit: labResult.unit,
-        system: "http://unitsofmeasure.org",
-      },
-      referenceRange: [
-        {
-          text: labResult.referenceRange,
-        },
-      ],
-      interpretation: [
+      effectiveDateTime: this.toFHIRDateTime(labResult.testDate),
+      valueQuantity: this.toFHIRQuantity(labResult.value, labResult.unit),
+    };
+
+    if (labResult.referenceRange) {
+      observation.referenceRange = [{ text: labResult.referenceRange }];
+    }
+
+    if (labResult.status) {
+      observation.interpretation = [
         {
           coding: [
             {
@@ -54,27 +157,113 @@ export class FHIRIntegrationService {
             },
           ],
         },
+      ];
+    }
+
+    return observation;
+  }
+
+  // Convert a vital sign reading to a FHIR vital-signs Observation
+  static convertVitalSignToFHIRObservation(vital: any): any {
+    const coding = VITAL_SIGN_CODES[vital.type?.toLowerCase()];
+
+    return {
+      resourceType: "Observation",
+      id: vital.id,
+      status: "final",
+      category: [
+        {
+          coding: [
+            {
+              system:
+                "http://terminology.hl7.org/CodeSystem/observation-category",
+              code: "vital-signs",
+              display: "Vital Signs",
+            },
+          ],
+        },
       ],
+      code: coding
+        ? {
+            coding: [
+              {
+                system: "http://loinc.org",
+                code: coding.code,
+                display: coding.display,
+              },
+            ],
+            text: coding.display,
+          }
+        : { text: vital.type },
+      subject: {
+        reference: `Patient/${vital.userId}`,
+      },
+      effectiveDateTime: this.toFHIRDateTime(vital.measuredAt),
+      valueQuantity: vital.unit
+        ? this.toFHIRQuantity(vital.value, vital.unit)
+        : {
+            value: vital.value,
+            unit: coding?.unit,
+            system: TerminologyService.systems.ucum,
+            code: coding?.unit,
+          },
+      ...(vital.deviceId
+        ? { device: { display: `Device ${vital.deviceId}` } }
+        : {}),
     };
   }
 
-  private static getLoincCode(testName: string): string {
-    const loincMap: { [key: string]: string } = {
-      glucose: "33747-0",
-      "total cholesterol": "2093-3",
-      "hdl cholesterol": "2085-9",
-      "ldl cholesterol": "18262-6",
-      triglycerides: "2571-8",
-      "hemoglobin a1c": "4548-4",
-      creatinine: "2160-0",
-      bun: "3094-0",
+  /**
+   * LOINC-coded CodeableConcept for a lab result. Uses the code stored with
+   * the result when present, otherwise resolves the test name; tests that
+   * cannot be resolved are exported with text only rather than a guessed code.
+   */
+  private static getLabCode(labResult: any): any {
+    const concept = labResult.loincCode
+      ? TerminologyService.getLabConcept(labResult.loincCode)
+      : undefined;
+    const resolution = labResult.loincCode
+      ? null
+      : TerminologyService.resolveLabTest(labResult.testName, labResult.unit);
+    const code = labResult.loincCode || resolution?.match?.code;
+
+    if (!code) {
+      return { text: labResult.testName };
+    }
+
+    return {
+      coding: [
+        {
+          system: TerminologyService.systems.loinc,
+          code,
+          display: concept?.display || resolution?.match?.display,
+        },
+      ],
+      text: labResult.testName,
     };
+  }
 
-    const key = Object.keys(loincMap).find((k) =>
-      testName.toLowerCase().includes(k),
-    );
+  // Quantity with a UCUM code when the unit is recognized
+  private static toFHIRQuantity(value: number, unit: string): any {
+    const ucum = TerminologyService.resolveUnit(unit);
+    return {
+      value,
+      unit,
+      ...(ucum.mapped ? { system: ucum.system, code: ucum.code } : {}),
+    };
+  }
 
-    return key ? loincMap[key] : "33747-0"; // Default to glucose
+  // Internal vital types and lab test names that map to a LOINC code
+  static getObservationTypesForCode(code: string): {
+    vitalTypes: string[];
+    labTestNames: string[];
+  } {
+    return {
+      vitalTypes: Object.keys(VITAL_SIGN_CODES).filter(
+        (type) => VITAL_SIGN_CODES[type].code === code,
+      ),
+      labTestNames: TerminologyService.getLabTermsForCode(code),
+    };
   }
 
   private static getInterpretationCode(status: string): string {
@@ -91,29 +280,35 @@ export class FHIRIntegrationService {
 
   // Convert medication to FHIR MedicationStatement
   static convertToFHIRMedicationStatement(medication: any): any {
+    const ended =
+      medication.endDate && new Date(medication.endDate).getTime() < Date.now();
+
     return {
       resourceType: "MedicationStatement",
       id: medication.id,
-      status: medication.isActive ? "active" : "stopped",
-      medicationCodeableConcept: {
-        coding: [
-          {
-            system: "http://www.nlm.nih.gov/research/umls/rxnorm",
-            code: this.getRxNormCode(medication.name),
-            display: medication.name,
-          },
-        ],
-      },
+      status: medication.isActive ? "active" : ended ? "completed" : "stopped",
+      medicationCodeableConcept: this.getMedicationCode(medication.name),
       subject: {
         reference: `Patient/${medication.userId}`,
       },
-      effectiveDateTime: medication.startDate,
+      effectivePeriod: {
+        start: this.toFHIRDateTime(medication.startDate),
+        ...(medication.endDate
+          ? { end: this.toFHIRDateTime(medication.endDate) }
+          : {}),
+      },
+      ...(medication.prescribedBy
+        ? { informationSource: { display: medication.prescribedBy } }
+        : {}),
+      ...(medication.notes ? { note: [{ text: medication.notes }] } : {}),
       dosage: [
         {
           text: `${medication.dosage} ${medication.frequency}`,
           timing: {
             repeat: {
               frequency: this.parseFrequency(medication.frequency),
+              period: 1,
+              periodUnit: "d",
             },
           },
         },
@@ -121,23 +316,25 @@ export class FHIRIntegrationService {
     };
   }
 
-  private static getRxNormCode(medicationName: string): string {
-    const rxNormMap: { [key: string]: string } = {
-      atorvastatin: "83367",
-      metformin: "6809",
-      lisinopril: "29046",
-      amlodipine: "17767",
-      simvastatin: "36567",
-    };
-
-    const key = Object.keys(rxNormMap).find((k) =>
-      medicationName.toLowerCase().includes(k),
-    );
+  private static getMedicationCode(medicationName: string): any {
+    const { match } = TerminologyService.resolveMedication(medicationName);
 
-    return key ? rxNormMap[key] : "83367";
+    return match
+      ? {
+          coding: [
+            {
+              system: match.system,
+              code: match.code,
+              display: match.display,
+            },
+          ],
+          text: medicationName,
+        }
+      : { text: medicationName };
   }
 
   private static parseFrequency(frequency: string): number {
+    if (!frequency) return 1;
     if (frequency.toLowerCase().includes("once")) return 1;
     if (frequency.toLowerCase().includes("twice")) return 2;
     if (frequency.toLowerCase().includes("three")) return 3;
@@ -150,7 +347,27 @@ export class FHIRIntegrationService {
     return {
       resourceType: "Patient",
       id: user.id,
-      active: true,
+      ...(user.mrn
+        ? {
+            identifier: [
+              {
+                use: "usual",
+                type: {
+                  coding: [
+                    {
+                      system: "http://terminology.hl7.org/CodeSystem/v2-0203",
+                      code: "MR",
+                      display: "Medical record number",
+                    },
+                  ],
+                },
+                system: this.MRN_SYSTEM,
+                value: user.mrn,
+              },
+            ],
+          }
+        : {}),
+      active: user.isActive !== false,
       name: [
         {
           use: "official",
@@ -169,15 +386,21 @@ export class FHIRIntegrationService {
           value: user.phone,
           use: "mobile",
         },
-      ],
-      gender: user.gender || "unknown",
-      birthDate: user.dateOfBirth,
-      address: [
-        {
-          use: "home",
-          text: user.address || "Address not provided",
-        },
-      ],
+      ].filter((contact) => contact.value),
+      gender: this.getAdministrativeGender(user.gender),
+      ...(user.dateOfBirth
+        ? { birthDate: this.toFHIRDate(user.dateOfBirth) }
+        : {}),
+      ...(user.address
+        ? {
+            address: [
+              {
+                use: "home",
+                text: user.address,
+              },
+            ],
+          }
+        : {}),
       contact: user.emergencyContact
         ? [
             {
@@ -207,7 +430,203 @@ export class FHIRIntegrationService {
     };
   }
 
-  // Export health data in FHIR format
+  // Create FHIR Practitioner resource for a provider user
+  static convertToFHIRPractitioner(provider: any): any {
+    return {
+      resourceType: "Practitioner",
+      id: provider.id,
+      active: provider.isActive !== false,
+      name: [
+        {
+          use: "official",
+          family: provider.lastName,
+          given: [provider.firstName],
+        },
+      ],
+      telecom: [
+        { system: "email", value: provider.email, use: "work" },
+        { system: "phone", value: provider.phone, use: "work" },
+      ].filter((contact) => contact.value),
+    };
+  }
+
+  // Convert appointment to FHIR Encounter
+  static convertToFHIREncounter(appointment: any): any {
+    const start = new Date(appointment.dateTime);
+    const end = new Date(
+      start.getTime() + (appointment.duration || 30) * 60 * 1000,
+    );
+
+    return {
+      resourceType: "Encounter",
+      id: appointment.id,
+      status: ENCOUNTER_STATUS[appointment.status] || "unknown",
+      class: {
+        system: "http://terminology.hl7.org/CodeSystem/v3-ActCode",
+        code: "VR",
+        display: "virtual",
+      },
+      type: [{ text: appointment.type }],
+      ...(appointment.type === "emergency"
+        ? {
+            priority: {
+              coding: [
+                {
+                  system:
+                    "http://terminology.hl7.org/CodeSystem/v3-ActPriority",
+                  code: "EM",
+                  display: "emergency",
+                },
+              ],
+            },
+          }
+        : {}),
+      subject: {
+        reference: `Patient/${appointment.patientId}`,
+      },
+      participant: appointment.providerId
+        ? [
+            {
+              individual: {
+                reference: `Practitioner/${appointment.providerId}`,
+              },
+            },
+          ]
+        : [],
+      period: {
+        start: start.toISOString(),
+        end: end.toISOString(),
+      },
+      length: {
+        value: appointment.duration || 30,
+        unit: "min",
+        system: "http://unitsofmeasure.org",
+        code: "min",
+      },
+      ...(appointment.notes
+        ? { reasonCode: [{ text: appointment.notes }] }
+        : {}),
+    };
+  }
+
+  // Map database rows to the shapes expected by the converters above
+  static fromUserRow(user: any, patient?: any): any {
+    const emergencyContacts = patient?.emergency_contacts;
+    const emergencyContact = Array.isArray(emergencyContacts)
+      ? emergencyContacts[0]
+      : emergencyContacts?.name
+        ? emergencyContacts
+        : user.emergency_contact_name
+          ? {
+              name: user.emergency_contact_name,
+              phone: user.emergency_contact_phone,
+            }
+          : undefined;
+
+    return {
+      id: user.id,
+      firstName: user.first_name,
+      lastName: user.last_name,
+      email: user.email,
+      phone: user.phone,
+      gender: patient?.gender,
+      dateOfBirth: patient?.date_of_birth || user.date_of_birth,
+      address: patient?.address,
+      mrn: patient?.mrn,
+      isActive: user.is_active,
+      emergencyContact,
+    };
+  }
+
+  static fromLabResultRow(row: any, userId: string): any {
+    return {
+      id: row.id,
+      userId: row.user_id || userId,
+      testName: row.test_name,
+      loincCode: row.loinc_code,
+      value: parseFloat(row.value),
+      unit: row.unit,
+      referenceRange: row.reference_range,
+      status: row.status,
+      testDate: row.date_collected || row.test_date || row.created_at,
+      labName: row.lab_name,
+    };
+  }
+
+  static fromMedicationRow(row: any): any {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      name: row.name,
+      dosage: row.dosage,
+      frequency: row.frequency,
+      startDate: row.start_date,
+      endDate: row.end_date,
+      prescribedBy: row.prescribing_doctor || row.prescribed_by,
+      notes: row.notes || row.instructions,
+      isActive: row.active ?? row.is_active ?? true,
+    };
+  }
+
+  static fromVitalSignRow(row: any): any {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      type: row.type,
+      value: parseFloat(row.value),
+      unit: row.unit,
+      measuredAt: row.measured_at || row.created_at,
+      deviceId: row.device_id,
+    };
+  }
+
+  static fromAppointmentRow(row: any): any {
+    return {
+      id: row.id,
+      patientId: row.patient_id,
+      providerId: row.provider_id,
+      dateTime: row.date_time,
+      duration: row.duration,
+      type: row.type,
+      status: row.status,
+      notes: row.notes,
+    };
+  }
+
+  private static getAdministrativeGender(gender?: string): string {
+    return ["male", "female", "other"].includes(gender) ? gender : "unknown";
+  }
+
+  private static toFHIRDateTime(value: any): string | undefined {
+    if (!value) return undefined;
+    const date = value instanceof Date ? value : new Date(value);
+    return isNaN(date.getTime()) ? String(value) : date.toISOString();
+  }
+
+  private static toFHIRDate(value: any): string | undefined {
+    return this.toFHIRDateTime(value)?.split("T")[0];
+  }
+
+  // FHIR also allows "YYYY" and "YYYY-MM", which a DATE column cannot hold
+  private static isFullDate(value: any): boolean {
+    return (
+      /^\d{4}-\d{2}-\d{2}$/.test(String(value)) &&
+      new Date(`${value}T00:00:00Z`).toISOString().startsWith(value)
+    );
+  }
+
+  private static bundleEntry(resource: any): any {
+    return {
+      fullUrl: `${this.fhirEndpoint}/${resource.resourceType}/${resource.id}`,
+      resource,
+    };
+  }
+
+  /**
+   * Export a patient's health record as a FHIR R4 collection Bundle.
+   * The Patient resource is always included so every subject reference
+   * resolves inside the bundle. Returns null when the user does not exist.
+   */
   static async exportHealthDataAsFHIR(
     userId: string,
     dataTypes: string[],
@@ -215,77 +634,131 @@ export class FHIRIntegrationService {
     bundle: any;
     resourceCount: number;
     exportDate: string;
-  }> {
-    await new Promise((resolve) => setTimeout(resolve, 1000));
+  } | null> {
+    const user = await db.getUserById(userId);
+    if (!user) {
+      return null;
+    }
 
-    const bundle = {
-      resourceType: "Bundle",
-      id: `export_${Date.now()}`,
-      type: "collection",
-      timestamp: new Date().toISOString(),
-      entry: [],
-    };
+    const patients = await db.query(
+      "SELECT * FROM patients WHERE user_id = $1 LIMIT 1",
+      [userId],
+    );
 
-    let resourceCount = 0;
+    const exportDate = new Date().toISOString();
+    const entry: any[] = [
+      this.bundleEntry(
+        this.convertToFHIRPatient(this.fromUserRow(user, patients[0])),
+      ),
+    ];
 
-    // Add patient resource
-    if (dataTypes.includes("patient")) {
-      bundle.entry.push({
-        resource: this.convertToFHIRPatient({
-          id: userId,
-          firstName: "John",
-          lastName: "Doe",
-        }),
+    // Add observations (lab results)
+    if (dataTypes.includes("observations")) {
+      const labResults = await db.getLabResults(userId, 1000);
+      labResults.forEach((row) => {
+        entry.push(
+          this.bundleEntry(
+            this.convertToFHIRObservation(this.fromLabResultRow(row, userId)),
+          ),
+        );
       });
-      resourceCount++;
     }
 
-    // Add observations (lab results)
-    if (dataTypes.includes("observations")) {
-      const mockObservations = [
-        {
-          id: "obs1",
-          testName: "Glucose",
-          value: 95,
-          unit: "mg/dL",
-          status: "normal",
-        },
-        {
-          id: "obs2",
-          testName: "Total Cholesterol",
-          value: 205,
-          unit: "mg/dL",
-          status: "high",
-        },
-      ];
+    // Add vital sign observations
+    if (dataTypes.includes("vitals")) {
+      const vitals = await db.getVitalSigns(userId, 1000);
+      vitals.forEach((row) => {
+        entry.push(
+          this.bundleEntry(
+            this.convertVitalSignToFHIRObservation(this.fromVitalSignRow(row)),
+          ),
+        );
+      });
+    }
+
+    // Add medication statements, including discontinued medications
+    if (dataTypes.includes("medications")) {
+      const medications = await db.getMedications(userId, false);
+      medications.forEach((row) => {
+        entry.push(
+          this.bundleEntry(
+            this.convertToFHIRMedicationStatement(this.fromMedicationRow(row)),
+          ),
+        );
+      });
+    }
 
-      mockObservations.forEach((obs) => {
-        bundle.entry.push({
-          resource: this.convertToFHIRObservation({
-            ...obs,
-            userId,
-            testDate: new Date().toISOString(),
-          }),
+    // Add encounters and the practitioners they reference
+    if (dataTypes.includes("encounters")) {
+      const appointments = await db.query(
+        "SELECT * FROM appointments WHERE patient_id = $1 ORDER BY date_time DESC",
+        [userId],
+      );
+
+      const providerIds = [
+        ...new Set(
+          appointments.map((row: any) => row.provider_id).filter(Boolean),
+        ),
+      ];
+      if (providerIds.length > 0) {
+        const providers = await db.query(
+          "SELECT * FROM users WHERE id = ANY($1)",
+          [providerIds],
+        );
+        providers.forEach((provider: any) => {
+          entry.push(
+            this.bundleEntry(
+              this.convertToFHIRPractitioner(this.fromUserRow(provider)),
+            ),
+          );
         });
-        resourceCount++;
+      }
+
+      appointments.forEach((row: any) => {
+        entry.push(
+          this.bundleEntry(
+            this.convertToFHIREncounter(this.fromAppointmentRow(row)),
+          ),
+        );
       });
     }
 
+    const bundle = {
+      resourceType: "Bundle",
+      id: `export_${Date.now()}`,
+      meta: { lastUpdated: exportDate },
+      type: "collection",
+      timestamp: exportDate,
+      entry,
+    };
+
     return {
       bundle,
-      resourceCount,
-      exportDate: new Date().toISOString(),
+      resourceCount: entry.length,
+      exportDate,
     };
   }
 
-  // Import FHIR data
-  static async importFHIRBundle(bundle: any): Promise<{
+  /**
+   * Import a FHIR Bundle into our tables. Patients are processed first so
+   * that other entries can reference them by fullUrl or Patient/<id>; each
+   * patient is matched to an existing record by our MRN identifier only. A
+   * patient sharing only an email with ours is reported as a possible
+   * duplicate rather than merged.
+   * Clinical resources are upserted on their natural keys so re-importing
+   * the same bundle updates rather than duplicates rows.
+   * When given, authorize is asked about every existing patient an entry
+   * writes to; patients created by this bundle need no check.
+   */
+  static async importFHIRBundle(
+    bundle: any,
+    authorize?: (patientId: string) => Promise<boolean>,
+  ): Promise<{
     imported: number;
     errors: any[];
     summary: any;
+    entries: FHIRImportEntryResult[];
   }> {
-    await new Promise((resolve) => setTimeout(resolve, 1500));
-
     let imported = 0;
     const errors = [];
     const summary = {
@@ -293,38 +766,574 @@ export class FHIRIntegrationService {
       observations: 0,
       medications: 0,
       conditions: 0,
+      created: 0,
+      updated: 0,
+      failed: 0,
     };
 
-    if (bundle.entry) {
-      for (const entry of bundle.entry) {
-        try {
-          const resource = entry.resource;
-
-          switch (resource.resourceType) {
-            case "Patient":
-              summary.patients++;
-              break;
-            case "Observation":
-              summary.observations++;
-              break;
-            case "MedicationStatement":
-              summary.medications++;
-              break;
-            case "Condition":
-              summary.conditions++;
-              break;
-          }
+    const bundleEntries: any[] = Array.isArray(bundle.entry)
+      ? bundle.entry
+      : [];
+    const results: FHIRImportEntryResult[] = new Array(bundleEntries.length);
+    // Bundle-local patient references -> users.id
+    const patientRefs = new Map<string, string>();
+    const createdPatients = new Set<string>();
 
-          imported++;
-        } catch (error) {
-          errors.push({
-            resourceType: entry.resource?.resourceType,
-            error: error instanceof Error ? error.message : "Unknown error",
-          });
+    const allowed = async (patientId: string, expression: string) => {
+      if (
+        authorize &&
+        !createdPatients.has(patientId) &&
+        !(await authorize(patientId))
+      ) {
+        throw new FHIRImportError(
+          `Not authorized to import data for Patient/${patientId}`,
+          "forbidden",
+          expression,
+        );
+      }
+      return patientId;
+    };
+    const subjectOf = async (resource: any) =>
+      allowed(
+        await this.resolvePatientReference(resource.subject, patientRefs),
+        "subject",
+      );
+
+    const order = bundleEntries
+      .map((entry, index) => ({ entry, index }))
+      .sort(
+        (a, b) =>
+          Number(b.entry?.resource?.resourceType === "Patient") -
+          Number(a.entry?.resource?.resourceType === "Patient"),
+      );
+
+    for (const { entry, index } of order) {
+      const resource = entry?.resource;
+      const issues = FHIRValidator.validate(resource);
+      const result: FHIRImportEntryResult = {
+        index,
+        fullUrl: entry?.fullUrl,
+        resourceType: resource?.resourceType,
+        response: {
+          status: "400 Bad Request",
+          outcome: { resourceType: "OperationOutcome", issue: issues },
+        },
+      };
+      results[index] = result;
+
+      if (FHIRValidator.hasErrors(issues)) {
+        summary.failed++;
+        errors.push({
+          index,
+          resourceType: resource?.resourceType,
+          error: issues.find((issue) => issue.severity === "error")
+            ?.diagnostics,
+        });
+        continue;
+      }
+
+      try {
+        let saved: { table: string; id: string; created: boolean };
+
+        switch (resource.resourceType) {
+          case "Patient":
+            saved = await this.importPatient(resource, (patientId) =>
+              allowed(patientId, "Patient.identifier"),
+            );
+            if (saved.created) createdPatients.add(saved.id);
+            if (entry.fullUrl) patientRefs.set(entry.fullUrl, saved.id);
+            if (resource.id)
+              patientRefs.set(`Patient/${resource.id}`, saved.id);
+            summary.patients++;
+            break;
+          case "Observation":
+            saved = await this.importObservation(
+              resource,
+              await subjectOf(resource),
+            );
+            summary.observations++;
+            break;
+          case "MedicationStatement":
+            saved = await this.importMedicationStatement(
+              resource,
+              await subjectOf(resource),
+            );
+            summary.medications++;
+            break;
+          case "Condition":
+            saved = await this.importCondition(
+              resource,
+              await subjectOf(resource),
+            );
+            summary.conditions++;
+            break;
         }
+
+        result.response.status = saved.created ? "201 Created" : "200 OK";
+        result.response.location = `${saved.table}/${saved.id}`;
+        issues.push({
+          severity: "information",
+          code: "informational",
+          diagnostics: saved.created
+            ? `Created ${saved.table} record`
+            : `Updated existing ${saved.table} record`,
+        });
+        saved.created ? summary.created++ : summary.updated++;
+        imported++;
+      } catch (error) {
+        const importError =
+          error instanceof FHIRImportError
+            ? error
+            : new FHIRImportError(
+                error instanceof Error ? error.message : "Unknown error",
+                "exception",
+              );
+
+        issues.push({
+          severity: "error",
+          code: importError.code,
+          diagnostics: importError.message,
+          ...(importError.expression
+            ? { expression: [importError.expression] }
+            : {}),
+        });
+        result.response.status =
+          importError.code === "not-found"
+            ? "404 Not Found"
+            : importError.code === "forbidden"
+              ? "403 Forbidden"
+              : importError.code === "duplicate"
+                ? "409 Conflict"
+                : "422 Unprocessable Entity";
+        summary.failed++;
+        errors.push({
+          index,
+          resourceType: resource.resourceType,
+          error: importError.message,
+        });
       }
     }
 
-    return { imported, errors, summary };
+    return { imported, errors, summary, entries: results };
+  }
+
+  private static async resolvePatientReference(
+    subject: any,
+    patientRefs: Map<string, string>,
+  ): Promise<string> {
+    const reference: string | undefined = subject?.reference;
+
+    if (reference && patientRefs.has(reference)) {
+      return patientRefs.get(reference);
+    }
+
+    // Reference to a patient that already exists in our system
+    const localId = reference?.match(/(?:^|\/)Patient\/([^/]+)$/)?.[1];
+    if (localId && !reference.startsWith("urn:")) {
+      const users = await db.query("SELECT id FROM users WHERE id::text = $1", [
+        localId,
+      ]);
+      if (users[0]) return users[0].id;
+    }
+
+    if (
+      subject?.identifier?.value &&
+      subject.identifier.system === this.MRN_SYSTEM
+    ) {
+      const patients = await db.query(
+        "SELECT user_id FROM patients WHERE mrn = $1",
+        [subject.identifier.value],
+      );
+      if (patients[0]) return patients[0].user_id;
+    }
+
+    throw new FHIRImportError(
+      `Subject ${reference || subject?.identifier?.value} does not resolve to a patient in this bundle or system`,
+      "not-found",
+      "subject",
+    );
+  }
+
+  private static async importPatient(
+    resource: any,
+    authorize: (patientId: string) => Promise<unknown>,
+  ): Promise<{ table: string; id: string; created: boolean }> {
+    const name =
+      resource.name.find((n: any) => n.use === "official") || resource.name[0];
+    const firstName = name.given?.join(" ") || null;
+    const lastName = name.family || null;
+    const email = resource.telecom?.find(
+      (t: any) => t.system === "email",
+    )?.value;
+    const phone = resource.telecom?.find(
+      (t: any) => t.system === "phone" || t.system === "sms",
+    )?.value;
+    // Only our own MRN links the Patient to one of our records; other
+    // systems' identifiers (another clinic's MRN) are kept alongside it
+    const mrn: string | null =
+      (resource.identifier || []).find(
+        (identifier: any) =>
+          identifier.value && identifier.system === this.MRN_SYSTEM,
+      )?.value || null;
+    const externalIdentifiers = JSON.stringify(
+      (resource.identifier || [])
+        .filter(
+          (identifier: any) =>
+            identifier.value && identifier.system !== this.MRN_SYSTEM,
+        )
+        .map((identifier: any) => ({
+          system: identifier.system || null,
+          value: identifier.value,
+        })),
+    );
+    const gender = ["male", "female", "other"].includes(resource.gender)
+      ? resource.gender
+      : null;
+    const address = resource.address?.[0];
+    const emergencyContact = resource.contact?.find((contact: any) =>
+      contact.relationship?.some((r: any) =>
+        r.coding?.some((c: any) => c.code === "C"),
+      ),
+    );
+
+    // Everything is checked before the first write, so a rejected Patient
+    // leaves no account behind
+    if (resource.birthDate && !this.isFullDate(resource.birthDate)) {
+      throw new FHIRImportError(
+        "Patient.birthDate must be a full date (YYYY-MM-DD) to be stored",
+        "value",
+        "Patient.birthDate",
+      );
+    }
+
+    const existing = mrn
+      ? (
+          await db.query(
+            "SELECT id, user_id FROM patients WHERE mrn = $1 LIMIT 1",
+            [mrn],
+          )
+        )[0]
+      : null;
+    if (existing) await authorize(existing.user_id);
+
+    if (!existing) {
+      if (!email) {
+        throw new FHIRImportError(
+          "Patient.telecom must include an email to create a new account",
+          "required",
+          "Patient.telecom",
+        );
+      }
+      if (!resource.birthDate) {
+        throw new FHIRImportError(
+          "Patient.birthDate is required to create a patient record",
+          "required",
+          "Patient.birthDate",
+        );
+      }
+      // A patient with the same email may be the same person, but an email
+      // alone is not enough to merge records or overwrite their details
+      const users = await db.query(
+        "SELECT id FROM users WHERE LOWER(email) = LOWER($1) AND role = 'patient'",
+        [email],
+      );
+      if (users[0]) {
+        throw new FHIRImportError(
+          `Possible duplicate of Patient/${users[0].id}, which has the same email; not merged. Include its MRN identifier (${this.MRN_SYSTEM}) to update that record`,
+          "duplicate",
+          "Patient.telecom",
+        );
+      }
+    }
+
+    const emergencyContacts = emergencyContact
+      ? JSON.stringify([
+          {
+            name: emergencyContact.name?.text || emergencyContact.name?.family,
+            phone: emergencyContact.telecom?.find(
+              (t: any) => t.system === "phone",
+            )?.value,
+          },
+        ])
+      : null;
+
+    if (existing) {
+      await db.transaction(async (query) => {
+        await query(
+          `UPDATE users SET
+            first_name = COALESCE($2, first_name),
+            last_name = COALESCE($3, last_name),
+            phone = COALESCE($4, phone),
+            updated_at = NOW()
+          WHERE id = $1`,
+          [existing.user_id, firstName, lastName, phone || null],
+        );
+        await query(
+          `UPDATE patients SET
+            date_of_birth = COALESCE($2, date_of_birth),
+            gender = COALESCE($3, gender),
+            address = COALESCE($4, address),
+            city = COALESCE($5, city),
+            state = COALESCE($6, state),
+            zip_code = COALESCE($7, zip_code),
+            emergency_contacts = COALESCE($8, emergency_contacts),
+            external_identifiers = (
+              SELECT COALESCE(jsonb_agg(DISTINCT identifier), '[]'::jsonb)
+              FROM jsonb_array_elements(
+                COALESCE(external_identifiers, '[]'::jsonb) || $9::jsonb
+              ) AS identifier
+            ),
+            updated_at = NOW()
+          WHERE id = $1`,
+          [
+            existing.id,
+            resource.birthDate || null,
+            gender,
+            address?.line?.join(", ") || address?.text || null,
+            address?.city || null,
+            address?.state || null,
+            address?.postalCode || null,
+            emergencyContacts,
+            externalIdentifiers,
+          ],
+        );
+      });
+      return { table: "users", id: existing.user_id, created: false };
+    }
+
+    // Imported patients get an unusable password until they reset it
+    const passwordHash = await bcrypt.hash(
+      EncryptionService.generateSecureToken(),
+      10,
+    );
+    const userId: string = await db.transaction(async (query) => {
+      const users = await query(
+        `INSERT INTO users (email, password_hash, first_name, last_name, phone, role)
+        VALUES ($1, $2, $3, $4, $5, 'patient')
+        RETURNING id`,
+        [email, passwordHash, firstName || "", lastName || "", phone || null],
+      );
+      await query(
+        `INSERT INTO patients (
+          user_id, date_of_birth, gender, address, city, state, zip_code,
+          emergency_contacts, mrn, external_identifiers, status
+        )
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, 'active')`,
+        [
+          users[0].id,
+          resource.birthDate,
+          gender,
+          address?.line?.join(", ") || address?.text || null,
+          address?.city || null,
+          address?.state || null,
+          address?.postalCode || null,
+          emergencyContacts || "[]",
+          mrn || this.generateMRN(),
+          externalIdentifiers,
+        ],
+      );
+      return users[0].id;
+    });
+
+    return { table: "users", id: userId, created: true };
+  }
+
+  private static async importObservation(
+    resource: any,
+    userId: string,
+  ): Promise<{ table: string; id: string; created: boolean }> {
+    const effective =
+      resource.effectiveDateTime ||
+      resource.effectivePeriod?.start ||
+      resource.issued ||
+      null;
+    const isVitalSign = resource.category?.some((category: any) =>
+      category.coding?.some((c: any) => c.code === "vital-signs"),
+    );
+
+    if (isVitalSign) {
+      // Panels such as blood pressure carry their values in components
+      const measurements = resource.valueQuantity
+        ? [{ code: resource.code, valueQuantity: resource.valueQuantity }]
+        : resource.component.filter((c: any) => c.valueQuantity);
+
+      let saved: { table: string; id: string; created: boolean };
+      for (const measurement of measurements) {
+        const loinc = measurement.code?.coding?.find(
+          (c: any) => c.system === "http://loinc.org",
+        )?.code;
+        const type =
+          VITAL_SIGN_TYPES_BY_LOINC[loinc] ||
+          (measurement.code?.text || "").toLowerCase().replace(/\s+/g, "_");
+
+        if (!type) {
+          throw new FHIRImportError(
+            "Vital sign has no recognizable code",
+            "code-invalid",
+            "Observation.code",
+          );
+        }
+
+        saved = await this.upsertRow(
+          "vital_signs",
+          "user_id = $1 AND type = $2 AND measured_at IS NOT DISTINCT FROM $3::timestamptz",
+          [userId, type, effective],
+          {
+            user_id: userId,
+            type,
+            value: measurement.valueQuantity.value,
+            unit:
+              measurement.valueQuantity.unit || measurement.valueQuantity.code,
+            measured_at: effective,
+            source: "fhir_import",
+          },
+        );
+      }
+      return saved;
+    }
+
+    const coding = resource.code.coding?.[0];
+    const testName = resource.code.text || coding?.display || coding?.code;
+    const unit =
+      resource.valueQuantity.unit || resource.valueQuantity.code || "";
+    const range = resource.referenceRange?.[0];
+    const interpretation = resource.interpretation?.[0]?.coding?.[0]?.code;
+    // Keep the sender's LOINC code; otherwise resolve the name ourselves
+    const loincCode =
+      resource.code.coding?.find(
+        (c: any) => c.system === TerminologyService.systems.loinc && c.code,
+      )?.code || TerminologyService.resolveLabTest(testName, unit).match?.code;
+
+    return this.upsertRow(
+      "lab_results",
+      "user_id = $1 AND test_name = $2 AND date_collected IS NOT DISTINCT FROM $3::timestamptz",
+      [userId, testName, effective],
+      {
+        user_id: userId,
+        test_name: testName,
+        loinc_code: loincCode || null,
+        value: resource.valueQuantity.value,
+        unit,
+        reference_range:
+          range?.text ||
+          (range?.low || range?.high
+            ? `${range.low?.value ?? ""}-${range.high?.value ?? ""}`
+            : null),
+        status: LAB_STATUS_BY_INTERPRETATION[interpretation] || null,
+        date_collected: effective,
+        lab_name: resource.performer?.[0]?.display || null,
+      },
+    );
+  }
+
+  private static async importMedicationStatement(
+    resource: any,
+    userId: string,
+  ): Promise<{ table: string; id: string; created: boolean }> {
+    const concept = resource.medicationCodeableConcept;
+    const name =
+      concept?.text ||
+      concept?.coding?.[0]?.display ||
+      resource.medicationReference?.display;
+    const dosage = resource.dosage?.[0];
+    const dose = dosage?.doseAndRate?.[0]?.doseQuantity;
+    const repeat = dosage?.timing?.repeat;
+    const startDate =
+      resource.effectivePeriod?.start || resource.effectiveDateTime || null;
+
+    return this.upsertRow(
+      "medications",
+      "user_id = $1 AND LOWER(name) = LOWER($2) AND start_date IS NOT DISTINCT FROM $3::date",
+      [userId, name, startDate],
+      {
+        user_id: userId,
+        name,
+        dosage: (dose
+          ? `${dose.value} ${dose.unit || ""}`.trim()
+          : dosage?.text || "unspecified"
+        ).slice(0, 50),
+        frequency: (repeat?.frequency
+          ? `${repeat.frequency} time(s) per ${repeat.period || 1} ${repeat.periodUnit || "d"}`
+          : dosage?.text || "as directed"
+        ).slice(0, 100),
+        start_date: startDate,
+        end_date: resource.effectivePeriod?.end || null,
+        prescribing_doctor: resource.informationSource?.display || null,
+        notes: resource.note?.map((n: any) => n.text).join("\n") || null,
+        active: ["active", "intended", "on-hold"].includes(resource.status),
+      },
+    );
+  }
+
+  private static async importCondition(
+    resource: any,
+    userId: string,
+  ): Promise<{ table: string; id: string; created: boolean }> {
+    const coding = resource.code.coding?.find((c: any) => c.code);
+    const display = resource.code.text || coding?.display || coding?.code;
+
+    return this.upsertRow(
+      "conditions",
+      coding
+        ? "user_id = $1 AND code = $2 AND code_system IS NOT DISTINCT FROM $3"
+        : "user_id = $1 AND LOWER(display) = LOWER($2) AND code IS NULL",
+      coding ? [userId, coding.code, coding.system || null] : [userId, display],
+      {
+        user_id: userId,
+        code: coding?.code || null,
+        code_system: coding?.system || null,
+        display,
+        clinical_status: resource.clinicalStatus?.coding?.[0]?.code || null,
+        verification_status:
+          resource.verificationStatus?.coding?.[0]?.code || null,
+        onset_date:
+          resource.onsetDateTime || resource.onsetPeriod?.start || null,
+        abatement_date:
+          resource.abatementDateTime || resource.abatementPeriod?.start || null,
+        notes: resource.note?.map((n: any) => n.text).join("\n") || null,
+        source: "fhir_import",
+      },
+    );
+  }
+
+  // Update the row matching `where` or insert a new one
+  private static async upsertRow(
+    table: string,
+    where: string,
+    whereParams: any[],
+    values: Record<string, any>,
+  ): Promise<{ table: string; id: string; created: boolean }> {
+    const existing = await db.query(
+      `SELECT id FROM ${table} WHERE ${where} LIMIT 1`,
+      whereParams,
+    );
+    const columns = Object.keys(values);
+    const params = columns.map((column) => values[column]);
+
+    if (existing[0]) {
+      const assignments = columns
+        .map((column, i) => `${column} = $${i + 2}`)
+        .join(", ");
+      await db.query(`UPDATE ${table} SET ${assignments} WHERE id = $1`, [
+        existing[0].id,
+        ...params,
+      ]);
+      return { table, id: existing[0].id, created: false };
+    }
+
+    const placeholders = columns.map((_, i) => `$${i + 1}`).join(", ");
+    const rows = await db.query(
+      `INSERT INTO ${table} (${columns.join(", ")}) VALUES (${placeholders}) RETURNING id`,
+      params,
+    );
+    return { table, id: rows[0].id, created: true };
+  }
+
+  private static generateMRN(): string {
+    const timestamp = Date.now().toString().slice(-6);
+    const random = Math.floor(Math.random() * 1000)
+      .toString()
+      .padStart(3, "0");
+    return `MRN${timestamp}${random}`;
   }
 }
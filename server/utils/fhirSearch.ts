@@ -0,0 +1,472 @@
+import { db } from "./databaseAdapter";
+import { FHIRIntegrationService } from "./fhirIntegration";
+
+// FHIR search over our tables for the REST facade in routes/fhir-rest.ts.
+// Each supported parameter is declared once in SEARCH_PARAMETERS so the
+// CapabilityStatement always matches what the search code implements.
+
+export interface FHIRSearchParameter {
+  name: string;
+  type: "token" | "string" | "date" | "reference";
+  documentation: string;
+}
+
+export const SEARCH_PARAMETERS: Record<string, FHIRSearchParameter[]> = {
+  Patient: [
+    { name: "_id", type: "token", documentation: "Logical id of the patient" },
+    {
+      name: "identifier",
+      type: "token",
+      documentation: "Medical record number ([system|]value)",
+    },
+    {
+      name: "name",
+      type: "string",
+      documentation: "Starts-with match on given or family name",
+    },
+    { name: "family", type: "string", documentation: "Family name" },
+    { name: "given", type: "string", documentation: "Given name" },
+    { name: "email", type: "token", documentation: "Email address" },
+    { name: "gender", type: "token", documentation: "Administrative gender" },
+    { name: "birthdate", type: "date", documentation: "Date of birth" },
+  ],
+  Observation: [
+    { name: "_id", type: "token", documentation: "Logical id" },
+    {
+      name: "patient",
+      type: "reference",
+      documentation: "Patient/<id> or bare patient id",
+    },
+    { name: "subject", type: "reference", documentation: "Alias of patient" },
+    {
+      name: "code",
+      type: "token",
+      documentation: "LOINC code ([system|]code) or test name",
+    },
+    {
+      name: "category",
+      type: "token",
+      documentation: "laboratory or vital-signs",
+    },
+    { name: "date", type: "date", documentation: "Effective date/time" },
+  ],
+  MedicationStatement: [
+    { name: "_id", type: "token", documentation: "Logical id" },
+    {
+      name: "patient",
+      type: "reference",
+      documentation: "Patient/<id> or bare patient id",
+    },
+    { name: "subject", type: "reference", documentation: "Alias of patient" },
+    { name: "code", type: "token", documentation: "Medication name" },
+    {
+      name: "status",
+      type: "token",
+      documentation: "active, completed or stopped",
+    },
+    { name: "effective", type: "date", documentation: "Start date" },
+  ],
+};
+
+// Result-control parameters accepted on every search
+const CONTROL_PARAMETERS = ["_count", "_offset", "_format"];
+
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 200;
+
+const DATE_PREFIXES = ["eq", "ne", "gt", "lt", "ge", "le", "sa", "eb"];
+
+export class FHIRSearchError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "FHIRSearchError";
+  }
+}
+
+export interface FHIRSearchResult {
+  total: number;
+  resources: any[];
+}
+
+// Accumulates WHERE clauses with positional parameters
+class SqlFilter {
+  clauses: string[] = [];
+  params: any[] = [];
+
+  param(value: any): string {
+    this.params.push(value);
+    return `$${this.params.length}`;
+  }
+
+  add(clause: string): void {
+    this.clauses.push(clause);
+  }
+
+  where(): string {
+    return this.clauses.length ? `WHERE ${this.clauses.join(" AND ")}` : "";
+  }
+}
+
+export class FHIRSearchService {
+  /**
+   * Parse a date search value such as "ge2026-01-01" into its prefix and the
+   * half-open range [low, high) implied by the value's precision.
+   */
+  static parseDateParam(value: string): {
+    prefix: string;
+    low: Date;
+    high: Date;
+  } {
+    const prefix = DATE_PREFIXES.includes(value.slice(0, 2))
+      ? value.slice(0, 2)
+      : "eq";
+    const raw =
+      prefix === "eq" && !value.startsWith("eq") ? value : value.slice(2);
+
+    let low: Date;
+    let high: Date;
+    if (/^\d{4}$/.test(raw)) {
+      low = new Date(Date.UTC(+raw, 0, 1));
+      high = new Date(Date.UTC(+raw + 1, 0, 1));
+    } else if (/^\d{4}-\d{2}$/.test(raw)) {
+      const [year, month] = raw.split("-").map(Number);
+      low = new Date(Date.UTC(year, month - 1, 1));
+      high = new Date(Date.UTC(year, month, 1));
+    } else if (/^\d{4}-\d{2}-\d{2}$/.test(raw)) {
+      low = new Date(`${raw}T00:00:00Z`);
+      high = new Date(low.getTime() + 24 * 60 * 60 * 1000);
+    } else if (/^\d{4}-\d{2}-\d{2}T/.test(raw)) {
+      low = new Date(raw);
+      high = new Date(low.getTime() + 1000);
+    } else {
+      throw new FHIRSearchError(`Invalid date search value '${value}'`);
+    }
+
+    if (isNaN(low.getTime())) {
+      throw new FHIRSearchError(`Invalid date search value '${value}'`);
+    }
+
+    return { prefix, low, high };
+  }
+
+  // Split a token value "system|code" into its parts
+  static parseToken(value: string): { system?: string; code?: string } {
+    if (!value.includes("|")) {
+      return { code: value };
+    }
+    const [system, code] = value.split("|", 2);
+    return { system: system || undefined, code: code || undefined };
+  }
+
+  static async searchPatients(
+    query: Record<string, any>,
+    count: number,
+    offset: number,
+  ): Promise<FHIRSearchResult> {
+    this.assertKnownParameters("Patient", query);
+    const filter = new SqlFilter();
+    filter.add("u.role = 'patient'");
+
+    this.eachValue(query._id, (value) =>
+      filter.add(`u.id::text = ANY(${filter.param(value.split(","))})`),
+    );
+    this.eachValue(query.identifier, (value) => {
+      const codes = value
+        .split(",")
+        .map((v) => this.parseToken(v))
+        .filter(
+          (token) =>
+            token.code &&
+            (!token.system ||
+              token.system === FHIRIntegrationService.MRN_SYSTEM),
+        )
+        .map((token) => token.code);
+      filter.add(`p.mrn = ANY(${filter.param(codes)})`);
+    });
+    this.eachValue(query.name, (value) => {
+      const pattern = filter.param(`${value.toLowerCase()}%`);
+      filter.add(
+        `(LOWER(u.first_name) LIKE ${pattern} OR LOWER(u.last_name) LIKE ${pattern})`,
+      );
+    });
+    this.eachValue(query.family, (value) =>
+      filter.add(
+        `LOWER(u.last_name) LIKE ${filter.param(`${value.toLowerCase()}%`)}`,
+      ),
+    );
+    this.eachValue(query.given, (value) =>
+      filter.add(
+        `LOWER(u.first_name) LIKE ${filter.param(`${value.toLowerCase()}%`)}`,
+      ),
+    );
+    this.eachValue(query.email, (value) =>
+      filter.add(`LOWER(u.email) = LOWER(${filter.param(value)})`),
+    );
+    this.eachValue(query.gender, (value) =>
+      filter.add(`p.gender = ANY(${filter.param(value.split(","))})`),
+    );
+    this.eachValue(query.birthdate, (value) =>
+      this.addDateFilter(filter, "p.date_of_birth", value),
+    );
+
+    const rows = await db.query(
+      `SELECT u.*, to_jsonb(p) AS patient, COUNT(*) OVER() AS total_count
+      FROM users u
+      LEFT JOIN patients p ON p.user_id = u.id
+      ${filter.where()}
+      ORDER BY u.last_name, u.first_name, u.id
+      LIMIT ${filter.param(count)} OFFSET ${filter.param(offset)}`,
+      filter.params,
+    );
+
+    return {
+      total: await this.totalFor(rows, () =>
+        db.query(
+          `SELECT COUNT(*) AS total_count FROM users u
+          LEFT JOIN patients p ON p.user_id = u.id ${filter.where()}`,
+          filter.params.slice(0, -2),
+        ),
+      ),
+      resources: rows.map((row: any) =>
+        FHIRIntegrationService.convertToFHIRPatient(
+          FHIRIntegrationService.fromUserRow(row, row.patient),
+        ),
+      ),
+    };
+  }
+
+  static async searchObservations(
+    query: Record<string, any>,
+    count: number,
+    offset: number,
+  ): Promise<FHIRSearchResult> {
+    this.assertKnownParameters("Observation", query);
+    const filter = new SqlFilter();
+
+    this.eachValue(query._id, (id) =>
+      filter.add(`obs.id::text = ${filter.param(id)}`),
+    );
+    this.addPatientFilter(filter, "obs.user_id", query);
+    this.eachValue(query.category, (value) =>
+      filter.add(
+        `obs.category = ANY(${filter.param(
+          value.split(",").map((v) => this.parseToken(v).code),
+        )})`,
+      ),
+    );
+    this.eachValue(query.code, (value) => {
+      const alternatives = value.split(",").map((v) => {
+        const { system, code } = this.parseToken(v);
+        const { vitalTypes, labTestNames } =
+          FHIRIntegrationService.getObservationTypesForCode(code);
+        const matches = [
+          `(obs.category = 'vital-signs' AND obs.name = ANY(${filter.param(vitalTypes)}))`,
+          `(obs.category = 'laboratory' AND (obs.loinc_code = ${filter.param(code)} OR (obs.loinc_code IS NULL AND TRIM(REGEXP_REPLACE(LOWER(obs.name), '[^a-z0-9]+', ' ', 'g')) = ANY(${filter.param(labTestNames)}))))`,
+        ];
+        if (!system) {
+          matches.push(`LOWER(obs.name) = LOWER(${filter.param(code)})`);
+        }
+        return matches.join(" OR ");
+      });
+      filter.add(`(${alternatives.join(" OR ")})`);
+    });
+    this.eachValue(query.date, (value) =>
+      this.addDateFilter(filter, "obs.effective", value),
+    );
+
+    const observations = `
+      SELECT id, user_id, 'laboratory' AS category, test_name AS name, value, unit,
+        date_collected AS effective, reference_range, status, lab_name,
+        NULL::varchar AS device_id, loinc_code
+      FROM lab_results
+      UNION ALL
+      SELECT id, user_id, 'vital-signs' AS category, type AS name, value, unit,
+        measured_at AS effective, NULL, NULL, NULL, device_id, NULL
+      FROM vital_signs`;
+
+    const rows = await db.query(
+      `SELECT obs.*, COUNT(*) OVER() AS total_count
+      FROM (${observations}) obs
+      ${filter.where()}
+      ORDER BY obs.effective DESC NULLS LAST, obs.id
+      LIMIT ${filter.param(count)} OFFSET ${filter.param(offset)}`,
+      filter.params,
+    );
+
+    return {
+      total: await this.totalFor(rows, () =>
+        db.query(
+          `SELECT COUNT(*) AS total_count FROM (${observations}) obs ${filter.where()}`,
+          filter.params.slice(0, -2),
+        ),
+      ),
+      resources: rows.map((row: any) =>
+        row.category === "laboratory"
+          ? FHIRIntegrationService.convertToFHIRObservation(
+              FHIRIntegrationService.fromLabResultRow(
+                { ...row, test_name: row.name, date_collected: row.effective },
+                row.user_id,
+              ),
+            )
+          : FHIRIntegrationService.convertVitalSignToFHIRObservation(
+              FHIRIntegrationService.fromVitalSignRow({
+                ...row,
+                type: row.name,
+                measured_at: row.effective,
+              }),
+            ),
+      ),
+    };
+  }
+
+  static async searchMedicationStatements(
+    query: Record<string, any>,
+    count: number,
+    offset: number,
+  ): Promise<FHIRSearchResult> {
+    this.assertKnownParameters("MedicationStatement", query);
+    const filter = new SqlFilter();
+
+    this.eachValue(query._id, (id) =>
+      filter.add(`m.id::text = ${filter.param(id)}`),
+    );
+    this.addPatientFilter(filter, "m.user_id", query);
+    this.eachValue(query.code, (value) =>
+      filter.add(
+        `LOWER(m.name) = ANY(${filter.param(
+          value.split(",").map((v) => this.parseToken(v).code?.toLowerCase()),
+        )})`,
+      ),
+    );
+    this.eachValue(query.status, (value) => {
+      const statuses = value.split(",").map((v) => {
+        switch (this.parseToken(v).code) {
+          case "active":
+            return "m.active = true";
+          case "completed":
+            return "(m.active = false AND m.end_date < CURRENT_DATE)";
+          case "stopped":
+            return "(m.active = false AND (m.end_date IS NULL OR m.end_date >= CURRENT_DATE))";
+          default:
+            return "false";
+        }
+      });
+      filter.add(`(${statuses.join(" OR ")})`);
+    });
+    this.eachValue(query.effective, (value) =>
+      this.addDateFilter(filter, "m.start_date", value),
+    );
+
+    const rows = await db.query(
+      `SELECT m.*, COUNT(*) OVER() AS total_count
+      FROM medications m
+      ${filter.where()}
+      ORDER BY m.start_date DESC NULLS LAST, m.id
+      LIMIT ${filter.param(count)} OFFSET ${filter.param(offset)}`,
+      filter.params,
+    );
+
+    return {
+      total: await this.totalFor(rows, () =>
+        db.query(
+          `SELECT COUNT(*) AS total_count FROM medications m ${filter.where()}`,
+          filter.params.slice(0, -2),
+        ),
+      ),
+      resources: rows.map((row: any) =>
+        FHIRIntegrationService.convertToFHIRMedicationStatement(
+          FHIRIntegrationService.fromMedicationRow(row),
+        ),
+      ),
+    };
+  }
+
+  // Unknown parameters are rejected rather than silently ignored, so a
+  // typo never widens a query over patient data.
+  private static assertKnownParameters(
+    resourceType: string,
+    query: Record<string, any>,
+  ): void {
+    const known = SEARCH_PARAMETERS[resourceType].map((p) => p.name);
+    const unknown = Object.keys(query).filter(
+      (name) => !known.includes(name) && !CONTROL_PARAMETERS.includes(name),
+    );
+    if (unknown.length > 0) {
+      throw new FHIRSearchError(
+        `Unsupported search parameter(s) for ${resourceType}: ${unknown.join(", ")}`,
+      );
+    }
+  }
+
+  private static addPatientFilter(
+    filter: SqlFilter,
+    column: string,
+    query: Record<string, any>,
+  ): void {
+    [query.patient, query.subject].forEach((param) =>
+      this.eachValue(param, (value) => {
+        const ids = value
+          .split(",")
+          .map((ref) => ref.replace(/^Patient\//, ""));
+        filter.add(`${column}::text = ANY(${filter.param(ids)})`);
+      }),
+    );
+  }
+
+  private static addDateFilter(
+    filter: SqlFilter,
+    column: string,
+    value: string,
+  ): void {
+    const { prefix, low, high } = this.parseDateParam(value);
+    const lowParam = () => filter.param(low.toISOString());
+    const highParam = () => filter.param(high.toISOString());
+
+    switch (prefix) {
+      case "eq":
+        filter.add(
+          `(${column} >= ${lowParam()} AND ${column} < ${highParam()})`,
+        );
+        break;
+      case "ne":
+        filter.add(
+          `NOT (${column} >= ${lowParam()} AND ${column} < ${highParam()})`,
+        );
+        break;
+      case "gt":
+      case "sa":
+        filter.add(`${column} >= ${highParam()}`);
+        break;
+      case "ge":
+        filter.add(`${column} >= ${lowParam()}`);
+        break;
+      case "lt":
+      case "eb":
+        filter.add(`${column} < ${lowParam()}`);
+        break;
+      case "le":
+        filter.add(`${column} < ${highParam()}`);
+        break;
+    }
+  }
+
+  // Repeated parameters (date=ge..&date=lt..) arrive as arrays and are ANDed
+  private static eachValue(param: any, apply: (value: string) => void): void {
+    if (param === undefined) return;
+    (Array.isArray(param) ? param : [param])
+      .filter((value) => typeof value === "string" && value !== "")
+      .forEach(apply);
+  }
+
+  // The window count is missing when the requested page is past the end
+  private static async totalFor(
+    rows: any[],
+    countQuery: () => Promise<any[]>,
+  ): Promise<number> {
+    if (rows.length > 0) {
+      return parseInt(rows[0].total_count);
+    }
+    const counted = await countQuery();
+    return parseInt(counted[0]?.total_count || "0");
+  }
+}
@@ -0,0 +1,445 @@
+// Structural validation of inbound FHIR R4 resources.
+// Covers the required elements and bound value sets of the resource types we
+// import; it is not a full profile validator.
+
+export interface FHIROperationOutcomeIssue {
+  severity: "fatal" | "error" | "warning" | "information";
+  code: string;
+  diagnostics: string;
+  expression?: string[];
+}
+
+const ADMINISTRATIVE_GENDER = ["male", "female", "other", "unknown"];
+
+const OBSERVATION_STATUS = [
+  "registered",
+  "preliminary",
+  "final",
+  "amended",
+  "corrected",
+  "cancelled",
+  "entered-in-error",
+  "unknown",
+];
+
+const MEDICATION_STATEMENT_STATUS = [
+  "active",
+  "completed",
+  "entered-in-error",
+  "intended",
+  "stopped",
+  "on-hold",
+  "unknown",
+  "not-taken",
+];
+
+const CONDITION_CLINICAL_STATUS = [
+  "active",
+  "recurrence",
+  "relapse",
+  "inactive",
+  "remission",
+  "resolved",
+];
+
+const CONDITION_VERIFICATION_STATUS = [
+  "unconfirmed",
+  "provisional",
+  "differential",
+  "confirmed",
+  "refuted",
+  "entered-in-error",
+];
+
+const CONTACT_POINT_SYSTEM = [
+  "phone",
+  "fax",
+  "email",
+  "pager",
+  "url",
+  "sms",
+  "other",
+];
+
+// R4 date / dateTime primitive formats
+const DATE_PATTERN = /^\d{4}(-(0[1-9]|1[0-2])(-(0[1-9]|[12]\d|3[01]))?)?$/;
+const DATE_TIME_PATTERN =
+  /^\d{4}(-(0[1-9]|1[0-2])(-(0[1-9]|[12]\d|3[01])(T([01]\d|2[0-3]):[0-5]\d:([0-5]\d|60)(\.\d+)?(Z|[+-]((0\d|1[0-3]):[0-5]\d|14:00)))?)?)?$/;
+
+export const SUPPORTED_IMPORT_RESOURCES = [
+  "Patient",
+  "Observation",
+  "MedicationStatement",
+  "Condition",
+];
+
+export class FHIRValidator {
+  static validate(resource: any): FHIROperationOutcomeIssue[] {
+    if (!resource || typeof resource !== "object") {
+      return [this.issue("error", "structure", "Entry has no resource")];
+    }
+
+    switch (resource.resourceType) {
+      case "Patient":
+        return this.validatePatient(resource);
+      case "Observation":
+        return this.validateObservation(resource);
+      case "MedicationStatement":
+        return this.validateMedicationStatement(resource);
+      case "Condition":
+        return this.validateCondition(resource);
+      default:
+        return [
+          this.issue(
+            "error",
+            "not-supported",
+            `Resource type ${resource.resourceType || "(missing)"} is not supported for import`,
+            "resourceType",
+          ),
+        ];
+    }
+  }
+
+  static hasErrors(issues: FHIROperationOutcomeIssue[]): boolean {
+    return issues.some(
+      (issue) => issue.severity === "error" || issue.severity === "fatal",
+    );
+  }
+
+  private static validatePatient(patient: any): FHIROperationOutcomeIssue[] {
+    const issues: FHIROperationOutcomeIssue[] = [];
+
+    if (!this.isNonEmptyArray(patient.name)) {
+      issues.push(
+        this.issue(
+          "error",
+          "required",
+          "Patient.name is required",
+          "Patient.name",
+        ),
+      );
+    } else if (!patient.name.some((n: any) => n.family || n.given?.length)) {
+      issues.push(
+        this.issue(
+          "error",
+          "required",
+          "Patient.name must contain a family or given name",
+          "Patient.name",
+        ),
+      );
+    }
+
+    if (
+      patient.gender !== undefined &&
+      !ADMINISTRATIVE_GENDER.includes(patient.gender)
+    ) {
+      issues.push(
+        this.issue(
+          "error",
+          "code-invalid",
+          `Patient.gender '${patient.gender}' is not in AdministrativeGender`,
+          "Patient.gender",
+        ),
+      );
+    }
+
+    if (
+      patient.birthDate !== undefined &&
+      !DATE_PATTERN.test(patient.birthDate)
+    ) {
+      issues.push(
+        this.issue(
+          "error",
+          "value",
+          "Patient.birthDate must be a FHIR date (YYYY, YYYY-MM or YYYY-MM-DD)",
+          "Patient.birthDate",
+        ),
+      );
+    }
+
+    (patient.identifier || []).forEach((identifier: any, index: number) => {
+      if (!identifier.value) {
+        issues.push(
+          this.issue(
+            "warning",
+            "required",
+            "Identifier has no value and will be ignored",
+            `Patient.identifier[${index}].value`,
+          ),
+        );
+      }
+    });
+
+    (patient.telecom || []).forEach((telecom: any, index: number) => {
+      if (telecom.system && !CONTACT_POINT_SYSTEM.includes(telecom.system)) {
+        issues.push(
+          this.issue(
+            "error",
+            "code-invalid",
+            `ContactPoint.system '${telecom.system}' is invalid`,
+            `Patient.telecom[${index}].system`,
+          ),
+        );
+      }
+    });
+
+    if (!this.isNonEmptyArray(patient.identifier)) {
+      issues.push(
+        this.issue(
+          "warning",
+          "required",
+          "Patient has no identifier; matching will fall back to email",
+          "Patient.identifier",
+        ),
+      );
+    }
+
+    return issues;
+  }
+
+  private static validateObservation(
+    observation: any,
+  ): FHIROperationOutcomeIssue[] {
+    const issues: FHIROperationOutcomeIssue[] = [];
+
+    this.requireCode(
+      issues,
+      observation.status,
+      OBSERVATION_STATUS,
+      "Observation.status",
+    );
+    this.requireCodeableConcept(issues, observation.code, "Observation.code");
+    this.requireReference(issues, observation.subject, "Observation.subject");
+
+    if (
+      observation.effectiveDateTime !== undefined &&
+      !DATE_TIME_PATTERN.test(observation.effectiveDateTime)
+    ) {
+      issues.push(
+        this.issue(
+          "error",
+          "value",
+          "Observation.effectiveDateTime is not a valid dateTime",
+          "Observation.effectiveDateTime",
+        ),
+      );
+    }
+
+    const hasComponentValues = (observation.component || []).some(
+      (component: any) => component.valueQuantity,
+    );
+
+    if (observation.valueQuantity) {
+      if (typeof observation.valueQuantity.value !== "number") {
+        issues.push(
+          this.issue(
+            "error",
+            "value",
+            "Observation.valueQuantity.value must be a decimal",
+            "Observation.valueQuantity.value",
+          ),
+        );
+      }
+    } else if (!hasComponentValues) {
+      issues.push(
+        this.issue(
+          "error",
+          "not-supported",
+          "Only Observations with valueQuantity or quantity components can be imported",
+          "Observation.value[x]",
+        ),
+      );
+    }
+
+    return issues;
+  }
+
+  private static validateMedicationStatement(
+    statement: any,
+  ): FHIROperationOutcomeIssue[] {
+    const issues: FHIROperationOutcomeIssue[] = [];
+
+    this.requireCode(
+      issues,
+      statement.status,
+      MEDICATION_STATEMENT_STATUS,
+      "MedicationStatement.status",
+    );
+
+    if (statement.medicationCodeableConcept) {
+      this.requireCodeableConcept(
+        issues,
+        statement.medicationCodeableConcept,
+        "MedicationStatement.medicationCodeableConcept",
+      );
+    } else if (statement.medicationReference) {
+      if (!statement.medicationReference.display) {
+        issues.push(
+          this.issue(
+            "error",
+            "not-supported",
+            "medicationReference must carry a display name to be imported",
+            "MedicationStatement.medicationReference",
+          ),
+        );
+      }
+    } else {
+      issues.push(
+        this.issue(
+          "error",
+          "required",
+          "MedicationStatement.medication[x] is required",
+          "MedicationStatement.medication[x]",
+        ),
+      );
+    }
+
+    this.requireReference(
+      issues,
+      statement.subject,
+      "MedicationStatement.subject",
+    );
+
+    return issues;
+  }
+
+  private static validateCondition(
+    condition: any,
+  ): FHIROperationOutcomeIssue[] {
+    const issues: FHIROperationOutcomeIssue[] = [];
+
+    this.requireReference(issues, condition.subject, "Condition.subject");
+    this.requireCodeableConcept(issues, condition.code, "Condition.code");
+
+    const clinicalStatus = condition.clinicalStatus?.coding?.[0]?.code;
+    if (
+      clinicalStatus !== undefined &&
+      !CONDITION_CLINICAL_STATUS.includes(clinicalStatus)
+    ) {
+      issues.push(
+        this.issue(
+          "error",
+          "code-invalid",
+          `Condition.clinicalStatus '${clinicalStatus}' is invalid`,
+          "Condition.clinicalStatus",
+        ),
+      );
+    }
+
+    const verificationStatus = condition.verificationStatus?.coding?.[0]?.code;
+    if (
+      verificationStatus !== undefined &&
+      !CONDITION_VERIFICATION_STATUS.includes(verificationStatus)
+    ) {
+      issues.push(
+        this.issue(
+          "error",
+          "code-invalid",
+          `Condition.verificationStatus '${verificationStatus}' is invalid`,
+          "Condition.verificationStatus",
+        ),
+      );
+    }
+
+    // con-5: entered-in-error conditions must not carry a clinical status
+    if (verificationStatus === "entered-in-error" && clinicalStatus) {
+      issues.push(
+        this.issue(
+          "error",
+          "invariant",
+          "Condition.clinicalStatus must be absent when verificationStatus is entered-in-error",
+          "Condition.clinicalStatus",
+        ),
+      );
+    }
+
+    if (
+      condition.onsetDateTime !== undefined &&
+      !DATE_TIME_PATTERN.test(condition.onsetDateTime)
+    ) {
+      issues.push(
+        this.issue(
+          "error",
+          "value",
+          "Condition.onsetDateTime is not a valid dateTime",
+          "Condition.onsetDateTime",
+        ),
+      );
+    }
+
+    return issues;
+  }
+
+  private static requireCode(
+    issues: FHIROperationOutcomeIssue[],
+    value: any,
+    allowed: string[],
+    path: string,
+  ): void {
+    if (!value) {
+      issues.push(this.issue("error", "required", `${path} is required`, path));
+    } else if (!allowed.includes(value)) {
+      issues.push(
+        this.issue(
+          "error",
+          "code-invalid",
+          `${path} '${value}' is not a valid code`,
+          path,
+        ),
+      );
+    }
+  }
+
+  private static requireCodeableConcept(
+    issues: FHIROperationOutcomeIssue[],
+    concept: any,
+    path: string,
+  ): void {
+    const hasCoding = concept?.coding?.some((c: any) => c.code || c.display);
+    if (!concept || (!hasCoding && !concept.text)) {
+      issues.push(
+        this.issue(
+          "error",
+          "required",
+          `${path} must contain a coding or text`,
+          path,
+        ),
+      );
+    }
+  }
+
+  private static requireReference(
+    issues: FHIROperationOutcomeIssue[],
+    reference: any,
+    path: string,
+  ): void {
+    if (!reference?.reference && !reference?.identifier?.value) {
+      issues.push(
+        this.issue(
+          "error",
+          "required",
+          `${path} must reference a Patient`,
+          path,
+        ),
+      );
+    }
+  }
+
+  private static isNonEmptyArray(value: any): boolean {
+    return Array.isArray(value) && value.length > 0;
+  }
+
+  private static issue(
+    severity: FHIROperationOutcomeIssue["severity"],
+    code: string,
+    diagnostics: string,
+    expression?: string,
+  ): FHIROperationOutcomeIssue {
+    return {
+      severity,
+      code,
+      diagnostics,
+      ...(expression ? { expression: [expression] } : {}),
+    };
+  }
+}
@@ -4,6 +4,17 @@ import {
   VitalSigns,
   HealthInsight,
 } from "@shared/types";
+import { Disposition, TriageResult } from "./triage";
+
+const URGENCY_BY_DISPOSITION: Record<
+  Disposition,
+  "low" | "moderate" | "high" | "emergency"
+> = {
+  self_care: "low",
+  routine: "moderate",
+  urgent: "high",
+  emergency: "emergency",
+};
 
 // Advanced Medical AI Service with sophisticated analysis
 export class MedicalAI {
@@ -561,7 +572,7 @@ export class MedicalAI {
   static assessSymptoms(
     symptoms: string[],
     demographics: any,
-    vitals?: VitalSigns[],
+    triage: TriageResult,
   ): {
     differentialDiagnosis: any[];
     urgencyLevel: "low" | "moderate" | "high" | "emergency";
@@ -570,32 +581,12 @@ export class MedicalAI {
   } {
     const symptomList = symptoms.map((s) => s.toLowerCase());
     const differentialDiagnosis = [];
-    let urgencyLevel: "low" | "moderate" | "high" | "emergency" = "low";
-    const recommendations = [];
-    const redFlags = [];
-
-    // Emergency symptoms detection
-    const emergencySymptoms = [
-      "chest pain",
-      "difficulty breathing",
-      "severe headache",
-      "loss of consciousness",
-      "severe bleeding",
-      "stroke symptoms",
-    ];
+    // Urgency comes from the triage protocol, not from the differential
+    const urgencyLevel = URGENCY_BY_DISPOSITION[triage.disposition];
+    const recommendations = [...triage.advice];
+    const redFlags = [...triage.redFlags];
 
-    if (
-      emergencySymptoms.some((emergency) =>
-        symptomList.some((symptom) =>
-          symptom.includes(emergency.split(" ")[0]),
-        ),
-      )
-    ) {
-      urgencyLevel = "emergency";
-      redFlags.push(
-        "Emergency symptoms detected - seek immediate medical attention",
-      );
-      recommendations.push("Call 911 or go to emergency room immediately");
+    if (urgencyLevel === "emergency") {
       return { differentialDiagnosis, urgencyLevel, recommendations, redFlags };
     }
 
@@ -614,9 +605,6 @@ export class MedicalAI {
         severity: "low",
         workup: ["Trial of PPI therapy", "Upper endoscopy if persistent"],
       });
-
-      urgencyLevel = "high";
-      recommendations.push("Seek immediate medical evaluation for chest pain");
     }
 
     // Respiratory symptoms
@@ -631,7 +619,7 @@ export class MedicalAI {
       });
 
       if (
-        demographics.age > 65 ||
+        demographics?.age > 65 ||
         symptomList.some((s) => s.includes("fever"))
       ) {
         differentialDiagnosis.push({
@@ -640,16 +628,9 @@ export class MedicalAI {
           severity: "moderate",
           workup: ["Chest X-ray", "CBC", "Blood cultures"],
         });
-        urgencyLevel = "moderate";
       }
     }
 
-    // General recommendations
-    if (urgencyLevel === "low") {
-      recommendations.push("Monitor symptoms and seek care if worsening");
-      recommendations.push("Consider telehealth consultation for evaluation");
-    }
-
     return { differentialDiagnosis, urgencyLevel, recommendations, redFlags };
   }
 
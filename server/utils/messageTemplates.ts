@@ -0,0 +1,579 @@
+import { dbPool } from "../config/database";
+
+// Message templates by template id × channel × locale. The English text
+// ships with the server; translations (and edits to the English) are saved
+// by admins in message_template_translations. A message is sent in the
+// most specific locale that has text for its channel: "fr-CI", then "fr",
+// then English.
+
+export const TEMPLATE_CHANNELS = ["sms", "voice", "email"] as const;
+export type TemplateChannel = (typeof TEMPLATE_CHANNELS)[number];
+
+export const DEFAULT_LOCALE = "en";
+
+// The languages our patients are offered, as in the USSD menus
+export const MESSAGE_LOCALES: Record<string, string> = {
+  en: "English",
+  tw: "Twi",
+  ha: "Hausa",
+  sw: "Swahili",
+  fr: "French",
+  ar: "Arabic",
+  es: "Spanish",
+};
+
+// A language with an optional region: "fr", "fr-CI" or "fr_CI"
+const LOCALE_PATTERN = /^([a-z]{2,3})(?:[-_]([a-z]{2}))?$/i;
+const MAX_CONTENT_LENGTH = 1000;
+
+export interface MessageTemplateDefinition {
+  name: string;
+  // Who reads it, and so whose language it is sent in
+  audience: "patient" | "care_team";
+  variables: string[];
+  // The English text; for email, the subject line
+  channels: Partial<Record<TemplateChannel, string>>;
+}
+
+export interface TemplateTranslation {
+  templateId: string;
+  channel: TemplateChannel;
+  locale: string;
+  content: string;
+  updatedBy?: string;
+  updatedAt?: string;
+}
+
+export interface MissingTranslation {
+  locale: string;
+  language: string;
+  translated: number;
+  total: number;
+  missing: Array<{ templateId: string; channel: TemplateChannel }>;
+}
+
+export const MESSAGE_TEMPLATES: Record<string, MessageTemplateDefinition> = {
+  // Critical alerts
+  critical_hypoglycemia: {
+    name: "Critical hypoglycemia",
+    audience: "patient",
+    variables: ["patientName", "value"],
+    channels: {
+      sms: "🚨 URGENT: {patientName}'s blood sugar is critically low at {value} mg/dL. Take 15g fast-acting carbs immediately. Call 911 if symptoms persist.",
+      voice:
+        "This is an urgent medical alert. {patientName}'s blood glucose is critically low at {value} milligrams per deciliter. Please take 15 grams of fast-acting carbohydrates immediately and call 911 if symptoms persist.",
+      email: "URGENT MEDICAL ALERT: Critical Hypoglycemia",
+    },
+  },
+  care_team_emergency: {
+    name: "Care team emergency",
+    audience: "care_team",
+    variables: ["patientName", "value", "patientPhone"],
+    channels: {
+      sms: "🚨 EMERGENCY: Patient {patientName} has critical glucose level {value} mg/dL. Immediate intervention required. Call patient at {patientPhone}.",
+      voice:
+        "Emergency alert. Patient {patientName} has a critical glucose level of {value} milligrams per deciliter. Immediate medical intervention is required. Please contact the patient immediately at {patientPhone}.",
+      email: "EMERGENCY: Critical Patient Alert - Immediate Action Required",
+    },
+  },
+
+  // Daily reminders
+  medication_reminder: {
+    name: "Medication reminder",
+    audience: "patient",
+    variables: ["medicationName", "dosage"],
+    channels: {
+      sms: "💊 Reminder: Time to take your {medicationName} ({dosage}). Reply TAKEN when complete. Questions? Call your care team.",
+      voice:
+        "This is a medication reminder. It's time to take your {medicationName}, {dosage}. Please take your medication now and contact your care team if you have any questions.",
+      email: "Daily Medication Reminder",
+    },
+  },
+  glucose_check_reminder: {
+    name: "Glucose check reminder",
+    audience: "patient",
+    variables: [],
+    channels: {
+      sms: "🩸 Reminder: Please check your blood glucose and log the reading in your app. Your care team is monitoring your progress.",
+      voice:
+        "This is a reminder to check your blood glucose level and log the reading in your mobile application. Your healthcare team is monitoring your progress.",
+      email: "Blood Glucose Check Reminder",
+    },
+  },
+
+  // Appointment reminders
+  appointment_24h: {
+    name: "Appointment reminder (24 hours)",
+    audience: "patient",
+    variables: ["time", "provider", "phone"],
+    channels: {
+      sms: "📅 Reminder: You have an appointment tomorrow at {time} with {provider}. Reply CONFIRM or call {phone} to reschedule.",
+      voice:
+        "This is a reminder that you have a medical appointment tomorrow at {time} with {provider}. Please call {phone} if you need to reschedule.",
+      email: "Appointment Reminder - 24 Hours",
+    },
+  },
+  appointment_2h: {
+    name: "Appointment reminder (2 hours)",
+    audience: "patient",
+    variables: ["provider", "time"],
+    channels: {
+      sms: "📅 Reminder: Your appointment with {provider} is in 2 hours at {time}. Please arrive 15 minutes early.",
+      voice:
+        "This is a reminder that your appointment with {provider} is in 2 hours at {time}. Please plan to arrive 15 minutes early.",
+      email: "Appointment Reminder - 2 Hours",
+    },
+  },
+
+  // Device alerts
+  device_battery_low: {
+    name: "Device battery low",
+    audience: "patient",
+    variables: ["deviceName", "battery"],
+    channels: {
+      sms: "🔋 Alert: Your {deviceName} battery is low ({battery}%). Please charge your device to continue monitoring.",
+      voice:
+        "This is a device alert. Your {deviceName} battery is low at {battery} percent. Please charge your device to continue health monitoring.",
+      email: "Device Battery Alert",
+    },
+  },
+  device_disconnected: {
+    name: "Device disconnected",
+    audience: "patient",
+    variables: ["deviceName"],
+    channels: {
+      sms: "📱 Alert: Your {deviceName} is disconnected. Please check your device connection to continue monitoring.",
+      voice:
+        "This is a device connectivity alert. Your {deviceName} is disconnected. Please check your device connection.",
+      email: "Device Connectivity Alert",
+    },
+  },
+
+  // Care coordination
+  care_plan_update: {
+    name: "Care plan update",
+    audience: "patient",
+    variables: ["phone"],
+    channels: {
+      sms: "📋 Update: Your care plan has been updated. Review changes in your patient portal or call {phone} with questions.",
+      voice:
+        "Your healthcare team has updated your care plan. Please review the changes in your patient portal or call {phone} if you have any questions.",
+      email: "Care Plan Update Notification",
+    },
+  },
+  lab_results_ready: {
+    name: "Lab results ready",
+    audience: "patient",
+    variables: ["phone"],
+    channels: {
+      sms: "🧪 Your lab results are ready. Log into your patient portal to view results or call {phone} to discuss with your provider.",
+      voice:
+        "Your laboratory results are now available. Please log into your patient portal to view the results or call {phone} to discuss them with your healthcare provider.",
+      email: "Lab Results Available",
+    },
+  },
+
+  // Sent on each patient's messaging schedule (ScheduledMessagingService)
+  scheduled_medication_reminder: {
+    name: "Scheduled medication reminder",
+    audience: "patient",
+    variables: ["medication", "dosage", "instructions"],
+    channels: {
+      sms: "Reminder: It's time to take your {medication} ({dosage}). {instructions}",
+    },
+  },
+  scheduled_glucose_check: {
+    name: "Scheduled glucose check",
+    audience: "patient",
+    variables: [],
+    channels: {
+      sms: "Time for your glucose check! Please test your blood sugar and log the results in your patient portal.",
+    },
+  },
+  scheduled_appointment_24h: {
+    name: "Scheduled appointment reminder (24 hours)",
+    audience: "patient",
+    variables: ["provider", "time", "location", "calendar_link"],
+    channels: {
+      sms: "Reminder: You have an appointment with {provider} tomorrow at {time}. Location: {location}. Please arrive 15 minutes early. Add to calendar: {calendar_link}",
+    },
+  },
+  scheduled_appointment_2h: {
+    name: "Scheduled appointment reminder (2 hours)",
+    audience: "patient",
+    variables: ["provider", "time", "location", "calendar_link"],
+    channels: {
+      sms: "Your appointment with {provider} is in 2 hours at {time}. Location: {location}. Don't forget to bring your insurance card and medication list. Calendar: {calendar_link}",
+    },
+  },
+  scheduled_daily_update: {
+    name: "Scheduled daily update",
+    audience: "patient",
+    variables: ["contact_number"],
+    channels: {
+      sms: "Good morning! Please remember to:\n- Take your medications\n- Check your glucose levels\n- Log your meals and activities\n- Contact us with any concerns: {contact_number}",
+    },
+  },
+  scheduled_care_team_alert: {
+    name: "Scheduled care team alert",
+    audience: "care_team",
+    variables: ["patient_name", "patient_id", "alert_reason", "last_reading"],
+    channels: {
+      sms: "Patient {patient_name} (ID: {patient_id}) requires attention: {alert_reason}. Last reading: {last_reading}. Please review and respond.",
+    },
+  },
+  scheduled_wellness_check: {
+    name: "Scheduled wellness check",
+    audience: "patient",
+    variables: ["patient_name"],
+    channels: {
+      sms: "Hi {patient_name}, how are you feeling today? Reply with a number 1-10 (1=very poor, 10=excellent) to rate your overall wellness.",
+    },
+  },
+
+  // Replies to the commands patients text in (SmsCommands)
+  sms_reading_recorded: {
+    name: "SMS reply: reading recorded",
+    audience: "patient",
+    variables: ["reading"],
+    channels: {
+      sms: "✅ Reading recorded: {reading}. Keep up the good work! Your care team can see this reading.",
+    },
+  },
+  sms_reading_alert: {
+    name: "SMS reply: reading outside range",
+    audience: "patient",
+    variables: ["reading"],
+    channels: {
+      sms: "⚠️ Reading recorded: {reading}. This is outside the range your care team set, and they have been notified. If you feel unwell, call your care team.",
+    },
+  },
+  sms_glucose_low: {
+    name: "SMS reply: low glucose",
+    audience: "patient",
+    variables: ["value"],
+    channels: {
+      sms: "🚨 Your glucose is low ({value}). Take 15g fast-acting carbs immediately. Recheck in 15 minutes. Call 911 if you feel worse.",
+    },
+  },
+  sms_glucose_high: {
+    name: "SMS reply: high glucose",
+    audience: "patient",
+    variables: ["value"],
+    channels: {
+      sms: "⚠️ Your glucose is high ({value}). Check ketones if possible and contact your care team. Drink water and take prescribed medication.",
+    },
+  },
+  sms_dose_taken: {
+    name: "SMS reply: dose recorded",
+    audience: "patient",
+    variables: ["medication"],
+    channels: {
+      sms: "✅ Thank you for confirming you took your {medication}. Your care team has been notified.",
+    },
+  },
+  sms_doses_taken: {
+    name: "SMS reply: medication recorded",
+    audience: "patient",
+    variables: [],
+    channels: {
+      sms: "✅ Thank you for confirming your medication was taken. Your care team has been notified.",
+    },
+  },
+  sms_medication_unknown: {
+    name: "SMS reply: medication not found",
+    audience: "patient",
+    variables: ["medication", "medications"],
+    channels: {
+      sms: "We couldn't find {medication} among your medications ({medications}). Reply TAKEN and the name of the one you took.",
+    },
+  },
+  sms_help: {
+    name: "SMS reply: help",
+    audience: "patient",
+    variables: [],
+    channels: {
+      sms: "🆘 Healthcare Help:\n• Reply TAKEN (or TAKEN METFORMIN) after taking medication\n• Send your glucose number (e.g., 120)\n• BP 132/85 for blood pressure\n• WT 81.2kg for weight\n• Reply EMERGENCY for urgent help\n• Reply STOP to unsubscribe, START to resubscribe\nNeed immediate help? Call (555) 123-4567",
+    },
+  },
+  sms_unknown_command: {
+    name: "SMS reply: not understood",
+    audience: "patient",
+    variables: [],
+    channels: {
+      sms: "I didn't understand that. Reply HELP for options, send your glucose number, or reply TAKEN after taking medication.",
+    },
+  },
+  sms_message_received: {
+    name: "SMS reply: message passed to care team",
+    audience: "patient",
+    variables: [],
+    channels: {
+      sms: "Thank you, your message has been passed to your care team, who will reply by text. For urgent help reply EMERGENCY.",
+    },
+  },
+  sms_command_invalid: {
+    name: "SMS reply: command not readable",
+    audience: "patient",
+    variables: ["example"],
+    channels: {
+      sms: "Sorry, we couldn't read that. Please send it like this: {example}",
+    },
+  },
+  sms_unknown_sender: {
+    name: "SMS reply: number not recognised",
+    audience: "patient",
+    variables: [],
+    channels: {
+      sms: "We couldn't match this phone number to a patient record, so nothing was saved. Please ask your care team to update your number.",
+    },
+  },
+  sms_emergency: {
+    name: "SMS reply: emergency",
+    audience: "patient",
+    variables: [],
+    channels: {
+      sms: "🚨 Emergency response activated. Your care team has been notified and will contact you immediately. If this is a life-threatening emergency, call 911 now.",
+    },
+  },
+  sms_opt_out: {
+    name: "SMS reply: unsubscribed",
+    audience: "patient",
+    variables: [],
+    channels: {
+      sms: "You have been unsubscribed and will get no more texts from this number. Emergency alerts will reach you by phone call. Reply START to resubscribe.",
+    },
+  },
+  sms_opt_in: {
+    name: "SMS reply: resubscribed",
+    audience: "patient",
+    variables: [],
+    channels: {
+      sms: "You are subscribed to texts from your care team again. Reply HELP for help or STOP to unsubscribe.",
+    },
+  },
+};
+
+export class MessageTemplates {
+  // A supported locale in canonical case ("fr-ci" becomes "fr-CI"), or null
+  static normalizeLocale(locale: string): string | null {
+    const match = LOCALE_PATTERN.exec(String(locale || "").trim());
+    const language = match?.[1].toLowerCase();
+    if (!language || !MESSAGE_LOCALES[language]) return null;
+    return match![2] ? `${language}-${match![2].toUpperCase()}` : language;
+  }
+
+  // Locales tried in order: the region, its language, then English
+  static fallbackChain(locale: string): string[] {
+    const normalized = this.normalizeLocale(locale);
+    const chain = normalized ? [normalized, normalized.split("-")[0]] : [];
+    return [...new Set([...chain, DEFAULT_LOCALE])];
+  }
+
+  /**
+   * The text a template is sent with on a channel, from the translations
+   * saved for it; the built-in English text is the last resort. Null when
+   * the template has no text for the channel at all.
+   */
+  static resolve(
+    templateId: string,
+    channel: TemplateChannel,
+    locale: string,
+    translations: TemplateTranslation[],
+  ): { locale: string; content: string } | null {
+    const definition = MESSAGE_TEMPLATES[templateId];
+    if (!definition) return null;
+
+    for (const candidate of this.fallbackChain(locale)) {
+      const saved = translations.find(
+        (translation) =>
+          translation.templateId === templateId &&
+          translation.channel === channel &&
+          translation.locale === candidate,
+      );
+      if (saved) return { locale: candidate, content: saved.content };
+    }
+    const english = definition.channels[channel];
+    return english ? { locale: DEFAULT_LOCALE, content: english } : null;
+  }
+
+  // Replace {name} placeholders; unknown ones are left for the reader to see
+  static fill(content: string, variables: Record<string, string> = {}) {
+    return content.replace(/\{(\w+)\}/g, (placeholder, name) =>
+      variables[name] !== undefined ? String(variables[name]) : placeholder,
+    );
+  }
+
+  // Why a text cannot be saved for a template, or null when it can
+  static validateContent(templateId: string, content: any): string | null {
+    const definition = MESSAGE_TEMPLATES[templateId];
+    if (!definition) {
+      return `Unknown template ${templateId}`;
+    }
+    if (typeof content !== "string" || !content.trim()) {
+      return "content is required";
+    }
+    if (content.length > MAX_CONTENT_LENGTH) {
+      return `content must be at most ${MAX_CONTENT_LENGTH} characters`;
+    }
+    const unknown = [...content.matchAll(/\{(\w+)\}/g)]
+      .map((match) => match[1])
+      .filter((name) => !definition.variables.includes(name));
+    if (unknown.length > 0) {
+      return `Unknown placeholder {${unknown[0]}}; ${templateId} takes ${
+        definition.variables.map((name) => `{${name}}`).join(", ") ||
+        "no placeholders"
+      }`;
+    }
+    return null;
+  }
+
+  /**
+   * For each language other than English, the template texts with no
+   * translation in that language. Regional translations ("fr-CI") are not
+   * counted, since the rest of the language's speakers still get English.
+   */
+  static missingTranslations(
+    translations: TemplateTranslation[],
+  ): MissingTranslation[] {
+    const texts = Object.entries(MESSAGE_TEMPLATES).flatMap(
+      ([templateId, definition]) =>
+        TEMPLATE_CHANNELS.filter((channel) => definition.channels[channel]).map(
+          (channel) => ({ templateId, channel }),
+        ),
+    );
+
+    return Object.entries(MESSAGE_LOCALES)
+      .filter(([locale]) => locale !== DEFAULT_LOCALE)
+      .map(([locale, language]) => {
+        const missing = texts.filter(
+          ({ templateId, channel }) =>
+            !translations.some(
+              (translation) =>
+                translation.templateId === templateId &&
+                translation.channel === channel &&
+                translation.locale === locale,
+            ),
+        );
+        return {
+          locale,
+          language,
+          translated: texts.length - missing.length,
+          total: texts.length,
+          missing,
+        };
+      });
+  }
+
+  /**
+   * A template filled in for one message. Alerts must still go out when the
+   * database is unreachable, so a failed lookup of the saved translations
+   * falls back to the built-in English text.
+   */
+  static async render(
+    templateId: string,
+    channel: TemplateChannel,
+    locale: string,
+    variables?: Record<string, string>,
+  ): Promise<{ locale: string; text: string } | null> {
+    if (!MESSAGE_TEMPLATES[templateId]) return null;
+
+    let translations: TemplateTranslation[] = [];
+    try {
+      translations = await this.listTranslations(templateId);
+    } catch (error) {
+      console.error("Message template lookup error:", error);
+    }
+    const resolved = this.resolve(templateId, channel, locale, translations);
+    return resolved
+      ? {
+          locale: resolved.locale,
+          text: this.fill(resolved.content, variables),
+        }
+      : null;
+  }
+
+  // The language a patient reads messages in (UserPreferences.language)
+  static async patientLocale(patientId: string): Promise<string> {
+    try {
+      const result = await this.pool().query(
+        "SELECT preferences->>'language' AS language FROM users WHERE id = $1",
+        [patientId],
+      );
+      return (
+        this.normalizeLocale(result.rows[0]?.language || "") || DEFAULT_LOCALE
+      );
+    } catch (error) {
+      console.error("Patient locale lookup error:", error);
+      return DEFAULT_LOCALE;
+    }
+  }
+
+  static async listTranslations(
+    templateId?: string,
+  ): Promise<TemplateTranslation[]> {
+    const result = await this.pool().query(
+      `SELECT * FROM message_template_translations
+      ${templateId ? "WHERE template_id = $1" : ""}
+      ORDER BY template_id, channel, locale`,
+      templateId ? [templateId] : [],
+    );
+    return result.rows.map((row) => this.fromRow(row));
+  }
+
+  static async saveTranslation(
+    translation: Omit<TemplateTranslation, "updatedAt">,
+  ): Promise<TemplateTranslation> {
+    const result = await this.pool().query(
+      `INSERT INTO message_template_translations
+        (template_id, channel, locale, content, updated_by)
+      VALUES ($1, $2, $3, $4, $5)
+      ON CONFLICT (template_id, channel, locale) DO UPDATE
+      SET content = EXCLUDED.content, updated_by = EXCLUDED.updated_by,
+        updated_at = NOW()
+      RETURNING *`,
+      [
+        translation.templateId,
+        translation.channel,
+        translation.locale,
+        translation.content,
+        translation.updatedBy || null,
+      ],
+    );
+    return this.fromRow(result.rows[0]);
+  }
+
+  // False when there was nothing saved to delete
+  static async deleteTranslation(
+    templateId: string,
+    channel: TemplateChannel,
+    locale: string,
+  ): Promise<boolean> {
+    const result = await this.pool().query(
+      `DELETE FROM message_template_translations
+      WHERE template_id = $1 AND channel = $2 AND locale = $3`,
+      [templateId, channel, locale],
+    );
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  private static fromRow(row: any): TemplateTranslation {
+    return {
+      templateId: row.template_id,
+      channel: row.channel,
+      locale: row.locale,
+      content: row.content,
+      updatedBy: row.updated_by || undefined,
+      updatedAt: row.updated_at
+        ? new Date(row.updated_at).toISOString()
+        : undefined,
+    };
+  }
+
+  private static pool() {
+    if (!dbPool) {
+      throw new Error("PostgreSQL pool not configured");
+    }
+    return dbPool;
+  }
+}
@@ -1,7 +1,18 @@
+import { dbPool } from "../config/database";
 import { telnyxService } from "./telnyxService";
 import { twilioService } from "./twilioService";
 import { AuditLogger } from "./auditLogger";
 import { thresholdService, ThresholdAlert } from "./thresholdService";
+import {
+  CONSENT_REASON_MESSAGES,
+  CommunicationConsent,
+  ConsentDecision,
+} from "./communicationConsent";
+import {
+  DEFAULT_LOCALE,
+  MESSAGE_TEMPLATES,
+  MessageTemplates,
+} from "./messageTemplates";
 
 export interface MessageRequest {
   to: string;
@@ -17,12 +28,35 @@ export interface MessageRequest {
     | "appointment"
     | "medication"
     | "education"
+    | "marketing"
     | "system";
   template?: string;
   variables?: Record<string, string>;
+  // Language for the template; patient templates default to the patient's
+  locale?: string;
+  // Answers a STOP, START or HELP text, which carriers require whatever
+  // the number's consent
+  keywordReply?: boolean;
+  // A sign-in code or other message the recipient has just asked for,
+  // sent whatever the number's consent
+  transactional?: boolean;
+  // A message deferred for quiet hours is queued and sent when they end,
+  // unless the sender reschedules it itself (false)
+  queueDeferred?: boolean;
+  // A queued message still waiting at this time is dropped
+  sendBefore?: string;
+  metadata?: Record<string, any>;
   retryAttempts?: number;
   scheduledFor?: string;
   escalationRules?: EscalationRule[];
+  // Email only
+  attachments?: MessageAttachment[];
+}
+
+export interface MessageAttachment {
+  filename: string;
+  contentType: string;
+  content: string;
 }
 
 export interface EscalationRule {
@@ -40,8 +74,14 @@ export interface MessageResponse {
   retryable?: boolean;
   cost?: number;
   deliveryStatus?: "pending" | "sent" | "delivered" | "failed";
+  // Set when the consent check blocked or deferred the message or changed
+  // its channel
+  consent?: ConsentDecision;
 }
 
+// Deferred messages sent per pass of the queue processor
+const DEFERRED_BATCH = 50;
+
 export interface Contact {
   id: string;
   name: string;
@@ -87,79 +127,6 @@ export interface CareTeamMember {
   };
 }
 
-// Message templates for different scenarios
-const MESSAGE_TEMPLATES = {
-  // Critical alerts
-  critical_hypoglycemia: {
-    sms: "🚨 URGENT: {patientName}'s blood sugar is critically low at {value} mg/dL. Take 15g fast-acting carbs immediately. Call 911 if symptoms persist.",
-    voice:
-      "This is an urgent medical alert. {patientName}'s blood glucose is critically low at {value} milligrams per deciliter. Please take 15 grams of fast-acting carbohydrates immediately and call 911 if symptoms persist.",
-    email: "URGENT MEDICAL ALERT: Critical Hypoglycemia",
-  },
-  care_team_emergency: {
-    sms: "🚨 EMERGENCY: Patient {patientName} has critical glucose level {value} mg/dL. Immediate intervention required. Call patient at {patientPhone}.",
-    voice:
-      "Emergency alert. Patient {patientName} has a critical glucose level of {value} milligrams per deciliter. Immediate medical intervention is required. Please contact the patient immediately at {patientPhone}.",
-    email: "EMERGENCY: Critical Patient Alert - Immediate Action Required",
-  },
-
-  // Daily reminders
-  medication_reminder: {
-    sms: "💊 Reminder: Time to take your {medicationName} ({dosage}). Reply TAKEN when complete. Questions? Call your care team.",
-    voice:
-      "This is a medication reminder. It's time to take your {medicationName}, {dosage}. Please take your medication now and contact your care team if you have any questions.",
-    email: "Daily Medication Reminder",
-  },
-  glucose_check_reminder: {
-    sms: "🩸 Reminder: Please check your blood glucose and log the reading in your app. Your care team is monitoring your progress.",
-    voice:
-      "This is a reminder to check your blood glucose level and log the reading in your mobile application. Your healthcare team is monitoring your progress.",
-    email: "Blood Glucose Check Reminder",
-  },
-
-  // Appointment reminders
-  appointment_24h: {
-    sms: "📅 Reminder: You have an appointment tomorrow at {time} with {provider}. Reply CONFIRM or call {phone} to reschedule.",
-    voice:
-      "This is a reminder that you have a medical appointment tomorrow at {time} with {provider}. Please call {phone} if you need to reschedule.",
-    email: "Appointment Reminder - 24 Hours",
-  },
-  appointment_2h: {
-    sms: "📅 Reminder: Your appointment with {provider} is in 2 hours at {time}. Please arrive 15 minutes early.",
-    voice:
-      "This is a reminder that your appointment with {provider} is in 2 hours at {time}. Please plan to arrive 15 minutes early.",
-    email: "Appointment Reminder - 2 Hours",
-  },
-
-  // Device alerts
-  device_battery_low: {
-    sms: "🔋 Alert: Your {deviceName} battery is low ({battery}%). Please charge your device to continue monitoring.",
-    voice:
-      "This is a device alert. Your {deviceName} battery is low at {battery} percent. Please charge your device to continue health monitoring.",
-    email: "Device Battery Alert",
-  },
-  device_disconnected: {
-    sms: "📱 Alert: Your {deviceName} is disconnected. Please check your device connection to continue monitoring.",
-    voice:
-      "This is a device connectivity alert. Your {deviceName} is disconnected. Please check your device connection.",
-    email: "Device Connectivity Alert",
-  },
-
-  // Care coordination
-  care_plan_update: {
-    sms: "📋 Update: Your care plan has been updated. Review changes in your patient portal or call {phone} with questions.",
-    voice:
-      "Your healthcare team has updated your care plan. Please review the changes in your patient portal or call {phone} if you have any questions.",
-    email: "Care Plan Update Notification",
-  },
-  lab_results_ready: {
-    sms: "🧪 Your lab results are ready. Log into your patient portal to view results or call {phone} to discuss with your provider.",
-    voice:
-      "Your laboratory results are now available. Please log into your patient portal to view the results or call {phone} to discuss them with your healthcare provider.",
-    email: "Lab Results Available",
-  },
-};
-
 export class MessagingService {
   private readonly messageQueue: Map<string, MessageRequest> = new Map();
   private readonly escalationTimers: Map<string, NodeJS.Timeout> = new Map();
@@ -170,12 +137,44 @@ export class MessagingService {
   }
 
   /**
-   * Send message with automatic failover from Telnyx to Twilio
+   * Send message with automatic failover from Telnyx to Twilio. Every
+   * message is first checked against the recipient's communication
+   * consent, which may block it, move it to another channel, or defer it
+   * until the recipient's quiet hours end.
    */
   async sendMessage(request: MessageRequest): Promise<MessageResponse> {
     try {
+      const consent = await CommunicationConsent.check(request);
+      if (consent.action !== "send") {
+        await CommunicationConsent.recordDecision(request, consent);
+      }
+      if (consent.action === "block") {
+        return {
+          success: false,
+          provider: "none" as any,
+          error: `Message not sent: ${CONSENT_REASON_MESSAGES[consent.reason!]}`,
+          retryable: false,
+          consent,
+        };
+      }
+      if (consent.action === "defer") {
+        if (request.queueDeferred !== false) {
+          await this.queueDeferred(request, consent.deferUntil!);
+        }
+        return {
+          success: false,
+          provider: "none" as any,
+          error: `Message deferred until ${consent.deferUntil}: ${CONSENT_REASON_MESSAGES[consent.reason!]}`,
+          retryable: false,
+          deliveryStatus: "pending",
+          consent,
+        };
+      }
+      // A downgraded message goes out, and is rendered, on its new channel
+      request = { ...request, type: consent.type };
+
       // Apply message template if specified
-      const processedMessage = this.applyTemplate(request);
+      const processedMessage = await this.applyTemplate(request);
 
       // Log the message request
       AuditLogger.logCommunication(
@@ -218,6 +217,9 @@ export class MessagingService {
       ) {
         this.scheduleEscalation(request);
       }
+      if (consent.action === "downgrade") {
+        result.consent = consent;
+      }
 
       // Log the result
       AuditLogger.logCommunication(
@@ -338,6 +340,7 @@ export class MessagingService {
     console.log(
       `📧 Email placeholder - would send to ${to}:`,
       message.substring(0, 50) + "...",
+      (request.attachments || []).map((attachment) => attachment.filename),
     );
 
     return {
@@ -349,28 +352,28 @@ export class MessagingService {
   }
 
   /**
-   * Apply message template with variable substitution
+   * Apply message template with variable substitution, in the reader's
+   * language where a translation exists
    */
-  private applyTemplate(request: MessageRequest): string {
-    if (
-      !request.template ||
-      !MESSAGE_TEMPLATES[request.template as keyof typeof MESSAGE_TEMPLATES]
-    ) {
+  private async applyTemplate(request: MessageRequest): Promise<string> {
+    const template = request.template && MESSAGE_TEMPLATES[request.template];
+    if (!template) {
       return request.message;
     }
 
-    const template =
-      MESSAGE_TEMPLATES[request.template as keyof typeof MESSAGE_TEMPLATES];
-    let message = template[request.type] || request.message;
-
-    // Replace variables
-    if (request.variables) {
-      Object.entries(request.variables).forEach(([key, value]) => {
-        message = message.replace(new RegExp(`{${key}}`, "g"), value);
-      });
-    }
+    const locale =
+      request.locale ||
+      (template.audience === "patient" && request.patientId
+        ? await MessageTemplates.patientLocale(request.patientId)
+        : DEFAULT_LOCALE);
+    const rendered = await MessageTemplates.render(
+      request.template!,
+      request.type,
+      locale,
+      request.variables,
+    );
 
-    return message;
+    return rendered?.text || request.message;
   }
 
   /**
@@ -658,16 +661,76 @@ export class MessagingService {
   private startQueueProcessor(): void {
     setInterval(() => {
       // Process any queued messages
-      this.processMessageQueue();
+      this.processMessageQueue().catch((error) =>
+        console.error("Message queue error:", error),
+      );
     }, 30000); // Process every 30 seconds
   }
 
   /**
-   * Process queued messages
+   * Send the deferred messages that are due. Each is claimed before it is
+   * sent, so several processes can share the queue; one deferred again
+   * (the patient moved their quiet hours) waits for the new time.
    */
   private async processMessageQueue(): Promise<void> {
-    // Implementation for processing queued/scheduled messages
-    // This would handle retry logic, scheduled messages, etc.
+    if (!dbPool) return;
+
+    await dbPool.query(
+      `UPDATE deferred_messages SET status = 'expired'
+      WHERE status = 'pending' AND send_before <= NOW()`,
+    );
+    const due = await dbPool.query(
+      `UPDATE deferred_messages SET status = 'sending'
+      WHERE id IN (
+        SELECT id FROM deferred_messages
+        WHERE status = 'pending' AND send_at <= NOW()
+        ORDER BY send_at
+        LIMIT $1
+        FOR UPDATE SKIP LOCKED
+      )
+      RETURNING id, request`,
+      [DEFERRED_BATCH],
+    );
+
+    for (const row of due.rows) {
+      const result = await this.sendMessage({
+        ...row.request,
+        queueDeferred: false,
+      });
+      if (result.consent?.action === "defer") {
+        await dbPool.query(
+          "UPDATE deferred_messages SET status = 'pending', send_at = $2 WHERE id = $1",
+          [row.id, result.consent.deferUntil],
+        );
+        continue;
+      }
+      await dbPool.query(
+        `UPDATE deferred_messages SET status = $2, error = $3,
+          sent_at = CASE WHEN $2 = 'sent' THEN NOW() END
+        WHERE id = $1`,
+        [row.id, result.success ? "sent" : "failed", result.error || null],
+      );
+    }
+  }
+
+  // Keep a message deferred for quiet hours until they end
+  private async queueDeferred(
+    request: MessageRequest,
+    sendAt: string,
+  ): Promise<void> {
+    if (!dbPool) {
+      throw new Error("PostgreSQL pool not configured");
+    }
+    await dbPool.query(
+      `INSERT INTO deferred_messages (patient_id, request, send_at, send_before)
+      VALUES ($1, $2, $3, $4)`,
+      [
+        request.patientId || null,
+        JSON.stringify(request),
+        sendAt,
+        request.sendBefore || null,
+      ],
+    );
   }
 
   /**
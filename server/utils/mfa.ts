@@ -0,0 +1,504 @@
+import crypto from "crypto";
+import QRCode from "qrcode";
+import { dbPool } from "../config/database";
+import { messagingService } from "./messagingService";
+
+// Multi-factor authentication: TOTP (RFC 6238) authenticator apps, SMS
+// one-time codes, single-use recovery codes and remembered devices. TOTP
+// secrets are stored encrypted; codes, recovery codes and device tokens are
+// stored as SHA-256 hashes.
+
+export type MfaMethod = "totp" | "sms";
+export type MfaVerificationMethod = MfaMethod | "recovery_code";
+
+export const TOTP_PERIOD_SECONDS = 30;
+export const TOTP_DIGITS = 6;
+export const SMS_CODE_TTL_SECONDS = 5 * 60;
+export const MAX_FAILED_ATTEMPTS = 5;
+export const LOCKOUT_MINUTES = 15;
+export const RECOVERY_CODE_COUNT = 10;
+export const TRUSTED_DEVICE_DAYS = 30;
+
+const ISSUER = "Telecheck";
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+// Recovery codes avoid characters that are easy to misread
+const RECOVERY_ALPHABET = "abcdefghjkmnpqrstuvwxyz23456789";
+
+// Roles that must enroll before they can sign in
+const DEFAULT_REQUIRED_ROLES =
+  "doctor,nurse,pharmacist,admin,compliance_officer";
+
+export interface MfaStatus {
+  enabled: boolean;
+  method: MfaMethod | null;
+  required: boolean;
+  enrolledAt: string | null;
+  recoveryCodesRemaining: number;
+}
+
+export interface TotpEnrollment {
+  secret: string;
+  otpauthUrl: string;
+  qrCode: string;
+}
+
+const sha256 = (value: string) =>
+  crypto.createHash("sha256").update(value).digest("hex");
+
+const encryptionKey = () =>
+  crypto
+    .createHash("sha256")
+    .update(process.env.MFA_ENCRYPTION_KEY || process.env.JWT_SECRET || "")
+    .digest();
+
+export class MfaService {
+  static isRequiredForRole(role: string): boolean {
+    return (process.env.MFA_REQUIRED_ROLES || DEFAULT_REQUIRED_ROLES)
+      .split(",")
+      .map((r) => r.trim())
+      .includes(role);
+  }
+
+  static base32Encode(buffer: Buffer): string {
+    let bits = 0;
+    let value = 0;
+    let output = "";
+    for (const byte of buffer) {
+      value = (value << 8) | byte;
+      bits += 8;
+      while (bits >= 5) {
+        output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+        bits -= 5;
+      }
+    }
+    if (bits > 0) {
+      output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+    }
+    return output;
+  }
+
+  static base32Decode(input: string): Buffer {
+    const clean = input.toUpperCase().replace(/[\s=-]/g, "");
+    const bytes: number[] = [];
+    let bits = 0;
+    let value = 0;
+    for (const char of clean) {
+      const index = BASE32_ALPHABET.indexOf(char);
+      if (index === -1) {
+        throw new Error(`Invalid base32 character: ${char}`);
+      }
+      value = (value << 5) | index;
+      bits += 5;
+      if (bits >= 8) {
+        bytes.push((value >>> (bits - 8)) & 255);
+        bits -= 8;
+      }
+    }
+    return Buffer.from(bytes);
+  }
+
+  // HOTP (RFC 4226) for the time step containing `timeMs`
+  static generateTotp(
+    secret: string,
+    timeMs = Date.now(),
+    digits = TOTP_DIGITS,
+  ): string {
+    const step = Math.floor(timeMs / 1000 / TOTP_PERIOD_SECONDS);
+    return this.hotp(this.base32Decode(secret), step, digits);
+  }
+
+  /**
+   * Check a code against the current time step and one step either side
+   * for clock drift. Returns the matching step so callers can refuse to
+   * accept the same code twice, or null when nothing matches.
+   */
+  static verifyTotp(
+    secret: string,
+    code: string,
+    timeMs = Date.now(),
+    window = 1,
+  ): number | null {
+    if (code.length !== TOTP_DIGITS || !/^\d+$/.test(code)) return null;
+
+    const key = this.base32Decode(secret);
+    const current = Math.floor(timeMs / 1000 / TOTP_PERIOD_SECONDS);
+    for (let step = current - window; step <= current + window; step++) {
+      const expected = this.hotp(key, step, TOTP_DIGITS);
+      if (crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(code))) {
+        return step;
+      }
+    }
+    return null;
+  }
+
+  static buildOtpAuthUrl(secret: string, accountName: string): string {
+    const label = encodeURIComponent(`${ISSUER}:${accountName}`);
+    const params = new URLSearchParams({
+      secret,
+      issuer: ISSUER,
+      algorithm: "SHA1",
+      digits: String(TOTP_DIGITS),
+      period: String(TOTP_PERIOD_SECONDS),
+    });
+    return `otpauth://totp/${label}?${params}`;
+  }
+
+  static generateRecoveryCode(): string {
+    const bytes = crypto.randomBytes(8);
+    const chars = Array.from(
+      bytes,
+      (byte) => RECOVERY_ALPHABET[byte % RECOVERY_ALPHABET.length],
+    ).join("");
+    return `${chars.slice(0, 4)}-${chars.slice(4)}`;
+  }
+
+  static normalizeRecoveryCode(code: string): string {
+    const clean = code.toLowerCase().replace(/[^a-z0-9]/g, "");
+    return `${clean.slice(0, 4)}-${clean.slice(4)}`;
+  }
+
+  static encryptSecret(secret: string): string {
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv("aes-256-gcm", encryptionKey(), iv);
+    const encrypted = Buffer.concat([
+      cipher.update(secret, "utf8"),
+      cipher.final(),
+    ]);
+    return [iv, cipher.getAuthTag(), encrypted]
+      .map((part) => part.toString("hex"))
+      .join(":");
+  }
+
+  static decryptSecret(stored: string): string {
+    const [iv, tag, encrypted] = stored
+      .split(":")
+      .map((part) => Buffer.from(part, "hex"));
+    const decipher = crypto.createDecipheriv(
+      "aes-256-gcm",
+      encryptionKey(),
+      iv,
+    );
+    decipher.setAuthTag(tag);
+    return Buffer.concat([
+      decipher.update(encrypted),
+      decipher.final(),
+    ]).toString("utf8");
+  }
+
+  static async getStatus(userId: string, role: string): Promise<MfaStatus> {
+    const settings = await this.getSettings(userId);
+    const codes = await this.pool().query(
+      "SELECT COUNT(*) FROM mfa_recovery_codes WHERE user_id = $1 AND used_at IS NULL",
+      [userId],
+    );
+
+    return {
+      enabled: Boolean(settings?.enabled),
+      method: settings?.enabled ? settings.method : null,
+      required: this.isRequiredForRole(role),
+      enrolledAt: settings?.enrolled_at
+        ? new Date(settings.enrolled_at).toISOString()
+        : null,
+      recoveryCodesRemaining: Number(codes.rows[0].count),
+    };
+  }
+
+  // Start (or restart) TOTP enrollment; not active until confirmed
+  static async beginTotpEnrollment(
+    userId: string,
+    accountName: string,
+  ): Promise<TotpEnrollment> {
+    const secret = this.base32Encode(crypto.randomBytes(20));
+    await this.pool().query(
+      `INSERT INTO user_mfa_settings (user_id, pending_totp_secret)
+      VALUES ($1, $2)
+      ON CONFLICT (user_id) DO UPDATE SET
+        pending_totp_secret = EXCLUDED.pending_totp_secret,
+        updated_at = NOW()`,
+      [userId, this.encryptSecret(secret)],
+    );
+
+    const otpauthUrl = this.buildOtpAuthUrl(secret, accountName);
+    return {
+      secret,
+      otpauthUrl,
+      qrCode: await QRCode.toDataURL(otpauthUrl),
+    };
+  }
+
+  // Activate the pending secret once the user proves their app has it
+  static async confirmTotpEnrollment(
+    userId: string,
+    code: string,
+  ): Promise<boolean> {
+    const settings = await this.getSettings(userId);
+    if (!settings?.pending_totp_secret) return false;
+
+    const secret = this.decryptSecret(settings.pending_totp_secret);
+    const step = this.verifyTotp(secret, code);
+    if (step === null) return false;
+
+    await this.pool().query(
+      `UPDATE user_mfa_settings SET
+        method = 'totp', enabled = true, enrolled_at = NOW(),
+        totp_secret = pending_totp_secret, pending_totp_secret = NULL,
+        last_totp_step = $2, failed_attempts = 0, updated_at = NOW()
+      WHERE user_id = $1`,
+      [userId, step],
+    );
+    return true;
+  }
+
+  static async verifyTotpCode(userId: string, code: string): Promise<boolean> {
+    const settings = await this.getSettings(userId);
+    if (!settings?.totp_secret) return false;
+
+    const step = this.verifyTotp(
+      this.decryptSecret(settings.totp_secret),
+      code,
+    );
+    if (step === null) return false;
+
+    // Claiming the step in the same statement that checks it keeps two
+    // concurrent requests from both accepting the code
+    const claimed = await this.pool().query(
+      `UPDATE user_mfa_settings SET last_totp_step = $2
+      WHERE user_id = $1 AND (last_totp_step IS NULL OR last_totp_step < $2)
+      RETURNING user_id`,
+      [userId, step],
+    );
+    return claimed.rows.length > 0;
+  }
+
+  // Text a fresh code to the user's phone, replacing any earlier one
+  static async sendSmsCode(userId: string, phone: string): Promise<boolean> {
+    const code = crypto
+      .randomInt(0, 10 ** TOTP_DIGITS)
+      .toString()
+      .padStart(TOTP_DIGITS, "0");
+
+    await this.pool().query(
+      `INSERT INTO user_mfa_settings (user_id, sms_code_hash, sms_code_expires_at)
+      VALUES ($1, $2, NOW() + make_interval(secs => $3))
+      ON CONFLICT (user_id) DO UPDATE SET
+        sms_code_hash = EXCLUDED.sms_code_hash,
+        sms_code_expires_at = EXCLUDED.sms_code_expires_at,
+        updated_at = NOW()`,
+      [userId, sha256(`${userId}:${code}`), SMS_CODE_TTL_SECONDS],
+    );
+
+    const result = await messagingService.sendMessage({
+      to: phone,
+      message: `Your ${ISSUER} verification code is ${code}. It expires in ${SMS_CODE_TTL_SECONDS / 60} minutes. Do not share it with anyone.`,
+      type: "sms",
+      priority: "high",
+      category: "system",
+      transactional: true,
+    });
+    return result.success;
+  }
+
+  static async verifySmsCode(userId: string, code: string): Promise<boolean> {
+    const result = await this.pool().query(
+      `UPDATE user_mfa_settings
+      SET sms_code_hash = NULL, sms_code_expires_at = NULL
+      WHERE user_id = $1 AND sms_code_hash = $2 AND sms_code_expires_at > NOW()
+      RETURNING user_id`,
+      [userId, sha256(`${userId}:${code}`)],
+    );
+    return result.rows.length > 0;
+  }
+
+  static async enableSms(userId: string): Promise<void> {
+    await this.pool().query(
+      `UPDATE user_mfa_settings SET
+        method = 'sms', enabled = true, enrolled_at = NOW(),
+        totp_secret = NULL, pending_totp_secret = NULL,
+        failed_attempts = 0, updated_at = NOW()
+      WHERE user_id = $1`,
+      [userId],
+    );
+  }
+
+  // Replace all recovery codes; the plain codes are only ever returned here
+  static async generateRecoveryCodes(userId: string): Promise<string[]> {
+    const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () =>
+      this.generateRecoveryCode(),
+    );
+
+    await this.pool().query(
+      "DELETE FROM mfa_recovery_codes WHERE user_id = $1",
+      [userId],
+    );
+    await this.pool().query(
+      `INSERT INTO mfa_recovery_codes (user_id, code_hash)
+      SELECT $1, unnest($2::text[])`,
+      [userId, codes.map((code) => sha256(code))],
+    );
+    return codes;
+  }
+
+  static async consumeRecoveryCode(
+    userId: string,
+    code: string,
+  ): Promise<boolean> {
+    const result = await this.pool().query(
+      `UPDATE mfa_recovery_codes SET used_at = NOW()
+      WHERE user_id = $1 AND code_hash = $2 AND used_at IS NULL
+      RETURNING id`,
+      [userId, sha256(this.normalizeRecoveryCode(code))],
+    );
+    return result.rows.length > 0;
+  }
+
+  static async verify(
+    userId: string,
+    method: MfaVerificationMethod,
+    code: string,
+  ): Promise<boolean> {
+    switch (method) {
+      case "totp":
+        return this.verifyTotpCode(userId, code);
+      case "sms":
+        return this.verifySmsCode(userId, code);
+      case "recovery_code":
+        return this.consumeRecoveryCode(userId, code);
+      default:
+        return false;
+    }
+  }
+
+  // Count a failed code; failures older than the lockout window are
+  // forgotten. Returns the number of recent consecutive failures.
+  static async recordFailedAttempt(userId: string): Promise<number> {
+    const result = await this.pool().query(
+      `INSERT INTO user_mfa_settings (user_id, failed_attempts, last_failed_at)
+      VALUES ($1, 1, NOW())
+      ON CONFLICT (user_id) DO UPDATE SET
+        failed_attempts = CASE
+          WHEN user_mfa_settings.last_failed_at > NOW() - make_interval(mins => $2)
+          THEN user_mfa_settings.failed_attempts + 1
+          ELSE 1
+        END,
+        last_failed_at = NOW()
+      RETURNING failed_attempts`,
+      [userId, LOCKOUT_MINUTES],
+    );
+    return result.rows[0].failed_attempts;
+  }
+
+  static async clearFailedAttempts(userId: string): Promise<void> {
+    await this.pool().query(
+      "UPDATE user_mfa_settings SET failed_attempts = 0 WHERE user_id = $1",
+      [userId],
+    );
+  }
+
+  static async isLockedOut(userId: string): Promise<boolean> {
+    const settings = await this.getSettings(userId);
+    return (
+      Number(settings?.failed_attempts || 0) >= MAX_FAILED_ATTEMPTS &&
+      new Date(settings.last_failed_at).getTime() >
+        Date.now() - LOCKOUT_MINUTES * 60 * 1000
+    );
+  }
+
+  static async disable(userId: string): Promise<void> {
+    await this.pool().query(
+      `UPDATE user_mfa_settings SET
+        enabled = false, method = NULL, totp_secret = NULL,
+        pending_totp_secret = NULL, enrolled_at = NULL, updated_at = NOW()
+      WHERE user_id = $1`,
+      [userId],
+    );
+    await this.pool().query(
+      "DELETE FROM mfa_recovery_codes WHERE user_id = $1",
+      [userId],
+    );
+    await this.pool().query(
+      "DELETE FROM mfa_trusted_devices WHERE user_id = $1",
+      [userId],
+    );
+  }
+
+  // Remember this device so the second factor is skipped until it expires
+  static async trustDevice(userId: string, label?: string): Promise<string> {
+    const token = crypto.randomBytes(32).toString("hex");
+    await this.pool().query(
+      `INSERT INTO mfa_trusted_devices (user_id, token_hash, label, expires_at)
+      VALUES ($1, $2, $3, NOW() + make_interval(days => $4))`,
+      [
+        userId,
+        sha256(token),
+        label?.slice(0, 255) || null,
+        TRUSTED_DEVICE_DAYS,
+      ],
+    );
+    return token;
+  }
+
+  static async isTrustedDevice(
+    userId: string,
+    token: string,
+  ): Promise<boolean> {
+    const result = await this.pool().query(
+      `UPDATE mfa_trusted_devices SET last_used_at = NOW()
+      WHERE user_id = $1 AND token_hash = $2 AND expires_at > NOW()
+      RETURNING id`,
+      [userId, sha256(token)],
+    );
+    return result.rows.length > 0;
+  }
+
+  static async listTrustedDevices(userId: string) {
+    const result = await this.pool().query(
+      `SELECT id, label, created_at, last_used_at, expires_at
+      FROM mfa_trusted_devices
+      WHERE user_id = $1 AND expires_at > NOW()
+      ORDER BY created_at DESC`,
+      [userId],
+    );
+    return result.rows.map((row) => ({
+      id: row.id,
+      label: row.label,
+      createdAt: row.created_at,
+      lastUsedAt: row.last_used_at,
+      expiresAt: row.expires_at,
+    }));
+  }
+
+  static async revokeTrustedDevice(
+    userId: string,
+    deviceId: string,
+  ): Promise<boolean> {
+    const result = await this.pool().query(
+      "DELETE FROM mfa_trusted_devices WHERE id::text = $1 AND user_id = $2 RETURNING id",
+      [deviceId, userId],
+    );
+    return result.rows.length > 0;
+  }
+
+  private static async getSettings(userId: string) {
+    const result = await this.pool().query(
+      "SELECT * FROM user_mfa_settings WHERE user_id = $1",
+      [userId],
+    );
+    return result.rows[0] || null;
+  }
+
+  private static hotp(key: Buffer, counter: number, digits: number): string {
+    const message = Buffer.alloc(8);
+    message.writeBigUInt64BE(BigInt(counter));
+    const hmac = crypto.createHmac("sha1", key).update(message).digest();
+    const offset = hmac[hmac.length - 1] & 0xf;
+    const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+    return (binary % 10 ** digits).toString().padStart(digits, "0");
+  }
+
+  private static pool() {
+    if (!dbPool) {
+      throw new Error("PostgreSQL pool not configured");
+    }
+    return dbPool;
+  }
+}
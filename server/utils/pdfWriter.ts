@@ -0,0 +1,90 @@
+// Minimal PDF writer for plain-text reports (US Letter, Courier). Enough for
+// tabular exports without pulling in a layout library; anything outside
+// printable ASCII is replaced with "?".
+
+const PAGE_WIDTH = 612;
+const PAGE_HEIGHT = 792;
+const MARGIN = 36;
+const FONT_SIZE = 8;
+const LINE_HEIGHT = 11;
+
+// Courier glyphs are 0.6em wide
+export const PDF_LINE_WIDTH = Math.floor(
+  (PAGE_WIDTH - 2 * MARGIN) / (FONT_SIZE * 0.6),
+);
+const LINES_PER_PAGE = Math.floor((PAGE_HEIGHT - 2 * MARGIN) / LINE_HEIGHT);
+
+const escapeText = (text: string): string =>
+  text
+    .replace(/[^\x20-\x7e]/g, "?")
+    .replace(/\\/g, "\\\\")
+    .replace(/\(/g, "\\(")
+    .replace(/\)/g, "\\)");
+
+const pageContent = (lines: string[], pageNumber: number, pages: number) => {
+  const body = lines
+    .map((line) => `(${escapeText(line.slice(0, PDF_LINE_WIDTH))}) Tj T*`)
+    .join("\n");
+  const footer = `Page ${pageNumber} of ${pages}`;
+
+  return [
+    "BT",
+    `/F1 ${FONT_SIZE} Tf`,
+    `${LINE_HEIGHT} TL`,
+    `${MARGIN} ${PAGE_HEIGHT - MARGIN - FONT_SIZE} Td`,
+    body,
+    "ET",
+    "BT",
+    `/F1 ${FONT_SIZE} Tf`,
+    `${PAGE_WIDTH - MARGIN - footer.length * FONT_SIZE * 0.6} ${MARGIN / 2} Td`,
+    `(${footer}) Tj`,
+    "ET",
+  ].join("\n");
+};
+
+/**
+ * Render lines of text as a PDF document, one line per row, paginating as
+ * needed. Lines longer than PDF_LINE_WIDTH characters are cut off.
+ */
+export const renderTextPdf = (lines: string[]): Buffer => {
+  const pages: string[][] = [];
+  for (let i = 0; i < Math.max(lines.length, 1); i += LINES_PER_PAGE) {
+    pages.push(lines.slice(i, i + LINES_PER_PAGE));
+  }
+
+  // Objects 1-3 are the catalog, page tree and font; each page then takes
+  // a page object and a content stream
+  const pageObjectId = (index: number) => 4 + index * 2;
+  const objects: string[] = [
+    "<< /Type /Catalog /Pages 2 0 R >>",
+    `<< /Type /Pages /Kids [${pages
+      .map((_, index) => `${pageObjectId(index)} 0 R`)
+      .join(" ")}] /Count ${pages.length} >>`,
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Courier /Encoding /WinAnsiEncoding >>",
+  ];
+
+  pages.forEach((pageLines, index) => {
+    const content = pageContent(pageLines, index + 1, pages.length);
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+        `/Resources << /Font << /F1 3 0 R >> >> /Contents ${pageObjectId(index) + 1} 0 R >>`,
+      `<< /Length ${Buffer.byteLength(content, "latin1")} >>\nstream\n${content}\nendstream`,
+    );
+  });
+
+  let pdf = "%PDF-1.4\n";
+  const offsets = objects.map((object, index) => {
+    const offset = Buffer.byteLength(pdf, "latin1");
+    pdf += `${index + 1} 0 obj\n${object}\nendobj\n`;
+    return offset;
+  });
+
+  const xrefOffset = Buffer.byteLength(pdf, "latin1");
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets
+    .map((offset) => `${String(offset).padStart(10, "0")} 00000 n \n`)
+    .join("");
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Buffer.from(pdf, "latin1");
+};
@@ -0,0 +1,61 @@
+import { dbPool } from "../config/database";
+
+// "+" and the digits, so the same phone matches whatever a provider sends
+export const normalizePhone = (phone: string): string => {
+  const digits = String(phone || "").replace(/\D/g, "");
+  return digits ? `+${digits}` : "";
+};
+
+// Numbers are matched on their last nine digits, which a record saved in
+// local format ("024 412 3456") shares with the international form a
+// provider sends ("+233 24 412 3456")
+const MATCH_DIGITS = 9;
+
+export interface PhoneMatch {
+  id: string;
+  firstName: string;
+  lastName: string;
+  phone: string;
+}
+
+export class PhoneDirectory {
+  // The sender's last digits, or null when too short to identify anyone
+  static matchKey(phone: string): string | null {
+    const digits = String(phone || "").replace(/\D/g, "");
+    return digits.length >= MATCH_DIGITS ? digits.slice(-MATCH_DIGITS) : null;
+  }
+
+  /**
+   * The patient with this phone number. Null when no patient has it, and
+   * also when several do (a shared family phone), since a message from it
+   * cannot be put on either record.
+   */
+  static async findPatient(phone: string): Promise<PhoneMatch | null> {
+    const key = this.matchKey(phone);
+    if (!key) return null;
+
+    const result = await this.pool().query(
+      `SELECT id, first_name, last_name, phone FROM users
+      WHERE role = 'patient' AND phone IS NOT NULL
+        AND right(regexp_replace(phone, '\\D', '', 'g'), ${MATCH_DIGITS}) = $1
+      LIMIT 2`,
+      [key],
+    );
+    if (result.rows.length !== 1) return null;
+
+    const row = result.rows[0];
+    return {
+      id: row.id,
+      firstName: row.first_name,
+      lastName: row.last_name,
+      phone: row.phone,
+    };
+  }
+
+  private static pool() {
+    if (!dbPool) {
+      throw new Error("PostgreSQL pool not configured");
+    }
+    return dbPool;
+  }
+}
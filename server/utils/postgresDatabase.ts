@@ -132,20 +132,75 @@ class PostgreSQLDatabase {
       )
     `);
 
-    // Audit logs for HIPAA compliance
+    // Role drives authorization (see AccessControl)
+    await this.query(
+      "ALTER TABLE users ADD COLUMN IF NOT EXISTS role VARCHAR(20) NOT NULL DEFAULT 'patient'",
+    );
+    await this.query(
+      "ALTER TABLE users ADD COLUMN IF NOT EXISTS specialty VARCHAR(100)",
+    );
+    // UserPreferences; language picks the translation of messages sent
+    await this.query(
+      "ALTER TABLE users ADD COLUMN IF NOT EXISTS preferences JSONB NOT NULL DEFAULT '{}'",
+    );
+
+    // Audit logs for HIPAA compliance. Rows form a hash chain (see
+    // AuditLogger), so they are never cascaded away with their user.
     await this.query(`
       CREATE TABLE IF NOT EXISTS audit_logs (
         id SERIAL PRIMARY KEY,
         user_id UUID,
+        actor_id VARCHAR(100),
+        subject_id UUID,
+        category VARCHAR(50),
         action VARCHAR(100) NOT NULL,
         description TEXT,
         details JSONB,
+        resource_type VARCHAR(50),
+        resource_id VARCHAR(100),
         timestamp TIMESTAMPTZ DEFAULT NOW(),
         ip_address INET,
         user_agent TEXT,
-        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+        session_id VARCHAR(100),
+        request_id VARCHAR(100),
+        prev_hash VARCHAR(128),
+        hash VARCHAR(128)
       )
     `);
+    await this.query(
+      "ALTER TABLE audit_logs DROP CONSTRAINT IF EXISTS audit_logs_user_id_fkey",
+    );
+    for (const column of [
+      "actor_id VARCHAR(100)",
+      "subject_id UUID",
+      "category VARCHAR(50)",
+      "resource_type VARCHAR(50)",
+      "resource_id VARCHAR(100)",
+      "session_id VARCHAR(100)",
+      "request_id VARCHAR(100)",
+      "prev_hash VARCHAR(128)",
+      "hash VARCHAR(128)",
+    ]) {
+      await this.query(
+        `ALTER TABLE audit_logs ADD COLUMN IF NOT EXISTS ${column}`,
+      );
+    }
+    // Where the hash chain starts: every row from first_id on must be
+    // chained, and the first of them is the genesis row. Recorded once, at
+    // the first chained row or the next row to be written.
+    await this.query(`
+      CREATE TABLE IF NOT EXISTS audit_chain_epoch (
+        id SMALLINT PRIMARY KEY DEFAULT 1 CHECK (id = 1),
+        first_id INTEGER NOT NULL,
+        recorded_at TIMESTAMPTZ DEFAULT NOW()
+      )
+    `);
+    await this.query(`
+      INSERT INTO audit_chain_epoch (first_id)
+      SELECT COALESCE(MIN(id) FILTER (WHERE hash IS NOT NULL), MAX(id) + 1, 1)
+      FROM audit_logs
+      ON CONFLICT (id) DO NOTHING
+    `);
 
     // Lab results table
     await this.query(`
@@ -153,6 +208,7 @@ class PostgreSQLDatabase {
         id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
         user_id UUID NOT NULL,
         test_name VARCHAR(200) NOT NULL,
+        loinc_code VARCHAR(20),
         value DECIMAL(10,3) NOT NULL,
         unit VARCHAR(20) NOT NULL,
         reference_range VARCHAR(50),
@@ -182,6 +238,23 @@ class PostgreSQLDatabase {
       )
     `);
 
+    // Doses patients report taking, e.g. by texting TAKEN
+    await this.query(`
+      CREATE TABLE IF NOT EXISTS medication_adherence (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        patient_id UUID NOT NULL,
+        medication_id UUID,
+        medication_name VARCHAR(200),
+        status VARCHAR(20) NOT NULL CHECK (status IN ('taken')),
+        source VARCHAR(50) DEFAULT 'sms',
+        reported_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        message_id VARCHAR(100),
+        created_at TIMESTAMPTZ DEFAULT NOW(),
+        FOREIGN KEY (patient_id) REFERENCES users(id) ON DELETE CASCADE,
+        FOREIGN KEY (medication_id) REFERENCES medications(id) ON DELETE SET NULL
+      )
+    `);
+
     // Vital signs table
     await this.query(`
       CREATE TABLE IF NOT EXISTS vital_signs (
@@ -198,6 +271,343 @@ class PostgreSQLDatabase {
       )
     `);
 
+    // Conditions (problem list) table
+    await this.query(`
+      CREATE TABLE IF NOT EXISTS conditions (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        user_id UUID NOT NULL,
+        code VARCHAR(50),
+        code_system VARCHAR(200),
+        display VARCHAR(255) NOT NULL,
+        clinical_status VARCHAR(20) DEFAULT 'active',
+        verification_status VARCHAR(20),
+        onset_date DATE,
+        abatement_date DATE,
+        notes TEXT,
+        source VARCHAR(50) DEFAULT 'manual',
+        created_at TIMESTAMPTZ DEFAULT NOW(),
+        updated_at TIMESTAMPTZ DEFAULT NOW(),
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+      )
+    `);
+
+    // Care team: which users may act on a patient's record, and as what
+    await this.query(`
+      CREATE TABLE IF NOT EXISTS care_team_assignments (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        patient_id UUID NOT NULL,
+        member_id UUID NOT NULL,
+        relationship VARCHAR(50) NOT NULL,
+        active BOOLEAN DEFAULT true,
+        starts_at TIMESTAMPTZ DEFAULT NOW(),
+        ends_at TIMESTAMPTZ,
+        created_by UUID,
+        created_at TIMESTAMPTZ DEFAULT NOW(),
+        updated_at TIMESTAMPTZ DEFAULT NOW(),
+        FOREIGN KEY (patient_id) REFERENCES users(id) ON DELETE CASCADE,
+        FOREIGN KEY (member_id) REFERENCES users(id) ON DELETE CASCADE,
+        UNIQUE (patient_id, member_id, relationship)
+      )
+    `);
+
+    // Break-the-glass grants: time-boxed emergency access to one patient
+    await this.query(`
+      CREATE TABLE IF NOT EXISTS emergency_access_grants (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        clinician_id UUID NOT NULL,
+        patient_id UUID NOT NULL,
+        reason TEXT NOT NULL,
+        expires_at TIMESTAMPTZ NOT NULL,
+        revoked_at TIMESTAMPTZ,
+        reviewed_at TIMESTAMPTZ,
+        reviewed_by UUID,
+        review_outcome VARCHAR(20) CHECK (review_outcome IN ('appropriate', 'inappropriate')),
+        review_notes TEXT,
+        created_at TIMESTAMPTZ DEFAULT NOW(),
+        FOREIGN KEY (clinician_id) REFERENCES users(id) ON DELETE RESTRICT,
+        FOREIGN KEY (patient_id) REFERENCES users(id) ON DELETE RESTRICT
+      )
+    `);
+    // Grants are compliance evidence, so deleting either user must not
+    // take them along (tables created before this cascaded)
+    for (const column of ["clinician_id", "patient_id"]) {
+      await this.query(
+        `ALTER TABLE emergency_access_grants
+          DROP CONSTRAINT IF EXISTS emergency_access_grants_${column}_fkey,
+          ADD CONSTRAINT emergency_access_grants_${column}_fkey
+            FOREIGN KEY (${column}) REFERENCES users(id) ON DELETE RESTRICT`,
+      );
+    }
+
+    // Login sessions; refresh tokens rotate (see SessionService)
+    await this.query(`
+      CREATE TABLE IF NOT EXISTS user_sessions (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        refresh_token_hash VARCHAR(64) NOT NULL,
+        user_agent TEXT,
+        ip_address VARCHAR(45),
+        created_at TIMESTAMPTZ DEFAULT NOW(),
+        last_active_at TIMESTAMPTZ DEFAULT NOW(),
+        expires_at TIMESTAMPTZ NOT NULL,
+        revoked_at TIMESTAMPTZ,
+        revoked_reason VARCHAR(30)
+      )
+    `);
+
+    // Multi-factor authentication (see MfaService)
+    await this.query(`
+      CREATE TABLE IF NOT EXISTS user_mfa_settings (
+        user_id UUID PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+        method VARCHAR(10) CHECK (method IN ('totp', 'sms')),
+        enabled BOOLEAN DEFAULT false,
+        totp_secret TEXT,
+        pending_totp_secret TEXT,
+        last_totp_step BIGINT,
+        sms_code_hash VARCHAR(64),
+        sms_code_expires_at TIMESTAMPTZ,
+        failed_attempts INTEGER DEFAULT 0,
+        last_failed_at TIMESTAMPTZ,
+        enrolled_at TIMESTAMPTZ,
+        created_at TIMESTAMPTZ DEFAULT NOW(),
+        updated_at TIMESTAMPTZ DEFAULT NOW()
+      )
+    `);
+
+    await this.query(`
+      CREATE TABLE IF NOT EXISTS mfa_recovery_codes (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        code_hash VARCHAR(64) NOT NULL,
+        used_at TIMESTAMPTZ,
+        created_at TIMESTAMPTZ DEFAULT NOW()
+      )
+    `);
+
+    await this.query(`
+      CREATE TABLE IF NOT EXISTS mfa_trusted_devices (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        token_hash VARCHAR(64) UNIQUE NOT NULL,
+        label VARCHAR(255),
+        expires_at TIMESTAMPTZ NOT NULL,
+        last_used_at TIMESTAMPTZ,
+        created_at TIMESTAMPTZ DEFAULT NOW()
+      )
+    `);
+
+    // Appointments, also created by init.sql. Types come from
+    // appointment_types; buffers are copied from the type at booking.
+    await this.query(`
+      CREATE TABLE IF NOT EXISTS appointments (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        patient_id UUID REFERENCES users(id) ON DELETE CASCADE,
+        provider_id UUID REFERENCES users(id) ON DELETE CASCADE,
+        date_time TIMESTAMPTZ NOT NULL,
+        duration INTEGER NOT NULL DEFAULT 30,
+        type VARCHAR(30) NOT NULL,
+        status VARCHAR(20) DEFAULT 'scheduled',
+        notes TEXT,
+        video_url VARCHAR(500),
+        created_at TIMESTAMPTZ DEFAULT NOW(),
+        updated_at TIMESTAMPTZ DEFAULT NOW()
+      )
+    `);
+    for (const statement of [
+      "ALTER TABLE appointments DROP CONSTRAINT IF EXISTS appointments_type_check",
+      "ALTER TABLE appointments ALTER COLUMN type TYPE VARCHAR(30)",
+      "ALTER TABLE appointments ADD COLUMN IF NOT EXISTS buffer_before INTEGER NOT NULL DEFAULT 0",
+      "ALTER TABLE appointments ADD COLUMN IF NOT EXISTS buffer_after INTEGER NOT NULL DEFAULT 0",
+      "ALTER TABLE appointments ADD COLUMN IF NOT EXISTS created_by UUID",
+      "ALTER TABLE appointments ADD COLUMN IF NOT EXISTS status_reason TEXT",
+      "ALTER TABLE appointments ADD COLUMN IF NOT EXISTS reschedule_count INTEGER NOT NULL DEFAULT 0",
+      "ALTER TABLE appointments ADD COLUMN IF NOT EXISTS sequence INTEGER NOT NULL DEFAULT 0",
+      "ALTER TABLE appointments DROP CONSTRAINT IF EXISTS appointments_status_check",
+      `ALTER TABLE appointments ADD CONSTRAINT appointments_status_check
+        CHECK (status IN ('scheduled', 'confirmed', 'checked_in', 'in_progress', 'completed', 'cancelled', 'no_show'))`,
+    ]) {
+      await this.query(statement);
+    }
+
+    // Every status change and reschedule, with who made it and why
+    await this.query(`
+      CREATE TABLE IF NOT EXISTS appointment_status_history (
+        id BIGSERIAL PRIMARY KEY,
+        appointment_id UUID NOT NULL REFERENCES appointments(id) ON DELETE CASCADE,
+        from_status VARCHAR(20),
+        to_status VARCHAR(20) NOT NULL,
+        reason TEXT,
+        changed_by UUID,
+        previous_date_time TIMESTAMPTZ,
+        changed_at TIMESTAMPTZ DEFAULT NOW()
+      )
+    `);
+
+    // Patients waiting for an earlier slot, and the slots offered to them
+    await this.query(`
+      CREATE TABLE IF NOT EXISTS appointment_waitlist (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        patient_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        provider_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        appointment_type VARCHAR(30) NOT NULL,
+        earliest_start TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        latest_start TIMESTAMPTZ,
+        notes TEXT,
+        status VARCHAR(20) NOT NULL DEFAULT 'waiting' CHECK (status IN ('waiting', 'booked', 'cancelled')),
+        appointment_id UUID REFERENCES appointments(id) ON DELETE SET NULL,
+        created_by UUID,
+        created_at TIMESTAMPTZ DEFAULT NOW()
+      )
+    `);
+    await this.query(`
+      CREATE TABLE IF NOT EXISTS waitlist_offers (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        entry_id UUID NOT NULL REFERENCES appointment_waitlist(id) ON DELETE CASCADE,
+        starts_at TIMESTAMPTZ NOT NULL,
+        duration INTEGER NOT NULL,
+        status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'accepted', 'taken', 'expired')),
+        expires_at TIMESTAMPTZ NOT NULL,
+        created_at TIMESTAMPTZ DEFAULT NOW()
+      )
+    `);
+
+    await this.query(`
+      CREATE TABLE IF NOT EXISTS appointment_types (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        code VARCHAR(30) UNIQUE NOT NULL,
+        name VARCHAR(100) NOT NULL,
+        duration_minutes INTEGER NOT NULL CHECK (duration_minutes BETWEEN 15 AND 480),
+        buffer_before_minutes INTEGER NOT NULL DEFAULT 0 CHECK (buffer_before_minutes >= 0),
+        buffer_after_minutes INTEGER NOT NULL DEFAULT 0 CHECK (buffer_after_minutes >= 0),
+        active BOOLEAN DEFAULT true,
+        created_at TIMESTAMPTZ DEFAULT NOW(),
+        updated_at TIMESTAMPTZ DEFAULT NOW()
+      )
+    `);
+    await this.query(`
+      INSERT INTO appointment_types (code, name, duration_minutes, buffer_after_minutes)
+      VALUES
+        ('consultation', 'Consultation', 30, 5),
+        ('follow-up', 'Follow-up', 15, 5),
+        ('emergency', 'Emergency', 30, 0)
+      ON CONFLICT (code) DO NOTHING
+    `);
+
+    // Weekly working hours; times are wall clock in time_zone
+    await this.query(`
+      CREATE TABLE IF NOT EXISTS provider_availability (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        provider_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        day_of_week SMALLINT NOT NULL CHECK (day_of_week BETWEEN 0 AND 6),
+        start_time TIME NOT NULL,
+        end_time TIME NOT NULL,
+        time_zone VARCHAR(64) NOT NULL DEFAULT 'UTC',
+        effective_from DATE,
+        effective_until DATE,
+        created_at TIMESTAMPTZ DEFAULT NOW(),
+        CHECK (end_time > start_time)
+      )
+    `);
+
+    await this.query(`
+      CREATE TABLE IF NOT EXISTS provider_blocked_time (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        provider_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        starts_at TIMESTAMPTZ NOT NULL,
+        ends_at TIMESTAMPTZ NOT NULL,
+        reason TEXT,
+        created_by UUID,
+        created_at TIMESTAMPTZ DEFAULT NOW(),
+        CHECK (ends_at > starts_at)
+      )
+    `);
+
+    // Telehealth visits: waiting room, admission and who was connected when
+    await this.query(`
+      CREATE TABLE IF NOT EXISTS visit_sessions (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        appointment_id UUID UNIQUE NOT NULL REFERENCES appointments(id) ON DELETE CASCADE,
+        patient_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        provider_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        status VARCHAR(20) NOT NULL DEFAULT 'waiting' CHECK (status IN ('waiting', 'in_progress', 'ended')),
+        checked_in_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        admitted_at TIMESTAMPTZ,
+        ended_at TIMESTAMPTZ,
+        ended_by UUID,
+        summary TEXT,
+        details JSONB,
+        billable_seconds INTEGER
+      )
+    `);
+    await this.query(`
+      CREATE TABLE IF NOT EXISTS visit_events (
+        id BIGSERIAL PRIMARY KEY,
+        session_id UUID NOT NULL REFERENCES visit_sessions(id) ON DELETE CASCADE,
+        user_id UUID NOT NULL,
+        role VARCHAR(30),
+        event VARCHAR(20) NOT NULL,
+        created_at TIMESTAMPTZ DEFAULT NOW()
+      )
+    `);
+    await this.query(
+      "ALTER TABLE visit_events ADD COLUMN IF NOT EXISTS role VARCHAR(30)",
+    );
+
+    // Calendar subscription feeds; only a hash of the URL token is kept
+    await this.query(`
+      CREATE TABLE IF NOT EXISTS calendar_feeds (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        owner_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        subject_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        scope VARCHAR(20) NOT NULL CHECK (scope IN ('provider', 'patient')),
+        token_hash VARCHAR(64) UNIQUE NOT NULL,
+        created_at TIMESTAMPTZ DEFAULT NOW(),
+        last_accessed_at TIMESTAMPTZ,
+        revoked_at TIMESTAMPTZ
+      )
+    `);
+
+    // Triage protocol versions; only one version of a protocol is active
+    await this.query(`
+      CREATE TABLE IF NOT EXISTS triage_protocols (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        code VARCHAR(50) NOT NULL,
+        version INTEGER NOT NULL,
+        name VARCHAR(200) NOT NULL,
+        status VARCHAR(20) NOT NULL DEFAULT 'draft'
+          CHECK (status IN ('draft', 'active', 'retired')),
+        definition JSONB NOT NULL,
+        created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+        created_at TIMESTAMPTZ DEFAULT NOW(),
+        published_by UUID REFERENCES users(id) ON DELETE SET NULL,
+        published_at TIMESTAMPTZ,
+        UNIQUE (code, version)
+      )
+    `);
+
+    // Triage decisions with the protocol version that produced them
+    await this.query(`
+      CREATE TABLE IF NOT EXISTS triage_decisions (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        patient_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        protocol_id UUID NOT NULL REFERENCES triage_protocols(id),
+        protocol_code VARCHAR(50) NOT NULL,
+        protocol_version INTEGER NOT NULL,
+        source VARCHAR(30) NOT NULL,
+        input JSONB NOT NULL,
+        disposition VARCHAR(20) NOT NULL,
+        rationale JSONB NOT NULL,
+        decided_by UUID REFERENCES users(id) ON DELETE SET NULL,
+        created_at TIMESTAMPTZ DEFAULT NOW()
+      )
+    `);
+
+    // Identifiers other systems gave an imported patient, as FHIR
+    // { system, value } pairs; only our own MRN goes in patients.mrn
+    await this.query(
+      "ALTER TABLE IF EXISTS patients ADD COLUMN IF NOT EXISTS external_identifiers JSONB NOT NULL DEFAULT '[]'",
+    );
+
     // Chat messages table
     await this.query(`
       CREATE TABLE IF NOT EXISTS chat_messages (
@@ -237,15 +647,85 @@ class PostgreSQLDatabase {
     await this.query(
       "CREATE INDEX IF NOT EXISTS idx_audit_logs_user_id ON audit_logs(user_id)",
     );
+    await this.query(
+      "CREATE INDEX IF NOT EXISTS idx_audit_logs_actor_timestamp ON audit_logs(actor_id, timestamp)",
+    );
+    await this.query(
+      "CREATE INDEX IF NOT EXISTS idx_audit_logs_subject_timestamp ON audit_logs(subject_id, timestamp)",
+    );
     await this.query(
       "CREATE INDEX IF NOT EXISTS idx_lab_results_user_id ON lab_results(user_id)",
     );
+    // loinc_code was added after the initial schema
+    await this.query(
+      "ALTER TABLE lab_results ADD COLUMN IF NOT EXISTS loinc_code VARCHAR(20)",
+    );
     await this.query(
       "CREATE INDEX IF NOT EXISTS idx_medications_user_id ON medications(user_id)",
     );
+    await this.query(
+      "CREATE INDEX IF NOT EXISTS idx_medication_adherence_patient ON medication_adherence(patient_id, reported_at)",
+    );
     await this.query(
       "CREATE INDEX IF NOT EXISTS idx_vital_signs_user_id ON vital_signs(user_id)",
     );
+    await this.query(
+      "CREATE INDEX IF NOT EXISTS idx_conditions_user_id ON conditions(user_id)",
+    );
+    await this.query(
+      "CREATE INDEX IF NOT EXISTS idx_care_team_assignments_member ON care_team_assignments(member_id, patient_id)",
+    );
+    await this.query(
+      "CREATE INDEX IF NOT EXISTS idx_emergency_access_grants_clinician ON emergency_access_grants(clinician_id, patient_id, expires_at)",
+    );
+    await this.query(
+      "CREATE INDEX IF NOT EXISTS idx_emergency_access_grants_review ON emergency_access_grants(reviewed_at, created_at)",
+    );
+    await this.query(
+      "CREATE INDEX IF NOT EXISTS idx_user_sessions_user ON user_sessions(user_id, revoked_at)",
+    );
+    await this.query(
+      "CREATE INDEX IF NOT EXISTS idx_mfa_recovery_codes_user ON mfa_recovery_codes(user_id)",
+    );
+    await this.query(
+      "CREATE INDEX IF NOT EXISTS idx_mfa_trusted_devices_user ON mfa_trusted_devices(user_id)",
+    );
+    await this.query(
+      "CREATE INDEX IF NOT EXISTS idx_appointments_provider_time ON appointments(provider_id, date_time)",
+    );
+    await this.query(
+      "CREATE INDEX IF NOT EXISTS idx_appointments_patient_time ON appointments(patient_id, date_time)",
+    );
+    await this.query(
+      "CREATE INDEX IF NOT EXISTS idx_appointment_status_history_appointment ON appointment_status_history(appointment_id)",
+    );
+    await this.query(
+      "CREATE INDEX IF NOT EXISTS idx_appointment_waitlist_provider ON appointment_waitlist(provider_id, status, created_at)",
+    );
+    await this.query(
+      "CREATE INDEX IF NOT EXISTS idx_waitlist_offers_entry ON waitlist_offers(entry_id, status)",
+    );
+    await this.query(
+      "CREATE INDEX IF NOT EXISTS idx_provider_availability_provider ON provider_availability(provider_id)",
+    );
+    await this.query(
+      "CREATE INDEX IF NOT EXISTS idx_provider_blocked_time_provider ON provider_blocked_time(provider_id, starts_at)",
+    );
+    await this.query(
+      "CREATE INDEX IF NOT EXISTS idx_visit_sessions_provider ON visit_sessions(provider_id, status)",
+    );
+    await this.query(
+      "CREATE INDEX IF NOT EXISTS idx_visit_events_session ON visit_events(session_id)",
+    );
+    await this.query(
+      "CREATE INDEX IF NOT EXISTS idx_calendar_feeds_owner ON calendar_feeds(owner_id)",
+    );
+    await this.query(
+      "CREATE UNIQUE INDEX IF NOT EXISTS idx_triage_protocols_active ON triage_protocols(code) WHERE status = 'active'",
+    );
+    await this.query(
+      "CREATE INDEX IF NOT EXISTS idx_triage_decisions_patient ON triage_decisions(patient_id, created_at)",
+    );
     await this.query(
       "CREATE INDEX IF NOT EXISTS idx_chat_messages_user_id ON chat_messages(user_id)",
     );
@@ -319,6 +799,21 @@ class PostgreSQLDatabase {
       )
     `);
 
+    // Translations of the template catalog (MessageTemplates), and admin
+    // edits to its English text
+    await this.query(`
+      CREATE TABLE IF NOT EXISTS message_template_translations (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        template_id VARCHAR(100) NOT NULL,
+        channel VARCHAR(10) NOT NULL CHECK (channel IN ('sms', 'voice', 'email')),
+        locale VARCHAR(10) NOT NULL,
+        content TEXT NOT NULL,
+        updated_by UUID REFERENCES users(id) ON DELETE SET NULL,
+        updated_at TIMESTAMPTZ DEFAULT NOW(),
+        UNIQUE (template_id, channel, locale)
+      )
+    `);
+
     // Care team members
     await this.query(`
       CREATE TABLE IF NOT EXISTS care_team_members (
@@ -356,6 +851,224 @@ class PostgreSQLDatabase {
         FOREIGN KEY (patient_id) REFERENCES users(id) ON DELETE SET NULL
       )
     `);
+
+    // Text conversations with patients, one per patient; the messages are
+    // the patient's communication_logs rows carrying the thread id
+    await this.query(`
+      CREATE TABLE IF NOT EXISTS sms_threads (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        patient_id UUID NOT NULL UNIQUE,
+        phone VARCHAR(30) NOT NULL,
+        status VARCHAR(20) NOT NULL DEFAULT 'open'
+          CHECK (status IN ('open', 'closed')),
+        assigned_to UUID,
+        unread_count INTEGER NOT NULL DEFAULT 0,
+        awaiting_reply_since TIMESTAMPTZ,
+        last_message_at TIMESTAMPTZ,
+        created_at TIMESTAMPTZ DEFAULT NOW(),
+        updated_at TIMESTAMPTZ DEFAULT NOW(),
+        FOREIGN KEY (patient_id) REFERENCES users(id) ON DELETE CASCADE,
+        FOREIGN KEY (assigned_to) REFERENCES users(id) ON DELETE SET NULL
+      )
+    `);
+    // Threading and direction were added after the initial schema
+    await this.query(
+      "ALTER TABLE communication_logs ADD COLUMN IF NOT EXISTS thread_id UUID REFERENCES sms_threads(id) ON DELETE SET NULL",
+    );
+    await this.query(
+      "ALTER TABLE communication_logs ADD COLUMN IF NOT EXISTS direction VARCHAR(10)",
+    );
+    await this.query(
+      "ALTER TABLE communication_logs ADD COLUMN IF NOT EXISTS sent_by UUID REFERENCES users(id) ON DELETE SET NULL",
+    );
+    await this.query(
+      "CREATE INDEX IF NOT EXISTS idx_communication_logs_thread ON communication_logs(thread_id, timestamp)",
+    );
+    await this.query(
+      "CREATE INDEX IF NOT EXISTS idx_sms_threads_inbox ON sms_threads(status, awaiting_reply_since)",
+    );
+
+    // Replies staff pick from when answering a patient's text
+    await this.query(`
+      CREATE TABLE IF NOT EXISTS sms_canned_replies (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        title VARCHAR(100) NOT NULL,
+        body TEXT NOT NULL,
+        category VARCHAR(50),
+        active BOOLEAN NOT NULL DEFAULT true,
+        created_by UUID,
+        created_at TIMESTAMPTZ DEFAULT NOW(),
+        updated_at TIMESTAMPTZ DEFAULT NOW(),
+        FOREIGN KEY (created_by) REFERENCES users(id) ON DELETE SET NULL
+      )
+    `);
+
+    // Numbers that texted STOP, keyed on the full number; match_key holds
+    // the last digits PhoneDirectory matches on, for numbers saved in
+    // local format. The row goes when the number texts START
+    await this.query(`
+      CREATE TABLE IF NOT EXISTS sms_opt_outs (
+        phone_key VARCHAR(20) PRIMARY KEY,
+        phone VARCHAR(30) NOT NULL,
+        match_key VARCHAR(20),
+        patient_id UUID REFERENCES users(id) ON DELETE SET NULL,
+        keyword VARCHAR(20) NOT NULL,
+        opted_out_at TIMESTAMPTZ DEFAULT NOW()
+      )
+    `);
+    await this.query(
+      "ALTER TABLE sms_opt_outs ADD COLUMN IF NOT EXISTS match_key VARCHAR(20)",
+    );
+    // Rows from before were keyed on the last digits alone
+    await this.query(`
+      UPDATE sms_opt_outs SET match_key = phone_key, phone_key = phone
+      WHERE phone_key NOT LIKE '+%'
+    `);
+    await this.query(
+      "CREATE INDEX IF NOT EXISTS idx_sms_opt_outs_match_key ON sms_opt_outs (match_key)",
+    );
+
+    // A patient's consent per channel × category; categories without a
+    // row take the default in communicationConsent.ts
+    await this.query(`
+      CREATE TABLE IF NOT EXISTS communication_consents (
+        patient_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        channel VARCHAR(10) NOT NULL
+          CHECK (channel IN ('sms', 'voice', 'email')),
+        category VARCHAR(20) NOT NULL
+          CHECK (category IN ('reminders', 'marketing', 'alerts')),
+        granted BOOLEAN NOT NULL,
+        updated_by UUID REFERENCES users(id) ON DELETE SET NULL,
+        updated_at TIMESTAMPTZ DEFAULT NOW(),
+        PRIMARY KEY (patient_id, channel, category)
+      )
+    `);
+
+    // When a patient does not want to be contacted, in their own time zone
+    await this.query(`
+      CREATE TABLE IF NOT EXISTS communication_preferences (
+        patient_id UUID PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+        quiet_start VARCHAR(5),
+        quiet_end VARCHAR(5),
+        timezone VARCHAR(50) NOT NULL,
+        updated_by UUID REFERENCES users(id) ON DELETE SET NULL,
+        updated_at TIMESTAMPTZ DEFAULT NOW()
+      )
+    `);
+
+    // Outbound messages the consent check stopped, deferred or moved to
+    // another channel, and why
+    await this.query(`
+      CREATE TABLE IF NOT EXISTS message_consent_decisions (
+        id SERIAL PRIMARY KEY,
+        patient_id UUID REFERENCES users(id) ON DELETE SET NULL,
+        recipient VARCHAR(100) NOT NULL,
+        category VARCHAR(20) NOT NULL,
+        priority VARCHAR(10) NOT NULL,
+        template VARCHAR(100),
+        action VARCHAR(20) NOT NULL
+          CHECK (action IN ('blocked', 'downgraded', 'deferred')),
+        reason VARCHAR(30) NOT NULL,
+        requested_channel VARCHAR(10) NOT NULL,
+        sent_channel VARCHAR(10),
+        deferred_until TIMESTAMPTZ,
+        created_at TIMESTAMPTZ DEFAULT NOW()
+      )
+    `);
+    await this.query(
+      "CREATE INDEX IF NOT EXISTS idx_message_consent_decisions_patient ON message_consent_decisions(patient_id, created_at)",
+    );
+
+    // Messages deferred for the recipient's quiet hours, sent by
+    // MessagingService once send_at has passed. A message still waiting at
+    // send_before (a waitlist offer for a slot that has started) expires.
+    await this.query(`
+      CREATE TABLE IF NOT EXISTS deferred_messages (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        patient_id UUID REFERENCES users(id) ON DELETE CASCADE,
+        request JSONB NOT NULL,
+        send_at TIMESTAMPTZ NOT NULL,
+        send_before TIMESTAMPTZ,
+        status VARCHAR(20) NOT NULL DEFAULT 'pending'
+          CHECK (status IN ('pending', 'sending', 'sent', 'failed', 'expired')),
+        error TEXT,
+        sent_at TIMESTAMPTZ,
+        created_at TIMESTAMPTZ DEFAULT NOW()
+      )
+    `);
+    await this.query(
+      "CREATE INDEX IF NOT EXISTS idx_deferred_messages_status_send_at ON deferred_messages(status, send_at)",
+    );
+
+    // USSD menus, versioned like triage protocols; one active version per
+    // service code
+    await this.query(`
+      CREATE TABLE IF NOT EXISTS ussd_menus (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        key VARCHAR(50) NOT NULL,
+        version INTEGER NOT NULL,
+        name VARCHAR(200) NOT NULL,
+        service_code VARCHAR(30) NOT NULL,
+        language VARCHAR(10) NOT NULL DEFAULT 'en',
+        status VARCHAR(20) NOT NULL DEFAULT 'draft'
+          CHECK (status IN ('draft', 'active', 'retired')),
+        definition JSONB NOT NULL,
+        created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+        created_at TIMESTAMPTZ DEFAULT NOW(),
+        published_by UUID REFERENCES users(id) ON DELETE SET NULL,
+        published_at TIMESTAMPTZ,
+        UNIQUE (key, version)
+      )
+    `);
+    await this.query(
+      "CREATE UNIQUE INDEX IF NOT EXISTS idx_ussd_menus_active_code ON ussd_menus(service_code) WHERE status = 'active'",
+    );
+
+    // A caller's walk through a menu version, one row per gateway session
+    await this.query(`
+      CREATE TABLE IF NOT EXISTS ussd_sessions (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        provider VARCHAR(30) NOT NULL,
+        external_id VARCHAR(100) NOT NULL,
+        phone VARCHAR(20) NOT NULL,
+        service_code VARCHAR(30) NOT NULL,
+        menu_id UUID NOT NULL REFERENCES ussd_menus(id),
+        patient_id UUID REFERENCES users(id) ON DELETE SET NULL,
+        state JSONB NOT NULL,
+        status VARCHAR(20) NOT NULL DEFAULT 'active'
+          CHECK (status IN ('active', 'completed', 'failed', 'released', 'timed_out')),
+        steps INTEGER NOT NULL DEFAULT 0,
+        started_at TIMESTAMPTZ DEFAULT NOW(),
+        last_activity_at TIMESTAMPTZ DEFAULT NOW(),
+        ended_at TIMESTAMPTZ,
+        UNIQUE (provider, external_id)
+      )
+    `);
+
+    // What a caller asked for: staff tasks (callbacks, appointment and
+    // prescription requests) and SMS reminders sent when due
+    await this.query(`
+      CREATE TABLE IF NOT EXISTS ussd_follow_ups (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        session_id UUID REFERENCES ussd_sessions(id) ON DELETE SET NULL,
+        type VARCHAR(30) NOT NULL,
+        status VARCHAR(20) NOT NULL
+          CHECK (status IN ('open', 'pending', 'done', 'sent', 'failed', 'cancelled')),
+        phone VARCHAR(20) NOT NULL,
+        patient_id UUID REFERENCES users(id) ON DELETE SET NULL,
+        message TEXT,
+        details JSONB NOT NULL,
+        due_at TIMESTAMPTZ NOT NULL,
+        assigned_to UUID REFERENCES users(id) ON DELETE SET NULL,
+        completed_by UUID REFERENCES users(id) ON DELETE SET NULL,
+        completed_at TIMESTAMPTZ,
+        notes TEXT,
+        created_at TIMESTAMPTZ DEFAULT NOW()
+      )
+    `);
+    await this.query(
+      "CREATE INDEX IF NOT EXISTS idx_ussd_follow_ups_status_due ON ussd_follow_ups(status, due_at)",
+    );
   }
 
   private async initializeRPMTables(): Promise<void> {
@@ -397,6 +1110,18 @@ class PostgreSQLDatabase {
       )
     `);
 
+    // Device ingestion: which connector a device uses, the hashed token it
+    // pushes readings with, and each reading's provenance and dedupe key
+    for (const statement of [
+      "ALTER TABLE rpm_devices ADD COLUMN IF NOT EXISTS name VARCHAR(100)",
+      "ALTER TABLE rpm_devices ADD COLUMN IF NOT EXISTS ingest_token_hash VARCHAR(64) UNIQUE",
+      "ALTER TABLE rpm_readings ADD COLUMN IF NOT EXISTS source VARCHAR(50)",
+      "ALTER TABLE rpm_readings ADD COLUMN IF NOT EXISTS dedupe_key VARCHAR(64)",
+      "ALTER TABLE rpm_readings ADD COLUMN IF NOT EXISTS provenance JSONB",
+    ]) {
+      await this.query(statement);
+    }
+
     // Patient thresholds
     await this.query(`
       CREATE TABLE IF NOT EXISTS patient_thresholds (
@@ -437,6 +1162,43 @@ class PostgreSQLDatabase {
         FOREIGN KEY (reading_id) REFERENCES rpm_readings(id) ON DELETE SET NULL
       )
     `);
+
+    // RPM billing: enrollment episodes under a billing provider, and the
+    // clinician time spent managing each patient
+    await this.query(`
+      CREATE TABLE IF NOT EXISTS rpm_enrollments (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        patient_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        provider_id UUID NOT NULL REFERENCES users(id),
+        start_date DATE NOT NULL,
+        end_date DATE,
+        setup_completed_at TIMESTAMPTZ,
+        time_zone VARCHAR(64) NOT NULL DEFAULT 'UTC',
+        status VARCHAR(20) NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'ended')),
+        created_by UUID NOT NULL,
+        created_at TIMESTAMPTZ DEFAULT NOW()
+      )
+    `);
+    await this.query(
+      "CREATE UNIQUE INDEX IF NOT EXISTS idx_rpm_enrollments_active ON rpm_enrollments(patient_id) WHERE status = 'active'",
+    );
+    await this.query(`
+      CREATE TABLE IF NOT EXISTS rpm_time_entries (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        enrollment_id UUID NOT NULL REFERENCES rpm_enrollments(id) ON DELETE CASCADE,
+        patient_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        clinician_id UUID NOT NULL REFERENCES users(id),
+        performed_at TIMESTAMPTZ NOT NULL,
+        minutes INTEGER NOT NULL CHECK (minutes > 0),
+        activity VARCHAR(30) NOT NULL,
+        interactive BOOLEAN NOT NULL DEFAULT false,
+        notes TEXT,
+        created_at TIMESTAMPTZ DEFAULT NOW()
+      )
+    `);
+    await this.query(
+      "CREATE INDEX IF NOT EXISTS idx_rpm_time_entries_enrollment ON rpm_time_entries(enrollment_id, performed_at)",
+    );
   }
 
   private async initializeCCMTables(): Promise<void> {
@@ -539,10 +1301,24 @@ class PostgreSQLDatabase {
       )
     `);
 
+    // Disenrollment, and the decision-making complexity of a care plan
+    // revision that makes the month complex CCM
+    for (const statement of [
+      "ALTER TABLE ccm_patients ADD COLUMN IF NOT EXISTS disenrolled_at TIMESTAMPTZ",
+      "ALTER TABLE ccm_patients ADD COLUMN IF NOT EXISTS disenrollment_reason TEXT",
+      "ALTER TABLE ccm_encounters ADD COLUMN IF NOT EXISTS mdm_level VARCHAR(20)",
+    ]) {
+      await this.query(statement);
+    }
+
     // Create CCM-specific indexes
     await this.query(
       "CREATE INDEX IF NOT EXISTS idx_ccm_patients_patient_id ON ccm_patients(patient_id)",
     );
+    // One running timer per staff member
+    await this.query(
+      "CREATE UNIQUE INDEX IF NOT EXISTS idx_ccm_encounters_running ON ccm_encounters(provider_id) WHERE end_time IS NULL",
+    );
     await this.query(
       "CREATE INDEX IF NOT EXISTS idx_ccm_encounters_patient_date ON ccm_encounters(ccm_patient_id, start_time)",
     );
@@ -552,6 +1328,9 @@ class PostgreSQLDatabase {
     await this.query(
       "CREATE INDEX IF NOT EXISTS idx_rpm_readings_patient_type_time ON rpm_readings(patient_id, reading_type, recorded_at)",
     );
+    await this.query(
+      "CREATE UNIQUE INDEX IF NOT EXISTS idx_rpm_readings_dedupe ON rpm_readings(patient_id, dedupe_key)",
+    );
     await this.query(
       "CREATE INDEX IF NOT EXISTS idx_rpm_alerts_patient_status ON rpm_alerts(patient_id, status)",
     );
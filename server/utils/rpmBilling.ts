@@ -0,0 +1,640 @@
+import { dbPool } from "../config/database";
+import { SchedulingService } from "./scheduling";
+
+// Remote patient monitoring billing. Device codes (99453, 99454) are earned
+// per 30-day period of an enrollment, counted from its start date; treatment
+// management codes (99457, 99458) per calendar month. Days and months are
+// the patient's, in the enrollment's time zone.
+
+export type RpmCode = "99453" | "99454" | "99457" | "99458";
+
+export const RPM_CODES: Record<RpmCode, string> = {
+  "99453": "Device setup and patient education",
+  "99454": "Device supply with daily transmissions, each 30 days",
+  "99457": "Treatment management, first 20 minutes of the month",
+  "99458": "Treatment management, each additional 20 minutes",
+};
+
+export const PERIOD_DAYS = 30;
+// Days with a transmission needed in a period for 99453 and 99454
+export const MIN_TRANSMISSION_DAYS = 16;
+export const MANAGEMENT_UNIT_MINUTES = 20;
+// Longest single time entry; longer work is logged as several entries
+export const MAX_ENTRY_MINUTES = 240;
+
+export const RPM_ACTIVITIES = [
+  "data_review",
+  "patient_communication",
+  "care_coordination",
+  "care_plan_update",
+] as const;
+
+export type RpmActivity = (typeof RPM_ACTIVITIES)[number];
+
+export interface RpmEnrollment {
+  id: string;
+  patientId: string;
+  patientName?: string;
+  // Billing practitioner
+  providerId: string;
+  providerName?: string;
+  startDate: string;
+  endDate?: string;
+  setupCompletedAt?: string;
+  timeZone: string;
+  status: "active" | "ended";
+  createdBy: string;
+  createdAt: string;
+}
+
+export interface RpmTimeEntry {
+  id: string;
+  enrollmentId: string;
+  patientId: string;
+  clinicianId: string;
+  clinicianName?: string;
+  performedAt: string;
+  minutes: number;
+  activity: RpmActivity;
+  // Real-time conversation with the patient or caregiver
+  interactive: boolean;
+  notes?: string;
+  createdAt: string;
+}
+
+// A local date on which a registered device sent readings
+export interface TransmissionDay {
+  date: string;
+  readings: number;
+  devices: string[];
+}
+
+// Pending lines are for a period or month that has not ended yet
+export type LineStatus = "eligible" | "not_eligible" | "pending";
+
+export interface WorksheetLine {
+  enrollmentId: string;
+  patientId: string;
+  patientName: string;
+  providerId: string;
+  providerName: string;
+  code: RpmCode;
+  description: string;
+  units: number;
+  serviceDate: string;
+  period: { start: string; end: string };
+  status: LineStatus;
+  reason?: string;
+  evidence: Record<string, any>;
+}
+
+export interface BillingWorksheet {
+  month: string;
+  generatedAt: string;
+  lines: WorksheetLine[];
+  summary: {
+    patients: number;
+    byCode: Record<RpmCode, { lines: number; units: number }>;
+    pending: number;
+    notEligible: number;
+  };
+}
+
+const MONTH_PATTERN = /^\d{4}-(0[1-9]|1[0-2])$/;
+
+const csvCell = (value: unknown): string => {
+  const text = value === undefined || value === null ? "" : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const lastDayOfMonth = (month: string): string => {
+  const [year, monthIndex] = month.split("-").map(Number);
+  return new Date(Date.UTC(year, monthIndex, 0)).toISOString().slice(0, 10);
+};
+
+const earlier = (a: string, b: string | undefined) => (b && b < a ? b : a);
+
+// Dates as text so they are not shifted by the server's time zone
+const ENROLLMENT_SELECT = `
+  SELECT e.id, e.patient_id, e.provider_id,
+    to_char(e.start_date, 'YYYY-MM-DD') AS start_date,
+    to_char(e.end_date, 'YYYY-MM-DD') AS end_date,
+    e.setup_completed_at, e.time_zone, e.status, e.created_by, e.created_at,
+    p.first_name AS patient_first_name, p.last_name AS patient_last_name,
+    d.first_name AS provider_first_name, d.last_name AS provider_last_name
+  FROM rpm_enrollments e
+  JOIN users p ON p.id = e.patient_id
+  LEFT JOIN users d ON d.id = e.provider_id`;
+
+const TIME_ENTRY_SELECT = `
+  SELECT t.*, c.first_name AS clinician_first_name,
+    c.last_name AS clinician_last_name
+  FROM rpm_time_entries t
+  LEFT JOIN users c ON c.id = t.clinician_id`;
+
+export class RpmBillingService {
+  static isValidMonth(month: string): boolean {
+    return MONTH_PATTERN.test(month || "");
+  }
+
+  /**
+   * Worksheet lines for one enrollment and month. `days` must cover the
+   * enrollment from its start, since 99453 is billed only with the first
+   * period that qualifies; `entries` are the month's logged time.
+   */
+  static assess(
+    enrollment: RpmEnrollment,
+    month: string,
+    days: TransmissionDay[],
+    entries: RpmTimeEntry[],
+    today: string,
+  ): WorksheetLine[] {
+    const monthStart = `${month}-01`;
+    const monthEnd = lastDayOfMonth(month);
+    const lines: WorksheetLine[] = [];
+    const line = (
+      code: RpmCode,
+      fields: Omit<
+        WorksheetLine,
+        | "enrollmentId"
+        | "patientId"
+        | "patientName"
+        | "providerId"
+        | "providerName"
+        | "code"
+        | "description"
+      >,
+    ) =>
+      lines.push({
+        enrollmentId: enrollment.id,
+        patientId: enrollment.patientId,
+        patientName: enrollment.patientName || "",
+        providerId: enrollment.providerId,
+        providerName: enrollment.providerName || "",
+        code,
+        description: RPM_CODES[code],
+        ...fields,
+      });
+
+    // Device periods ending this month
+    let qualifiedBefore = false;
+    for (
+      let start = enrollment.startDate;
+      start <= earlier(monthEnd, enrollment.endDate);
+      start = SchedulingService.addDays(start, PERIOD_DAYS)
+    ) {
+      const end = earlier(
+        SchedulingService.addDays(start, PERIOD_DAYS - 1),
+        enrollment.endDate,
+      );
+      const transmitted = days.filter(
+        (day) => day.date >= start && day.date <= end,
+      );
+      const qualifies = transmitted.length >= MIN_TRANSMISSION_DAYS;
+      if (end < monthStart) {
+        qualifiedBefore ||= qualifies;
+        continue;
+      }
+      if (end > monthEnd) break;
+
+      const status: LineStatus =
+        end >= today ? "pending" : qualifies ? "eligible" : "not_eligible";
+      const period = { start, end };
+      line("99454", {
+        units: qualifies ? 1 : 0,
+        serviceDate: end,
+        period,
+        status,
+        reason:
+          status === "pending"
+            ? `Period ends ${end}; ${transmitted.length} transmission days so far`
+            : status === "not_eligible"
+              ? `${transmitted.length} of ${MIN_TRANSMISSION_DAYS} transmission days`
+              : undefined,
+        evidence: {
+          transmissionDays: transmitted.length,
+          readings: transmitted.reduce((sum, day) => sum + day.readings, 0),
+          devices: [...new Set(transmitted.flatMap((day) => day.devices))],
+          dates: transmitted.map((day) => day.date),
+        },
+      });
+
+      // Setup is billed once, with the first period that qualifies
+      if (!qualifiedBefore && status !== "not_eligible") {
+        const setupStatus = enrollment.setupCompletedAt
+          ? status
+          : "not_eligible";
+        line("99453", {
+          units: enrollment.setupCompletedAt && qualifies ? 1 : 0,
+          serviceDate: end,
+          period,
+          status: setupStatus,
+          reason: !enrollment.setupCompletedAt
+            ? "Device setup and patient education not recorded"
+            : status === "pending"
+              ? `Billed once the period ends ${end} with ${MIN_TRANSMISSION_DAYS} transmission days`
+              : undefined,
+          evidence: {
+            setupCompletedAt: enrollment.setupCompletedAt,
+            qualifyingPeriod: period,
+          },
+        });
+      }
+      qualifiedBefore ||= qualifies;
+    }
+
+    // Treatment management in the calendar month
+    if (
+      enrollment.startDate > monthEnd ||
+      (enrollment.endDate && enrollment.endDate < monthStart)
+    ) {
+      return lines;
+    }
+    const minutes = entries.reduce((sum, entry) => sum + entry.minutes, 0);
+    const interactions = entries.filter((entry) => entry.interactive).length;
+    const met = minutes >= MANAGEMENT_UNIT_MINUTES && interactions > 0;
+    const monthStatus = (eligible: boolean): LineStatus =>
+      monthEnd >= today ? "pending" : eligible ? "eligible" : "not_eligible";
+    const calendarMonth = { start: monthStart, end: monthEnd };
+
+    const managementStatus = monthStatus(met);
+    line("99457", {
+      units: met ? 1 : 0,
+      serviceDate: monthEnd,
+      period: calendarMonth,
+      status: managementStatus,
+      reason:
+        minutes < MANAGEMENT_UNIT_MINUTES
+          ? `${minutes} of ${MANAGEMENT_UNIT_MINUTES} minutes logged`
+          : interactions === 0
+            ? "No interactive communication with the patient"
+            : managementStatus === "pending"
+              ? `Month ends ${monthEnd}`
+              : undefined,
+      evidence: {
+        minutes,
+        interactiveCommunications: interactions,
+        entries: entries.map((entry) => ({
+          id: entry.id,
+          performedAt: entry.performedAt,
+          clinician: entry.clinicianName || entry.clinicianId,
+          minutes: entry.minutes,
+          activity: entry.activity,
+          interactive: entry.interactive,
+        })),
+      },
+    });
+
+    const additional = minutes - MANAGEMENT_UNIT_MINUTES;
+    if (met && additional > 0) {
+      const units = Math.floor(additional / MANAGEMENT_UNIT_MINUTES);
+      const status = monthStatus(units > 0);
+      line("99458", {
+        units,
+        serviceDate: monthEnd,
+        period: calendarMonth,
+        status,
+        reason:
+          units === 0
+            ? `${additional} of ${MANAGEMENT_UNIT_MINUTES} additional minutes logged`
+            : status === "pending"
+              ? `Month ends ${monthEnd}`
+              : undefined,
+        evidence: { minutes, additionalMinutes: additional },
+      });
+    }
+    return lines;
+  }
+
+  static async getWorksheet(
+    month: string,
+    options: { providerId?: string; now?: Date } = {},
+  ): Promise<BillingWorksheet> {
+    const now = options.now || new Date();
+    const monthStart = `${month}-01`;
+    const monthEnd = lastDayOfMonth(month);
+
+    // Enrollments with a device period or management time in the month
+    const enrollments = (
+      await this.pool().query(
+        `${ENROLLMENT_SELECT}
+        WHERE e.start_date <= $2
+          AND (e.end_date IS NULL OR e.end_date >= $1::date - ${PERIOD_DAYS})
+          AND ($3::text IS NULL OR e.provider_id::text = $3)
+        ORDER BY p.last_name, p.first_name, e.start_date`,
+        [monthStart, monthEnd, options.providerId || null],
+      )
+    ).rows.map((row) => this.enrollmentFromRow(row));
+    const ids = enrollments.map((enrollment) => enrollment.id);
+
+    const days = new Map<string, TransmissionDay[]>();
+    const entries = new Map<string, RpmTimeEntry[]>();
+    if (ids.length > 0) {
+      const dayRows = await this.pool().query(
+        `SELECT e.id AS enrollment_id,
+          to_char(r.recorded_at AT TIME ZONE e.time_zone, 'YYYY-MM-DD') AS day,
+          COUNT(*)::int AS readings,
+          array_agg(DISTINCT r.device_id::text) AS devices
+        FROM rpm_enrollments e
+        JOIN rpm_readings r ON r.patient_id = e.patient_id
+        WHERE e.id = ANY($1::uuid[])
+          AND r.device_id IS NOT NULL
+          AND r.recorded_at >= e.start_date::timestamp AT TIME ZONE e.time_zone
+          AND r.recorded_at < ($2::date + 1)::timestamp AT TIME ZONE e.time_zone
+        GROUP BY e.id, day
+        ORDER BY day`,
+        [ids, monthEnd],
+      );
+      for (const row of dayRows.rows) {
+        const list = days.get(row.enrollment_id) || [];
+        list.push({
+          date: row.day,
+          readings: row.readings,
+          devices: row.devices,
+        });
+        days.set(row.enrollment_id, list);
+      }
+
+      // A day either side, then narrowed to each patient's own month
+      const entryRows = await this.pool().query(
+        `${TIME_ENTRY_SELECT}
+        WHERE t.enrollment_id = ANY($1::uuid[])
+          AND t.performed_at >= $2::date - 1
+          AND t.performed_at < $3::date + 2
+        ORDER BY t.performed_at`,
+        [ids, monthStart, monthEnd],
+      );
+      for (const row of entryRows.rows) {
+        const entry = this.timeEntryFromRow(row);
+        const list = entries.get(entry.enrollmentId) || [];
+        list.push(entry);
+        entries.set(entry.enrollmentId, list);
+      }
+    }
+
+    const lines = enrollments.flatMap((enrollment) =>
+      this.assess(
+        enrollment,
+        month,
+        days.get(enrollment.id) || [],
+        (entries.get(enrollment.id) || []).filter((entry) =>
+          SchedulingService.localDate(
+            new Date(entry.performedAt),
+            enrollment.timeZone,
+          ).startsWith(month),
+        ),
+        SchedulingService.localDate(now, enrollment.timeZone),
+      ),
+    );
+
+    const byCode = Object.fromEntries(
+      Object.keys(RPM_CODES).map((code) => {
+        const eligible = lines.filter(
+          (line) => line.code === code && line.status === "eligible",
+        );
+        return [
+          code,
+          {
+            lines: eligible.length,
+            units: eligible.reduce((sum, line) => sum + line.units, 0),
+          },
+        ];
+      }),
+    ) as BillingWorksheet["summary"]["byCode"];
+
+    return {
+      month,
+      generatedAt: now.toISOString(),
+      lines,
+      summary: {
+        patients: new Set(lines.map((line) => line.patientId)).size,
+        byCode,
+        pending: lines.filter((line) => line.status === "pending").length,
+        notEligible: lines.filter((line) => line.status === "not_eligible")
+          .length,
+      },
+    };
+  }
+
+  static toCSV(worksheet: BillingWorksheet): string {
+    const header = [
+      "Patient ID",
+      "Patient",
+      "Billing Provider",
+      "CPT",
+      "Units",
+      "Date of Service",
+      "Period Start",
+      "Period End",
+      "Status",
+      "Reason",
+      "Evidence",
+    ];
+    const rows = worksheet.lines.map((line) => [
+      line.patientId,
+      line.patientName,
+      line.providerName,
+      line.code,
+      line.units,
+      line.serviceDate,
+      line.period.start,
+      line.period.end,
+      line.status,
+      line.reason,
+      this.describeEvidence(line),
+    ]);
+
+    return [header, ...rows]
+      .map((row) => row.map(csvCell).join(","))
+      .join("\r\n");
+  }
+
+  // One-line evidence for the spreadsheet; the JSON keeps the detail
+  static describeEvidence(line: WorksheetLine): string {
+    const { evidence } = line;
+    switch (line.code) {
+      case "99454":
+        return `${evidence.transmissionDays} transmission days, ${evidence.readings} readings from ${evidence.devices.length} device(s)`;
+      case "99453":
+        return evidence.setupCompletedAt
+          ? `Setup completed ${evidence.setupCompletedAt.slice(0, 10)}`
+          : "";
+      case "99457":
+        return `${evidence.minutes} minutes in ${evidence.entries.length} entries, ${evidence.interactiveCommunications} interactive`;
+      case "99458":
+        return `${evidence.additionalMinutes} minutes beyond the first ${MANAGEMENT_UNIT_MINUTES}`;
+    }
+  }
+
+  /**
+   * Enroll a patient under a billing provider. A patient has at most one
+   * active enrollment; returns null when there already is one.
+   */
+  static async enroll(
+    patientId: string,
+    input: {
+      providerId: string;
+      startDate: string;
+      timeZone: string;
+      setupCompletedAt?: Date;
+    },
+    createdBy: string,
+  ): Promise<RpmEnrollment | null> {
+    const result = await this.pool().query(
+      `INSERT INTO rpm_enrollments
+        (patient_id, provider_id, start_date, time_zone, setup_completed_at,
+         created_by)
+      VALUES ($1, $2, $3, $4, $5, $6)
+      ON CONFLICT (patient_id) WHERE status = 'active' DO NOTHING
+      RETURNING id`,
+      [
+        patientId,
+        input.providerId,
+        input.startDate,
+        input.timeZone,
+        input.setupCompletedAt || null,
+        createdBy,
+      ],
+    );
+    return result.rows[0] ? this.getEnrollment(result.rows[0].id) : null;
+  }
+
+  static async getEnrollment(id: string): Promise<RpmEnrollment | null> {
+    const result = await this.pool().query(
+      `${ENROLLMENT_SELECT} WHERE e.id::text = $1`,
+      [id],
+    );
+    return result.rows[0] ? this.enrollmentFromRow(result.rows[0]) : null;
+  }
+
+  static async listEnrollments(patientId: string): Promise<RpmEnrollment[]> {
+    const result = await this.pool().query(
+      `${ENROLLMENT_SELECT} WHERE e.patient_id = $1
+      ORDER BY e.start_date DESC`,
+      [patientId],
+    );
+    return result.rows.map((row) => this.enrollmentFromRow(row));
+  }
+
+  static async recordSetup(
+    enrollmentId: string,
+    completedAt: Date,
+  ): Promise<RpmEnrollment | null> {
+    await this.pool().query(
+      "UPDATE rpm_enrollments SET setup_completed_at = $2 WHERE id = $1",
+      [enrollmentId, completedAt],
+    );
+    return this.getEnrollment(enrollmentId);
+  }
+
+  // Monitoring stops after endDate; time already logged is kept
+  static async endEnrollment(
+    enrollmentId: string,
+    endDate: string,
+  ): Promise<RpmEnrollment | null> {
+    await this.pool().query(
+      `UPDATE rpm_enrollments SET status = 'ended', end_date = $2
+      WHERE id = $1 AND status = 'active'`,
+      [enrollmentId, endDate],
+    );
+    return this.getEnrollment(enrollmentId);
+  }
+
+  static async logTime(
+    enrollment: RpmEnrollment,
+    clinicianId: string,
+    input: {
+      performedAt: Date;
+      minutes: number;
+      activity: RpmActivity;
+      interactive: boolean;
+      notes?: string;
+    },
+  ): Promise<RpmTimeEntry> {
+    const result = await this.pool().query(
+      `INSERT INTO rpm_time_entries
+        (enrollment_id, patient_id, clinician_id, performed_at, minutes,
+         activity, interactive, notes)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+      RETURNING id`,
+      [
+        enrollment.id,
+        enrollment.patientId,
+        clinicianId,
+        input.performedAt,
+        input.minutes,
+        input.activity,
+        input.interactive,
+        input.notes || null,
+      ],
+    );
+    const entry = await this.pool().query(
+      `${TIME_ENTRY_SELECT} WHERE t.id = $1`,
+      [result.rows[0].id],
+    );
+    return this.timeEntryFromRow(entry.rows[0]);
+  }
+
+  static async listTimeEntries(
+    enrollment: RpmEnrollment,
+    month?: string,
+  ): Promise<RpmTimeEntry[]> {
+    const result = await this.pool().query(
+      `${TIME_ENTRY_SELECT}
+      WHERE t.enrollment_id = $1
+        AND ($2::text IS NULL
+          OR to_char(t.performed_at AT TIME ZONE $3, 'YYYY-MM') = $2)
+      ORDER BY t.performed_at DESC`,
+      [enrollment.id, month || null, enrollment.timeZone],
+    );
+    return result.rows.map((row) => this.timeEntryFromRow(row));
+  }
+
+  private static enrollmentFromRow(row: any): RpmEnrollment {
+    return {
+      id: row.id,
+      patientId: row.patient_id,
+      patientName: row.patient_first_name
+        ? `${row.patient_first_name} ${row.patient_last_name}`
+        : undefined,
+      providerId: row.provider_id,
+      providerName: row.provider_first_name
+        ? `${row.provider_first_name} ${row.provider_last_name}`
+        : undefined,
+      startDate: row.start_date,
+      endDate: row.end_date || undefined,
+      setupCompletedAt: row.setup_completed_at
+        ? new Date(row.setup_completed_at).toISOString()
+        : undefined,
+      timeZone: row.time_zone,
+      status: row.status,
+      createdBy: row.created_by,
+      createdAt: new Date(row.created_at).toISOString(),
+    };
+  }
+
+  private static timeEntryFromRow(row: any): RpmTimeEntry {
+    return {
+      id: row.id,
+      enrollmentId: row.enrollment_id,
+      patientId: row.patient_id,
+      clinicianId: row.clinician_id,
+      clinicianName: row.clinician_first_name
+        ? `${row.clinician_first_name} ${row.clinician_last_name}`
+        : undefined,
+      performedAt: new Date(row.performed_at).toISOString(),
+      minutes: row.minutes,
+      activity: row.activity,
+      interactive: row.interactive,
+      notes: row.notes || undefined,
+      createdAt: new Date(row.created_at).toISOString(),
+    };
+  }
+
+  private static pool() {
+    if (!dbPool) {
+      throw new Error("PostgreSQL pool not configured");
+    }
+    return dbPool;
+  }
+}
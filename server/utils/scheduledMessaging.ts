@@ -1,7 +1,10 @@
 import * as schedule from "node-schedule";
-import { MessagingService } from "./messagingService";
+import { MessageRequest, MessagingService } from "./messagingService";
 import { AuditLogger } from "./auditLogger";
+import { CalendarService } from "./calendar";
 import { db as database } from "../utils/databaseAdapter";
+import { MessageTemplates } from "./messageTemplates";
+import { CommunicationConsent, isQuietHours } from "./communicationConsent";
 
 export interface ScheduledMessage {
   id: string;
@@ -63,74 +66,28 @@ export interface PatientSchedule {
   };
 }
 
-export interface MessageTemplate {
-  type: string;
-  content: string;
-  variables: string[];
-}
+// Consent category each kind of scheduled message is sent under
+const MESSAGE_CATEGORIES: Record<
+  ScheduledMessage["type"],
+  MessageRequest["category"]
+> = {
+  medication_reminder: "medication",
+  glucose_check: "reminder",
+  appointment_reminder: "appointment",
+  daily_update: "reminder",
+  care_team_alert: "alert",
+  wellness_check: "reminder",
+};
 
 export class ScheduledMessagingService {
   private messagingService: MessagingService;
   private activeJobs: Map<string, schedule.Job> = new Map();
-  private messageTemplates: Map<string, MessageTemplate> = new Map();
 
   constructor() {
     this.messagingService = new MessagingService();
-    this.initializeTemplates();
     this.loadActiveSchedules();
   }
 
-  private initializeTemplates(): void {
-    this.messageTemplates.set("medication_reminder", {
-      type: "medication_reminder",
-      content:
-        "Reminder: It's time to take your {{medication}} ({{dosage}}). {{instructions}}",
-      variables: ["medication", "dosage", "instructions"],
-    });
-
-    this.messageTemplates.set("glucose_check", {
-      type: "glucose_check",
-      content:
-        "Time for your glucose check! Please test your blood sugar and log the results in your patient portal.",
-      variables: [],
-    });
-
-    this.messageTemplates.set("appointment_reminder_24h", {
-      type: "appointment_reminder",
-      content:
-        "Reminder: You have an appointment with {{provider}} tomorrow at {{time}}. Location: {{location}}. Please arrive 15 minutes early.",
-      variables: ["provider", "time", "location"],
-    });
-
-    this.messageTemplates.set("appointment_reminder_2h", {
-      type: "appointment_reminder",
-      content:
-        "Your appointment with {{provider}} is in 2 hours at {{time}}. Location: {{location}}. Don't forget to bring your insurance card and medication list.",
-      variables: ["provider", "time", "location"],
-    });
-
-    this.messageTemplates.set("daily_update", {
-      type: "daily_update",
-      content:
-        "Good morning! Please remember to:\n- Take your medications\n- Check your glucose levels\n- Log your meals and activities\n- Contact us with any concerns: {{contact_number}}",
-      variables: ["contact_number"],
-    });
-
-    this.messageTemplates.set("care_team_alert", {
-      type: "care_team_alert",
-      content:
-        "Patient {{patient_name}} (ID: {{patient_id}}) requires attention: {{alert_reason}}. Last reading: {{last_reading}}. Please review and respond.",
-      variables: ["patient_name", "patient_id", "alert_reason", "last_reading"],
-    });
-
-    this.messageTemplates.set("wellness_check", {
-      type: "wellness_check",
-      content:
-        "Hi {{patient_name}}, how are you feeling today? Reply with a number 1-10 (1=very poor, 10=excellent) to rate your overall wellness.",
-      variables: ["patient_name"],
-    });
-  }
-
   async schedulePatientMessages(
     patientSchedule: PatientSchedule,
   ): Promise<void> {
@@ -182,6 +139,14 @@ export class ScheduledMessagingService {
 
       // Save schedule to database
       await this.savePatientSchedule(patientSchedule);
+
+      // The consent check in MessagingService holds every message, not
+      // only scheduled ones, to the same quiet hours
+      await CommunicationConsent.setQuietHours(
+        patientSchedule.patientId,
+        patientSchedule.quietHours,
+        patientSchedule.timezone,
+      );
     } catch (error) {
       console.error("Error scheduling patient messages:", error);
       AuditLogger.log(
@@ -206,19 +171,22 @@ export class ScheduledMessagingService {
     const cronExpression = this.timeToCron(time, patientSchedule.timezone);
 
     const job = schedule.scheduleJob(jobName, cronExpression, async () => {
-      if (this.isQuietHours(time, patientSchedule.quietHours)) {
+      if (isQuietHours(time, patientSchedule.quietHours)) {
         console.log(
           `Skipping medication reminder during quiet hours: ${jobName}`,
         );
         return;
       }
 
-      const template = this.messageTemplates.get("medication_reminder")!;
-      const message = this.interpolateTemplate(template.content, {
-        medication: medication.name,
-        dosage: medication.dosage,
-        instructions: medication.instructions || "Take as prescribed",
-      });
+      const message = await this.renderTemplate(
+        "scheduled_medication_reminder",
+        patientSchedule.patientId,
+        {
+          medication: medication.name,
+          dosage: medication.dosage,
+          instructions: medication.instructions || "Take as prescribed",
+        },
+      );
 
       await this.sendScheduledMessage({
         id: `${jobName}_${Date.now()}`,
@@ -247,13 +215,15 @@ export class ScheduledMessagingService {
     const cronExpression = this.timeToCron(time, patientSchedule.timezone);
 
     const job = schedule.scheduleJob(jobName, cronExpression, async () => {
-      if (this.isQuietHours(time, patientSchedule.quietHours)) {
+      if (isQuietHours(time, patientSchedule.quietHours)) {
         console.log(`Skipping glucose reminder during quiet hours: ${jobName}`);
         return;
       }
 
-      const template = this.messageTemplates.get("glucose_check")!;
-      const message = template.content;
+      const message = await this.renderTemplate(
+        "scheduled_glucose_check",
+        patientSchedule.patientId,
+      );
 
       await this.sendScheduledMessage({
         id: `${jobName}_${Date.now()}`,
@@ -279,6 +249,9 @@ export class ScheduledMessagingService {
     appointment: any,
   ): Promise<void> {
     const appointmentDate = new Date(appointment.dateTime);
+    // The link always serves the current version, so a moved or cancelled
+    // appointment updates the patient's calendar when they open it
+    const calendarLink = CalendarService.inviteUrl(appointment.id, "patient");
 
     // 24-hour reminder
     const reminder24h = new Date(
@@ -288,16 +261,20 @@ export class ScheduledMessagingService {
 
     if (reminder24h > new Date()) {
       const job24h = schedule.scheduleJob(jobName24h, reminder24h, async () => {
-        const template = this.messageTemplates.get("appointment_reminder_24h")!;
-        const message = this.interpolateTemplate(template.content, {
-          provider: appointment.provider,
-          time: appointmentDate.toLocaleTimeString("en-US", {
-            hour: "numeric",
-            minute: "2-digit",
-            timeZone: patientSchedule.timezone,
-          }),
-          location: appointment.location || "See appointment details",
-        });
+        const message = await this.renderTemplate(
+          "scheduled_appointment_24h",
+          patientSchedule.patientId,
+          {
+            provider: appointment.provider,
+            time: appointmentDate.toLocaleTimeString("en-US", {
+              hour: "numeric",
+              minute: "2-digit",
+              timeZone: patientSchedule.timezone,
+            }),
+            location: appointment.location || "See appointment details",
+            calendar_link: calendarLink,
+          },
+        );
 
         await this.sendScheduledMessage({
           id: `${jobName24h}_${Date.now()}`,
@@ -324,16 +301,20 @@ export class ScheduledMessagingService {
 
     if (reminder2h > new Date()) {
       const job2h = schedule.scheduleJob(jobName2h, reminder2h, async () => {
-        const template = this.messageTemplates.get("appointment_reminder_2h")!;
-        const message = this.interpolateTemplate(template.content, {
-          provider: appointment.provider,
-          time: appointmentDate.toLocaleTimeString("en-US", {
-            hour: "numeric",
-            minute: "2-digit",
-            timeZone: patientSchedule.timezone,
-          }),
-          location: appointment.location || "See appointment details",
-        });
+        const message = await this.renderTemplate(
+          "scheduled_appointment_2h",
+          patientSchedule.patientId,
+          {
+            provider: appointment.provider,
+            time: appointmentDate.toLocaleTimeString("en-US", {
+              hour: "numeric",
+              minute: "2-digit",
+              timeZone: patientSchedule.timezone,
+            }),
+            location: appointment.location || "See appointment details",
+            calendar_link: calendarLink,
+          },
+        );
 
         await this.sendScheduledMessage({
           id: `${jobName2h}_${Date.now()}`,
@@ -387,10 +368,13 @@ export class ScheduledMessagingService {
     }
 
     const job = schedule.scheduleJob(jobName, cronExpression, async () => {
-      const template = this.messageTemplates.get("daily_update")!;
-      const message = this.interpolateTemplate(template.content, {
-        contact_number: "+1-800-CARE-TEAM", // This should come from configuration
-      });
+      const message = await this.renderTemplate(
+        "scheduled_daily_update",
+        patientSchedule.patientId,
+        {
+          contact_number: "+1-800-CARE-TEAM", // This should come from configuration
+        },
+      );
 
       await this.sendScheduledMessage({
         id: `${jobName}_${Date.now()}`,
@@ -423,6 +407,10 @@ export class ScheduledMessagingService {
         to: scheduledMessage.phone,
         message: scheduledMessage.message,
         type: "sms",
+        priority: "low",
+        category: MESSAGE_CATEGORIES[scheduledMessage.type],
+        patientId: scheduledMessage.patientId,
+        queueDeferred: false,
         metadata: {
           scheduledMessageId: scheduledMessage.id,
           patientId: scheduledMessage.patientId,
@@ -446,6 +434,16 @@ export class ScheduledMessagingService {
             actualSentTime: scheduledMessage.sentAt,
           },
         );
+      } else if (result.consent?.action === "defer") {
+        // Send it again once the patient's quiet hours are over
+        scheduledMessage.scheduledTime = new Date(result.consent.deferUntil!);
+        schedule.scheduleJob(scheduledMessage.scheduledTime, () =>
+          this.sendScheduledMessage(scheduledMessage),
+        );
+      } else if (result.consent?.action === "block") {
+        // Retrying would be blocked the same way
+        scheduledMessage.status = "cancelled";
+        scheduledMessage.errorMessage = result.error;
       } else {
         throw new Error(result.error || "Failed to send message");
       }
@@ -521,15 +519,19 @@ export class ScheduledMessagingService {
     phone: string,
   ): Promise<boolean> {
     try {
-      const template = this.messageTemplates.get("wellness_check")!;
-      const message = this.interpolateTemplate(template.content, {
-        patient_name: patientName,
-      });
+      const message = await this.renderTemplate(
+        "scheduled_wellness_check",
+        patientId,
+        { patient_name: patientName },
+      );
 
       const result = await this.messagingService.sendMessage({
         to: phone,
         message,
         type: "sms",
+        priority: "low",
+        category: "reminder",
+        patientId,
         metadata: {
           patientId,
           messageType: "wellness_check",
@@ -593,31 +595,23 @@ export class ScheduledMessagingService {
     return `${minute} ${hour} * * *`; // Daily at specified time
   }
 
-  private isQuietHours(
-    time: string,
-    quietHours: { start: string; end: string },
-  ): boolean {
-    const currentTime = time;
-    const { start, end } = quietHours;
-
-    // Simple time comparison (assumes same day)
-    if (start < end) {
-      return currentTime >= start && currentTime <= end;
-    } else {
-      // Quiet hours span midnight
-      return currentTime >= start || currentTime <= end;
-    }
-  }
-
-  private interpolateTemplate(
-    template: string,
-    variables: Record<string, string>,
-  ): string {
-    let result = template;
-    for (const [key, value] of Object.entries(variables)) {
-      result = result.replace(new RegExp(`{{${key}}}`, "g"), value);
+  // A catalog template's SMS text, in the patient's language
+  private async renderTemplate(
+    templateId: string,
+    patientId: string,
+    variables: Record<string, string> = {},
+  ): Promise<string> {
+    const locale = await MessageTemplates.patientLocale(patientId);
+    const rendered = await MessageTemplates.render(
+      templateId,
+      "sms",
+      locale,
+      variables,
+    );
+    if (!rendered) {
+      throw new Error(`Message template ${templateId} has no SMS text`);
     }
-    return result;
+    return rendered.text;
   }
 
   private async savePatientSchedule(schedule: PatientSchedule): Promise<void> {
@@ -0,0 +1,1120 @@
+import { PoolClient } from "pg";
+import { dbPool } from "../config/database";
+import { AccessControl } from "./accessControl";
+
+// Provider scheduling: weekly working hours kept in the provider's own time
+// zone, blocked time, and appointment types that set a visit's length and
+// the buffers around it. Bookings take a per-provider advisory lock so two
+// requests for the same provider cannot both pass the conflict check.
+
+export const SLOT_STEP_MINUTES = 15;
+export const MAX_SLOT_RANGE_DAYS = 31;
+export const MIN_APPOINTMENT_MINUTES = 15;
+export const MAX_APPOINTMENT_MINUTES = 480;
+
+// Roles whose calendars can be booked
+export const PROVIDER_ROLES = ["doctor", "nurse", "pharmacist"];
+
+export interface TimeInterval {
+  start: Date;
+  end: Date;
+}
+
+export interface AvailabilityWindow {
+  dayOfWeek: number; // 0 = Sunday
+  startTime: string; // "09:00", wall clock in the template's time zone
+  endTime: string;
+  effectiveFrom?: string | null; // "2024-06-01"
+  effectiveUntil?: string | null;
+}
+
+export interface AvailabilityTemplate extends AvailabilityWindow {
+  timeZone: string;
+}
+
+export interface AppointmentType {
+  id: string;
+  code: string;
+  name: string;
+  durationMinutes: number;
+  bufferBeforeMinutes: number;
+  bufferAfterMinutes: number;
+  active: boolean;
+}
+
+export interface BlockedTime {
+  id: string;
+  providerId: string;
+  start: string;
+  end: string;
+  reason?: string;
+}
+
+export interface Appointment {
+  id: string;
+  patientId: string;
+  providerId: string;
+  type: string;
+  start: string;
+  end: string;
+  durationMinutes: number;
+  status: string;
+  statusReason?: string;
+  rescheduleCount: number;
+  // Bumped on every change, as the iCalendar SEQUENCE of invites
+  sequence: number;
+  bufferBeforeMinutes: number;
+  bufferAfterMinutes: number;
+  notes?: string;
+  videoUrl?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface StatusChange {
+  fromStatus?: string;
+  toStatus: string;
+  reason?: string;
+  changedBy?: string;
+  changedAt: string;
+  previousStart?: string;
+}
+
+export interface NoShowStats {
+  id: string;
+  completed: number;
+  noShows: number;
+  cancelled: number;
+  noShowRate: number | null;
+}
+
+export interface Provider {
+  id: string;
+  name: string;
+  role: string;
+  specialty?: string;
+  timeZone: string;
+}
+
+export type AppointmentStatus =
+  | "scheduled"
+  | "confirmed"
+  | "checked_in"
+  | "in_progress"
+  | "completed"
+  | "cancelled"
+  | "no_show";
+
+export const APPOINTMENT_STATUSES: AppointmentStatus[] = [
+  "scheduled",
+  "confirmed",
+  "checked_in",
+  "in_progress",
+  "completed",
+  "cancelled",
+  "no_show",
+];
+
+// Allowed moves from each status; completed, cancelled and no_show are final
+const STATUS_TRANSITIONS: Record<string, AppointmentStatus[]> = {
+  scheduled: ["confirmed", "checked_in", "cancelled", "no_show"],
+  confirmed: ["checked_in", "cancelled", "no_show"],
+  checked_in: ["in_progress", "cancelled"],
+  in_progress: ["completed"],
+};
+
+// Statuses that hold their time on the calendar
+const BOOKED_STATUSES = [
+  "scheduled",
+  "confirmed",
+  "checked_in",
+  "in_progress",
+  "completed",
+];
+const RESCHEDULABLE_STATUSES = ["scheduled", "confirmed"];
+
+// Patients may cancel or move a visit themselves up to this many hours
+// before it starts, and move it at most this many times
+export const PATIENT_CHANGE_NOTICE_HOURS =
+  Number(process.env.APPOINTMENT_CHANGE_NOTICE_HOURS) || 24;
+export const MAX_PATIENT_RESCHEDULES =
+  Number(process.env.APPOINTMENT_MAX_RESCHEDULES) || 2;
+
+export type ConflictReason =
+  | "in_past"
+  | "outside_availability"
+  | "blocked_time"
+  | "provider_conflict"
+  | "patient_conflict"
+  | "not_reschedulable";
+
+export const CONFLICT_MESSAGES: Record<ConflictReason, string> = {
+  in_past: "Appointment time is in the past",
+  outside_availability: "Provider is not working at that time",
+  blocked_time: "Provider is unavailable at that time",
+  provider_conflict: "Provider already has an appointment at that time",
+  patient_conflict: "Patient already has an appointment at that time",
+  not_reschedulable: "Appointment can no longer be rescheduled",
+};
+
+export type BookingResult =
+  | { ok: true; appointment: Appointment }
+  | { ok: false; reason: ConflictReason };
+
+// Occupied time on a provider's calendar, buffers included
+interface BusyInterval extends TimeInterval {
+  source: "appointment" | "blocked";
+}
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+
+type Queryable = Pick<PoolClient, "query">;
+
+const PROVIDER_SELECT = `
+  SELECT u.id, u.first_name, u.last_name, u.role, u.specialty,
+    (SELECT time_zone FROM provider_availability a
+      WHERE a.provider_id = u.id LIMIT 1) AS time_zone
+  FROM users u`;
+
+export class SchedulingService {
+  static isValidTimeZone(timeZone: string): boolean {
+    try {
+      new Intl.DateTimeFormat("en-US", { timeZone });
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  // Error message for the first invalid window, or null when all are valid
+  static validateWindows(windows: AvailabilityWindow[]): string | null {
+    for (const window of windows) {
+      if (
+        !Number.isInteger(window.dayOfWeek) ||
+        window.dayOfWeek < 0 ||
+        window.dayOfWeek > 6
+      ) {
+        return "dayOfWeek must be 0 (Sunday) to 6 (Saturday)";
+      }
+      if (
+        !TIME_PATTERN.test(window.startTime) ||
+        !TIME_PATTERN.test(window.endTime)
+      ) {
+        return "startTime and endTime must be HH:MM";
+      }
+      if (window.startTime >= window.endTime) {
+        return "startTime must be before endTime";
+      }
+      for (const date of [window.effectiveFrom, window.effectiveUntil]) {
+        if (date && !DATE_PATTERN.test(date)) {
+          return "effectiveFrom and effectiveUntil must be YYYY-MM-DD";
+        }
+      }
+    }
+    return null;
+  }
+
+  // Calendar date ("2024-03-10") of an instant in a time zone
+  static localDate(instant: Date, timeZone: string): string {
+    const parts = this.zonedParts(instant, timeZone);
+    return `${parts.year}-${parts.month}-${parts.day}`;
+  }
+
+  static addDays(date: string, days: number): string {
+    return new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY)
+      .toISOString()
+      .slice(0, 10);
+  }
+
+  // Wall-clock date and time in a time zone as a UTC instant
+  static zonedTimeToUtc(date: string, time: string, timeZone: string): Date {
+    const [year, month, day] = date.split("-").map(Number);
+    const [hour, minute] = time.split(":").map(Number);
+    const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+
+    let instant = wallClock - this.zoneOffset(new Date(wallClock), timeZone);
+    // Second pass settles times near a daylight saving change
+    instant = wallClock - this.zoneOffset(new Date(instant), timeZone);
+    return new Date(instant);
+  }
+
+  /**
+   * Turn weekly templates into concrete working intervals between two
+   * instants. Each template is applied on its own zone's calendar, so
+   * "Monday 09:00" stays 09:00 local across daylight saving changes.
+   */
+  static expandAvailability(
+    templates: AvailabilityTemplate[],
+    from: Date,
+    to: Date,
+  ): TimeInterval[] {
+    const intervals: TimeInterval[] = [];
+
+    for (const template of templates) {
+      const lastDate = this.localDate(to, template.timeZone);
+      for (
+        let date = this.localDate(from, template.timeZone);
+        date <= lastDate;
+        date = this.addDays(date, 1)
+      ) {
+        if (dayOfWeek(date) !== template.dayOfWeek) continue;
+        if (template.effectiveFrom && date < template.effectiveFrom) continue;
+        if (template.effectiveUntil && date > template.effectiveUntil) continue;
+
+        const start = this.zonedTimeToUtc(
+          date,
+          template.startTime,
+          template.timeZone,
+        );
+        const end = this.zonedTimeToUtc(
+          date,
+          template.endTime,
+          template.timeZone,
+        );
+        const clipped = {
+          start: new Date(Math.max(start.getTime(), from.getTime())),
+          end: new Date(Math.min(end.getTime(), to.getTime())),
+        };
+        if (clipped.start < clipped.end) intervals.push(clipped);
+      }
+    }
+
+    return mergeIntervals(intervals);
+  }
+
+  /**
+   * Start times within the working intervals where a visit of the given
+   * length, plus its buffers, overlaps nothing busy. Starts step from the
+   * beginning of each interval; the visit itself must fit inside it.
+   */
+  static generateSlots(options: {
+    availability: TimeInterval[];
+    busy: TimeInterval[];
+    durationMinutes: number;
+    bufferBeforeMinutes?: number;
+    bufferAfterMinutes?: number;
+    stepMinutes?: number;
+    notBefore?: Date;
+  }): TimeInterval[] {
+    const step = (options.stepMinutes || SLOT_STEP_MINUTES) * MINUTE;
+    const duration = options.durationMinutes * MINUTE;
+    const slots: TimeInterval[] = [];
+
+    for (const window of options.availability) {
+      let start = window.start.getTime();
+      if (options.notBefore && options.notBefore > window.start) {
+        start += Math.ceil((options.notBefore.getTime() - start) / step) * step;
+      }
+
+      for (; start + duration <= window.end.getTime(); start += step) {
+        const slot = {
+          start: new Date(start),
+          end: new Date(start + duration),
+        };
+        const occupied = this.withBuffers(
+          slot,
+          options.bufferBeforeMinutes || 0,
+          options.bufferAfterMinutes || 0,
+        );
+        if (!options.busy.some((busy) => overlaps(busy, occupied))) {
+          slots.push(slot);
+        }
+      }
+    }
+
+    return slots;
+  }
+
+  static withBuffers(
+    interval: TimeInterval,
+    bufferBeforeMinutes: number,
+    bufferAfterMinutes: number,
+  ): TimeInterval {
+    return {
+      start: new Date(interval.start.getTime() - bufferBeforeMinutes * MINUTE),
+      end: new Date(interval.end.getTime() + bufferAfterMinutes * MINUTE),
+    };
+  }
+
+  static async listProviders(specialty?: string): Promise<Provider[]> {
+    const result = await this.pool().query(
+      `${PROVIDER_SELECT}
+      WHERE u.role = ANY($1) AND u.is_active IS NOT FALSE
+        AND ($2::text IS NULL OR u.specialty ILIKE '%' || $2 || '%')
+      ORDER BY u.last_name, u.first_name`,
+      [PROVIDER_ROLES, specialty || null],
+    );
+    return result.rows.map((row) => this.providerFromRow(row));
+  }
+
+  static async getProvider(userId: string): Promise<Provider | null> {
+    const result = await this.pool().query(
+      `${PROVIDER_SELECT}
+      WHERE u.id::text = $1 AND u.role = ANY($2)`,
+      [userId, PROVIDER_ROLES],
+    );
+    return result.rows[0] ? this.providerFromRow(result.rows[0]) : null;
+  }
+
+  static async isProvider(userId: string): Promise<boolean> {
+    return (await this.getProvider(userId)) !== null;
+  }
+
+  static async listAppointmentTypes(
+    includeInactive = false,
+  ): Promise<AppointmentType[]> {
+    const result = await this.pool().query(
+      `SELECT * FROM appointment_types
+      WHERE $1 OR active
+      ORDER BY name`,
+      [includeInactive],
+    );
+    return result.rows.map((row) => this.typeFromRow(row));
+  }
+
+  static async getAppointmentType(
+    code: string,
+  ): Promise<AppointmentType | null> {
+    const result = await this.pool().query(
+      "SELECT * FROM appointment_types WHERE code = $1",
+      [code],
+    );
+    return result.rows[0] ? this.typeFromRow(result.rows[0]) : null;
+  }
+
+  static async saveAppointmentType(
+    type: Omit<AppointmentType, "id">,
+  ): Promise<AppointmentType> {
+    const result = await this.pool().query(
+      `INSERT INTO appointment_types
+        (code, name, duration_minutes, buffer_before_minutes,
+         buffer_after_minutes, active)
+      VALUES ($1, $2, $3, $4, $5, $6)
+      ON CONFLICT (code) DO UPDATE SET
+        name = EXCLUDED.name,
+        duration_minutes = EXCLUDED.duration_minutes,
+        buffer_before_minutes = EXCLUDED.buffer_before_minutes,
+        buffer_after_minutes = EXCLUDED.buffer_after_minutes,
+        active = EXCLUDED.active,
+        updated_at = NOW()
+      RETURNING *`,
+      [
+        type.code,
+        type.name,
+        type.durationMinutes,
+        type.bufferBeforeMinutes,
+        type.bufferAfterMinutes,
+        type.active,
+      ],
+    );
+    return this.typeFromRow(result.rows[0]);
+  }
+
+  static async getAvailability(
+    providerId: string,
+  ): Promise<{ timeZone: string; windows: AvailabilityWindow[] }> {
+    const templates = await this.loadTemplates(this.pool(), providerId);
+    return {
+      timeZone: templates[0]?.timeZone || "UTC",
+      windows: templates.map(({ timeZone, ...window }) => window),
+    };
+  }
+
+  // Replace a provider's weekly working hours
+  static async setAvailability(
+    providerId: string,
+    timeZone: string,
+    windows: AvailabilityWindow[],
+  ): Promise<void> {
+    const client = await this.pool().connect();
+    try {
+      await client.query("BEGIN");
+      await client.query(
+        "DELETE FROM provider_availability WHERE provider_id = $1",
+        [providerId],
+      );
+      for (const window of windows) {
+        await client.query(
+          `INSERT INTO provider_availability
+            (provider_id, day_of_week, start_time, end_time, time_zone,
+             effective_from, effective_until)
+          VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+          [
+            providerId,
+            window.dayOfWeek,
+            window.startTime,
+            window.endTime,
+            timeZone,
+            window.effectiveFrom || null,
+            window.effectiveUntil || null,
+          ],
+        );
+      }
+      await client.query("COMMIT");
+    } catch (error) {
+      await client.query("ROLLBACK");
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  static async listBlockedTime(
+    providerId: string,
+    from = new Date(),
+  ): Promise<BlockedTime[]> {
+    const result = await this.pool().query(
+      `SELECT * FROM provider_blocked_time
+      WHERE provider_id = $1 AND ends_at > $2
+      ORDER BY starts_at`,
+      [providerId, from],
+    );
+    return result.rows.map((row) => this.blockFromRow(row));
+  }
+
+  static async blockTime(
+    providerId: string,
+    interval: TimeInterval,
+    reason: string | undefined,
+    createdBy: string,
+  ): Promise<BlockedTime> {
+    const result = await this.pool().query(
+      `INSERT INTO provider_blocked_time
+        (provider_id, starts_at, ends_at, reason, created_by)
+      VALUES ($1, $2, $3, $4, $5)
+      RETURNING *`,
+      [providerId, interval.start, interval.end, reason || null, createdBy],
+    );
+    return this.blockFromRow(result.rows[0]);
+  }
+
+  static async unblockTime(
+    providerId: string,
+    blockId: string,
+  ): Promise<boolean> {
+    const result = await this.pool().query(
+      `DELETE FROM provider_blocked_time
+      WHERE id::text = $1 AND provider_id = $2
+      RETURNING id`,
+      [blockId, providerId],
+    );
+    return result.rows.length > 0;
+  }
+
+  // Bookable start times for an appointment type
+  static async getSlots(
+    providerId: string,
+    type: AppointmentType,
+    from: Date,
+    to: Date,
+    now = new Date(),
+  ): Promise<{ timeZone: string; slots: TimeInterval[] }> {
+    const db = this.pool();
+    const templates = await this.loadTemplates(db, providerId);
+    const busy = await this.loadBusy(
+      db,
+      providerId,
+      this.withBuffers(
+        { start: from, end: to },
+        type.bufferBeforeMinutes,
+        type.bufferAfterMinutes,
+      ),
+    );
+
+    return {
+      timeZone: templates[0]?.timeZone || "UTC",
+      slots: this.generateSlots({
+        availability: this.expandAvailability(templates, from, to),
+        busy,
+        durationMinutes: type.durationMinutes,
+        bufferBeforeMinutes: type.bufferBeforeMinutes,
+        bufferAfterMinutes: type.bufferAfterMinutes,
+        notBefore: now,
+      }),
+    };
+  }
+
+  /**
+   * Book an appointment if the time is free. The availability, blocked
+   * time and overlap checks and the insert run under the provider's lock.
+   */
+  static async bookAppointment(booking: {
+    patientId: string;
+    providerId: string;
+    type: AppointmentType;
+    start: Date;
+    durationMinutes?: number;
+    notes?: string;
+    createdBy: string;
+  }): Promise<BookingResult> {
+    const durationMinutes =
+      booking.durationMinutes || booking.type.durationMinutes;
+    const visit = {
+      start: booking.start,
+      end: new Date(booking.start.getTime() + durationMinutes * MINUTE),
+    };
+    if (visit.start.getTime() < Date.now()) {
+      return { ok: false, reason: "in_past" };
+    }
+
+    return this.withProviderLock(booking.providerId, async (client) => {
+      const conflict = await this.findConflict(client, {
+        providerId: booking.providerId,
+        patientId: booking.patientId,
+        visit,
+        bufferBeforeMinutes: booking.type.bufferBeforeMinutes,
+        bufferAfterMinutes: booking.type.bufferAfterMinutes,
+      });
+      if (conflict) {
+        return { ok: false, reason: conflict };
+      }
+
+      const result = await client.query(
+        `INSERT INTO appointments
+          (patient_id, provider_id, date_time, duration, type, status, notes,
+           buffer_before, buffer_after, created_by)
+        VALUES ($1, $2, $3, $4, $5, 'scheduled', $6, $7, $8, $9)
+        RETURNING *`,
+        [
+          booking.patientId,
+          booking.providerId,
+          visit.start,
+          durationMinutes,
+          booking.type.code,
+          booking.notes || null,
+          booking.type.bufferBeforeMinutes,
+          booking.type.bufferAfterMinutes,
+          booking.createdBy,
+        ],
+      );
+      await this.recordHistory(client, result.rows[0].id, {
+        toStatus: "scheduled",
+        changedBy: booking.createdBy,
+      });
+
+      return { ok: true, appointment: this.fromRow(result.rows[0]) };
+    });
+  }
+
+  // Move an appointment to a new time, under the same checks as booking
+  static async rescheduleAppointment(
+    appointment: Appointment,
+    start: Date,
+    changedBy: string,
+    reason?: string,
+  ): Promise<BookingResult> {
+    const visit = {
+      start,
+      end: new Date(start.getTime() + appointment.durationMinutes * MINUTE),
+    };
+    if (visit.start.getTime() < Date.now()) {
+      return { ok: false, reason: "in_past" };
+    }
+
+    return this.withProviderLock(appointment.providerId, async (client) => {
+      const conflict = await this.findConflict(client, {
+        providerId: appointment.providerId,
+        patientId: appointment.patientId,
+        visit,
+        bufferBeforeMinutes: appointment.bufferBeforeMinutes,
+        bufferAfterMinutes: appointment.bufferAfterMinutes,
+        excludeAppointmentId: appointment.id,
+      });
+      if (conflict) {
+        return { ok: false, reason: conflict };
+      }
+
+      // Moving a confirmed visit needs confirming again
+      const result = await client.query(
+        `UPDATE appointments
+        SET date_time = $2, status = 'scheduled',
+          reschedule_count = reschedule_count + 1, sequence = sequence + 1,
+          updated_at = NOW()
+        WHERE id = $1 AND status = ANY($3)
+        RETURNING *`,
+        [appointment.id, visit.start, RESCHEDULABLE_STATUSES],
+      );
+      if (result.rows.length === 0) {
+        return { ok: false, reason: "not_reschedulable" };
+      }
+      await this.recordHistory(client, appointment.id, {
+        fromStatus: appointment.status,
+        toStatus: "scheduled",
+        reason,
+        changedBy,
+        previousStart: appointment.start,
+      });
+
+      return { ok: true, appointment: this.fromRow(result.rows[0]) };
+    });
+  }
+
+  /**
+   * Move an appointment along its lifecycle. Returns null when the
+   * appointment changed status in the meantime.
+   */
+  static async transitionStatus(
+    appointment: Appointment,
+    status: AppointmentStatus,
+    changedBy: string,
+    reason?: string,
+  ): Promise<Appointment | null> {
+    const client = await this.pool().connect();
+    try {
+      await client.query("BEGIN");
+      const result = await client.query(
+        `UPDATE appointments
+        SET status = $2, status_reason = $3, sequence = sequence + 1,
+          updated_at = NOW()
+        WHERE id = $1 AND status = $4
+        RETURNING *`,
+        [appointment.id, status, reason || null, appointment.status],
+      );
+      if (result.rows.length === 0) {
+        await client.query("ROLLBACK");
+        return null;
+      }
+      await this.recordHistory(client, appointment.id, {
+        fromStatus: appointment.status,
+        toStatus: status,
+        reason,
+        changedBy,
+      });
+      await client.query("COMMIT");
+      return this.fromRow(result.rows[0]);
+    } catch (error) {
+      await client.query("ROLLBACK");
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  static async getAppointment(id: string): Promise<Appointment | null> {
+    const result = await this.pool().query(
+      "SELECT * FROM appointments WHERE id::text = $1",
+      [id],
+    );
+    return result.rows[0] ? this.fromRow(result.rows[0]) : null;
+  }
+
+  static async getHistory(appointmentId: string): Promise<StatusChange[]> {
+    const result = await this.pool().query(
+      `SELECT * FROM appointment_status_history
+      WHERE appointment_id = $1
+      ORDER BY changed_at, id`,
+      [appointmentId],
+    );
+    return result.rows.map((row) => ({
+      fromStatus: row.from_status || undefined,
+      toStatus: row.to_status,
+      reason: row.reason || undefined,
+      changedBy: row.changed_by || undefined,
+      changedAt: new Date(row.changed_at).toISOString(),
+      previousStart: row.previous_date_time
+        ? new Date(row.previous_date_time).toISOString()
+        : undefined,
+    }));
+  }
+
+  /**
+   * No-show counts per patient or per provider over past visits. Only
+   * completed and no-show visits count towards the rate.
+   */
+  static async noShowStats(
+    groupBy: "patient" | "provider",
+    filter: { patientId?: string; providerId?: string; from?: Date; to?: Date },
+  ): Promise<NoShowStats[]> {
+    const column = groupBy === "patient" ? "patient_id" : "provider_id";
+    const result = await this.pool().query(
+      `SELECT ${column} AS id,
+        COUNT(*) FILTER (WHERE status = 'completed') AS completed,
+        COUNT(*) FILTER (WHERE status = 'no_show') AS no_shows,
+        COUNT(*) FILTER (WHERE status = 'cancelled') AS cancelled
+      FROM appointments
+      WHERE ($1::uuid IS NULL OR patient_id = $1)
+        AND ($2::uuid IS NULL OR provider_id = $2)
+        AND ($3::timestamptz IS NULL OR date_time >= $3)
+        AND date_time < COALESCE($4::timestamptz, NOW())
+      GROUP BY ${column}
+      ORDER BY no_shows DESC`,
+      [
+        filter.patientId || null,
+        filter.providerId || null,
+        filter.from || null,
+        filter.to || null,
+      ],
+    );
+    return result.rows.map((row) => {
+      const completed = Number(row.completed);
+      const noShows = Number(row.no_shows);
+      return {
+        id: row.id,
+        completed,
+        noShows,
+        cancelled: Number(row.cancelled),
+        noShowRate: this.noShowRate(noShows, completed),
+      };
+    });
+  }
+
+  static noShowRate(noShows: number, completed: number): number | null {
+    const total = noShows + completed;
+    return total === 0 ? null : Math.round((noShows / total) * 1000) / 1000;
+  }
+
+  static canTransition(from: string, to: AppointmentStatus): boolean {
+    return (STATUS_TRANSITIONS[from] || []).includes(to);
+  }
+
+  static canReschedule(status: string): boolean {
+    return RESCHEDULABLE_STATUSES.includes(status);
+  }
+
+  // Patients and caregivers book the type's length; only the provider or a
+  // scheduler may set another
+  static mayOverrideDuration(
+    user: { id: string; role: string },
+    providerId: string,
+  ): boolean {
+    return (
+      user.id === providerId ||
+      AccessControl.hasPermission(user.role, "scheduling:manage")
+    );
+  }
+
+  /**
+   * Why a patient may not cancel or reschedule themselves, or null when
+   * policy allows it. Staff are not bound by these windows.
+   */
+  static patientChangeBlocked(
+    appointment: Appointment,
+    change: "cancel" | "reschedule",
+    now = new Date(),
+  ): "notice_period" | "reschedule_limit" | null {
+    const noticeMs = PATIENT_CHANGE_NOTICE_HOURS * 60 * MINUTE;
+    if (new Date(appointment.start).getTime() - now.getTime() < noticeMs) {
+      return "notice_period";
+    }
+    if (
+      change === "reschedule" &&
+      appointment.rescheduleCount >= MAX_PATIENT_RESCHEDULES
+    ) {
+      return "reschedule_limit";
+    }
+    return null;
+  }
+
+  static async listAppointments(filter: {
+    patientId?: string;
+    providerId?: string;
+    from?: Date;
+    to?: Date;
+  }): Promise<Appointment[]> {
+    const result = await this.pool().query(
+      `SELECT * FROM appointments
+      WHERE ($1::uuid IS NULL OR patient_id = $1)
+        AND ($2::uuid IS NULL OR provider_id = $2)
+        AND ($3::timestamptz IS NULL OR date_time >= $3)
+        AND ($4::timestamptz IS NULL OR date_time < $4)
+      ORDER BY date_time`,
+      [
+        filter.patientId || null,
+        filter.providerId || null,
+        filter.from || null,
+        filter.to || null,
+      ],
+    );
+    return result.rows.map((row) => this.fromRow(row));
+  }
+
+  static fromRow(row: any): Appointment {
+    const start = new Date(row.date_time);
+    return {
+      id: row.id,
+      patientId: row.patient_id,
+      providerId: row.provider_id,
+      type: row.type,
+      start: start.toISOString(),
+      end: new Date(start.getTime() + row.duration * MINUTE).toISOString(),
+      durationMinutes: row.duration,
+      status: row.status,
+      statusReason: row.status_reason || undefined,
+      rescheduleCount: row.reschedule_count || 0,
+      sequence: row.sequence || 0,
+      bufferBeforeMinutes: row.buffer_before || 0,
+      bufferAfterMinutes: row.buffer_after || 0,
+      notes: row.notes || undefined,
+      videoUrl: row.video_url || undefined,
+      createdAt: new Date(row.created_at).toISOString(),
+      updatedAt: new Date(row.updated_at || row.created_at).toISOString(),
+    };
+  }
+
+  private static providerFromRow(row: any): Provider {
+    return {
+      id: row.id,
+      name: `${row.first_name} ${row.last_name}`,
+      role: row.role,
+      specialty: row.specialty || undefined,
+      timeZone: row.time_zone || "UTC",
+    };
+  }
+
+  private static typeFromRow(row: any): AppointmentType {
+    return {
+      id: row.id,
+      code: row.code,
+      name: row.name,
+      durationMinutes: row.duration_minutes,
+      bufferBeforeMinutes: row.buffer_before_minutes,
+      bufferAfterMinutes: row.buffer_after_minutes,
+      active: row.active,
+    };
+  }
+
+  private static blockFromRow(row: any): BlockedTime {
+    return {
+      id: row.id,
+      providerId: row.provider_id,
+      start: new Date(row.starts_at).toISOString(),
+      end: new Date(row.ends_at).toISOString(),
+      reason: row.reason || undefined,
+    };
+  }
+
+  // Run fn in a transaction holding the provider's booking lock
+  private static async withProviderLock<T>(
+    providerId: string,
+    fn: (client: PoolClient) => Promise<T>,
+  ): Promise<T> {
+    const client = await this.pool().connect();
+    try {
+      await client.query("BEGIN");
+      await client.query("SELECT pg_advisory_xact_lock(hashtext($1))", [
+        `appointments:${providerId}`,
+      ]);
+      const result = await fn(client);
+      await client.query("COMMIT");
+      return result;
+    } catch (error) {
+      await client.query("ROLLBACK");
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  private static async findConflict(
+    db: Queryable,
+    check: {
+      providerId: string;
+      patientId: string;
+      visit: TimeInterval;
+      bufferBeforeMinutes: number;
+      bufferAfterMinutes: number;
+      excludeAppointmentId?: string;
+    },
+  ): Promise<ConflictReason | null> {
+    const { visit } = check;
+    const templates = await this.loadTemplates(db, check.providerId);
+    const availability = this.expandAvailability(
+      templates,
+      new Date(visit.start.getTime() - DAY),
+      new Date(visit.end.getTime() + DAY),
+    );
+    if (
+      !availability.some(
+        (window) => window.start <= visit.start && visit.end <= window.end,
+      )
+    ) {
+      return "outside_availability";
+    }
+
+    const busy = await this.loadBusy(
+      db,
+      check.providerId,
+      this.withBuffers(
+        visit,
+        check.bufferBeforeMinutes,
+        check.bufferAfterMinutes,
+      ),
+      check.excludeAppointmentId,
+    );
+    if (busy.length > 0) {
+      return busy[0].source === "blocked"
+        ? "blocked_time"
+        : "provider_conflict";
+    }
+
+    const patientConflict = await db.query(
+      `SELECT id FROM appointments
+      WHERE patient_id = $1 AND status = ANY($4)
+        AND date_time < $3
+        AND date_time + make_interval(mins => duration) > $2
+        AND ($5::uuid IS NULL OR id <> $5)
+      LIMIT 1`,
+      [
+        check.patientId,
+        visit.start,
+        visit.end,
+        BOOKED_STATUSES,
+        check.excludeAppointmentId || null,
+      ],
+    );
+    return patientConflict.rows.length > 0 ? "patient_conflict" : null;
+  }
+
+  private static async recordHistory(
+    db: Queryable,
+    appointmentId: string,
+    change: {
+      fromStatus?: string;
+      toStatus: string;
+      reason?: string;
+      changedBy: string;
+      previousStart?: string;
+    },
+  ): Promise<void> {
+    await db.query(
+      `INSERT INTO appointment_status_history
+        (appointment_id, from_status, to_status, reason, changed_by,
+         previous_date_time)
+      VALUES ($1, $2, $3, $4, $5, $6)`,
+      [
+        appointmentId,
+        change.fromStatus || null,
+        change.toStatus,
+        change.reason || null,
+        change.changedBy,
+        change.previousStart || null,
+      ],
+    );
+  }
+
+  private static async loadTemplates(
+    db: Queryable,
+    providerId: string,
+  ): Promise<AvailabilityTemplate[]> {
+    const result = await db.query(
+      `SELECT * FROM provider_availability
+      WHERE provider_id = $1
+      ORDER BY day_of_week, start_time`,
+      [providerId],
+    );
+    return result.rows.map((row) => ({
+      dayOfWeek: row.day_of_week,
+      startTime: String(row.start_time).slice(0, 5),
+      endTime: String(row.end_time).slice(0, 5),
+      timeZone: row.time_zone,
+      effectiveFrom: row.effective_from ? isoDate(row.effective_from) : null,
+      effectiveUntil: row.effective_until ? isoDate(row.effective_until) : null,
+    }));
+  }
+
+  // Appointments (with their buffers) and blocked time overlapping a range
+  private static async loadBusy(
+    db: Queryable,
+    providerId: string,
+    range: TimeInterval,
+    excludeAppointmentId?: string,
+  ): Promise<BusyInterval[]> {
+    const result = await db.query(
+      `SELECT 'appointment' AS source,
+          date_time - make_interval(mins => buffer_before) AS starts_at,
+          date_time + make_interval(mins => duration + buffer_after) AS ends_at
+        FROM appointments
+        WHERE provider_id = $1 AND status = ANY($4)
+          AND ($5::uuid IS NULL OR id <> $5)
+          AND date_time - make_interval(mins => buffer_before) < $3
+          AND date_time + make_interval(mins => duration + buffer_after) > $2
+      UNION ALL
+      SELECT 'blocked' AS source, starts_at, ends_at
+        FROM provider_blocked_time
+        WHERE provider_id = $1 AND starts_at < $3 AND ends_at > $2
+      ORDER BY starts_at`,
+      [
+        providerId,
+        range.start,
+        range.end,
+        BOOKED_STATUSES,
+        excludeAppointmentId || null,
+      ],
+    );
+    return result.rows.map((row) => ({
+      source: row.source,
+      start: new Date(row.starts_at),
+      end: new Date(row.ends_at),
+    }));
+  }
+
+  // Milliseconds the zone is ahead of UTC at an instant
+  static zoneOffset(instant: Date, timeZone: string): number {
+    const parts = this.zonedParts(instant, timeZone);
+    const asUtc = Date.UTC(
+      Number(parts.year),
+      Number(parts.month) - 1,
+      Number(parts.day),
+      Number(parts.hour),
+      Number(parts.minute),
+      Number(parts.second),
+    );
+    return asUtc - Math.floor(instant.getTime() / 1000) * 1000;
+  }
+
+  private static zonedParts(
+    instant: Date,
+    timeZone: string,
+  ): Record<string, string> {
+    return Object.fromEntries(
+      new Intl.DateTimeFormat("en-US", {
+        timeZone,
+        hourCycle: "h23",
+        year: "numeric",
+        month: "2-digit",
+        day: "2-digit",
+        hour: "2-digit",
+        minute: "2-digit",
+        second: "2-digit",
+      })
+        .formatToParts(instant)
+        .map((part) => [part.type, part.value]),
+    );
+  }
+
+  private static pool() {
+    if (!dbPool) {
+      throw new Error("PostgreSQL pool not configured");
+    }
+    return dbPool;
+  }
+}
+
+const overlaps = (a: TimeInterval, b: TimeInterval) =>
+  a.start < b.end && b.start < a.end;
+
+const mergeIntervals = (intervals: TimeInterval[]): TimeInterval[] =>
+  [...intervals]
+    .sort((a, b) => a.start.getTime() - b.start.getTime())
+    .reduce<TimeInterval[]>((merged, interval) => {
+      const last = merged[merged.length - 1];
+      if (last && interval.start <= last.end) {
+        last.end = new Date(
+          Math.max(last.end.getTime(), interval.end.getTime()),
+        );
+      } else {
+        merged.push({ ...interval });
+      }
+      return merged;
+    }, []);
+
+const dayOfWeek = (date: string) => new Date(`${date}T00:00:00Z`).getUTCDay();
+
+// DATE columns come back as local-midnight Dates from pg
+const isoDate = (value: any) =>
+  value instanceof Date
+    ? `${value.getFullYear()}-${String(value.getMonth() + 1).padStart(2, "0")}-${String(value.getDate()).padStart(2, "0")}`
+    : String(value).slice(0, 10);
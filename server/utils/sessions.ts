@@ -0,0 +1,290 @@
+import crypto from "crypto";
+import jwt from "jsonwebtoken";
+import { dbPool } from "../config/database";
+
+// Server-side login sessions. Each login creates a session; access tokens
+// carry its id (`sid`) so revocation takes effect immediately, and refresh
+// tokens rotate on every use. Presenting a refresh token that has already
+// been rotated means it was copied, so the session is revoked.
+
+export const SESSION_LIFETIME_DAYS = 30;
+export const REFRESH_TOKEN_DAYS = 7;
+// last_active_at is only written when older than this, not on every request
+const ACTIVITY_WRITE_INTERVAL_MS = 60 * 1000;
+
+// Idle timeout in minutes by role; override with SESSION_IDLE_TIMEOUTS,
+// e.g. "doctor=15,patient=120"
+const DEFAULT_IDLE_TIMEOUTS: Record<string, number> = {
+  patient: 60,
+  caregiver: 60,
+  doctor: 15,
+  nurse: 15,
+  pharmacist: 15,
+  admin: 15,
+  compliance_officer: 15,
+};
+const FALLBACK_IDLE_TIMEOUT = 30;
+
+export type SessionRevocationReason =
+  | "logout"
+  | "logout_all"
+  | "user_revoked"
+  | "admin_revoked"
+  | "password_reset"
+  | "account_deactivated"
+  | "role_changed"
+  | "refresh_token_reuse"
+  | "idle_timeout";
+
+export type SessionCheck = "active" | "revoked" | "idle_timeout" | "expired";
+
+export type RefreshResult =
+  | { ok: true; sessionId: string; userId: string; refreshToken: string }
+  | { ok: false; reason: SessionCheck | "invalid" | "reuse_detected" };
+
+export interface SessionInfo {
+  id: string;
+  device: string;
+  userAgent?: string;
+  ipAddress?: string;
+  createdAt: string;
+  lastActiveAt: string;
+  expiresAt: string;
+  current: boolean;
+}
+
+const sha256 = (value: string) =>
+  crypto.createHash("sha256").update(value).digest("hex");
+
+export class SessionService {
+  static idleTimeoutMinutes(role: string): number {
+    const overrides = Object.fromEntries(
+      (process.env.SESSION_IDLE_TIMEOUTS || "")
+        .split(",")
+        .map((pair) => pair.split("=").map((part) => part.trim()))
+        .filter(([key, value]) => key && Number(value) > 0)
+        .map(([key, value]) => [key, Number(value)]),
+    );
+    return (
+      overrides[role] ?? DEFAULT_IDLE_TIMEOUTS[role] ?? FALLBACK_IDLE_TIMEOUT
+    );
+  }
+
+  static isIdle(lastActiveAt: Date, role: string, now = new Date()): boolean {
+    return (
+      now.getTime() - lastActiveAt.getTime() >
+      this.idleTimeoutMinutes(role) * 60 * 1000
+    );
+  }
+
+  // Short label such as "Chrome on Windows" for the device list
+  static describeUserAgent(userAgent?: string | null): string {
+    if (!userAgent) return "Unknown device";
+
+    const browser =
+      [
+        ["Edg/", "Edge"],
+        ["OPR/", "Opera"],
+        ["Chrome/", "Chrome"],
+        ["Firefox/", "Firefox"],
+        ["Safari/", "Safari"],
+      ].find(([token]) => userAgent.includes(token))?.[1] ||
+      (/okhttp|Dalvik/i.test(userAgent) ? "Android app" : null) ||
+      (/CFNetwork/i.test(userAgent) ? "iOS app" : null);
+    const os = [
+      ["Windows", "Windows"],
+      ["iPhone", "iOS"],
+      ["iPad", "iPadOS"],
+      ["Android", "Android"],
+      ["Mac OS X", "macOS"],
+      ["Linux", "Linux"],
+    ].find(([token]) => userAgent.includes(token))?.[1];
+
+    if (browser && os) return `${browser} on ${os}`;
+    return browser || os || "Unknown device";
+  }
+
+  static async create(
+    userId: string,
+    client: { userAgent?: string; ipAddress?: string } = {},
+  ): Promise<{ sessionId: string; refreshToken: string }> {
+    const sessionId = crypto.randomUUID();
+    const refreshToken = this.signRefreshToken(userId, sessionId);
+
+    await this.pool().query(
+      `INSERT INTO user_sessions
+        (id, user_id, refresh_token_hash, user_agent, ip_address, expires_at)
+      VALUES ($1, $2, $3, $4, $5, NOW() + make_interval(days => $6))`,
+      [
+        sessionId,
+        userId,
+        sha256(refreshToken),
+        client.userAgent?.slice(0, 500) || null,
+        client.ipAddress || null,
+        SESSION_LIFETIME_DAYS,
+      ],
+    );
+    return { sessionId, refreshToken };
+  }
+
+  // Exchange a refresh token for a new one, detecting reuse of old tokens
+  static async rotate(refreshToken: string): Promise<RefreshResult> {
+    let decoded: any;
+    try {
+      decoded = jwt.verify(refreshToken, process.env.JWT_SECRET!);
+    } catch {
+      return { ok: false, reason: "invalid" };
+    }
+    if (decoded.type !== "refresh" || !decoded.sid) {
+      return { ok: false, reason: "invalid" };
+    }
+
+    const session = await this.getSessionRow(decoded.sid);
+    if (!session || session.user_id !== decoded.userId) {
+      return { ok: false, reason: "invalid" };
+    }
+
+    const status = await this.checkSession(session);
+    if (status !== "active") {
+      return { ok: false, reason: status };
+    }
+
+    const nextToken = this.signRefreshToken(session.user_id, session.id);
+    const rotated = await this.pool().query(
+      `UPDATE user_sessions
+      SET refresh_token_hash = $3, last_active_at = NOW()
+      WHERE id = $1 AND refresh_token_hash = $2 AND revoked_at IS NULL
+      RETURNING id`,
+      [session.id, sha256(refreshToken), sha256(nextToken)],
+    );
+
+    if (rotated.rows.length === 0) {
+      await this.revoke(session.id, "refresh_token_reuse");
+      return { ok: false, reason: "reuse_detected" };
+    }
+
+    return {
+      ok: true,
+      sessionId: session.id,
+      userId: session.user_id,
+      refreshToken: nextToken,
+    };
+  }
+
+  /**
+   * Validate the session behind an access token and record activity.
+   * Sessions idle past their role's timeout are revoked here.
+   */
+  static async touch(sessionId: string, userId: string): Promise<SessionCheck> {
+    const session = await this.getSessionRow(sessionId);
+    if (!session || session.user_id !== userId) {
+      return "revoked";
+    }
+
+    const status = await this.checkSession(session);
+    if (
+      status === "active" &&
+      Date.now() - new Date(session.last_active_at).getTime() >
+        ACTIVITY_WRITE_INTERVAL_MS
+    ) {
+      await this.pool().query(
+        "UPDATE user_sessions SET last_active_at = NOW() WHERE id = $1",
+        [sessionId],
+      );
+    }
+    return status;
+  }
+
+  static async list(
+    userId: string,
+    currentSessionId?: string,
+  ): Promise<SessionInfo[]> {
+    const result = await this.pool().query(
+      `SELECT * FROM user_sessions
+      WHERE user_id = $1 AND revoked_at IS NULL AND expires_at > NOW()
+      ORDER BY last_active_at DESC`,
+      [userId],
+    );
+    return result.rows.map((row) => this.fromRow(row, currentSessionId));
+  }
+
+  static async revoke(
+    sessionId: string,
+    reason: SessionRevocationReason,
+    userId?: string,
+  ): Promise<boolean> {
+    const result = await this.pool().query(
+      `UPDATE user_sessions SET revoked_at = NOW(), revoked_reason = $2
+      WHERE id::text = $1 AND revoked_at IS NULL
+        ${userId ? "AND user_id = $3" : ""}
+      RETURNING id`,
+      userId ? [sessionId, reason, userId] : [sessionId, reason],
+    );
+    return result.rows.length > 0;
+  }
+
+  // Revoke every open session of a user; returns how many were revoked
+  static async revokeAll(
+    userId: string,
+    reason: SessionRevocationReason,
+    exceptSessionId?: string,
+  ): Promise<number> {
+    const result = await this.pool().query(
+      `UPDATE user_sessions SET revoked_at = NOW(), revoked_reason = $2
+      WHERE user_id = $1 AND revoked_at IS NULL
+        AND ($3::uuid IS NULL OR id <> $3::uuid)`,
+      [userId, reason, exceptSessionId || null],
+    );
+    return result.rowCount || 0;
+  }
+
+  static fromRow(row: any, currentSessionId?: string): SessionInfo {
+    return {
+      id: row.id,
+      device: this.describeUserAgent(row.user_agent),
+      userAgent: row.user_agent || undefined,
+      ipAddress: row.ip_address || undefined,
+      createdAt: new Date(row.created_at).toISOString(),
+      lastActiveAt: new Date(row.last_active_at).toISOString(),
+      expiresAt: new Date(row.expires_at).toISOString(),
+      current: row.id === currentSessionId,
+    };
+  }
+
+  private static signRefreshToken(userId: string, sessionId: string): string {
+    // jti keeps tokens rotated within the same second distinct
+    return jwt.sign(
+      { userId, type: "refresh", sid: sessionId, jti: crypto.randomUUID() },
+      process.env.JWT_SECRET!,
+      { expiresIn: `${REFRESH_TOKEN_DAYS}d` },
+    );
+  }
+
+  // Revokes idle sessions as a side effect
+  private static async checkSession(session: any): Promise<SessionCheck> {
+    if (session.revoked_at) return "revoked";
+    if (new Date(session.expires_at) <= new Date()) return "expired";
+    if (this.isIdle(new Date(session.last_active_at), session.role)) {
+      await this.revoke(session.id, "idle_timeout");
+      return "idle_timeout";
+    }
+    return "active";
+  }
+
+  private static async getSessionRow(sessionId: string) {
+    const result = await this.pool().query(
+      `SELECT s.*, u.role FROM user_sessions s
+      JOIN users u ON u.id = s.user_id
+      WHERE s.id::text = $1`,
+      [sessionId],
+    );
+    return result.rows[0] || null;
+  }
+
+  private static pool() {
+    if (!dbPool) {
+      throw new Error("PostgreSQL pool not configured");
+    }
+    return dbPool;
+  }
+}
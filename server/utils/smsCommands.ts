@@ -0,0 +1,589 @@
+import { dbPool } from "../config/database";
+import { AuditLogger } from "./auditLogger";
+import { CommunicationConsent } from "./communicationConsent";
+import { DEFAULT_LOCALE, MessageTemplates } from "./messageTemplates";
+import { messagingService } from "./messagingService";
+import { PhoneDirectory, PhoneMatch } from "./phoneNumbers";
+import { SmsInbox } from "./smsInbox";
+import { thresholdService, ThresholdAlert } from "./thresholdService";
+import { getWebSocketService } from "./websocket";
+
+// Commands patients text in. A message is a keyword and its arguments
+// ("BP 132/85", "WT 81.2kg", "TAKEN METFORMIN"); the keyword picks a
+// registered command, which parses the arguments, acts on the sender's
+// record and names the template to reply with. Replies are rendered from
+// the template catalog, so they go out in the patient's language.
+
+export interface InboundSms {
+  messageId: string;
+  from: string;
+  to: string;
+  text: string;
+  receivedAt: Date;
+}
+
+export interface SmsReply {
+  template: string;
+  variables?: Record<string, string>;
+  priority?: "low" | "medium" | "high" | "critical";
+}
+
+export type ParsedArgs<T> =
+  | { ok: true; value: T }
+  | { ok: false; reason: string };
+
+export interface SmsCommand<T = any> {
+  keyword: string;
+  aliases?: string[];
+  // A correct message, sent back when the arguments cannot be read
+  example: string;
+  // Commands that write to a record only run for a recognised patient
+  needsPatient: boolean;
+  // STOP, START and HELP, answered even to a number that opted out
+  carrierKeyword?: boolean;
+  parse(args: string): ParsedArgs<T>;
+  run(request: {
+    sms: InboundSms;
+    patient: PhoneMatch | null;
+    value: T;
+  }): Promise<SmsReply>;
+}
+
+export interface VitalReading {
+  type: string;
+  value: number;
+  unit: string;
+}
+
+// Glucose replies carry self-care advice outside this range, whatever the
+// patient's alert thresholds are
+const GLUCOSE_ADVICE_LOW = 70;
+const GLUCOSE_ADVICE_HIGH = 250;
+const MMOL_TO_MG_DL = 18.016;
+
+// Decimals may be written with a comma ("81,2")
+const NUMBER = "(\\d{1,3}(?:[.,]\\d+)?)";
+const toNumber = (text: string) => parseFloat(text.replace(",", "."));
+
+export class SmsCommands {
+  private static commands = new Map<string, SmsCommand>();
+  // Messages that are only a number are glucose readings
+  private static numberCommand = "GLU";
+
+  static register(command: SmsCommand): void {
+    for (const keyword of [command.keyword, ...(command.aliases || [])]) {
+      this.commands.set(keyword.toUpperCase(), command);
+    }
+  }
+
+  // The command a message invokes, with the text of its arguments
+  static match(text: string): { command: SmsCommand; args: string } | null {
+    const trimmed = String(text || "").trim();
+    const [keyword = "", ...rest] = trimmed.split(/\s+/);
+    const command = this.commands.get(keyword.toUpperCase());
+    if (command) {
+      return { command, args: rest.join(" ") };
+    }
+    const numbers = this.commands.get(this.numberCommand);
+    return numbers && /^\d/.test(trimmed)
+      ? { command: numbers, args: trimmed }
+      : null;
+  }
+
+  /**
+   * The medications a TAKEN message may refer to: those whose name starts
+   * with what the patient wrote, or whose first word does ("METFORMIN"
+   * for "Metformin 500mg"). With no name, all of them.
+   */
+  static medicationsNamed<M extends { name: string }>(
+    medications: M[],
+    name: string,
+  ): M[] {
+    const wanted = name.trim().toLowerCase();
+    if (!wanted) return medications;
+    return medications.filter((medication) => {
+      const full = medication.name.trim().toLowerCase();
+      return full.startsWith(wanted) || wanted.startsWith(full.split(/\s/)[0]);
+    });
+  }
+
+  /**
+   * Handle one inbound message: find the patient it came from, run the
+   * command and text the reply back. Texts from a patient are kept on
+   * their inbox thread; free text, and commands that could not be read,
+   * wait there for staff to answer. Returns the reply sent.
+   */
+  static async handle(sms: InboundSms): Promise<string | null> {
+    const patient = await PhoneDirectory.findPatient(sms.from);
+    const locale = patient
+      ? await MessageTemplates.patientLocale(patient.id)
+      : DEFAULT_LOCALE;
+    const matched = this.match(sms.text);
+    const parsed = matched?.command.parse(matched.args);
+
+    AuditLogger.logCommunication(patient?.id || "unknown", "sms", "inbound", {
+      messageId: sms.messageId,
+      from: sms.from,
+      to: sms.to,
+      message: sms.text,
+      command: matched?.command.keyword,
+    });
+
+    const thread = patient
+      ? (
+          await SmsInbox.receive({
+            patientId: patient.id,
+            phone: sms.from,
+            to: sms.to,
+            text: sms.text,
+            messageId: sms.messageId,
+            receivedAt: sms.receivedAt,
+            kind: matched ? "command" : "message",
+            needsReply: !parsed?.ok,
+          })
+        ).thread
+      : null;
+
+    let reply: SmsReply;
+    if (!matched || !parsed) {
+      reply = {
+        template: patient ? "sms_message_received" : "sms_unknown_command",
+      };
+    } else if (matched.command.needsPatient && !patient) {
+      reply = { template: "sms_unknown_sender" };
+    } else if (parsed.ok === false) {
+      reply = {
+        template: "sms_command_invalid",
+        variables: { example: matched.command.example },
+      };
+    } else {
+      reply = await matched.command.run({ sms, patient, value: parsed.value });
+    }
+
+    const rendered = await MessageTemplates.render(
+      reply.template,
+      "sms",
+      locale,
+      reply.variables,
+    );
+    if (!rendered) return null;
+
+    const result = await messagingService.sendMessage({
+      to: sms.from,
+      message: rendered.text,
+      type: "sms",
+      priority: reply.priority || "low",
+      category: "system",
+      patientId: patient?.id,
+      keywordReply: Boolean(matched?.command.carrierKeyword && parsed?.ok),
+    });
+    if (thread) {
+      await SmsInbox.recordOutbound(
+        thread,
+        rendered.text,
+        "command_reply",
+        result,
+      );
+    }
+    return rendered.text;
+  }
+
+  /**
+   * Store readings a patient texted in as vital signs, then check each
+   * against the patient's thresholds. The care team hears about every
+   * reading that crosses one.
+   */
+  static async recordVitals(
+    patient: PhoneMatch,
+    readings: VitalReading[],
+    sms: InboundSms,
+  ): Promise<ThresholdAlert[]> {
+    for (const reading of readings) {
+      await this.pool().query(
+        `INSERT INTO vital_signs
+          (user_id, type, value, unit, measured_at, source)
+        VALUES ($1, $2, $3, $4, $5, 'sms')`,
+        [patient.id, reading.type, reading.value, reading.unit, sms.receivedAt],
+      );
+    }
+    AuditLogger.logMedicalEvent(patient.id, "vital_reading_sms", {
+      messageId: sms.messageId,
+      readings,
+      source: "sms",
+    });
+
+    const alerts: ThresholdAlert[] = [];
+    for (const reading of readings) {
+      const alert = await thresholdService.checkThreshold(
+        patient.id,
+        reading.type,
+        reading.value,
+      );
+      if (alert) alerts.push(alert);
+    }
+    for (const alert of alerts) {
+      await this.notifyCareTeam(patient.id, alert.severity, {
+        source: "sms",
+        thresholdType: alert.thresholdType,
+        message: alert.alertMessage,
+      });
+    }
+    return alerts;
+  }
+
+  // Record a dose the patient says they took, against one of their
+  // medications when the message identifies it
+  static async recordDose(
+    patient: PhoneMatch,
+    name: string,
+    sms: InboundSms,
+  ): Promise<SmsReply> {
+    const medications = await this.pool().query(
+      `SELECT id, name FROM medications
+      WHERE user_id = $1 AND active = true
+      ORDER BY name`,
+      [patient.id],
+    );
+    const candidates = this.medicationsNamed(medications.rows, name);
+    if (name && medications.rows.length > 0 && candidates.length === 0) {
+      return {
+        template: "sms_medication_unknown",
+        variables: {
+          medication: name,
+          medications: medications.rows.map((row) => row.name).join(", "),
+        },
+      };
+    }
+
+    const medication = candidates.length === 1 ? candidates[0] : null;
+    const stored = await this.pool().query(
+      `INSERT INTO medication_adherence
+        (patient_id, medication_id, medication_name, status, source,
+         reported_at, message_id)
+      VALUES ($1, $2, $3, 'taken', 'sms', $4, $5)
+      RETURNING id`,
+      [
+        patient.id,
+        medication?.id || null,
+        medication?.name || name || null,
+        sms.receivedAt,
+        sms.messageId,
+      ],
+    );
+
+    AuditLogger.logEvent({
+      userId: patient.id,
+      action: "MEDICATION_DOSE_REPORTED",
+      resourceType: "medication_adherence",
+      resourceId: stored.rows[0].id,
+      details: { medicationId: medication?.id, source: "sms" },
+    });
+
+    return medication || name
+      ? {
+          template: "sms_dose_taken",
+          variables: { medication: medication?.name || name },
+        }
+      : { template: "sms_doses_taken" };
+  }
+
+  /**
+   * Push a notice to the patient's care team. High and critical ones are
+   * also texted, without clinical detail, to members with a phone.
+   */
+  static async notifyCareTeam(
+    patientId: string,
+    severity: ThresholdAlert["severity"],
+    notice: Record<string, any>,
+  ): Promise<void> {
+    const members = await this.pool().query(
+      `SELECT DISTINCT u.id, u.phone FROM care_team_assignments ct
+      JOIN users u ON u.id = ct.member_id
+      WHERE ct.patient_id = $1 AND ct.active = true
+        AND ct.starts_at <= NOW() AND (ct.ends_at IS NULL OR ct.ends_at > NOW())`,
+      [patientId],
+    );
+
+    const websocket = getWebSocketService();
+    for (const member of members.rows) {
+      websocket?.sendHealthAlert(
+        member.id,
+        { patientId, severity, ...notice },
+        { authenticatedOnly: true },
+      );
+      if (member.phone && (severity === "high" || severity === "critical")) {
+        messagingService
+          .sendMessage({
+            to: member.phone,
+            message: `Telecheck: a ${severity} alert was raised from a patient's text message. Open Telecheck to review it.`,
+            type: "sms",
+            priority: severity,
+            category: severity === "critical" ? "emergency" : "alert",
+            patientId,
+          })
+          .catch((error) =>
+            console.error("Care team SMS notification error:", error),
+          );
+      }
+    }
+  }
+
+  private static pool() {
+    if (!dbPool) {
+      throw new Error("PostgreSQL pool not configured");
+    }
+    return dbPool;
+  }
+}
+
+// Reply for stored readings: flagged when any crossed a threshold
+const readingReply = (reading: string, alerts: ThresholdAlert[]): SmsReply =>
+  alerts.length > 0
+    ? {
+        template: "sms_reading_alert",
+        variables: { reading },
+        priority: "medium",
+      }
+    : { template: "sms_reading_recorded", variables: { reading } };
+
+const bloodPressure: SmsCommand<{
+  systolic: number;
+  diastolic: number;
+  pulse?: number;
+}> = {
+  keyword: "BP",
+  example: "BP 132/85",
+  needsPatient: true,
+  parse(args) {
+    const match =
+      /^(\d{2,3})\s*\/\s*(\d{2,3})(?:\s+(?:P|PULSE|HR)?\s*(\d{2,3}))?$/i.exec(
+        args.trim(),
+      );
+    if (!match) {
+      return { ok: false, reason: "expected systolic/diastolic" };
+    }
+    const [systolic, diastolic] = [Number(match[1]), Number(match[2])];
+    const pulse = match[3] ? Number(match[3]) : undefined;
+    if (systolic < 60 || systolic > 260 || diastolic < 30 || diastolic > 160) {
+      return { ok: false, reason: "blood pressure out of range" };
+    }
+    if (diastolic >= systolic) {
+      return { ok: false, reason: "diastolic must be below systolic" };
+    }
+    if (pulse !== undefined && (pulse < 30 || pulse > 220)) {
+      return { ok: false, reason: "pulse out of range" };
+    }
+    return { ok: true, value: { systolic, diastolic, pulse } };
+  },
+  async run({ sms, patient, value }) {
+    const readings: VitalReading[] = [
+      { type: "blood_pressure_systolic", value: value.systolic, unit: "mmHg" },
+      {
+        type: "blood_pressure_diastolic",
+        value: value.diastolic,
+        unit: "mmHg",
+      },
+    ];
+    if (value.pulse !== undefined) {
+      readings.push({ type: "heart_rate", value: value.pulse, unit: "bpm" });
+    }
+    const alerts = await SmsCommands.recordVitals(patient!, readings, sms);
+    const reading = `${value.systolic}/${value.diastolic} mmHg${
+      value.pulse !== undefined ? `, ${value.pulse} bpm` : ""
+    }`;
+    return readingReply(reading, alerts);
+  },
+};
+
+const weight: SmsCommand<{ value: number; unit: "kg" | "lb" }> = {
+  keyword: "WT",
+  aliases: ["WEIGHT"],
+  example: "WT 81.2kg",
+  needsPatient: true,
+  parse(args) {
+    const match = new RegExp(`^${NUMBER}\\s*(KGS?|LBS?)?$`, "i").exec(
+      args.trim(),
+    );
+    if (!match) {
+      return { ok: false, reason: "expected a weight in kg or lb" };
+    }
+    // Kilograms unless pounds are given
+    const unit = match[2]?.toUpperCase().startsWith("LB") ? "lb" : "kg";
+    const value = toNumber(match[1]);
+    const kilograms = unit === "lb" ? value * 0.45359237 : value;
+    if (kilograms < 20 || kilograms > 300) {
+      return { ok: false, reason: "weight out of range" };
+    }
+    return { ok: true, value: { value, unit } };
+  },
+  async run({ sms, patient, value }) {
+    const alerts = await SmsCommands.recordVitals(
+      patient!,
+      [{ type: "weight", value: value.value, unit: value.unit }],
+      sms,
+    );
+    return readingReply(`${value.value} ${value.unit}`, alerts);
+  },
+};
+
+const glucose: SmsCommand<number> = {
+  keyword: "GLU",
+  aliases: ["BG", "SUGAR", "GLUCOSE"],
+  example: "GLU 120",
+  needsPatient: true,
+  parse(args) {
+    const match = new RegExp(
+      `^${NUMBER}\\s*(MG/DL|MG|MMOL/L|MMOL)?$`,
+      "i",
+    ).exec(args.trim());
+    if (!match) {
+      return { ok: false, reason: "expected a glucose value" };
+    }
+    // Stored in mg/dL; mmol/L only when the patient says so
+    const value = toNumber(match[1]);
+    const mgPerDl = match[2]?.toUpperCase().startsWith("MMOL")
+      ? Math.round(value * MMOL_TO_MG_DL)
+      : value;
+    if (mgPerDl < 20 || mgPerDl > 600) {
+      return { ok: false, reason: "glucose out of range" };
+    }
+    return { ok: true, value: mgPerDl };
+  },
+  async run({ sms, patient, value }) {
+    const alerts = await SmsCommands.recordVitals(
+      patient!,
+      [{ type: "glucose", value, unit: "mg/dL" }],
+      sms,
+    );
+    const reading = `${value} mg/dL`;
+    const crossed = (type: string) =>
+      alerts.some((alert) => alert.thresholdType === type);
+    if (value < GLUCOSE_ADVICE_LOW || crossed("glucose_low")) {
+      return {
+        template: "sms_glucose_low",
+        variables: { value: reading },
+        priority: "high",
+      };
+    }
+    if (value > GLUCOSE_ADVICE_HIGH || crossed("glucose_high")) {
+      return {
+        template: "sms_glucose_high",
+        variables: { value: reading },
+        priority: "medium",
+      };
+    }
+    return readingReply(reading, alerts);
+  },
+};
+
+const taken: SmsCommand<string> = {
+  keyword: "TAKEN",
+  aliases: ["DONE", "YES"],
+  example: "TAKEN METFORMIN",
+  needsPatient: true,
+  parse(args) {
+    return { ok: true, value: args.trim() };
+  },
+  run({ sms, patient, value }) {
+    return SmsCommands.recordDose(patient!, value, sms);
+  },
+};
+
+const help: SmsCommand<null> = {
+  keyword: "HELP",
+  aliases: ["INFO"],
+  example: "HELP",
+  needsPatient: false,
+  carrierKeyword: true,
+  parse() {
+    return { ok: true, value: null };
+  },
+  async run() {
+    return { template: "sms_help" };
+  },
+};
+
+// The opt-out keywords carriers honour. A STOP covers the number, so it
+// also works from a phone not (or not only) on one patient's record.
+const stop: SmsCommand<null> = {
+  keyword: "STOP",
+  aliases: ["STOPALL", "UNSUBSCRIBE", "CANCEL", "END", "QUIT"],
+  example: "STOP",
+  needsPatient: false,
+  carrierKeyword: true,
+  parse() {
+    return { ok: true, value: null };
+  },
+  async run({ sms, patient }) {
+    AuditLogger.logSystemEvent("patient_communication", "opt_out", {
+      patientId: patient?.id,
+      phoneNumber: sms.from,
+      timestamp: sms.receivedAt.toISOString(),
+    });
+    const [keyword] = sms.text.trim().split(/\s+/);
+    await CommunicationConsent.optOut(
+      sms.from,
+      keyword.toUpperCase(),
+      patient?.id,
+    );
+    return { template: "sms_opt_out" };
+  },
+};
+
+const start: SmsCommand<null> = {
+  keyword: "START",
+  aliases: ["UNSTOP"],
+  example: "START",
+  needsPatient: false,
+  carrierKeyword: true,
+  parse() {
+    return { ok: true, value: null };
+  },
+  async run({ sms, patient }) {
+    const [keyword] = sms.text.trim().split(/\s+/);
+    await CommunicationConsent.optIn(
+      sms.from,
+      keyword.toUpperCase(),
+      patient?.id,
+    );
+    return { template: "sms_opt_in" };
+  },
+};
+
+const emergency: SmsCommand<null> = {
+  keyword: "EMERGENCY",
+  aliases: ["URGENT", "911"],
+  example: "EMERGENCY",
+  needsPatient: false,
+  parse() {
+    return { ok: true, value: null };
+  },
+  async run({ sms, patient }) {
+    AuditLogger.logSystemEvent("patient_communication", "emergency_response", {
+      patientId: patient?.id,
+      phoneNumber: sms.from,
+      timestamp: sms.receivedAt.toISOString(),
+      priority: "critical",
+    });
+    if (patient) {
+      await SmsCommands.notifyCareTeam(patient.id, "critical", {
+        source: "sms",
+        message: "Patient texted EMERGENCY",
+      });
+    }
+    return { template: "sms_emergency", priority: "critical" };
+  },
+};
+
+for (const command of [
+  bloodPressure,
+  weight,
+  glucose,
+  taken,
+  help,
+  stop,
+  start,
+  emergency,
+]) {
+  SmsCommands.register(command);
+}
@@ -0,0 +1,618 @@
+import { dbPool } from "../config/database";
+import { MessageResponse, messagingService } from "./messagingService";
+import { MessageTemplates } from "./messageTemplates";
+import { getWebSocketService } from "./websocket";
+
+// Text conversations with patients. Every text a recognised patient sends,
+// and every text sent back, is kept in communication_logs on the patient's
+// thread. Free text (and commands that could not be read) waits in the
+// clinician inbox for a reply: it counts as unread until someone opens the
+// thread, and is overdue once REPLY_SLA_MINUTES pass without a reply.
+
+export const REPLY_SLA_MINUTES = parseInt(
+  process.env.SMS_REPLY_SLA_MINUTES || "240",
+  10,
+);
+// Ten SMS segments
+export const MAX_REPLY_LENGTH = 1600;
+// Placeholders a canned reply may use, filled from the patient's record
+export const CANNED_REPLY_VARIABLES = ["firstName", "lastName"];
+
+export type ThreadStatus = "open" | "closed";
+export const THREAD_STATUSES: ThreadStatus[] = ["open", "closed"];
+
+// message: free text either way; command and command_reply: a texted
+// command and the automatic answer to it
+export type ThreadMessageKind = "message" | "command" | "command_reply";
+
+export interface SmsThread {
+  id: string;
+  patientId: string;
+  patientFirstName: string;
+  patientLastName: string;
+  phone: string;
+  status: ThreadStatus;
+  assignedTo?: string;
+  assignedToName?: string;
+  unreadCount: number;
+  // The oldest patient text nobody has answered yet
+  awaitingReplySince?: string;
+  replyDueAt?: string;
+  overdue: boolean;
+  lastMessageAt?: string;
+  lastMessage?: { direction: "inbound" | "outbound"; text: string };
+  createdAt: string;
+}
+
+export interface ThreadMessage {
+  id: number;
+  threadId: string;
+  direction: "inbound" | "outbound";
+  kind: ThreadMessageKind;
+  text: string;
+  status: string;
+  sentBy?: string;
+  sentByName?: string;
+  provider?: string;
+  externalId?: string;
+  timestamp: string;
+}
+
+export interface InboxSummary {
+  openThreads: number;
+  unreadThreads: number;
+  unreadMessages: number;
+  assignedToMe: number;
+  overdue: number;
+}
+
+export interface CannedReply {
+  id: string;
+  title: string;
+  body: string;
+  category?: string;
+  active: boolean;
+  createdBy?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type ReplyResult =
+  | { ok: true; message: ThreadMessage }
+  | {
+      ok: false;
+      reason: "no_phone" | "blocked" | "send_failed";
+      error?: string;
+    };
+
+const THREAD_SELECT = `
+  SELECT t.*, p.first_name, p.last_name,
+    a.first_name AS assignee_first_name, a.last_name AS assignee_last_name,
+    last.direction AS last_direction, last.message AS last_text
+  FROM sms_threads t
+  JOIN users p ON p.id = t.patient_id
+  LEFT JOIN users a ON a.id = t.assigned_to
+  LEFT JOIN LATERAL (
+    SELECT direction, message FROM communication_logs
+    WHERE thread_id = t.id
+    ORDER BY timestamp DESC, id DESC
+    LIMIT 1
+  ) last ON true`;
+
+const MESSAGE_SELECT = `
+  SELECT l.*, u.first_name AS sender_first_name, u.last_name AS sender_last_name
+  FROM communication_logs l
+  LEFT JOIN users u ON u.id = l.sent_by`;
+
+export class SmsInbox {
+  // When a reply to a text waiting since `since` falls due
+  static replyDue(
+    since: Date | null,
+    now = new Date(),
+  ): { replyDueAt?: Date; overdue: boolean } {
+    if (!since) return { overdue: false };
+    const replyDueAt = new Date(since.getTime() + REPLY_SLA_MINUTES * 60000);
+    return { replyDueAt, overdue: replyDueAt.getTime() < now.getTime() };
+  }
+
+  static validateReply(body: any): string | null {
+    if (typeof body !== "string" || !body.trim()) {
+      return "body is required";
+    }
+    if (body.length > MAX_REPLY_LENGTH) {
+      return `body must be at most ${MAX_REPLY_LENGTH} characters`;
+    }
+    return null;
+  }
+
+  static validateCannedReply(reply: any): string | null {
+    if (typeof reply?.title !== "string" || !reply.title.trim()) {
+      return "title is required";
+    }
+    if (reply.title.length > 100) {
+      return "title must be at most 100 characters";
+    }
+    if (
+      reply.category !== undefined &&
+      reply.category !== null &&
+      (typeof reply.category !== "string" || reply.category.length > 50)
+    ) {
+      return "category must be text of at most 50 characters";
+    }
+    const problem = this.validateReply(reply.body);
+    if (problem) return problem;
+
+    for (const match of reply.body.matchAll(/\{(\w+)\}/g)) {
+      if (!CANNED_REPLY_VARIABLES.includes(match[1])) {
+        return `Unknown placeholder {${match[1]}}; canned replies take ${CANNED_REPLY_VARIABLES.map((name) => `{${name}}`).join(", ")}`;
+      }
+    }
+    return null;
+  }
+
+  // A canned reply's text for the patient on a thread
+  static fillCannedReply(
+    reply: CannedReply,
+    thread: Pick<SmsThread, "patientFirstName" | "patientLastName">,
+  ): string {
+    return MessageTemplates.fill(reply.body, {
+      firstName: thread.patientFirstName,
+      lastName: thread.patientLastName,
+    });
+  }
+
+  /**
+   * Put a text from a patient on their thread, starting one if needed.
+   * Texts that need a reply reopen the thread, count as unread and are
+   * pushed to whoever is working it.
+   */
+  static async receive(entry: {
+    patientId: string;
+    phone: string;
+    to: string;
+    text: string;
+    messageId: string;
+    receivedAt: Date;
+    kind: "message" | "command";
+    needsReply: boolean;
+  }): Promise<{ thread: SmsThread; message: ThreadMessage }> {
+    const upserted = await this.pool().query(
+      `INSERT INTO sms_threads
+        (patient_id, phone, status, unread_count, awaiting_reply_since,
+         last_message_at)
+      VALUES ($1, $2, $3, $4, $5, $6)
+      ON CONFLICT (patient_id) DO UPDATE SET
+        phone = EXCLUDED.phone,
+        status = CASE WHEN EXCLUDED.unread_count > 0 THEN 'open'
+          ELSE sms_threads.status END,
+        unread_count = sms_threads.unread_count + EXCLUDED.unread_count,
+        awaiting_reply_since = COALESCE(sms_threads.awaiting_reply_since,
+          EXCLUDED.awaiting_reply_since),
+        last_message_at = EXCLUDED.last_message_at,
+        updated_at = NOW()
+      RETURNING id`,
+      [
+        entry.patientId,
+        entry.phone,
+        entry.needsReply ? "open" : "closed",
+        entry.needsReply ? 1 : 0,
+        entry.needsReply ? entry.receivedAt : null,
+        entry.receivedAt,
+      ],
+    );
+    const threadId = upserted.rows[0].id;
+
+    const stored = await this.pool().query(
+      `INSERT INTO communication_logs
+        (patient_id, thread_id, type, method, direction, recipient, message,
+         status, message_id, timestamp)
+      VALUES ($1, $2, $3, 'sms', 'inbound', $4, $5, 'received', $6, $7)
+      RETURNING *`,
+      [
+        entry.patientId,
+        threadId,
+        entry.kind,
+        entry.to,
+        entry.text,
+        entry.messageId,
+        entry.receivedAt,
+      ],
+    );
+
+    const thread = (await this.getThread(threadId))!;
+    const message = this.messageFromRow(stored.rows[0]);
+    if (entry.needsReply) {
+      await this.notify(thread, message);
+    }
+    return { thread, message };
+  }
+
+  // Keep a text the server sent on the thread, e.g. an automatic answer
+  static async recordOutbound(
+    thread: { id: string; patientId: string; phone: string },
+    text: string,
+    kind: ThreadMessageKind,
+    result: MessageResponse,
+    sentBy?: string,
+  ): Promise<ThreadMessage> {
+    const stored = await this.pool().query(
+      `INSERT INTO communication_logs
+        (patient_id, thread_id, type, method, direction, recipient, message,
+         status, provider, message_id, sent_by)
+      VALUES ($1, $2, $3, 'sms', 'outbound', $4, $5, $6, $7, $8, $9)
+      RETURNING *`,
+      [
+        thread.patientId,
+        thread.id,
+        kind,
+        thread.phone,
+        text,
+        result.success
+          ? "sent"
+          : result.consent?.action === "block"
+            ? "blocked"
+            : "failed",
+        result.provider,
+        result.messageId || null,
+        sentBy || null,
+      ],
+    );
+    await this.pool().query(
+      "UPDATE sms_threads SET last_message_at = NOW(), updated_at = NOW() WHERE id = $1",
+      [thread.id],
+    );
+    return this.messageFromRow(stored.rows[0]);
+  }
+
+  /**
+   * Text a clinician's reply to the patient. A reply that went out answers
+   * everything waiting on the thread and gives it to the sender if nobody
+   * had it yet.
+   */
+  static async reply(
+    thread: SmsThread,
+    staffId: string,
+    body: string,
+  ): Promise<ReplyResult> {
+    if (!thread.phone) return { ok: false, reason: "no_phone" };
+
+    const result = await messagingService.sendMessage({
+      to: thread.phone,
+      message: body,
+      type: "sms",
+      priority: "medium",
+      category: "system",
+      patientId: thread.patientId,
+      providerId: staffId,
+    });
+    const message = await this.recordOutbound(
+      thread,
+      body,
+      "message",
+      result,
+      staffId,
+    );
+    if (!result.success) {
+      return {
+        ok: false,
+        // The patient texted STOP or has no consent for texts
+        reason: result.consent?.action === "block" ? "blocked" : "send_failed",
+        error: result.error,
+      };
+    }
+
+    await this.pool().query(
+      `UPDATE sms_threads
+      SET unread_count = 0, awaiting_reply_since = NULL,
+        assigned_to = COALESCE(assigned_to, $2), updated_at = NOW()
+      WHERE id = $1`,
+      [thread.id, staffId],
+    );
+    return { ok: true, message };
+  }
+
+  /**
+   * Start a conversation with a patient who has not texted in, on the
+   * thread their texts will land on. Null when the patient has no phone.
+   */
+  static async openThread(patientId: string): Promise<SmsThread | null> {
+    const result = await this.pool().query(
+      `INSERT INTO sms_threads (patient_id, phone, status)
+      SELECT id, phone, 'open' FROM users
+      WHERE id::text = $1 AND role = 'patient'
+        AND phone IS NOT NULL AND phone <> ''
+      ON CONFLICT (patient_id) DO UPDATE SET
+        status = 'open', updated_at = NOW()
+      RETURNING id`,
+      [patientId],
+    );
+    return result.rows[0] ? this.getThread(result.rows[0].id) : null;
+  }
+
+  static async listThreads(filter: {
+    statuses: ThreadStatus[];
+    // A staff id, "unassigned", or nothing for any
+    assignee?: string;
+    unreadOnly?: boolean;
+    // Limits the list to these patients; all patients when left out
+    patientIds?: string[];
+  }): Promise<SmsThread[]> {
+    const result = await this.pool().query(
+      `${THREAD_SELECT}
+      WHERE t.status = ANY($1)
+        AND ($2::uuid[] IS NULL OR t.patient_id = ANY($2))
+        AND ($3::text IS NULL
+          OR ($3 = 'unassigned' AND t.assigned_to IS NULL)
+          OR t.assigned_to::text = $3)
+        AND ($4::boolean IS NOT TRUE OR t.unread_count > 0)
+      ORDER BY t.awaiting_reply_since ASC NULLS LAST, t.last_message_at DESC
+      LIMIT 200`,
+      [
+        filter.statuses,
+        filter.patientIds || null,
+        filter.assignee || null,
+        filter.unreadOnly || false,
+      ],
+    );
+    return result.rows.map((row) => this.threadFromRow(row));
+  }
+
+  static async summary(
+    staffId: string,
+    patientIds?: string[],
+  ): Promise<InboxSummary> {
+    const result = await this.pool().query(
+      `SELECT
+        COUNT(*) FILTER (WHERE status = 'open') AS open_threads,
+        COUNT(*) FILTER (WHERE unread_count > 0) AS unread_threads,
+        COALESCE(SUM(unread_count), 0) AS unread_messages,
+        COUNT(*) FILTER (WHERE status = 'open' AND assigned_to::text = $2)
+          AS assigned_to_me,
+        COUNT(*) FILTER (
+          WHERE awaiting_reply_since < NOW() - make_interval(mins => $3)
+        ) AS overdue
+      FROM sms_threads
+      WHERE $1::uuid[] IS NULL OR patient_id = ANY($1)`,
+      [patientIds || null, staffId, REPLY_SLA_MINUTES],
+    );
+    const row = result.rows[0];
+    return {
+      openThreads: Number(row.open_threads),
+      unreadThreads: Number(row.unread_threads),
+      unreadMessages: Number(row.unread_messages),
+      assignedToMe: Number(row.assigned_to_me),
+      overdue: Number(row.overdue),
+    };
+  }
+
+  static async getThread(id: string): Promise<SmsThread | null> {
+    const result = await this.pool().query(
+      `${THREAD_SELECT} WHERE t.id::text = $1`,
+      [id],
+    );
+    return result.rows[0] ? this.threadFromRow(result.rows[0]) : null;
+  }
+
+  static async getPatientThread(patientId: string): Promise<SmsThread | null> {
+    const result = await this.pool().query(
+      `${THREAD_SELECT} WHERE t.patient_id::text = $1`,
+      [patientId],
+    );
+    return result.rows[0] ? this.threadFromRow(result.rows[0]) : null;
+  }
+
+  // Newest messages, oldest first; `before` pages back from a message id
+  static async listMessages(
+    threadId: string,
+    options: { before?: number; limit?: number } = {},
+  ): Promise<ThreadMessage[]> {
+    const result = await this.pool().query(
+      `${MESSAGE_SELECT}
+      WHERE l.thread_id = $1 AND ($2::int IS NULL OR l.id < $2)
+      ORDER BY l.timestamp DESC, l.id DESC
+      LIMIT $3`,
+      [threadId, options.before || null, options.limit || 50],
+    );
+    return result.rows.map((row) => this.messageFromRow(row)).reverse();
+  }
+
+  static async markRead(thread: SmsThread): Promise<SmsThread> {
+    await this.pool().query(
+      "UPDATE sms_threads SET unread_count = 0, updated_at = NOW() WHERE id = $1",
+      [thread.id],
+    );
+    return (await this.getThread(thread.id))!;
+  }
+
+  // Give the thread to a staff member, or to nobody with null
+  static async assign(
+    thread: SmsThread,
+    staffId: string | null,
+  ): Promise<SmsThread> {
+    await this.pool().query(
+      "UPDATE sms_threads SET assigned_to = $2, updated_at = NOW() WHERE id = $1",
+      [thread.id, staffId],
+    );
+    return (await this.getThread(thread.id))!;
+  }
+
+  // The role of a user threads may be assigned to, or null if unknown
+  static async staffRole(userId: string): Promise<string | null> {
+    const result = await this.pool().query(
+      "SELECT role FROM users WHERE id::text = $1",
+      [userId],
+    );
+    return result.rows[0]?.role || null;
+  }
+
+  // Closing a thread also stops its reply clock; a new text reopens it
+  static async setStatus(
+    thread: SmsThread,
+    status: ThreadStatus,
+  ): Promise<SmsThread> {
+    await this.pool().query(
+      `UPDATE sms_threads
+      SET status = $2, updated_at = NOW(),
+        awaiting_reply_since = CASE WHEN $2 = 'closed' THEN NULL
+          ELSE awaiting_reply_since END,
+        unread_count = CASE WHEN $2 = 'closed' THEN 0 ELSE unread_count END
+      WHERE id = $1`,
+      [thread.id, status],
+    );
+    return (await this.getThread(thread.id))!;
+  }
+
+  static async listCannedReplies(
+    includeInactive = false,
+  ): Promise<CannedReply[]> {
+    const result = await this.pool().query(
+      `SELECT * FROM sms_canned_replies
+      WHERE $1 OR active = true
+      ORDER BY category NULLS LAST, title`,
+      [includeInactive],
+    );
+    return result.rows.map((row) => this.cannedReplyFromRow(row));
+  }
+
+  static async getCannedReply(id: string): Promise<CannedReply | null> {
+    const result = await this.pool().query(
+      "SELECT * FROM sms_canned_replies WHERE id::text = $1",
+      [id],
+    );
+    return result.rows[0] ? this.cannedReplyFromRow(result.rows[0]) : null;
+  }
+
+  static async saveCannedReply(
+    reply: { title: string; body: string; category?: string | null },
+    staffId: string,
+    id?: string,
+  ): Promise<CannedReply | null> {
+    const values = [
+      reply.title.trim(),
+      reply.body,
+      reply.category?.trim() || null,
+    ];
+    const result = id
+      ? await this.pool().query(
+          `UPDATE sms_canned_replies
+          SET title = $1, body = $2, category = $3, updated_at = NOW()
+          WHERE id::text = $4 AND active = true
+          RETURNING *`,
+          [...values, id],
+        )
+      : await this.pool().query(
+          `INSERT INTO sms_canned_replies (title, body, category, created_by)
+          VALUES ($1, $2, $3, $4)
+          RETURNING *`,
+          [...values, staffId],
+        );
+    return result.rows[0] ? this.cannedReplyFromRow(result.rows[0]) : null;
+  }
+
+  // Retired rather than deleted; false when there was nothing to retire
+  static async retireCannedReply(id: string): Promise<boolean> {
+    const result = await this.pool().query(
+      `UPDATE sms_canned_replies SET active = false, updated_at = NOW()
+      WHERE id::text = $1 AND active = true`,
+      [id],
+    );
+    return (result.rowCount || 0) > 0;
+  }
+
+  /**
+   * Push a new patient text to the staff working the thread: its assignee,
+   * or the patient's care team while nobody has it. Only sessions that
+   * authenticated receive it, since it carries the text.
+   */
+  private static async notify(thread: SmsThread, message: ThreadMessage) {
+    const websocket = getWebSocketService();
+    if (!websocket) return;
+
+    const recipients = thread.assignedTo
+      ? [thread.assignedTo]
+      : (
+          await this.pool().query(
+            `SELECT DISTINCT member_id FROM care_team_assignments
+            WHERE patient_id = $1 AND active = true
+              AND starts_at <= NOW() AND (ends_at IS NULL OR ends_at > NOW())`,
+            [thread.patientId],
+          )
+        ).rows.map((row) => String(row.member_id));
+
+    for (const userId of recipients) {
+      websocket.broadcastToUser(
+        userId,
+        { type: "sms_thread_message", data: { thread, message } },
+        { authenticatedOnly: true },
+      );
+    }
+  }
+
+  private static threadFromRow(row: any, now = new Date()): SmsThread {
+    const iso = (value: any) =>
+      value ? new Date(value).toISOString() : undefined;
+    const due = this.replyDue(
+      row.awaiting_reply_since ? new Date(row.awaiting_reply_since) : null,
+      now,
+    );
+    return {
+      id: row.id,
+      patientId: row.patient_id,
+      patientFirstName: row.first_name,
+      patientLastName: row.last_name,
+      phone: row.phone,
+      status: row.status,
+      assignedTo: row.assigned_to || undefined,
+      assignedToName: row.assignee_first_name
+        ? `${row.assignee_first_name} ${row.assignee_last_name}`
+        : undefined,
+      unreadCount: Number(row.unread_count),
+      awaitingReplySince: iso(row.awaiting_reply_since),
+      replyDueAt: due.replyDueAt?.toISOString(),
+      overdue: due.overdue,
+      lastMessageAt: iso(row.last_message_at),
+      lastMessage: row.last_direction
+        ? { direction: row.last_direction, text: row.last_text || "" }
+        : undefined,
+      createdAt: iso(row.created_at)!,
+    };
+  }
+
+  private static messageFromRow(row: any): ThreadMessage {
+    return {
+      id: row.id,
+      threadId: row.thread_id,
+      direction: row.direction,
+      kind: row.type,
+      text: row.message || "",
+      status: row.status,
+      sentBy: row.sent_by || undefined,
+      sentByName: row.sender_first_name
+        ? `${row.sender_first_name} ${row.sender_last_name}`
+        : undefined,
+      provider: row.provider || undefined,
+      externalId: row.message_id || undefined,
+      timestamp: new Date(row.timestamp).toISOString(),
+    };
+  }
+
+  private static cannedReplyFromRow(row: any): CannedReply {
+    return {
+      id: row.id,
+      title: row.title,
+      body: row.body,
+      category: row.category || undefined,
+      active: row.active,
+      createdBy: row.created_by || undefined,
+      createdAt: new Date(row.created_at).toISOString(),
+      updatedAt: new Date(row.updated_at).toISOString(),
+    };
+  }
+
+  private static pool() {
+    if (!dbPool) {
+      throw new Error("PostgreSQL pool not configured");
+    }
+    return dbPool;
+  }
+}
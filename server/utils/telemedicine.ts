@@ -1,118 +1,117 @@
+import {
+  SchedulingService,
+  AppointmentType,
+  ConflictReason,
+  TimeInterval,
+} from "./scheduling";
+import { CalendarService } from "./calendar";
+import { TriageResult } from "./triage";
+
+const TRIAGE_WAIT_TIMES = {
+  emergency: "Immediate",
+  urgent: "15-30 minutes",
+  routine: "2-5 minutes",
+};
+
 // Telemedicine Service for video consultations and provider management
 export class TelemedicineService {
-  private static providers = new Map();
-  private static appointments = new Map();
-  private static consultationRooms = new Map();
-
-  // Provider network management
+  // Providers with their open consultation slots for today and tomorrow,
+  // in each provider's own time zone
   static async getAvailableProviders(
     specialty?: string,
     location?: string,
   ): Promise<any[]> {
-    await new Promise((resolve) => setTimeout(resolve, 500));
-
-    const mockProviders = [
-      {
-        id: "provider_1",
-        name: "Dr. Sarah Chen",
-        specialty: "Internal Medicine",
-        credentials: "MD, FACP",
-        rating: 4.9,
-        reviewCount: 247,
-        languages: ["English", "Mandarin"],
-        availability: {
-          today: ["2:00 PM", "3:30 PM", "4:45 PM"],
-          tomorrow: ["9:00 AM", "10:30 AM", "2:00 PM", "3:15 PM"],
-        },
-        consultationFee: 150,
-        acceptsInsurance: true,
-        bio: "Board-certified internist with 15 years experience in preventive medicine and chronic disease management.",
-        education: "Harvard Medical School",
-        location: "Boston, MA",
-        telehealth: true,
-      },
-      {
-        id: "provider_2",
-        name: "Dr. Michael Rodriguez",
-        specialty: "Cardiology",
-        credentials: "MD, FACC",
-        rating: 4.8,
-        reviewCount: 189,
-        languages: ["English", "Spanish"],
-        availability: {
-          today: ["1:00 PM", "4:00 PM"],
-          tomorrow: ["8:00 AM", "11:00 AM", "3:00 PM"],
-        },
-        consultationFee: 200,
-        acceptsInsurance: true,
-        bio: "Interventional cardiologist specializing in preventive cardiology and lipid management.",
-        education: "Johns Hopkins School of Medicine",
-        location: "Baltimore, MD",
-        telehealth: true,
-      },
-      {
-        id: "provider_3",
-        name: "Dr. Emily Johnson",
-        specialty: "Endocrinology",
-        credentials: "MD, FACE",
-        rating: 4.9,
-        reviewCount: 156,
-        languages: ["English"],
-        availability: {
-          today: [],
-          tomorrow: ["10:00 AM", "2:30 PM", "4:00 PM"],
-        },
-        consultationFee: 180,
-        acceptsInsurance: true,
-        bio: "Diabetes and metabolism specialist with expertise in continuous glucose monitoring.",
-        education: "Mayo Clinic",
-        location: "Rochester, MN",
-        telehealth: true,
-      },
-    ];
-
-    return specialty
-      ? mockProviders.filter((p) =>
-          p.specialty.toLowerCase().includes(specialty.toLowerCase()),
-        )
-      : mockProviders;
+    const type = await SchedulingService.getAppointmentType("consultation");
+    const providers = await SchedulingService.listProviders(specialty);
+    const now = new Date();
+
+    return Promise.all(
+      providers.map(async (provider) => {
+        const today = SchedulingService.localDate(now, provider.timeZone);
+        const { slots } = type
+          ? await SchedulingService.getSlots(
+              provider.id,
+              type,
+              now,
+              SchedulingService.zonedTimeToUtc(
+                SchedulingService.addDays(today, 2),
+                "00:00",
+                provider.timeZone,
+              ),
+              now,
+            )
+          : { slots: [] as TimeInterval[] };
+        const onDay = (date: string) =>
+          slots
+            .filter(
+              (slot) =>
+                SchedulingService.localDate(slot.start, provider.timeZone) ===
+                date,
+            )
+            .map((slot) => slot.start.toISOString());
+
+        return {
+          ...provider,
+          nextAvailable: slots[0]?.start.toISOString() || null,
+          availability: {
+            today: onDay(today),
+            tomorrow: onDay(SchedulingService.addDays(today, 1)),
+          },
+          telehealth: true,
+        };
+      }),
+    );
   }
 
-  // Schedule appointment
+  // Schedule appointment through the scheduling engine, which rejects
+  // times outside the provider's hours or overlapping other bookings
   static async scheduleAppointment(appointmentData: {
     providerId: string;
     userId: string;
-    dateTime: string;
+    dateTime: Date;
     type: "video" | "phone" | "in_person";
-    reason: string;
-    duration: number;
-  }): Promise<{
-    appointmentId: string;
-    confirmationNumber: string;
-    meetingLink?: string;
-    instructions: string[];
-  }> {
-    const appointmentId = `appt_${Date.now()}`;
-    const confirmationNumber = `CONF${Math.random().toString(36).substr(2, 8).toUpperCase()}`;
-
-    const appointment = {
-      ...appointmentData,
-      appointmentId,
-      confirmationNumber,
-      status: "scheduled",
-      createdAt: new Date().toISOString(),
-    };
-
-    this.appointments.set(appointmentId, appointment);
+    appointmentType: AppointmentType;
+    reason?: string;
+    duration?: number;
+    bookedBy: string;
+  }): Promise<
+    | { ok: false; reason: ConflictReason }
+    | {
+        ok: true;
+        appointmentId: string;
+        confirmationNumber: string;
+        calendarUrl: string;
+        meetingLink?: string;
+        instructions: string[];
+      }
+  > {
+    const result = await SchedulingService.bookAppointment({
+      patientId: appointmentData.userId,
+      providerId: appointmentData.providerId,
+      type: appointmentData.appointmentType,
+      start: appointmentData.dateTime,
+      durationMinutes: appointmentData.duration,
+      notes: appointmentData.reason,
+      createdBy: appointmentData.bookedBy,
+    });
+    if (result.ok === false) {
+      return result;
+    }
 
+    const appointmentId = result.appointment.id;
+    CalendarService.notifyAppointmentChange(result.appointment, "booked").catch(
+      (error) => console.error("Appointment notification error:", error),
+    );
     const meetingLink =
       appointmentData.type === "video"
         ? `https://telecheck.com/consultation/${appointmentId}`
         : undefined;
 
     return {
+      ok: true,
       appointmentId,
-      confirmationNumber,
+      confirmationNumber: `CONF${appointmentId.slice(0, 8).toUpperCase()}`,
+      calendarUrl: CalendarService.inviteUrl(appointmentId, "patient"),
       meetingLink,
       instructions: [
         "Join the consultation 5 minutes before your scheduled time",
@@ -127,170 +126,26 @@ export class TelemedicineService {
   }
 
   // Get user appointments
-  static getUserAppointments(userId: string): any[] {
-    const userAppointments = [];
-
-    for (const [appointmentId, appointment] of this.appointments.entries()) {
-      if (appointment.userId === userId) {
-        userAppointments.push({
-          appointmentId,
-          ...appointment,
-        });
-      }
-    }
-
-    return userAppointments.sort(
-      (a, b) => new Date(a.dateTime).getTime() - new Date(b.dateTime).getTime(),
-    );
+  static async getUserAppointments(userId: string): Promise<any[]> {
+    return SchedulingService.listAppointments({ patientId: userId });
   }
 
-  // Create consultation room
-  static async createConsultationRoom(appointmentId: string): Promise<{
-    roomId: string;
-    accessToken: string;
-    participantTokens: any;
-    roomUrl: string;
-  }> {
-    const roomId = `room_${appointmentId}`;
-    const accessToken = `token_${Math.random().toString(36).substr(2, 16)}`;
-
-    const room = {
-      roomId,
-      appointmentId,
-      createdAt: new Date().toISOString(),
-      status: "active",
-      participants: [],
-      recordings: [],
-      chatHistory: [],
-    };
-
-    this.consultationRooms.set(roomId, room);
-
-    return {
-      roomId,
-      accessToken,
-      participantTokens: {
-        patient: `patient_${accessToken}`,
-        provider: `provider_${accessToken}`,
-      },
-      roomUrl: `https://telecheck.com/room/${roomId}`,
-    };
-  }
-
-  // Generate consultation summary
-  static async generateConsultationSummary(roomId: string): Promise<{
-    summary: string;
-    diagnosis: string[];
-    recommendations: string[];
-    prescriptions: any[];
-    followUp: any;
-    duration: number;
-  }> {
-    await new Promise((resolve) => setTimeout(resolve, 1000));
-
-    // Mock consultation summary
-    return {
-      summary:
-        "Patient presented with concerns about recent lab results showing elevated cholesterol. Discussed cardiovascular risk factors and treatment options. Patient is motivated to make lifestyle changes.",
-      diagnosis: [
-        "Hyperlipidemia (ICD-10: E78.5)",
-        "Cardiovascular risk factors",
-      ],
-      recommendations: [
-        "Initiate atorvastatin 20mg daily",
-        "Low-saturated fat diet (<7% of calories)",
-        "Regular aerobic exercise 150 min/week",
-        "Weight reduction goal of 10 pounds",
-        "Smoking cessation counseling if applicable",
-      ],
-      prescriptions: [
-        {
-          medication: "Atorvastatin",
-          strength: "20mg",
-          quantity: 30,
-          directions: "Take one tablet by mouth daily in the evening",
-          refills: 5,
-          daw: false,
-        },
-      ],
-      followUp: {
-        timeframe: "6 weeks",
-        type: "lab_recheck",
-        tests: ["Lipid panel", "Liver function tests"],
-        appointment: "Schedule follow-up visit in 3 months",
-      },
-      duration: 25, // minutes
-    };
-  }
-
-  // Emergency consultation triage
-  static triageEmergencyConsultation(
-    symptoms: string[],
-    vitals?: any,
-  ): {
+  // Emergency consultation triage: how soon the patient should be seen,
+  // from a triage protocol decision
+  static triageEmergencyConsultation(result: TriageResult): {
     urgency: "emergency" | "urgent" | "routine";
     recommendations: string[];
     estimatedWaitTime: string;
     escalation: boolean;
   } {
-    const symptomText = symptoms.join(" ").toLowerCase();
-
-    // Emergency symptoms
-    const emergencyKeywords = [
-      "chest pain",
-      "difficulty breathing",
-      "severe headache",
-      "loss of consciousness",
-      "severe bleeding",
-      "stroke symptoms",
-      "severe abdominal pain",
-      "high fever",
-    ];
-
-    if (emergencyKeywords.some((keyword) => symptomText.includes(keyword))) {
-      return {
-        urgency: "emergency",
-        recommendations: [
-          "Call 911 immediately",
-          "Go to nearest emergency room",
-          "Do not delay seeking immediate medical attention",
-        ],
-        estimatedWaitTime: "Immediate",
-        escalation: true,
-      };
-    }
-
-    // Urgent symptoms
-    const urgentKeywords = [
-      "severe pain",
-      "high fever",
-      "persistent vomiting",
-      "severe diarrhea",
-      "difficulty swallowing",
-    ];
-
-    if (urgentKeywords.some((keyword) => symptomText.includes(keyword))) {
-      return {
-        urgency: "urgent",
-        recommendations: [
-          "Seek medical attention within 2-4 hours",
-          "Consider urgent care or emergency room",
-          "Monitor symptoms closely",
-        ],
-        estimatedWaitTime: "15-30 minutes",
-        escalation: false,
-      };
-    }
-
+    // Self-care patients can still book a routine consultation
+    const urgency =
+      result.disposition === "self_care" ? "routine" : result.disposition;
     return {
-      urgency: "routine",
-      recommendations: [
-        "Schedule consultation with healthcare provider",
-        "Monitor symptoms and seek care if worsening",
-        "Consider telehealth consultation",
-      ],
-      estimatedWaitTime: "2-5 minutes",
-      escalation: false,
+      urgency,
+      recommendations: result.advice,
+      estimatedWaitTime: TRIAGE_WAIT_TIMES[urgency],
+      escalation: urgency === "emergency",
     };
   }
 }
@@ -0,0 +1,312 @@
+import fs from "fs";
+import path from "path";
+import bundledLoinc from "../data/terminology/loinc.json";
+import bundledRxNorm from "../data/terminology/rxnorm.json";
+import bundledUcum from "../data/terminology/ucum.json";
+
+// Terminology lookups for lab tests (LOINC), medications (RxNorm) and units
+// (UCUM). The bundled subsets live in server/data/terminology; set
+// TERMINOLOGY_DATA_DIR to load larger extracts in the same JSON format.
+// Names that cannot be resolved confidently are reported as unmapped
+// instead of falling back to a default code.
+
+export interface TerminologyConcept {
+  code: string;
+  display: string;
+  units?: string[];
+  synonyms?: string[];
+  tty?: string;
+}
+
+interface CodeSystemFile {
+  system: string;
+  version?: string;
+  concepts: TerminologyConcept[];
+}
+
+interface UnitFile {
+  system: string;
+  units: { code: string; display: string; aliases?: string[] }[];
+}
+
+export interface TerminologyMatch {
+  system: string;
+  code: string;
+  display: string;
+  confidence: number;
+  matchedOn: "code" | "display" | "synonym" | "ingredient" | "fuzzy";
+}
+
+export interface TerminologyResolution {
+  input: string;
+  mapped: boolean;
+  match?: TerminologyMatch;
+  candidates: TerminologyMatch[];
+  warnings: string[];
+}
+
+export interface UnitResolution {
+  input: string;
+  mapped: boolean;
+  system?: string;
+  code?: string;
+  display?: string;
+}
+
+// Below this confidence a name is reported as unmapped
+export const MIN_CONFIDENCE = 0.7;
+// Two different codes scoring within this margin are treated as ambiguous
+const AMBIGUITY_MARGIN = 0.05;
+const UNIT_MISMATCH_PENALTY = 0.15;
+
+// Strength, form and route words ignored when matching medication names
+const MEDICATION_NOISE = new Set([
+  "mg",
+  "mcg",
+  "g",
+  "ml",
+  "units",
+  "unit",
+  "iu",
+  "tablet",
+  "tablets",
+  "tab",
+  "tabs",
+  "capsule",
+  "capsules",
+  "cap",
+  "caps",
+  "oral",
+  "solution",
+  "suspension",
+  "injection",
+  "injectable",
+  "pen",
+  "er",
+  "xr",
+  "sr",
+  "xl",
+  "dr",
+  "extended",
+  "release",
+  "delayed",
+  "hcl",
+  "sodium",
+  "daily",
+]);
+
+export const normalizeTerm = (value: string): string =>
+  (value || "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+
+const tokenize = (value: string): string[] =>
+  normalizeTerm(value).split(" ").filter(Boolean);
+
+const sameTokens = (a: string[], b: string[]): boolean =>
+  a.length === b.length && [...a].sort().join(" ") === [...b].sort().join(" ");
+
+// Dice coefficient over token sets
+const similarity = (a: string[], b: string[]): number => {
+  const setA = new Set(a);
+  const setB = new Set(b);
+  const shared = [...setA].filter((token) => setB.has(token)).length;
+  return setA.size + setB.size === 0
+    ? 0
+    : (2 * shared) / (setA.size + setB.size);
+};
+
+export class TerminologyService {
+  private static loinc: CodeSystemFile;
+  private static rxnorm: CodeSystemFile;
+  private static ucum: UnitFile;
+  private static unitIndex: Map<string, UnitFile["units"][number]>;
+
+  /**
+   * Load the code system subsets. Called lazily on first lookup; call it
+   * again with a directory to replace the bundled data.
+   */
+  static load(dataDir: string | undefined = process.env.TERMINOLOGY_DATA_DIR) {
+    this.loinc = this.readFile(dataDir, "loinc.json", bundledLoinc);
+    this.rxnorm = this.readFile(dataDir, "rxnorm.json", bundledRxNorm);
+    this.ucum = this.readFile(dataDir, "ucum.json", bundledUcum);
+
+    this.unitIndex = new Map();
+    this.ucum.units.forEach((unit) => {
+      this.unitIndex.set(unit.code, unit);
+      this.unitIndex.set(unit.code.toLowerCase(), unit);
+      (unit.aliases || []).forEach((alias) =>
+        this.unitIndex.set(alias.toLowerCase(), unit),
+      );
+    });
+  }
+
+  static get systems() {
+    this.ensureLoaded();
+    return {
+      loinc: this.loinc.system,
+      rxnorm: this.rxnorm.system,
+      ucum: this.ucum.system,
+    };
+  }
+
+  // Resolve a lab test name (optionally with its unit) to a LOINC code
+  static resolveLabTest(name: string, unit?: string): TerminologyResolution {
+    this.ensureLoaded();
+    const ucumCode = unit ? this.resolveUnit(unit).code : undefined;
+
+    return this.resolve(name, this.loinc, (concept, score) => {
+      if (!ucumCode || !concept.units?.length) return score;
+      return concept.units.includes(ucumCode)
+        ? score
+        : score - UNIT_MISMATCH_PENALTY;
+    });
+  }
+
+  // Resolve a medication name such as "Metformin 500mg tablet" to RxNorm
+  static resolveMedication(name: string): TerminologyResolution {
+    this.ensureLoaded();
+    return this.resolve(name, this.rxnorm, (_concept, score) => score, true);
+  }
+
+  // Map a free-text unit ("mg/dl", "K/uL") to its UCUM code
+  static resolveUnit(unit: string): UnitResolution {
+    this.ensureLoaded();
+    const trimmed = (unit || "").trim();
+    const found =
+      this.unitIndex.get(trimmed) || this.unitIndex.get(trimmed.toLowerCase());
+
+    return found
+      ? {
+          input: unit,
+          mapped: true,
+          system: this.ucum.system,
+          code: found.code,
+          display: found.display,
+        }
+      : { input: unit, mapped: false };
+  }
+
+  static getLabConcept(code: string): TerminologyConcept | undefined {
+    this.ensureLoaded();
+    return this.loinc.concepts.find((concept) => concept.code === code);
+  }
+
+  // Normalized display name and synonyms of a LOINC concept, for searching
+  // stored rows that predate code persistence
+  static getLabTermsForCode(code: string): string[] {
+    const concept = this.getLabConcept(code);
+    return concept
+      ? [concept.display, ...(concept.synonyms || [])].map(normalizeTerm)
+      : [];
+  }
+
+  private static resolve(
+    input: string,
+    codeSystem: CodeSystemFile,
+    adjust: (concept: TerminologyConcept, score: number) => number,
+    stripMedicationNoise = false,
+  ): TerminologyResolution {
+    const warnings: string[] = [];
+    const allTokens = tokenize(input);
+    const tokens = stripMedicationNoise
+      ? allTokens.filter(
+          (token) => !MEDICATION_NOISE.has(token) && !/\d/.test(token),
+        )
+      : allTokens;
+
+    if (tokens.length === 0) {
+      return { input, mapped: false, candidates: [], warnings: ["Empty name"] };
+    }
+
+    const scored: TerminologyMatch[] = codeSystem.concepts
+      .map((concept) => {
+        const best = this.scoreConcept(concept, input, tokens);
+        if (best.matchedOn !== "code" && stripMedicationNoise) {
+          // Matched on the ingredient after dropping strength/form words
+          if (best.confidence >= 0.95 && tokens.length < allTokens.length) {
+            best.matchedOn = "ingredient";
+            best.confidence = 0.9;
+          }
+        }
+        return {
+          system: codeSystem.system,
+          code: concept.code,
+          display: concept.display,
+          matchedOn: best.matchedOn,
+          confidence: Math.max(
+            Math.round(adjust(concept, best.confidence) * 100) / 100,
+            0,
+          ),
+        };
+      })
+      .filter((match) => match.confidence > 0)
+      .sort((a, b) => b.confidence - a.confidence);
+
+    const candidates = scored.slice(0, 3);
+    const [best, runnerUp] = scored;
+
+    if (!best || best.confidence < MIN_CONFIDENCE) {
+      warnings.push(`No ${codeSystem.system} code found for '${input}'`);
+      return { input, mapped: false, candidates, warnings };
+    }
+
+    if (
+      runnerUp &&
+      runnerUp.code !== best.code &&
+      best.confidence - runnerUp.confidence < AMBIGUITY_MARGIN
+    ) {
+      warnings.push(
+        `'${input}' is ambiguous between ${best.code} and ${runnerUp.code}`,
+      );
+      return { input, mapped: false, candidates, warnings };
+    }
+
+    return { input, mapped: true, match: best, candidates, warnings };
+  }
+
+  private static scoreConcept(
+    concept: TerminologyConcept,
+    input: string,
+    tokens: string[],
+  ): { confidence: number; matchedOn: TerminologyMatch["matchedOn"] } {
+    if (input.trim() === concept.code) {
+      return { confidence: 1, matchedOn: "code" };
+    }
+
+    if (sameTokens(tokens, tokenize(concept.display))) {
+      return { confidence: 1, matchedOn: "display" };
+    }
+
+    let fuzzy = similarity(tokens, tokenize(concept.display));
+    for (const synonym of concept.synonyms || []) {
+      const synonymTokens = tokenize(synonym);
+      if (sameTokens(tokens, synonymTokens)) {
+        return { confidence: 0.95, matchedOn: "synonym" };
+      }
+      fuzzy = Math.max(fuzzy, similarity(tokens, synonymTokens));
+    }
+
+    return { confidence: fuzzy * 0.85, matchedOn: "fuzzy" };
+  }
+
+  private static readFile<T>(
+    dataDir: string | undefined,
+    fileName: string,
+    fallback: T,
+  ): T {
+    if (!dataDir) return fallback;
+
+    const filePath = path.join(dataDir, fileName);
+    if (!fs.existsSync(filePath)) return fallback;
+
+    return JSON.parse(fs.readFileSync(filePath, "utf-8"));
+  }
+
+  private static ensureLoaded(): void {
+    if (!this.loinc) {
+      this.load();
+    }
+  }
+}
@@ -68,6 +68,8 @@ export class ThresholdService {
     patientId: string,
     thresholdType: string,
   ): Promise<Threshold | null> {
+    // A failed override lookup must not disable alerting, so each source
+    // falls through to the next and the defaults always apply
     try {
       // First check for patient-specific threshold
       const patientThreshold = await database.query(
@@ -86,14 +88,22 @@ export class ThresholdService {
           notes: pt.notes,
         };
       }
+    } catch (error) {
+      console.error(
+        `Error getting patient threshold for patient ${patientId}, type ${thresholdType}:`,
+        error,
+      );
+    }
 
+    try {
       // Fall back to global threshold from messaging config
       const config = await database.query(
         "SELECT config_data FROM messaging_config ORDER BY created_at DESC LIMIT 1",
       );
 
       if (config && config.length > 0) {
-        const configData = JSON.parse(config[0].config_data);
+        const raw = config[0].config_data;
+        const configData = typeof raw === "string" ? JSON.parse(raw) : raw;
         const globalThresholds = configData.thresholds || {};
 
         // Map threshold types to config keys
@@ -123,27 +133,26 @@ export class ThresholdService {
           };
         }
       }
-
-      // Use hardcoded defaults as final fallback
-      const defaultThreshold =
-        DEFAULT_THRESHOLDS[thresholdType as keyof typeof DEFAULT_THRESHOLDS];
-      if (defaultThreshold) {
-        return {
-          type: thresholdType,
-          value: defaultThreshold.value,
-          unit: defaultThreshold.unit,
-          isPatientSpecific: false,
-        };
-      }
-
-      return null;
     } catch (error) {
       console.error(
-        `Error getting effective threshold for patient ${patientId}, type ${thresholdType}:`,
+        `Error getting global threshold for type ${thresholdType}:`,
         error,
       );
-      return null;
     }
+
+    // Use hardcoded defaults as final fallback
+    const defaultThreshold =
+      DEFAULT_THRESHOLDS[thresholdType as keyof typeof DEFAULT_THRESHOLDS];
+    if (defaultThreshold) {
+      return {
+        type: thresholdType,
+        value: defaultThreshold.value,
+        unit: defaultThreshold.unit,
+        isPatientSpecific: false,
+      };
+    }
+
+    return null;
   }
 
   /**
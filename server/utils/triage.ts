@@ -0,0 +1,891 @@
+import { dbPool } from "../config/database";
+import bundledGeneral from "../data/triage/general.json";
+
+// Rule-based triage. A protocol is a versioned, declarative definition:
+// the symptoms it recognises (with the phrases patients use for them),
+// follow-up questions, and rules over symptoms, answers, vital signs, age
+// and pregnancy. Clinicians edit a protocol by saving a new draft version
+// and publishing it; every decision stores the version that produced it
+// along with the rules that fired, so it can be explained later.
+
+export const DISPOSITIONS = [
+  "self_care",
+  "routine",
+  "urgent",
+  "emergency",
+] as const;
+export type Disposition = (typeof DISPOSITIONS)[number];
+
+export const RULE_CATEGORIES = [
+  "red_flag",
+  "symptom",
+  "vital",
+  "population",
+] as const;
+export type RuleCategory = (typeof RULE_CATEGORIES)[number];
+
+export const VITAL_SIGNS = [
+  "heartRate",
+  "systolic",
+  "diastolic",
+  "respiratoryRate",
+  "oxygenSaturation",
+  "temperature",
+  "glucose",
+] as const;
+export type VitalSign = (typeof VITAL_SIGNS)[number];
+
+// The protocol shipped with the server, used as version 1 of its code
+export const DEFAULT_PROTOCOL = "general";
+
+export interface Comparison {
+  equals?: boolean | number | string;
+  lt?: number;
+  lte?: number;
+  gt?: number;
+  gte?: number;
+}
+
+export type Condition =
+  | { symptom: string }
+  | ({ answer: string } & Comparison)
+  | ({ vital: VitalSign } & Comparison)
+  | { age: Comparison }
+  | { pregnant: boolean }
+  | { all: Condition[] }
+  | { any: Condition[] }
+  | { not: Condition };
+
+export interface TriageSymptom {
+  code: string;
+  label: string;
+  synonyms: string[];
+  // Questions asked when the symptom is reported
+  questions?: string[];
+}
+
+export interface TriageQuestion {
+  id: string;
+  text: string;
+  type: "boolean" | "number" | "choice";
+  options?: string[];
+}
+
+// A rule either sets a disposition (the highest one set wins) or escalates
+// the result by a number of levels. Red flags always mean emergency.
+export interface TriageRule {
+  id: string;
+  category: RuleCategory;
+  description: string;
+  when: Condition;
+  disposition?: Disposition;
+  escalate?: number;
+}
+
+export interface TriageDefinition {
+  defaultDisposition: Disposition;
+  symptoms: TriageSymptom[];
+  questions: TriageQuestion[];
+  rules: TriageRule[];
+  advice: Partial<Record<Disposition, string[]>>;
+}
+
+export type ProtocolStatus = "draft" | "active" | "retired";
+
+export interface TriageProtocol {
+  id: string;
+  code: string;
+  version: number;
+  name: string;
+  status: ProtocolStatus;
+  // Left out of protocol listings
+  definition?: TriageDefinition;
+  createdBy?: string;
+  createdAt: string;
+  publishedBy?: string;
+  publishedAt?: string;
+}
+
+export interface TriageInput {
+  // Free text or symptom codes, one complaint per entry
+  symptoms: string[];
+  answers?: Record<string, boolean | number | string>;
+  vitals?: Partial<Record<VitalSign, number>>;
+  age?: number;
+  pregnant?: boolean;
+}
+
+export interface RationaleEntry {
+  ruleId: string;
+  category: RuleCategory | "default";
+  description: string;
+  effect: "set" | "escalate" | "default";
+  disposition: Disposition;
+  evidence: string[];
+}
+
+export interface TriageResult {
+  disposition: Disposition;
+  rationale: RationaleEntry[];
+  redFlags: string[];
+  matchedSymptoms: { code: string; label: string; matched: string }[];
+  unrecognizedSymptoms: string[];
+  // Follow-up questions for the reported symptoms that were not answered
+  pendingQuestions: TriageQuestion[];
+  advice: string[];
+}
+
+export type TriageSource = "triage" | "telemedicine" | "symptom_assessment";
+
+export interface TriageDecision {
+  id: string;
+  patientId: string;
+  protocolId: string;
+  protocolCode: string;
+  protocolVersion: number;
+  source: TriageSource;
+  input: TriageInput;
+  disposition: Disposition;
+  rationale: RationaleEntry[];
+  decidedBy?: string;
+  createdAt: string;
+}
+
+const BUNDLED_PROTOCOLS: Record<
+  string,
+  { name: string; definition: TriageDefinition }
+> = {
+  [DEFAULT_PROTOCOL]: {
+    name: bundledGeneral.name,
+    definition: bundledGeneral as unknown as TriageDefinition,
+  },
+};
+
+const NEGATIONS = ["no", "not", "denies", "without"];
+const MAX_ESCALATION = DISPOSITIONS.length - 1;
+
+// Stored readings older than this say nothing about the patient right now
+export const RECENT_READING_HOURS = 24;
+
+const normalize = (text: string) =>
+  String(text)
+    .toLowerCase()
+    .replace(/[’`]/g, "'")
+    .replace(/[^a-z0-9' ]+/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+
+// A negation only reaches as far as the end of its clause: in "No, chest
+// pain" the "no" answers something else
+const clauses = (text: string) =>
+  String(text)
+    .split(/[,.;:!?()\n]+/)
+    .map(normalize)
+    .filter(Boolean);
+
+// vital_signs.type values for each sign a protocol can test
+const READING_TYPES: Record<string, VitalSign> = {
+  heart_rate: "heartRate",
+  pulse: "heartRate",
+  blood_pressure_systolic: "systolic",
+  blood_pressure_diastolic: "diastolic",
+  respiratory_rate: "respiratoryRate",
+  oxygen_saturation: "oxygenSaturation",
+  spo2: "oxygenSaturation",
+  temperature: "temperature",
+  glucose: "glucose",
+  blood_glucose: "glucose",
+};
+
+const fahrenheitToCelsius = (value: number) =>
+  Math.round((((value - 32) * 5) / 9) * 10) / 10;
+
+const rank = (disposition: Disposition) => DISPOSITIONS.indexOf(disposition);
+
+const COMPARATORS: [keyof Comparison, string][] = [
+  ["equals", "="],
+  ["lt", "<"],
+  ["lte", "<="],
+  ["gt", ">"],
+  ["gte", ">="],
+];
+
+// Whether a value satisfies every comparison given; missing values never do
+const compare = (
+  value: boolean | number | string | undefined,
+  comparison: Comparison,
+): string[] | null => {
+  if (value === undefined || value === null) return null;
+  const evidence: string[] = [];
+  for (const [key, symbol] of COMPARATORS) {
+    const expected = comparison[key];
+    if (expected === undefined) continue;
+    const ok =
+      key === "equals"
+        ? value === expected
+        : typeof value === "number" &&
+          (key === "lt"
+            ? value < (expected as number)
+            : key === "lte"
+              ? value <= (expected as number)
+              : key === "gt"
+                ? value > (expected as number)
+                : value >= (expected as number));
+    if (!ok) return null;
+    evidence.push(`${value} ${symbol} ${expected}`);
+  }
+  return evidence;
+};
+
+export class TriageService {
+  /**
+   * Recognise the protocol's symptoms in what the patient reported. A
+   * phrase counts on whole words only, and not when directly negated
+   * ("no chest pain").
+   */
+  static matchSymptoms(
+    definition: TriageDefinition,
+    reported: string[],
+  ): {
+    matched: { code: string; label: string; matched: string }[];
+    unrecognized: string[];
+  } {
+    const matched = new Map<
+      string,
+      { code: string; label: string; matched: string }
+    >();
+    const unrecognized: string[] = [];
+
+    for (const entry of reported || []) {
+      const texts = clauses(entry).map((clause) => ` ${clause} `);
+      let found = false;
+      for (const symptom of definition.symptoms) {
+        const phrases = [symptom.code.replace(/_/g, " "), ...symptom.synonyms];
+        const phrase = phrases.find((candidate) =>
+          texts.some((text) => this.mentions(text, normalize(candidate))),
+        );
+        if (!phrase) continue;
+        found = true;
+        if (!matched.has(symptom.code)) {
+          matched.set(symptom.code, {
+            code: symptom.code,
+            label: symptom.label,
+            matched: String(entry),
+          });
+        }
+      }
+      if (!found && normalize(entry)) unrecognized.push(String(entry));
+    }
+
+    return { matched: [...matched.values()], unrecognized };
+  }
+
+  /**
+   * Run a protocol over one patient's presentation. Rules that set a
+   * disposition are combined by taking the highest; if none fires the
+   * protocol's default applies. Escalations are then added on top, capped
+   * at emergency, and a red flag always ends in emergency.
+   */
+  static evaluate(
+    definition: TriageDefinition,
+    input: TriageInput,
+  ): TriageResult {
+    const { matched, unrecognized } = this.matchSymptoms(
+      definition,
+      input.symptoms,
+    );
+    const codes = new Set(matched.map((symptom) => symptom.code));
+    const rationale: RationaleEntry[] = [];
+    const redFlags: string[] = [];
+    const escalations: { rule: TriageRule; evidence: string[] }[] = [];
+    let disposition: Disposition | null = null;
+
+    for (const rule of definition.rules) {
+      const evidence = this.check(rule.when, codes, input);
+      if (!evidence) continue;
+
+      if (rule.category === "red_flag" || rule.disposition) {
+        const target: Disposition =
+          rule.category === "red_flag" ? "emergency" : rule.disposition!;
+        if (rule.category === "red_flag") redFlags.push(rule.description);
+        if (disposition === null || rank(target) > rank(disposition)) {
+          disposition = target;
+        }
+        rationale.push({
+          ruleId: rule.id,
+          category: rule.category,
+          description: rule.description,
+          effect: "set",
+          disposition: target,
+          evidence,
+        });
+      } else if (rule.escalate) {
+        escalations.push({ rule, evidence });
+      }
+    }
+
+    if (disposition === null) {
+      disposition = definition.defaultDisposition;
+      rationale.unshift({
+        ruleId: "default",
+        category: "default",
+        description: "No rule set a disposition; protocol default applies",
+        effect: "default",
+        disposition,
+        evidence: [],
+      });
+    }
+
+    for (const { rule, evidence } of escalations) {
+      disposition =
+        DISPOSITIONS[
+          Math.min(MAX_ESCALATION, rank(disposition) + rule.escalate!)
+        ];
+      rationale.push({
+        ruleId: rule.id,
+        category: rule.category,
+        description: rule.description,
+        effect: "escalate",
+        disposition,
+        evidence,
+      });
+    }
+
+    const answers = input.answers || {};
+    const asked = new Set<string>();
+    for (const symptom of definition.symptoms) {
+      if (!codes.has(symptom.code)) continue;
+      for (const id of symptom.questions || []) {
+        if (answers[id] === undefined) asked.add(id);
+      }
+    }
+
+    return {
+      disposition,
+      rationale,
+      redFlags,
+      matchedSymptoms: matched,
+      unrecognizedSymptoms: unrecognized,
+      pendingQuestions: definition.questions.filter((q) => asked.has(q.id)),
+      advice: definition.advice[disposition] || [],
+    };
+  }
+
+  /**
+   * Read a triage request body. Vitals may use the field names of stored
+   * vital signs (bloodPressureSystolic/Diastolic); unknown or non-numeric
+   * readings are dropped rather than guessed at.
+   */
+  static parseInput(
+    body: any,
+  ): { ok: true; input: TriageInput } | { ok: false; error: string } {
+    const symptoms = body?.symptoms;
+    if (
+      !Array.isArray(symptoms) ||
+      symptoms.some((symptom) => typeof symptom !== "string")
+    ) {
+      return { ok: false, error: "symptoms must be an array of strings" };
+    }
+    if (
+      body.answers !== undefined &&
+      (typeof body.answers !== "object" || Array.isArray(body.answers))
+    ) {
+      return { ok: false, error: "answers must map question ids to answers" };
+    }
+    if (
+      body.age !== undefined &&
+      (typeof body.age !== "number" || body.age < 0 || body.age > 130)
+    ) {
+      return { ok: false, error: "age must be a number of years" };
+    }
+
+    const raw = { ...(body.vitals || {}) };
+    raw.systolic ??= raw.bloodPressureSystolic;
+    raw.diastolic ??= raw.bloodPressureDiastolic;
+    const vitals: TriageInput["vitals"] = {};
+    for (const sign of VITAL_SIGNS) {
+      const value = Number(raw[sign]);
+      if (raw[sign] !== undefined && raw[sign] !== null && isFinite(value)) {
+        vitals[sign] = value;
+      }
+    }
+    // Protocols work in °C; no one is alive at 45 °C, so that is °F
+    if (vitals.temperature > 45) {
+      vitals.temperature = fahrenheitToCelsius(vitals.temperature);
+    }
+
+    return {
+      ok: true,
+      input: {
+        symptoms,
+        answers: body.answers || {},
+        vitals,
+        age: body.age,
+        pregnant:
+          typeof body.pregnant === "boolean" ? body.pregnant : undefined,
+      },
+    };
+  }
+
+  // Latest reading of each vital sign from stored vital_signs rows (newest
+  // first), in the units protocols use. Only readings from the last
+  // RECENT_READING_HOURS count.
+  static vitalsFromReadings(
+    rows: { type: string; value: any; unit?: string; measured_at?: any }[],
+    now = new Date(),
+  ): TriageInput["vitals"] {
+    const since = now.getTime() - RECENT_READING_HOURS * 60 * 60 * 1000;
+    const vitals: TriageInput["vitals"] = {};
+    for (const row of rows) {
+      const sign = READING_TYPES[String(row.type).toLowerCase()];
+      const value = Number(row.value);
+      if (!sign || vitals[sign] !== undefined || !isFinite(value)) continue;
+      const measuredAt = new Date(row.measured_at).getTime();
+      if (!(measuredAt >= since)) continue;
+      vitals[sign] =
+        sign === "temperature" && /f/i.test(row.unit || "")
+          ? fahrenheitToCelsius(value)
+          : value;
+    }
+    return vitals;
+  }
+
+  /**
+   * Check a protocol definition before it is saved. Returns a message
+   * describing the first problem, or null if the definition is usable.
+   */
+  static validateDefinition(definition: any): string | null {
+    if (!definition || typeof definition !== "object") {
+      return "Definition must be an object";
+    }
+    if (!DISPOSITIONS.includes(definition.defaultDisposition)) {
+      return `defaultDisposition must be one of ${DISPOSITIONS.join(", ")}`;
+    }
+    for (const key of ["symptoms", "questions", "rules"]) {
+      if (!Array.isArray(definition[key])) return `${key} must be an array`;
+    }
+
+    const questions = new Set<string>();
+    for (const question of definition.questions) {
+      if (!question?.id || !question.text) {
+        return "Every question needs an id and text";
+      }
+      if (questions.has(question.id)) {
+        return `Duplicate question id: ${question.id}`;
+      }
+      if (!["boolean", "number", "choice"].includes(question.type)) {
+        return `Question ${question.id} has an unknown type`;
+      }
+      questions.add(question.id);
+    }
+
+    const symptoms = new Set<string>();
+    for (const symptom of definition.symptoms) {
+      if (
+        !symptom?.code ||
+        !symptom.label ||
+        !Array.isArray(symptom.synonyms)
+      ) {
+        return "Every symptom needs a code, label and synonyms";
+      }
+      if (symptoms.has(symptom.code)) {
+        return `Duplicate symptom code: ${symptom.code}`;
+      }
+      const unknown = (symptom.questions || []).find(
+        (id: string) => !questions.has(id),
+      );
+      if (unknown) {
+        return `Symptom ${symptom.code} asks unknown question ${unknown}`;
+      }
+      symptoms.add(symptom.code);
+    }
+
+    const rules = new Set<string>();
+    for (const rule of definition.rules) {
+      if (!rule?.id || !rule.description) {
+        return "Every rule needs an id and description";
+      }
+      if (rules.has(rule.id)) return `Duplicate rule id: ${rule.id}`;
+      rules.add(rule.id);
+      if (!RULE_CATEGORIES.includes(rule.category)) {
+        return `Rule ${rule.id} has an unknown category`;
+      }
+      if (rule.category === "red_flag") {
+        if (
+          rule.escalate ||
+          (rule.disposition && rule.disposition !== "emergency")
+        ) {
+          return `Red flag ${rule.id} can only lead to emergency`;
+        }
+      } else if (rule.disposition !== undefined) {
+        if (!DISPOSITIONS.includes(rule.disposition) || rule.escalate) {
+          return `Rule ${rule.id} needs one valid disposition or an escalation`;
+        }
+      } else if (
+        !Number.isInteger(rule.escalate) ||
+        rule.escalate < 1 ||
+        rule.escalate > MAX_ESCALATION
+      ) {
+        return `Rule ${rule.id} needs a disposition or an escalation of 1-${MAX_ESCALATION} levels`;
+      }
+      const problem = this.validateCondition(rule.when, symptoms, questions);
+      if (problem) return `Rule ${rule.id}: ${problem}`;
+    }
+
+    if (
+      definition.advice !== undefined &&
+      typeof definition.advice !== "object"
+    ) {
+      return "advice must map dispositions to lists of advice";
+    }
+    return null;
+  }
+
+  // Triage the patient against the active version of a protocol and keep
+  // the decision. Null when the protocol has no active version.
+  static async assess(
+    code: string,
+    input: TriageInput,
+    context: { patientId: string; decidedBy: string; source: TriageSource },
+  ): Promise<{
+    protocol: TriageProtocol;
+    result: TriageResult;
+    decisionId: string;
+  } | null> {
+    const protocol = await this.activeProtocol(code);
+    if (!protocol) return null;
+
+    const facts: TriageInput = {
+      symptoms: (input.symptoms || []).map(String),
+      answers: input.answers || {},
+      vitals: input.vitals || {},
+      age: input.age ?? (await this.patientAge(context.patientId)),
+      pregnant: input.pregnant,
+    };
+    const result = this.evaluate(protocol.definition!, facts);
+
+    const inserted = await this.pool().query(
+      `INSERT INTO triage_decisions
+        (patient_id, protocol_id, protocol_code, protocol_version, source,
+         input, disposition, rationale, decided_by)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+      RETURNING id`,
+      [
+        context.patientId,
+        protocol.id,
+        protocol.code,
+        protocol.version,
+        context.source,
+        JSON.stringify(facts),
+        result.disposition,
+        JSON.stringify(result.rationale),
+        context.decidedBy,
+      ],
+    );
+
+    return { protocol, result, decisionId: inserted.rows[0].id };
+  }
+
+  /**
+   * The active version of a protocol. The bundled protocol is stored as
+   * version 1 the first time it is asked for, so there is always one to
+   * fall back on until clinicians publish their own.
+   */
+  static async activeProtocol(code: string): Promise<TriageProtocol | null> {
+    await this.ensureBundled(code);
+    const result = await this.pool().query(
+      "SELECT * FROM triage_protocols WHERE code = $1 AND status = 'active'",
+      [code],
+    );
+    return result.rows[0] ? this.fromRow(result.rows[0]) : null;
+  }
+
+  // Latest version of every protocol, without definitions
+  static async listProtocols(): Promise<TriageProtocol[]> {
+    await this.ensureBundled(DEFAULT_PROTOCOL);
+    const result = await this.pool().query(
+      `SELECT id, code, version, name, status, created_by, created_at,
+        published_by, published_at
+      FROM triage_protocols
+      ORDER BY code, version DESC`,
+    );
+    return result.rows.map((row) => this.fromRow(row));
+  }
+
+  static async getProtocol(
+    code: string,
+    version: number,
+  ): Promise<TriageProtocol | null> {
+    await this.ensureBundled(code);
+    const result = await this.pool().query(
+      "SELECT * FROM triage_protocols WHERE code = $1 AND version = $2",
+      [code, version],
+    );
+    return result.rows[0] ? this.fromRow(result.rows[0]) : null;
+  }
+
+  // Save an edited protocol as the next version, in draft
+  static async createDraft(
+    code: string,
+    name: string,
+    definition: TriageDefinition,
+    createdBy: string,
+  ): Promise<TriageProtocol> {
+    await this.ensureBundled(code);
+    const result = await this.pool().query(
+      `INSERT INTO triage_protocols (code, version, name, definition, created_by)
+      SELECT $1, COALESCE(MAX(version), 0) + 1, $2, $3, $4
+      FROM triage_protocols WHERE code = $1
+      RETURNING *`,
+      [code, name, JSON.stringify(definition), createdBy],
+    );
+    return this.fromRow(result.rows[0]);
+  }
+
+  /**
+   * Make a draft the active version, retiring the one it replaces. Null if
+   * the version is not a draft (already published or retired).
+   */
+  static async publish(
+    protocol: TriageProtocol,
+    publishedBy: string,
+  ): Promise<TriageProtocol | null> {
+    const client = await this.pool().connect();
+    try {
+      await client.query("BEGIN");
+      await client.query(
+        `UPDATE triage_protocols SET status = 'retired'
+        WHERE code = $1 AND status = 'active'`,
+        [protocol.code],
+      );
+      const result = await client.query(
+        `UPDATE triage_protocols
+        SET status = 'active', published_by = $2, published_at = NOW()
+        WHERE id = $1 AND status = 'draft'
+        RETURNING *`,
+        [protocol.id, publishedBy],
+      );
+      if (result.rows.length === 0) {
+        await client.query("ROLLBACK");
+        return null;
+      }
+      await client.query("COMMIT");
+      return this.fromRow(result.rows[0]);
+    } catch (error) {
+      await client.query("ROLLBACK");
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  static async getDecision(decisionId: string): Promise<TriageDecision | null> {
+    const result = await this.pool().query(
+      "SELECT * FROM triage_decisions WHERE id::text = $1",
+      [decisionId],
+    );
+    return result.rows[0] ? this.decisionFromRow(result.rows[0]) : null;
+  }
+
+  static async listDecisions(
+    patientId: string,
+    limit = 50,
+  ): Promise<TriageDecision[]> {
+    const result = await this.pool().query(
+      `SELECT * FROM triage_decisions WHERE patient_id = $1
+      ORDER BY created_at DESC LIMIT $2`,
+      [patientId, limit],
+    );
+    return result.rows.map((row) => this.decisionFromRow(row));
+  }
+
+  // Evidence for a condition when it holds, null when it does not
+  private static check(
+    condition: Condition,
+    symptoms: Set<string>,
+    input: TriageInput,
+  ): string[] | null {
+    if ("all" in condition) {
+      const evidence: string[] = [];
+      for (const part of condition.all) {
+        const found = this.check(part, symptoms, input);
+        if (!found) return null;
+        evidence.push(...found);
+      }
+      return evidence;
+    }
+    if ("any" in condition) {
+      for (const part of condition.any) {
+        const found = this.check(part, symptoms, input);
+        if (found) return found;
+      }
+      return null;
+    }
+    if ("not" in condition) {
+      return this.check(condition.not, symptoms, input) ? null : [];
+    }
+    if ("symptom" in condition) {
+      return symptoms.has(condition.symptom)
+        ? [`symptom ${condition.symptom}`]
+        : null;
+    }
+    if ("answer" in condition) {
+      const found = compare(input.answers?.[condition.answer], condition);
+      return found && found.map((fact) => `${condition.answer}: ${fact}`);
+    }
+    if ("vital" in condition) {
+      const found = compare(input.vitals?.[condition.vital], condition);
+      return found && found.map((fact) => `${condition.vital} ${fact}`);
+    }
+    if ("age" in condition) {
+      const found = compare(input.age, condition.age);
+      return found && found.map((fact) => `age ${fact}`);
+    }
+    if ("pregnant" in condition) {
+      return input.pregnant !== undefined &&
+        Boolean(input.pregnant) === condition.pregnant
+        ? [condition.pregnant ? "pregnant" : "not pregnant"]
+        : null;
+    }
+    return null;
+  }
+
+  private static validateCondition(
+    condition: any,
+    symptoms: Set<string>,
+    questions: Set<string>,
+  ): string | null {
+    if (!condition || typeof condition !== "object") {
+      return "condition must be an object";
+    }
+    if ("all" in condition || "any" in condition) {
+      const parts = condition.all ?? condition.any;
+      if (!Array.isArray(parts) || parts.length === 0) {
+        return "all/any need a non-empty list of conditions";
+      }
+      for (const part of parts) {
+        const problem = this.validateCondition(part, symptoms, questions);
+        if (problem) return problem;
+      }
+      return null;
+    }
+    if ("not" in condition) {
+      return this.validateCondition(condition.not, symptoms, questions);
+    }
+    if ("symptom" in condition) {
+      return symptoms.has(condition.symptom)
+        ? null
+        : `unknown symptom ${condition.symptom}`;
+    }
+    if ("answer" in condition) {
+      if (!questions.has(condition.answer)) {
+        return `unknown question ${condition.answer}`;
+      }
+      return this.validateComparison(condition);
+    }
+    if ("vital" in condition) {
+      if (!VITAL_SIGNS.includes(condition.vital)) {
+        return `unknown vital sign ${condition.vital}`;
+      }
+      return this.validateComparison(condition);
+    }
+    if ("age" in condition) return this.validateComparison(condition.age);
+    if ("pregnant" in condition) {
+      return typeof condition.pregnant === "boolean"
+        ? null
+        : "pregnant must be true or false";
+    }
+    return "unknown condition";
+  }
+
+  private static validateComparison(comparison: any): string | null {
+    const keys = COMPARATORS.map(([key]) => key).filter(
+      (key) => comparison?.[key] !== undefined,
+    );
+    if (keys.length === 0) return "comparison needs equals, lt, lte, gt or gte";
+    const badBound = keys.find(
+      (key) => key !== "equals" && typeof comparison[key] !== "number",
+    );
+    return badBound ? `${badBound} must be a number` : null;
+  }
+
+  private static mentions(text: string, phrase: string): boolean {
+    if (!phrase) return false;
+    let index = text.indexOf(` ${phrase} `);
+    while (index !== -1) {
+      const before = text.slice(0, index).trim().split(" ").pop();
+      if (!NEGATIONS.includes(before)) return true;
+      index = text.indexOf(` ${phrase} `, index + 1);
+    }
+    return false;
+  }
+
+  private static async patientAge(
+    patientId: string,
+  ): Promise<number | undefined> {
+    const result = await this.pool().query(
+      "SELECT date_of_birth FROM patients WHERE user_id = $1",
+      [patientId],
+    );
+    const born = result.rows[0]?.date_of_birth;
+    if (!born) return undefined;
+    const years =
+      (Date.now() - new Date(born).getTime()) / (365.25 * 24 * 60 * 60 * 1000);
+    return Math.round(years * 100) / 100;
+  }
+
+  private static seeded = new Set<string>();
+
+  private static async ensureBundled(code: string): Promise<void> {
+    const bundled = BUNDLED_PROTOCOLS[code];
+    if (!bundled || this.seeded.has(code)) return;
+    await this.pool().query(
+      `INSERT INTO triage_protocols
+        (code, version, name, status, definition, published_at)
+      VALUES ($1, 1, $2, 'active', $3, NOW())
+      ON CONFLICT (code, version) DO NOTHING`,
+      [code, bundled.name, JSON.stringify(bundled.definition)],
+    );
+    this.seeded.add(code);
+  }
+
+  static fromRow(row: any): TriageProtocol {
+    const iso = (value: any) =>
+      value ? new Date(value).toISOString() : undefined;
+    return {
+      id: row.id,
+      code: row.code,
+      version: row.version,
+      name: row.name,
+      status: row.status,
+      definition: row.definition || undefined,
+      createdBy: row.created_by || undefined,
+      createdAt: iso(row.created_at)!,
+      publishedBy: row.published_by || undefined,
+      publishedAt: iso(row.published_at),
+    };
+  }
+
+  static decisionFromRow(row: any): TriageDecision {
+    return {
+      id: row.id,
+      patientId: row.patient_id,
+      protocolId: row.protocol_id,
+      protocolCode: row.protocol_code,
+      protocolVersion: row.protocol_version,
+      source: row.source,
+      input: row.input,
+      disposition: row.disposition,
+      rationale: row.rationale,
+      decidedBy: row.decided_by || undefined,
+      createdAt: new Date(row.created_at).toISOString(),
+    };
+  }
+
+  private static pool() {
+    if (!dbPool) {
+      throw new Error("PostgreSQL pool not configured");
+    }
+    return dbPool;
+  }
+}
@@ -0,0 +1,1043 @@
+import { dbPool } from "../config/database";
+import { AuditLogger } from "./auditLogger";
+import { messagingService } from "./messagingService";
+import { PhoneDirectory } from "./phoneNumbers";
+import {
+  UssdGateway,
+  UssdReply,
+  UssdRequest,
+  normalizeServiceCode,
+} from "./ussdGateways";
+
+// USSD menus for basic phones. A menu is a versioned tree of numbered
+// items, edited as a draft and published to a service code. Each gateway
+// session is walked through the version it started on, one screen per
+// request; what the caller finally chose becomes a follow-up: a task for
+// staff (call the patient back, book an appointment, refill a prescription)
+// or an SMS reminder the server sends when it falls due.
+
+export const USSD_ACTIONS = [
+  "submenu",
+  "callback",
+  "sms",
+  "end",
+  "questionnaire",
+  "appointment",
+] as const;
+export type UssdAction = (typeof USSD_ACTIONS)[number];
+
+export const FOLLOW_UP_TYPES = [
+  "nurse_call",
+  "sms_reminder",
+  "appointment",
+  "prescription",
+] as const;
+export type FollowUpType = (typeof FOLLOW_UP_TYPES)[number];
+
+// Follow-ups worked by staff; the rest are SMS the server sends itself
+export const STAFF_FOLLOW_UPS: FollowUpType[] = [
+  "nurse_call",
+  "appointment",
+  "prescription",
+];
+
+// What an item leads to when it has no followUpAction of its own
+const DEFAULT_FOLLOW_UPS: Partial<Record<UssdAction, FollowUpType>> = {
+  callback: "nurse_call",
+  appointment: "appointment",
+  sms: "sms_reminder",
+};
+
+const END_MESSAGES: Record<Exclude<UssdAction, "submenu">, string> = {
+  callback: "Thank you. A nurse will call you back.",
+  sms: "Thank you. You will receive an SMS shortly.",
+  appointment: "Thank you. We will call you to confirm your appointment.",
+  questionnaire: "Thank you for your answers.",
+  end: "Goodbye.",
+};
+
+export const BACK_OPTION = "0";
+// Longest screen handsets reliably display
+export const MAX_SCREEN_LENGTH = 182;
+// Room is kept on every screen for the line saying the input was invalid
+const INVALID_LINE_LENGTH = "Invalid answer.\n".length;
+export const MAX_MENU_DEPTH = 5;
+export const MAX_INVALID_INPUTS = 3;
+export const MAX_FOLLOW_UP_DELAY = 7 * 24 * 60;
+const MAX_TEXT_ANSWER = 160;
+
+const SESSION_TIMEOUT_SECONDS = parseInt(
+  process.env.USSD_SESSION_TIMEOUT_SECONDS || "180",
+  10,
+);
+
+export interface UssdQuestion {
+  id: string;
+  text: string;
+  type: "number" | "choice" | "text";
+  // Choices are picked by number, in this order
+  options?: string[];
+  min?: number;
+  max?: number;
+}
+
+export interface UssdFollowUpAction {
+  type: FollowUpType;
+  // Minutes until an SMS is sent, or until a staff task is due
+  delay: number;
+  // The SMS text; for staff tasks, a confirmation texted straight away
+  message?: string;
+}
+
+export interface UssdMenuItem {
+  id: string;
+  option: string;
+  text: string;
+  action: UssdAction;
+  subItems?: UssdMenuItem[];
+  // Shown on the final screen
+  message?: string;
+  questions?: UssdQuestion[];
+  followUpAction?: UssdFollowUpAction;
+}
+
+export interface UssdMenuDefinition {
+  title: string;
+  items: UssdMenuItem[];
+}
+
+export type MenuStatus = "draft" | "active" | "retired";
+
+export interface UssdMenu {
+  id: string;
+  key: string;
+  version: number;
+  name: string;
+  serviceCode: string;
+  language: string;
+  status: MenuStatus;
+  // Left out of menu listings
+  definition?: UssdMenuDefinition;
+  createdBy?: string;
+  createdAt: string;
+  publishedBy?: string;
+  publishedAt?: string;
+}
+
+export interface SessionState {
+  // Ids of the submenus entered from the main menu
+  path: string[];
+  questionnaire?: {
+    itemId: string;
+    index: number;
+    answers: Record<string, string | number>;
+  };
+  invalidInputs: number;
+}
+
+export interface StepResult {
+  state: SessionState;
+  reply: UssdReply;
+  // The item the session finished on, with any questionnaire answers
+  selected?: {
+    item: UssdMenuItem;
+    answers?: Record<string, string | number>;
+  };
+}
+
+export type SessionStatus =
+  | "active"
+  | "completed"
+  | "failed"
+  | "released"
+  | "timed_out";
+
+export interface UssdSession {
+  id: string;
+  provider: string;
+  externalId: string;
+  phoneNumber: string;
+  serviceCode: string;
+  menuId: string;
+  patientId?: string;
+  state: SessionState;
+  status: SessionStatus;
+  steps: number;
+  startedAt: string;
+  lastActivityAt: string;
+  endedAt?: string;
+}
+
+export type FollowUpStatus =
+  | "open"
+  | "pending"
+  | "done"
+  | "sent"
+  | "failed"
+  | "cancelled";
+
+export interface UssdFollowUp {
+  id: string;
+  sessionId?: string;
+  type: FollowUpType;
+  status: FollowUpStatus;
+  phoneNumber: string;
+  patientId?: string;
+  patientName?: string;
+  message?: string;
+  details: {
+    menu: string;
+    version: number;
+    item: string;
+    answers?: Record<string, string | number>;
+  };
+  dueAt: string;
+  assignedTo?: string;
+  completedBy?: string;
+  completedAt?: string;
+  notes?: string;
+  createdAt: string;
+}
+
+export type PublishResult =
+  | { ok: true; menu: UssdMenu }
+  | { ok: false; reason: "not_draft" | "service_code_in_use" };
+
+const FOLLOW_UP_SELECT = `
+  SELECT f.*, u.first_name, u.last_name
+  FROM ussd_follow_ups f
+  LEFT JOIN users u ON u.id = f.patient_id`;
+
+const SMS_CATEGORIES: Record<
+  FollowUpType,
+  "reminder" | "appointment" | "medication"
+> = {
+  nurse_call: "reminder",
+  sms_reminder: "reminder",
+  appointment: "appointment",
+  prescription: "medication",
+};
+
+export class UssdService {
+  private static worker: NodeJS.Timeout | null = null;
+
+  /**
+   * Check a menu definition before it is saved: items and options unique,
+   * nesting limited, every screen short enough for USSD and every SMS
+   * follow-up has its text.
+   */
+  static validateDefinition(definition: any): string | null {
+    if (!definition || typeof definition !== "object") {
+      return "Definition must be an object";
+    }
+    if (!definition.title || typeof definition.title !== "string") {
+      return "title is required";
+    }
+    return this.validateItems(
+      definition.items,
+      definition.title,
+      1,
+      new Set<string>(),
+    );
+  }
+
+  // The follow-up an item leads to, if any
+  static followUpFor(item: UssdMenuItem): UssdFollowUpAction | null {
+    if (item.followUpAction) return item.followUpAction;
+    const type = DEFAULT_FOLLOW_UPS[item.action];
+    return type ? { type, delay: 0 } : null;
+  }
+
+  // The main menu of a new session
+  static start(definition: UssdMenuDefinition): StepResult {
+    const state: SessionState = { path: [], invalidInputs: 0 };
+    return {
+      state,
+      reply: { text: this.screen(definition, state), end: false },
+    };
+  }
+
+  /**
+   * Move a session on by one input. Kept free of I/O so menus can be tried
+   * out before they are published.
+   */
+  static step(
+    definition: UssdMenuDefinition,
+    state: SessionState,
+    input: string,
+  ): StepResult {
+    const entry = input.trim();
+    if (state.questionnaire) return this.answer(definition, state, entry);
+
+    if (entry === BACK_OPTION && state.path.length > 0) {
+      const back = { path: state.path.slice(0, -1), invalidInputs: 0 };
+      return {
+        state: back,
+        reply: { text: this.screen(definition, back), end: false },
+      };
+    }
+
+    const item = this.menuAt(definition, state.path).items.find(
+      (candidate) => candidate.option === entry,
+    );
+    if (!item) {
+      return this.invalid(
+        state,
+        "Invalid choice.",
+        this.screen(definition, state),
+      );
+    }
+
+    if (item.action === "submenu") {
+      const next = { path: [...state.path, item.id], invalidInputs: 0 };
+      return {
+        state: next,
+        reply: { text: this.screen(definition, next), end: false },
+      };
+    }
+    if (item.action === "questionnaire") {
+      const next: SessionState = {
+        path: state.path,
+        questionnaire: { itemId: item.id, index: 0, answers: {} },
+        invalidInputs: 0,
+      };
+      return {
+        state: next,
+        reply: { text: this.screen(definition, next), end: false },
+      };
+    }
+    return {
+      state: { ...state, invalidInputs: 0 },
+      reply: { text: item.message || END_MESSAGES[item.action], end: true },
+      selected: { item },
+    };
+  }
+
+  // The screen a session is on
+  static screen(definition: UssdMenuDefinition, state: SessionState): string {
+    if (state.questionnaire) {
+      const item = this.findItem(definition.items, state.questionnaire.itemId);
+      return this.questionText(item.questions[state.questionnaire.index]);
+    }
+    const menu = this.menuAt(definition, state.path);
+    return this.menuText(menu.title, menu.items, state.path.length > 0);
+  }
+
+  /**
+   * Answer one gateway request. New sessions start on the active menu for
+   * the service code; later requests continue on the version the session
+   * started with, so publishing never changes a menu under a caller.
+   */
+  static async handle(
+    gateway: UssdGateway,
+    request: UssdRequest,
+    now = new Date(),
+  ): Promise<UssdReply> {
+    const session = await this.getSession(gateway.provider, request.sessionId);
+
+    if (request.event !== "input") {
+      if (session?.status === "active") {
+        await this.endSession(session, request.event, now);
+      }
+      return { text: "", end: true };
+    }
+    if (!session) return this.open(gateway, request, now);
+    if (session.status !== "active") {
+      return { text: "This session has ended. Please dial again.", end: true };
+    }
+    if (
+      now.getTime() - Date.parse(session.lastActivityAt) >
+      SESSION_TIMEOUT_SECONDS * 1000
+    ) {
+      await this.endSession(session, "timed_out", now);
+      return { text: "Your session timed out. Please dial again.", end: true };
+    }
+
+    const menu = await this.getMenuById(session.menuId);
+    // A gateway resending the opening request gets the current screen again
+    if (request.input === null) {
+      return { text: this.screen(menu.definition, session.state), end: false };
+    }
+
+    const result = this.step(menu.definition, session.state, request.input);
+    const status: SessionStatus = !result.reply.end
+      ? "active"
+      : result.selected
+        ? "completed"
+        : "failed";
+    await this.pool().query(
+      `UPDATE ussd_sessions
+      SET state = $2, status = $3, steps = steps + 1, last_activity_at = $4,
+        ended_at = CASE WHEN $3 = 'active' THEN NULL ELSE $4 END
+      WHERE id = $1`,
+      [session.id, JSON.stringify(result.state), status, now],
+    );
+    if (result.selected) {
+      await this.createFollowUp(session, menu, result.selected, now);
+    }
+    return result.reply;
+  }
+
+  static async listMenus(): Promise<UssdMenu[]> {
+    const result = await this.pool().query(
+      `SELECT id, key, version, name, service_code, language, status,
+        created_by, created_at, published_by, published_at
+      FROM ussd_menus
+      ORDER BY key, version DESC`,
+    );
+    return result.rows.map((row) => this.fromRow(row));
+  }
+
+  static async activeMenu(key: string): Promise<UssdMenu | null> {
+    const result = await this.pool().query(
+      "SELECT * FROM ussd_menus WHERE key = $1 AND status = 'active'",
+      [key],
+    );
+    return result.rows[0] ? this.fromRow(result.rows[0]) : null;
+  }
+
+  static async getMenu(key: string, version: number): Promise<UssdMenu | null> {
+    const result = await this.pool().query(
+      "SELECT * FROM ussd_menus WHERE key = $1 AND version = $2",
+      [key, version],
+    );
+    return result.rows[0] ? this.fromRow(result.rows[0]) : null;
+  }
+
+  // Save an edited menu as its next version, in draft
+  static async createDraft(
+    key: string,
+    input: {
+      name: string;
+      serviceCode: string;
+      language: string;
+      definition: UssdMenuDefinition;
+    },
+    createdBy: string,
+  ): Promise<UssdMenu> {
+    const result = await this.pool().query(
+      `INSERT INTO ussd_menus
+        (key, version, name, service_code, language, definition, created_by)
+      SELECT $1, COALESCE(MAX(version), 0) + 1, $2, $3, $4, $5, $6
+      FROM ussd_menus WHERE key = $1
+      RETURNING *`,
+      [
+        key,
+        input.name,
+        normalizeServiceCode(input.serviceCode),
+        input.language,
+        JSON.stringify(input.definition),
+        createdBy,
+      ],
+    );
+    return this.fromRow(result.rows[0]);
+  }
+
+  /**
+   * Make a draft the version new sessions start on, retiring the one it
+   * replaces. Sessions already under way finish on their own version.
+   */
+  static async publish(
+    menu: UssdMenu,
+    publishedBy: string,
+  ): Promise<PublishResult> {
+    const client = await this.pool().connect();
+    try {
+      await client.query("BEGIN");
+      await client.query(
+        `UPDATE ussd_menus SET status = 'retired'
+        WHERE key = $1 AND status = 'active'`,
+        [menu.key],
+      );
+      const result = await client.query(
+        `UPDATE ussd_menus
+        SET status = 'active', published_by = $2, published_at = NOW()
+        WHERE id = $1 AND status = 'draft'
+        RETURNING *`,
+        [menu.id, publishedBy],
+      );
+      if (result.rows.length === 0) {
+        await client.query("ROLLBACK");
+        return { ok: false, reason: "not_draft" };
+      }
+      await client.query("COMMIT");
+      return { ok: true, menu: this.fromRow(result.rows[0]) };
+    } catch (error) {
+      await client.query("ROLLBACK");
+      // Another menu is live on the same service code
+      if (error.code === "23505") {
+        return { ok: false, reason: "service_code_in_use" };
+      }
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  // Staff follow-ups, soonest due first
+  static async listFollowUps(filter: {
+    statuses: FollowUpStatus[];
+    type?: FollowUpType;
+  }): Promise<UssdFollowUp[]> {
+    const result = await this.pool().query(
+      `${FOLLOW_UP_SELECT}
+      WHERE f.status = ANY($1) AND ($2::text IS NULL OR f.type = $2)
+      ORDER BY f.due_at
+      LIMIT 200`,
+      [filter.statuses, filter.type || null],
+    );
+    return result.rows.map((row) => this.followUpFromRow(row));
+  }
+
+  static async getFollowUp(id: string): Promise<UssdFollowUp | null> {
+    const result = await this.pool().query(
+      `${FOLLOW_UP_SELECT} WHERE f.id::text = $1`,
+      [id],
+    );
+    return result.rows[0] ? this.followUpFromRow(result.rows[0]) : null;
+  }
+
+  // Take an open task; null once it is closed
+  static async assignFollowUp(
+    followUp: UssdFollowUp,
+    staffId: string,
+  ): Promise<UssdFollowUp | null> {
+    const result = await this.pool().query(
+      `UPDATE ussd_follow_ups SET assigned_to = $2
+      WHERE id = $1 AND status = 'open'
+      RETURNING id`,
+      [followUp.id, staffId],
+    );
+    return result.rows[0] ? this.getFollowUp(followUp.id) : null;
+  }
+
+  // Close an open task as done or cancelled; null once it is closed
+  static async closeFollowUp(
+    followUp: UssdFollowUp,
+    staffId: string,
+    outcome: "done" | "cancelled",
+    notes?: string,
+  ): Promise<UssdFollowUp | null> {
+    const result = await this.pool().query(
+      `UPDATE ussd_follow_ups
+      SET status = $3, completed_by = $2, completed_at = NOW(), notes = $4,
+        assigned_to = COALESCE(assigned_to, $2)
+      WHERE id = $1 AND status = 'open'
+      RETURNING id`,
+      [followUp.id, staffId, outcome, notes || null],
+    );
+    return result.rows[0] ? this.getFollowUp(followUp.id) : null;
+  }
+
+  // Send the SMS reminders that have fallen due; returns how many were sent
+  static async sendDueReminders(now = new Date()): Promise<number> {
+    // Claimed before sending, so two workers never send the same reminder
+    const due = await this.pool().query(
+      `UPDATE ussd_follow_ups SET status = 'sent', completed_at = NOW()
+      WHERE id IN (
+        SELECT id FROM ussd_follow_ups
+        WHERE type = 'sms_reminder' AND status = 'pending' AND due_at <= $1
+        ORDER BY due_at
+        LIMIT 50
+        FOR UPDATE SKIP LOCKED
+      )
+      RETURNING *`,
+      [now],
+    );
+
+    let sent = 0;
+    for (const row of due.rows) {
+      const followUp = this.followUpFromRow(row);
+      const response = await this.text(followUp, followUp.message);
+      if (response.success) {
+        sent++;
+      } else {
+        await this.pool().query(
+          "UPDATE ussd_follow_ups SET status = 'failed', notes = $2 WHERE id = $1",
+          [followUp.id, response.error || "SMS not sent"],
+        );
+      }
+    }
+    return sent;
+  }
+
+  // Sessions the gateway never closed, once they can no longer continue
+  static async expireSessions(now = new Date()): Promise<number> {
+    const result = await this.pool().query(
+      `UPDATE ussd_sessions SET status = 'timed_out', ended_at = $1
+      WHERE status = 'active'
+        AND last_activity_at < $1::timestamptz - make_interval(secs => $2)`,
+      [now, SESSION_TIMEOUT_SECONDS],
+    );
+    return result.rowCount;
+  }
+
+  // Send due reminders and close stale sessions every minute
+  static startWorker(intervalMs = 60 * 1000): void {
+    if (this.worker || !dbPool) return;
+    this.worker = setInterval(() => {
+      Promise.all([this.sendDueReminders(), this.expireSessions()]).catch(
+        (error) => console.error("USSD worker error:", error),
+      );
+    }, intervalMs);
+    // Never the reason the process stays up
+    this.worker.unref();
+  }
+
+  private static async open(
+    gateway: UssdGateway,
+    request: UssdRequest,
+    now: Date,
+  ): Promise<UssdReply> {
+    const result = await this.pool().query(
+      "SELECT * FROM ussd_menus WHERE service_code = $1 AND status = 'active'",
+      [request.serviceCode],
+    );
+    if (!result.rows[0]) {
+      AuditLogger.logSystemEvent("ussd", "unknown_service_code", {
+        provider: gateway.provider,
+        serviceCode: request.serviceCode,
+      });
+      return { text: "This service is not available.", end: true };
+    }
+
+    const menu = this.fromRow(result.rows[0]);
+    const started = this.start(menu.definition);
+    // The patient account with this phone number, unless it is shared
+    const patient = await PhoneDirectory.findPatient(request.phoneNumber);
+    await this.pool().query(
+      `INSERT INTO ussd_sessions
+        (provider, external_id, phone, service_code, menu_id, patient_id,
+         state, started_at, last_activity_at)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $8)
+      ON CONFLICT (provider, external_id) DO NOTHING`,
+      [
+        gateway.provider,
+        request.sessionId,
+        request.phoneNumber,
+        request.serviceCode,
+        menu.id,
+        patient?.id || null,
+        JSON.stringify(started.state),
+        now,
+      ],
+    );
+    return started.reply;
+  }
+
+  private static async endSession(
+    session: UssdSession,
+    status: SessionStatus,
+    now: Date,
+  ): Promise<void> {
+    await this.pool().query(
+      `UPDATE ussd_sessions SET status = $2, ended_at = $3
+      WHERE id = $1 AND status = 'active'`,
+      [session.id, status, now],
+    );
+  }
+
+  private static async createFollowUp(
+    session: UssdSession,
+    menu: UssdMenu,
+    selected: NonNullable<StepResult["selected"]>,
+    now: Date,
+  ): Promise<void> {
+    const action = this.followUpFor(selected.item);
+    if (!action) return;
+
+    const staffTask = STAFF_FOLLOW_UPS.includes(action.type);
+    const result = await this.pool().query(
+      `INSERT INTO ussd_follow_ups
+        (session_id, type, status, phone, patient_id, message, details, due_at)
+      VALUES ($1, $2, $3, $4, $5, $6, $7,
+        $8::timestamptz + make_interval(mins => $9))
+      RETURNING *`,
+      [
+        session.id,
+        action.type,
+        staffTask ? "open" : "pending",
+        session.phoneNumber,
+        session.patientId || null,
+        action.message || null,
+        JSON.stringify({
+          menu: menu.key,
+          version: menu.version,
+          item: selected.item.text,
+          answers: selected.answers,
+        }),
+        now,
+        action.delay,
+      ],
+    );
+    const followUp = this.followUpFromRow(result.rows[0]);
+
+    AuditLogger.logSystemEvent("ussd", "follow_up_created", {
+      followUpId: followUp.id,
+      type: followUp.type,
+      sessionId: session.id,
+      patientId: session.patientId,
+    });
+
+    // Texts go out after the gateway has its reply; it only waits seconds
+    const texting = staffTask
+      ? action.message
+        ? this.text(followUp, action.message)
+        : null
+      : action.delay === 0
+        ? this.sendDueReminders(now)
+        : null;
+    texting?.catch((error) =>
+      console.error("USSD follow-up SMS error:", error),
+    );
+  }
+
+  private static text(followUp: UssdFollowUp, message: string) {
+    return messagingService.sendMessage({
+      to: followUp.phoneNumber,
+      message,
+      type: "sms",
+      priority: "medium",
+      category: SMS_CATEGORIES[followUp.type],
+      patientId: followUp.patientId,
+    });
+  }
+
+  // The session a gateway knows by its own id, once it has started
+  private static async getSession(
+    provider: string,
+    externalId: string,
+  ): Promise<UssdSession | null> {
+    const result = await this.pool().query(
+      "SELECT * FROM ussd_sessions WHERE provider = $1 AND external_id = $2",
+      [provider, externalId],
+    );
+    return result.rows[0] ? this.sessionFromRow(result.rows[0]) : null;
+  }
+
+  private static async getMenuById(id: string): Promise<UssdMenu> {
+    const result = await this.pool().query(
+      "SELECT * FROM ussd_menus WHERE id = $1",
+      [id],
+    );
+    return this.fromRow(result.rows[0]);
+  }
+
+  private static answer(
+    definition: UssdMenuDefinition,
+    state: SessionState,
+    entry: string,
+  ): StepResult {
+    const { itemId, index, answers } = state.questionnaire;
+    const item = this.findItem(definition.items, itemId);
+    const question = item.questions[index];
+    const value = this.parseAnswer(question, entry);
+    if (value === null) {
+      return this.invalid(
+        state,
+        "Invalid answer.",
+        this.questionText(question),
+      );
+    }
+
+    const next: SessionState = {
+      path: state.path,
+      questionnaire: {
+        itemId,
+        index: index + 1,
+        answers: { ...answers, [question.id]: value },
+      },
+      invalidInputs: 0,
+    };
+    if (index + 1 < item.questions.length) {
+      return {
+        state: next,
+        reply: { text: this.screen(definition, next), end: false },
+      };
+    }
+    return {
+      state: next,
+      reply: {
+        text: item.message || END_MESSAGES.questionnaire,
+        end: true,
+      },
+      selected: { item, answers: next.questionnaire.answers },
+    };
+  }
+
+  private static parseAnswer(
+    question: UssdQuestion,
+    entry: string,
+  ): string | number | null {
+    if (question.type === "number") {
+      if (!/^-?\d+(\.\d+)?$/.test(entry)) return null;
+      const value = Number(entry);
+      if (question.min !== undefined && value < question.min) return null;
+      if (question.max !== undefined && value > question.max) return null;
+      return value;
+    }
+    if (question.type === "choice") {
+      const choice = /^\d+$/.test(entry) ? parseInt(entry, 10) : 0;
+      return question.options[choice - 1] ?? null;
+    }
+    return entry && entry.length <= MAX_TEXT_ANSWER ? entry : null;
+  }
+
+  // The same screen again, or the end of the session after too many tries
+  private static invalid(
+    state: SessionState,
+    problem: string,
+    screen: string,
+  ): StepResult {
+    const next = { ...state, invalidInputs: state.invalidInputs + 1 };
+    if (next.invalidInputs >= MAX_INVALID_INPUTS) {
+      return {
+        state: next,
+        reply: {
+          text: "Too many invalid entries. Please dial again.",
+          end: true,
+        },
+      };
+    }
+    return {
+      state: next,
+      reply: { text: `${problem}\n${screen}`, end: false },
+    };
+  }
+
+  private static menuAt(
+    definition: UssdMenuDefinition,
+    path: string[],
+  ): { title: string; items: UssdMenuItem[] } {
+    let menu = { title: definition.title, items: definition.items };
+    for (const id of path) {
+      const item = menu.items.find((candidate) => candidate.id === id);
+      menu = { title: item.text, items: item.subItems };
+    }
+    return menu;
+  }
+
+  private static findItem(
+    items: UssdMenuItem[],
+    id: string,
+  ): UssdMenuItem | null {
+    for (const item of items) {
+      if (item.id === id) return item;
+      const found = item.subItems && this.findItem(item.subItems, id);
+      if (found) return found;
+    }
+    return null;
+  }
+
+  private static menuText(
+    title: string,
+    items: UssdMenuItem[],
+    canGoBack: boolean,
+  ): string {
+    return [
+      title,
+      ...items.map((item) => `${item.option}. ${item.text}`),
+      ...(canGoBack ? [`${BACK_OPTION}. Back`] : []),
+    ].join("\n");
+  }
+
+  private static questionText(question: UssdQuestion): string {
+    return [
+      question.text,
+      ...(question.options || []).map((option, i) => `${i + 1}. ${option}`),
+    ].join("\n");
+  }
+
+  private static validateItems(
+    items: any,
+    title: string,
+    depth: number,
+    ids: Set<string>,
+  ): string | null {
+    if (!Array.isArray(items) || items.length === 0) {
+      return `Menu "${title}" needs at least one item`;
+    }
+    if (depth > MAX_MENU_DEPTH) {
+      return `Menus can be nested at most ${MAX_MENU_DEPTH} deep`;
+    }
+
+    const options = new Set<string>();
+    for (const item of items) {
+      if (!item?.id || !item.option || !item.text) {
+        return "Every item needs an id, option and text";
+      }
+      if (ids.has(item.id)) return `Duplicate item id: ${item.id}`;
+      ids.add(item.id);
+      if (!/^[1-9]\d?$/.test(item.option)) {
+        return `Item ${item.id}: option must be a number from 1 to 99`;
+      }
+      if (options.has(item.option)) {
+        return `Item ${item.id}: option ${item.option} is already used in "${title}"`;
+      }
+      options.add(item.option);
+      if (!USSD_ACTIONS.includes(item.action)) {
+        return `Item ${item.id} has an unknown action`;
+      }
+
+      if (item.action === "submenu") {
+        if (item.followUpAction) {
+          return `Item ${item.id}: a submenu cannot have a follow-up`;
+        }
+        const problem = this.validateItems(
+          item.subItems,
+          item.text,
+          depth + 1,
+          ids,
+        );
+        if (problem) return problem;
+        continue;
+      }
+      if (item.subItems?.length) {
+        return `Item ${item.id}: only submenus have subItems`;
+      }
+      if (item.action === "questionnaire") {
+        const problem = this.validateQuestions(item);
+        if (problem) return problem;
+      }
+      if (item.followUpAction !== undefined) {
+        const { type, delay, message } = item.followUpAction || {};
+        if (!FOLLOW_UP_TYPES.includes(type)) {
+          return `Item ${item.id} has an unknown follow-up type`;
+        }
+        if (
+          !Number.isInteger(delay) ||
+          delay < 0 ||
+          delay > MAX_FOLLOW_UP_DELAY
+        ) {
+          return `Item ${item.id}: follow-up delay must be 0-${MAX_FOLLOW_UP_DELAY} minutes`;
+        }
+        if (message !== undefined && typeof message !== "string") {
+          return `Item ${item.id}: follow-up message must be text`;
+        }
+      }
+      const followUp = this.followUpFor(item);
+      if (followUp?.type === "sms_reminder" && !followUp.message) {
+        return `Item ${item.id} sends an SMS but its followUpAction has no message`;
+      }
+      if (
+        (item.message || "").length >
+        MAX_SCREEN_LENGTH - INVALID_LINE_LENGTH
+      ) {
+        return `Item ${item.id}: message is longer than a USSD screen`;
+      }
+    }
+
+    return this.checkScreen(
+      `Menu "${title}"`,
+      this.menuText(title, items, depth > 1),
+    );
+  }
+
+  private static validateQuestions(item: any): string | null {
+    if (!Array.isArray(item.questions) || item.questions.length === 0) {
+      return `Item ${item.id}: a questionnaire needs questions`;
+    }
+    const ids = new Set<string>();
+    for (const question of item.questions) {
+      if (!question?.id || !question.text) {
+        return `Item ${item.id}: every question needs an id and text`;
+      }
+      if (ids.has(question.id)) {
+        return `Item ${item.id}: duplicate question id ${question.id}`;
+      }
+      ids.add(question.id);
+      if (!["number", "choice", "text"].includes(question.type)) {
+        return `Question ${question.id} has an unknown type`;
+      }
+      if (
+        question.type === "choice" &&
+        (!Array.isArray(question.options) ||
+          question.options.length < 2 ||
+          question.options.length > 9)
+      ) {
+        return `Question ${question.id} needs 2-9 options`;
+      }
+      const problem = this.checkScreen(
+        `Question ${question.id}`,
+        this.questionText(question),
+      );
+      if (problem) return problem;
+    }
+    return null;
+  }
+
+  private static checkScreen(label: string, text: string): string | null {
+    const limit = MAX_SCREEN_LENGTH - INVALID_LINE_LENGTH;
+    return text.length > limit
+      ? `${label} is ${text.length} characters; USSD screens allow ${limit}`
+      : null;
+  }
+
+  static fromRow(row: any): UssdMenu {
+    const iso = (value: any) =>
+      value ? new Date(value).toISOString() : undefined;
+    return {
+      id: row.id,
+      key: row.key,
+      version: row.version,
+      name: row.name,
+      serviceCode: row.service_code,
+      language: row.language,
+      status: row.status,
+      definition: row.definition || undefined,
+      createdBy: row.created_by || undefined,
+      createdAt: iso(row.created_at)!,
+      publishedBy: row.published_by || undefined,
+      publishedAt: iso(row.published_at),
+    };
+  }
+
+  private static sessionFromRow(row: any): UssdSession {
+    return {
+      id: row.id,
+      provider: row.provider,
+      externalId: row.external_id,
+      phoneNumber: row.phone,
+      serviceCode: row.service_code,
+      menuId: row.menu_id,
+      patientId: row.patient_id || undefined,
+      state: row.state,
+      status: row.status,
+      steps: row.steps,
+      startedAt: new Date(row.started_at).toISOString(),
+      lastActivityAt: new Date(row.last_activity_at).toISOString(),
+      endedAt: row.ended_at ? new Date(row.ended_at).toISOString() : undefined,
+    };
+  }
+
+  private static followUpFromRow(row: any): UssdFollowUp {
+    const iso = (value: any) =>
+      value ? new Date(value).toISOString() : undefined;
+    return {
+      id: row.id,
+      sessionId: row.session_id || undefined,
+      type: row.type,
+      status: row.status,
+      phoneNumber: row.phone,
+      patientId: row.patient_id || undefined,
+      patientName: row.first_name
+        ? `${row.first_name} ${row.last_name}`
+        : undefined,
+      message: row.message || undefined,
+      details: row.details,
+      dueAt: iso(row.due_at)!,
+      assignedTo: row.assigned_to || undefined,
+      completedBy: row.completed_by || undefined,
+      completedAt: iso(row.completed_at),
+      notes: row.notes || undefined,
+      createdAt: iso(row.created_at)!,
+    };
+  }
+
+  private static pool() {
+    if (!dbPool) {
+      throw new Error("PostgreSQL pool not configured");
+    }
+    return dbPool;
+  }
+}
@@ -0,0 +1,113 @@
+import { normalizePhone } from "./phoneNumbers";
+
+// USSD gateways call us once per screen of a session and expect the next
+// screen back, marked as either continuing (the phone waits for input) or
+// final (the session closes). Each gateway is an adapter between its own
+// request/response format and the session engine in ussd.ts.
+
+export interface UssdRequest {
+  // The gateway's id for the session, stable across its screens
+  sessionId: string;
+  phoneNumber: string;
+  serviceCode: string;
+  // What the caller entered on the last screen; null when the session opens
+  input: string | null;
+  // The gateway closing a session itself: the caller hung up or the
+  // network timed the session out
+  event: "input" | "released" | "timed_out";
+}
+
+export interface UssdReply {
+  text: string;
+  end: boolean;
+}
+
+export interface UssdGateway {
+  provider: string;
+  label: string;
+  // Null when the body is not a session request from this gateway
+  parse(body: any): UssdRequest | null;
+  render(reply: UssdReply): { contentType: string; body: string };
+}
+
+// Service codes are compared without the leading "*" and trailing "#", since
+// gateways differ on whether they send them: "*384*12#" becomes "384*12"
+export const normalizeServiceCode = (code: string): string =>
+  String(code || "")
+    .replace(/[^0-9*]/g, "")
+    .replace(/^\*+|\*+$/g, "");
+
+/**
+ * Africa's Talking posts a form with the whole session's input so far in
+ * `text`, entries joined by "*" ("" on the first screen, then "1", "1*2"
+ * and so on). Replies are plain text starting with CON or END.
+ */
+export const africasTalkingGateway: UssdGateway = {
+  provider: "africastalking",
+  label: "Africa's Talking",
+  parse(body) {
+    if (!body?.sessionId || !body.phoneNumber || !body.serviceCode) {
+      return null;
+    }
+    const text = String(body.text ?? "");
+    return {
+      sessionId: String(body.sessionId),
+      phoneNumber: normalizePhone(body.phoneNumber),
+      serviceCode: normalizeServiceCode(body.serviceCode),
+      input: text === "" ? null : text.slice(text.lastIndexOf("*") + 1),
+      event: "input",
+    };
+  },
+  render(reply) {
+    return {
+      contentType: "text/plain",
+      body: `${reply.end ? "END" : "CON"} ${reply.text}`,
+    };
+  },
+};
+
+/**
+ * Hubtel posts JSON with a `Type` of Initiation, Response, Release or
+ * Timeout and only the latest input in `Message`. Replies are JSON with a
+ * `Type` of Response (continue) or Release (close).
+ */
+export const hubtelGateway: UssdGateway = {
+  provider: "hubtel",
+  label: "Hubtel",
+  parse(body) {
+    const type = String(body?.Type || "").toLowerCase();
+    if (
+      !body?.SessionId ||
+      !body.Mobile ||
+      !["initiation", "response", "release", "timeout"].includes(type)
+    ) {
+      return null;
+    }
+    return {
+      sessionId: String(body.SessionId),
+      phoneNumber: normalizePhone(body.Mobile),
+      serviceCode: normalizeServiceCode(body.ServiceCode),
+      input: type === "response" ? String(body.Message ?? "") : null,
+      event:
+        type === "release"
+          ? "released"
+          : type === "timeout"
+            ? "timed_out"
+            : "input",
+    };
+  },
+  render(reply) {
+    return {
+      contentType: "application/json",
+      body: JSON.stringify({
+        Type: reply.end ? "Release" : "Response",
+        Message: reply.text,
+      }),
+    };
+  },
+};
+
+export const USSD_GATEWAYS: Record<string, UssdGateway> = {
+  [africasTalkingGateway.provider]: africasTalkingGateway,
+  [hubtelGateway.provider]: hubtelGateway,
+};
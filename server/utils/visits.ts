@@ -0,0 +1,398 @@
+import { dbPool } from "../config/database";
+import { SchedulingService, Appointment } from "./scheduling";
+
+// Server-side state of a telehealth visit. The patient checks in to the
+// virtual waiting room, the provider admits them, and the provider ends the
+// visit. Who is connected when is kept as join/leave events, from which the
+// wait, visit and face-to-face times used for billing are worked out.
+
+// Patients can check in from this many minutes before the start
+export const CHECK_IN_OPENS_MINUTES = Number(
+  process.env.VISIT_CHECK_IN_MINUTES || 30,
+);
+// Largest SDP or ICE payload relayed over the WebSocket
+export const MAX_SIGNAL_BYTES = 64 * 1024;
+export const SIGNAL_TYPES = ["offer", "answer", "ice-candidate", "hangup"];
+
+export type VisitStatus = "waiting" | "in_progress" | "ended";
+export type VisitEventType =
+  | "checked_in"
+  | "admitted"
+  | "joined"
+  | "left"
+  | "ended";
+
+export interface VisitSession {
+  id: string;
+  appointmentId: string;
+  patientId: string;
+  providerId: string;
+  status: VisitStatus;
+  checkedInAt: string;
+  admittedAt?: string;
+  endedAt?: string;
+  endedBy?: string;
+  summary?: string;
+  diagnosis: string[];
+  recommendations: string[];
+  followUp?: string;
+  billableSeconds?: number;
+  // Only filled in for the waiting room
+  patientName?: string;
+}
+
+export interface VisitEvent {
+  userId: string;
+  // The user's role when the event was recorded
+  role?: string;
+  event: VisitEventType;
+  at: string;
+}
+
+export interface VisitTimers {
+  waitSeconds: number;
+  visitSeconds: number;
+  // Time the provider and the patient or one of their caregivers were both
+  // connected; other clinicians on the call do not count
+  faceToFaceSeconds: number;
+}
+
+export interface VisitNotes {
+  summary?: string;
+  diagnosis?: string[];
+  recommendations?: string[];
+  followUp?: string;
+}
+
+type CheckInResult =
+  | { ok: true; session: VisitSession; created: boolean }
+  | { ok: false; reason: "too_early" | "too_late" | "not_checkable" };
+
+const MINUTE = 60 * 1000;
+const CHECKABLE_STATUSES = ["scheduled", "confirmed", "checked_in"];
+
+const seconds = (ms: number) => Math.max(0, Math.round(ms / 1000));
+
+export class VisitService {
+  /**
+   * Put the patient in the waiting room for their appointment. Checking in
+   * again returns the open session rather than starting another.
+   */
+  static async checkIn(
+    appointment: Appointment,
+    userId: string,
+    now = new Date(),
+  ): Promise<CheckInResult> {
+    const existing = await this.getByAppointment(appointment.id);
+    if (existing && existing.status !== "ended") {
+      return { ok: true, session: existing, created: false };
+    }
+    if (existing || !CHECKABLE_STATUSES.includes(appointment.status)) {
+      return { ok: false, reason: "not_checkable" };
+    }
+    const opens =
+      new Date(appointment.start).getTime() - CHECK_IN_OPENS_MINUTES * MINUTE;
+    if (now.getTime() < opens) {
+      return { ok: false, reason: "too_early" };
+    }
+    if (now.getTime() >= new Date(appointment.end).getTime()) {
+      return { ok: false, reason: "too_late" };
+    }
+
+    const result = await this.pool().query(
+      `INSERT INTO visit_sessions (appointment_id, patient_id, provider_id)
+      VALUES ($1, $2, $3)
+      ON CONFLICT (appointment_id) DO NOTHING
+      RETURNING *`,
+      [appointment.id, appointment.patientId, appointment.providerId],
+    );
+    if (result.rows.length === 0) {
+      // Checked in from another device at the same moment
+      return {
+        ok: true,
+        session: await this.getByAppointment(appointment.id),
+        created: false,
+      };
+    }
+    const session = this.fromRow(result.rows[0]);
+    await this.recordEvent(session.id, userId, "checked_in");
+    if (appointment.status !== "checked_in") {
+      await SchedulingService.transitionStatus(
+        appointment,
+        "checked_in",
+        userId,
+        "Checked in to virtual waiting room",
+      );
+    }
+    return { ok: true, session, created: true };
+  }
+
+  // Move a waiting patient into the visit; null if they were not waiting
+  static async admit(
+    session: VisitSession,
+    providerId: string,
+  ): Promise<VisitSession | null> {
+    const result = await this.pool().query(
+      `UPDATE visit_sessions SET status = 'in_progress', admitted_at = NOW()
+      WHERE id = $1 AND status = 'waiting'
+      RETURNING *`,
+      [session.id],
+    );
+    if (result.rows.length === 0) return null;
+
+    await this.recordEvent(session.id, providerId, "admitted");
+    const appointment = await SchedulingService.getAppointment(
+      session.appointmentId,
+    );
+    if (appointment?.status === "checked_in") {
+      await SchedulingService.transitionStatus(
+        appointment,
+        "in_progress",
+        providerId,
+      );
+    }
+    return this.fromRow(result.rows[0]);
+  }
+
+  /**
+   * Close the visit, keep the provider's notes and fix the billable
+   * (face-to-face) time. Ending a visit that was never admitted completes
+   * nothing; the appointment stays checked in for staff to resolve.
+   */
+  static async end(
+    session: VisitSession,
+    endedBy: string,
+    notes: VisitNotes,
+  ): Promise<VisitSession | null> {
+    const now = new Date();
+    const events = await this.getEvents(session.id);
+    const timers = this.timers(
+      { ...session, endedAt: now.toISOString() },
+      events,
+      now,
+    );
+
+    const result = await this.pool().query(
+      `UPDATE visit_sessions
+      SET status = 'ended', ended_at = $2, ended_by = $3, summary = $4,
+        details = $5, billable_seconds = $6
+      WHERE id = $1 AND status <> 'ended'
+      RETURNING *`,
+      [
+        session.id,
+        now,
+        endedBy,
+        notes.summary || null,
+        JSON.stringify({
+          diagnosis: notes.diagnosis || [],
+          recommendations: notes.recommendations || [],
+          followUp: notes.followUp,
+        }),
+        timers.faceToFaceSeconds,
+      ],
+    );
+    if (result.rows.length === 0) return null;
+
+    await this.recordEvent(session.id, endedBy, "ended");
+    const appointment = await SchedulingService.getAppointment(
+      session.appointmentId,
+    );
+    if (appointment?.status === "in_progress") {
+      await SchedulingService.transitionStatus(
+        appointment,
+        "completed",
+        endedBy,
+      );
+    }
+    return this.fromRow(result.rows[0]);
+  }
+
+  static async get(sessionId: string): Promise<VisitSession | null> {
+    const result = await this.pool().query(
+      "SELECT * FROM visit_sessions WHERE id::text = $1",
+      [sessionId],
+    );
+    return result.rows[0] ? this.fromRow(result.rows[0]) : null;
+  }
+
+  static async getByAppointment(
+    appointmentId: string,
+  ): Promise<VisitSession | null> {
+    const result = await this.pool().query(
+      "SELECT * FROM visit_sessions WHERE appointment_id = $1",
+      [appointmentId],
+    );
+    return result.rows[0] ? this.fromRow(result.rows[0]) : null;
+  }
+
+  // A provider's waiting room, longest wait first
+  static async listWaiting(providerId: string): Promise<VisitSession[]> {
+    const result = await this.pool().query(
+      `SELECT v.*, u.first_name, u.last_name
+      FROM visit_sessions v
+      JOIN users u ON u.id = v.patient_id
+      WHERE v.provider_id = $1 AND v.status = 'waiting'
+      ORDER BY v.checked_in_at`,
+      [providerId],
+    );
+    return result.rows.map((row) => this.fromRow(row));
+  }
+
+  static async getEvents(sessionId: string): Promise<VisitEvent[]> {
+    const result = await this.pool().query(
+      `SELECT user_id, role, event, created_at FROM visit_events
+      WHERE session_id = $1 ORDER BY created_at, id`,
+      [sessionId],
+    );
+    return result.rows.map((row) => ({
+      userId: row.user_id,
+      role: row.role || undefined,
+      event: row.event,
+      at: new Date(row.created_at).toISOString(),
+    }));
+  }
+
+  static async recordEvent(
+    sessionId: string,
+    userId: string,
+    event: VisitEventType,
+    role?: string,
+  ): Promise<void> {
+    await this.pool().query(
+      "INSERT INTO visit_events (session_id, user_id, event, role) VALUES ($1, $2, $3, $4)",
+      [sessionId, userId, event, role || null],
+    );
+  }
+
+  /**
+   * Wait, visit and face-to-face times from the session and its events.
+   * Open intervals run to the end of the visit, or to `now` while it lasts.
+   */
+  static timers(
+    session: VisitSession,
+    events: VisitEvent[],
+    now = new Date(),
+  ): VisitTimers {
+    const end = session.endedAt
+      ? new Date(session.endedAt).getTime()
+      : now.getTime();
+    const checkedIn = new Date(session.checkedInAt).getTime();
+    const admitted = session.admittedAt
+      ? new Date(session.admittedAt).getTime()
+      : null;
+
+    const provider = this.presence(
+      events.filter((e) => e.userId === session.providerId),
+      end,
+    );
+    const patientSide = this.presence(
+      events.filter(
+        (e) => e.userId === session.patientId || e.role === "caregiver",
+      ),
+      end,
+    );
+
+    let faceToFace = 0;
+    if (admitted !== null) {
+      for (const a of provider) {
+        for (const b of patientSide) {
+          const from = Math.max(a.start, b.start, admitted);
+          const to = Math.min(a.end, b.end, end);
+          if (to > from) faceToFace += to - from;
+        }
+      }
+    }
+
+    return {
+      waitSeconds: seconds((admitted ?? end) - checkedIn),
+      visitSeconds: admitted === null ? 0 : seconds(end - admitted),
+      faceToFaceSeconds: seconds(faceToFace),
+    };
+  }
+
+  /**
+   * STUN/TURN servers handed to WebRTC clients, from WEBRTC_ICE_SERVERS
+   * (a JSON array of RTCIceServer). Without any, calls only connect when
+   * both ends can reach each other directly.
+   */
+  static iceServers(): {
+    urls: string | string[];
+    username?: string;
+    credential?: string;
+  }[] {
+    try {
+      const servers = JSON.parse(process.env.WEBRTC_ICE_SERVERS || "[]");
+      return Array.isArray(servers) ? servers : [];
+    } catch {
+      console.error("WEBRTC_ICE_SERVERS is not valid JSON");
+      return [];
+    }
+  }
+
+  static isParticipant(session: VisitSession, userId: string): boolean {
+    return userId === session.patientId || userId === session.providerId;
+  }
+
+  /**
+   * Merge join/leave events into the intervals when anyone in the group was
+   * connected, so two of the patient's devices are not counted twice.
+   */
+  private static presence(
+    events: VisitEvent[],
+    end: number,
+  ): { start: number; end: number }[] {
+    const intervals: { start: number; end: number }[] = [];
+    const connected = new Map<string, number>();
+    let openSince: number | null = null;
+
+    for (const event of events) {
+      const at = new Date(event.at).getTime();
+      if (event.event === "joined") {
+        connected.set(event.userId, at);
+        if (openSince === null) openSince = at;
+      } else if (event.event === "left" && connected.has(event.userId)) {
+        connected.delete(event.userId);
+        if (connected.size === 0 && openSince !== null) {
+          intervals.push({ start: openSince, end: at });
+          openSince = null;
+        }
+      }
+    }
+    if (openSince !== null) {
+      intervals.push({ start: openSince, end });
+    }
+    return intervals;
+  }
+
+  static fromRow(row: any): VisitSession {
+    const details = row.details || {};
+    const iso = (value: any) =>
+      value ? new Date(value).toISOString() : undefined;
+    return {
+      id: row.id,
+      appointmentId: row.appointment_id,
+      patientId: row.patient_id,
+      providerId: row.provider_id,
+      status: row.status,
+      checkedInAt: iso(row.checked_in_at)!,
+      admittedAt: iso(row.admitted_at),
+      endedAt: iso(row.ended_at),
+      endedBy: row.ended_by || undefined,
+      summary: row.summary || undefined,
+      diagnosis: details.diagnosis || [],
+      recommendations: details.recommendations || [],
+      followUp: details.followUp,
+      billableSeconds: row.billable_seconds ?? undefined,
+      patientName: row.first_name
+        ? `${row.first_name} ${row.last_name}`
+        : undefined,
+    };
+  }
+
+  private static pool() {
+    if (!dbPool) {
+      throw new Error("PostgreSQL pool not configured");
+    }
+    return dbPool;
+  }
+}
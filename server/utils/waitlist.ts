@@ -0,0 +1,297 @@
+import { dbPool } from "../config/database";
+import { messagingService } from "./messagingService";
+import {
+  SchedulingService,
+  AppointmentType,
+  ConflictReason,
+  Appointment,
+} from "./scheduling";
+
+// Waitlist for earlier appointments. When a booked slot frees up, the
+// longest-waiting patients whose window and visit type fit are texted an
+// offer; the first to accept books it and the other offers lapse.
+
+export const WAITLIST_OFFER_BATCH = 3;
+export const WAITLIST_OFFER_MINUTES = 120;
+
+export type WaitlistStatus = "waiting" | "booked" | "cancelled";
+export type OfferStatus = "pending" | "accepted" | "taken" | "expired";
+
+export interface WaitlistEntry {
+  id: string;
+  patientId: string;
+  providerId: string;
+  appointmentType: string;
+  earliestStart: string;
+  latestStart?: string;
+  notes?: string;
+  status: WaitlistStatus;
+  appointmentId?: string;
+  createdAt: string;
+}
+
+export interface WaitlistOffer {
+  id: string;
+  entryId: string;
+  start: string;
+  durationMinutes: number;
+  status: OfferStatus;
+  expiresAt: string;
+}
+
+export type AcceptResult =
+  | { ok: true; appointment: Appointment }
+  | { ok: false; reason: ConflictReason | "offer_unavailable" };
+
+const iso = (value: any): string | undefined =>
+  value ? new Date(value).toISOString() : undefined;
+
+export class WaitlistService {
+  static async join(entry: {
+    patientId: string;
+    providerId: string;
+    appointmentType: string;
+    earliestStart?: Date;
+    latestStart?: Date;
+    notes?: string;
+    createdBy: string;
+  }): Promise<WaitlistEntry> {
+    const result = await this.pool().query(
+      `INSERT INTO appointment_waitlist
+        (patient_id, provider_id, appointment_type, earliest_start,
+         latest_start, notes, created_by)
+      VALUES ($1, $2, $3, COALESCE($4, NOW()), $5, $6, $7)
+      RETURNING *`,
+      [
+        entry.patientId,
+        entry.providerId,
+        entry.appointmentType,
+        entry.earliestStart || null,
+        entry.latestStart || null,
+        entry.notes || null,
+        entry.createdBy,
+      ],
+    );
+    return this.fromRow(result.rows[0]);
+  }
+
+  static async list(filter: {
+    patientId?: string;
+    providerId?: string;
+    status?: WaitlistStatus;
+  }): Promise<WaitlistEntry[]> {
+    const result = await this.pool().query(
+      `SELECT * FROM appointment_waitlist
+      WHERE ($1::uuid IS NULL OR patient_id = $1)
+        AND ($2::uuid IS NULL OR provider_id = $2)
+        AND ($3::text IS NULL OR status = $3)
+      ORDER BY created_at`,
+      [
+        filter.patientId || null,
+        filter.providerId || null,
+        filter.status || null,
+      ],
+    );
+    return result.rows.map((row) => this.fromRow(row));
+  }
+
+  static async getEntry(entryId: string): Promise<WaitlistEntry | null> {
+    const result = await this.pool().query(
+      "SELECT * FROM appointment_waitlist WHERE id::text = $1",
+      [entryId],
+    );
+    return result.rows[0] ? this.fromRow(result.rows[0]) : null;
+  }
+
+  static async cancel(entryId: string): Promise<boolean> {
+    const result = await this.pool().query(
+      `UPDATE appointment_waitlist SET status = 'cancelled'
+      WHERE id = $1 AND status = 'waiting'
+      RETURNING id`,
+      [entryId],
+    );
+    return result.rows.length > 0;
+  }
+
+  static async getOffer(offerId: string): Promise<WaitlistOffer | null> {
+    const result = await this.pool().query(
+      "SELECT * FROM waitlist_offers WHERE id::text = $1",
+      [offerId],
+    );
+    return result.rows[0] ? this.offerFromRow(result.rows[0]) : null;
+  }
+
+  // Offers made to a patient that can still be accepted
+  static async listPendingOffers(patientId: string): Promise<WaitlistOffer[]> {
+    const result = await this.pool().query(
+      `SELECT o.* FROM waitlist_offers o
+      JOIN appointment_waitlist w ON w.id = o.entry_id
+      WHERE w.patient_id = $1 AND w.status = 'waiting'
+        AND o.status = 'pending' AND o.expires_at > NOW()
+      ORDER BY o.starts_at`,
+      [patientId],
+    );
+    return result.rows.map((row) => this.offerFromRow(row));
+  }
+
+  /**
+   * Offer a freed slot to waiting patients. Returns how many offers were
+   * made. Offers lapse after WAITLIST_OFFER_MINUTES or when the slot starts.
+   */
+  static async offerFreedSlot(
+    providerId: string,
+    start: Date,
+    durationMinutes: number,
+  ): Promise<number> {
+    if (start.getTime() <= Date.now()) return 0;
+
+    const candidates = await this.pool().query(
+      `SELECT w.*, t.duration_minutes, u.phone
+      FROM appointment_waitlist w
+      JOIN appointment_types t ON t.code = w.appointment_type AND t.active
+      JOIN users u ON u.id = w.patient_id
+      WHERE w.provider_id = $1 AND w.status = 'waiting'
+        AND w.earliest_start <= $2
+        AND (w.latest_start IS NULL OR w.latest_start >= $2)
+        AND t.duration_minutes <= $3
+        AND NOT EXISTS (
+          SELECT 1 FROM waitlist_offers o
+          WHERE o.entry_id = w.id AND o.starts_at = $2 AND o.status = 'pending'
+        )
+      ORDER BY w.created_at
+      LIMIT $4`,
+      [providerId, start, durationMinutes, WAITLIST_OFFER_BATCH],
+    );
+    if (candidates.rows.length === 0) return 0;
+
+    const provider = await SchedulingService.getProvider(providerId);
+    const when = start.toLocaleString("en-US", {
+      timeZone: provider?.timeZone || "UTC",
+      dateStyle: "medium",
+      timeStyle: "short",
+    });
+
+    for (const row of candidates.rows) {
+      const offer = await this.pool().query(
+        `INSERT INTO waitlist_offers (entry_id, starts_at, duration, expires_at)
+        VALUES ($1, $2, $3,
+          LEAST(NOW() + make_interval(mins => $4), $2::timestamptz))
+        RETURNING id`,
+        [row.id, start, row.duration_minutes, WAITLIST_OFFER_MINUTES],
+      );
+      if (!row.phone) continue;
+
+      const link = `${process.env.FRONTEND_URL || "http://localhost:5173"}/appointments/offers/${offer.rows[0].id}`;
+      const sent = await messagingService.sendMessage({
+        to: row.phone,
+        message: `An earlier appointment${provider ? ` with ${provider.name}` : ""} is available on ${when}. Book it at ${link} within ${WAITLIST_OFFER_MINUTES / 60} hours. Other waiting patients have been offered it too.`,
+        type: "sms",
+        priority: "medium",
+        category: "appointment",
+        patientId: row.patient_id,
+        sendBefore: start.toISOString(),
+      });
+      // An offer held for the patient's quiet hours gets its full time to
+      // answer from when the text goes out
+      if (sent.consent?.action === "defer") {
+        await this.pool().query(
+          `UPDATE waitlist_offers SET expires_at = LEAST(
+            $2::timestamptz + make_interval(mins => $3), starts_at)
+          WHERE id = $1`,
+          [offer.rows[0].id, sent.consent.deferUntil, WAITLIST_OFFER_MINUTES],
+        );
+      }
+    }
+    return candidates.rows.length;
+  }
+
+  /**
+   * Book the offered slot for the entry's patient. The slot goes through
+   * the normal booking checks, so only the first acceptance succeeds.
+   */
+  static async acceptOffer(
+    offer: WaitlistOffer,
+    entry: WaitlistEntry,
+    type: AppointmentType,
+    acceptedBy: string,
+  ): Promise<AcceptResult> {
+    if (
+      offer.status !== "pending" ||
+      entry.status !== "waiting" ||
+      new Date(offer.expiresAt).getTime() <= Date.now()
+    ) {
+      return { ok: false, reason: "offer_unavailable" };
+    }
+
+    const result = await SchedulingService.bookAppointment({
+      patientId: entry.patientId,
+      providerId: entry.providerId,
+      type,
+      start: new Date(offer.start),
+      notes: entry.notes,
+      createdBy: acceptedBy,
+    });
+    if (result.ok === false) {
+      await this.setOfferStatus(offer.id, "taken");
+      return result;
+    }
+
+    await this.setOfferStatus(offer.id, "accepted");
+    await this.pool().query(
+      `UPDATE appointment_waitlist SET status = 'booked', appointment_id = $2
+      WHERE id = $1`,
+      [entry.id, result.appointment.id],
+    );
+    // Everyone else offered this slot has missed it
+    await this.pool().query(
+      `UPDATE waitlist_offers o SET status = 'taken'
+      FROM appointment_waitlist w
+      WHERE w.id = o.entry_id AND w.provider_id = $1
+        AND o.starts_at = $2 AND o.status = 'pending'`,
+      [entry.providerId, offer.start],
+    );
+    return result;
+  }
+
+  static fromRow(row: any): WaitlistEntry {
+    return {
+      id: row.id,
+      patientId: row.patient_id,
+      providerId: row.provider_id,
+      appointmentType: row.appointment_type,
+      earliestStart: iso(row.earliest_start)!,
+      latestStart: iso(row.latest_start),
+      notes: row.notes || undefined,
+      status: row.status,
+      appointmentId: row.appointment_id || undefined,
+      createdAt: iso(row.created_at)!,
+    };
+  }
+
+  private static offerFromRow(row: any): WaitlistOffer {
+    const expired =
+      row.status === "pending" && new Date(row.expires_at) <= new Date();
+    return {
+      id: row.id,
+      entryId: row.entry_id,
+      start: iso(row.starts_at)!,
+      durationMinutes: row.duration,
+      status: expired ? "expired" : row.status,
+      expiresAt: iso(row.expires_at)!,
+    };
+  }
+
+  private static async setOfferStatus(offerId: string, status: OfferStatus) {
+    await this.pool().query(
+      "UPDATE waitlist_offers SET status = $2 WHERE id = $1",
+      [offerId, status],
+    );
+  }
+
+  private static pool() {
+    if (!dbPool) {
+      throw new Error("PostgreSQL pool not configured");
+    }
+    return dbPool;
+  }
+}
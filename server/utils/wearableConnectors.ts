@@ -0,0 +1,280 @@
+// Connectors turn the payload a device or vendor sends into raw
+// measurements. They only read the vendor's format; units, ranges and
+// deduplication are handled once for all of them by the ingestion service.
+// Register further connectors with WearableIntegrationService.registerConnector.
+
+export const MEASUREMENT_TYPES = [
+  "heart_rate",
+  "blood_pressure_systolic",
+  "blood_pressure_diastolic",
+  "oxygen_saturation",
+  "respiratory_rate",
+  "temperature",
+  "glucose",
+  "weight",
+  "steps",
+] as const;
+export type MeasurementType = (typeof MEASUREMENT_TYPES)[number];
+
+// One reading as the vendor reported it, before unit normalization
+export interface RawMeasurement {
+  type: MeasurementType;
+  value: number;
+  unit?: string;
+  measuredAt: string;
+  // The vendor's id for the reading, when it has one
+  externalId?: string;
+  // App or sensor that produced it, e.g. "Apple Watch"
+  sourceName?: string;
+}
+
+export interface WearableConnector {
+  source: string;
+  label: string;
+  capabilities: MeasurementType[];
+  // Throws PayloadError when the payload is not in the vendor's format
+  parse(payload: any): RawMeasurement[];
+}
+
+export class PayloadError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PayloadError";
+  }
+}
+
+const list = (payload: any, key: string): any[] => {
+  const items = payload?.[key];
+  if (!Array.isArray(items)) {
+    throw new PayloadError(`Payload must include a "${key}" array`);
+  }
+  return items;
+};
+
+// Vendor timestamps without a zone are UTC
+const utc = (value: string) =>
+  /[zZ]|[+-]\d{2}:?\d{2}$/.test(value) ? value : `${value}Z`;
+
+const HEALTHKIT_TYPES: Record<string, MeasurementType> = {
+  HKQuantityTypeIdentifierHeartRate: "heart_rate",
+  HKQuantityTypeIdentifierRestingHeartRate: "heart_rate",
+  HKQuantityTypeIdentifierBloodPressureSystolic: "blood_pressure_systolic",
+  HKQuantityTypeIdentifierBloodPressureDiastolic: "blood_pressure_diastolic",
+  HKQuantityTypeIdentifierOxygenSaturation: "oxygen_saturation",
+  HKQuantityTypeIdentifierRespiratoryRate: "respiratory_rate",
+  HKQuantityTypeIdentifierBodyTemperature: "temperature",
+  HKQuantityTypeIdentifierBloodGlucose: "glucose",
+  HKQuantityTypeIdentifierBodyMass: "weight",
+  HKQuantityTypeIdentifierStepCount: "steps",
+};
+
+/**
+ * One HealthKit quantity sample, as sent by the companion iOS app or found
+ * in a Health export.xml. Returns null for types we do not store.
+ */
+export const fromHealthKitSample = (sample: any): RawMeasurement | null => {
+  const type = HEALTHKIT_TYPES[sample?.type];
+  if (!type) return null;
+  // HealthKit reports saturation as a fraction even with unit "%"
+  const value =
+    type === "oxygen_saturation" && Number(sample.value) <= 1
+      ? Number(sample.value) * 100
+      : Number(sample.value);
+  return {
+    type,
+    value,
+    unit: sample.unit,
+    measuredAt: sample.startDate,
+    externalId: sample.uuid,
+    sourceName: sample.sourceName,
+  };
+};
+
+// HealthKit quantity samples exported by the companion iOS app
+export const appleHealthConnector: WearableConnector = {
+  source: "apple_health",
+  label: "Apple Health",
+  capabilities: [...new Set(Object.values(HEALTHKIT_TYPES))],
+  parse(payload) {
+    return list(payload, "samples")
+      .map(fromHealthKitSample)
+      .filter((measurement) => measurement !== null);
+  },
+};
+
+// Fitbit Web API responses, forwarded as returned by the API
+export const fitbitConnector: WearableConnector = {
+  source: "fitbit",
+  label: "Fitbit",
+  capabilities: ["heart_rate", "oxygen_saturation", "weight", "steps"],
+  parse(payload) {
+    if (!payload || typeof payload !== "object") {
+      throw new PayloadError("Payload must be a Fitbit API response");
+    }
+    const measurements: RawMeasurement[] = [];
+
+    for (const day of payload["activities-heart"] || []) {
+      if (day.value?.restingHeartRate !== undefined) {
+        measurements.push({
+          type: "heart_rate",
+          value: Number(day.value.restingHeartRate),
+          unit: "bpm",
+          measuredAt: utc(`${day.dateTime}T00:00:00`),
+          externalId: `resting-hr:${day.dateTime}`,
+          sourceName: "Fitbit resting heart rate",
+        });
+      }
+    }
+    const intraday = payload["activities-heart-intraday"];
+    const intradayDate = payload["activities-heart"]?.[0]?.dateTime;
+    if (intraday?.dataset?.length && !intradayDate) {
+      throw new PayloadError(
+        "Intraday heart rate needs the activities-heart date",
+      );
+    }
+    for (const point of intraday?.dataset || []) {
+      measurements.push({
+        type: "heart_rate",
+        value: Number(point.value),
+        unit: "bpm",
+        measuredAt: utc(`${intradayDate}T${point.time}`),
+        externalId: `hr:${intradayDate}T${point.time}`,
+      });
+    }
+    for (const day of payload["activities-steps"] || []) {
+      measurements.push({
+        type: "steps",
+        value: Number(day.value),
+        measuredAt: utc(`${day.dateTime}T00:00:00`),
+        externalId: `steps:${day.dateTime}`,
+      });
+    }
+    for (const day of [].concat(payload.spo2 || [])) {
+      if (day?.value?.avg === undefined) continue;
+      measurements.push({
+        type: "oxygen_saturation",
+        value: Number(day.value.avg),
+        unit: "%",
+        measuredAt: utc(`${day.dateTime}T00:00:00`),
+        externalId: `spo2:${day.dateTime}`,
+      });
+    }
+    for (const log of payload.weight || []) {
+      measurements.push({
+        type: "weight",
+        value: Number(log.weight),
+        // Fitbit answers in the units of the request's Accept-Language
+        unit: payload.weightUnit || "kg",
+        measuredAt: utc(`${log.date}T${log.time || "00:00:00"}`),
+        externalId: `weight:${log.logId}`,
+      });
+    }
+    return measurements;
+  },
+};
+
+// Estimated glucose values from the Dexcom API (v3 egvs)
+export const dexcomConnector: WearableConnector = {
+  source: "dexcom",
+  label: "Dexcom CGM",
+  capabilities: ["glucose"],
+  parse(payload) {
+    return list(payload, "records")
+      .filter((record) => record?.value !== null && record?.value !== undefined)
+      .map((record) => ({
+        type: "glucose" as MeasurementType,
+        value: Number(record.value),
+        unit: record.unit || "mg/dL",
+        measuredAt: utc(record.systemTime),
+        externalId: record.recordId,
+        sourceName: record.transmitterId
+          ? `Dexcom transmitter ${record.transmitterId}`
+          : undefined,
+      }));
+  },
+};
+
+// Cuffs that report a systolic/diastolic pair, often with a pulse
+export const bpMonitorConnector: WearableConnector = {
+  source: "bp_monitor",
+  label: "Blood pressure monitor",
+  capabilities: [
+    "blood_pressure_systolic",
+    "blood_pressure_diastolic",
+    "heart_rate",
+  ],
+  parse(payload) {
+    return list(payload, "readings").flatMap((reading) => {
+      const base = {
+        unit: reading.unit || "mmHg",
+        measuredAt: reading.timestamp,
+      };
+      const id = (part: string) =>
+        reading.id !== undefined ? `${reading.id}:${part}` : undefined;
+      const measurements: RawMeasurement[] = [
+        {
+          ...base,
+          type: "blood_pressure_systolic",
+          value: Number(reading.systolic),
+          externalId: id("systolic"),
+        },
+        {
+          ...base,
+          type: "blood_pressure_diastolic",
+          value: Number(reading.diastolic),
+          externalId: id("diastolic"),
+        },
+      ];
+      if (reading.pulse !== undefined) {
+        measurements.push({
+          type: "heart_rate",
+          value: Number(reading.pulse),
+          unit: "bpm",
+          measuredAt: reading.timestamp,
+          externalId: id("pulse"),
+        });
+      }
+      return measurements;
+    });
+  },
+};
+
+export const smartScaleConnector: WearableConnector = {
+  source: "smart_scale",
+  label: "Smart scale",
+  capabilities: ["weight"],
+  parse(payload) {
+    return list(payload, "measurements").map((measurement) => ({
+      type: "weight" as MeasurementType,
+      value: Number(measurement.weight),
+      unit: measurement.unit,
+      measuredAt: measurement.timestamp,
+      externalId: measurement.id,
+    }));
+  },
+};
+
+// Devices and bridges that already send readings in our own model
+export const genericConnector: WearableConnector = {
+  source: "generic",
+  label: "Other device",
+  capabilities: [...MEASUREMENT_TYPES],
+  parse(payload) {
+    return list(payload, "measurements").map((measurement) => ({
+      type: measurement.type,
+      value: Number(measurement.value),
+      unit: measurement.unit,
+      measuredAt: measurement.measuredAt,
+      externalId: measurement.id,
+    }));
+  },
+};
+
+export const BUILT_IN_CONNECTORS: WearableConnector[] = [
+  appleHealthConnector,
+  fitbitConnector,
+  dexcomConnector,
+  bpMonitorConnector,
+  smartScaleConnector,
+  genericConnector,
+];
@@ -0,0 +1,587 @@
+import readline from "readline";
+import { Readable } from "stream";
+import { SchedulingService } from "./scheduling";
+import { ThresholdAlert } from "./thresholdService";
+import {
+  fromHealthKitSample,
+  PayloadError,
+  RawMeasurement,
+} from "./wearableConnectors";
+import {
+  StoredMeasurement,
+  WearableIntegrationService,
+} from "./wearableIntegration";
+
+// Imports of the files patients can export themselves, for devices whose
+// accounts cannot be linked. Files are read as streams, so a multi-year
+// Apple Health export never has to fit in memory, and stored in batches
+// through the same normalization and deduplication as device pushes.
+// Importing the same file twice stores nothing new.
+
+export interface ImportOptions {
+  // Zone of timestamps that do not state one (Clarity, LibreView, cuffs)
+  timeZone: string;
+  // Read "01-02-2024" as 1 February rather than January 2
+  dayFirst?: boolean;
+}
+
+// One line or record of a file: a reading, a reason it cannot be one, or
+// something that is not a measurement at all (alerts, notes, scans)
+export type ImportRow =
+  | { line: number; reading: RawMeasurement }
+  | { line: number; error: string }
+  | { line: number; skipped: true };
+
+export interface FileImporter {
+  format: string;
+  // Recorded as the readings' source
+  source: string;
+  label: string;
+  // Throws PayloadError when the file is not in this format
+  parse(input: Readable, options: ImportOptions): AsyncGenerator<ImportRow>;
+}
+
+export interface ImportSummary {
+  format: string;
+  rows: number;
+  accepted: number;
+  duplicates: number;
+  rejected: number;
+  skipped: number;
+  byType: Record<string, number>;
+  period: { from: string; to: string } | null;
+  // The first MAX_IMPORT_ERRORS problems, by line
+  errors: { line: number; reason: string }[];
+  alerts: ThresholdAlert[];
+}
+
+const IMPORT_BATCH_SIZE = 500;
+export const MAX_IMPORT_ERRORS = 100;
+
+const LOCAL_TIMESTAMP =
+  /^(\d{4})-(\d{1,2})-(\d{1,2})[T ](\d{1,2}):(\d{2})(?::(\d{2}))?$/;
+const NUMERIC_DATE_TIMESTAMP =
+  /^(\d{1,2})[-/.](\d{1,2})[-/.](\d{4})[T ]+(\d{1,2}):(\d{2})(?::(\d{2}))?\s*([AP]M)?$/i;
+const ZONED_TIMESTAMP = /(Z|[+-]\d{2}:?\d{2})$/i;
+
+/**
+ * Timestamp as an ISO instant. Exports usually write wall-clock time
+ * without a zone, which is read in options.timeZone.
+ */
+export const parseTimestamp = (
+  text: string,
+  options: ImportOptions,
+): string | null => {
+  const value = text?.trim();
+  if (!value) return null;
+  if (ZONED_TIMESTAMP.test(value)) {
+    const time = Date.parse(value);
+    return isNaN(time) ? null : new Date(time).toISOString();
+  }
+
+  let parts: number[];
+  const iso = LOCAL_TIMESTAMP.exec(value);
+  const numeric = NUMERIC_DATE_TIMESTAMP.exec(value);
+  if (iso) {
+    parts = iso.slice(1, 7).map((part) => Number(part || 0));
+  } else if (numeric) {
+    const [first, second, year, hour, minute, second_] = numeric
+      .slice(1, 7)
+      .map((part) => Number(part || 0));
+    const [month, day] = options.dayFirst ? [second, first] : [first, second];
+    const meridiem = numeric[7]?.toUpperCase();
+    const hour24 =
+      meridiem === "PM" && hour < 12
+        ? hour + 12
+        : meridiem === "AM" && hour === 12
+          ? 0
+          : hour;
+    parts = [year, month, day, hour24, minute, second_];
+  } else {
+    return null;
+  }
+
+  const [year, month, day, hour, minute, second] = parts;
+  if (month < 1 || month > 12 || day < 1 || day > 31 || hour > 23) {
+    return null;
+  }
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute, second);
+  let instant =
+    wallClock -
+    SchedulingService.zoneOffset(new Date(wallClock), options.timeZone);
+  // Second pass settles times near a daylight saving change
+  instant =
+    wallClock -
+    SchedulingService.zoneOffset(new Date(instant), options.timeZone);
+  return new Date(instant).toISOString();
+};
+
+// Split one CSV line, honouring quoted cells and "" escapes
+export const splitCsvLine = (line: string): string[] => {
+  const cells: string[] = [];
+  let cell = "";
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      cells.push(cell.trim());
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+  cells.push(cell.trim());
+  return cells;
+};
+
+async function* csvLines(
+  input: Readable,
+): AsyncGenerator<{ line: number; cells: string[] }> {
+  const lines = readline.createInterface({ input, crlfDelay: Infinity });
+  let line = 0;
+  for await (const text of lines) {
+    line++;
+    const content = line === 1 ? text.replace(/^\uFEFF/, "") : text;
+    if (!content.trim()) continue;
+    yield { line, cells: splitCsvLine(content) };
+  }
+}
+
+// Index of the first header cell matching a pattern, or -1
+const column = (header: string[], pattern: RegExp) =>
+  header.findIndex((title) => pattern.test(title.trim()));
+
+const numberCell = (cell: string | undefined): number | null => {
+  if (cell === undefined || cell.trim() === "") return null;
+  const value = Number(cell);
+  return isFinite(value) ? value : NaN;
+};
+
+const glucoseUnit = (title: string) =>
+  /mmol/i.test(title) ? "mmol/L" : "mg/dL";
+
+const XML_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+};
+
+const xmlAttributes = (tag: string): Record<string, string> => {
+  const attributes: Record<string, string> = {};
+  for (const [, name, value] of tag.matchAll(/([\w:-]+)="([^"]*)"/g)) {
+    attributes[name] = value.replace(
+      /&(amp|lt|gt|quot|apos);/g,
+      (_, entity) => XML_ENTITIES[entity],
+    );
+  }
+  return attributes;
+};
+
+const countLines = (text: string, from: number, to: number) => {
+  let lines = 0;
+  for (let i = from; i < to; i++) {
+    if (text.charCodeAt(i) === 10) lines++;
+  }
+  return lines;
+};
+
+// Health's "2024-06-01 08:00:00 -0400" dates
+const healthKitDate = (value: string | undefined) => {
+  const match =
+    /^(\d{4}-\d{2}-\d{2}) (\d{2}:\d{2}:\d{2}) ([+-]\d{2})(\d{2})$/.exec(
+      value || "",
+    );
+  return match ? `${match[1]}T${match[2]}${match[3]}:${match[4]}` : value;
+};
+
+/**
+ * The export.xml inside the zip from Health > Export All Health Data. Only
+ * <Record> start tags are read; a tag that straddles two chunks is kept
+ * until the rest arrives.
+ */
+export const appleHealthExportImporter: FileImporter = {
+  format: "apple_health_xml",
+  source: "apple_health",
+  label: "Apple Health export (export.xml)",
+  async *parse(input) {
+    const recordTag = /<Record\s[^>]*>/g;
+    let buffer = "";
+    let line = 1;
+    let isHealthExport = false;
+
+    for await (const chunk of input.setEncoding("utf8")) {
+      buffer += chunk;
+      isHealthExport ||= buffer.includes("<HealthData");
+
+      let counted = 0;
+      let match: RegExpExecArray | null;
+      recordTag.lastIndex = 0;
+      while ((match = recordTag.exec(buffer))) {
+        line += countLines(buffer, counted, match.index);
+        counted = match.index;
+
+        const attributes = xmlAttributes(match[0]);
+        const reading = fromHealthKitSample({
+          ...attributes,
+          startDate: healthKitDate(attributes.startDate),
+        });
+        yield reading ? { line, reading } : { line, skipped: true };
+      }
+
+      // Keep a tag that is still open for the next chunk
+      const open = buffer.lastIndexOf("<");
+      const keepFrom =
+        open >= 0 && buffer.indexOf(">", open) === -1 ? open : buffer.length;
+      line += countLines(buffer, counted, keepFrom);
+      buffer = buffer.slice(keepFrom);
+    }
+
+    if (!isHealthExport) {
+      throw new PayloadError("File is not an Apple Health export.xml");
+    }
+  },
+};
+
+/**
+ * Dexcom Clarity "Export" CSV. Estimated glucose values are the EGV rows;
+ * device info, alerts, calibrations and events are skipped.
+ */
+export const dexcomClarityImporter: FileImporter = {
+  format: "dexcom_csv",
+  source: "dexcom",
+  label: "Dexcom Clarity CSV",
+  async *parse(input, options) {
+    let columns: {
+      timestamp: number;
+      eventType: number;
+      glucose: number;
+      unit: string;
+      transmitterTime: number;
+      transmitterId: number;
+    } | null = null;
+
+    for await (const { line, cells } of csvLines(input)) {
+      if (!columns) {
+        const glucose = column(cells, /^Glucose Value/i);
+        if (glucose >= 0) {
+          columns = {
+            timestamp: column(cells, /^Timestamp/i),
+            eventType: column(cells, /^Event Type/i),
+            glucose,
+            unit: glucoseUnit(cells[glucose]),
+            transmitterTime: column(cells, /^Transmitter Time/i),
+            transmitterId: column(cells, /^Transmitter ID/i),
+          };
+        }
+        continue;
+      }
+
+      if (cells[columns.eventType] !== "EGV") {
+        yield { line, skipped: true };
+        continue;
+      }
+      const raw = cells[columns.glucose];
+      // Clarity writes Low/High outside the sensor's 40-400 mg/dL range
+      if (/^(low|high)$/i.test(raw)) {
+        yield {
+          line,
+          error: `Glucose reported as ${raw}, outside the sensor range`,
+        };
+        continue;
+      }
+      const measuredAt = parseTimestamp(cells[columns.timestamp], options);
+      if (!measuredAt) {
+        yield { line, error: "Unrecognized timestamp" };
+        continue;
+      }
+      const transmitter = [
+        cells[columns.transmitterId],
+        cells[columns.transmitterTime],
+      ];
+      yield {
+        line,
+        reading: {
+          type: "glucose",
+          value: numberCell(raw),
+          unit: columns.unit,
+          measuredAt,
+          externalId: transmitter.every(Boolean)
+            ? transmitter.join(":")
+            : undefined,
+          sourceName: "Dexcom Clarity export",
+        },
+      };
+    }
+
+    if (!columns) {
+      throw new PayloadError("File is not a Dexcom Clarity export");
+    }
+  },
+};
+
+/**
+ * LibreView glucose CSV. Historic readings (record type 0, every 15
+ * minutes) are imported; scans repeat the same curve at irregular times and
+ * would skew the statistics, so they are skipped like notes and insulin.
+ */
+export const libreViewImporter: FileImporter = {
+  format: "libre_csv",
+  source: "freestyle_libre",
+  label: "FreeStyle Libre (LibreView) CSV",
+  async *parse(input, options) {
+    let columns: {
+      timestamp: number;
+      recordType: number;
+      glucose: number;
+      unit: string;
+      serial: number;
+    } | null = null;
+
+    for await (const { line, cells } of csvLines(input)) {
+      if (!columns) {
+        const timestamp = column(cells, /^Device Timestamp/i);
+        const glucose = column(cells, /^Historic Glucose/i);
+        if (timestamp >= 0 && glucose >= 0) {
+          columns = {
+            timestamp,
+            recordType: column(cells, /^Record Type/i),
+            glucose,
+            unit: glucoseUnit(cells[glucose]),
+            serial: column(cells, /^Serial Number/i),
+          };
+        }
+        continue;
+      }
+
+      if (cells[columns.recordType] !== "0") {
+        yield { line, skipped: true };
+        continue;
+      }
+      const measuredAt = parseTimestamp(cells[columns.timestamp], options);
+      if (!measuredAt) {
+        yield { line, error: "Unrecognized timestamp" };
+        continue;
+      }
+      yield {
+        line,
+        reading: {
+          type: "glucose",
+          value: numberCell(cells[columns.glucose]),
+          unit: columns.unit,
+          measuredAt,
+          sourceName: cells[columns.serial]
+            ? `FreeStyle Libre ${cells[columns.serial]}`
+            : "FreeStyle Libre",
+        },
+      };
+    }
+
+    if (!columns) {
+      throw new PayloadError("File is not a LibreView glucose export");
+    }
+  },
+};
+
+/**
+ * Blood pressure cuff CSV as exported by most cuff apps: a header row, then
+ * one measurement per row with a date (and optionally separate time),
+ * systolic, diastolic and optionally pulse. Units default to mmHg.
+ */
+export const bpCuffCsvImporter: FileImporter = {
+  format: "bp_csv",
+  source: "bp_monitor",
+  label: "Blood pressure cuff CSV",
+  async *parse(input, options) {
+    let columns: {
+      date: number;
+      time: number;
+      systolic: number;
+      diastolic: number;
+      pulse: number;
+      unit: string;
+    } | null = null;
+
+    for await (const { line, cells } of csvLines(input)) {
+      if (!columns) {
+        const found = {
+          date: column(cells, /^(date|timestamp|measured|datetime)/i),
+          time: column(cells, /^time\b/i),
+          systolic: column(cells, /^sys/i),
+          diastolic: column(cells, /^dia/i),
+          pulse: column(cells, /^(pulse|heart rate|hr\b|bpm)/i),
+        };
+        if (found.date < 0 || found.systolic < 0 || found.diastolic < 0) {
+          throw new PayloadError(
+            "Blood pressure CSV needs date, systolic and diastolic columns",
+          );
+        }
+        columns = {
+          ...found,
+          unit: /kpa/i.test(cells[found.systolic]) ? "kPa" : "mmHg",
+        };
+        continue;
+      }
+
+      const timestamp =
+        columns.time >= 0 && columns.time !== columns.date
+          ? `${cells[columns.date]} ${cells[columns.time]}`
+          : cells[columns.date];
+      const measuredAt = parseTimestamp(timestamp, options);
+      if (!measuredAt) {
+        yield { line, error: "Unrecognized timestamp" };
+        continue;
+      }
+      yield {
+        line,
+        reading: {
+          type: "blood_pressure_systolic",
+          value: numberCell(cells[columns.systolic]),
+          unit: columns.unit,
+          measuredAt,
+        },
+      };
+      yield {
+        line,
+        reading: {
+          type: "blood_pressure_diastolic",
+          value: numberCell(cells[columns.diastolic]),
+          unit: columns.unit,
+          measuredAt,
+        },
+      };
+      const pulse = numberCell(cells[columns.pulse]);
+      if (columns.pulse >= 0 && pulse !== null) {
+        yield {
+          line,
+          reading: {
+            type: "heart_rate",
+            value: pulse,
+            unit: "bpm",
+            measuredAt,
+          },
+        };
+      }
+    }
+
+    if (!columns) {
+      throw new PayloadError("Blood pressure CSV is empty");
+    }
+  },
+};
+
+export const FILE_IMPORTERS: FileImporter[] = [
+  appleHealthExportImporter,
+  dexcomClarityImporter,
+  libreViewImporter,
+  bpCuffCsvImporter,
+];
+
+export class WearableImportService {
+  static getImporter(format: string): FileImporter | undefined {
+    return FILE_IMPORTERS.find((importer) => importer.format === format);
+  }
+
+  static listImporters(): { format: string; label: string }[] {
+    return FILE_IMPORTERS.map(({ format, label }) => ({ format, label }));
+  }
+
+  /**
+   * Read a file into a patient's readings. A file in the wrong format
+   * throws PayloadError; individual bad rows are reported in the summary.
+   */
+  static async import(
+    input: Readable,
+    importer: FileImporter,
+    target: { patientId: string; deviceId?: string },
+    options: ImportOptions,
+    now = new Date(),
+  ): Promise<ImportSummary> {
+    const summary: ImportSummary = {
+      format: importer.format,
+      rows: 0,
+      accepted: 0,
+      duplicates: 0,
+      rejected: 0,
+      skipped: 0,
+      byType: {},
+      period: null,
+      errors: [],
+      alerts: [],
+    };
+    const reject = (line: number, reason: string) => {
+      summary.rejected++;
+      if (summary.errors.length < MAX_IMPORT_ERRORS) {
+        summary.errors.push({ line, reason });
+      }
+    };
+    // Only readings inside the alert window are kept for threshold checks
+    const alertable: StoredMeasurement[] = [];
+    let batch: { index: number; reading: RawMeasurement }[] = [];
+
+    const flush = async () => {
+      const stored = await WearableIntegrationService.store(
+        { ...target, source: importer.source },
+        batch,
+        now,
+      );
+      batch = [];
+      summary.accepted += stored.accepted;
+      summary.duplicates += stored.duplicates;
+      stored.rejected.forEach(({ index, reason }) => reject(index, reason));
+      for (const measurement of stored.inserted) {
+        summary.byType[measurement.type] =
+          (summary.byType[measurement.type] || 0) + 1;
+        if (!summary.period) {
+          summary.period = {
+            from: measurement.measuredAt,
+            to: measurement.measuredAt,
+          };
+        } else if (measurement.measuredAt < summary.period.from) {
+          summary.period.from = measurement.measuredAt;
+        } else if (measurement.measuredAt > summary.period.to) {
+          summary.period.to = measurement.measuredAt;
+        }
+        if (WearableIntegrationService.withinAlertWindow(measurement, now)) {
+          alertable.push(measurement);
+        }
+      }
+    };
+
+    let lastLine = 0;
+    for await (const row of importer.parse(input, options)) {
+      if (row.line !== lastLine) {
+        summary.rows++;
+        lastLine = row.line;
+      }
+      if ("skipped" in row) {
+        summary.skipped++;
+      } else if ("error" in row) {
+        reject(row.line, row.error);
+      } else {
+        batch.push({ index: row.line, reading: row.reading });
+        if (batch.length >= IMPORT_BATCH_SIZE) await flush();
+      }
+    }
+    if (batch.length > 0) await flush();
+
+    summary.alerts = await WearableIntegrationService.checkThresholds(
+      target.patientId,
+      alertable,
+      now,
+    );
+    return summary;
+  }
+}
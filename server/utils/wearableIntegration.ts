@@ -1,310 +1,668 @@
-// Wearable Device Integration Service
+import crypto from "crypto";
+import { dbPool } from "../config/database";
+import { AuditLogger } from "./auditLogger";
+import { messagingService } from "./messagingService";
+import { TerminologyService } from "./terminology";
+import { thresholdService, ThresholdAlert } from "./thresholdService";
+import { getWebSocketService } from "./websocket";
+import {
+  BUILT_IN_CONNECTORS,
+  MEASUREMENT_TYPES,
+  MeasurementType,
+  PayloadError,
+  RawMeasurement,
+  WearableConnector,
+} from "./wearableConnectors";
+
+// Device readings from every connector end up here in one normalized shape
+// (type, value, canonical unit, time, device, provenance), stored in
+// rpm_readings. A reading seen before is recognised by its dedupe key and
+// skipped, so devices can safely re-send overlapping batches. New recent
+// readings are checked against the patient's thresholds.
+
+export interface Measurement {
+  type: MeasurementType;
+  value: number;
+  unit: string;
+  measuredAt: string;
+  deviceId?: string;
+  provenance: {
+    source: string;
+    externalId?: string;
+    sourceName?: string;
+    receivedAt: string;
+    // What the device sent, when the unit was converted
+    originalValue?: number;
+    originalUnit?: string;
+  };
+}
+
+export interface StoredMeasurement extends Measurement {
+  id: string;
+  patientId: string;
+}
+
+export interface WearableDevice {
+  id: string;
+  patientId: string;
+  source: string;
+  name?: string;
+  model?: string;
+  manufacturer?: string;
+  serial?: string;
+  status: "active" | "disconnected";
+  lastSync?: string;
+  createdAt: string;
+}
+
+export interface IngestResult {
+  accepted: number;
+  duplicates: number;
+  rejected: { index: number; reason: string }[];
+  alerts: ThresholdAlert[];
+}
+
+type NormalizeResult =
+  | { ok: true; measurement: Measurement }
+  | { ok: false; reason: string };
+
+interface MeasurementSpec {
+  // UCUM code readings are stored in
+  unit: string;
+  min: number;
+  max: number;
+  // Conversions into the stored unit, by UCUM code
+  convert?: Record<string, (value: number) => number>;
+  // No unit can be assumed when the device leaves it out
+  unitRequired?: boolean;
+  decimals?: number;
+}
+
+// Units match the default alert thresholds (°F, mg/dL, bpm, mmHg). The
+// ranges only reject values no patient can have, i.e. sensor faults.
+export const MEASUREMENT_SPECS: Record<MeasurementType, MeasurementSpec> = {
+  heart_rate: { unit: "/min", min: 20, max: 300 },
+  blood_pressure_systolic: { unit: "mm[Hg]", min: 40, max: 300 },
+  blood_pressure_diastolic: { unit: "mm[Hg]", min: 20, max: 200 },
+  oxygen_saturation: { unit: "%", min: 50, max: 100 },
+  respiratory_rate: { unit: "/min", min: 2, max: 80 },
+  temperature: {
+    unit: "[degF]",
+    min: 86,
+    max: 113,
+    convert: { Cel: (value) => (value * 9) / 5 + 32 },
+    unitRequired: true,
+  },
+  glucose: {
+    unit: "mg/dL",
+    min: 20,
+    max: 600,
+    convert: { "mmol/L": (value) => value * 18.016 },
+    unitRequired: true,
+    decimals: 0,
+  },
+  weight: {
+    unit: "[lb_av]",
+    min: 1,
+    max: 1000,
+    convert: { kg: (value) => value * 2.20462 },
+    unitRequired: true,
+  },
+  steps: { unit: "{steps}", min: 0, max: 200000, decimals: 0 },
+};
+
+// Device spellings the UCUM table does not know
+const DEVICE_UNITS: Record<string, string> = {
+  "count/min": "/min",
+  "beats/min": "/min",
+  count: "{steps}",
+  steps: "{steps}",
+};
+
+export const MAX_MEASUREMENTS_PER_BATCH = 2000;
+// How far back new readings still raise alerts
+export const ALERT_WINDOW_HOURS = Number(
+  process.env.WEARABLE_ALERT_WINDOW_HOURS || 24,
+);
+// Allowance for device clocks running ahead
+const MAX_CLOCK_SKEW_MS = 5 * 60 * 1000;
+
+const hashToken = (token: string) =>
+  crypto.createHash("sha256").update(token).digest("hex");
+
+const round = (value: number, decimals = 1) =>
+  Math.round(value * 10 ** decimals) / 10 ** decimals;
+
 export class WearableIntegrationService {
-  private static connectedDevices = new Map();
-
-  // Apple Health integration simulation
-  static async syncAppleHealth(userId: string): Promise<{
-    steps: number;
-    heartRate: number[];
-    sleepData: any;
-    workouts: any[];
-    lastSync: string;
-  }> {
-    await new Promise((resolve) => setTimeout(resolve, 1000));
+  private static connectors = new Map<string, WearableConnector>(
+    BUILT_IN_CONNECTORS.map((connector) => [connector.source, connector]),
+  );
 
-    // Mock Apple Health data
-    return {
-      steps: 8543,
-      heartRate: [68, 72, 75, 71, 69, 73, 70], // Last 7 readings
-      sleepData: {
-        duration: 7.5,
-        efficiency: 92,
-        deepSleep: 1.8,
-        remSleep: 1.2,
-        restingHeartRate: 58,
-      },
-      workouts: [
-        {
-          type: "Walking",
-          duration: 45,
-          calories: 180,
-          startTime: "2024-02-15T07:00:00Z",
-          averageHeartRate: 95,
-        },
-        {
-          type: "Strength Training",
-          duration: 30,
-          calories: 150,
-          startTime: "2024-02-14T18:00:00Z",
-          averageHeartRate: 110,
-        },
-      ],
-      lastSync: new Date().toISOString(),
-    };
+  static registerConnector(connector: WearableConnector): void {
+    this.connectors.set(connector.source, connector);
   }
 
-  // Fitbit integration simulation
-  static async syncFitbit(userId: string): Promise<{
-    steps: number;
-    activeMinutes: number;
-    calories: number;
-    heartRateZones: any;
-    sleep: any;
-  }> {
-    await new Promise((resolve) => setTimeout(resolve, 800));
+  static getConnector(source: string): WearableConnector | undefined {
+    return this.connectors.get(source);
+  }
 
-    return {
-      steps: 9234,
-      activeMinutes: 67,
-      calories: 2340,
-      heartRateZones: {
-        fatBurn: 25,
-        cardio: 15,
-        peak: 5,
-      },
-      sleep: {
-        totalMinutes: 450,
-        efficiency: 89,
-        stages: {
-          wake: 15,
-          light: 240,
-          deep: 108,
-          rem: 87,
-        },
-      },
-    };
+  static listConnectors(): {
+    source: string;
+    label: string;
+    capabilities: MeasurementType[];
+  }[] {
+    return [...this.connectors.values()].map(
+      ({ source, label, capabilities }) => ({ source, label, capabilities }),
+    );
   }
 
-  // Continuous glucose monitor integration
-  static async syncCGM(userId: string): Promise<{
-    currentGlucose: number;
-    trend: "rising" | "falling" | "stable";
-    readings: any[];
-    timeInRange: number;
-    alerts: any[];
-  }> {
-    await new Promise((resolve) => setTimeout(resolve, 500));
-
-    // Generate realistic CGM data
-    const readings = [];
-    let currentGlucose = 95;
-
-    for (let i = 0; i < 24; i++) {
-      const variation = (Math.random() - 0.5) * 20;
-      currentGlucose = Math.max(70, Math.min(180, currentGlucose + variation));
-
-      readings.push({
-        timestamp: new Date(
-          Date.now() - (24 - i) * 60 * 60 * 1000,
-        ).toISOString(),
-        glucose: Math.round(currentGlucose),
-        trend: variation > 5 ? "rising" : variation < -5 ? "falling" : "stable",
-      });
+  /**
+   * Bring a device reading into the stored units, or say why it cannot be
+   * stored. Units are resolved through the UCUM table, so "mmHg", "mm Hg"
+   * and "mm[Hg]" are all accepted.
+   */
+  static normalize(
+    raw: RawMeasurement,
+    source: string,
+    now = new Date(),
+  ): NormalizeResult {
+    if (!MEASUREMENT_TYPES.includes(raw?.type)) {
+      return { ok: false, reason: `Unsupported measurement type ${raw?.type}` };
+    }
+    const spec = MEASUREMENT_SPECS[raw.type];
+    if (typeof raw.value !== "number" || !isFinite(raw.value)) {
+      return { ok: false, reason: "Value must be a number" };
+    }
+    const measuredAt = new Date(raw.measuredAt);
+    if (!raw.measuredAt || isNaN(measuredAt.getTime())) {
+      return { ok: false, reason: "Invalid measurement time" };
+    }
+    if (measuredAt.getTime() > now.getTime() + MAX_CLOCK_SKEW_MS) {
+      return { ok: false, reason: "Measurement time is in the future" };
+    }
+
+    let unit = spec.unit;
+    if (raw.unit && raw.type !== "steps") {
+      const resolved = TerminologyService.resolveUnit(raw.unit);
+      unit = DEVICE_UNITS[raw.unit.trim().toLowerCase()] || resolved.code;
+      if (!unit) return { ok: false, reason: `Unknown unit ${raw.unit}` };
+    } else if (!raw.unit && spec.unitRequired) {
+      return { ok: false, reason: `A unit is required for ${raw.type}` };
     }
 
-    const timeInRange =
-      (readings.filter((r) => r.glucose >= 70 && r.glucose <= 180).length /
-        readings.length) *
-      100;
+    let value = raw.value;
+    if (unit !== spec.unit) {
+      const convert = spec.convert?.[unit];
+      if (!convert) {
+        return {
+          ok: false,
+          reason: `Cannot convert ${raw.unit} to ${spec.unit} for ${raw.type}`,
+        };
+      }
+      value = convert(value);
+    }
+    value = round(value, spec.decimals ?? 1);
+    if (value < spec.min || value > spec.max) {
+      return {
+        ok: false,
+        reason: `${raw.type} of ${value} ${spec.unit} is outside the plausible range`,
+      };
+    }
 
     return {
-      currentGlucose: readings[readings.length - 1].glucose,
-      trend: readings[readings.length - 1].trend,
-      readings,
-      timeInRange,
-      alerts:
-        timeInRange < 70
-          ? [
-              {
-                type: "low_time_in_range",
-                message: "Time in range below target",
-              },
-            ]
-          : [],
+      ok: true,
+      measurement: {
+        type: raw.type,
+        value,
+        unit: spec.unit,
+        measuredAt: measuredAt.toISOString(),
+        provenance: {
+          source,
+          externalId:
+            raw.externalId !== undefined ? String(raw.externalId) : undefined,
+          sourceName: raw.sourceName,
+          receivedAt: now.toISOString(),
+          ...(value !== raw.value || (raw.unit && unit !== spec.unit)
+            ? { originalValue: raw.value, originalUnit: raw.unit }
+            : {}),
+        },
+      },
     };
   }
 
-  // Blood pressure monitor integration
-  static async syncBPMonitor(userId: string): Promise<{
-    readings: any[];
-    average: any;
-    trend: string;
-    alerts: any[];
-  }> {
-    await new Promise((resolve) => setTimeout(resolve, 300));
+  /**
+   * Identity of a reading across uploads: the vendor's id when there is
+   * one, otherwise what was measured and when. Device ids are left out so
+   * the same reading synced through two phones is still one reading.
+   */
+  static dedupeKey(measurement: Measurement): string {
+    const { provenance } = measurement;
+    const identity = provenance.externalId
+      ? `${provenance.source}|id|${provenance.externalId}`
+      : [
+          provenance.source,
+          measurement.type,
+          measurement.measuredAt,
+          measurement.value,
+        ].join("|");
+    return hashToken(identity);
+  }
 
-    const readings = [
-      {
-        timestamp: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString(),
-        systolic: 125,
-        diastolic: 82,
-      },
-      {
-        timestamp: new Date(Date.now() - 6 * 24 * 60 * 60 * 1000).toISOString(),
-        systolic: 122,
-        diastolic: 80,
-      },
-      {
-        timestamp: new Date(Date.now() - 5 * 24 * 60 * 60 * 1000).toISOString(),
-        systolic: 120,
-        diastolic: 78,
-      },
-      {
-        timestamp: new Date(Date.now() - 4 * 24 * 60 * 60 * 1000).toISOString(),
-        systolic: 119,
-        diastolic: 77,
-      },
-      {
-        timestamp: new Date(Date.now() - 3 * 24 * 60 * 60 * 1000).toISOString(),
-        systolic: 118,
-        diastolic: 76,
-      },
-      {
-        timestamp: new Date(Date.now() - 2 * 24 * 60 * 60 * 1000).toISOString(),
-        systolic: 117,
-        diastolic: 75,
-      },
-      { timestamp: new Date().toISOString(), systolic: 118, diastolic: 76 },
-    ];
+  // Parse, normalize and store a device's payload, then check thresholds
+  static async ingest(
+    device: WearableDevice,
+    payload: any,
+    now = new Date(),
+  ): Promise<
+    { ok: true; result: IngestResult } | { ok: false; error: string }
+  > {
+    const connector = this.getConnector(device.source);
+    if (!connector) {
+      return { ok: false, error: `No connector for ${device.source}` };
+    }
 
-    const avgSystolic =
-      readings.reduce((sum, r) => sum + r.systolic, 0) / readings.length;
-    const avgDiastolic =
-      readings.reduce((sum, r) => sum + r.diastolic, 0) / readings.length;
+    let raw: RawMeasurement[];
+    try {
+      raw = connector.parse(payload);
+    } catch (error) {
+      if (error instanceof PayloadError) {
+        return { ok: false, error: error.message };
+      }
+      throw error;
+    }
+    if (raw.length > MAX_MEASUREMENTS_PER_BATCH) {
+      return {
+        ok: false,
+        error: `At most ${MAX_MEASUREMENTS_PER_BATCH} measurements per request`,
+      };
+    }
 
-    return {
-      readings,
-      average: {
-        systolic: Math.round(avgSystolic),
-        diastolic: Math.round(avgDiastolic),
+    const { inserted, ...counts } = await this.store(
+      {
+        patientId: device.patientId,
+        deviceId: device.id,
+        source: device.source,
       },
-      trend: "improving",
-      alerts: [],
-    };
+      raw.map((reading, index) => ({ index, reading })),
+      now,
+    );
+
+    await this.pool().query(
+      "UPDATE rpm_devices SET last_sync = $2, updated_at = NOW() WHERE id = $1",
+      [device.id, now],
+    );
+    const alerts = await this.checkThresholds(device.patientId, inserted, now);
+    return { ok: true, result: { ...counts, alerts } };
   }
 
-  // Smart scale integration
-  static async syncSmartScale(userId: string): Promise<{
-    weight: number;
-    bmi: number;
-    bodyFat: number;
-    muscleMass: number;
-    trend: string;
-    history: any[];
+  /**
+   * Normalize and insert one batch of readings for a patient. Readings seen
+   * before are counted as duplicates; the new ones are returned.
+   */
+  static async store(
+    target: { patientId: string; deviceId?: string; source: string },
+    entries: { index: number; reading: RawMeasurement }[],
+    now = new Date(),
+  ): Promise<{
+    accepted: number;
+    duplicates: number;
+    rejected: { index: number; reason: string }[];
+    inserted: StoredMeasurement[];
   }> {
-    await new Promise((resolve) => setTimeout(resolve, 400));
+    const rejected: { index: number; reason: string }[] = [];
+    const params: any[] = [];
+    const rows: string[] = [];
 
-    const history = [
-      { date: "2024-02-01", weight: 170, bodyFat: 18.5, muscleMass: 68.2 },
-      { date: "2024-02-08", weight: 168, bodyFat: 18.2, muscleMass: 68.5 },
-      { date: "2024-02-15", weight: 165, bodyFat: 17.8, muscleMass: 68.8 },
-    ];
-
-    const latest = history[history.length - 1];
-    const height = 70; // inches
-    const bmi = (latest.weight / (height * height)) * 703;
+    for (const { index, reading } of entries) {
+      const normalized = this.normalize(reading, target.source, now);
+      if (normalized.ok === false) {
+        rejected.push({ index, reason: normalized.reason });
+        continue;
+      }
+      const measurement = normalized.measurement;
+      const values = [
+        target.patientId,
+        target.deviceId || null,
+        measurement.type,
+        measurement.value,
+        measurement.unit,
+        measurement.measuredAt,
+        target.source,
+        this.dedupeKey(measurement),
+        JSON.stringify(measurement.provenance),
+        JSON.stringify(reading),
+      ];
+      rows.push(
+        `(${values.map((_, i) => `$${params.length + i + 1}`).join(", ")})`,
+      );
+      params.push(...values);
+    }
+    if (rows.length === 0) {
+      return { accepted: 0, duplicates: 0, rejected, inserted: [] };
+    }
 
+    const inserted = await this.pool().query(
+      `INSERT INTO rpm_readings
+        (patient_id, device_id, reading_type, value, unit, recorded_at,
+         source, dedupe_key, provenance, raw_data)
+      VALUES ${rows.join(", ")}
+      ON CONFLICT (patient_id, dedupe_key) DO NOTHING
+      RETURNING *`,
+      params,
+    );
     return {
-      weight: latest.weight,
-      bmi: Math.round(bmi * 10) / 10,
-      bodyFat: latest.bodyFat,
-      muscleMass: latest.muscleMass,
-      trend: "decreasing",
-      history,
+      accepted: inserted.rows.length,
+      duplicates: rows.length - inserted.rows.length,
+      rejected,
+      inserted: inserted.rows.map((row) => this.fromRow(row)),
     };
   }
 
-  // Device registration and management
+  /**
+   * Register a device for a patient. The returned ingest token lets the
+   * device (or the vendor bridge) push readings without a user session; it
+   * is only shown here.
+   */
   static async registerDevice(
-    userId: string,
-    deviceInfo: any,
-  ): Promise<{
-    deviceId: string;
-    status: "connected" | "pending" | "failed";
-    capabilities: string[];
-  }> {
-    const deviceId = `device_${Date.now()}`;
+    patientId: string,
+    details: {
+      source: string;
+      name?: string;
+      model?: string;
+      manufacturer?: string;
+      serial?: string;
+    },
+  ): Promise<{ device: WearableDevice; ingestToken: string } | null> {
+    if (!this.getConnector(details.source)) return null;
 
-    this.connectedDevices.set(deviceId, {
-      userId,
-      ...deviceInfo,
-      registeredAt: new Date().toISOString(),
-      lastSync: new Date().toISOString(),
-    });
+    const ingestToken = crypto.randomBytes(32).toString("base64url");
+    const result = await this.pool().query(
+      `INSERT INTO rpm_devices
+        (patient_id, device_type, name, device_model, manufacturer,
+         device_serial, ingest_token_hash)
+      VALUES ($1, $2, $3, $4, $5, $6, $7)
+      RETURNING *`,
+      [
+        patientId,
+        details.source,
+        details.name || this.getConnector(details.source)!.label,
+        details.model || null,
+        details.manufacturer || null,
+        details.serial || null,
+        hashToken(ingestToken),
+      ],
+    );
+    return { device: this.deviceFromRow(result.rows[0]), ingestToken };
+  }
 
-    return {
-      deviceId,
-      status: "connected",
-      capabilities: deviceInfo.capabilities || [],
-    };
+  static async getConnectedDevices(
+    patientId: string,
+  ): Promise<WearableDevice[]> {
+    const result = await this.pool().query(
+      `SELECT * FROM rpm_devices
+      WHERE patient_id = $1 AND status = 'active'
+      ORDER BY created_at`,
+      [patientId],
+    );
+    return result.rows.map((row) => this.deviceFromRow(row));
   }
 
-  // Get all connected devices for user
-  static getConnectedDevices(userId: string): any[] {
-    const devices = [];
+  static async getDevice(deviceId: string): Promise<WearableDevice | null> {
+    const result = await this.pool().query(
+      "SELECT * FROM rpm_devices WHERE id::text = $1",
+      [deviceId],
+    );
+    return result.rows[0] ? this.deviceFromRow(result.rows[0]) : null;
+  }
 
-    for (const [deviceId, device] of this.connectedDevices.entries()) {
-      if (device.userId === userId) {
-        devices.push({
-          deviceId,
-          ...device,
-        });
-      }
+  static async getDeviceByToken(token: string): Promise<WearableDevice | null> {
+    if (!token) return null;
+    const result = await this.pool().query(
+      `SELECT * FROM rpm_devices
+      WHERE ingest_token_hash = $1 AND status = 'active'`,
+      [hashToken(token)],
+    );
+    return result.rows[0] ? this.deviceFromRow(result.rows[0]) : null;
+  }
+
+  // Stop accepting readings from a device; what it sent is kept
+  static async disconnectDevice(deviceId: string): Promise<boolean> {
+    const result = await this.pool().query(
+      `UPDATE rpm_devices
+      SET status = 'disconnected', ingest_token_hash = NULL, updated_at = NOW()
+      WHERE id = $1 AND status = 'active'`,
+      [deviceId],
+    );
+    return result.rowCount > 0;
+  }
+
+  static async getMeasurements(
+    patientId: string,
+    filters: { type?: string; from?: Date; to?: Date; limit?: number } = {},
+  ): Promise<StoredMeasurement[]> {
+    const conditions = ["patient_id = $1", "dedupe_key IS NOT NULL"];
+    const params: any[] = [patientId];
+    if (filters.type) {
+      params.push(filters.type);
+      conditions.push(`reading_type = $${params.length}`);
     }
+    if (filters.from) {
+      params.push(filters.from);
+      conditions.push(`recorded_at >= $${params.length}`);
+    }
+    if (filters.to) {
+      params.push(filters.to);
+      conditions.push(`recorded_at < $${params.length}`);
+    }
+    params.push(Math.min(filters.limit || 500, 5000));
 
-    return devices;
+    const result = await this.pool().query(
+      `SELECT * FROM rpm_readings
+      WHERE ${conditions.join(" AND ")}
+      ORDER BY recorded_at DESC
+      LIMIT $${params.length}`,
+      params,
+    );
+    return result.rows.map((row) => this.fromRow(row));
   }
 
-  // Aggregate data from all devices
-  static async aggregateWearableData(userId: string): Promise<{
-    summary: any;
-    devices: any[];
-    lastUpdate: string;
+  // Latest value and 7-day average of each measurement type
+  static async aggregateWearableData(patientId: string): Promise<{
+    summary: Record<string, any>;
+    devices: WearableDevice[];
+    lastUpdate?: string;
   }> {
-    const [appleHealth, fitbit, cgm, bpMonitor, smartScale] = await Promise.all(
+    const latest = await this.pool().query(
+      `SELECT DISTINCT ON (reading_type) reading_type, value, unit, recorded_at
+      FROM rpm_readings
+      WHERE patient_id = $1 AND dedupe_key IS NOT NULL
+      ORDER BY reading_type, recorded_at DESC`,
+      [patientId],
+    );
+    const weekly = await this.pool().query(
+      `SELECT reading_type, AVG(value) AS average, COUNT(*) AS count
+      FROM rpm_readings
+      WHERE patient_id = $1 AND dedupe_key IS NOT NULL
+        AND recorded_at >= NOW() - INTERVAL '7 days'
+      GROUP BY reading_type`,
+      [patientId],
+    );
+    const averages = new Map(weekly.rows.map((row) => [row.reading_type, row]));
+
+    const summary: Record<string, any> = {};
+    for (const row of latest.rows) {
+      const week = averages.get(row.reading_type);
+      summary[row.reading_type] = {
+        latest: Number(row.value),
+        unit: row.unit,
+        measuredAt: new Date(row.recorded_at).toISOString(),
+        average7d: week ? round(Number(week.average)) : null,
+        count7d: week ? Number(week.count) : 0,
+      };
+    }
+
+    const devices = await this.getConnectedDevices(patientId);
+    const synced = devices
+      .map((device) => device.lastSync)
+      .filter(Boolean)
+      .sort();
+    return { summary, devices, lastUpdate: synced[synced.length - 1] };
+  }
+
+  // Older readings are history: stored, but not alerted on
+  static withinAlertWindow(measurement: Measurement, now: Date): boolean {
+    return (
+      new Date(measurement.measuredAt).getTime() >=
+      now.getTime() - ALERT_WINDOW_HOURS * 60 * 60 * 1000
+    );
+  }
+
+  /**
+   * Run new readings from the alert window through the threshold service.
+   * A batch raises at most one alert per threshold (for its latest breach),
+   * which is stored and pushed to the patient's care team.
+   */
+  static async checkThresholds(
+    patientId: string,
+    measurements: StoredMeasurement[],
+    now: Date,
+  ): Promise<ThresholdAlert[]> {
+    const latestFirst = measurements
+      .filter((m) => this.withinAlertWindow(m, now))
+      .sort((a, b) => b.measuredAt.localeCompare(a.measuredAt));
+
+    const raised = new Map<string, ThresholdAlert>();
+    for (const measurement of latestFirst) {
+      const alert = await thresholdService.checkThreshold(
+        patientId,
+        measurement.type,
+        measurement.value,
+      );
+      if (!alert || raised.has(alert.thresholdType)) continue;
+      raised.set(alert.thresholdType, alert);
+      await this.raiseAlert(alert, measurement);
+    }
+    return [...raised.values()];
+  }
+
+  private static async raiseAlert(
+    alert: ThresholdAlert,
+    measurement: StoredMeasurement,
+  ): Promise<void> {
+    const stored = await this.pool().query(
+      `INSERT INTO rpm_alerts
+        (patient_id, reading_id, alert_type, severity, threshold_breached,
+         value_recorded, unit)
+      VALUES ($1, $2, $3, $4, $5, $6, $7)
+      RETURNING id`,
       [
-        this.syncAppleHealth(userId),
-        this.syncFitbit(userId),
-        this.syncCGM(userId),
-        this.syncBPMonitor(userId),
-        this.syncSmartScale(userId),
+        alert.patientId,
+        measurement.id,
+        alert.thresholdType,
+        alert.severity,
+        JSON.stringify({
+          thresholdValue: alert.thresholdValue,
+          unit: alert.unit,
+          isPatientSpecific: alert.isPatientSpecific,
+          source: measurement.provenance.source,
+        }),
+        alert.actualValue,
+        measurement.unit,
       ],
     );
+    const alertId = stored.rows[0].id;
 
-    const summary = {
-      steps: Math.max(appleHealth.steps, fitbit.steps),
-      heartRate: {
-        current: appleHealth.heartRate[appleHealth.heartRate.length - 1],
-        resting: appleHealth.sleepData.restingHeartRate,
-        average: Math.round(
-          appleHealth.heartRate.reduce((a, b) => a + b, 0) /
-            appleHealth.heartRate.length,
-        ),
-      },
-      glucose: {
-        current: cgm.currentGlucose,
-        trend: cgm.trend,
-        timeInRange: cgm.timeInRange,
-      },
-      bloodPressure: bpMonitor.average,
-      weight: smartScale.weight,
-      bmi: smartScale.bmi,
-      sleep: {
-        duration: appleHealth.sleepData.duration,
-        efficiency: appleHealth.sleepData.efficiency,
-        quality: appleHealth.sleepData.efficiency > 85 ? "good" : "fair",
-      },
-      activity: {
-        activeMinutes: fitbit.activeMinutes,
-        calories: fitbit.calories,
-        workouts: appleHealth.workouts.length,
+    AuditLogger.logEvent({
+      userId: alert.patientId,
+      action: "DEVICE_THRESHOLD_ALERT",
+      resourceType: "rpm_alert",
+      resourceId: alertId,
+      details: {
+        thresholdType: alert.thresholdType,
+        severity: alert.severity,
+        deviceId: measurement.deviceId,
       },
+    });
+
+    const members = await this.pool().query(
+      `SELECT DISTINCT u.id, u.phone FROM care_team_assignments ct
+      JOIN users u ON u.id = ct.member_id
+      WHERE ct.patient_id = $1 AND ct.active = true
+        AND ct.starts_at <= NOW() AND (ct.ends_at IS NULL OR ct.ends_at > NOW())`,
+      [alert.patientId],
+    );
+
+    const websocket = getWebSocketService();
+    const notice = {
+      alertId,
+      patientId: alert.patientId,
+      severity: alert.severity,
+      message: alert.alertMessage,
+      measurement,
+    };
+    // The notice carries the reading, so only signed-in sockets receive it
+    websocket?.sendHealthAlert(alert.patientId, notice, {
+      authenticatedOnly: true,
+    });
+    for (const member of members.rows) {
+      websocket?.sendHealthAlert(member.id, notice, {
+        authenticatedOnly: true,
+      });
+      // Texts carry no clinical detail; the app shows the reading
+      if (
+        member.phone &&
+        (alert.severity === "high" || alert.severity === "critical")
+      ) {
+        messagingService
+          .sendMessage({
+            to: member.phone,
+            message: `Telecheck: a ${alert.severity} device alert was raised for one of your patients. Open Telecheck to review it.`,
+            type: "sms",
+            priority: alert.severity,
+            category: alert.severity === "critical" ? "emergency" : "alert",
+            patientId: alert.patientId,
+          })
+          .catch((error) =>
+            console.error("Device alert notification error:", error),
+          );
+      }
+    }
+  }
+
+  static fromRow(row: any): StoredMeasurement {
+    return {
+      id: row.id,
+      patientId: row.patient_id,
+      type: row.reading_type,
+      value: Number(row.value),
+      unit: row.unit,
+      measuredAt: new Date(row.recorded_at).toISOString(),
+      deviceId: row.device_id || undefined,
+      provenance: row.provenance || { source: row.source },
     };
+  }
 
+  static deviceFromRow(row: any): WearableDevice {
     return {
-      summary,
-      devices: this.getConnectedDevices(userId),
-      lastUpdate: new Date().toISOString(),
+      id: row.id,
+      patientId: row.patient_id,
+      source: row.device_type,
+      name: row.name || undefined,
+      model: row.device_model || undefined,
+      manufacturer: row.manufacturer || undefined,
+      serial: row.device_serial || undefined,
+      status: row.status,
+      lastSync: row.last_sync
+        ? new Date(row.last_sync).toISOString()
+        : undefined,
+      createdAt: new Date(row.created_at).toISOString(),
     };
   }
+
+  private static pool() {
+    if (!dbPool) {
+      throw new Error("PostgreSQL pool not configured");
+    }
+    return dbPool;
+  }
 }
@@ -1,18 +1,34 @@
 import { WebSocket, WebSocketServer } from "ws";
 import { IncomingMessage } from "http";
 import { Server } from "http";
+import { AuthTokenService } from "./authTokens";
+import { AccessControl } from "./accessControl";
+import {
+  VisitService,
+  VisitSession,
+  VisitStatus,
+  MAX_SIGNAL_BYTES,
+  SIGNAL_TYPES,
+} from "./visits";
 
 interface WebSocketClient {
   id: string;
   ws: WebSocket;
   userId?: string;
+  // Set by an "authenticate" message with a valid access token; visit
+  // traffic only goes to authenticated clients
+  authenticated: boolean;
+  role?: string;
   subscriptions: Set<string>;
+  visits: Set<string>;
   lastPing: number;
 }
 
 export class WebSocketService {
   private wss: WebSocketServer;
   private clients: Map<string, WebSocketClient> = new Map();
+  // Status of visits with someone connected, kept current by updateVisit
+  private visitStatus: Map<string, VisitStatus> = new Map();
   private pingInterval: NodeJS.Timeout;
 
   constructor(server: Server) {
@@ -36,7 +52,9 @@ export class WebSocketService {
     const client: WebSocketClient = {
       id: clientId,
       ws,
+      authenticated: false,
       subscriptions: new Set(),
+      visits: new Set(),
       lastPing: Date.now(),
     };
 
@@ -59,13 +77,13 @@ export class WebSocketService {
     });
 
     ws.on("close", () => {
-      this.clients.delete(clientId);
+      this.removeClient(clientId);
       console.log(`🔌 Client disconnected: ${clientId}`);
     });
 
     ws.on("error", (error) => {
       console.error(`WebSocket error for client ${clientId}:`, error);
-      this.clients.delete(clientId);
+      this.removeClient(clientId);
     });
 
     ws.on("pong", () => {
@@ -94,6 +112,8 @@ export class WebSocketService {
         break;
 
       case "user_identification":
+        // An authenticated client's identity comes from its token
+        if (client.authenticated) break;
         client.userId = message.userId;
         console.log(
           `👤 Client ${clientId} identified as user ${message.userId}`,
@@ -112,6 +132,28 @@ export class WebSocketService {
         this.handleChatMessage(clientId, message.data);
         break;
 
+      case "authenticate":
+        this.authenticate(clientId, message.token).catch((error) =>
+          console.error("WebSocket authentication error:", error),
+        );
+        break;
+
+      case "visit_join":
+        this.joinVisit(clientId, String(message.sessionId)).catch((error) =>
+          console.error("Visit join error:", error),
+        );
+        break;
+
+      case "visit_leave":
+        this.leaveVisit(clientId, String(message.sessionId)).catch((error) =>
+          console.error("Visit leave error:", error),
+        );
+        break;
+
+      case "visit_signal":
+        this.relaySignal(clientId, message);
+        break;
+
       case "ping":
         this.sendToClient(clientId, { type: "pong", timestamp: Date.now() });
         break;
@@ -121,6 +163,221 @@ export class WebSocketService {
     }
   }
 
+  private async authenticate(clientId: string, token: string) {
+    const user = token
+      ? await AuthTokenService.verifyAccessToken(String(token))
+      : null;
+    const client = this.clients.get(clientId);
+    if (!client) return;
+
+    if (!user) {
+      this.sendToClient(clientId, {
+        type: "authentication_failed",
+        data: { code: "TOKEN_INVALID" },
+      });
+      return;
+    }
+    client.userId = user.id;
+    client.role = user.role;
+    client.authenticated = true;
+    this.sendToClient(clientId, {
+      type: "authenticated",
+      data: { userId: user.id },
+    });
+  }
+
+  private visitError(clientId: string, sessionId: string, code: string) {
+    this.sendToClient(clientId, {
+      type: "visit_error",
+      data: { sessionId, code },
+    });
+  }
+
+  // Participants, or clinicians and caregivers allowed to act for the patient
+  private async mayJoinVisit(client: WebSocketClient, session: VisitSession) {
+    if (VisitService.isParticipant(session, client.userId!)) return true;
+    const decision = await AccessControl.authorize(
+      { id: client.userId!, role: client.role! },
+      "appointments:write",
+      session.patientId,
+    );
+    return decision.allowed && decision.reason !== "emergency";
+  }
+
+  private async joinVisit(clientId: string, sessionId: string) {
+    const client = this.clients.get(clientId);
+    if (!client) return;
+    if (!client.authenticated) {
+      return this.visitError(clientId, sessionId, "NOT_AUTHENTICATED");
+    }
+
+    const session = await VisitService.get(sessionId);
+    if (
+      !session ||
+      session.status === "ended" ||
+      !(await this.mayJoinVisit(client, session))
+    ) {
+      return this.visitError(clientId, sessionId, "VISIT_NOT_AVAILABLE");
+    }
+    if (client.visits.has(session.id)) return;
+
+    const alreadyPresent = this.visitParticipants(session.id).includes(
+      client.userId!,
+    );
+    client.visits.add(session.id);
+    this.visitStatus.set(session.id, session.status);
+    if (!alreadyPresent) {
+      await VisitService.recordEvent(
+        session.id,
+        client.userId!,
+        "joined",
+        client.role,
+      );
+    }
+
+    const participants = this.visitParticipants(session.id);
+    this.sendToClient(clientId, {
+      type: "visit_joined",
+      data: { sessionId: session.id, status: session.status, participants },
+    });
+    if (!alreadyPresent) {
+      this.sendToVisit(
+        session.id,
+        {
+          type: "visit_presence",
+          data: {
+            sessionId: session.id,
+            userId: client.userId,
+            present: true,
+            participants,
+          },
+        },
+        clientId,
+      );
+    }
+  }
+
+  private async leaveVisit(clientId: string, sessionId: string) {
+    const client = this.clients.get(clientId);
+    if (!client || !client.visits.delete(sessionId)) return;
+
+    if (this.visitParticipants(sessionId).includes(client.userId!)) return;
+    const participants = this.visitParticipants(sessionId);
+    if (participants.length === 0) {
+      this.visitStatus.delete(sessionId);
+    }
+    await VisitService.recordEvent(
+      sessionId,
+      client.userId!,
+      "left",
+      client.role,
+    );
+    this.sendToVisit(sessionId, {
+      type: "visit_presence",
+      data: { sessionId, userId: client.userId, present: false, participants },
+    });
+  }
+
+  /**
+   * Pass WebRTC offers, answers and ICE candidates between the people in a
+   * visit, once the provider has admitted the patient. The server only
+   * relays them; media flows peer to peer.
+   */
+  private relaySignal(clientId: string, message: any) {
+    const client = this.clients.get(clientId);
+    const sessionId = String(message.sessionId);
+    if (!client || !client.visits.has(sessionId)) {
+      return this.visitError(clientId, sessionId, "NOT_IN_VISIT");
+    }
+    if (this.visitStatus.get(sessionId) !== "in_progress") {
+      return this.visitError(clientId, sessionId, "VISIT_NOT_STARTED");
+    }
+    const signal = message.signal;
+    if (
+      !signal ||
+      !SIGNAL_TYPES.includes(signal.type) ||
+      Buffer.byteLength(JSON.stringify(signal)) > MAX_SIGNAL_BYTES
+    ) {
+      return this.visitError(clientId, sessionId, "INVALID_SIGNAL");
+    }
+
+    this.clients.forEach((other) => {
+      if (
+        other.id !== clientId &&
+        other.visits.has(sessionId) &&
+        (!message.to || other.userId === message.to)
+      ) {
+        this.sendToClient(other.id, {
+          type: "visit_signal",
+          data: { sessionId, from: client.userId, signal },
+        });
+      }
+    });
+  }
+
+  private visitParticipants(sessionId: string): string[] {
+    const users = new Set<string>();
+    this.clients.forEach((client) => {
+      if (client.visits.has(sessionId)) users.add(client.userId!);
+    });
+    return Array.from(users);
+  }
+
+  private sendToVisit(
+    sessionId: string,
+    message: any,
+    exceptClientId?: string,
+  ) {
+    this.clients.forEach((client) => {
+      if (client.id !== exceptClientId && client.visits.has(sessionId)) {
+        this.sendToClient(client.id, message);
+      }
+    });
+  }
+
+  private removeClient(clientId: string) {
+    const client = this.clients.get(clientId);
+    if (!client) return;
+    const visits = Array.from(client.visits);
+    Promise.all(visits.map((sessionId) => this.leaveVisit(clientId, sessionId)))
+      .catch((error) => console.error("Visit leave error:", error))
+      .finally(() => this.clients.delete(clientId));
+  }
+
+  /**
+   * Tell a visit's participants about a change of state (checked in,
+   * admitted, ended), whether or not they have joined it yet. Ending a
+   * visit disconnects everyone from it.
+   */
+  public updateVisit(session: VisitSession, event: string) {
+    const message = {
+      type: "visit_update",
+      data: {
+        sessionId: session.id,
+        appointmentId: session.appointmentId,
+        event,
+        status: session.status,
+        timestamp: new Date().toISOString(),
+      },
+    };
+    this.clients.forEach((client) => {
+      if (
+        client.authenticated &&
+        (client.visits.has(session.id) ||
+          VisitService.isParticipant(session, client.userId!))
+      ) {
+        this.sendToClient(client.id, message);
+      }
+    });
+
+    if (session.status === "ended") {
+      this.clients.forEach((client) => client.visits.delete(session.id));
+      this.visitStatus.delete(session.id);
+    } else if (this.visitStatus.has(session.id)) {
+      this.visitStatus.set(session.id, session.status);
+    }
+  }
+
   private async handleChatMessage(clientId: string, messageData: any) {
     // Echo the message back to confirm receipt
     this.sendToClient(clientId, {
@@ -195,10 +452,19 @@ export class WebSocketService {
     return sentCount;
   }
 
-  public broadcastToUser(userId: string, message: any) {
+  // authenticatedOnly skips sessions that only identified themselves,
+  // for messages that must not reach anyone claiming the user's id
+  public broadcastToUser(
+    userId: string,
+    message: any,
+    options: { authenticatedOnly?: boolean } = {},
+  ) {
     let sentCount = 0;
     this.clients.forEach((client) => {
-      if (client.userId === userId) {
+      if (
+        client.userId === userId &&
+        (client.authenticated || !options.authenticatedOnly)
+      ) {
         if (this.sendToClient(client.id, message)) {
           sentCount++;
         }
@@ -207,7 +473,11 @@ export class WebSocketService {
     return sentCount;
   }
 
-  public sendHealthAlert(userId: string, alert: any) {
+  public sendHealthAlert(
+    userId: string,
+    alert: any,
+    options: { authenticatedOnly?: boolean } = {},
+  ) {
     const message = {
       type: "health_alert",
       data: {
@@ -218,7 +488,7 @@ export class WebSocketService {
     };
 
     if (userId) {
-      return this.broadcastToUser(userId, message);
+      return this.broadcastToUser(userId, message, options);
     } else {
       return this.broadcastToAll(message);
     }
@@ -247,7 +517,7 @@ export class WebSocketService {
         // 60 seconds timeout
         console.log(`⏰ Client ${clientId} timed out, removing`);
         client.ws.terminate();
-        this.clients.delete(clientId);
+        this.removeClient(clientId);
       } else if (client.ws.readyState === WebSocket.OPEN) {
         client.ws.ping();
       }
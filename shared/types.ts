@@ -40,6 +40,7 @@ export interface LabResult {
   id: string;
   userId: string;
   testName: string;
+  loincCode?: string;
   value: number;
   unit: string;
   referenceRange: string;
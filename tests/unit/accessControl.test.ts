@@ -0,0 +1,103 @@
+import { describe, it, expect } from "vitest";
+import { AccessControl } from "../../server/utils/accessControl";
+
+const PATIENT_ID = "0c4f6a1e-5d2b-4e8f-9a7c-3b1d2e4f5a6b";
+const DOCTOR_ID = "6f1d2c8e-0b7a-4a55-9a3e-2f4c1d9b8e70";
+
+describe("AccessControl", () => {
+  it("should let patients read only their own records", () => {
+    const patient = { id: PATIENT_ID, role: "patient" };
+
+    expect(
+      AccessControl.decide(patient, "labs:read", PATIENT_ID, null),
+    ).toEqual({ allowed: true, reason: "self" });
+    expect(
+      AccessControl.decide(patient, "labs:read", DOCTOR_ID, "caregiver"),
+    ).toEqual({ allowed: false, reason: "not_on_care_team" });
+  });
+
+  it("should require a care team relationship for clinicians", () => {
+    const doctor = { id: DOCTOR_ID, role: "doctor" };
+
+    expect(
+      AccessControl.decide(doctor, "vitals:read", PATIENT_ID, null).allowed,
+    ).toBe(false);
+    expect(
+      AccessControl.decide(
+        doctor,
+        "vitals:read",
+        PATIENT_ID,
+        "primary_physician",
+      ),
+    ).toEqual({
+      allowed: true,
+      reason: "care_team",
+      relationship: "primary_physician",
+    });
+  });
+
+  it("should deny permissions the role does not have", () => {
+    const caregiver = { id: DOCTOR_ID, role: "caregiver" };
+
+    expect(
+      AccessControl.decide(
+        caregiver,
+        "medications:write",
+        PATIENT_ID,
+        "caregiver",
+      ),
+    ).toEqual({ allowed: false, reason: "missing_permission" });
+    expect(AccessControl.hasPermission("pharmacist", "labs:write")).toBe(false);
+  });
+
+  it("should let admins reach every patient", () => {
+    expect(
+      AccessControl.decide(
+        { id: DOCTOR_ID, role: "admin" },
+        "fhir:export",
+        PATIENT_ID,
+        null,
+      ),
+    ).toEqual({ allowed: true, reason: "admin" });
+  });
+
+  it("should allow clinicians with an emergency grant and flag the decision", () => {
+    const nurse = { id: DOCTOR_ID, role: "nurse" };
+
+    expect(
+      AccessControl.decide(nurse, "labs:read", PATIENT_ID, null, "grant-1"),
+    ).toEqual({ allowed: true, reason: "emergency", grantId: "grant-1" });
+    expect(
+      AccessControl.decide(
+        { id: DOCTOR_ID, role: "doctor" },
+        "care_team:manage",
+        PATIENT_ID,
+        null,
+        "grant-1",
+      ).allowed,
+    ).toBe(false);
+  });
+
+  it("should not let caregivers break the glass", () => {
+    expect(
+      AccessControl.decide(
+        { id: DOCTOR_ID, role: "caregiver" },
+        "labs:read",
+        PATIENT_ID,
+        null,
+        "grant-1",
+      ),
+    ).toEqual({ allowed: false, reason: "not_on_care_team" });
+  });
+
+  it("should reject unknown roles", () => {
+    expect(
+      AccessControl.decide(
+        { id: PATIENT_ID, role: "superuser" },
+        "labs:read",
+        PATIENT_ID,
+        null,
+      ),
+    ).toEqual({ allowed: false, reason: "unknown_role" });
+  });
+});
@@ -0,0 +1,117 @@
+import { describe, it, expect, beforeAll } from "vitest";
+import { CalendarService } from "../../server/utils/calendar";
+import { Appointment } from "../../server/utils/scheduling";
+
+const appointment: Appointment = {
+  id: "5b0e8c2a-1f7d-4c1e-9a57-0d6f2f1c9b31",
+  patientId: "patient-1",
+  providerId: "provider-1",
+  type: "consultation",
+  start: "2026-07-06T09:00:00.000Z",
+  end: "2026-07-06T09:30:00.000Z",
+  durationMinutes: 30,
+  status: "confirmed",
+  rescheduleCount: 1,
+  sequence: 2,
+  bufferBeforeMinutes: 0,
+  bufferAfterMinutes: 5,
+  notes: "Chest pain follow-up",
+  createdAt: "2026-07-01T10:00:00.000Z",
+  updatedAt: "2026-07-02T08:15:30.000Z",
+};
+
+const people = {
+  patient: { name: "Ama Mensah", email: "ama@example.com" },
+  provider: { name: "Kofi Boateng", email: "dr.boateng@example.com" },
+};
+
+describe("CalendarService", () => {
+  beforeAll(() => {
+    process.env.JWT_SECRET = process.env.JWT_SECRET || "test-secret";
+  });
+
+  it("should escape text and fold long lines", () => {
+    expect(CalendarService.escapeText("Room 4, floor 2; bring\nnotes")).toBe(
+      "Room 4\\, floor 2\\; bring\\nnotes",
+    );
+
+    const folded = CalendarService.foldLine(`SUMMARY:${"x".repeat(160)}`);
+    const lines = folded.split("\r\n");
+    expect(lines).toHaveLength(3);
+    expect(lines.every((line) => Buffer.byteLength(line) <= 75)).toBe(true);
+    expect(lines.slice(1).every((line) => line.startsWith(" "))).toBe(true);
+    expect(folded.replace(/\r\n /g, "")).toBe(`SUMMARY:${"x".repeat(160)}`);
+  });
+
+  it("should build a request for a live appointment", () => {
+    const ics = CalendarService.buildCalendar("REQUEST", [
+      CalendarService.toEvent(appointment, "patient", people, "Consultation"),
+    ]);
+
+    expect(ics.startsWith("BEGIN:VCALENDAR\r\nVERSION:2.0\r\n")).toBe(true);
+    expect(ics.endsWith("END:VCALENDAR\r\n")).toBe(true);
+    expect(ics).toContain("METHOD:REQUEST");
+    expect(ics).toContain(`UID:${appointment.id}@telecheck.health`);
+    expect(ics).toContain("DTSTART:20260706T090000Z");
+    expect(ics).toContain("DTEND:20260706T093000Z");
+    expect(ics).toContain("DTSTAMP:20260702T081530Z");
+    expect(ics).toContain("SEQUENCE:2");
+    expect(ics).toContain("STATUS:CONFIRMED");
+    expect(ics).toContain("SUMMARY:Consultation with Kofi Boateng");
+    expect(ics).toContain(
+      'ORGANIZER;CN="Kofi Boateng":mailto:dr.boateng@example.com',
+    );
+    expect(ics).not.toContain("Chest pain");
+  });
+
+  it("should keep patient names out of provider events", () => {
+    const event = CalendarService.toEvent(
+      appointment,
+      "provider",
+      people,
+      "Consultation",
+    );
+    expect(event.summary).toBe("Consultation: A.M.");
+    expect(event.attendees).toEqual([]);
+    const ics = CalendarService.buildCalendar("REQUEST", [event]);
+    expect(ics).not.toContain("Ama Mensah");
+    expect(ics).not.toContain("ama@example.com");
+
+    const cancelled = CalendarService.toEvent(
+      { ...appointment, status: "cancelled", statusReason: "Patient unwell" },
+      "provider",
+      people,
+      "Consultation",
+    );
+    expect(cancelled.status).toBe("CANCELLED");
+    expect(cancelled.description).toBe("Patient unwell");
+  });
+
+  it("should only accept invite links signed for the same view", () => {
+    const signature = CalendarService.inviteSignature(
+      appointment.id,
+      "patient",
+    );
+
+    expect(
+      CalendarService.verifyInviteSignature(
+        appointment.id,
+        "patient",
+        signature,
+      ),
+    ).toBe(true);
+    expect(
+      CalendarService.verifyInviteSignature(
+        appointment.id,
+        "provider",
+        signature,
+      ),
+    ).toBe(false);
+    expect(
+      CalendarService.verifyInviteSignature(appointment.id, "patient", ""),
+    ).toBe(false);
+    expect(CalendarService.inviteUrl(appointment.id, "patient")).toContain(
+      `/api/calendar/invites/${appointment.id}/patient.ics?sig=${signature}`,
+    );
+  });
+});
@@ -0,0 +1,152 @@
+import { describe, it, expect } from "vitest";
+import {
+  CcmActivityEntry,
+  CcmEnrollment,
+  CcmService,
+} from "../../server/utils/ccm";
+
+const enrollment: CcmEnrollment = {
+  id: "ccm-1",
+  patientId: "patient-1",
+  patientName: "Jane Doe",
+  providerId: "doctor-1",
+  providerName: "Sam Lee",
+  enrollmentDate: "2024-05-02",
+  status: "active",
+  consentDate: "2024-05-02",
+  consentMethod: "verbal",
+  riskLevel: "high",
+  conditions: ["Type 2 diabetes", "Hypertension"],
+  carePlanId: "plan-1",
+};
+
+const activity = (
+  activity: CcmActivityEntry["activity"],
+  mdmLevel?: string,
+  running = false,
+): CcmActivityEntry => ({
+  id: `${activity}-${mdmLevel}`,
+  patientId: enrollment.patientId,
+  staffId: "nurse-1",
+  activity,
+  startTime: "2024-05-10T14:00:00.000Z",
+  endTime: running ? undefined : "2024-05-10T14:30:00.000Z",
+  minutes: running ? null : 30,
+  mdmLevel,
+});
+
+describe("CcmService", () => {
+  it("should add 99439 for each further 20 minutes up to two units", () => {
+    const codes = (minutes: number) =>
+      CcmService.assessMonth(minutes, false).codes.map((c) => [
+        c.code,
+        c.units,
+      ]);
+
+    expect(codes(19)).toEqual([]);
+    expect(codes(20)).toEqual([["99490", 1]]);
+    expect(codes(45)).toEqual([
+      ["99490", 1],
+      ["99439", 1],
+    ]);
+    expect(codes(95)).toEqual([
+      ["99490", 1],
+      ["99439", 2],
+    ]);
+
+    expect(CcmService.assessMonth(12, false).nextThreshold).toEqual({
+      code: "99490",
+      minutes: 20,
+      remaining: 8,
+    });
+    expect(CcmService.assessMonth(52, false).nextThreshold).toEqual({
+      code: "99439",
+      minutes: 60,
+      remaining: 8,
+    });
+    expect(CcmService.assessMonth(80, false).nextThreshold).toBeNull();
+  });
+
+  it("should bill complex CCM alone once a complex month reaches 60 minutes", () => {
+    const revision = [activity("care_plan_revision", "moderate")];
+    expect(CcmService.isComplex(revision)).toBe(true);
+    expect(CcmService.isComplex([activity("care_plan_revision", "low")])).toBe(
+      false,
+    );
+    expect(
+      CcmService.isComplex([activity("care_plan_revision", "high", true)]),
+    ).toBe(false);
+    expect(CcmService.isComplex([activity("care_coordination", "high")])).toBe(
+      false,
+    );
+
+    expect(CcmService.assessMonth(75, true)).toEqual({
+      codes: [{ code: "99487", units: 1 }],
+      complex: true,
+      nextThreshold: null,
+    });
+    // Short of 60 minutes the non-complex codes still apply
+    expect(CcmService.assessMonth(45, true)).toEqual({
+      codes: [
+        { code: "99490", units: 1 },
+        { code: "99439", units: 1 },
+      ],
+      complex: true,
+      nextThreshold: { code: "99487", minutes: 60, remaining: 15 },
+    });
+  });
+
+  it("should report what keeps time from being billed", () => {
+    expect(CcmService.blockers(enrollment)).toEqual([]);
+    expect(
+      CcmService.blockers({
+        ...enrollment,
+        consentDate: undefined,
+        conditions: ["Hypertension"],
+        carePlanId: undefined,
+      }),
+    ).toEqual([
+      "No consent on file",
+      "Fewer than 2 chronic conditions recorded",
+      "No care plan",
+    ]);
+
+    const csv = CcmService.toCSV({
+      month: "2024-05",
+      timeZone: "UTC",
+      generatedAt: "2024-06-01T00:00:00.000Z",
+      rows: [
+        {
+          patientId: "patient-1",
+          patientName: "Jane Doe",
+          providerId: "doctor-1",
+          providerName: "Sam Lee",
+          riskLevel: "high",
+          conditions: enrollment.conditions,
+          consentDate: "2024-05-02",
+          carePlan: null,
+          minutes: 52,
+          activities: 3,
+          ...CcmService.assessMonth(52, false),
+          billable: false,
+          nearThreshold: true,
+          blockers: ["No care plan"],
+        },
+      ],
+      summary: {
+        patients: 1,
+        billable: 0,
+        nearThreshold: 1,
+        blocked: 1,
+        byCode: {
+          "99490": { patients: 0, units: 0 },
+          "99439": { patients: 0, units: 0 },
+          "99487": { patients: 0, units: 0 },
+        },
+      },
+    }).split("\r\n");
+    expect(csv[1]).toBe(
+      "patient-1,Jane Doe,Sam Lee,high,52,99490; 99439,no,99439,8,No care plan",
+    );
+  });
+});
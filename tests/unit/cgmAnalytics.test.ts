@@ -0,0 +1,121 @@
+import { describe, it, expect } from "vitest";
+import { CgmAnalyticsService } from "../../server/utils/cgmAnalytics";
+
+const start = new Date("2024-06-01T00:00:00Z");
+const MINUTE = 60 * 1000;
+
+// One reading every 5 minutes from the start of the period
+const stream = (values: number[], from = start) =>
+  values.map((value, i) => ({
+    value,
+    measuredAt: new Date(from.getTime() + i * 5 * MINUTE).toISOString(),
+  }));
+
+const repeat = (value: number, times: number) =>
+  Array.from({ length: times }, () => value);
+
+describe("CgmAnalyticsService", () => {
+  it("should report time in ranges, GMI and variability", () => {
+    // A full day: 3/4 in range, the rest spread over the other bands
+    const day = [
+      ...repeat(120, 216),
+      ...repeat(200, 36),
+      ...repeat(60, 18),
+      ...repeat(45, 9),
+      ...repeat(300, 9),
+    ];
+    const metrics = CgmAnalyticsService.analyze(stream(day), {
+      start,
+      end: new Date(start.getTime() + 24 * 60 * MINUTE),
+      timeZone: "UTC",
+    });
+
+    expect(metrics.data).toEqual({
+      readings: 288,
+      intervalMinutes: 5,
+      activePercent: 100,
+      sufficient: true,
+    });
+    expect(metrics.ranges.map((range) => [range.band, range.percent])).toEqual([
+      ["very_low", 3.1],
+      ["low", 6.3],
+      ["target", 75],
+      ["high", 12.5],
+      ["very_high", 3.1],
+    ]);
+    expect(metrics.ranges[2].minutesPerDay).toBe(1080);
+    expect(metrics.glucose.mean).toBe(129.5);
+    expect(metrics.glucose.gmi).toBe(6.4);
+    expect(metrics.glucose.cv).toBe(35.6);
+
+    const met = Object.fromEntries(
+      metrics.targets.map((target) => [target.metric, target.met]),
+    );
+    expect(met).toEqual({
+      tir: true,
+      tbr: false,
+      tbr_level2: false,
+      tar: true,
+      tar_level2: true,
+      cv: true,
+    });
+  });
+
+  it("should find hypoglycemic events of at least 15 minutes", () => {
+    const values = [
+      100,
+      // 15 minutes below 70, a 5-minute recovery, then below 54
+      65, 62, 60, 80, 50, 52, 50,
+      // Recovered for 20 minutes
+      100, 100, 100, 100,
+      // A single low reading is not an event
+      68, 100,
+    ];
+    const { hypoglycemia } = CgmAnalyticsService.analyze(stream(values), {
+      start,
+      end: new Date(start.getTime() + 2 * 60 * MINUTE),
+      timeZone: "UTC",
+    });
+
+    expect(hypoglycemia.level1).toBe(1);
+    expect(hypoglycemia.level2).toBe(1);
+    expect(hypoglycemia.events).toEqual([
+      {
+        start: "2024-06-01T00:05:00.000Z",
+        end: "2024-06-01T00:35:00.000Z",
+        durationMinutes: 35,
+        nadir: 50,
+        level: 2,
+      },
+    ]);
+  });
+
+  it("should build the AGP on the patient's clock", () => {
+    // 08:00 UTC on five days is 04:00 in New York during daylight time
+    const points = [110, 120, 130, 140, 150].map((value, day) => ({
+      value,
+      measuredAt: new Date(
+        Date.parse("2024-06-01T08:00:00Z") + day * 24 * 60 * MINUTE,
+      ).toISOString(),
+    }));
+    const { agp, data } = CgmAnalyticsService.analyze(points, {
+      start,
+      end: new Date(start.getTime() + 5 * 24 * 60 * MINUTE),
+      timeZone: "America/New_York",
+    });
+
+    expect(agp).toHaveLength(96);
+    expect(agp.find((slot) => slot.time === "04:00")).toEqual({
+      time: "04:00",
+      count: 5,
+      p5: 112,
+      p25: 120,
+      p50: 130,
+      p75: 140,
+      p95: 148,
+    });
+    expect(agp.find((slot) => slot.time === "08:00")!.count).toBe(0);
+    // Five readings in five days is far too little wear for a report
+    expect(data.sufficient).toBe(false);
+  });
+});
@@ -0,0 +1,195 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import {
+  CommunicationConsent,
+  ConsentContext,
+  isQuietHours,
+} from "../../server/utils/communicationConsent";
+
+const night = new Date("2024-05-02T23:30:00Z");
+const day = new Date("2024-05-02T12:00:00Z");
+
+const patient = (
+  overrides: Partial<ConsentContext["patient"]> = {},
+): ConsentContext["patient"] => ({
+  consents: {},
+  quietHours: { start: "22:00", end: "07:00" },
+  timeZone: "UTC",
+  ...overrides,
+});
+
+describe("CommunicationConsent", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("should find quiet hours on the patient's clock, across midnight", () => {
+    const overnight = { start: "22:00", end: "07:00" };
+    expect(isQuietHours("23:30", overnight)).toBe(true);
+    expect(isQuietHours("06:59", overnight)).toBe(true);
+    expect(isQuietHours("07:00", overnight)).toBe(false);
+    expect(isQuietHours("12:00", overnight)).toBe(false);
+    expect(isQuietHours("13:30", { start: "13:00", end: "14:00" })).toBe(true);
+
+    expect(CommunicationConsent.localTime(night, "Africa/Accra")).toBe("23:30");
+    expect(CommunicationConsent.localTime(night, "Europe/Paris")).toBe("01:30");
+    expect(CommunicationConsent.localTime(day, "America/New_York")).toBe(
+      "08:00",
+    );
+  });
+
+  it("should block texts after STOP, calling instead for emergencies", () => {
+    const context = { smsOptedOut: true, now: day };
+
+    expect(
+      CommunicationConsent.decide(
+        { type: "sms", category: "reminder", priority: "low" },
+        context,
+      ),
+    ).toEqual({ action: "block", type: "sms", reason: "sms_opted_out" });
+    expect(
+      CommunicationConsent.decide(
+        { type: "sms", category: "emergency", priority: "critical" },
+        context,
+      ),
+    ).toEqual({ action: "downgrade", type: "voice", reason: "sms_opted_out" });
+    expect(
+      CommunicationConsent.decide(
+        {
+          type: "sms",
+          category: "system",
+          priority: "low",
+          keywordReply: true,
+        },
+        context,
+      ),
+    ).toEqual({ action: "send", type: "sms" });
+  });
+
+  it("should always send sign-in codes, even without the registry", async () => {
+    const code = {
+      to: "+233244123456",
+      message: "Your code is 123456",
+      type: "sms" as const,
+      category: "system" as const,
+      priority: "high" as const,
+      transactional: true,
+    };
+
+    expect(
+      CommunicationConsent.decide(code, { smsOptedOut: true, now: night }),
+    ).toEqual({ action: "send", type: "sms" });
+    // No database is configured here, so any lookup would fail closed
+    expect(await CommunicationConsent.check(code)).toEqual({
+      action: "send",
+      type: "sms",
+    });
+    expect(
+      (await CommunicationConsent.check({ ...code, transactional: false }))
+        .action,
+    ).toBe("block");
+  });
+
+  it("should apply the patient's consent per channel and category", () => {
+    const context = {
+      smsOptedOut: false,
+      patient: patient({ consents: { sms: { reminders: false } } }),
+      now: day,
+    };
+
+    expect(
+      CommunicationConsent.decide(
+        { type: "sms", category: "medication", priority: "medium" },
+        context,
+      ),
+    ).toEqual({ action: "block", type: "sms", reason: "consent_withdrawn" });
+    expect(
+      CommunicationConsent.decide(
+        { type: "voice", category: "medication", priority: "medium" },
+        context,
+      ).action,
+    ).toBe("send");
+    expect(
+      CommunicationConsent.decide(
+        { type: "sms", category: "education", priority: "low" },
+        context,
+      ),
+    ).toEqual({ action: "block", type: "sms", reason: "consent_not_given" });
+    // Consent is the patient's: a care team member texted about them is not
+    // held to it
+    expect(
+      CommunicationConsent.decide(
+        { type: "sms", category: "medication", priority: "medium" },
+        { smsOptedOut: false, now: day },
+      ).action,
+    ).toBe("send");
+  });
+
+  it("should defer reminders and move calls to texts in quiet hours", () => {
+    const context = { smsOptedOut: false, patient: patient(), now: night };
+
+    expect(
+      CommunicationConsent.decide(
+        { type: "sms", category: "reminder", priority: "low" },
+        context,
+      ),
+    ).toEqual({
+      action: "defer",
+      type: "sms",
+      reason: "quiet_hours",
+      deferUntil: "2024-05-03T07:00:00.000Z",
+    });
+    expect(
+      CommunicationConsent.decide(
+        { type: "voice", category: "alert", priority: "high" },
+        context,
+      ),
+    ).toEqual({ action: "downgrade", type: "sms", reason: "quiet_hours" });
+    // A call that cannot become a text waits for the morning instead
+    expect(
+      CommunicationConsent.decide(
+        { type: "voice", category: "alert", priority: "high" },
+        { ...context, smsOptedOut: true },
+      ).action,
+    ).toBe("defer");
+    expect(
+      CommunicationConsent.decide(
+        { type: "voice", category: "alert", priority: "critical" },
+        context,
+      ).action,
+    ).toBe("send");
+    expect(
+      CommunicationConsent.decide(
+        { type: "sms", category: "reminder", priority: "low" },
+        { ...context, patient: patient({ timeZone: "America/New_York" }) },
+      ).action,
+    ).toBe("send");
+  });
+
+  it("should end quiet hours on the patient's clock", () => {
+    const overnight = { start: "22:00", end: "07:00" };
+
+    // 01:30 in Paris (CEST) is already past midnight
+    expect(
+      CommunicationConsent.quietHoursEnd(night, overnight, "Europe/Paris"),
+    ).toEqual(new Date("2024-05-03T05:00:00Z"));
+    expect(
+      CommunicationConsent.quietHoursEnd(
+        new Date("2024-05-03T06:00:00Z"),
+        overnight,
+        "UTC",
+      ),
+    ).toEqual(new Date("2024-05-03T07:00:00Z"));
+  });
+
+  it("should key opt-outs on the full number, matching last digits only for local numbers", async () => {
+    const query = vi.fn().mockResolvedValue({ rows: [] });
+    vi.spyOn(CommunicationConsent as any, "pool").mockReturnValue({ query });
+
+    await CommunicationConsent.isSmsOptedOut("+1 424 412 3456");
+    expect(query.mock.calls[0][1]).toEqual(["+14244123456", null]);
+
+    // A record saved without its country code
+    await CommunicationConsent.isSmsOptedOut("024 412 3456");
+    expect(query.mock.calls[1][1]).toEqual(["+0244123456", "244123456"]);
+  });
+});
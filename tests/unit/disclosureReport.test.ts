@@ -0,0 +1,122 @@
+import { describe, it, expect } from "vitest";
+import {
+  DisclosureReportService,
+  DisclosureReport,
+} from "../../server/utils/disclosureReport";
+
+const auditRow = (overrides: Record<string, any> = {}) => ({
+  id: 42,
+  timestamp: new Date("2026-03-02T14:05:00Z"),
+  actor_id: "6f1d2c8e-0b7a-4a55-9a3e-2f4c1d9b8e70",
+  subject_id: "0c4f6a1e-5d2b-4e8f-9a7c-3b1d2e4f5a6b",
+  category: "DATA_ACCESS",
+  action: "view",
+  details: { dataType: "patient_record", channel: "api", purpose: "treatment" },
+  first_name: "Kwame",
+  last_name: "Boateng",
+  role: "doctor",
+  ...overrides,
+});
+
+const report = (entries: DisclosureReport["entries"]): DisclosureReport => ({
+  patient: { id: "0c4f6a1e-5d2b-4e8f-9a7c-3b1d2e4f5a6b", name: "Ama Mensah" },
+  period: {
+    start: "2026-01-01T00:00:00.000Z",
+    end: "2026-03-31T00:00:00.000Z",
+  },
+  generatedAt: "2026-04-01T09:00:00.000Z",
+  entries,
+  summary: {
+    total: entries.length,
+    byKind: { access: entries.length, export: 0, transmission: 0 },
+    actors: 1,
+  },
+});
+
+describe("DisclosureReportService", () => {
+  it("should map data access rows with the actor and purpose", () => {
+    const entry = DisclosureReportService.fromAuditRow(auditRow());
+
+    expect(entry).toMatchObject({
+      kind: "access",
+      actor: { name: "Kwame Boateng", role: "doctor" },
+      dataTypes: ["patient_record"],
+      purpose: "treatment",
+      channel: "api",
+    });
+  });
+
+  it("should attribute rows without a user to the system", () => {
+    const entry = DisclosureReportService.fromAuditRow(
+      auditRow({
+        actor_id: "SYSTEM",
+        category: "COMMUNICATION",
+        action: "outbound_sms",
+        details: {
+          direction: "outbound",
+          channel: "sms",
+          messageType: "wellness_check",
+        },
+        first_name: null,
+        last_name: null,
+        role: null,
+      }),
+    );
+
+    expect(entry.kind).toBe("transmission");
+    expect(entry.actor).toEqual({
+      id: "SYSTEM",
+      name: "Telecheck (automated)",
+      role: "system",
+    });
+    expect(entry.dataTypes).toEqual(["wellness_check"]);
+  });
+
+  it("should list exported data types and the recipient", () => {
+    const entry = DisclosureReportService.fromAuditRow(
+      auditRow({
+        category: "DATA_EXPORT",
+        action: "FHIR_EXPORT",
+        details: {
+          recipient: "Korle Bu Teaching Hospital",
+          dataTypes: ["patient", "medications"],
+        },
+      }),
+    );
+
+    expect(entry.kind).toBe("export");
+    expect(entry.dataTypes).toEqual(["patient", "medications"]);
+    expect(entry.recipient).toBe("Korle Bu Teaching Hospital");
+  });
+
+  it("should quote CSV cells containing commas and quotes", () => {
+    const entry = DisclosureReportService.fromAuditRow(
+      auditRow({ details: { dataType: "labs", purpose: 'review, "urgent"' } }),
+    );
+
+    const [header, row] = DisclosureReportService.toCSV(report([entry])).split(
+      "\r\n",
+    );
+
+    expect(header.split(",")[0]).toBe("Date");
+    expect(row).toContain('"review, ""urgent"""');
+  });
+
+  it("should render a PDF with a valid cross-reference table", () => {
+    const entries = Array.from({ length: 150 }, (_, i) =>
+      DisclosureReportService.fromAuditRow(auditRow({ id: i })),
+    );
+
+    const pdf = DisclosureReportService.toPDF(report(entries)).toString(
+      "latin1",
+    );
+
+    expect(pdf.startsWith("%PDF-1.4")).toBe(true);
+    expect(pdf.trimEnd().endsWith("%%EOF")).toBe(true);
+    expect(pdf).toMatch(/\/Count 3 >>/);
+
+    // startxref must point at the xref keyword
+    const xrefOffset = parseInt(pdf.match(/startxref\n(\d+)/)![1]);
+    expect(pdf.slice(xrefOffset, xrefOffset + 4)).toBe("xref");
+  });
+});
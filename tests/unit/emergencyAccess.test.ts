@@ -0,0 +1,72 @@
+import { describe, it, expect } from "vitest";
+import { EmergencyAccessService } from "../../server/utils/emergencyAccess";
+
+const NOW = new Date("2026-05-10T12:00:00Z");
+
+const grantRow = (overrides: Record<string, any> = {}) => ({
+  id: "9b2e4c6a-1f3d-4a5b-8c7e-0d1f2a3b4c5d",
+  clinician_id: "6f1d2c8e-0b7a-4a55-9a3e-2f4c1d9b8e70",
+  patient_id: "0c4f6a1e-5d2b-4e8f-9a7c-3b1d2e4f5a6b",
+  reason: "Unconscious in ED, needs medication history",
+  created_at: new Date("2026-05-10T11:30:00Z"),
+  expires_at: new Date("2026-05-10T12:30:00Z"),
+  revoked_at: null,
+  reviewed_at: null,
+  clinician_first_name: "Kwame",
+  clinician_last_name: "Boateng",
+  clinician_role: "doctor",
+  patient_first_name: "Ama",
+  patient_last_name: "Mensah",
+  access_count: "3",
+  ...overrides,
+});
+
+describe("EmergencyAccessService", () => {
+  it("should map a grant row with names and access count", () => {
+    const grant = EmergencyAccessService.fromRow(grantRow(), NOW);
+
+    expect(grant).toMatchObject({
+      status: "active",
+      clinician: { name: "Kwame Boateng", role: "doctor" },
+      patient: { name: "Ama Mensah" },
+      expiresAt: "2026-05-10T12:30:00.000Z",
+      accessCount: 3,
+    });
+    expect(grant.review).toBeUndefined();
+  });
+
+  it("should report expired and revoked grants", () => {
+    expect(
+      EmergencyAccessService.statusOf(
+        grantRow({ expires_at: new Date("2026-05-10T11:59:00Z") }),
+        NOW,
+      ),
+    ).toBe("expired");
+    expect(
+      EmergencyAccessService.statusOf(
+        grantRow({ revoked_at: new Date("2026-05-10T11:45:00Z") }),
+        NOW,
+      ),
+    ).toBe("revoked");
+  });
+
+  it("should include the review once recorded", () => {
+    const grant = EmergencyAccessService.fromRow(
+      grantRow({
+        expires_at: new Date("2026-05-10T11:59:00Z"),
+        reviewed_at: new Date("2026-05-11T09:00:00Z"),
+        reviewed_by: "2a3b4c5d-6e7f-4a8b-9c0d-1e2f3a4b5c6d",
+        review_outcome: "appropriate",
+        review_notes: null,
+      }),
+      NOW,
+    );
+
+    expect(grant.review).toEqual({
+      outcome: "appropriate",
+      reviewedBy: "2a3b4c5d-6e7f-4a8b-9c0d-1e2f3a4b5c6d",
+      reviewedAt: "2026-05-11T09:00:00.000Z",
+      notes: undefined,
+    });
+  });
+});
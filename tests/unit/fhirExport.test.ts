@@ -0,0 +1,266 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { FHIRIntegrationService } from "../../server/utils/fhirIntegration";
+import { db } from "../../server/utils/databaseAdapter";
+
+const PATIENT = "11111111-1111-1111-1111-111111111111";
+const OTHER_PATIENT = "22222222-2222-2222-2222-222222222222";
+const PROVIDER = "33333333-3333-3333-3333-333333333333";
+const OTHER_PROVIDER = "44444444-4444-4444-4444-444444444444";
+
+// Rows for two patients, as the tables would hold them
+const users = [
+  { id: PATIENT, first_name: "Ama", last_name: "Mensah", role: "patient" },
+  {
+    id: OTHER_PATIENT,
+    first_name: "Kofi",
+    last_name: "Boateng",
+    role: "patient",
+  },
+  { id: PROVIDER, first_name: "Efua", last_name: "Owusu", role: "doctor" },
+  {
+    id: OTHER_PROVIDER,
+    first_name: "Yaw",
+    last_name: "Asante",
+    role: "doctor",
+  },
+];
+const patients = [
+  {
+    user_id: PATIENT,
+    gender: "female",
+    date_of_birth: "1980-04-12",
+    mrn: "TC000001",
+  },
+  {
+    user_id: OTHER_PATIENT,
+    gender: "male",
+    date_of_birth: "1975-09-30",
+    mrn: "TC000002",
+  },
+];
+const labResults = [
+  {
+    id: "lab-1",
+    user_id: PATIENT,
+    test_name: "HbA1c",
+    loinc_code: "4548-4",
+    value: "7.1",
+    unit: "%",
+    status: "final",
+    test_date: "2024-03-01",
+  },
+  {
+    id: "lab-2",
+    user_id: OTHER_PATIENT,
+    test_name: "HbA1c",
+    loinc_code: "4548-4",
+    value: "6.2",
+    unit: "%",
+    status: "final",
+    test_date: "2024-03-02",
+  },
+];
+const vitals = [
+  {
+    id: "vital-1",
+    user_id: PATIENT,
+    type: "heart_rate",
+    value: "72",
+    unit: "bpm",
+    measured_at: "2024-03-01T08:00:00Z",
+  },
+  {
+    id: "vital-2",
+    user_id: OTHER_PATIENT,
+    type: "heart_rate",
+    value: "88",
+    unit: "bpm",
+    measured_at: "2024-03-01T09:00:00Z",
+  },
+];
+const medications = [
+  {
+    id: "med-1",
+    user_id: PATIENT,
+    name: "Metformin",
+    dosage: "500mg",
+    frequency: "twice daily",
+    start_date: "2024-01-01",
+    active: true,
+  },
+  {
+    id: "med-2",
+    user_id: OTHER_PATIENT,
+    name: "Lisinopril",
+    dosage: "10mg",
+    frequency: "daily",
+    start_date: "2024-01-05",
+    active: true,
+  },
+];
+const appointments = [
+  {
+    id: "appt-1",
+    patient_id: PATIENT,
+    provider_id: PROVIDER,
+    date_time: "2024-03-05T10:00:00Z",
+    duration: 30,
+    type: "follow_up",
+    status: "completed",
+  },
+  {
+    id: "appt-2",
+    patient_id: OTHER_PATIENT,
+    provider_id: OTHER_PROVIDER,
+    date_time: "2024-03-06T10:00:00Z",
+    duration: 30,
+    type: "follow_up",
+    status: "completed",
+  },
+];
+
+// Answer the exporter's reads the way the database would
+const mockDatabase = () => {
+  vi.spyOn(db, "getUserById").mockImplementation(async (id: string) =>
+    users.find((user) => user.id === id),
+  );
+  vi.spyOn(db, "getLabResults").mockImplementation(async (userId: string) =>
+    labResults.filter((row) => row.user_id === userId),
+  );
+  vi.spyOn(db, "getVitalSigns").mockImplementation(async (userId: string) =>
+    vitals.filter((row) => row.user_id === userId),
+  );
+  vi.spyOn(db, "getMedications").mockImplementation(async (userId: string) =>
+    medications.filter((row) => row.user_id === userId),
+  );
+  vi.spyOn(db, "query").mockImplementation(
+    async (sql: string, params: any[] = []) => {
+      if (sql.includes("FROM patients")) {
+        return patients.filter((row) => row.user_id === params[0]);
+      }
+      if (sql.includes("FROM appointments")) {
+        return appointments.filter((row) => row.patient_id === params[0]);
+      }
+      if (sql.includes("FROM users")) {
+        return users.filter((user) => params[0].includes(user.id));
+      }
+      return [];
+    },
+  );
+};
+
+describe("FHIRIntegrationService.exportHealthDataAsFHIR", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("should build a bundle of the patient's own records", async () => {
+    mockDatabase();
+
+    const result = await FHIRIntegrationService.exportHealthDataAsFHIR(
+      PATIENT,
+      ["observations", "vitals", "medications", "encounters"],
+    );
+
+    const resources = result!.bundle.entry.map((entry: any) => entry.resource);
+    expect(result!.bundle).toMatchObject({
+      resourceType: "Bundle",
+      type: "collection",
+    });
+    expect(result!.resourceCount).toBe(6);
+    expect(resources.map((resource: any) => resource.resourceType)).toEqual([
+      "Patient",
+      "Observation",
+      "Observation",
+      "MedicationStatement",
+      "Practitioner",
+      "Encounter",
+    ]);
+    expect(resources[0]).toMatchObject({ id: PATIENT, gender: "female" });
+    expect(resources.map((resource: any) => resource.id)).toEqual([
+      PATIENT,
+      "lab-1",
+      "vital-1",
+      "med-1",
+      PROVIDER,
+      "appt-1",
+    ]);
+  });
+
+  it("should only reference resources inside the bundle", async () => {
+    mockDatabase();
+
+    const result = await FHIRIntegrationService.exportHealthDataAsFHIR(
+      PATIENT,
+      ["observations", "vitals", "medications", "encounters"],
+    );
+
+    const included = new Set(
+      result!.bundle.entry.map(
+        ({ resource }: any) => `${resource.resourceType}/${resource.id}`,
+      ),
+    );
+    const references = JSON.stringify(result!.bundle)
+      .match(/"reference":"[^"]+"/g)!
+      .map((match) => match.slice('"reference":"'.length, -1));
+
+    expect(references).toContain(`Patient/${PATIENT}`);
+    expect(references).toContain(`Practitioner/${PROVIDER}`);
+    for (const reference of references) {
+      expect(included.has(reference)).toBe(true);
+    }
+    // Nothing of the other patient's leaks into the export
+    const text = JSON.stringify(result!.bundle);
+    for (const id of [
+      OTHER_PATIENT,
+      OTHER_PROVIDER,
+      "lab-2",
+      "vital-2",
+      "med-2",
+      "appt-2",
+    ]) {
+      expect(text).not.toContain(id);
+    }
+  });
+
+  it("should map each appointment status to an encounter status", async () => {
+    mockDatabase();
+    const statuses: Record<string, string> = {
+      scheduled: "planned",
+      checked_in: "arrived",
+      in_progress: "in-progress",
+      completed: "finished",
+      no_show: "cancelled",
+    };
+    const answer = vi.mocked(db.query).getMockImplementation()!;
+    vi.mocked(db.query).mockImplementation(async (sql: string, params) =>
+      sql.includes("FROM appointments")
+        ? Object.keys(statuses).map((status) => ({
+            ...appointments[0],
+            id: `appt-${status}`,
+            status,
+          }))
+        : answer(sql, params),
+    );
+
+    const result = await FHIRIntegrationService.exportHealthDataAsFHIR(
+      PATIENT,
+      ["encounters"],
+    );
+
+    const encounters = result!.bundle.entry
+      .map((entry: any) => entry.resource)
+      .filter((resource: any) => resource.resourceType === "Encounter");
+    expect(encounters.map((encounter: any) => encounter.status)).toEqual(
+      Object.values(statuses),
+    );
+  });
+
+  it("should return null for an unknown user", async () => {
+    mockDatabase();
+
+    expect(
+      await FHIRIntegrationService.exportHealthDataAsFHIR("unknown", []),
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,152 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { FHIRIntegrationService } from "../../server/utils/fhirIntegration";
+import { db } from "../../server/utils/databaseAdapter";
+
+const patient = (identifier: any[]) => ({
+  resourceType: "Patient",
+  identifier,
+  name: [{ family: "Mensah", given: ["Ama"] }],
+  telecom: [{ system: "email", value: "ama@example.com" }],
+  gender: "female",
+  birthDate: "1980-04-12",
+});
+
+const bundle = (resource: any) => ({
+  resourceType: "Bundle",
+  type: "transaction",
+  entry: [{ fullUrl: "urn:uuid:patient-1", resource }],
+});
+
+// Answers the importer's queries from a fixed set of rows
+const mockDatabase = (rows: {
+  patientsByMrn?: any[];
+  patientUsersByEmail?: any[];
+}) => {
+  const query = vi
+    .spyOn(db, "query")
+    .mockImplementation(async (sql: string) => {
+      if (sql.includes("FROM patients WHERE mrn")) {
+        return rows.patientsByMrn || [];
+      }
+      if (sql.includes("FROM users WHERE LOWER(email)")) {
+        return rows.patientUsersByEmail || [];
+      }
+      if (sql.includes("INSERT INTO users")) return [{ id: "new-user" }];
+      return [];
+    });
+  // Writes go through a transaction on the same mocked queries
+  vi.spyOn(db, "transaction").mockImplementation(async (work: any) =>
+    work((sql: string, params?: any[]) => db.query(sql, params)),
+  );
+  return query;
+};
+
+describe("FHIRIntegrationService.importFHIRBundle patient matching", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("should match only our MRN system and keep other identifiers apart", async () => {
+    const query = mockDatabase({});
+
+    const result = await FHIRIntegrationService.importFHIRBundle(
+      bundle(
+        patient([
+          { system: "https://other-clinic.example/mrn", value: "MRN000042" },
+        ]),
+      ),
+    );
+
+    expect(result.entries[0].response.status).toBe("201 Created");
+    expect(
+      query.mock.calls.some(([sql]) => sql.includes("FROM patients WHERE mrn")),
+    ).toBe(false);
+    const insert = query.mock.calls.find(([sql]) =>
+      sql.includes("INSERT INTO patients"),
+    )!;
+    expect(insert[1]![8]).not.toBe("MRN000042");
+    expect(JSON.parse(insert[1]![9])).toEqual([
+      { system: "https://other-clinic.example/mrn", value: "MRN000042" },
+    ]);
+  });
+
+  it("should report an email-only match as a possible duplicate", async () => {
+    const query = mockDatabase({ patientUsersByEmail: [{ id: "user-7" }] });
+
+    const result = await FHIRIntegrationService.importFHIRBundle(
+      bundle(patient([])),
+    );
+
+    expect(result.entries[0].response.status).toBe("409 Conflict");
+    expect(result.entries[0].response.outcome.issue).toContainEqual(
+      expect.objectContaining({ code: "duplicate" }),
+    );
+    expect(
+      query.mock.calls.some(([sql]) => /UPDATE users|INSERT/.test(sql)),
+    ).toBe(false);
+    const lookup = query.mock.calls.find(([sql]) =>
+      sql.includes("FROM users WHERE LOWER(email)"),
+    )!;
+    expect(lookup[0]).toContain("role = 'patient'");
+  });
+
+  it("should reject a partial birth date before writing anything", async () => {
+    const query = mockDatabase({});
+
+    const result = await FHIRIntegrationService.importFHIRBundle(
+      bundle({ ...patient([]), birthDate: "1980-04" }),
+    );
+
+    expect(result.entries[0].response.status).toBe("422 Unprocessable Entity");
+    expect(result.entries[0].response.outcome.issue).toContainEqual(
+      expect.objectContaining({ expression: ["Patient.birthDate"] }),
+    );
+    expect(query.mock.calls.some(([sql]) => /UPDATE|INSERT/.test(sql))).toBe(
+      false,
+    );
+    expect(db.transaction).not.toHaveBeenCalled();
+  });
+
+  it("should update the record our MRN identifies", async () => {
+    const query = mockDatabase({
+      patientsByMrn: [{ id: "patient-1", user_id: "user-1" }],
+    });
+
+    const result = await FHIRIntegrationService.importFHIRBundle(
+      bundle(
+        patient([
+          { system: FHIRIntegrationService.MRN_SYSTEM, value: "TC123456" },
+        ]),
+      ),
+    );
+
+    expect(result.entries[0].response.status).toBe("200 OK");
+    expect(
+      query.mock.calls.some(([sql]) => sql.includes("UPDATE users SET")),
+    ).toBe(true);
+  });
+
+  it("should refuse entries for patients the caller may not access", async () => {
+    const query = mockDatabase({
+      patientsByMrn: [{ id: "patient-1", user_id: "user-1" }],
+    });
+    const authorize = vi.fn(
+      async (patientId: string) => patientId !== "user-1",
+    );
+
+    const result = await FHIRIntegrationService.importFHIRBundle(
+      bundle(
+        patient([
+          { system: FHIRIntegrationService.MRN_SYSTEM, value: "TC123456" },
+        ]),
+      ),
+      authorize,
+    );
+
+    expect(authorize).toHaveBeenCalledWith("user-1");
+    expect(result.entries[0].response.status).toBe("403 Forbidden");
+    expect(query.mock.calls.some(([sql]) => /UPDATE|INSERT/.test(sql))).toBe(
+      false,
+    );
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, it, expect } from "vitest";
+import {
+  FHIRSearchService,
+  FHIRSearchError,
+} from "../../server/utils/fhirSearch";
+
+describe("FHIRSearchService.parseDateParam", () => {
+  it("should default to eq and expand a day to a 24h range", () => {
+    const { prefix, low, high } =
+      FHIRSearchService.parseDateParam("2026-01-01");
+
+    expect(prefix).toBe("eq");
+    expect(low.toISOString()).toBe("2026-01-01T00:00:00.000Z");
+    expect(high.toISOString()).toBe("2026-01-02T00:00:00.000Z");
+  });
+
+  it("should read the comparison prefix", () => {
+    const { prefix, low } = FHIRSearchService.parseDateParam("ge2026-01-01");
+
+    expect(prefix).toBe("ge");
+    expect(low.toISOString()).toBe("2026-01-01T00:00:00.000Z");
+  });
+
+  it("should use month and year precision", () => {
+    const month = FHIRSearchService.parseDateParam("lt2026-12");
+    const year = FHIRSearchService.parseDateParam("2025");
+
+    expect(month.high.toISOString()).toBe("2027-01-01T00:00:00.000Z");
+    expect(year.low.toISOString()).toBe("2025-01-01T00:00:00.000Z");
+    expect(year.high.toISOString()).toBe("2026-01-01T00:00:00.000Z");
+  });
+
+  it("should reject malformed dates", () => {
+    expect(() => FHIRSearchService.parseDateParam("ge01/02/2026")).toThrow(
+      FHIRSearchError,
+    );
+  });
+});
+
+describe("FHIRSearchService.parseToken", () => {
+  it("should split system and code", () => {
+    expect(FHIRSearchService.parseToken("http://loinc.org|4548-4")).toEqual({
+      system: "http://loinc.org",
+      code: "4548-4",
+    });
+    expect(FHIRSearchService.parseToken("MRN001")).toEqual({ code: "MRN001" });
+    expect(FHIRSearchService.parseToken("|MRN001")).toEqual({
+      system: undefined,
+      code: "MRN001",
+    });
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, it, expect } from "vitest";
+import { FHIRValidator } from "../../server/utils/fhirValidation";
+
+describe("FHIRValidator", () => {
+  it("should accept a well-formed Patient", () => {
+    const issues = FHIRValidator.validate({
+      resourceType: "Patient",
+      identifier: [{ value: "MRN123" }],
+      name: [{ family: "Mensah", given: ["Ama"] }],
+      gender: "female",
+      birthDate: "1980-04-12",
+    });
+
+    expect(FHIRValidator.hasErrors(issues)).toBe(false);
+  });
+
+  it("should reject an invalid gender and birthDate", () => {
+    const issues = FHIRValidator.validate({
+      resourceType: "Patient",
+      name: [{ family: "Mensah" }],
+      gender: "F",
+      birthDate: "12/04/1980",
+    });
+
+    expect(issues.map((issue) => issue.expression?.[0])).toEqual(
+      expect.arrayContaining(["Patient.gender", "Patient.birthDate"]),
+    );
+  });
+
+  it("should require status, code and subject on Observations", () => {
+    const issues = FHIRValidator.validate({
+      resourceType: "Observation",
+      valueQuantity: { value: 98, unit: "mg/dL" },
+    });
+
+    expect(
+      issues.filter((issue) => issue.severity === "error").map((i) => i.code),
+    ).toEqual(["required", "required", "required"]);
+  });
+
+  it("should accept blood pressure panels with components", () => {
+    const issues = FHIRValidator.validate({
+      resourceType: "Observation",
+      status: "final",
+      code: { coding: [{ system: "http://loinc.org", code: "85354-9" }] },
+      subject: { reference: "Patient/1" },
+      effectiveDateTime: "2026-01-05T09:30:00Z",
+      component: [
+        {
+          code: { coding: [{ system: "http://loinc.org", code: "8480-6" }] },
+          valueQuantity: { value: 132, unit: "mm[Hg]" },
+        },
+      ],
+    });
+
+    expect(FHIRValidator.hasErrors(issues)).toBe(false);
+  });
+
+  it("should enforce the Condition entered-in-error invariant", () => {
+    const issues = FHIRValidator.validate({
+      resourceType: "Condition",
+      subject: { reference: "Patient/1" },
+      code: { text: "Type 2 diabetes" },
+      clinicalStatus: { coding: [{ code: "active" }] },
+      verificationStatus: { coding: [{ code: "entered-in-error" }] },
+    });
+
+    expect(issues.some((issue) => issue.code === "invariant")).toBe(true);
+  });
+
+  it("should flag unsupported resource types", () => {
+    const issues = FHIRValidator.validate({ resourceType: "Encounter" });
+
+    expect(issues[0].code).toBe("not-supported");
+  });
+});
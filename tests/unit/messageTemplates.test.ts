@@ -0,0 +1,114 @@
+import { describe, it, expect } from "vitest";
+import {
+  MESSAGE_TEMPLATES,
+  MessageTemplates,
+  TemplateTranslation,
+} from "../../server/utils/messageTemplates";
+
+const translations: TemplateTranslation[] = [
+  {
+    templateId: "medication_reminder",
+    channel: "sms",
+    locale: "fr",
+    content: "💊 Rappel : prenez votre {medicationName} ({dosage}).",
+  },
+  {
+    templateId: "medication_reminder",
+    channel: "sms",
+    locale: "fr-CI",
+    content: "💊 Rappel : c'est l'heure de votre {medicationName}.",
+  },
+  {
+    templateId: "medication_reminder",
+    channel: "voice",
+    locale: "tw",
+    content: "Ɛyɛ bere a ɛsɛ sɛ wonom {medicationName}.",
+  },
+];
+
+describe("MessageTemplates", () => {
+  it("should fall back from a region to its language to English", () => {
+    expect(MessageTemplates.fallbackChain("fr_ci")).toEqual([
+      "fr-CI",
+      "fr",
+      "en",
+    ]);
+    expect(MessageTemplates.fallbackChain("de")).toEqual(["en"]);
+
+    const resolve = (locale: string, channel: "sms" | "voice" = "sms") =>
+      MessageTemplates.resolve(
+        "medication_reminder",
+        channel,
+        locale,
+        translations,
+      )?.locale;
+    expect(resolve("fr-CI")).toBe("fr-CI");
+    expect(resolve("fr-SN")).toBe("fr");
+    expect(resolve("ha")).toBe("en");
+    // A translation covers only its own channel
+    expect(resolve("tw")).toBe("en");
+    expect(resolve("tw", "voice")).toBe("tw");
+
+    expect(
+      MessageTemplates.resolve("scheduled_glucose_check", "voice", "en", []),
+    ).toBeNull();
+  });
+
+  it("should fill placeholders and reject ones the template does not take", () => {
+    expect(
+      MessageTemplates.fill(translations[0].content, {
+        medicationName: "Metformin",
+        dosage: "500mg",
+      }),
+    ).toBe("💊 Rappel : prenez votre Metformin (500mg).");
+    expect(MessageTemplates.fill("{time} {provider}", { time: "9:00" })).toBe(
+      "9:00 {provider}",
+    );
+
+    expect(
+      MessageTemplates.validateContent(
+        "medication_reminder",
+        translations[0].content,
+      ),
+    ).toBeNull();
+    expect(
+      MessageTemplates.validateContent(
+        "medication_reminder",
+        "Prenez {medication}",
+      ),
+    ).toBe(
+      "Unknown placeholder {medication}; medication_reminder takes {medicationName}, {dosage}",
+    );
+    expect(MessageTemplates.validateContent("medication_reminder", " ")).toBe(
+      "content is required",
+    );
+  });
+
+  it("should report the texts each language is missing", () => {
+    const report = MessageTemplates.missingTranslations(translations);
+    const total = Object.values(MESSAGE_TEMPLATES).reduce(
+      (sum, definition) => sum + Object.keys(definition.channels).length,
+      0,
+    );
+
+    expect(report.map((entry) => entry.locale)).toEqual([
+      "tw",
+      "ha",
+      "sw",
+      "fr",
+      "ar",
+      "es",
+    ]);
+    const french = report.find((entry) => entry.locale === "fr")!;
+    expect(french).toMatchObject({ language: "French", translated: 1, total });
+    expect(french.missing).not.toContainEqual({
+      templateId: "medication_reminder",
+      channel: "sms",
+    });
+    expect(french.missing).toContainEqual({
+      templateId: "medication_reminder",
+      channel: "voice",
+    });
+    expect(report.find((entry) => entry.locale === "ha")!.translated).toBe(0);
+  });
+});
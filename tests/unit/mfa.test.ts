@@ -0,0 +1,66 @@
+import { describe, it, expect } from "vitest";
+import { MfaService } from "../../server/utils/mfa";
+
+// RFC 6238 appendix B test secret ("12345678901234567890")
+const RFC_SECRET = "GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ";
+
+describe("MfaService", () => {
+  it("should generate the RFC 6238 SHA-1 test vectors", () => {
+    expect(MfaService.generateTotp(RFC_SECRET, 59_000, 8)).toBe("94287082");
+    expect(MfaService.generateTotp(RFC_SECRET, 1_111_111_109_000, 8)).toBe(
+      "07081804",
+    );
+    expect(MfaService.generateTotp(RFC_SECRET, 1_234_567_890_000)).toBe(
+      "005924",
+    );
+  });
+
+  it("should accept codes from adjacent time steps only", () => {
+    const now = 1_700_000_000_000;
+    const previous = MfaService.generateTotp(RFC_SECRET, now - 30_000);
+    const stale = MfaService.generateTotp(RFC_SECRET, now - 90_000);
+
+    expect(MfaService.verifyTotp(RFC_SECRET, previous, now)).toBe(
+      Math.floor(now / 30_000) - 1,
+    );
+    expect(MfaService.verifyTotp(RFC_SECRET, stale, now)).toBeNull();
+    expect(MfaService.verifyTotp(RFC_SECRET, "12345", now)).toBeNull();
+  });
+
+  it("should round-trip base32 secrets", () => {
+    const bytes = Buffer.from("12345678901234567890");
+
+    expect(MfaService.base32Encode(bytes)).toBe(RFC_SECRET);
+    expect(MfaService.base32Decode(RFC_SECRET.toLowerCase())).toEqual(bytes);
+  });
+
+  it("should encrypt stored secrets", () => {
+    const stored = MfaService.encryptSecret(RFC_SECRET);
+
+    expect(stored).not.toContain(RFC_SECRET);
+    expect(MfaService.decryptSecret(stored)).toBe(RFC_SECRET);
+  });
+
+  it("should normalize recovery codes as typed by users", () => {
+    const code = MfaService.generateRecoveryCode();
+
+    expect(code).toMatch(/^[a-z2-9]{4}-[a-z2-9]{4}$/);
+    expect(
+      MfaService.normalizeRecoveryCode(code.toUpperCase().replace("-", " ")),
+    ).toBe(code);
+  });
+
+  it("should build an otpauth provisioning URL", () => {
+    const url = new URL(
+      MfaService.buildOtpAuthUrl(RFC_SECRET, "dr.boateng@example.com"),
+    );
+
+    expect(url.protocol).toBe("otpauth:");
+    expect(url.host).toBe("totp");
+    expect(decodeURIComponent(url.pathname)).toBe(
+      "/Telecheck:dr.boateng@example.com",
+    );
+    expect(url.searchParams.get("secret")).toBe(RFC_SECRET);
+    expect(url.searchParams.get("issuer")).toBe("Telecheck");
+  });
+});
@@ -0,0 +1,170 @@
+import { describe, it, expect } from "vitest";
+import {
+  RpmBillingService,
+  RpmEnrollment,
+  RpmTimeEntry,
+  TransmissionDay,
+} from "../../server/utils/rpmBilling";
+import { SchedulingService } from "../../server/utils/scheduling";
+
+const enrollment: RpmEnrollment = {
+  id: "enrollment-1",
+  patientId: "patient-1",
+  patientName: "Jane Doe",
+  providerId: "doctor-1",
+  providerName: "Sam Lee",
+  startDate: "2024-05-01",
+  setupCompletedAt: "2024-05-01T15:00:00.000Z",
+  timeZone: "America/New_York",
+  status: "active",
+  createdBy: "nurse-1",
+  createdAt: "2024-05-01T15:00:00.000Z",
+};
+
+// One day with readings every `every` days from a date
+const transmissions = (from: string, count: number, every = 1) =>
+  Array.from(
+    { length: count },
+    (_, i): TransmissionDay => ({
+      date: SchedulingService.addDays(from, i * every),
+      readings: 2,
+      devices: ["cuff-1"],
+    }),
+  );
+
+const entry = (
+  performedAt: string,
+  minutes: number,
+  interactive = false,
+): RpmTimeEntry => ({
+  id: performedAt,
+  enrollmentId: enrollment.id,
+  patientId: enrollment.patientId,
+  clinicianId: "nurse-1",
+  clinicianName: "Pat Kim",
+  performedAt,
+  minutes,
+  activity: interactive ? "patient_communication" : "data_review",
+  interactive,
+  createdAt: performedAt,
+});
+
+const summarize = (lines: ReturnType<typeof RpmBillingService.assess>) =>
+  lines.map((line) => [line.code, line.units, line.status, line.reason]);
+
+describe("RpmBillingService", () => {
+  it("should bill setup with the first period of 16 transmission days", () => {
+    const days = [
+      ...transmissions("2024-05-01", 18),
+      // Second period (May 31 to June 29): only ten days
+      ...transmissions("2024-05-31", 10, 2),
+    ];
+
+    const may = RpmBillingService.assess(
+      enrollment,
+      "2024-05",
+      days,
+      [
+        entry("2024-05-06T14:00:00.000Z", 25, true),
+        entry("2024-05-20T14:00:00.000Z", 20),
+      ],
+      "2024-07-01",
+    );
+    expect(summarize(may)).toEqual([
+      ["99454", 1, "eligible", undefined],
+      ["99453", 1, "eligible", undefined],
+      ["99457", 1, "eligible", undefined],
+      ["99458", 1, "eligible", undefined],
+    ]);
+    expect(may[0].period).toEqual({ start: "2024-05-01", end: "2024-05-30" });
+    expect(may[0].evidence).toMatchObject({
+      transmissionDays: 18,
+      readings: 36,
+      devices: ["cuff-1"],
+    });
+    expect(may[3].evidence).toEqual({ minutes: 45, additionalMinutes: 25 });
+
+    // Setup was billed in May; June's period falls short
+    const june = RpmBillingService.assess(
+      enrollment,
+      "2024-06",
+      days,
+      [entry("2024-06-03T14:00:00.000Z", 30)],
+      "2024-07-01",
+    );
+    expect(summarize(june)).toEqual([
+      ["99454", 0, "not_eligible", "10 of 16 transmission days"],
+      [
+        "99457",
+        0,
+        "not_eligible",
+        "No interactive communication with the patient",
+      ],
+    ]);
+  });
+
+  it("should hold back periods and months that have not ended", () => {
+    const lines = RpmBillingService.assess(
+      { ...enrollment, setupCompletedAt: undefined },
+      "2024-05",
+      transmissions("2024-05-01", 17),
+      [entry("2024-05-06T14:00:00.000Z", 12, true)],
+      "2024-05-20",
+    );
+
+    expect(summarize(lines)).toEqual([
+      [
+        "99454",
+        1,
+        "pending",
+        "Period ends 2024-05-30; 17 transmission days so far",
+      ],
+      [
+        "99453",
+        0,
+        "not_eligible",
+        "Device setup and patient education not recorded",
+      ],
+      ["99457", 0, "pending", "12 of 20 minutes logged"],
+    ]);
+  });
+
+  it("should end the last period with the enrollment", () => {
+    const ended = { ...enrollment, status: "ended" as const };
+    const lines = RpmBillingService.assess(
+      { ...ended, endDate: "2024-06-20" },
+      "2024-06",
+      transmissions("2024-05-31", 16),
+      [],
+      "2024-07-01",
+    );
+
+    expect(lines[0].period).toEqual({ start: "2024-05-31", end: "2024-06-20" });
+    // May had no readings, so this is also the first qualifying period
+    expect(summarize(lines)).toEqual([
+      ["99454", 1, "eligible", undefined],
+      ["99453", 1, "eligible", undefined],
+      ["99457", 0, "not_eligible", "0 of 20 minutes logged"],
+    ]);
+
+    const csv = RpmBillingService.toCSV({
+      month: "2024-06",
+      generatedAt: "2024-07-01T00:00:00.000Z",
+      lines,
+      summary: {
+        patients: 1,
+        byCode: {
+          "99453": { lines: 0, units: 0 },
+          "99454": { lines: 1, units: 1 },
+          "99457": { lines: 0, units: 0 },
+          "99458": { lines: 0, units: 0 },
+        },
+        pending: 0,
+        notEligible: 1,
+      },
+    }).split("\r\n");
+    expect(csv[1]).toBe(
+      'patient-1,Jane Doe,Sam Lee,99454,1,2024-06-20,2024-05-31,2024-06-20,eligible,,"16 transmission days, 32 readings from 1 device(s)"',
+    );
+  });
+});
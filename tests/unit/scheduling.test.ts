@@ -0,0 +1,219 @@
+import { describe, it, expect } from "vitest";
+import {
+  SchedulingService,
+  Appointment,
+  MAX_PATIENT_RESCHEDULES,
+} from "../../server/utils/scheduling";
+
+const at = (iso: string) => new Date(iso);
+const isoSlots = (slots: { start: Date }[]) =>
+  slots.map((slot) => slot.start.toISOString());
+
+describe("SchedulingService", () => {
+  it("should convert wall-clock times across daylight saving changes", () => {
+    expect(
+      SchedulingService.zonedTimeToUtc(
+        "2024-03-04",
+        "09:00",
+        "America/New_York",
+      ).toISOString(),
+    ).toBe("2024-03-04T14:00:00.000Z");
+    expect(
+      SchedulingService.zonedTimeToUtc(
+        "2024-03-11",
+        "09:00",
+        "America/New_York",
+      ).toISOString(),
+    ).toBe("2024-03-11T13:00:00.000Z");
+    expect(
+      SchedulingService.zonedTimeToUtc(
+        "2024-03-11",
+        "09:00",
+        "Africa/Accra",
+      ).toISOString(),
+    ).toBe("2024-03-11T09:00:00.000Z");
+  });
+
+  it("should expand weekly templates on the provider's calendar", () => {
+    const intervals = SchedulingService.expandAvailability(
+      [
+        {
+          dayOfWeek: 1,
+          startTime: "09:00",
+          endTime: "12:00",
+          timeZone: "America/New_York",
+        },
+      ],
+      at("2024-03-03T00:00:00Z"),
+      at("2024-03-13T00:00:00Z"),
+    );
+
+    expect(intervals.map((i) => i.start.toISOString())).toEqual([
+      "2024-03-04T14:00:00.000Z",
+      "2024-03-11T13:00:00.000Z",
+    ]);
+    expect(intervals[1].end.toISOString()).toBe("2024-03-11T16:00:00.000Z");
+  });
+
+  it("should respect effective dates", () => {
+    const intervals = SchedulingService.expandAvailability(
+      [
+        {
+          dayOfWeek: 1,
+          startTime: "09:00",
+          endTime: "12:00",
+          timeZone: "UTC",
+          effectiveFrom: "2024-03-05",
+        },
+      ],
+      at("2024-03-01T00:00:00Z"),
+      at("2024-03-20T00:00:00Z"),
+    );
+
+    expect(intervals.map((i) => i.start.toISOString())).toEqual([
+      "2024-03-11T09:00:00.000Z",
+      "2024-03-18T09:00:00.000Z",
+    ]);
+  });
+
+  it("should skip slots that overlap busy time including buffers", () => {
+    const slots = SchedulingService.generateSlots({
+      availability: [
+        { start: at("2024-06-03T09:00:00Z"), end: at("2024-06-03T11:00:00Z") },
+      ],
+      busy: [
+        { start: at("2024-06-03T10:00:00Z"), end: at("2024-06-03T10:30:00Z") },
+      ],
+      durationMinutes: 30,
+      bufferAfterMinutes: 5,
+    });
+
+    expect(isoSlots(slots)).toEqual([
+      "2024-06-03T09:00:00.000Z",
+      "2024-06-03T09:15:00.000Z",
+      "2024-06-03T10:30:00.000Z",
+    ]);
+  });
+
+  it("should not offer slots before the given time", () => {
+    const slots = SchedulingService.generateSlots({
+      availability: [
+        { start: at("2024-06-03T09:00:00Z"), end: at("2024-06-03T10:00:00Z") },
+      ],
+      busy: [],
+      durationMinutes: 15,
+      notBefore: at("2024-06-03T09:20:00Z"),
+    });
+
+    expect(isoSlots(slots)).toEqual([
+      "2024-06-03T09:30:00.000Z",
+      "2024-06-03T09:45:00.000Z",
+    ]);
+  });
+
+  it("should validate availability windows", () => {
+    expect(
+      SchedulingService.validateWindows([
+        { dayOfWeek: 1, startTime: "09:00", endTime: "17:00" },
+      ]),
+    ).toBeNull();
+    expect(
+      SchedulingService.validateWindows([
+        { dayOfWeek: 7, startTime: "09:00", endTime: "17:00" },
+      ]),
+    ).toMatch(/dayOfWeek/);
+    expect(
+      SchedulingService.validateWindows([
+        { dayOfWeek: 1, startTime: "17:00", endTime: "09:00" },
+      ]),
+    ).toMatch(/before/);
+    expect(SchedulingService.isValidTimeZone("Africa/Lagos")).toBe(true);
+    expect(SchedulingService.isValidTimeZone("Mars/Olympus")).toBe(false);
+  });
+
+  it("should only allow forward status transitions", () => {
+    expect(SchedulingService.canTransition("scheduled", "confirmed")).toBe(
+      true,
+    );
+    expect(SchedulingService.canTransition("checked_in", "in_progress")).toBe(
+      true,
+    );
+    expect(SchedulingService.canTransition("in_progress", "cancelled")).toBe(
+      false,
+    );
+    expect(SchedulingService.canTransition("completed", "no_show")).toBe(false);
+    expect(SchedulingService.canTransition("cancelled", "scheduled")).toBe(
+      false,
+    );
+    expect(SchedulingService.canReschedule("confirmed")).toBe(true);
+    expect(SchedulingService.canReschedule("checked_in")).toBe(false);
+  });
+
+  it("should hold patient changes to the notice period and reschedule limit", () => {
+    const now = at("2024-06-03T09:00:00Z");
+    const appointment = (start: string, rescheduleCount = 0) =>
+      ({ start, rescheduleCount }) as Appointment;
+
+    expect(
+      SchedulingService.patientChangeBlocked(
+        appointment("2024-06-05T09:00:00Z"),
+        "cancel",
+        now,
+      ),
+    ).toBeNull();
+    expect(
+      SchedulingService.patientChangeBlocked(
+        appointment("2024-06-03T20:00:00Z"),
+        "cancel",
+        now,
+      ),
+    ).toBe("notice_period");
+    expect(
+      SchedulingService.patientChangeBlocked(
+        appointment("2024-06-05T09:00:00Z", MAX_PATIENT_RESCHEDULES),
+        "reschedule",
+        now,
+      ),
+    ).toBe("reschedule_limit");
+    expect(
+      SchedulingService.patientChangeBlocked(
+        appointment("2024-06-05T09:00:00Z", MAX_PATIENT_RESCHEDULES),
+        "cancel",
+        now,
+      ),
+    ).toBeNull();
+  });
+
+  it("should let only the provider or a scheduler override the duration", () => {
+    expect(
+      SchedulingService.mayOverrideDuration(
+        { id: "provider-1", role: "doctor" },
+        "provider-1",
+      ),
+    ).toBe(true);
+    expect(
+      SchedulingService.mayOverrideDuration(
+        { id: "admin-1", role: "admin" },
+        "provider-1",
+      ),
+    ).toBe(true);
+    expect(
+      SchedulingService.mayOverrideDuration(
+        { id: "patient-1", role: "patient" },
+        "provider-1",
+      ),
+    ).toBe(false);
+    expect(
+      SchedulingService.mayOverrideDuration(
+        { id: "provider-2", role: "doctor" },
+        "provider-1",
+      ),
+    ).toBe(false);
+  });
+
+  it("should compute no-show rates over attended and missed visits", () => {
+    expect(SchedulingService.noShowRate(1, 3)).toBe(0.25);
+    expect(SchedulingService.noShowRate(2, 7)).toBe(0.222);
+    expect(SchedulingService.noShowRate(0, 0)).toBeNull();
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { SessionService } from "../../server/utils/sessions";
+
+describe("SessionService", () => {
+  afterEach(() => {
+    delete process.env.SESSION_IDLE_TIMEOUTS;
+  });
+
+  it("should use shorter idle timeouts for clinical roles", () => {
+    expect(SessionService.idleTimeoutMinutes("doctor")).toBe(15);
+    expect(SessionService.idleTimeoutMinutes("patient")).toBe(60);
+    expect(SessionService.idleTimeoutMinutes("unknown")).toBe(30);
+  });
+
+  it("should read idle timeout overrides from the environment", () => {
+    process.env.SESSION_IDLE_TIMEOUTS = "doctor=5, patient = 120,nurse=abc";
+
+    expect(SessionService.idleTimeoutMinutes("doctor")).toBe(5);
+    expect(SessionService.idleTimeoutMinutes("patient")).toBe(120);
+    expect(SessionService.idleTimeoutMinutes("nurse")).toBe(15);
+  });
+
+  it("should detect idle sessions by role", () => {
+    const now = new Date("2024-06-01T12:00:00Z");
+    const twentyMinutesAgo = new Date("2024-06-01T11:40:00Z");
+
+    expect(SessionService.isIdle(twentyMinutesAgo, "doctor", now)).toBe(true);
+    expect(SessionService.isIdle(twentyMinutesAgo, "patient", now)).toBe(false);
+  });
+
+  it("should describe devices from their user agent", () => {
+    expect(
+      SessionService.describeUserAgent(
+        "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0 Safari/537.36",
+      ),
+    ).toBe("Chrome on Windows");
+    expect(
+      SessionService.describeUserAgent(
+        "Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.0 Mobile/15E148 Safari/604.1",
+      ),
+    ).toBe("Safari on iOS");
+    expect(SessionService.describeUserAgent("okhttp/4.12.0")).toBe(
+      "Android app",
+    );
+    expect(SessionService.describeUserAgent(undefined)).toBe("Unknown device");
+  });
+
+  it("should flag the current session when mapping rows", () => {
+    const row = {
+      id: "a3c1",
+      user_agent: null,
+      ip_address: "203.0.113.7",
+      created_at: "2024-06-01T10:00:00Z",
+      last_active_at: "2024-06-01T11:00:00Z",
+      expires_at: "2024-07-01T10:00:00Z",
+    };
+
+    expect(SessionService.fromRow(row, "a3c1")).toMatchObject({
+      device: "Unknown device",
+      ipAddress: "203.0.113.7",
+      lastActiveAt: "2024-06-01T11:00:00.000Z",
+      current: true,
+    });
+    expect(SessionService.fromRow(row).current).toBe(false);
+  });
+});
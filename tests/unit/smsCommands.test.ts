@@ -0,0 +1,80 @@
+import { describe, it, expect } from "vitest";
+import { SmsCommands } from "../../server/utils/smsCommands";
+import { PhoneDirectory } from "../../server/utils/phoneNumbers";
+
+const parse = (text: string) => {
+  const matched = SmsCommands.match(text);
+  return (
+    matched && {
+      keyword: matched.command.keyword,
+      parsed: matched.command.parse(matched.args),
+    }
+  );
+};
+
+describe("SmsCommands", () => {
+  it("should route keywords, aliases and bare numbers to their commands", () => {
+    expect(parse("BP 132/85")).toEqual({
+      keyword: "BP",
+      parsed: { ok: true, value: { systolic: 132, diastolic: 85 } },
+    });
+    expect(parse("bp 132 / 85 pulse 72")?.parsed).toEqual({
+      ok: true,
+      value: { systolic: 132, diastolic: 85, pulse: 72 },
+    });
+    expect(parse("weight 81,2kg")).toEqual({
+      keyword: "WT",
+      parsed: { ok: true, value: { value: 81.2, unit: "kg" } },
+    });
+    expect(parse("WT 180 lbs")?.parsed).toEqual({
+      ok: true,
+      value: { value: 180, unit: "lb" },
+    });
+    expect(parse("120")).toEqual({
+      keyword: "GLU",
+      parsed: { ok: true, value: 120 },
+    });
+    // mmol/L is converted, and only when the patient says so
+    expect(parse("sugar 6.5 mmol")?.parsed).toEqual({ ok: true, value: 117 });
+    expect(parse("911")?.keyword).toBe("EMERGENCY");
+    expect(parse("quit")?.keyword).toBe("STOP");
+    expect(parse("Unstop")?.keyword).toBe("START");
+    expect(parse("TAKEN metformin")).toEqual({
+      keyword: "TAKEN",
+      parsed: { ok: true, value: "metformin" },
+    });
+    expect(parse("hello there")).toBeNull();
+    expect(parse("")).toBeNull();
+  });
+
+  it("should reject readings that cannot be right", () => {
+    expect(parse("BP 85/132")?.parsed.ok).toBe(false);
+    expect(parse("BP 300/85")?.parsed.ok).toBe(false);
+    expect(parse("BP high")?.parsed.ok).toBe(false);
+    expect(parse("WT 8kg")?.parsed.ok).toBe(false);
+    expect(parse("GLU 900")?.parsed.ok).toBe(false);
+    expect(parse("12abc")?.parsed.ok).toBe(false);
+  });
+
+  it("should match medications by name or first word", () => {
+    const medications = [
+      { id: "1", name: "Metformin 500mg" },
+      { id: "2", name: "Lisinopril" },
+      { id: "3", name: "Metoprolol" },
+    ];
+    const named = (name: string) =>
+      SmsCommands.medicationsNamed(medications, name).map((m) => m.id);
+
+    expect(named("METFORMIN")).toEqual(["1"]);
+    expect(named("lisinopril 10mg")).toEqual(["2"]);
+    expect(named("met")).toEqual(["1", "3"]);
+    expect(named("aspirin")).toEqual([]);
+    expect(named("")).toEqual(["1", "2", "3"]);
+  });
+
+  it("should key phone numbers on their last digits", () => {
+    expect(PhoneDirectory.matchKey("+233 24 412 3456")).toBe("244123456");
+    expect(PhoneDirectory.matchKey("024 412 3456")).toBe("244123456");
+    expect(PhoneDirectory.matchKey("12345")).toBeNull();
+  });
+});
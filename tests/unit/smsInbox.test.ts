@@ -0,0 +1,55 @@
+import { describe, it, expect } from "vitest";
+import {
+  CannedReply,
+  MAX_REPLY_LENGTH,
+  REPLY_SLA_MINUTES,
+  SmsInbox,
+} from "../../server/utils/smsInbox";
+
+describe("SmsInbox", () => {
+  it("should put replies due a fixed time after the oldest unanswered text", () => {
+    const since = new Date("2024-05-02T09:00:00Z");
+    const due = new Date(since.getTime() + REPLY_SLA_MINUTES * 60000);
+
+    expect(SmsInbox.replyDue(since, since)).toEqual({
+      replyDueAt: due,
+      overdue: false,
+    });
+    expect(SmsInbox.replyDue(since, new Date(due.getTime() + 1)).overdue).toBe(
+      true,
+    );
+    expect(SmsInbox.replyDue(null)).toEqual({ overdue: false });
+  });
+
+  it("should check canned replies and fill them for the patient", () => {
+    expect(
+      SmsInbox.validateCannedReply({
+        title: "Readings received",
+        body: "Hi {firstName}, thanks for your readings.",
+        category: "vitals",
+      }),
+    ).toBeNull();
+    expect(SmsInbox.validateCannedReply({ title: " ", body: "Hello" })).toBe(
+      "title is required",
+    );
+    expect(
+      SmsInbox.validateCannedReply({ title: "Hi", body: "Hi {patientName}" }),
+    ).toBe(
+      "Unknown placeholder {patientName}; canned replies take {firstName}, {lastName}",
+    );
+    expect(SmsInbox.validateReply("x".repeat(MAX_REPLY_LENGTH + 1))).toBe(
+      `body must be at most ${MAX_REPLY_LENGTH} characters`,
+    );
+    expect(SmsInbox.validateReply(42)).toBe("body is required");
+
+    const reply = {
+      body: "Hi {firstName} {lastName}, please call us.",
+    } as CannedReply;
+    expect(
+      SmsInbox.fillCannedReply(reply, {
+        patientFirstName: "Ama",
+        patientLastName: "Mensah",
+      }),
+    ).toBe("Hi Ama Mensah, please call us.");
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, it, expect } from "vitest";
+import { TerminologyService } from "../../server/utils/terminology";
+
+describe("TerminologyService.resolveLabTest", () => {
+  it("should resolve names and synonyms to LOINC codes", () => {
+    expect(
+      TerminologyService.resolveLabTest("Hemoglobin A1c").match?.code,
+    ).toBe("4548-4");
+    expect(TerminologyService.resolveLabTest("HbA1c", "%").match?.code).toBe(
+      "4548-4",
+    );
+    expect(
+      TerminologyService.resolveLabTest("Glucose (Fasting)", "mg/dL").match
+        ?.code,
+    ).toBe("1558-6");
+  });
+
+  it("should use the unit to pick between mass and molar glucose", () => {
+    expect(
+      TerminologyService.resolveLabTest("Glucose", "mg/dL").match?.code,
+    ).toBe("2345-7");
+    expect(
+      TerminologyService.resolveLabTest("Glucose", "mmol/L").match?.code,
+    ).toBe("14749-6");
+  });
+
+  it("should flag ambiguous names instead of guessing", () => {
+    const resolution = TerminologyService.resolveLabTest("Glucose");
+
+    expect(resolution.mapped).toBe(false);
+    expect(resolution.candidates.map((c) => c.code)).toEqual(
+      expect.arrayContaining(["2345-7", "14749-6"]),
+    );
+  });
+
+  it("should leave unknown tests unmapped", () => {
+    const resolution = TerminologyService.resolveLabTest(
+      "Lipoprotein(a)",
+      "nmol/L",
+    );
+
+    expect(resolution.mapped).toBe(false);
+    expect(resolution.match).toBeUndefined();
+    expect(resolution.warnings).toHaveLength(1);
+  });
+});
+
+describe("TerminologyService.resolveMedication", () => {
+  it("should map strength and form variants to the ingredient", () => {
+    const resolution = TerminologyService.resolveMedication(
+      "Metformin 500mg tablet",
+    );
+
+    expect(resolution.match?.code).toBe("6809");
+    expect(resolution.match?.matchedOn).toBe("ingredient");
+  });
+
+  it("should resolve brand names", () => {
+    expect(TerminologyService.resolveMedication("Lipitor").match?.code).toBe(
+      "83367",
+    );
+  });
+
+  it("should not default unknown medications to a code", () => {
+    expect(TerminologyService.resolveMedication("Berberine").mapped).toBe(
+      false,
+    );
+  });
+});
+
+describe("TerminologyService.resolveUnit", () => {
+  it("should map common spellings to UCUM", () => {
+    expect(TerminologyService.resolveUnit("mg/dl").code).toBe("mg/dL");
+    expect(TerminologyService.resolveUnit("K/uL").code).toBe("10*3/uL");
+    expect(TerminologyService.resolveUnit("mmHg").code).toBe("mm[Hg]");
+    expect(TerminologyService.resolveUnit("furlongs").mapped).toBe(false);
+  });
+});
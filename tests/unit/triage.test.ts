@@ -0,0 +1,181 @@
+import { describe, it, expect } from "vitest";
+import { TriageService, TriageDefinition } from "../../server/utils/triage";
+import bundledGeneral from "../../server/data/triage/general.json";
+
+const protocol = bundledGeneral as unknown as TriageDefinition;
+
+describe("TriageService", () => {
+  it("should ship a valid default protocol", () => {
+    expect(TriageService.validateDefinition(protocol)).toBeNull();
+  });
+
+  it("should match symptoms on whole words and skip negated ones", () => {
+    const { matched, unrecognized } = TriageService.matchSymptoms(protocol, [
+      "High fever since Tuesday",
+      "no chest pain",
+      "itchy elbows",
+    ]);
+
+    expect(matched.map((symptom) => symptom.code)).toEqual(["fever"]);
+    expect(unrecognized).toEqual(["no chest pain", "itchy elbows"]);
+  });
+
+  it("should end a negation at the clause it is in", () => {
+    const { matched } = TriageService.matchSymptoms(protocol, [
+      "No, chest pain",
+      "no fever; shortness of breath",
+    ]);
+
+    expect(matched.map((symptom) => symptom.code)).toEqual([
+      "chest_pain",
+      "shortness_of_breath",
+    ]);
+  });
+
+  it("should grade the same complaint by answers, vitals and age", () => {
+    const chestPain = TriageService.evaluate(protocol, {
+      symptoms: ["chest pain"],
+    });
+    expect(chestPain.disposition).toBe("urgent");
+    expect(chestPain.pendingQuestions.map((q) => q.id)).toEqual([
+      "chest_pain_radiating",
+      "chest_pain_sweating",
+    ]);
+
+    const radiating = TriageService.evaluate(protocol, {
+      symptoms: ["chest pain"],
+      answers: { chest_pain_radiating: true },
+    });
+    expect(radiating.disposition).toBe("emergency");
+    expect(radiating.redFlags).toEqual([
+      "Chest pain with radiation or associated symptoms",
+    ]);
+
+    // Fever alone is routine; fast heart rate and older age each add a level
+    expect(
+      TriageService.evaluate(protocol, { symptoms: ["fever"] }).disposition,
+    ).toBe("routine");
+    const escalated = TriageService.evaluate(protocol, {
+      symptoms: ["fever"],
+      vitals: { heartRate: 118 },
+      age: 72,
+    });
+    expect(escalated.disposition).toBe("emergency");
+    expect(
+      escalated.rationale.map((entry) => [entry.ruleId, entry.disposition]),
+    ).toEqual([
+      ["default", "routine"],
+      ["vs_raised_heart_rate", "urgent"],
+      ["pop_older_adult_fever", "emergency"],
+    ]);
+    expect(escalated.rationale[1].evidence).toEqual([
+      "heartRate 118 >= 110",
+      "heartRate 118 < 130",
+    ]);
+
+    expect(
+      TriageService.evaluate(protocol, { symptoms: ["sore throat", "cough"] })
+        .disposition,
+    ).toBe("self_care");
+    expect(
+      TriageService.evaluate(protocol, {
+        symptoms: ["stomach ache"],
+        pregnant: true,
+      }).disposition,
+    ).toBe("urgent");
+  });
+
+  it("should reject definitions that reference unknown parts", () => {
+    const withRule = (rule: any) => ({
+      ...protocol,
+      rules: [...protocol.rules, rule],
+    });
+
+    expect(
+      TriageService.validateDefinition(
+        withRule({
+          id: "sx_earache",
+          category: "symptom",
+          description: "Earache",
+          when: { symptom: "earache" },
+          disposition: "routine",
+        }),
+      ),
+    ).toBe("Rule sx_earache: unknown symptom earache");
+    expect(
+      TriageService.validateDefinition(
+        withRule({
+          id: "rf_soft",
+          category: "red_flag",
+          description: "Not really a red flag",
+          when: { symptom: "rash" },
+          disposition: "routine",
+        }),
+      ),
+    ).toBe("Red flag rf_soft can only lead to emergency");
+    expect(
+      TriageService.validateDefinition(
+        withRule({
+          id: "vs_weight",
+          category: "vital",
+          description: "Weight",
+          when: { vital: "weight", gte: 150 },
+          escalate: 1,
+        }),
+      ),
+    ).toBe("Rule vs_weight: unknown vital sign weight");
+  });
+
+  it("should read vitals from requests and stored readings in protocol units", () => {
+    const parsed = TriageService.parseInput({
+      symptoms: ["fever"],
+      vitals: { bloodPressureSystolic: 150, temperature: 102.2, weight: 80 },
+    });
+    expect(parsed.ok).toBe(true);
+    expect(parsed.ok && parsed.input.vitals).toEqual({
+      systolic: 150,
+      temperature: 39,
+    });
+    expect(TriageService.parseInput({ symptoms: "fever" }).ok).toBe(false);
+
+    const now = new Date("2024-06-03T12:00:00Z");
+    expect(
+      TriageService.vitalsFromReadings(
+        [
+          {
+            type: "heart_rate",
+            value: "96.00",
+            unit: "bpm",
+            measured_at: "2024-06-03T11:00:00Z",
+          },
+          {
+            type: "temperature",
+            value: "100.4",
+            unit: "[degF]",
+            measured_at: "2024-06-03T08:00:00Z",
+          },
+          {
+            type: "heart_rate",
+            value: "70.00",
+            unit: "bpm",
+            measured_at: "2024-06-03T07:00:00Z",
+          },
+          {
+            type: "spo2",
+            value: "93",
+            unit: "%",
+            measured_at: "2024-06-02T14:00:00Z",
+          },
+          // Too old to describe the patient now
+          {
+            type: "respiratory_rate",
+            value: "30",
+            unit: "/min",
+            measured_at: "2024-06-01T12:00:00Z",
+          },
+        ],
+        now,
+      ),
+    ).toEqual({ heartRate: 96, temperature: 38, oxygenSaturation: 93 });
+  });
+});
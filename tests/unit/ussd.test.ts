@@ -0,0 +1,184 @@
+import { describe, it, expect } from "vitest";
+import { UssdMenuDefinition, UssdService } from "../../server/utils/ussd";
+import {
+  africasTalkingGateway,
+  hubtelGateway,
+} from "../../server/utils/ussdGateways";
+
+const menu: UssdMenuDefinition = {
+  title: "Diabetes Care",
+  items: [
+    {
+      id: "nurse",
+      option: "1",
+      text: "Talk to a nurse",
+      action: "callback",
+      followUpAction: {
+        type: "nurse_call",
+        delay: 15,
+        message: "A nurse will call you within 15 minutes",
+      },
+      message: "A nurse will call you within 15 minutes.",
+    },
+    {
+      id: "medicine",
+      option: "2",
+      text: "Order medicine",
+      action: "submenu",
+      subItems: [
+        {
+          id: "metformin",
+          option: "1",
+          text: "Metformin 500mg",
+          action: "sms",
+          followUpAction: {
+            type: "prescription",
+            delay: 60,
+            message: "Your Metformin order has been confirmed.",
+          },
+        },
+      ],
+    },
+    {
+      id: "check",
+      option: "3",
+      text: "Health check",
+      action: "questionnaire",
+      questions: [
+        {
+          id: "glucose",
+          text: "Last glucose reading (mg/dL)?",
+          type: "number",
+          min: 20,
+          max: 600,
+        },
+        {
+          id: "feeling",
+          text: "How do you feel?",
+          type: "choice",
+          options: ["Well", "Unwell"],
+        },
+      ],
+    },
+  ],
+};
+
+// Screens shown for a list of inputs, starting from the main menu
+const walk = (inputs: string[]) => {
+  let result = UssdService.start(menu);
+  const screens = [result.reply];
+  for (const input of inputs) {
+    result = UssdService.step(menu, result.state, input);
+    screens.push(result.reply);
+  }
+  return { screens, last: result };
+};
+
+describe("UssdService", () => {
+  it("should walk submenus, go back and finish on an action", () => {
+    const { screens, last } = walk(["2", "0", "1"]);
+
+    expect(screens[0]).toEqual({
+      text: "Diabetes Care\n1. Talk to a nurse\n2. Order medicine\n3. Health check",
+      end: false,
+    });
+    expect(screens[1].text).toBe("Order medicine\n1. Metformin 500mg\n0. Back");
+    expect(screens[2]).toEqual(screens[0]);
+    expect(screens[3]).toEqual({
+      text: "A nurse will call you within 15 minutes.",
+      end: true,
+    });
+    expect(last.selected.item.id).toBe("nurse");
+    expect(UssdService.followUpFor(last.selected.item)).toMatchObject({
+      type: "nurse_call",
+      delay: 15,
+    });
+  });
+
+  it("should collect questionnaire answers and end after repeated invalid input", () => {
+    const { screens, last } = walk(["3", "900", "112", "2"]);
+    expect(screens[2].text).toBe(
+      "Invalid answer.\nLast glucose reading (mg/dL)?",
+    );
+    expect(screens[3].text).toBe("How do you feel?\n1. Well\n2. Unwell");
+    expect(screens[4]).toEqual({
+      text: "Thank you for your answers.",
+      end: true,
+    });
+    expect(last.selected.answers).toEqual({ glucose: 112, feeling: "Unwell" });
+    // A questionnaire has no follow-up unless it is given one
+    expect(UssdService.followUpFor(last.selected.item)).toBeNull();
+
+    const failed = walk(["9", "9", "9"]);
+    expect(failed.screens[1].text).toMatch(/^Invalid choice\.\nDiabetes Care/);
+    expect(failed.screens[3]).toEqual({
+      text: "Too many invalid entries. Please dial again.",
+      end: true,
+    });
+    expect(failed.last.selected).toBeUndefined();
+  });
+
+  it("should reject menus that cannot be shown or executed", () => {
+    expect(UssdService.validateDefinition(menu)).toBeNull();
+
+    const withItems = (items: any[]) =>
+      UssdService.validateDefinition({ title: "Menu", items });
+    expect(
+      withItems([
+        { id: "a", option: "1", text: "A", action: "end" },
+        { id: "b", option: "1", text: "B", action: "end" },
+      ]),
+    ).toBe('Item b: option 1 is already used in "Menu"');
+    expect(
+      withItems([{ id: "a", option: "1", text: "Reminders", action: "sms" }]),
+    ).toBe("Item a sends an SMS but its followUpAction has no message");
+    expect(
+      withItems([
+        { id: "a", option: "0", text: "Back to start", action: "end" },
+      ]),
+    ).toBe("Item a: option must be a number from 1 to 99");
+    expect(
+      withItems(
+        Array.from({ length: 9 }, (_, i) => ({
+          id: `item-${i}`,
+          option: String(i + 1),
+          text: "A rather long description of this option",
+          action: "end",
+        })),
+      ),
+    ).toMatch(/^Menu "Menu" is \d+ characters; USSD screens allow 166$/);
+  });
+
+  it("should translate gateway requests and replies", () => {
+    expect(
+      africasTalkingGateway.parse({
+        sessionId: "ATUid_1",
+        serviceCode: "*765#",
+        phoneNumber: "+233 24 412 3456",
+        text: "2*1",
+      }),
+    ).toEqual({
+      sessionId: "ATUid_1",
+      phoneNumber: "+233244123456",
+      serviceCode: "765",
+      input: "1",
+      event: "input",
+    });
+    expect(
+      africasTalkingGateway.render({ text: "Goodbye.", end: true }).body,
+    ).toBe("END Goodbye.");
+
+    expect(
+      hubtelGateway.parse({
+        Type: "Timeout",
+        SessionId: "h-1",
+        Mobile: "233244123456",
+        ServiceCode: "765",
+      }),
+    ).toMatchObject({ input: null, event: "timed_out" });
+    expect(
+      JSON.parse(hubtelGateway.render({ text: "Menu", end: false }).body),
+    ).toEqual({ Type: "Response", Message: "Menu" });
+    expect(hubtelGateway.parse({ Type: "Initiation" })).toBeNull();
+  });
+});
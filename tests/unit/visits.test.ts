@@ -0,0 +1,95 @@
+import { describe, it, expect } from "vitest";
+import {
+  VisitService,
+  VisitSession,
+  VisitEvent,
+} from "../../server/utils/visits";
+
+const session: VisitSession = {
+  id: "visit-1",
+  appointmentId: "appointment-1",
+  patientId: "patient",
+  providerId: "provider",
+  status: "ended",
+  checkedInAt: "2026-07-06T08:55:00.000Z",
+  admittedAt: "2026-07-06T09:05:00.000Z",
+  endedAt: "2026-07-06T09:30:00.000Z",
+  diagnosis: [],
+  recommendations: [],
+};
+
+const event = (
+  userId: string,
+  type: VisitEvent["event"],
+  time: string,
+  role?: string,
+): VisitEvent => ({
+  userId,
+  role,
+  event: type,
+  at: `2026-07-06T${time}:00.000Z`,
+});
+
+describe("VisitService", () => {
+  it("should time the wait and the visit", () => {
+    const timers = VisitService.timers(session, []);
+
+    expect(timers.waitSeconds).toBe(10 * 60);
+    expect(timers.visitSeconds).toBe(25 * 60);
+    expect(timers.faceToFaceSeconds).toBe(0);
+  });
+
+  it("should count face-to-face time only while both sides are connected after admission", () => {
+    const timers = VisitService.timers(session, [
+      event("patient", "joined", "08:56"),
+      event("provider", "joined", "09:04"),
+      event("provider", "admitted", "09:05"),
+      // Patient drops for five minutes
+      event("patient", "left", "09:10"),
+      event("patient", "joined", "09:15"),
+      event("provider", "left", "09:25"),
+    ]);
+
+    expect(timers.faceToFaceSeconds).toBe(15 * 60);
+  });
+
+  it("should not double count a caregiver alongside the patient", () => {
+    const timers = VisitService.timers(session, [
+      event("provider", "joined", "09:05"),
+      event("patient", "joined", "09:05"),
+      event("caregiver", "joined", "09:10", "caregiver"),
+      event("patient", "left", "09:20"),
+    ]);
+
+    // Patient side connected 09:05 until the visit ended at 09:30
+    expect(timers.faceToFaceSeconds).toBe(25 * 60);
+  });
+
+  it("should not count other clinicians as the patient's side", () => {
+    const timers = VisitService.timers(session, [
+      event("provider", "joined", "09:05", "doctor"),
+      event("nurse", "joined", "09:05", "nurse"),
+      event("patient", "joined", "09:20", "patient"),
+    ]);
+
+    expect(timers.faceToFaceSeconds).toBe(10 * 60);
+  });
+
+  it("should run open timers to now while the visit lasts", () => {
+    const timers = VisitService.timers(
+      {
+        ...session,
+        status: "in_progress",
+        endedAt: undefined,
+      },
+      [
+        event("provider", "joined", "09:05"),
+        event("patient", "joined", "09:06"),
+      ],
+      new Date("2026-07-06T09:16:00.000Z"),
+    );
+
+    expect(timers.visitSeconds).toBe(11 * 60);
+    expect(timers.faceToFaceSeconds).toBe(10 * 60);
+  });
+});
@@ -0,0 +1,150 @@
+import fs from "fs";
+import path from "path";
+import { Readable } from "stream";
+import { describe, it, expect } from "vitest";
+import {
+  appleHealthExportImporter,
+  bpCuffCsvImporter,
+  dexcomClarityImporter,
+  FileImporter,
+  ImportOptions,
+  ImportRow,
+  libreViewImporter,
+  parseTimestamp,
+} from "../../server/utils/wearableImport";
+import { PayloadError } from "../../server/utils/wearableConnectors";
+import { WearableIntegrationService } from "../../server/utils/wearableIntegration";
+
+const fixture = (name: string) =>
+  fs.createReadStream(path.join(__dirname, "../fixtures/wearables", name));
+
+const parse = async (
+  importer: FileImporter,
+  input: Readable,
+  options: ImportOptions = { timeZone: "America/New_York" },
+) => {
+  const rows: ImportRow[] = [];
+  for await (const row of importer.parse(input, options)) rows.push(row);
+  return rows;
+};
+
+const readings = (rows: ImportRow[]) =>
+  rows.flatMap((row) => ("reading" in row ? [row.reading] : []));
+
+describe("WearableImportService", () => {
+  it("should read records from an Apple Health export", async () => {
+    const rows = await parse(
+      appleHealthExportImporter,
+      fixture("apple-health-export.xml"),
+    );
+
+    expect(
+      readings(rows).map((r) => [r.type, r.value, r.unit, r.measuredAt]),
+    ).toEqual([
+      ["heart_rate", 72, "count/min", "2024-06-01T08:00:00-04:00"],
+      ["oxygen_saturation", 97, "%", "2024-06-01T08:05:00-04:00"],
+      ["weight", 165.4, "lb", "2024-06-01T07:30:00-04:00"],
+      ["blood_pressure_systolic", 128, "mmHg", "2024-06-01T07:45:00-04:00"],
+      ["blood_pressure_diastolic", 82, "mmHg", "2024-06-01T07:45:00-04:00"],
+      ["heart_rate", NaN, "count/min", "2024-06-02T08:00:00-04:00"],
+    ]);
+    expect(readings(rows)[2].sourceName).toBe("Withings & Health");
+    expect(rows.filter((row) => "skipped" in row)).toEqual([
+      { line: 16, skipped: true },
+    ]);
+
+    // Tags split across stream chunks are still read whole
+    const text = fs.readFileSync(
+      path.join(__dirname, "../fixtures/wearables/apple-health-export.xml"),
+      "utf8",
+    );
+    const chunks = text.match(/[\s\S]{1,7}/g)!;
+    expect(
+      await parse(appleHealthExportImporter, Readable.from(chunks)),
+    ).toEqual(rows);
+
+    await expect(
+      parse(appleHealthExportImporter, Readable.from(["<plist></plist>"])),
+    ).rejects.toThrow(PayloadError);
+  });
+
+  it("should read glucose from Dexcom Clarity and LibreView exports", async () => {
+    const dexcom = await parse(
+      dexcomClarityImporter,
+      fixture("dexcom-clarity.csv"),
+    );
+    expect(
+      readings(dexcom).map((r) => [r.value, r.measuredAt, r.externalId]),
+    ).toEqual([
+      [110, "2024-06-01T12:00:00.000Z", "8GXXXX:5213400"],
+      [118, "2024-06-01T12:05:00.000Z", "8GXXXX:5213700"],
+      [126, "2024-06-01T12:20:00.000Z", "8GXXXX:5214600"],
+    ]);
+    expect(dexcom.filter((row) => "error" in row)).toEqual([
+      { line: 8, error: "Glucose reported as Low, outside the sensor range" },
+    ]);
+    // Patient details, device info, the alert and the calibration
+    expect(dexcom.filter((row) => "skipped" in row)).toHaveLength(5);
+
+    const libre = await parse(libreViewImporter, fixture("libre.csv"));
+    const historic = readings(libre);
+    expect(historic.map((r) => [r.value, r.unit, r.measuredAt])).toEqual([
+      [6.1, "mmol/L", "2024-06-01T12:00:00.000Z"],
+      [6.6, "mmol/L", "2024-06-01T12:15:00.000Z"],
+      [3.4, "mmol/L", "2024-06-01T12:30:00.000Z"],
+      [3.4, "mmol/L", "2024-06-01T12:30:00.000Z"],
+    ]);
+    expect(libre.filter((row) => "skipped" in row)).toHaveLength(2);
+
+    // Stored in mg/dL; the repeated row has the same identity
+    const now = new Date("2024-06-03T00:00:00Z");
+    const stored = historic.map((reading) => {
+      const result = WearableIntegrationService.normalize(
+        reading,
+        libreViewImporter.source,
+        now,
+      );
+      return result.ok === false ? null : result.measurement;
+    });
+    expect(stored.map((m) => m.value)).toEqual([110, 119, 61, 61]);
+    expect(WearableIntegrationService.dedupeKey(stored[2])).toBe(
+      WearableIntegrationService.dedupeKey(stored[3]),
+    );
+  });
+
+  it("should read blood pressure cuff CSVs", async () => {
+    const rows = await parse(bpCuffCsvImporter, fixture("bp-cuff.csv"));
+
+    expect(readings(rows).map((r) => [r.type, r.value, r.measuredAt])).toEqual([
+      ["blood_pressure_systolic", 128, "2024-06-01T11:45:00.000Z"],
+      ["blood_pressure_diastolic", 82, "2024-06-01T11:45:00.000Z"],
+      ["heart_rate", 66, "2024-06-01T11:45:00.000Z"],
+      ["blood_pressure_systolic", 142, "2024-06-02T01:30:00.000Z"],
+      ["blood_pressure_diastolic", 91, "2024-06-02T01:30:00.000Z"],
+      ["blood_pressure_systolic", NaN, "2024-06-02T12:00:00.000Z"],
+      ["blood_pressure_diastolic", 80, "2024-06-02T12:00:00.000Z"],
+      ["heart_rate", 70, "2024-06-02T12:00:00.000Z"],
+    ]);
+    expect(rows.filter((row) => "error" in row)).toEqual([
+      { line: 4, error: "Unrecognized timestamp" },
+    ]);
+
+    await expect(
+      parse(bpCuffCsvImporter, Readable.from(["Date,Weight\n2024-06-01,80\n"])),
+    ).rejects.toThrow(PayloadError);
+  });
+
+  it("should read local timestamps in the patient's time zone", () => {
+    const options = { timeZone: "Europe/London", dayFirst: true };
+    expect(parseTimestamp("02/01/2024 08:30", options)).toBe(
+      "2024-01-02T08:30:00.000Z",
+    );
+    expect(parseTimestamp("01-07-2024 8:30 PM", options)).toBe(
+      "2024-07-01T19:30:00.000Z",
+    );
+    expect(parseTimestamp("2024-07-01T08:30:00Z", options)).toBe(
+      "2024-07-01T08:30:00.000Z",
+    );
+    expect(parseTimestamp("13/13/2024 08:30", options)).toBeNull();
+  });
+});
@@ -0,0 +1,178 @@
+import { describe, it, expect } from "vitest";
+import { WearableIntegrationService } from "../../server/utils/wearableIntegration";
+import {
+  appleHealthConnector,
+  bpMonitorConnector,
+  fitbitConnector,
+  PayloadError,
+  RawMeasurement,
+} from "../../server/utils/wearableConnectors";
+
+const now = new Date("2024-06-01T12:00:00Z");
+
+describe("WearableIntegrationService", () => {
+  it("should parse vendor payloads into raw measurements", () => {
+    expect(
+      appleHealthConnector.parse({
+        samples: [
+          {
+            type: "HKQuantityTypeIdentifierOxygenSaturation",
+            value: 0.97,
+            unit: "%",
+            startDate: "2024-06-01T08:00:00Z",
+            uuid: "A1",
+          },
+          { type: "HKCategoryTypeIdentifierSleepAnalysis", value: 1 },
+        ],
+      }),
+    ).toEqual([
+      {
+        type: "oxygen_saturation",
+        value: 97,
+        unit: "%",
+        measuredAt: "2024-06-01T08:00:00Z",
+        externalId: "A1",
+        sourceName: undefined,
+      },
+    ]);
+
+    const fitbit = fitbitConnector.parse({
+      "activities-heart": [
+        { dateTime: "2024-06-01", value: { restingHeartRate: 61 } },
+      ],
+      "activities-heart-intraday": {
+        dataset: [{ time: "08:15:00", value: 74 }],
+      },
+    });
+    expect(fitbit.map((m) => [m.value, m.measuredAt])).toEqual([
+      [61, "2024-06-01T00:00:00Z"],
+      [74, "2024-06-01T08:15:00Z"],
+    ]);
+
+    const cuff = bpMonitorConnector.parse({
+      readings: [
+        { id: 7, systolic: 142, diastolic: 91, timestamp: "2024-06-01" },
+      ],
+    });
+    expect(cuff.map((m) => [m.type, m.externalId])).toEqual([
+      ["blood_pressure_systolic", "7:systolic"],
+      ["blood_pressure_diastolic", "7:diastolic"],
+    ]);
+
+    expect(() => bpMonitorConnector.parse({ data: [] })).toThrow(PayloadError);
+  });
+
+  it("should convert readings into stored units and keep the original", () => {
+    const glucose = WearableIntegrationService.normalize(
+      {
+        type: "glucose",
+        value: 7.2,
+        unit: "mmol/L",
+        measuredAt: "2024-06-01T11:00:00Z",
+      },
+      "dexcom",
+      now,
+    );
+    expect(glucose.ok && glucose.measurement).toMatchObject({
+      value: 130,
+      unit: "mg/dL",
+      provenance: {
+        source: "dexcom",
+        originalValue: 7.2,
+        originalUnit: "mmol/L",
+      },
+    });
+
+    const temperature = WearableIntegrationService.normalize(
+      {
+        type: "temperature",
+        value: 38.5,
+        unit: "degC",
+        measuredAt: "2024-06-01T11:00:00Z",
+      },
+      "generic",
+      now,
+    );
+    expect(temperature.ok && temperature.measurement.value).toBe(101.3);
+
+    const pulse = WearableIntegrationService.normalize(
+      { type: "heart_rate", value: 72, measuredAt: "2024-06-01T11:00:00Z" },
+      "generic",
+      now,
+    );
+    expect(pulse.ok && pulse.measurement).toMatchObject({
+      value: 72,
+      unit: "/min",
+    });
+    expect(pulse.ok && pulse.measurement.provenance.originalUnit).toBe(
+      undefined,
+    );
+  });
+
+  it("should reject readings that cannot be stored as measured", () => {
+    const reason = (raw: any) => {
+      const result = WearableIntegrationService.normalize(raw, "generic", now);
+      return result.ok === false ? result.reason : null;
+    };
+    const at = "2024-06-01T11:00:00Z";
+
+    expect(reason({ type: "heart_rate", value: 400, measuredAt: at })).toBe(
+      "heart_rate of 400 /min is outside the plausible range",
+    );
+    expect(reason({ type: "weight", value: 80, measuredAt: at })).toBe(
+      "A unit is required for weight",
+    );
+    expect(
+      reason({ type: "glucose", value: 110, unit: "kg", measuredAt: at }),
+    ).toBe("Cannot convert kg to mg/dL for glucose");
+    expect(
+      reason({
+        type: "heart_rate",
+        value: 70,
+        measuredAt: "2024-06-01T13:00:00Z",
+      }),
+    ).toBe("Measurement time is in the future");
+    expect(reason({ type: "mood", value: 3, measuredAt: at })).toBe(
+      "Unsupported measurement type mood",
+    );
+  });
+
+  it("should recognise a reading sent twice", () => {
+    const normalize = (raw: any) => {
+      const result = WearableIntegrationService.normalize(raw, "generic", now);
+      if (result.ok === false) throw new Error(result.reason);
+      return result.measurement;
+    };
+    const reading: RawMeasurement = {
+      type: "heart_rate",
+      value: 72,
+      measuredAt: "2024-06-01T11:00:00+00:00",
+    };
+
+    // Same time written differently, received at a different moment
+    const again = WearableIntegrationService.normalize(
+      { ...reading, measuredAt: "2024-06-01T11:00:00Z" },
+      "generic",
+      new Date("2024-06-01T12:30:00Z"),
+    );
+    expect(
+      again.ok && WearableIntegrationService.dedupeKey(again.measurement),
+    ).toBe(WearableIntegrationService.dedupeKey(normalize(reading)));
+    expect(
+      WearableIntegrationService.dedupeKey(
+        normalize({ ...reading, value: 73 }),
+      ),
+    ).not.toBe(WearableIntegrationService.dedupeKey(normalize(reading)));
+
+    // Vendor ids win over the reading's content
+    expect(
+      WearableIntegrationService.dedupeKey(
+        normalize({ ...reading, externalId: "x1" }),
+      ),
+    ).toBe(
+      WearableIntegrationService.dedupeKey(
+        normalize({ ...reading, value: 75, externalId: "x1" }),
+      ),
+    );
+  });
+});